@@ -39,6 +39,11 @@ import {
   parseNotifeeEnvelope,
   reconcileAndroidNotificationGroups,
 } from '@/lib/notifications/androidPresenter';
+import { settleAndroidNotificationQuickAction } from '@/lib/notifications/background';
+import {
+  getNotificationQuickAction,
+  performNotificationQuickAction,
+} from '@/lib/notifications/quickActions';
 import { publishNativeNotificationRoute } from '@/lib/nativeAppBridge';
 import { normalizeNotificationRoute } from '@/lib/notifications/routes';
 import {
@@ -283,6 +288,29 @@ export function NativeNotificationsProvider({ children }: { children: ReactNode
   const consumeResponse = useCallback(async (
     response: Notifications.NotificationResponse
   ) => {
+    // Quick actions carry their own signed token, so they never wait for a session.
+    const quickEnvelope = getEnvelopeFromNotification(response.notification);
+    const quickAction = quickEnvelope
+      ? getNotificationQuickAction(quickEnvelope, response.actionIdentifier)
+      : null;
+    if (quickEnvelope && quickAction) {
+      const responseId = response.notification.request.identifier;
+      if (handledResponseIds.current.has(responseId)) return;
+      handledResponseIds.current.add(responseId);
+      try {
+        await performNotificationQuickAction(
+          quickEnvelope,
+          quickAction,
+          response.userText
+        );
+        await Notifications.dismissNotificationAsync(responseId).catch(() => undefined);
+      } catch (caught) {
+        setError(caught instanceof Error
+          ? caught.message
+          : 'Could not complete the notification action.');
+      }
+      return;
+    }
     if (!sessionRef.current?.user) {
       pendingResponseRef.current = response;
       return;
@@ -309,6 +337,7 @@ export function NativeNotificationsProvider({ children }: { children: ReactNode
       event.type !== EventType.PRESS &&
       event.type !== EventType.ACTION_PRESS
     ) return;
+    if (await settleAndroidNotificationQuickAction(event)) return;
     if (!sessionRef.current?.user) {
       pendingNotifeeEventRef.current = event;
       return;
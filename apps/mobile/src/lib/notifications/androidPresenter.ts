@@ -166,6 +166,29 @@ export const reconcileAndroidNotificationGroups = async (
   }));
 };
 
+// Android shows three actions at most, so a signed DM trades Open and Mark read
+// for the quick actions; tapping the notification body still opens it.
+const quickActionButtons = (
+  envelope: NotificationEnvelopeV2
+): NotificationAndroid['actions'] | null => {
+  if (!envelope.actionToken) return null;
+  const actions: NonNullable<NotificationAndroid['actions']> = [];
+  if (envelope.actions.includes('reply')) {
+    actions.push({
+      title: 'Reply',
+      pressAction: { id: 'reply' },
+      input: { placeholder: 'Reply', allowFreeFormInput: true },
+    });
+  }
+  if (envelope.actions.includes('react')) {
+    actions.push({ title: '❤️', pressAction: { id: 'react' } });
+  }
+  if (envelope.actions.includes('mute_conversation')) {
+    actions.push({ title: 'Mute', pressAction: { id: 'mute_conversation' } });
+  }
+  return actions.length > 0 ? actions : null;
+};
+
 export const displayAndroidNotificationEnvelope = async (
   envelope: NotificationEnvelopeV2,
   badgeCount = 0
@@ -188,7 +211,7 @@ export const displayAndroidNotificationEnvelope = async (
       smallIcon: 'notification_icon',
       style: androidStyle(envelope),
       visibility: AndroidVisibility.PRIVATE,
-      actions: [
+      actions: quickActionButtons(envelope) ?? [
         {
           title: envelope.category === 'shadow_checkers' ? 'Play' : 'Open',
           pressAction: { id: 'open', launchActivity: 'default' },
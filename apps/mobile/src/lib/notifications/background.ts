@@ -1,8 +1,17 @@
+import notifee, { EventType } from '@notifee/react-native';
 import * as Notifications from 'expo-notifications';
 import * as TaskManager from 'expo-task-manager';
 import { AppState, Platform } from 'react-native';
 
-import { displayAndroidNotificationEnvelope } from './androidPresenter';
+import {
+  displayAndroidNotificationEnvelope,
+  parseNotifeeEnvelope,
+  reconcileAndroidNotificationGroups,
+} from './androidPresenter';
+import {
+  getNotificationQuickAction,
+  performNotificationQuickAction,
+} from './quickActions';
 import { parseNotificationEnvelopeV2 } from '@/types/notification-envelope-v2';
 
 export const NATIVE_NOTIFICATION_TASK =
@@ -61,6 +70,44 @@ export const presentationFromTaskPayload = (payload: unknown) => {
   };
 };
 
+/**
+ * Settles a tray quick action. Success clears the alert; failure replaces it
+ * with a plain one that still opens the conversation.
+ */
+export const settleAndroidNotificationQuickAction = async (
+  event: Parameters<Parameters<typeof notifee.onBackgroundEvent>[0]>[0]
+) => {
+  if (event.type !== EventType.ACTION_PRESS) return false;
+  const envelope = parseNotifeeEnvelope(event.detail.notification);
+  const action = envelope
+    ? getNotificationQuickAction(envelope, event.detail.pressAction?.id)
+    : null;
+  if (!envelope || !action) return false;
+
+  const notificationId = event.detail.notification?.id ?? envelope.eventId;
+  try {
+    await performNotificationQuickAction(envelope, action, event.detail.input);
+    await notifee.cancelNotification(notificationId);
+    await reconcileAndroidNotificationGroups([envelope.groupKey]);
+  } catch {
+    const title = action === 'reply' ? 'Reply not sent' : 'Action not completed';
+    const failedEnvelope = {
+      ...envelope,
+      actions: ['open' as const],
+      content: {
+        ...envelope.content,
+        title,
+        body: 'Open ShadowChat to try again.',
+        privateTitle: title,
+        privateBody: 'Open ShadowChat to try again.',
+      },
+    };
+    delete failedEnvelope.actionToken;
+    await displayAndroidNotificationEnvelope(failedEnvelope);
+  }
+  return true;
+};
+
 export const registerNativeNotificationBackgroundTask = async () => {
   if (Platform.OS !== 'android') return;
   if (await TaskManager.isTaskRegisteredAsync(NATIVE_NOTIFICATION_TASK)) return;
@@ -83,4 +130,7 @@ if (Platform.OS === 'android') {
   void registerNativeNotificationBackgroundTask()
     .catch(() => undefined);
 
+  notifee.onBackgroundEvent(async event => {
+    await settleAndroidNotificationQuickAction(event);
+  });
 }
@@ -7,6 +7,10 @@ import type {
 } from '@/types/notification-envelope-v2';
 
 export const NOTIFICATION_CHANNEL_SCHEMA_VERSION = 2;
+// Reported at registration so delivery knows this build understands DM quick
+// actions. Channel ids stay on the channel schema version above.
+export const NOTIFICATION_INSTALLATION_SCHEMA_VERSION = 3;
+export const NOTIFICATION_QUICK_ACTION_CATEGORY = 'shadowchat_dm';
 
 export const notificationSoundFiles: Record<
   Exclude<NotificationSoundId, 'system_default' | 'silent'>,
@@ -166,6 +170,24 @@ export const configureNativeNotifications = async () => {
         options: { opensAppToForeground: true },
       },
     ]),
+    Notifications.setNotificationCategoryAsync(NOTIFICATION_QUICK_ACTION_CATEGORY, [
+      {
+        identifier: 'reply',
+        buttonTitle: 'Reply',
+        textInput: { submitButtonTitle: 'Send', placeholder: 'Reply' },
+        options: { opensAppToForeground: false, isAuthenticationRequired: true },
+      },
+      {
+        identifier: 'react',
+        buttonTitle: '❤️',
+        options: { opensAppToForeground: false },
+      },
+      {
+        identifier: 'mute_conversation',
+        buttonTitle: 'Mute',
+        options: { opensAppToForeground: false, isAuthenticationRequired: true },
+      },
+    ]),
     Notifications.setNotificationCategoryAsync('shadowchat_social', [
       {
         identifier: 'open',
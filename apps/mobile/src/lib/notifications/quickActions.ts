@@ -0,0 +1,70 @@
+import * as Crypto from 'expo-crypto';
+
+import {
+  isNotificationQuickActionKey,
+  type NotificationEnvelopeV2,
+  type NotificationQuickActionKey,
+} from '@/types/notification-envelope-v2';
+
+const QUICK_ACTION_TIMEOUT_MS = 10_000;
+
+export const getNotificationQuickAction = (
+  envelope: NotificationEnvelopeV2,
+  actionId: string | null | undefined
+): NotificationQuickActionKey | null => (
+  envelope.actionToken &&
+  isNotificationQuickActionKey(actionId) &&
+  envelope.actions.includes(actionId)
+    ? actionId
+    : null
+);
+
+/**
+ * Redeems the envelope's signed action token. It needs no session, so a reply
+ * typed on the lock screen is sent even when the app is not running. Each
+ * reply gets its own client message id so a retried request lands once.
+ */
+export const performNotificationQuickAction = async (
+  envelope: NotificationEnvelopeV2,
+  action: NotificationQuickActionKey,
+  replyText?: string | null
+) => {
+  const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !supabaseAnonKey || !envelope.actionToken) {
+    throw new Error('This notification can no longer be answered here.');
+  }
+  const text = replyText?.trim() ?? '';
+  if (action === 'reply' && !text) {
+    throw new Error('Write a reply before sending.');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), QUICK_ACTION_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(
+      `${supabaseUrl.replace(/\/+$/, '')}/functions/v1/notification-action`,
+      {
+        method: 'POST',
+        headers: {
+          apikey: supabaseAnonKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          token: envelope.actionToken,
+          action,
+          ...(action === 'reply'
+            ? { text, clientMessageId: `notification:${Crypto.randomUUID()}` }
+            : {}),
+        }),
+        signal: controller.signal,
+      }
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+  if (!response.ok) {
+    throw new Error(`Notification action failed (${response.status}).`);
+  }
+};
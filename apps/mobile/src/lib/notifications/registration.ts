@@ -7,7 +7,7 @@ import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 
 import { registerNativeNotificationBackgroundTask } from './background';
-import { NOTIFICATION_CHANNEL_SCHEMA_VERSION } from './config';
+import { NOTIFICATION_INSTALLATION_SCHEMA_VERSION } from './config';
 import { getFreshDevicePushTokenAsync } from './freshDevicePushToken';
 import { runNotificationStage } from './registrationPipeline';
 import type { NativeNotificationStage } from './stages';
@@ -258,7 +258,7 @@ const redeemNativeNotificationEnrollmentTicket = async ({
         target_build_number: Application.nativeBuildVersion,
         target_locale: Intl.DateTimeFormat().resolvedOptions().locale,
         target_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        target_channel_schema_version: NOTIFICATION_CHANNEL_SCHEMA_VERSION,
+        target_channel_schema_version: NOTIFICATION_INSTALLATION_SCHEMA_VERSION,
         target_token: expoPushToken,
       }),
       }
@@ -39,7 +39,21 @@ export type NotificationSoundId = typeof NOTIFICATION_SOUND_IDS_V2[number];
 
 const priorities = ['ambient', 'normal', 'high', 'urgent'] as const;
 const privacyModes = ['full', 'sender_only', 'private'] as const;
-const actionKeys = ['open', 'mark_read'] as const;
+const actionKeys = [
+  'open',
+  'mark_read',
+  'reply',
+  'react',
+  'mute_conversation',
+] as const;
+export const NOTIFICATION_QUICK_ACTION_KEYS = [
+  'reply',
+  'react',
+  'mute_conversation',
+] as const;
+
+export type NotificationActionKey = typeof actionKeys[number];
+export type NotificationQuickActionKey = typeof NOTIFICATION_QUICK_ACTION_KEYS[number];
 const androidChannelKeys = [
   'messages_v1',
   'mentions_v1',
@@ -87,7 +101,9 @@ export interface NotificationEnvelopeV2 {
     thumbnailUrl: string;
     alt: string;
   } | null;
-  actions: Array<typeof actionKeys[number]>;
+  actions: NotificationActionKey[];
+  /** Signed credential that lets a quick action run without a session. */
+  actionToken?: string;
   soundId: NotificationSoundId;
   androidChannelKey: typeof androidChannelKeys[number];
   badgeCategory: typeof badgeCategories[number];
@@ -101,6 +117,7 @@ const soundSet = new Set<string>(NOTIFICATION_SOUND_IDS_V2);
 const prioritySet = new Set<string>(priorities);
 const privacySet = new Set<string>(privacyModes);
 const actionSet = new Set<string>(actionKeys);
+const quickActionSet = new Set<string>(NOTIFICATION_QUICK_ACTION_KEYS);
 const androidChannelSet = new Set<string>(androidChannelKeys);
 const badgeCategorySet = new Set<string>(badgeCategories);
 const MAX_NOTIFICATION_MEDIA_URL_LENGTH = 2048;
@@ -150,6 +167,10 @@ const hasExactKeys = (
   return actual.length === keys.length && actual.every(key => keys.includes(key));
 };
 
+export const isNotificationQuickActionKey = (
+  value: unknown
+): value is NotificationQuickActionKey => quickActionSet.has(String(value));
+
 const isBoundedString = (
   value: unknown,
   maxLength: number,
@@ -260,12 +281,16 @@ export const parseNotificationEnvelopeV2 = (
   const content = asRecord(record.content);
   const media = record.media === null ? null : asRecord(record.media);
   const actions = Array.isArray(record.actions) ? record.actions : [];
+  const hasActionToken = 'actionToken' in record;
   const expiresAt = typeof record.expiresAt === 'string'
     ? Date.parse(record.expiresAt)
     : Number.NaN;
 
   const valid = (
-    hasExactKeys(record, envelopeKeys) &&
+    hasExactKeys(
+      record,
+      hasActionToken ? [...envelopeKeys, 'actionToken'] : envelopeKeys
+    ) &&
     record.schemaVersion === NOTIFICATION_ENVELOPE_VERSION &&
     isBoundedString(record.eventId, 128) &&
     eventIds.length >= 1 &&
@@ -321,9 +346,16 @@ export const parseNotificationEnvelopeV2 = (
       )
     ) &&
     actions.length >= 1 &&
-    actions.length <= 2 &&
+    actions.length <= 5 &&
     actions.every(action => actionSet.has(String(action))) &&
     new Set(actions).size === actions.length &&
+    (
+      hasActionToken
+        ? isBoundedString(record.actionToken, 512) &&
+          /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(record.actionToken) &&
+          actions.some(isNotificationQuickActionKey)
+        : !actions.some(isNotificationQuickActionKey)
+    ) &&
     soundSet.has(String(record.soundId)) &&
     androidChannelSet.has(String(record.androidChannelKey)) &&
     badgeCategorySet.has(String(record.badgeCategory)) &&
@@ -0,0 +1,54 @@
+const MAX_MEDIA_ATTEMPTS = 10
+
+/**
+ * Deletes expired disappearing DMs, then removes the uploads they pointed at.
+ * Queue rows stay behind on a failed removal so the next run retries them.
+ */
+export async function purgeExpiredDirectMessages(admin, limit = 100) {
+  const batchSize = Math.max(1, Math.min(Number(limit) || 100, 500))
+  const { data: purgedMessages, error: purgeError } = await admin.rpc('purge_expired_dm_messages', {
+    batch_size: batchSize * 2,
+  })
+  if (purgeError) throw purgeError
+
+  const { data: queued, error: queueError } = await admin.from('dm_message_media_purges')
+    .select('id,bucket,object_path,attempts')
+    .lt('attempts', MAX_MEDIA_ATTEMPTS)
+    .order('created_at', { ascending: true })
+    .limit(batchSize)
+  if (queueError) throw queueError
+
+  const byBucket = new Map()
+  for (const row of queued || []) {
+    byBucket.set(row.bucket, [...(byBucket.get(row.bucket) || []), row])
+  }
+
+  const failures = []
+  let removedObjects = 0
+  for (const [bucket, rows] of byBucket) {
+    const { error: removeError } = await admin.storage.from(bucket).remove(rows.map(row => row.object_path))
+    if (removeError) {
+      const message = removeError.message || 'Storage removal failed.'
+      failures.push({ bucket, error: message })
+      for (const row of rows) {
+        await admin.from('dm_message_media_purges')
+          .update({ attempts: row.attempts + 1, last_error: message.slice(0, 500) })
+          .eq('id', row.id)
+      }
+      continue
+    }
+
+    const { error: deleteError } = await admin.from('dm_message_media_purges')
+      .delete()
+      .in('id', rows.map(row => row.id))
+    if (deleteError) throw deleteError
+    removedObjects += rows.length
+  }
+
+  return {
+    purgedMessages: Number(purgedMessages) || 0,
+    scannedObjects: (queued || []).length,
+    removedObjects,
+    failures,
+  }
+}
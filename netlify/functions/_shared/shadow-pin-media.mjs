@@ -309,6 +309,7 @@ const CREATOR_MEDIA_ACTION_LIMITS = new Map([
   ['stage-draft-image-from-url', 6],
   ['prepare-draft-image-publish', 6],
   ['publish-draft-image', 6],
+  ['prepare-draft-slide-publish', 20],
   ['rollback-draft-image-publish', 12],
   ['delete-draft-image-assets', 10],
 ])
@@ -770,9 +771,11 @@ async function findDraftImageAsset(admin, userId, draftId, column, value) {
   return data
 }
 
+// Carousel slides are processed beside the cover: they never become the
+// draft's active asset, so the cover and the other slides stay untouched.
 async function processCreatorDraftImageBuffer({
   admin, userId, draftId, expectedRevision, storagePath, buffer,
-  contentType, sizeBytes, sourceUrl = null,
+  contentType, sizeBytes, sourceUrl = null, slide = false,
 }) {
   const pathPrefix = `${userId}/${draftId}/`
   if (!storagePath?.startsWith(pathPrefix)) throw new Error('Draft storage path is invalid.')
@@ -784,14 +787,14 @@ async function processCreatorDraftImageBuffer({
   let asset = await findDraftImageAsset(admin, userId, draftId, 'original_path', storagePath)
   if (asset && ['ready', 'publish_ready'].includes(asset.state)) {
     const draft = await getCreatorDraftForWorker(admin, userId, draftId)
-    const activeDraft = draft.active_asset_id === asset.id
+    const activeDraft = slide || draft.active_asset_id === asset.id
       ? draft
       : await activateCreatorDraftAsset(admin, draftId, asset.id, asset.state)
     return { draft: activeDraft, asset }
   }
 
   const draft = await getCreatorDraftForWorker(admin, userId, draftId, expectedRevision)
-  if (!['image_upload', 'image_url'].includes(draft.source_kind)) {
+  if (!slide && !['image_upload', 'image_url'].includes(draft.source_kind)) {
     throw new Error('Draft source is not an image.')
   }
   const { thumbnail, medium, width, height } = await createDerivatives(buffer)
@@ -814,7 +817,7 @@ async function processCreatorDraftImageBuffer({
     await admin.from('shadow_pin_draft_assets').update({ state: 'processing', error_code: null, error_message: null })
       .eq('id', assetId)
   }
-  await activateCreatorDraftAsset(admin, draftId, assetId, 'processing')
+  if (!slide) await activateCreatorDraftAsset(admin, draftId, assetId, 'processing')
 
   const privatePaths = [privateThumb, privateMedium]
   try {
@@ -835,7 +838,7 @@ async function processCreatorDraftImageBuffer({
       error_code: null, error_message: null,
     }).eq('id', assetId).select('*').single()
     if (readyError) throw readyError
-    const readyDraft = await activateCreatorDraftAsset(admin, draftId, assetId, 'ready')
+    const readyDraft = slide ? draft : await activateCreatorDraftAsset(admin, draftId, assetId, 'ready')
     return { draft: readyDraft, asset: readyAsset }
   } catch (error) {
     await removeObjectsQuietly(admin, SHADOW_PIN_DRAFT_BUCKET, privatePaths)
@@ -843,20 +846,22 @@ async function processCreatorDraftImageBuffer({
     await admin.from('shadow_pin_draft_assets').update({
       state: 'failed', error_code: 'image_processing_failed', error_message: message.slice(0, 500),
     }).eq('id', assetId)
-    await admin.from('shadow_pin_creator_drafts').update({
-      state: 'failed', last_error_code: 'image_processing_failed', last_error_message: message.slice(0, 500),
-    }).eq('id', draftId)
+    if (!slide) {
+      await admin.from('shadow_pin_creator_drafts').update({
+        state: 'failed', last_error_code: 'image_processing_failed', last_error_message: message.slice(0, 500),
+      }).eq('id', draftId)
+    }
     throw error
   }
 }
 
 export async function processShadowPinDraftImage({
-  admin, userId, draftId, expectedRevision, storagePath, contentType, sizeBytes,
+  admin, userId, draftId, expectedRevision, storagePath, contentType, sizeBytes, slide = false,
 }) {
   const existing = await findDraftImageAsset(admin, userId, draftId, 'original_path', storagePath)
   if (existing && ['ready', 'publish_ready'].includes(existing.state)) {
     const draft = await getCreatorDraftForWorker(admin, userId, draftId)
-    const activeDraft = draft.active_asset_id === existing.id
+    const activeDraft = slide || draft.active_asset_id === existing.id
       ? draft
       : await activateCreatorDraftAsset(admin, draftId, existing.id, existing.state)
     return { draft: activeDraft, asset: existing }
@@ -866,7 +871,7 @@ export async function processShadowPinDraftImage({
   const buffer = Buffer.from(await blob.arrayBuffer())
   return processCreatorDraftImageBuffer({
     admin, userId, draftId, expectedRevision, storagePath, buffer,
-    contentType, sizeBytes: Number(sizeBytes) || buffer.byteLength,
+    contentType, sizeBytes: Number(sizeBytes) || buffer.byteLength, slide,
   })
 }
 
@@ -930,6 +935,61 @@ export async function prepareShadowPinDraftImagePublish({
     return { draft: publishReadyDraft, asset }
   }
   if (asset.state !== 'ready') throw new Error('Draft image is not ready to publish.')
+  try {
+    const promotedAsset = await promoteCreatorDraftImageAsset(admin, userId, draftId, asset)
+    const promotedDraft = await activateCreatorDraftAsset(admin, draftId, asset.id, 'publish_ready')
+    return { draft: promotedDraft, asset: promotedAsset }
+  } catch (error) {
+    await resetCreatorDraftImagePromotion(admin, userId, draftId, asset)
+    await admin.rpc('release_shadow_pin_image_promotion', {
+      target_creator_id: userId,
+      target_draft_id: draftId,
+      target_lease_token: resolvedLeaseToken,
+      target_next_state: 'ready',
+    }).catch(() => undefined)
+    throw error
+  }
+}
+
+/**
+ * Copies an extra carousel slide into the public bucket ahead of the cover
+ * publish. Slides are not leased like the cover: promotion is idempotent and
+ * the finalize trigger refuses to publish until every slide is publish_ready.
+ */
+export async function prepareShadowPinDraftSlidePublish({ admin, userId, draftId, assetId }) {
+  const draft = await getCreatorDraftForWorker(admin, userId, draftId)
+  const { data: slideRow, error: slideError } = await admin.from('shadow_pin_creator_draft_slides')
+    .select('position').eq('draft_id', draftId).eq('asset_id', assetId).maybeSingle()
+  if (slideError) throw slideError
+  if (!slideRow || slideRow.position === 0) throw new Error('Carousel slide is unavailable.')
+  const { data: asset, error: assetError } = await admin.from('shadow_pin_draft_assets').select('*')
+    .eq('id', assetId).eq('draft_id', draftId).eq('creator_id', userId)
+    .eq('provider', 'shadow_pin_storage').is('deleted_at', null).maybeSingle()
+  if (assetError) throw assetError
+  if (!asset) throw new Error('Draft image asset is unavailable.')
+  if (asset.state === 'publish_ready') return { draft, asset }
+  if (asset.state !== 'ready') throw new Error('Carousel slide is not ready to publish.')
+  try {
+    const promotedAsset = await promoteCreatorDraftImageAsset(admin, userId, draftId, asset)
+    return { draft, asset: promotedAsset }
+  } catch (error) {
+    await resetCreatorDraftImagePromotion(admin, userId, draftId, asset)
+    throw error
+  }
+}
+
+function creatorDraftImagePublicPaths(userId, draftId, asset) {
+  const imageType = resolveImageType(asset.content_type)
+  const publicBase = `${userId}/studio/${draftId}/${asset.id}`
+  return {
+    imageType,
+    finalOriginal: `${publicBase}/original.${imageType.extension}`,
+    finalThumb: `${publicBase}/thumbnail.webp`,
+    finalMedium: `${publicBase}/medium.webp`,
+  }
+}
+
+async function promoteCreatorDraftImageAsset(admin, userId, draftId, asset) {
   if (!asset.original_path || !asset.thumbnail_path || !asset.medium_path) {
     throw new Error('Draft image manifest is incomplete.')
   }
@@ -942,52 +1002,40 @@ export async function prepareShadowPinDraftImagePublish({
   if (originalError) throw originalError
   if (thumbError) throw thumbError
   if (mediumError) throw mediumError
-  const imageType = resolveImageType(asset.content_type)
-  const publicBase = `${userId}/studio/${draftId}/${asset.id}`
-  const finalOriginal = `${publicBase}/original.${imageType.extension}`
-  const finalThumb = `${publicBase}/thumbnail.webp`
-  const finalMedium = `${publicBase}/medium.webp`
-  const publicPaths = [finalOriginal, finalThumb, finalMedium]
-  try {
-    for (const [path, blob, contentType] of [
-      [finalOriginal, originalBlob, imageType.contentType],
-      [finalThumb, thumbBlob, 'image/webp'],
-      [finalMedium, mediumBlob, 'image/webp'],
-    ]) {
-      const { error } = await admin.storage.from(SHADOW_PIN_BUCKET).upload(path, blob, {
-        cacheControl: '31536000', contentType, upsert: true,
-      })
-      if (error) throw error
-    }
-    const publicStore = admin.storage.from(SHADOW_PIN_BUCKET)
-    const { data: originalPublic } = publicStore.getPublicUrl(finalOriginal)
-    const { data: thumbPublic } = publicStore.getPublicUrl(finalThumb)
-    const { data: mediumPublic } = publicStore.getPublicUrl(finalMedium)
-    const { data: promotedAsset, error: promoteError } = await admin.from('shadow_pin_draft_assets').update({
-      state: 'publish_ready',
-      final_image_url: originalPublic.publicUrl, final_image_path: finalOriginal,
-      final_thumbnail_url: thumbPublic.publicUrl, final_thumbnail_path: finalThumb,
-      final_medium_url: mediumPublic.publicUrl, final_medium_path: finalMedium,
-      error_code: null, error_message: null,
-    }).eq('id', asset.id).select('*').single()
-    if (promoteError) throw promoteError
-    const promotedDraft = await activateCreatorDraftAsset(admin, draftId, asset.id, 'publish_ready')
-    return { draft: promotedDraft, asset: promotedAsset }
-  } catch (error) {
-    await removeObjectsQuietly(admin, SHADOW_PIN_BUCKET, publicPaths)
-    await admin.from('shadow_pin_draft_assets').update({
-      state: 'ready', final_image_url: null, final_image_path: null,
-      final_thumbnail_url: null, final_thumbnail_path: null,
-      final_medium_url: null, final_medium_path: null,
-    }).eq('id', asset.id)
-    await admin.rpc('release_shadow_pin_image_promotion', {
-      target_creator_id: userId,
-      target_draft_id: draftId,
-      target_lease_token: resolvedLeaseToken,
-      target_next_state: 'ready',
-    }).catch(() => undefined)
-    throw error
+  const { imageType, finalOriginal, finalThumb, finalMedium } = creatorDraftImagePublicPaths(userId, draftId, asset)
+  for (const [path, blob, contentType] of [
+    [finalOriginal, originalBlob, imageType.contentType],
+    [finalThumb, thumbBlob, 'image/webp'],
+    [finalMedium, mediumBlob, 'image/webp'],
+  ]) {
+    const { error } = await admin.storage.from(SHADOW_PIN_BUCKET).upload(path, blob, {
+      cacheControl: '31536000', contentType, upsert: true,
+    })
+    if (error) throw error
   }
+  const publicStore = admin.storage.from(SHADOW_PIN_BUCKET)
+  const { data: originalPublic } = publicStore.getPublicUrl(finalOriginal)
+  const { data: thumbPublic } = publicStore.getPublicUrl(finalThumb)
+  const { data: mediumPublic } = publicStore.getPublicUrl(finalMedium)
+  const { data: promotedAsset, error: promoteError } = await admin.from('shadow_pin_draft_assets').update({
+    state: 'publish_ready',
+    final_image_url: originalPublic.publicUrl, final_image_path: finalOriginal,
+    final_thumbnail_url: thumbPublic.publicUrl, final_thumbnail_path: finalThumb,
+    final_medium_url: mediumPublic.publicUrl, final_medium_path: finalMedium,
+    error_code: null, error_message: null,
+  }).eq('id', asset.id).select('*').single()
+  if (promoteError) throw promoteError
+  return promotedAsset
+}
+
+async function resetCreatorDraftImagePromotion(admin, userId, draftId, asset) {
+  const { finalOriginal, finalThumb, finalMedium } = creatorDraftImagePublicPaths(userId, draftId, asset)
+  await removeObjectsQuietly(admin, SHADOW_PIN_BUCKET, [finalOriginal, finalThumb, finalMedium])
+  await admin.from('shadow_pin_draft_assets').update({
+    state: 'ready', final_image_url: null, final_image_path: null,
+    final_thumbnail_url: null, final_thumbnail_path: null,
+    final_medium_url: null, final_medium_path: null,
+  }).eq('id', asset.id)
 }
 
 export async function rollbackShadowPinDraftImagePublish({
@@ -1058,15 +1106,15 @@ export async function rollbackShadowPinDraftImagePublish({
   return { draft: readyDraft, asset: readyAsset, canonicalReferenced: false }
 }
 
-export async function publishShadowPinDraftImage({
-  admin, userClient, userId, draftId, expectedRevision, assetId, publishIdempotencyKey,
+async function publishPreparedShadowPinDraftImage({
+  admin, userId, draftId, expectedRevision, assetId, publishIdempotencyKey, finalize,
 }) {
   const prepared = await prepareShadowPinDraftImagePublish({
     admin, userId, draftId, expectedRevision, assetId,
     leaseToken: publishIdempotencyKey,
   })
   try {
-    const { data, error } = await userClient.rpc('finalize_shadow_pin_creator_draft', {
+    const { data, error } = await finalize({
       target_draft_id: prepared.draft.id,
       target_expected_revision: prepared.draft.revision,
       target_publish_idempotency_key: publishIdempotencyKey,
@@ -1089,6 +1137,28 @@ export async function publishShadowPinDraftImage({
   }
 }
 
+export async function publishShadowPinDraftImage({
+  admin, userClient, userId, draftId, expectedRevision, assetId, publishIdempotencyKey,
+}) {
+  return publishPreparedShadowPinDraftImage({
+    admin, userId, draftId, expectedRevision, assetId, publishIdempotencyKey,
+    finalize: args => userClient.rpc('finalize_shadow_pin_creator_draft', args),
+  })
+}
+
+/**
+ * Same promotion and rollback as a manual publish, but finalized by the
+ * service role once the draft's scheduled time has passed.
+ */
+export async function publishScheduledShadowPinDraftImage({
+  admin, userId, draftId, expectedRevision, assetId, publishIdempotencyKey,
+}) {
+  return publishPreparedShadowPinDraftImage({
+    admin, userId, draftId, expectedRevision, assetId, publishIdempotencyKey,
+    finalize: args => admin.rpc('publish_scheduled_shadow_pin_creator_draft', args),
+  })
+}
+
 export async function recoverExpiredShadowPinImagePromotions(admin, limit = 50) {
   const { data: drafts, error } = await admin.from('shadow_pin_creator_drafts')
     .select('id,creator_id,promotion_asset_id,promotion_lease_token')
@@ -1141,7 +1211,10 @@ export async function deleteShadowPinDraftImageAssets({ admin, userId, draftId,
   const { data: canonicalRows, error: canonicalError } = await admin.from('shadow_pin_images')
     .select('image_path,thumbnail_path,medium_path')
   if (canonicalError) throw canonicalError
-  const referencedPaths = new Set((canonicalRows || []).flatMap(row => [
+  const { data: slideRows, error: slideError } = await admin.from('shadow_pin_image_slides')
+    .select('image_path,thumbnail_path,medium_path')
+  if (slideError) throw slideError
+  const referencedPaths = new Set([...(canonicalRows || []), ...(slideRows || [])].flatMap(row => [
     row.image_path, row.thumbnail_path, row.medium_path,
   ]).filter(Boolean))
 
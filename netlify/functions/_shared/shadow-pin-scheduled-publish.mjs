@@ -0,0 +1,88 @@
+import {
+  prepareShadowPinDraftSlidePublish,
+  publishScheduledShadowPinDraftImage,
+} from './shadow-pin-media.mjs'
+
+const MAX_SCHEDULED_PUBLISH_ATTEMPTS = 5
+
+async function publishScheduledDraft(admin, draft) {
+  const { data: slides, error: slidesError } = await admin.from('shadow_pin_creator_draft_slides')
+    .select('asset_id,position').eq('draft_id', draft.id).gt('position', 0)
+    .order('position', { ascending: true })
+  if (slidesError) throw slidesError
+  for (const slide of slides || []) {
+    await prepareShadowPinDraftSlidePublish({
+      admin, userId: draft.creator_id, draftId: draft.id, assetId: slide.asset_id,
+    })
+  }
+
+  const { data: asset, error: assetError } = await admin.from('shadow_pin_draft_assets')
+    .select('id,asset_kind,provider').eq('id', draft.active_asset_id).is('deleted_at', null).maybeSingle()
+  if (assetError) throw assetError
+  if (!asset) throw new Error('Draft media is unavailable.')
+  if (asset.provider === 'bunny_stream') {
+    throw new Error('Uploaded videos must be published from Creator Studio.')
+  }
+
+  const publishPayload = {
+    draftId: draft.id,
+    expectedRevision: draft.revision,
+    publishIdempotencyKey: draft.publish_idempotency_key,
+  }
+  if (asset.asset_kind === 'image' && asset.provider === 'shadow_pin_storage') {
+    return publishScheduledShadowPinDraftImage({
+      admin, userId: draft.creator_id, assetId: asset.id, ...publishPayload,
+    })
+  }
+
+  const { data, error } = await admin.rpc('publish_scheduled_shadow_pin_creator_draft', {
+    target_draft_id: publishPayload.draftId,
+    target_expected_revision: publishPayload.expectedRevision,
+    target_publish_idempotency_key: publishPayload.publishIdempotencyKey,
+  })
+  if (error) throw error
+  const result = Array.isArray(data) ? data[0] : data
+  if (!result?.draft || !result?.image) throw new Error('Draft publish returned an invalid receipt.')
+  return {
+    draft: result.draft,
+    image: result.image,
+    wasAlreadyPublished: Boolean(result.was_already_published),
+    asset,
+  }
+}
+
+/**
+ * Publishes Creator Studio drafts whose scheduled time has passed. Each
+ * publish reuses the draft's publish_idempotency_key, so a draft a previous
+ * run already finalized comes back as the original receipt. Failures are
+ * recorded on the draft and retried until the attempt cap. Recording one
+ * leaves the draft revision alone, so an open Studio session keeps editing.
+ */
+export async function publishDueScheduledShadowPinDrafts(admin, limit = 20) {
+  const { data: drafts, error } = await admin.from('shadow_pin_creator_drafts')
+    .select('id,creator_id,revision,active_asset_id,publish_idempotency_key,scheduled_publish_attempts')
+    .lte('scheduled_publish_at', new Date().toISOString())
+    .in('state', ['ready', 'publish_ready'])
+    .lt('scheduled_publish_attempts', MAX_SCHEDULED_PUBLISH_ATTEMPTS)
+    .order('scheduled_publish_at', { ascending: true })
+    .limit(Math.max(1, Math.min(Number(limit) || 20, 50)))
+  if (error) throw error
+
+  const failures = []
+  let published = 0
+  for (const draft of drafts || []) {
+    try {
+      await publishScheduledDraft(admin, draft)
+      published += 1
+    } catch (publishError) {
+      const message = publishError instanceof Error ? publishError.message : 'Scheduled publish failed.'
+      failures.push({ draftId: draft.id, error: message })
+      await admin.from('shadow_pin_creator_drafts').update({
+        scheduled_publish_attempts: (Number(draft.scheduled_publish_attempts) || 0) + 1,
+        last_error_code: 'scheduled_publish_failed',
+        last_error_message: message.slice(0, 500),
+      }).eq('id', draft.id)
+    }
+  }
+  return { scanned: (drafts || []).length, published, failures }
+}
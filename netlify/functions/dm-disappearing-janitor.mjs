@@ -0,0 +1,19 @@
+import { purgeExpiredDirectMessages } from './_shared/dm-message-purge.mjs'
+import { createAdminClient } from './_shared/shadow-pin-media.mjs'
+
+export default async () => {
+  try {
+    const result = await purgeExpiredDirectMessages(createAdminClient(), 100)
+    return Response.json({ ok: result.failures.length === 0, ...result })
+  } catch (error) {
+    console.error('Disappearing message purge failed.', error)
+    return Response.json({
+      ok: false,
+      error: error instanceof Error ? error.message : 'Disappearing message purge failed.',
+    }, { status: 500 })
+  }
+}
+
+export const config = {
+  schedule: '*/5 * * * *',
+}
@@ -7,6 +7,7 @@ import {
   createUserScopedClient,
   deleteShadowPinDraftImageAssets,
   prepareShadowPinDraftImagePublish,
+  prepareShadowPinDraftSlidePublish,
   publishShadowPinDraftImage,
   processShadowPinRowForUser,
   processShadowPinDraftImage,
@@ -51,6 +52,7 @@ export async function handler(event) {
         storagePath: body?.storagePath,
         contentType: body?.contentType,
         sizeBytes: Number(body?.sizeBytes),
+        slide: body?.slide === true,
       })
       return json({ ok: true, ...result })
     }
@@ -77,6 +79,16 @@ export async function handler(event) {
       return json({ ok: true, ...result })
     }
 
+    if (action === 'prepare-draft-slide-publish') {
+      const result = await prepareShadowPinDraftSlidePublish({
+        admin,
+        userId: user.id,
+        draftId: body?.draftId,
+        assetId: body?.assetId,
+      })
+      return json({ ok: true, ...result })
+    }
+
     if (action === 'publish-draft-image') {
       const result = await publishShadowPinDraftImage({
         admin,
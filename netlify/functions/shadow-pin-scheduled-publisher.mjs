@@ -0,0 +1,19 @@
+import { createAdminClient } from './_shared/shadow-pin-media.mjs'
+import { publishDueScheduledShadowPinDrafts } from './_shared/shadow-pin-scheduled-publish.mjs'
+
+export default async () => {
+  try {
+    const result = await publishDueScheduledShadowPinDrafts(createAdminClient(), 20)
+    return Response.json({ ok: result.failures.length === 0, ...result })
+  } catch (error) {
+    console.error('ShadowPin scheduled publish failed.', error)
+    return Response.json({
+      ok: false,
+      error: error instanceof Error ? error.message : 'ShadowPin scheduled publish failed.',
+    }, { status: 500 })
+  }
+}
+
+export const config = {
+  schedule: '*/5 * * * *',
+}
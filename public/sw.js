@@ -125,6 +125,74 @@ const normalizeEnvelopeV2 = (payload) => {
   }
 }
 
+const QUICK_ACTION_PATH = '/functions/v1/notification-action'
+const QUICK_ACTION_KEYS = ['reply', 'react', 'mute_conversation']
+
+// DM pushes carry a signed action token so the tray can answer, react, or mute
+// without opening a window. Anything that does not look like ours is ignored.
+const getQuickActionTarget = (data) => {
+  const token = asBoundedString(data.actionToken, 512)
+  const endpoint = asBoundedString(data.actionEndpoint, 2048)
+  if (!token || !endpoint || !/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(token)) return null
+  try {
+    const parsed = new URL(endpoint)
+    if (parsed.protocol !== 'https:' || parsed.pathname !== QUICK_ACTION_PATH) return null
+  } catch {
+    return null
+  }
+  const actions = Array.isArray(data.actions)
+    ? QUICK_ACTION_KEYS.filter(key => data.actions.includes(key))
+    : []
+  return actions.length ? { token, endpoint, actions } : null
+}
+
+const createQuickActionButtons = (actions) => [
+  actions.includes('reply')
+    ? { action: 'reply', title: 'Reply', type: 'text', placeholder: 'Reply' }
+    : null,
+  actions.includes('react') ? { action: 'react', title: '❤️' } : null,
+  actions.includes('mute_conversation') ? { action: 'mute_conversation', title: 'Mute' } : null,
+].filter(Boolean)
+
+const createClientMessageId = () => (
+  typeof self.crypto?.randomUUID === 'function'
+    ? self.crypto.randomUUID()
+    : `notification-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+)
+
+const performQuickAction = async (target, action, text, data, tag) => {
+  let failureBody = 'Open ShadowChat to try again.'
+  try {
+    const response = await fetch(target.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        token: target.token,
+        action,
+        ...(action === 'reply' ? { text, clientMessageId: createClientMessageId() } : {}),
+      }),
+    })
+    if (!response.ok) {
+      // Refusals such as an encrypted conversation explain themselves.
+      const payload = await response.json().catch(() => null)
+      if (typeof payload?.error === 'string' && payload.error) failureBody = payload.error
+      throw new Error(`Notification action failed with ${response.status}`)
+    }
+  } catch {
+    // Keep the conversation one tap away when the lock-screen action is lost.
+    await self.registration.showNotification(
+      action === 'reply' ? 'Reply not sent' : 'Action not completed',
+      {
+        body: failureBody,
+        icon: '/icons/app-icon-192.png',
+        badge: '/icons/badge.svg',
+        tag,
+        data: { ...data, actions: [], actionToken: undefined, actionEndpoint: undefined },
+      }
+    )
+  }
+}
+
 const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
 
 let badgeUpdateVersion = 0
@@ -167,6 +235,7 @@ const notificationMatchesClearRequest = (notification, request) => {
       notificationType === 'group_message' ||
       notificationType === 'mention' ||
       notificationType === 'reply' ||
+      notificationType === 'keyword_alert' ||
       (notificationType === 'reaction' && data.isDm !== true) ||
       tag.startsWith('group:') ||
       tag.startsWith('bridge-group:') ||
@@ -293,6 +362,7 @@ self.addEventListener('push', (event) => {
     }
 
     const title = envelopeV2?.title || payload.title || 'Shadow Chat'
+    const quickActionTarget = envelopeV2 ? null : getQuickActionTarget(asObject(data))
     const notificationData = envelopeV2
       ? {
           ...data,
@@ -316,10 +386,12 @@ self.addEventListener('push', (event) => {
         ? Date.parse(envelopeV2.createdAt)
         : undefined,
       renotify: envelopeV2?.priority === 'urgent',
-      silent: envelopeV2?.soundId === 'silent',
-      actions: envelopeV2?.actions.includes('mark_read')
-        ? [{ action: 'mark_read', title: 'Mark read' }]
-        : undefined,
+      silent: (envelopeV2?.soundId || data.soundId) === 'silent',
+      actions: quickActionTarget
+        ? createQuickActionButtons(quickActionTarget.actions)
+        : envelopeV2?.actions.includes('mark_read')
+          ? [{ action: 'mark_read', title: 'Mark read' }]
+          : undefined,
       data: notificationData,
     }
 
@@ -339,6 +411,22 @@ self.addEventListener('notificationclick', (event) => {
   const envelopeV2 = data.envelopeV2 && data.envelopeV2.schemaVersion === 2
     ? data.envelopeV2
     : null
+  const quickActionTarget = envelopeV2 ? null : getQuickActionTarget(data)
+  const replyText = typeof event.reply === 'string' ? event.reply.trim() : ''
+  if (
+    quickActionTarget &&
+    quickActionTarget.actions.includes(event.action) &&
+    (event.action !== 'reply' || replyText)
+  ) {
+    event.waitUntil(performQuickAction(
+      quickActionTarget,
+      event.action,
+      replyText,
+      data,
+      event.notification.tag
+    ))
+    return
+  }
   const action = event.action === 'mark_read' ? 'mark_read' : 'open'
   let targetUrl = envelopeV2
     ? normalizeSameOriginRoute(envelopeV2.route)
@@ -346,7 +434,12 @@ self.addEventListener('notificationclick', (event) => {
   if (!envelopeV2 && data.type === 'dm_message' && data.conversationId && data.messageId) {
     targetUrl = `/?view=dms&conversation=${encodeURIComponent(data.conversationId)}&message=${encodeURIComponent(data.messageId)}`
   } else if (!envelopeV2 && (
-    (data.type === 'group_message' || data.type === 'mention' || data.type === 'reply') &&
+    (
+      data.type === 'group_message' ||
+      data.type === 'mention' ||
+      data.type === 'reply' ||
+      data.type === 'keyword_alert'
+    ) &&
     data.messageId
   )) {
     targetUrl = `/?view=chat&message=${encodeURIComponent(data.messageId)}`
@@ -74,7 +74,12 @@ const unexposedRows = query(`
   where n.nspname in (
     'activation_private',
     'connections_private',
+    'group_dms_private',
     'inner_circles_private',
+    'message_history_private',
+    'message_locations_private',
+    'message_polls_private',
+    'scheduled_messages_private',
     'shado_live_private',
     'shadow_pin_private'
   )
@@ -126,7 +131,12 @@ const [unexposedDefinerSummary] = query(`
   where n.nspname in (
     'activation_private',
     'connections_private',
+    'group_dms_private',
     'inner_circles_private',
+    'message_history_private',
+    'message_locations_private',
+    'message_polls_private',
+    'scheduled_messages_private',
     'shado_live_private',
     'shadow_pin_private'
   )
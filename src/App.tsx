@@ -199,7 +199,7 @@ function App() {
   const [pinTarget, setPinTarget] = useState<string | null>(() => getInitialLocationState().pin)
   const [commentTarget, setCommentTarget] = useState<string | null>(() => getInitialLocationState().comment)
   const [pinPanel, setPinPanel] = useState<'viewer' | 'comments' | null>(() => getInitialLocationState().pinPanel)
-  const [pinFeed, setPinFeed] = useState<'connections' | null>(() => getInitialLocationState().pinFeed)
+  const [pinFeed, setPinFeed] = useState<'connections' | 'for_you' | null>(() => getInitialLocationState().pinFeed)
   const [pinCircle, setPinCircle] = useState<string | null>(() => getInitialLocationState().pinCircle ?? null)
   const [playExperience, setPlayExperience] = useState<PlayExperience | null>(() => getInitialLocationState().playExperience)
   const [playItem, setPlayItem] = useState<string | null>(() => getInitialLocationState().playItem)
@@ -715,6 +715,9 @@ function App() {
         url.searchParams.set('feed', 'connections')
         if (pinCircle) url.searchParams.set('circle', pinCircle)
         else url.searchParams.delete('circle')
+      } else if (currentView === 'pins' && pinFeed === 'for_you') {
+        url.searchParams.set('feed', 'for-you')
+        url.searchParams.delete('circle')
       } else {
         url.searchParams.delete('feed')
         if (currentView === 'pins') url.searchParams.delete('circle')
@@ -8,6 +8,8 @@ import { getUserProfile } from '../../lib/auth'
 import type { User } from '../../lib/supabase'
 import type { AppView } from '../../types/navigation'
 import { ConnectionControl } from '../../features/connections/ConnectionControl'
+import { CustomStatusLine } from '../../features/custom-status/CustomStatusLine'
+import { getPresenceCustomStatus } from '../../features/custom-status/customStatusModel'
 
 const PublicProfileDialog = lazy(() =>
   import('../profile/PublicProfileDialog').then(module => ({
@@ -177,6 +179,7 @@ export function ActiveUsersView({ currentView, onViewChange }: ActiveUsersViewPr
                           <span className="mt-0.5 block truncate text-xs text-[var(--text-muted)]">
                             {activeUser.username ? `@${activeUser.username} / Active now` : 'Active now'}
                           </span>
+                          <CustomStatusLine status={getPresenceCustomStatus(activeUser)} className="mt-1" />
                         </span>
                         {loadingProfile ? (
                           <Loader2 className="h-4 w-4 shrink-0 animate-spin text-[var(--theme-accent-readable)]" aria-hidden="true" />
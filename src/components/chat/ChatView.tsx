@@ -11,6 +11,9 @@ import type { AppView } from '../../types/navigation'
 import type { Message } from '../../lib/supabase'
 import { useIsDesktop } from '../../hooks/useIsDesktop'
 import type { ChatThreadRouteAction } from '../../lib/appRouting'
+import { createMessagePoll } from '../../features/polls/pollsApi'
+import type { MessagePollDraft } from '../../features/polls/pollModel'
+import type { ScheduledMessageTarget } from '../../features/scheduled-messages/scheduledMessagesModel'
 
 const LazyGeneralChatRoomTools = lazy(() => import('./GeneralChatRoomTools').then(module => ({
   default: module.GeneralChatRoomTools,
@@ -20,6 +23,8 @@ const LazyGeneralChatThreadSheet = lazy(() => import('../../features/general-cha
   default: module.GeneralChatThreadSheet,
 })))
 
+const GENERAL_CHAT_SCHEDULE_TARGET: ScheduledMessageTarget = { surface: 'general' }
+
 interface ChatViewProps {
   currentView: AppView
   onViewChange: (view: AppView) => void
@@ -129,6 +134,16 @@ export const ChatView: React.FC<ChatViewProps> = ({
     }
   }
 
+  const handleCreatePoll = async (draft: MessagePollDraft) => {
+    try {
+      return await createMessagePoll('general', draft)
+    } catch (error) {
+      const message = await getBlockedActionMessage('general_chat', error, 'Failed to create poll')
+      showActionErrorToast(message)
+      return null
+    }
+  }
+
   return (
     <div className="theme-app-surface flex h-full min-h-0 flex-col text-sm">
       <MobileAppHeader
@@ -165,6 +180,8 @@ export const ChatView: React.FC<ChatViewProps> = ({
         <div className="mx-auto w-full max-w-6xl">
           <MessageInput
             onSendMessage={handleSendMessage}
+            onCreatePoll={handleCreatePoll}
+            scheduleTarget={GENERAL_CHAT_SCHEDULE_TARGET}
             placeholder='Try "@ai" to ask AI anything'
             disabled={sending || uploading}
             cacheKey="general"
@@ -183,6 +200,8 @@ export const ChatView: React.FC<ChatViewProps> = ({
         >
           <MessageInput
             onSendMessage={handleSendMessage}
+            onCreatePoll={handleCreatePoll}
+            scheduleTarget={GENERAL_CHAT_SCHEDULE_TARGET}
             placeholder='Try "@ai" to ask AI anything'
             disabled={uploading}
             className="border-t border-[var(--border-panel)]"
@@ -1,8 +1,15 @@
 import { useEffect, useMemo, useRef, useState } from 'react'
-import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { ChevronLeft, ChevronRight, Download, Languages, MessageCircleQuestion } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { AskTheRoomDialog } from '../../features/ask-the-room/AskTheRoomDialog'
+import { ConversationExportDialog } from '../../features/conversation-export/ConversationExportDialog'
+import { useTranslationPreferences } from '../../features/message-translation/useMessageTranslation'
+import { getTranslationLanguageLabel } from '../../features/message-translation/translationModel'
 import { useOptionalClientReset } from '../../hooks/ClientResetContext'
 import { useOptionalMessages } from '../../hooks/MessagesContext'
 import type { AppView } from '../../types/navigation'
+import { Button } from '../ui/Button'
+import { cn } from '../../lib/utils'
 import { ActiveUsersButton } from './ActiveUsersButton'
 import { PinnedMessagesButton } from './PinnedMessagesButton'
 import { WeatherWidget } from './WeatherWidget'
@@ -17,6 +24,10 @@ export function GeneralChatRoomTools({ onViewChange }: GeneralChatRoomToolsProps
   const messagesContext = useOptionalMessages()
   const { status: resetStatus } = useOptionalClientReset()
   const [expanded, setExpanded] = useState(false)
+  const [exportOpen, setExportOpen] = useState(false)
+  const [askOpen, setAskOpen] = useState(false)
+  const { preferences: translationPreferences, setConversationAutoTranslate } = useTranslationPreferences()
+  const autoTranslate = Boolean(translationPreferences.autoTranslate.general)
   const toggleRef = useRef<HTMLButtonElement>(null)
   const pinnedMessages = useMemo(
     () => (messagesContext?.messages || []).filter(message => message.pinned),
@@ -72,9 +83,62 @@ export function GeneralChatRoomTools({ onViewChange }: GeneralChatRoomToolsProps
             onUnpin={messagesContext?.togglePin ?? (async () => {})}
             onToggleReaction={messagesContext?.toggleReaction ?? (async () => {})}
           />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setConversationAutoTranslate('general', !autoTranslate)
+              toast.success(autoTranslate
+                ? 'Auto-translate off'
+                : `New messages will appear in ${getTranslationLanguageLabel(translationPreferences.language)}`)
+            }}
+            className={cn(
+              'h-10 w-10 rounded-full p-0 text-[var(--text-secondary)] hover:text-[var(--theme-accent-readable)]',
+              autoTranslate && 'text-[var(--theme-accent-readable)]'
+            )}
+            aria-label="Auto-translate General Chat"
+            aria-pressed={autoTranslate}
+          >
+            <Languages className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setAskOpen(true)}
+            className="h-10 w-10 rounded-full p-0 text-[var(--text-secondary)] hover:text-[var(--theme-accent-readable)]"
+            aria-label="Ask General Chat"
+            aria-haspopup="dialog"
+          >
+            <MessageCircleQuestion className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setExportOpen(true)}
+            className="h-10 w-10 rounded-full p-0 text-[var(--text-secondary)] hover:text-[var(--theme-accent-readable)]"
+            aria-label="Export General Chat"
+            aria-haspopup="dialog"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
         </div>
       ) : null}
 
+      <ConversationExportDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        target={{ surface: 'general' }}
+      />
+
+      <AskTheRoomDialog
+        open={askOpen}
+        onClose={() => setAskOpen(false)}
+        scope={{ surface: 'general' }}
+      />
+
       <button
         ref={toggleRef}
         type="button"
@@ -1,10 +1,25 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react'
+import React, { lazy, Suspense, useState, useRef, useEffect, useCallback } from 'react'
 import { motion } from 'framer-motion'
-import { BellRing, Film, Send, Smile, Command, Plus, Mic, X } from 'lucide-react'
+import { BellRing, Clock3, Film, MapPin, Send, Smile, Command, Plus, Mic, X } from 'lucide-react'
 import { useTyping } from '../../hooks/useTyping'
 import { Button } from '../ui/Button'
-import { cn, processSlashCommand, slashCommands } from '../../lib/utils'
+import { cn } from '../../lib/utils'
 import type { ChatMessage, ChatMessageType } from '../../lib/supabase'
+import type { MessagePollDraft } from '../../features/polls/pollModel'
+import { executeSlashCommand, listSlashCommands } from '../../features/slash-commands/slashCommandRegistry'
+import {
+  formatSlashCommandUsage,
+  getMessageAuthorUsernames,
+  getSlashCommandSuggestions,
+} from '../../features/slash-commands/slashCommandModel'
+import { useSlashCommandRole } from '../../features/slash-commands/useSlashCommandRole'
+import { ScheduleMessagePanel } from '../../features/scheduled-messages/ScheduleMessagePanel'
+import { ScheduledMessagesTray } from '../../features/scheduled-messages/ScheduledMessagesTray'
+import { useScheduledMessages } from '../../features/scheduled-messages/useScheduledMessages'
+import {
+  formatScheduledSendTime,
+  type ScheduledMessageTarget,
+} from '../../features/scheduled-messages/scheduledMessagesModel'
 import { uploadVoiceMessage, uploadChatFile, uploadChatImageAsset } from '../../lib/supabase'
 import type { EmojiClickData } from '../../types'
 import { RecordingIndicator } from '../ui/RecordingIndicator'
@@ -22,12 +37,17 @@ import { useOptionalHype } from '../../hooks/useHype'
 import { getBlockedActionMessage } from '../../lib/moderation'
 import { showActionErrorToast } from '../../lib/toastNotifications'
 import { isShadowPinImageShareUrl } from './shadowPinShareLinks'
+import { canEditImageFile } from '../../features/image-editor/imageEditorModel'
 import {
   getUploadErrorMessage,
   MESSAGE_MEDIA_UPLOAD_MAX_BYTES,
   VOICE_RECORDING_MAX_SECONDS,
 } from '../../lib/uploadLimits'
 
+const LazyImageEditorDialog = lazy(() => import('../../features/image-editor/ImageEditorDialog').then(module => ({
+  default: module.ImageEditorDialog,
+})))
+
 const normalizeComposerValue = (value: string) => (value.trim().length === 0 ? '' : value)
 const HYPE_SEND_LONG_PRESS_MS = 650
 
@@ -52,6 +72,11 @@ interface MessageInputProps {
   onCancelReply?: () => void
   typingChannel?: string
   enableGifPicker?: boolean
+  onCreatePoll?: (draft: MessagePollDraft) => Promise<unknown> | unknown
+  onShareLocation?: () => void
+  scheduleTarget?: ScheduledMessageTarget
+  /** Replaces the normal upload, e.g. to encrypt attachments before they leave the device. */
+  onUploadAttachment?: (file: Blob) => Promise<string>
 }
 
 export const MessageInput: React.FC<MessageInputProps> = ({
@@ -66,17 +91,28 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   onCancelReply,
   typingChannel = 'general',
   enableGifPicker = false,
+  onCreatePoll,
+  onShareLocation,
+  scheduleTarget,
+  onUploadAttachment,
 }) => {
   const { draft, setDraft, clear } = useDraft(cacheKey)
   const [message, setMessage] = useState(draft)
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
   const [showGifPicker, setShowGifPicker] = useState(false)
   const [showSlashCommands, setShowSlashCommands] = useState(false)
+  const commandRole = useSlashCommandRole(showSlashCommands)
   const [showAttachmentMenu, setShowAttachmentMenu] = useState(false)
+  const [showSchedulePanel, setShowSchedulePanel] = useState(false)
+  const scheduled = useScheduledMessages(
+    scheduleTarget?.surface ?? null,
+    scheduleTarget?.conversationId ?? null,
+  )
   const [replyPreviewExpanded, setReplyPreviewExpanded] = useState(false)
   const [recording, setRecording] = useState(false)
   const [recordingDuration, setRecordingDuration] = useState(0)
   const [hypePressing, setHypePressing] = useState(false)
+  const [editingImage, setEditingImage] = useState<File | null>(null)
   const recordingIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const recordingLimitTimeoutRef = useRef<number | null>(null)
   const hypeLongPressTimerRef = useRef<number | null>(null)
@@ -246,9 +282,23 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     submittingRef.current = true
 
     try {
-      // Process slash commands
-      const processedMessage = await processSlashCommand(currentMessage, messages)
-      const finalMessage = processedMessage || currentMessage
+      const commandResult = await executeSlashCommand(
+        currentMessage,
+        { messages, target: scheduleTarget, createPoll: onCreatePoll },
+        commandRole,
+      )
+      if (commandResult && commandResult.kind !== 'message') {
+        if (commandResult.kind === 'handled' && commandResult.keepDraft) return
+        if (commandResult.kind === 'notice') toast.success(commandResult.message)
+        clear()
+        setMessage('')
+        stopTyping()
+        setShowSlashCommands(false)
+        return
+      }
+
+      const processedMessage = commandResult
+      const finalMessage = processedMessage ? processedMessage.content : currentMessage
 
       const aiMatch = !processedMessage && currentMessage.toLowerCase().startsWith('@ai')
         ? currentMessage.slice(3).trim()
@@ -269,8 +319,8 @@ export const MessageInput: React.FC<MessageInputProps> = ({
 
       const sent = await onSendMessage(
         shadowPinImageUrl ? '' : finalMessage,
-        shadowPinImageUrl ? 'image' : 'text',
-        shadowPinImageUrl || undefined,
+        shadowPinImageUrl ? 'image' : processedMessage?.type ?? 'text',
+        shadowPinImageUrl || processedMessage?.fileUrl || undefined,
         replyingTo?.id
       )
       if (sent !== null) {
@@ -297,13 +347,16 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     }
   }, [
     clear,
+    commandRole,
     disabled,
     message,
     messages,
     onCancelReply,
+    onCreatePoll,
     onSendMessage,
     replyingTo?.id,
     restoreComposerFocus,
+    scheduleTarget,
     stopTyping,
   ])
 
@@ -369,7 +422,18 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   }
 
 
+  const availableSlashCommands = showSlashCommands ? listSlashCommands(commandRole) : []
+  const slashSuggestions = showSlashCommands
+    ? getSlashCommandSuggestions(message, availableSlashCommands, getMessageAuthorUsernames(messages))
+    : []
+  const activeSlashCommand = availableSlashCommands.find(command => message.startsWith(`/${command.name} `))
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Tab' && !e.shiftKey && slashSuggestions[0]) {
+      e.preventDefault()
+      insertSlashCommand(slashSuggestions[0].insertText)
+      return
+    }
 
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -395,9 +459,8 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     textareaRef.current?.focus()
   }
 
-  const insertSlashCommand = (command: string) => {
-    setComposerMessage(command + ' ')
-    setShowSlashCommands(false)
+  const insertSlashCommand = (text: string) => {
+    setComposerMessage(text)
     textareaRef.current?.focus()
   }
 
@@ -416,6 +479,33 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     setShowAttachmentMenu(false)
   }
 
+  const openSchedulePanel = () => {
+    setShowSchedulePanel(true)
+    setShowAttachmentMenu(false)
+    setShowEmojiPicker(false)
+  }
+
+  const handleScheduleMessage = async (sendAt: Date) => {
+    const content = message.trim()
+    if (!content) return
+    if (content.startsWith('/')) {
+      toast.error('Slash commands can\'t be scheduled')
+      return
+    }
+
+    try {
+      await scheduled.schedule(content, sendAt, { replyTo: replyingTo?.id ?? null })
+      clear()
+      setMessage('')
+      stopTyping()
+      setShowSchedulePanel(false)
+      onCancelReply?.()
+      toast.success(`Scheduled for ${formatScheduledSendTime(sendAt.toISOString())}`)
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : 'Failed to schedule message')
+    }
+  }
+
   const openGifPicker = () => {
     setShowGifPicker(true)
     setShowAttachmentMenu(false)
@@ -445,28 +535,35 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     }
   }
 
+  const sendImageFile = async (file: File) => {
+    onUploadStatusChange(true)
+    try {
+      const asset = onUploadAttachment
+        ? { publicUrl: await onUploadAttachment(file), thumbnailUrl: null }
+        : await uploadChatImageAsset(file, 'chat')
+      const sent = await onSendMessage('', 'image', asset.publicUrl, replyingTo?.id, asset.thumbnailUrl)
+      if (sent === null) {
+        toast.error('Failed to send image')
+        return
+      }
+      onCancelReply?.()
+    } catch (err) {
+      console.error(err)
+      toast.error(getUploadErrorMessage(err, 'Failed to send image'))
+    } finally {
+      onUploadStatusChange(false)
+    }
+  }
+
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     e.target.value = ''
-    if (file) {
-      onUploadStatusChange(true)
-      ;(async () => {
-        try {
-          const asset = await uploadChatImageAsset(file, 'chat')
-          const sent = await onSendMessage('', 'image', asset.publicUrl, replyingTo?.id, asset.thumbnailUrl)
-          if (sent === null) {
-            toast.error('Failed to send image')
-            return
-          }
-          onCancelReply?.()
-        } catch (err) {
-          console.error(err)
-          toast.error(getUploadErrorMessage(err, 'Failed to send image'))
-        } finally {
-          onUploadStatusChange(false)
-        }
-      })()
+    if (!file) return
+    if (canEditImageFile(file)) {
+      setEditingImage(file)
+      return
     }
+    void sendImageFile(file)
   }
 
   const handleVideoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -476,7 +573,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
       onUploadStatusChange(true)
       ;(async () => {
         try {
-          const url = await uploadChatFile(file)
+          const url = onUploadAttachment ? await onUploadAttachment(file) : await uploadChatFile(file)
           const meta = JSON.stringify({ name: file.name, size: file.size, type: file.type })
           const sent = await onSendMessage(meta, 'video', url, replyingTo?.id)
           if (sent === null) {
@@ -507,10 +604,10 @@ export const MessageInput: React.FC<MessageInputProps> = ({
               ? 'video'
               : 'file'
           const meta = JSON.stringify({ name: file.name, size: file.size, type: file.type })
-          const asset = messageType === 'image'
+          const asset = messageType === 'image' && !onUploadAttachment
             ? await uploadChatImageAsset(file, 'chat')
             : null
-          const url = asset?.publicUrl || await uploadChatFile(file)
+          const url = asset?.publicUrl || (onUploadAttachment ? await onUploadAttachment(file) : await uploadChatFile(file))
           const sent = await onSendMessage(
             messageType === 'image' ? '' : meta,
             messageType,
@@ -597,7 +694,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
 
         try {
           onUploadStatusChange(true)
-          const url = await uploadVoiceMessage(blob, mimeType)
+          const url = onUploadAttachment ? await onUploadAttachment(blob) : await uploadVoiceMessage(blob, mimeType)
           const sent = await onSendMessage(url, 'audio', undefined, replyingTo?.id)
           if (sent === null) {
             toast.error('Failed to send voice message')
@@ -708,40 +805,66 @@ export const MessageInput: React.FC<MessageInputProps> = ({
           )}
         </div>
       )}
+      {scheduleTarget && (
+        <ScheduledMessagesTray
+          messages={scheduled.messages}
+          onUpdate={scheduled.update}
+          onCancel={scheduled.cancel}
+        />
+      )}
+      {scheduleTarget && showSchedulePanel && (
+        <ScheduleMessagePanel
+          canSchedule={Boolean(message.trim()) && !disabled}
+          onSchedule={handleScheduleMessage}
+          onClose={() => setShowSchedulePanel(false)}
+        />
+      )}
       {recording && (
         <RecordingIndicator seconds={recordingDuration} onStop={stopRecording} />
       )}
       {/* Slash Commands Dropdown */}
-      {showSlashCommands && (
+      {showSlashCommands && (slashSuggestions.length > 0 || activeSlashCommand) && (
         <motion.div
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
-          className="glass-panel-strong absolute bottom-full left-4 right-4 mb-2 max-h-40 overflow-y-auto rounded-[var(--radius-md)]"
+          className="glass-panel-strong absolute bottom-full left-4 right-4 mb-2 max-h-48 overflow-y-auto rounded-[var(--radius-md)]"
+          data-testid="slash-command-menu"
         >
           <div className="p-2">
             <div className="flex items-center space-x-2 mb-2">
               <Command className="w-4 h-4 text-[var(--text-muted)]" />
               <span className="text-sm font-medium text-[var(--text-secondary)]">
-                Slash Commands
+                {activeSlashCommand ? formatSlashCommandUsage(activeSlashCommand) : 'Slash Commands'}
               </span>
             </div>
-            {slashCommands
-              .filter(cmd => cmd.command.toLowerCase().includes(message.toLowerCase()))
-              .map(cmd => (
-                <button
-                  key={cmd.command}
-                  onClick={() => insertSlashCommand(cmd.command)}
-                  className="w-full rounded-[var(--radius-xs)] px-2 py-1.5 text-left transition-colors hover:bg-[rgba(255,255,255,0.05)]"
-                >
+            {activeSlashCommand && slashSuggestions.length === 0 && (
+              <div className="px-2 pb-1 text-xs text-[var(--text-muted)]">
+                {activeSlashCommand.description}
+              </div>
+            )}
+            {slashSuggestions.map(suggestion => (
+              <button
+                key={suggestion.insertText}
+                type="button"
+                onClick={() => insertSlashCommand(suggestion.insertText)}
+                className="w-full rounded-[var(--radius-xs)] px-2 py-1.5 text-left transition-colors hover:bg-[rgba(255,255,255,0.05)]"
+              >
+                {suggestion.kind === 'command' ? (
+                  <>
+                    <div className="font-mono text-sm text-[var(--text-gold)]">
+                      {formatSlashCommandUsage(suggestion.command)}
+                    </div>
+                    <div className="text-xs text-[var(--text-muted)]">
+                      {suggestion.command.description}
+                    </div>
+                  </>
+                ) : (
                   <div className="font-mono text-sm text-[var(--text-gold)]">
-                    {cmd.command}
-                  </div>
-                  <div className="text-xs text-[var(--text-muted)]">
-                    {cmd.description}
+                    {suggestion.label}
                   </div>
-                </button>
-              ))
-            }
+                )}
+              </button>
+            ))}
           </div>
         </motion.div>
       )}
@@ -821,6 +944,29 @@ export const MessageInput: React.FC<MessageInputProps> = ({
               >
                 File
               </button>
+              {onShareLocation && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowAttachmentMenu(false)
+                    onShareLocation()
+                  }}
+                  className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-[var(--text-secondary)] transition-colors hover:bg-[rgba(255,255,255,0.05)] hover:text-[var(--text-primary)]"
+                >
+                  <MapPin className="h-3.5 w-3.5" />
+                  <span>Location</span>
+                </button>
+              )}
+              {scheduleTarget && (
+                <button
+                  type="button"
+                  onClick={openSchedulePanel}
+                  className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-[var(--text-secondary)] transition-colors hover:bg-[rgba(255,255,255,0.05)] hover:text-[var(--text-primary)]"
+                >
+                  <Clock3 className="h-3.5 w-3.5" />
+                  <span>Send later</span>
+                </button>
+              )}
               {enableGifPicker && (
                 <button
                   type="button"
@@ -853,6 +999,23 @@ export const MessageInput: React.FC<MessageInputProps> = ({
               </button>
             </div>
           )}
+          {editingImage && (
+            <Suspense fallback={null}>
+              <LazyImageEditorDialog
+                open
+                file={editingImage}
+                confirmLabel="Send"
+                onCancel={() => {
+                  setEditingImage(null)
+                  restoreComposerFocus()
+                }}
+                onConfirm={edited => {
+                  setEditingImage(null)
+                  void sendImageFile(edited)
+                }}
+              />
+            </Suspense>
+          )}
           <input
             type="file"
             accept="image/*"
@@ -14,6 +14,8 @@ import {
   ImagePlus,
   Bookmark,
   Flag,
+  Tags,
+  AlarmClock,
 } from 'lucide-react'
 import { Avatar } from '../ui/Avatar'
 import { ImageModal } from '../ui/ImageModal'
@@ -44,8 +46,15 @@ import { getHypeTier } from '../../lib/hypePresentation'
 import { saveMessageToLibrary } from '../../lib/messageLibrary'
 import { MessageHypeBadge } from './MessageHypeBadge'
 import { useModerationReport } from '../../features/moderation/useModerationReport'
+import { useMessageReminder } from '../../features/message-reminders/useMessageReminder'
 import { MEMBER_REPORTING_FEATURE_ENABLED } from '../../config/featureFlags'
 import { ShareImageToShadowPinModal } from '../../features/shadow-pin/components/ShareImageToShadowPinModal'
+import { MessagePollCard } from '../../features/polls/MessagePollCard'
+import { EditedMessageLabel } from '../../features/message-history/EditedMessageLabel'
+import { useMessageTranslation } from '../../features/message-translation/useMessageTranslation'
+import { MessageTranslationNotice } from '../../features/message-translation/MessageTranslationNotice'
+import { getTranslationAction } from '../../features/message-translation/translationActions'
+import { useKeywordAlertMatch } from '../../features/keyword-alerts/useKeywordAlerts'
 import {
   CHAT_MEDIA_INTRINSIC_HEIGHT,
   CHAT_MEDIA_INTRINSIC_WIDTH,
@@ -214,6 +223,7 @@ export const MessageItem: React.FC<MessageItemProps> = React.memo(
     const { isOperator } = useAdminAccess({ includeUsers: false })
     const hype = useOptionalHype()
     const { openReport } = useModerationReport()
+    const { openReminder } = useMessageReminder()
     const [isEditing, setIsEditing] = useState(false)
     const [editContent, setEditContent] = useState(message.content)
     const [showReactionPicker, setShowReactionPicker] = useState(false)
@@ -232,6 +242,16 @@ export const MessageItem: React.FC<MessageItemProps> = React.memo(
     const isOwner = profile?.id === message.user_id
     const isAuthorOperator = message.user?.admin_role === 'admin' || message.user?.admin_role === 'sub_admin'
     const isLocalDelivery = message.optimistic || message.delivery_status === 'sending' || message.delivery_status === 'failed'
+    const translation = useMessageTranslation({
+      conversationKey: 'general',
+      messageId: message.id,
+      messageType: message.message_type,
+      content: message.content,
+      createdAt: message.created_at,
+      isOwn: isOwner,
+      disabled: isLocalDelivery,
+    })
+    const keywordAlert = useKeywordAlertMatch(profile?.id, message.content, isOwner || isLocalDelivery)
     const isFailedLocalMessage = isOwner && message.delivery_status === 'failed'
     const canDelete = isOwner || (isOperator && Boolean(message.user) && !isAuthorOperator)
     const isShadoAI = message.user?.username === 'shado_ai'
@@ -401,6 +421,19 @@ export const MessageItem: React.FC<MessageItemProps> = React.memo(
         hidden: isLocalDelivery,
         onSelect: () => void handleSaveMessage(),
       },
+      {
+        id: 'remind',
+        label: 'Remind me',
+        icon: AlarmClock,
+        hidden: isLocalDelivery,
+        onSelect: () => openReminder({
+          source: 'general',
+          messageId: message.id,
+          label: message.user?.display_name || message.user?.username || 'ShadowChat member',
+          preview: getMessagePreviewText(message) || `${message.message_type} message`,
+        }),
+      },
+      getTranslationAction(translation),
       {
         id: 'report',
         label: 'Report message',
@@ -449,7 +482,7 @@ export const MessageItem: React.FC<MessageItemProps> = React.memo(
         id: 'edit',
         label: 'Edit',
         icon: Edit3,
-        hidden: !isOwner || isLocalDelivery,
+        hidden: !isOwner || isLocalDelivery || message.message_type === 'poll',
         onSelect: () => {
           setIsEditing(true)
           setEditContent(message.content)
@@ -524,9 +557,11 @@ export const MessageItem: React.FC<MessageItemProps> = React.memo(
                 {formatTime(message.created_at)}
               </span>
               {message.edited_at && (
-                <span className="text-xs text-[var(--text-muted)]/80">
-                  (edited)
-                </span>
+                <EditedMessageLabel
+                  surface="general"
+                  messageId={message.id}
+                  className="text-xs text-[var(--text-muted)]/80"
+                />
               )}
               {isOwner && message.delivery_status && message.delivery_status !== 'sent' && (
                 <span className={cn(
@@ -595,9 +630,11 @@ export const MessageItem: React.FC<MessageItemProps> = React.memo(
                       ? 'border border-[var(--border-glow)] bg-[var(--theme-accent-softer)] text-[var(--text-primary)]'
                       : bubbleStyle
                       ? ''
-                      : 'border border-[var(--border-subtle)] bg-[var(--bg-panel)] text-[var(--text-primary)]'
+                      : 'border border-[var(--border-subtle)] bg-[var(--bg-panel)] text-[var(--text-primary)]',
+                    keywordAlert && !isFloatingMediaMessage && 'ring-1 ring-[var(--border-glow)]'
                   )}
                   style={bubbleStyle}
+                  data-keyword-alert={keywordAlert ?? undefined}
                 >
                   {!isFloatingMediaMessage && (
                     <>
@@ -675,16 +712,31 @@ export const MessageItem: React.FC<MessageItemProps> = React.memo(
                     </div>
                   ) : message.message_type === 'file' && message.file_url ? (
                     <FileAttachment url={message.file_url} meta={message.content} />
+                  ) : message.message_type === 'poll' ? (
+                    <MessagePollCard
+                      messageId={message.id}
+                      question={message.content}
+                      currentUserId={profile?.id}
+                      moderationScope={moderationScope}
+                      disabled={isLocalDelivery}
+                    />
                   ) : (
                     <div className={cn(isAIMessage && 'font-medium')}>
                       <MessageRichText
-                        content={message.content}
+                        content={translation.text}
                       />
                       {toneEnabled && (
                         <span data-testid="tone-indicator" className="ml-1">
                           {getToneEmoji(tone)}
                         </span>
                       )}
+                      <MessageTranslationNotice translation={translation} />
+                      {keywordAlert && (
+                        <p className="mt-1 flex items-center gap-1 text-[0.65rem] font-semibold text-[var(--theme-accent-readable)]">
+                          <Tags className="h-3 w-3" aria-hidden="true" />
+                          Keyword alert: {keywordAlert}
+                        </p>
+                      )}
                     </div>
                   )}
                 </div>
@@ -21,6 +21,8 @@ import { UnreadDivider } from './UnreadDivider'
 import { compareMessageKey, isMessageAfterCursor, type ReadSurface } from '../../lib/readCursors'
 import { useBlockedUsers } from '../../hooks/useBlockedUsers'
 import { clearGroupNotifications, requestAppBadgeRefresh } from '../../lib/appBadge'
+import { SeenByIndicator } from '../../features/read-receipts/SeenByIndicator'
+import { useSeenByReceipt } from '../../features/read-receipts/useReadReceipts'
 
 interface MessageListProps {
   messagesApi?: MessagesContextValue
@@ -214,6 +216,7 @@ export const MessageList: React.FC<MessageListProps> = ({
     () => combinedMessages.filter(isReadCursorMessage),
     [combinedMessages]
   )
+  const seenBy = useSeenByReceipt(readCursorSurface, readCursorScope, readCursorMessages)
 
   const markGeneralChatRead = useCallback(
     async (message: Message) => {
@@ -1057,6 +1060,7 @@ export const MessageList: React.FC<MessageListProps> = ({
                     avatarFetchPriority={eagerAvatarMessageIds.has(message.id) ? 'high' : undefined}
                     moderationScope={moderationScope}
                   />
+                  {seenBy?.messageId === message.id && <SeenByIndicator readers={seenBy.readers} />}
                 </div>
               </React.Fragment>
             )
@@ -91,6 +91,8 @@ export const getMessagePreviewText = (message: MessagePreviewSource) => {
   if (message.message_type === 'audio') return 'Voice message'
   if (message.message_type === 'file') return parseAttachmentName(text) || text || 'File attachment'
   if (message.message_type === 'hype') return 'Hype'
+  if (message.message_type === 'poll') return text ? `Poll: ${text}` : 'Poll'
+  if (message.message_type === 'location') return text ? `Location: ${text}` : 'Location'
 
   return text || message.message_type
 }
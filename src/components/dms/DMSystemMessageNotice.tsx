@@ -0,0 +1,32 @@
+import { Timer } from 'lucide-react'
+import type { DMMessage } from '../../lib/supabase'
+import { formatTime } from '../../lib/utils'
+
+/** Server-written conversation notices sit between messages and have no actions. */
+export function DMSystemMessageNotice({ message, currentUserId }: {
+  message: DMMessage
+  currentUserId: string | null
+}) {
+  const actor = message.sender_id === currentUserId
+    ? 'You'
+    : message.sender?.display_name || message.sender?.username || 'A member'
+
+  return (
+    <div
+      role="note"
+      id={`dm-message-${message.id}`}
+      data-message-id={message.id}
+      className="flex justify-center px-2 py-1"
+    >
+      <p className="inline-flex max-w-full items-center gap-1.5 rounded-full border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.03)] px-3 py-1 text-xs text-[var(--text-muted)]">
+        <Timer className="h-3.5 w-3.5 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+        <span className="min-w-0 truncate">
+          <span className="font-semibold text-[var(--text-secondary)]">{actor}</span>
+          {' · '}
+          {message.content}
+        </span>
+        <time dateTime={message.created_at} className="shrink-0 opacity-80">{formatTime(message.created_at)}</time>
+      </p>
+    </div>
+  )
+}
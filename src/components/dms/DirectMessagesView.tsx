@@ -18,6 +18,8 @@ import {
   Bookmark,
   MoreHorizontal,
   Flag,
+  Users,
+  AlarmClock,
 } from 'lucide-react'
 import { useDirectMessages } from '../../hooks/useDirectMessages'
 import { useAuth } from '../../hooks/useAuth'
@@ -50,18 +52,39 @@ import type { EmojiClickData } from '../../types'
 import type { AppView } from '../../types/navigation'
 import type { DMRouteAction, InnerCircleRouteAction } from '../../lib/appRouting'
 import { saveMessageToLibrary } from '../../lib/messageLibrary'
+import { createClientMessageId } from '../../lib/optimisticMessages'
 import { EmojiPickerOverlay } from '../chat/EmojiPickerOverlay'
 import { ImageModal } from '../ui/ImageModal'
 import { QuickReactionRail } from '../chat/QuickReactionRail'
 import { ChatImageRadialHeart } from '../chat/ChatImageRadialHeart'
 import { BlockedConversationNotice } from './BlockedConversationNotice'
+import { DMSystemMessageNotice } from './DMSystemMessageNotice'
 import { useBlockedUsers } from '../../hooks/useBlockedUsers'
 import { useDMConversationHub } from '../../hooks/useDMConversationHub'
+import { ConversationNotificationRulesSheet } from '../notifications/ConversationNotificationRulesSheet'
 import { DMHubInboxControls } from './hub/DMHubInboxControls'
 import { DMHubConversationRow } from './hub/DMHubConversationRow'
 import { DMHubConversationDetailsSheet } from './hub/DMHubConversationDetailsSheet'
+import { ConversationExportDialog } from '../../features/conversation-export/ConversationExportDialog'
+import { AskTheRoomDialog } from '../../features/ask-the-room/AskTheRoomDialog'
 import type { DMConversationPreferenceChanges } from './dmConversationHubModel'
 import { ShareImageToShadowPinModal } from '../../features/shadow-pin/components/ShareImageToShadowPinModal'
+import { MessagePollCard } from '../../features/polls/MessagePollCard'
+import { EditedMessageLabel } from '../../features/message-history/EditedMessageLabel'
+import { useMessageTranslation, useTranslationPreferences } from '../../features/message-translation/useMessageTranslation'
+import { MessageTranslationNotice } from '../../features/message-translation/MessageTranslationNotice'
+import { getTranslationAction } from '../../features/message-translation/translationActions'
+import { getTranslationConversationKey } from '../../features/message-translation/translationModel'
+import { createMessagePoll } from '../../features/polls/pollsApi'
+import { MessageLocationCard } from '../../features/location-sharing/MessageLocationCard'
+import { LocationShareDialog } from '../../features/location-sharing/LocationShareDialog'
+import { LiveLocationBanner } from '../../features/location-sharing/LiveLocationBanner'
+import { createLocationMessage } from '../../features/location-sharing/locationSharingApi'
+import type { MessageLocationDraft } from '../../features/location-sharing/locationModel'
+import type { MessagePollDraft } from '../../features/polls/pollModel'
+import type { ScheduledMessageTarget } from '../../features/scheduled-messages/scheduledMessagesModel'
+import { getBlockedActionMessage } from '../../lib/moderation'
+import { showActionErrorToast } from '../../lib/toastNotifications'
 import {
   getImageMessageDisplaySrc,
   getMessagePreviewText,
@@ -69,8 +92,33 @@ import {
   type ReplyTarget,
 } from '../chat/messageDisplay'
 import { useModerationReport } from '../../features/moderation/useModerationReport'
+import { useMessageReminder } from '../../features/message-reminders/useMessageReminder'
 import { MEMBER_REPORTING_FEATURE_ENABLED } from '../../config/featureFlags'
 import { useConnectionSummary } from '../../features/connections/useConnectionSummary'
+import { GroupDMMembersDialog } from '../../features/group-dms/GroupDMMembersDialog'
+import { GroupDMDetailsSheet } from '../../features/group-dms/GroupDMDetailsSheet'
+import { DisappearingMessagesBanner } from '../../features/disappearing-messages/DisappearingMessagesBanner'
+import { DisappearingMessagesSheet } from '../../features/disappearing-messages/DisappearingMessagesSheet'
+import { DMEncryptionSheet } from '../../features/e2ee-dms/DMEncryptionSheet'
+import { sealDMMessage, uploadEncryptedAttachment } from '../../features/e2ee-dms/e2eeApi'
+import {
+  buildEncryptedDMBody,
+  ENCRYPTED_DM_PLACEHOLDER,
+  getEncryptedDMRowType,
+  isEncryptedDMMessage,
+  type EncryptedDMAttachment,
+} from '../../features/e2ee-dms/e2eeModel'
+import { useDecryptedDMMessages, useDMDeviceKey } from '../../features/e2ee-dms/useEncryptedDMs'
+import {
+  GROUP_DM_MAX_MEMBERS,
+  formatGroupDMMemberSummary,
+  formatSeenByLabel,
+  getDMConversationTitle,
+  getDMMessageSeenBy,
+  getGroupDMOtherMembers,
+  getLatestSeenOwnMessageId,
+  isGroupDMConversation,
+} from '../../features/group-dms/groupDMModel'
 
 interface DirectMessagesViewProps {
   onToggleSidebar: () => void
@@ -131,6 +179,7 @@ const DirectMessageBubble = React.memo(function DirectMessageBubble({
   containerRef,
   avatarLoading = 'lazy',
   avatarFetchPriority,
+  seenByLabel,
 }: {
   message: DMMessage
   previousMessage?: DMMessage
@@ -147,8 +196,10 @@ const DirectMessageBubble = React.memo(function DirectMessageBubble({
   containerRef?: React.RefObject<HTMLDivElement>
   avatarLoading?: 'eager' | 'lazy'
   avatarFetchPriority?: 'high' | 'low' | 'auto'
+  seenByLabel?: string
 }) {
   const { openReport } = useModerationReport()
+  const { openReminder } = useMessageReminder()
   const [editing, setEditing] = useState(false)
   const [draft, setDraft] = useState(message.content)
   const [showReactionPicker, setShowReactionPicker] = useState(false)
@@ -168,6 +219,16 @@ const DirectMessageBubble = React.memo(function DirectMessageBubble({
   const imageMessageSrc = getImageMessageDisplaySrc(message.file_url, message.thumbnail_url)
   const isLocalDelivery = message.optimistic || message.delivery_status === 'sending' || message.delivery_status === 'failed'
   const isFailedLocalMessage = isOwn && message.delivery_status === 'failed'
+  const isEncrypted = isEncryptedDMMessage(message)
+  const translation = useMessageTranslation({
+    conversationKey: getTranslationConversationKey('dm', message.conversation_id),
+    messageId: message.id,
+    messageType: message.message_type,
+    content: message.content,
+    createdAt: message.created_at,
+    isOwn,
+    disabled: isLocalDelivery || isEncrypted,
+  })
   const showIncomingAvatar = !isGrouped && !isOwn
   const parentPreview = parentMessage ? getMessagePreviewText(parentMessage) : ''
   const parentPreviewImageSrc = parentMessage?.message_type === 'image'
@@ -296,9 +357,24 @@ const DirectMessageBubble = React.memo(function DirectMessageBubble({
       id: 'save',
       label: 'Save',
       icon: Bookmark,
-      hidden: isLocalDelivery,
+      hidden: isLocalDelivery || isEncrypted,
       onSelect: () => void saveMessage(),
     },
+    {
+      id: 'remind',
+      label: 'Remind me',
+      icon: AlarmClock,
+      hidden: isLocalDelivery,
+      onSelect: () => openReminder({
+        source: 'dm',
+        messageId: message.id,
+        label: message.sender?.display_name || message.sender?.username || 'ShadowChat member',
+        preview: isEncrypted
+          ? ENCRYPTED_DM_PLACEHOLDER
+          : getMessagePreviewText(message) || `${message.message_type} message`,
+      }),
+    },
+    getTranslationAction(translation),
     {
       id: 'report',
       label: 'Report message',
@@ -327,7 +403,7 @@ const DirectMessageBubble = React.memo(function DirectMessageBubble({
       id: 'share-shadow-pin',
       label: 'Add to Shado Pin',
       icon: ImagePlus,
-      hidden: !isImageMessage || isLocalDelivery || !message.file_url,
+      hidden: !isImageMessage || isLocalDelivery || isEncrypted || !message.file_url,
       onSelect: () => setShowShadowPinShare(true),
     },
     {
@@ -341,7 +417,7 @@ const DirectMessageBubble = React.memo(function DirectMessageBubble({
       id: 'edit',
       label: 'Edit',
       icon: Edit3,
-      hidden: !isOwn || isLocalDelivery,
+      hidden: !isOwn || isLocalDelivery || isEncrypted || message.message_type === 'poll' || message.message_type === 'location',
       onSelect: () => {
         setDraft(message.content)
         setEditing(true)
@@ -508,7 +584,7 @@ const DirectMessageBubble = React.memo(function DirectMessageBubble({
               tiltSide={isOwn ? 'right' : 'left'}
               onHeart={() => reactToMessage(HEART_REACTION)}
               onOpen={() => setShowImageModal(true)}
-              onShare={() => setShowShadowPinShare(true)}
+              onShare={isEncrypted ? undefined : () => setShowShadowPinShare(true)}
             >
               <img
                 src={imageMessageSrc}
@@ -526,8 +602,26 @@ const DirectMessageBubble = React.memo(function DirectMessageBubble({
             <VideoAttachment url={videoMessageUrl} meta={message.content} />
           ) : message.message_type === 'file' && message.file_url ? (
             <FileAttachment url={message.file_url} meta={message.content} />
+          ) : message.message_type === 'poll' ? (
+            <MessagePollCard
+              messageId={message.id}
+              question={message.content}
+              currentUserId={currentUserId}
+              moderationScope="all_interaction"
+              disabled={isLocalDelivery}
+            />
+          ) : message.message_type === 'location' ? (
+            <MessageLocationCard
+              messageId={message.id}
+              label={message.content}
+              currentUserId={currentUserId}
+              disabled={isLocalDelivery}
+            />
           ) : (
-            <MessageRichText content={message.content} className="text-sm" />
+            <>
+              <MessageRichText content={translation.text} className="text-sm" showPreview={!isEncrypted} />
+              <MessageTranslationNotice translation={translation} />
+            </>
           )}
 
           {!editing && (
@@ -543,13 +637,23 @@ const DirectMessageBubble = React.memo(function DirectMessageBubble({
                 <time dateTime={message.created_at}>
                 {formatTime(message.created_at)}
                 </time>
-                {message.edited_at && ' (edited)'}
+                {message.edited_at && (
+                  <>
+                    {' '}
+                    <EditedMessageLabel surface="dm" messageId={message.id} />
+                  </>
+                )}
                 {isOwn && message.delivery_status && message.delivery_status !== 'sent' && (
                   <span className={message.delivery_status === 'failed' ? 'ml-2 text-red-300' : 'ml-2'}>
                     {message.delivery_status === 'failed' ? 'Failed to send' : 'Sending...'}
                   </span>
                 )}
               </p>
+              {isOwn && seenByLabel && (
+                <p className="mt-0.5 text-right text-[11px] text-[var(--text-muted)]" data-dm-seen-by="true">
+                  {seenByLabel}
+                </p>
+              )}
               {isFailedLocalMessage && (
                 <div className="mt-1.5 flex flex-wrap items-center gap-2 text-xs text-red-300">
                   <span>Failed to send</span>
@@ -645,6 +749,7 @@ function NewDirectMessagePicker({
   onQueryChange,
   onSelect,
   onCancel,
+  onStartGroup,
 }: {
   isDesktop: boolean
   currentView: AppView
@@ -656,6 +761,7 @@ function NewDirectMessagePicker({
   onQueryChange: (value: string) => void
   onSelect: (user: BasicUser) => void | Promise<void>
   onCancel: () => void
+  onStartGroup?: () => void
 }) {
   const normalizedQuery = query.trim().toLowerCase()
   const filteredUsers = normalizedQuery
@@ -700,6 +806,21 @@ function NewDirectMessagePicker({
             />
           </div>
         </div>
+        {onStartGroup && (
+          <button
+            type="button"
+            onClick={onStartGroup}
+            className="glass-panel mt-3 flex w-full items-center gap-3 rounded-[var(--radius-lg)] px-3.5 py-3 text-left transition-[border-color,background-color] duration-[var(--dur-fast)] hover:border-[var(--border-glow)] hover:bg-[var(--theme-surface-hover)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+          >
+            <span className="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]" aria-hidden="true">
+              <Users className="h-4 w-4" />
+            </span>
+            <span className="min-w-0 flex-1">
+              <span className="block font-semibold text-[var(--text-primary)]">New group</span>
+              <span className="block truncate text-sm text-[var(--text-muted)]">Message up to {GROUP_DM_MAX_MEMBERS - 1} people together</span>
+            </span>
+          </button>
+        )}
       </div>
 
       <div className="min-h-0 flex-1 overflow-y-auto px-4 py-3 pb-[calc(env(safe-area-inset-bottom)_+_5rem)] sm:px-5 md:pb-3">
@@ -809,9 +930,19 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
     loadMessageWindow,
     loading: conversationsLoading,
   } = useDirectMessages()
+  const { device: dmDeviceKey, error: dmDeviceKeyError } = useDMDeviceKey(profile?.id)
+  const displayMessages = useDecryptedDMMessages(messages, dmDeviceKey, Boolean(dmDeviceKeyError))
+  const encryptedAttachmentsRef = useRef(new Map<string, EncryptedDMAttachment>())
   const [showNewConversation, setShowNewConversation] = useState(false)
-  const { users: allUsers, loading: allUsersLoading } = useAllUsers({ enabled: showNewConversation })
+  const [groupMembersDialog, setGroupMembersDialog] = useState<'create' | 'add' | null>(null)
+  const [pendingGroupConversationId, setPendingGroupConversationId] = useState<string | null>(null)
+  const { users: allUsers, loading: allUsersLoading } = useAllUsers({
+    enabled: showNewConversation || groupMembersDialog !== null,
+  })
   const currentConv = conversations.find(c => c.id === currentConversation)
+  const currentConvIsGroup = isGroupDMConversation(currentConv)
+  const currentConvTitle = currentConv ? getDMConversationTitle(currentConv, profile?.id) : ''
+  const currentConvEncrypted = Boolean(currentConv?.e2ee_enabled_at)
   const selectedConversationMissing = Boolean(currentConversation && !currentConv)
   const showInboxLoading = conversationsLoading && conversations.length === 0
   const showInboxEmpty = !conversationsLoading && conversations.length === 0
@@ -822,7 +953,15 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
   const { summary: connectionSummary } = useConnectionSummary()
   const saveHubPreference = hub.updatePreference
   const toggleHubMute = hub.toggleMute
+  const refreshHub = hub.refresh
   const [showConversationDetails, setShowConversationDetails] = useState(false)
+  const [notificationRulesConversationId, setNotificationRulesConversationId] = useState<string | null>(null)
+  const [disappearingMessagesConversationId, setDisappearingMessagesConversationId] = useState<string | null>(null)
+  const [encryptionConversationId, setEncryptionConversationId] = useState<string | null>(null)
+  const [exportConversationId, setExportConversationId] = useState<string | null>(null)
+  const [askConversationId, setAskConversationId] = useState<string | null>(null)
+  const [locationShareOpen, setLocationShareOpen] = useState(false)
+  const { preferences: translationPreferences, setConversationAutoTranslate } = useTranslationPreferences()
   const {
     blockUser,
     unblockUser,
@@ -915,6 +1054,15 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
     onRoute?.('push-thread', conversationId)
   }, [onRoute, setCurrentConversation])
 
+  // A new group opens once the inbox refresh has loaded it, so the thread never
+  // renders against a conversation the list does not know about yet.
+  useEffect(() => {
+    if (!pendingGroupConversationId) return
+    if (!conversations.some(conversation => conversation.id === pendingGroupConversationId)) return
+    setPendingGroupConversationId(null)
+    handleConversationSelect(pendingGroupConversationId)
+  }, [conversations, handleConversationSelect, pendingGroupConversationId])
+
   const handleUserSelect = useCallback(async (user: { username: string }) => {
     const normalizedUsername = user.username.trim().toLowerCase()
     const existingConversation = conversations.find(
@@ -1033,6 +1181,21 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
     setShowConversationDetails(false)
   }, [currentConversation, onRoute])
 
+  const handleOpenNotificationRules = useCallback((conversationId: string) => {
+    handleCloseConversationDetails()
+    setNotificationRulesConversationId(conversationId)
+  }, [handleCloseConversationDetails])
+
+  const handleOpenDisappearingMessages = useCallback((conversationId: string) => {
+    handleCloseConversationDetails()
+    setDisappearingMessagesConversationId(conversationId)
+  }, [handleCloseConversationDetails])
+
+  const handleOpenEncryption = useCallback((conversationId: string) => {
+    handleCloseConversationDetails()
+    setEncryptionConversationId(conversationId)
+  }, [handleCloseConversationDetails])
+
   const handleToggleBlock = useCallback(async (_conversationId: string, nextBlocked: boolean) => {
     const otherUser = currentConv?.other_user
     if (!otherUser) return
@@ -1054,6 +1217,33 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
     thumbnailUrl?: string | null
   ) => {
     try {
+      if (currentConv?.e2ee_enabled_at) {
+        if (!dmDeviceKey || !profile?.id) {
+          toast.error('Encryption is still being set up on this device')
+          return null
+        }
+        const attachment = fileUrl ? encryptedAttachmentsRef.current.get(fileUrl) : undefined
+        if (fileUrl) encryptedAttachmentsRef.current.delete(fileUrl)
+        const body = buildEncryptedDMBody(content, type ?? 'text', fileUrl, attachment)
+        // The ciphertext is bound to this id, so the stored row must use the same one.
+        const clientMessageId = createClientMessageId()
+        const encryptedPayload = await sealDMMessage(
+          { conversationId: currentConv.id, senderId: profile.id, clientMessageId },
+          currentConv.participants,
+          dmDeviceKey,
+          body
+        )
+        const sent = await sendMessage(
+          ENCRYPTED_DM_PLACEHOLDER,
+          getEncryptedDMRowType(body),
+          body.attachment ? body.url : undefined,
+          replyToId,
+          null,
+          { clientMessageId, encryptedPayload }
+        )
+        if (sent) setReplyTo(null)
+        return sent
+      }
       const sent = await sendMessage(content, type, fileUrl, replyToId, thumbnailUrl)
       if (sent) {
         setReplyTo(null)
@@ -1064,7 +1254,39 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
       toast.error('Failed to send message')
       return null
     }
-  }, [sendMessage])
+  }, [currentConv?.e2ee_enabled_at, currentConv?.id, currentConv?.participants, dmDeviceKey, profile?.id, sendMessage])
+
+  const handleUploadEncryptedAttachment = useCallback(async (file: Blob) => {
+    const { url, attachment } = await uploadEncryptedAttachment(file)
+    encryptedAttachmentsRef.current.set(url, attachment)
+    return url
+  }, [])
+
+  const scheduleTarget = useMemo<ScheduledMessageTarget | undefined>(() => (
+    currentConversation ? { surface: 'dm', conversationId: currentConversation } : undefined
+  ), [currentConversation])
+
+  const handleCreatePoll = useCallback(async (draft: MessagePollDraft) => {
+    if (!currentConversation) return null
+    try {
+      return await createMessagePoll('dm', draft, { conversationId: currentConversation })
+    } catch (error) {
+      const message = await getBlockedActionMessage('all_interaction', error, 'Failed to create poll')
+      showActionErrorToast(message)
+      return null
+    }
+  }, [currentConversation])
+
+  const handleShareLocation = useCallback(async (draft: MessageLocationDraft) => {
+    if (!currentConversation) return null
+    try {
+      return await createLocationMessage(currentConversation, draft)
+    } catch (error) {
+      const message = await getBlockedActionMessage('all_interaction', error, 'Failed to share location')
+      showActionErrorToast(message)
+      return null
+    }
+  }, [currentConversation])
 
   const handleReply = useCallback((message: DMMessage) => {
     setReplyTo(messageToReplyTarget(message))
@@ -1343,9 +1565,9 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
 
   const dmMessageMap = useMemo(() => {
     const map = new Map<string, DMMessage>()
-    messages.forEach(message => map.set(message.id, message))
+    displayMessages.forEach(message => map.set(message.id, message))
     return map
-  }, [messages])
+  }, [displayMessages])
 
   const jumpToDMMessage = useCallback((id: string) => {
     requestAnimationFrame(() => {
@@ -1392,6 +1614,34 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
       ),
     [allUsers, existingConversationUserIds, profile?.id]
   )
+  const groupCandidateUsers = useMemo(() => {
+    const currentMemberIds = new Set(
+      groupMembersDialog === 'add' && currentConvIsGroup ? currentConv?.participants ?? [] : []
+    )
+    return allUsers
+      .filter(user =>
+        user.id !== profile?.id &&
+        user.dm_discoverable !== false &&
+        !currentMemberIds.has(user.id)
+      )
+      .sort((left, right) =>
+        (left.display_name || left.username).localeCompare(right.display_name || right.username)
+      )
+  }, [allUsers, currentConv?.participants, currentConvIsGroup, groupMembersDialog, profile?.id])
+  const groupOtherMembers = useMemo(
+    () => (currentConv && currentConvIsGroup ? getGroupDMOtherMembers(currentConv, profile?.id) : []),
+    [currentConv, currentConvIsGroup, profile?.id]
+  )
+  const seenByMessageId = useMemo(
+    () => (currentConvIsGroup ? getLatestSeenOwnMessageId(messages, profile?.id) : null),
+    [currentConvIsGroup, messages, profile?.id]
+  )
+  const seenByLabel = useMemo(() => {
+    const message = seenByMessageId ? messages.find(item => item.id === seenByMessageId) : null
+    if (!message) return ''
+    const otherMemberCount = Math.max(0, (currentConv?.participants?.length ?? 1) - 1)
+    return formatSeenByLabel(getDMMessageSeenBy(message, groupOtherMembers), otherMemberCount)
+  }, [currentConv?.participants?.length, groupOtherMembers, messages, seenByMessageId])
 
   return (
     <div className="theme-image-surface flex h-full min-h-0">
@@ -1416,6 +1666,7 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
               setShowNewConversation(false)
               setSearchUsername('')
             }}
+            onStartGroup={() => setGroupMembersDialog('create')}
           />
         ) : (
           <>
@@ -1482,9 +1733,9 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
                             <DMHubConversationRow
                               conversation={{
                                 id: conversation.id,
-                                displayName: conversation.other_user?.display_name || 'Unknown member',
+                                displayName: getDMConversationTitle(conversation, profile?.id),
                                 username: conversation.other_user?.username,
-                                avatarUrl: conversation.other_user?.avatar_url,
+                                avatarUrl: isGroupDMConversation(conversation) ? conversation.avatar_url : conversation.other_user?.avatar_url,
                                 avatarThumbnailUrl: conversation.other_user?.avatar_thumbnail_url,
                                 color: conversation.other_user?.color,
                                 presenceVisibility: conversation.other_user?.presence_visibility,
@@ -1527,10 +1778,12 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
               <MobileAppHeader
                 currentView={currentView}
                 onViewChange={onViewChange}
-                title={currentConv.other_user?.display_name || 'Direct Message'}
+                title={currentConvTitle || 'Direct Message'}
                 avatar={{
-                  src: currentConv.other_user?.avatar_thumbnail_url || currentConv.other_user?.avatar_url,
-                  alt: currentConv.other_user?.display_name || 'Unknown User',
+                  src: currentConvIsGroup
+                    ? currentConv.avatar_url || undefined
+                    : currentConv.other_user?.avatar_thumbnail_url || currentConv.other_user?.avatar_url,
+                  alt: currentConvTitle || 'Unknown User',
                   color: currentConv.other_user?.color,
                   userId: currentConv.other_user?.id,
                   presenceVisibility: currentConv.other_user?.presence_visibility,
@@ -1544,7 +1797,7 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
                   <button
                     type="button"
                     onClick={handleOpenConversationDetails}
-                    aria-label={`Open conversation details for ${currentConv.other_user?.display_name || 'this member'}`}
+                    aria-label={`Open conversation details for ${currentConvTitle || 'this member'}`}
                     aria-haspopup="dialog"
                     aria-expanded={showConversationDetails}
                     className="inline-flex h-12 w-12 items-center justify-center rounded-full text-[var(--text-secondary)] transition-colors hover:bg-[var(--theme-accent-soft)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
@@ -1555,6 +1808,15 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
               />
             )}
 
+            {isDesktop && currentConv.message_ttl_seconds && !currentConv.is_blocked && (
+              <div className="mx-auto w-full max-w-4xl shrink-0 px-4 pt-2">
+                <DisappearingMessagesBanner
+                  messageTtlSeconds={currentConv.message_ttl_seconds}
+                  onChange={() => setDisappearingMessagesConversationId(currentConv.id)}
+                />
+              </div>
+            )}
+
             {!isDesktop && <div className="pointer-events-none absolute inset-x-0 top-[calc(env(safe-area-inset-top)+0.5rem)] z-40 flex items-center justify-between px-3">
               <button
                 ref={!isDesktop ? threadBackButtonRef : undefined}
@@ -1565,10 +1827,17 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
               >
                 <ArrowLeft className="h-5 w-5" />
               </button>
+              {currentConv.message_ttl_seconds && !currentConv.is_blocked ? (
+                <DisappearingMessagesBanner
+                  messageTtlSeconds={currentConv.message_ttl_seconds}
+                  onChange={() => setDisappearingMessagesConversationId(currentConv.id)}
+                  className="pointer-events-auto mx-2 flex-1"
+                />
+              ) : null}
               <button
                 type="button"
                 onClick={handleOpenConversationDetails}
-                aria-label={`Open conversation details for ${currentConv.other_user?.display_name || 'this member'}`}
+                aria-label={`Open conversation details for ${currentConvTitle || 'this member'}`}
                 aria-haspopup="dialog"
                 aria-expanded={showConversationDetails}
                 className="theme-floating-action pointer-events-auto inline-flex h-12 w-12 items-center justify-center rounded-full"
@@ -1581,7 +1850,7 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
               ref={messagesRef}
               onScroll={handleScroll}
               role="log"
-              aria-label={`Direct messages with ${currentConv.other_user?.display_name || 'this member'}`}
+              aria-label={currentConvIsGroup ? `Group messages in ${currentConvTitle}` : `Direct messages with ${currentConvTitle || 'this member'}`}
               data-testid="dm-message-scroll"
               data-loaded-count={messages.length}
               data-rendered-count={messages.length}
@@ -1612,7 +1881,15 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
                 </div>
               )}
 
-              {showThreadEmpty && (
+              {showThreadEmpty && currentConvIsGroup && (
+                <div className="glass-panel rounded-[var(--radius-xl)] px-8 py-8 text-center text-[var(--text-muted)]">
+                  <Users className="mx-auto mb-4 h-12 w-12 opacity-50" />
+                  <h3 className="mb-2 truncate text-lg font-medium text-[var(--text-primary)]">{currentConvTitle}</h3>
+                  <p className="text-sm">{formatGroupDMMemberSummary(currentConv, profile?.id)}. Send the first message to get the group going.</p>
+                </div>
+              )}
+
+              {showThreadEmpty && !currentConvIsGroup && (
                 <div className="glass-panel rounded-[var(--radius-xl)] px-8 py-8 text-center text-[var(--text-muted)]">
                   <MessageSquare className="mx-auto mb-4 h-12 w-12 opacity-50" />
                   <h3 className="mb-2 inline-flex max-w-full items-center justify-center gap-1.5 text-lg font-medium text-[var(--text-primary)]">
@@ -1625,28 +1902,33 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
                 </div>
               )}
 
-              {!currentConv.is_blocked && messages.map((message, index) => (
+              {!currentConv.is_blocked && displayMessages.map((message, index) => (
                 <React.Fragment key={message.id}>
                   {firstUnreadDMMessageId === message.id && (
                     <UnreadDivider />
                   )}
-                  <DirectMessageBubble
-                    message={message}
-                    previousMessage={messages[index - 1]}
-                    parentMessage={dmMessageMap.get(message.reply_to ?? '')}
-                    currentUserId={profile?.id ?? null}
-                    onReply={handleReply}
-                    onEdit={editMessage}
-                    onDelete={deleteMessage}
-                    onReact={toggleReaction}
-                    onRetryFailed={retryFailedMessage}
-                    onDiscardFailed={discardFailedMessage}
-                    onJumpToMessage={jumpToDMMessage}
-                    onOpenProfile={setProfileUser}
-                    containerRef={messagesRef}
-                    avatarLoading={eagerDMAvatarMessageIds.has(message.id) ? 'eager' : 'lazy'}
-                    avatarFetchPriority={eagerDMAvatarMessageIds.has(message.id) ? 'high' : undefined}
-                  />
+                  {message.message_type === 'system' ? (
+                    <DMSystemMessageNotice message={message} currentUserId={profile?.id ?? null} />
+                  ) : (
+                    <DirectMessageBubble
+                      message={message}
+                      previousMessage={displayMessages[index - 1]?.message_type === 'system' ? undefined : displayMessages[index - 1]}
+                      parentMessage={dmMessageMap.get(message.reply_to ?? '')}
+                      currentUserId={profile?.id ?? null}
+                      onReply={handleReply}
+                      onEdit={editMessage}
+                      onDelete={deleteMessage}
+                      onReact={toggleReaction}
+                      onRetryFailed={retryFailedMessage}
+                      onDiscardFailed={discardFailedMessage}
+                      onJumpToMessage={jumpToDMMessage}
+                      onOpenProfile={setProfileUser}
+                      containerRef={messagesRef}
+                      avatarLoading={eagerDMAvatarMessageIds.has(message.id) ? 'eager' : 'lazy'}
+                      avatarFetchPriority={eagerDMAvatarMessageIds.has(message.id) ? 'high' : undefined}
+                      seenByLabel={message.id === seenByMessageId ? seenByLabel : undefined}
+                    />
+                  )}
                 </React.Fragment>
               ))}
 
@@ -1705,18 +1987,25 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
                 {currentConv.is_blocked ? (
                   <BlockedConversationNotice blockedByMe={currentConv.blocked_by_me} />
                 ) : (
-                  <MessageInput
-                    onSendMessage={handleSendMessage}
-                    placeholder="Message..."
-                    disabled={sending || uploading}
-                    cacheKey={`dm-${currentConversation}`}
-                    onUploadStatusChange={setUploading}
-                    messages={messages}
-                    replyingTo={replyTo || undefined}
-                    onCancelReply={() => setReplyTo(null)}
-                    typingChannel={`dm-${currentConversation}`}
-                    enableGifPicker
-                  />
+                  <>
+                    <LiveLocationBanner conversationId={currentConversation} userId={profile?.id} />
+                    <MessageInput
+                      onSendMessage={handleSendMessage}
+                      onCreatePoll={currentConvEncrypted ? undefined : handleCreatePoll}
+                      onShareLocation={currentConvEncrypted ? undefined : () => setLocationShareOpen(true)}
+                      scheduleTarget={currentConvEncrypted ? undefined : scheduleTarget}
+                      onUploadAttachment={currentConvEncrypted ? handleUploadEncryptedAttachment : undefined}
+                      placeholder={currentConvEncrypted ? 'Encrypted message...' : 'Message...'}
+                      disabled={sending || uploading}
+                      cacheKey={`dm-${currentConversation}`}
+                      onUploadStatusChange={setUploading}
+                      messages={messages}
+                      replyingTo={replyTo || undefined}
+                      onCancelReply={() => setReplyTo(null)}
+                      typingChannel={`dm-${currentConversation}`}
+                      enableGifPicker
+                    />
+                  </>
                 )}
               </div>
             </div>
@@ -1728,19 +2017,26 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
               {currentConv.is_blocked ? (
                 <BlockedConversationNotice blockedByMe={currentConv.blocked_by_me} />
               ) : (
-                <MessageInput
-                  onSendMessage={handleSendMessage}
-                  placeholder="Message..."
-                  disabled={uploading}
-                  className="border-t border-[var(--border-panel)]"
-                  cacheKey={`dm-${currentConversation}`}
-                  onUploadStatusChange={setUploading}
-                  messages={messages}
-                  replyingTo={replyTo || undefined}
-                  onCancelReply={() => setReplyTo(null)}
-                  typingChannel={`dm-${currentConversation}`}
-                  enableGifPicker
-                />
+                <>
+                  <LiveLocationBanner conversationId={currentConversation} userId={profile?.id} />
+                  <MessageInput
+                    onSendMessage={handleSendMessage}
+                    onCreatePoll={currentConvEncrypted ? undefined : handleCreatePoll}
+                    onShareLocation={currentConvEncrypted ? undefined : () => setLocationShareOpen(true)}
+                    scheduleTarget={currentConvEncrypted ? undefined : scheduleTarget}
+                    onUploadAttachment={currentConvEncrypted ? handleUploadEncryptedAttachment : undefined}
+                    placeholder={currentConvEncrypted ? 'Encrypted message...' : 'Message...'}
+                    disabled={uploading}
+                    className="border-t border-[var(--border-panel)]"
+                    cacheKey={`dm-${currentConversation}`}
+                    onUploadStatusChange={setUploading}
+                    messages={messages}
+                    replyingTo={replyTo || undefined}
+                    onCancelReply={() => setReplyTo(null)}
+                    typingChannel={`dm-${currentConversation}`}
+                    enableGifPicker
+                  />
+                </>
               )}
             </MobileChatFooter>
           </>
@@ -1838,11 +2134,28 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
           color={currentConv.other_user.color}
           presenceVisibility={currentConv.other_user.presence_visibility}
           muted={Boolean(hub.allItems.find(item => item.conversation.id === currentConversation)?.muted)}
+          autoTranslate={Boolean(translationPreferences.autoTranslate[getTranslationConversationKey('dm', currentConversation)])}
           blockedByMe={currentConv.blocked_by_me || isBlockedByMe(currentConv.other_user.id)}
           busyAction={blockingUserIds.has(currentConv.other_user.id) ? 'block' : null}
           onSearch={conversationId => onRoute?.('replace-search', conversationId)}
           onOpenShared={conversationId => onRoute?.('replace-shared', conversationId)}
+          onExport={conversationId => {
+            handleCloseConversationDetails()
+            setExportConversationId(conversationId)
+          }}
+          onAsk={conversationId => {
+            handleCloseConversationDetails()
+            setAskConversationId(conversationId)
+          }}
+          onToggleAutoTranslate={(conversationId, nextEnabled) => {
+            setConversationAutoTranslate(getTranslationConversationKey('dm', conversationId), nextEnabled)
+          }}
           onToggleNotifications={handleToggleMute}
+          onOpenNotificationRules={handleOpenNotificationRules}
+          messageTtlSeconds={currentConv.message_ttl_seconds}
+          onOpenDisappearingMessages={handleOpenDisappearingMessages}
+          e2eeEnabled={currentConvEncrypted}
+          onOpenEncryption={handleOpenEncryption}
           onOpenProfile={() => {
             handleCloseConversationDetails()
             setProfileUser(currentConv.other_user ?? null)
@@ -1850,13 +2163,141 @@ export const DirectMessagesView: React.FC<DirectMessagesViewProps> = ({
           onToggleBlock={handleToggleBlock}
         />
       )}
-      {currentConversation && currentConv?.other_user && (initialPanel === 'search' || initialPanel === 'shared') && (
+      {currentConversation && currentConv && currentConvIsGroup && (
+        <GroupDMDetailsSheet
+          open={showConversationDetails}
+          onClose={handleCloseConversationDetails}
+          conversation={currentConv}
+          currentUserId={profile?.id}
+          muted={Boolean(hub.allItems.find(item => item.conversation.id === currentConversation)?.muted)}
+          autoTranslate={Boolean(translationPreferences.autoTranslate[getTranslationConversationKey('dm', currentConversation)])}
+          onSearch={conversationId => onRoute?.('replace-search', conversationId)}
+          onOpenShared={conversationId => onRoute?.('replace-shared', conversationId)}
+          onExport={conversationId => {
+            handleCloseConversationDetails()
+            setExportConversationId(conversationId)
+          }}
+          onAsk={conversationId => {
+            handleCloseConversationDetails()
+            setAskConversationId(conversationId)
+          }}
+          onToggleAutoTranslate={(conversationId, nextEnabled) => {
+            setConversationAutoTranslate(getTranslationConversationKey('dm', conversationId), nextEnabled)
+          }}
+          onToggleNotifications={handleToggleMute}
+          onOpenNotificationRules={handleOpenNotificationRules}
+          onOpenDisappearingMessages={handleOpenDisappearingMessages}
+          onOpenEncryption={handleOpenEncryption}
+          onOpenProfile={member => {
+            handleCloseConversationDetails()
+            setProfileUser(member)
+          }}
+          onAddPeople={() => setGroupMembersDialog('add')}
+          onLeft={() => {
+            handleCloseConversationDetails()
+            handleBackToInbox()
+          }}
+        />
+      )}
+      {notificationRulesConversationId && (
+        <ConversationNotificationRulesSheet
+          open
+          onClose={() => setNotificationRulesConversationId(null)}
+          conversationId={notificationRulesConversationId}
+          conversationLabel={currentConversation === notificationRulesConversationId && currentConvTitle
+            ? currentConvTitle
+            : 'this conversation'}
+          onMuteChange={() => void refreshHub()}
+        />
+      )}
+      {disappearingMessagesConversationId && (
+        <DisappearingMessagesSheet
+          open
+          onClose={() => setDisappearingMessagesConversationId(null)}
+          conversationId={disappearingMessagesConversationId}
+          conversationLabel={currentConversation === disappearingMessagesConversationId && currentConvTitle
+            ? currentConvTitle
+            : 'this conversation'}
+          messageTtlSeconds={conversations.find(conversation => conversation.id === disappearingMessagesConversationId)?.message_ttl_seconds}
+        />
+      )}
+      {encryptionConversationId && profile && (
+        <DMEncryptionSheet
+          open
+          onClose={() => setEncryptionConversationId(null)}
+          conversationId={encryptionConversationId}
+          conversationLabel={currentConversation === encryptionConversationId && currentConvTitle
+            ? currentConvTitle
+            : 'this conversation'}
+          e2eeEnabledAt={conversations.find(conversation => conversation.id === encryptionConversationId)?.e2ee_enabled_at}
+          userId={profile.id}
+          device={dmDeviceKey}
+          deviceError={dmDeviceKeyError}
+        />
+      )}
+      {groupMembersDialog === 'create' && (
+        <GroupDMMembersDialog
+          open
+          mode="create"
+          onClose={() => setGroupMembersDialog(null)}
+          users={groupCandidateUsers}
+          loading={allUsersLoading}
+          onCreated={conversationId => {
+            setShowNewConversation(false)
+            setSearchUsername('')
+            setPendingGroupConversationId(conversationId)
+          }}
+        />
+      )}
+      {groupMembersDialog === 'add' && currentConv && currentConvIsGroup && (
+        <GroupDMMembersDialog
+          open
+          mode="add"
+          onClose={() => setGroupMembersDialog(null)}
+          users={groupCandidateUsers}
+          loading={allUsersLoading}
+          conversationId={currentConv.id}
+          currentMemberCount={currentConv.participants?.length ?? 0}
+        />
+      )}
+      {exportConversationId && exportConversationId === currentConversation && currentConv && (
+        <ConversationExportDialog
+          open
+          onClose={() => setExportConversationId(null)}
+          target={{
+            surface: 'dm',
+            conversationId: exportConversationId,
+            title: currentConvTitle,
+          }}
+        />
+      )}
+      {currentConversation && (
+        <LocationShareDialog
+          open={locationShareOpen}
+          onClose={() => setLocationShareOpen(false)}
+          userId={profile?.id}
+          onShare={handleShareLocation}
+        />
+      )}
+      {askConversationId && askConversationId === currentConversation && currentConv && (
+        <AskTheRoomDialog
+          open
+          onClose={() => setAskConversationId(null)}
+          scope={{
+            surface: 'dm',
+            conversationId: askConversationId,
+            title: currentConvTitle,
+          }}
+        />
+      )}
+      {currentConversation && currentConv && (initialPanel === 'search' || initialPanel === 'shared') && (
         <React.Suspense fallback={null}>
           <DMHubConversationContentSheet
             open
             panel={initialPanel}
             conversationId={currentConversation}
-            conversationLabel={currentConv.other_user.display_name || currentConv.other_user.username}
+            conversationLabel={currentConvTitle}
+            encrypted={currentConvEncrypted}
             onClose={() => onRoute?.('close-panel', currentConversation)}
             onSelectMessage={messageId => onRoute?.('replace-thread', currentConversation, messageId)}
           />
@@ -1,4 +1,9 @@
 import type { DMConversation, DMMessage } from '../../lib/supabase'
+import {
+  getGroupDMMemberById,
+  getGroupDMMemberName,
+  isGroupDMConversation,
+} from '../../features/group-dms/groupDMModel'
 
 export type DMConversationHubMode = 'inbox' | 'unread' | 'archived'
 
@@ -99,6 +104,26 @@ export const normalizeDMConversationDraft = (value: string | null | undefined) =
   compactText(value, 160)
 )
 
+const getMessagePreview = (
+  message: DMMessage,
+  direction: DMConversationPreviewDirection
+): DMConversationPreview => {
+  switch (message.message_type) {
+    case 'image':
+      return { kind: 'image', direction, text: withOptionalCaption('Photo', message) }
+    case 'video':
+      return { kind: 'video', direction, text: withOptionalCaption('Video', message) }
+    case 'audio':
+      return { kind: 'audio', direction, text: 'Voice message' }
+    case 'file':
+      return { kind: 'file', direction, text: withOptionalCaption('File', message) }
+    case 'hype':
+      return { kind: 'hype', direction, text: compactText(message.content) || 'Hype' }
+    default:
+      return { kind: 'text', direction, text: compactText(message.content) || 'Message' }
+  }
+}
+
 export const getDMConversationPreview = ({
   conversation,
   currentUserId,
@@ -123,20 +148,13 @@ export const getDMConversationPreview = ({
   }
 
   const direction = getMessageDirection(message, currentUserId)
-  switch (message.message_type) {
-    case 'image':
-      return { kind: 'image', direction, text: withOptionalCaption('Photo', message) }
-    case 'video':
-      return { kind: 'video', direction, text: withOptionalCaption('Video', message) }
-    case 'audio':
-      return { kind: 'audio', direction, text: 'Voice message' }
-    case 'file':
-      return { kind: 'file', direction, text: withOptionalCaption('File', message) }
-    case 'hype':
-      return { kind: 'hype', direction, text: compactText(message.content) || 'Hype' }
-    default:
-      return { kind: 'text', direction, text: compactText(message.content) || 'Message' }
-  }
+  const preview = getMessagePreview(message, direction)
+  if (direction !== 'incoming' || !isGroupDMConversation(conversation)) return preview
+
+  // Group previews name the sender, since the row title is the group itself.
+  const sender = getGroupDMMemberById(conversation, message.sender_id) ?? message.sender
+  const senderName = getGroupDMMemberName(sender).split(/\s+/)[0]
+  return { ...preview, text: `${senderName}: ${preview.text}` }
 }
 
 const timestampValue = (value: string | null | undefined) => {
@@ -203,9 +221,12 @@ const itemMatchesQuery = (item: DMConversationHubItem, query: string) => {
   const messageContent = item.conversation.is_blocked
     ? ''
     : item.conversation.last_message?.content
+  const members = item.conversation.members ?? []
   const searchable = normalizeSearchText([
     otherUser?.display_name,
     otherUser?.username,
+    item.conversation.title,
+    ...members.flatMap(member => [member.display_name, member.username]),
     item.preview.text,
     messageContent,
     item.conversation.is_blocked ? '' : item.localDraft,
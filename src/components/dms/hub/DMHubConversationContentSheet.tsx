@@ -29,6 +29,8 @@ type DMHubConversationContentSheetProps = {
   panel: DMHubConversationContentPanel
   conversationId: string
   conversationLabel: string
+  /** Encrypted messages never reach the server as text, so results only cover earlier messages. */
+  encrypted?: boolean
   onClose: () => void
   onSelectMessage: (messageId: string) => void
   debounceMs?: number
@@ -150,6 +152,7 @@ export function DMHubConversationContentSheet({
   panel,
   conversationId,
   conversationLabel,
+  encrypted = false,
   onClose,
   onSelectMessage,
   debounceMs = 300,
@@ -327,9 +330,9 @@ export function DMHubConversationContentSheet({
   }, [conversationId, pageSize, sharedCursor, sharedFilter, sharedHasMore, sharedLoadingMore])
 
   const title = panel === 'search' ? 'Search conversation' : 'Shared content'
-  const description = panel === 'search'
+  const description = `${panel === 'search'
     ? `Find messages exchanged with ${conversationLabel}.`
-    : `Media, files, and links shared with ${conversationLabel}.`
+    : `Media, files, and links shared with ${conversationLabel}.`}${encrypted ? ' End-to-end encrypted messages are not included.' : ''}`
   const normalizedLiveQuery = query.trim().slice(0, 200)
   const searchDebouncing = normalizedLiveQuery !== debouncedQuery
   const searchStatus = useMemo(() => {
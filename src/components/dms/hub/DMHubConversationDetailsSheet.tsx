@@ -2,16 +2,23 @@ import { useEffect, useId, useRef, useState, type Ref } from 'react'
 import {
   Bell,
   BellOff,
+  Download,
   Images,
+  Languages,
+  LockKeyhole,
+  MessageCircleQuestion,
   Search,
   ShieldAlert,
+  SlidersHorizontal,
   ShieldCheck,
+  Timer,
   UserRound,
 } from 'lucide-react'
 import type { PresenceVisibility } from '../../../types'
 import { cn } from '../../../lib/utils'
 import { Avatar } from '../../ui/Avatar'
 import { DMHubBottomSheet } from './DMHubBottomSheet'
+import { formatDisappearingMessageTimer } from '../../../features/disappearing-messages/disappearingMessagesModel'
 
 type DMHubConversationDetailsSheetProps = {
   open: boolean
@@ -25,16 +32,25 @@ type DMHubConversationDetailsSheetProps = {
   color?: string | null
   presenceVisibility?: PresenceVisibility | null
   muted?: boolean
+  autoTranslate?: boolean
   blockedByMe?: boolean
   busyAction?: 'notifications' | 'block' | null
   onSearch: (conversationId: string) => void
   onOpenShared: (conversationId: string) => void
+  onExport?: (conversationId: string) => void
+  onAsk?: (conversationId: string) => void
+  onToggleAutoTranslate?: (conversationId: string, nextEnabled: boolean) => void
   onToggleNotifications: (conversationId: string, nextMuted: boolean) => void | Promise<void>
+  onOpenNotificationRules?: (conversationId: string) => void
+  messageTtlSeconds?: number | null
+  onOpenDisappearingMessages?: (conversationId: string) => void
+  e2eeEnabled?: boolean
+  onOpenEncryption?: (conversationId: string) => void
   onOpenProfile: (conversationId: string) => void
   onToggleBlock: (conversationId: string, nextBlocked: boolean) => void | Promise<void>
 }
 
-function DetailsAction({
+export function DetailsAction({
   label,
   description,
   icon: Icon,
@@ -96,11 +112,20 @@ export function DMHubConversationDetailsSheet({
   color,
   presenceVisibility,
   muted = false,
+  autoTranslate = false,
   blockedByMe = false,
   busyAction = null,
   onSearch,
   onOpenShared,
+  onExport,
+  onAsk,
+  onToggleAutoTranslate,
   onToggleNotifications,
+  onOpenNotificationRules,
+  messageTtlSeconds = null,
+  onOpenDisappearingMessages,
+  e2eeEnabled = false,
+  onOpenEncryption,
   onOpenProfile,
   onToggleBlock,
 }: DMHubConversationDetailsSheetProps) {
@@ -156,6 +181,33 @@ export function DMHubConversationDetailsSheet({
           icon={Images}
           onClick={() => onOpenShared(conversationId)}
         />
+        {onAsk && (
+          <DetailsAction
+            label="Ask about this chat"
+            description="Get a private answer with links to the messages it came from."
+            icon={MessageCircleQuestion}
+            onClick={() => onAsk(conversationId)}
+          />
+        )}
+        {onToggleAutoTranslate && (
+          <DetailsAction
+            label={autoTranslate ? 'Stop auto-translating' : 'Auto-translate messages'}
+            description={autoTranslate
+              ? 'Show new messages in the language they were written in.'
+              : 'Show new messages in your preferred language. Originals stay one tap away.'}
+            icon={Languages}
+            pressed={autoTranslate}
+            onClick={() => onToggleAutoTranslate(conversationId, !autoTranslate)}
+          />
+        )}
+        {onExport && (
+          <DetailsAction
+            label="Export conversation"
+            description="Download a date range as Markdown, JSON, or HTML."
+            icon={Download}
+            onClick={() => onExport(conversationId)}
+          />
+        )}
         <DetailsAction
           label={muted ? 'Resume notifications' : 'Mute notifications'}
           description={muted ? 'Allow new-message alerts from this conversation.' : 'Silence alerts without archiving or blocking.'}
@@ -164,6 +216,36 @@ export function DMHubConversationDetailsSheet({
           disabled={busyAction === 'notifications'}
           onClick={() => void onToggleNotifications(conversationId, !muted)}
         />
+        {onOpenNotificationRules && (
+          <DetailsAction
+            label="Notification rules"
+            description="Mentions only, snooze, a custom sound, or VIP alerts during quiet hours."
+            icon={SlidersHorizontal}
+            onClick={() => onOpenNotificationRules(conversationId)}
+          />
+        )}
+        {onOpenDisappearingMessages && (
+          <DetailsAction
+            label="Disappearing messages"
+            description={messageTtlSeconds
+              ? `On. New messages disappear after ${formatDisappearingMessageTimer(messageTtlSeconds)}.`
+              : 'Off. Set a timer so new messages delete themselves for everyone.'}
+            icon={Timer}
+            pressed={Boolean(messageTtlSeconds)}
+            onClick={() => onOpenDisappearingMessages(conversationId)}
+          />
+        )}
+        {onOpenEncryption && (
+          <DetailsAction
+            label="End-to-end encryption"
+            description={e2eeEnabled
+              ? 'On. Only member devices can read new messages and attachments.'
+              : 'Off. Turn it on so new messages can only be read on member devices.'}
+            icon={LockKeyhole}
+            pressed={e2eeEnabled}
+            onClick={() => onOpenEncryption(conversationId)}
+          />
+        )}
         <DetailsAction
           label="View profile"
           description={`Open ${displayName}'s member profile.`}
@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react'
+import { AtSign, Bell, Crown, Music2, TimerReset } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '../../hooks/useAuth'
+import {
+  fetchConversationNotificationMuteUntil,
+  fetchConversationNotificationRule,
+  getConversationNotificationSnoozeUntil,
+  getDefaultConversationNotificationRule,
+  saveConversationNotificationRule,
+  setConversationNotificationMute,
+  type ConversationNotificationRule,
+  type ConversationNotificationSnooze,
+} from '../../lib/push'
+import { cn } from '../../lib/utils'
+import { DMHubBottomSheet } from '../dms/hub/DMHubBottomSheet'
+import { DetailsAction } from '../dms/hub/DMHubConversationDetailsSheet'
+import { NotificationSoundPicker } from '../settings/NotificationSoundPicker'
+import {
+  getNotificationTypePolicyV2,
+  isNotificationSoundId,
+} from '../../features/notifications/notificationEnvelopeV2'
+import { getNotificationSoundLabel } from '../../features/notifications/notificationPresentationPreferences'
+
+type ConversationNotificationRulesSheetProps = {
+  open: boolean
+  onClose: () => void
+  conversationId: string
+  conversationLabel: string
+  onMuteChange?: (conversationId: string) => void
+}
+
+const snoozeOptions: Array<[ConversationNotificationSnooze, string]> = [
+  ['1h', '1 hour'],
+  ['8h', '8 hours'],
+  ['tomorrow', 'Until tomorrow'],
+]
+
+const deliveryModes: Array<[ConversationNotificationRule['delivery_mode'], string]> = [
+  ['all', 'All messages'],
+  ['mentions_only', 'Mentions only'],
+]
+
+const optionClassName = (selected: boolean) => cn(
+  'min-h-11 rounded-[var(--radius-sm)] border px-3 py-2 text-xs font-semibold transition-[background-color,border-color,color] disabled:cursor-wait disabled:opacity-60',
+  selected
+    ? 'border-[var(--border-glow)] bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]'
+    : 'border-[var(--border-subtle)] bg-[rgba(0,0,0,0.18)] text-[var(--text-secondary)]'
+)
+
+export function ConversationNotificationRulesSheet({
+  open,
+  onClose,
+  conversationId,
+  conversationLabel,
+  onMuteChange,
+}: ConversationNotificationRulesSheetProps) {
+  const { user } = useAuth()
+  const userId = user?.id
+  const [rule, setRule] = useState(() => getDefaultConversationNotificationRule(conversationId))
+  const [muted, setMuted] = useState(false)
+  const [mutedUntil, setMutedUntil] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [soundPickerOpen, setSoundPickerOpen] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    let active = true
+    setLoading(true)
+    setRule(getDefaultConversationNotificationRule(conversationId))
+
+    if (!userId) {
+      setLoading(false)
+      return () => {
+        active = false
+      }
+    }
+
+    void Promise.all([
+      fetchConversationNotificationRule(userId, conversationId),
+      fetchConversationNotificationMuteUntil(userId, conversationId),
+    ])
+      .then(([nextRule, mute]) => {
+        if (!active) return
+        setRule(nextRule)
+        setMuted(mute.muted)
+        setMutedUntil(mute.mutedUntil)
+      })
+      .catch(() => {
+        if (active) toast.error('Could not load notification rules')
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+
+    return () => {
+      active = false
+    }
+  }, [conversationId, open, userId])
+
+  const saveRule = async (changes: Partial<ConversationNotificationRule>) => {
+    if (!userId || saving) return false
+    const previous = rule
+    setRule({ ...rule, ...changes })
+    setSaving(true)
+    try {
+      setRule(await saveConversationNotificationRule(userId, { ...rule, ...changes }))
+      return true
+    } catch (error) {
+      setRule(previous)
+      toast.error(error instanceof Error ? error.message : 'Failed to update notification rules')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateSnooze = async (snooze: ConversationNotificationSnooze | null) => {
+    if (!userId || saving) return
+    const nextMutedUntil = snooze ? getConversationNotificationSnoozeUntil(snooze) : null
+    setSaving(true)
+    try {
+      await setConversationNotificationMute(userId, conversationId, snooze !== null, nextMutedUntil)
+      setMuted(snooze !== null)
+      setMutedUntil(nextMutedUntil)
+      onMuteChange?.(conversationId)
+      toast.success(snooze
+        ? `${conversationLabel} snoozed until ${new Date(nextMutedUntil ?? '').toLocaleString()}`
+        : `Notifications resumed for ${conversationLabel}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update conversation snooze')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const defaultSoundId = getNotificationTypePolicyV2('dm_message').soundId
+  const customSoundId = isNotificationSoundId(rule.sound_id) ? rule.sound_id : null
+  const busy = !userId || loading || saving
+  const muteStatus = !muted
+    ? 'Alerts are on for this conversation.'
+    : mutedUntil
+      ? `Snoozed until ${new Date(mutedUntil).toLocaleString()}`
+      : 'Muted until you resume notifications.'
+
+  return (
+    <>
+      <DMHubBottomSheet
+        open={open}
+        onClose={onClose}
+        title="Notification rules"
+        eyebrow={conversationLabel}
+        description="These rules only change alerts for you. Messages still arrive in the conversation."
+        testId="conversation-notification-rules"
+        suspended={soundPickerOpen}
+      >
+        <div className="space-y-4" aria-busy={loading || saving}>
+          <section className="space-y-2">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-[var(--text-primary)]">
+              <AtSign className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+              Alert me for
+            </h3>
+            <div className="grid grid-cols-2 gap-1.5" role="radiogroup" aria-label="Alert me for">
+              {deliveryModes.map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={rule.delivery_mode === value}
+                  disabled={busy}
+                  onClick={() => void saveRule({ delivery_mode: value })}
+                  className={optionClassName(rule.delivery_mode === value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-[var(--text-primary)]">
+              <TimerReset className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+              Snooze
+            </h3>
+            <p className="text-xs text-[var(--text-muted)]">{muteStatus}</p>
+            <div className="grid grid-cols-3 gap-1.5">
+              {snoozeOptions.map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void updateSnooze(value)}
+                  className={optionClassName(false)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {muted && (
+              <DetailsAction
+                label="Resume notifications"
+                description="End the snooze or mute now."
+                icon={Bell}
+                disabled={busy}
+                onClick={() => void updateSnooze(null)}
+              />
+            )}
+          </section>
+
+          <DetailsAction
+            label="Sound"
+            description={customSoundId
+              ? getNotificationSoundLabel(customSoundId)
+              : `Default (${getNotificationSoundLabel(defaultSoundId)})`}
+            icon={Music2}
+            disabled={busy}
+            onClick={() => setSoundPickerOpen(true)}
+          />
+          {customSoundId && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void saveRule({ sound_id: null })}
+              className="min-h-11 px-1 text-xs font-semibold text-[var(--text-secondary)] underline-offset-2 hover:underline disabled:opacity-60"
+            >
+              Use the default direct message sound
+            </button>
+          )}
+
+          <DetailsAction
+            label="VIP: alert during quiet hours"
+            description="Quiet hours won't hold this conversation. Muting all notifications and snooze still apply."
+            icon={Crown}
+            pressed={rule.bypass_quiet_hours}
+            disabled={busy}
+            onClick={() => void saveRule({ bypass_quiet_hours: !rule.bypass_quiet_hours })}
+          />
+        </div>
+      </DMHubBottomSheet>
+      <NotificationSoundPicker
+        open={open && soundPickerOpen}
+        title={conversationLabel}
+        description="Plays for new messages in this conversation instead of your direct message sound."
+        value={customSoundId ?? defaultSoundId}
+        onClose={() => setSoundPickerOpen(false)}
+        onApply={soundId => saveRule({ sound_id: soundId })}
+      />
+    </>
+  )
+}
@@ -16,6 +16,7 @@ import toast from 'react-hot-toast'
 import type { PresenceVisibility } from '../../types'
 import { getUploadErrorMessage } from '../../lib/uploadLimits'
 import { openConnectionsHub } from '../../lib/connectionsNavigation'
+import { CustomStatusEditor } from '../../features/custom-status/CustomStatusEditor'
 
 interface ProfileViewProps {
   onToggleSidebar: () => void
@@ -703,6 +704,9 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ onToggleSidebar, embed
               </div>
             </div>
           </div>
+          <div className="mt-6">
+            <CustomStatusEditor />
+          </div>
         </div>
       )}
       {avatarEditor && (
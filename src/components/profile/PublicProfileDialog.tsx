@@ -33,6 +33,10 @@ import { useBlockedUsers } from '../../hooks/useBlockedUsers'
 import { useModerationReport } from '../../features/moderation/useModerationReport'
 import { MEMBER_REPORTING_FEATURE_ENABLED } from '../../config/featureFlags'
 import { ConnectionControl } from '../../features/connections/ConnectionControl'
+import { CustomStatusLine } from '../../features/custom-status/CustomStatusLine'
+import { getPresenceCustomStatus } from '../../features/custom-status/customStatusModel'
+import { SafetyNumberSection } from '../../features/e2ee-dms/SafetyNumberSection'
+import { ShadowPinBoardsSection } from '../../features/shadow-pin/boards/ShadowPinBoardsSection'
 
 interface PublicProfileDialogProps {
   user: User | null
@@ -327,6 +331,7 @@ export const PublicProfileDialog: React.FC<PublicProfileDialogProps> = ({
     livePresence?.presence_state ||
     (user.presence_visibility === 'invisible' ? 'invisible' : 'offline')
   const presenceLabel = getPresenceStateLabel(presenceState)
+  const customStatus = getPresenceCustomStatus(livePresence)
 
   const profilePage = (
     <AnimatePresence>
@@ -400,6 +405,11 @@ export const PublicProfileDialog: React.FC<PublicProfileDialogProps> = ({
                 </div>
               </div>
 
+              <CustomStatusLine
+                status={customStatus}
+                className="mt-4 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.04)] px-3 py-2 text-sm"
+              />
+
               <div className="mt-5 flex flex-wrap items-center gap-2">
                 <span className="inline-flex items-center gap-2 rounded-full border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.04)] px-3 py-1 text-xs font-medium text-[var(--text-secondary)]">
                   {presenceState === 'invisible' ? (
@@ -544,6 +554,22 @@ export const PublicProfileDialog: React.FC<PublicProfileDialogProps> = ({
                   </div>
                 </section>
 
+                {currentProfile && (
+                  <ShadowPinBoardsSection
+                    userId={user.id}
+                    isOwnProfile={currentProfile.id === user.id}
+                    onNavigate={onClose}
+                  />
+                )}
+
+                {canStartDM && currentProfile && (
+                  <SafetyNumberSection
+                    currentUserId={currentProfile.id}
+                    otherUserId={user.id}
+                    otherUserLabel={user.display_name || user.username || 'this member'}
+                  />
+                )}
+
                 {activeBans.length > 0 && (
                   <section className="rounded-[var(--radius-md)] border border-[rgba(215,170,70,0.24)] bg-[rgba(215,170,70,0.06)] p-4">
                     <div className="mb-2 flex items-center gap-2 text-xs uppercase tracking-[0.16em] text-[var(--text-muted)]">
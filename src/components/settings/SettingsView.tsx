@@ -44,6 +44,10 @@ import { AdminInvitesPanel } from './AdminInvitesPanel'
 import { ShadoTvStudio } from './ShadoTvStudio'
 import { WeatherLocationSettings } from './WeatherLocationSettings'
 import { BlockedUsersSettings } from './BlockedUsersSettings'
+import { DataTakeoutSettings } from '../../features/data-takeout/DataTakeoutSettings'
+import { TranslationSettings } from '../../features/message-translation/TranslationSettings'
+import { KeywordAlertsSettings } from '../../features/keyword-alerts/KeywordAlertsSettings'
+import { ReadReceiptSettings } from '../../features/read-receipts/ReadReceiptSettings'
 import { ProfileView } from '../profile/ProfileView'
 import { useAdminAccess } from '../../hooks/useAdminAccess'
 import { UserRoleBadge } from '../ui/UserRoleBadge'
@@ -57,6 +61,7 @@ import {
 } from '../../config/featureFlags'
 import type { AppView } from '../../types/navigation'
 import { getBrowserTimeZone } from '../../lib/push'
+import type { NotificationDigestMode } from '../../lib/push'
 import { COMFORT_RESET_EVENT } from '../../lib/comfortPreferences'
 import { requestAppBadgeRefresh } from '../../lib/appBadge'
 import { NotificationBannerV2 } from '../../features/notifications/NotificationBannerV2'
@@ -113,6 +118,19 @@ const nativeNotificationStageText: Record<string, string> = {
   registering_token: 'Finishing notification registration',
 }
 
+const notificationDigestCategories = [
+  ['interactions_digest_mode', 'Reactions & Hype'],
+  ['shadow_pin_digest_mode', 'ShadowPin posts & comments'],
+  ['presence_digest_mode', 'Active users'],
+  ['games_digest_mode', 'Game turns'],
+] as const
+
+const notificationDigestModes: Array<[NotificationDigestMode, string]> = [
+  ['immediate', 'Immediate'],
+  ['hourly', 'Hourly'],
+  ['daily', 'Daily'],
+]
+
 const notificationSoundSections: NotificationSoundSection[] = [
   'Messages',
   'Social & ShadowPin',
@@ -579,6 +597,12 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                   enabled: preferences.reply_enabled,
                   onChange: (enabled: boolean) => updatePreference('reply_enabled', enabled),
                 },
+                {
+                  label: 'Keyword Alerts',
+                  description: 'Notify when a General Chat message matches one of your keywords below.',
+                  enabled: preferences.keyword_alerts_enabled,
+                  onChange: (enabled: boolean) => updatePreference('keyword_alerts_enabled', enabled),
+                },
                 {
                   label: 'Reactions',
                   description: 'Notify when someone reacts to your General Chat or DM messages.',
@@ -1084,6 +1108,8 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
           </section>
         ))}
 
+        {preferences && <KeywordAlertsSettings paused={!preferences.keyword_alerts_enabled} />}
+
         {preferences && (
           <div className="glass-panel rounded-[var(--radius-lg)] p-4 sm:p-5">
             <p className="text-sm font-semibold text-[var(--text-primary)]">Who can trigger Active User notifications?</p>
@@ -1236,6 +1262,42 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
             </div>
           )}
 
+          <div className="mt-4 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.03)] p-4">
+            <p className="text-sm font-medium text-[var(--text-primary)]">Digests</p>
+            <p className="mt-1 text-xs leading-5 text-[var(--text-muted)]">
+              Roll low-priority alerts into one summary push. Hourly digests arrive on the hour; daily digests arrive at 9:00 in your notification time zone. Direct messages, mentions, and replies always arrive immediately.
+            </p>
+            <div className="mt-3 space-y-3">
+              {notificationDigestCategories.map(([key, label]) => (
+                <div key={key} className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-sm text-[var(--text-secondary)]">{label}</span>
+                  <div className="grid grid-cols-3 gap-1.5" role="radiogroup" aria-label={`${label} delivery`}>
+                    {notificationDigestModes.map(([value, modeLabel]) => {
+                      const selected = preferences[key] === value
+                      return (
+                        <button
+                          key={value}
+                          type="button"
+                          role="radio"
+                          aria-checked={selected}
+                          disabled={pushSaving}
+                          onClick={() => void updatePreference(key, value)}
+                          className={`min-h-11 rounded-[var(--radius-sm)] border px-3 py-2 text-xs font-semibold transition-[background-color,border-color,color] ${
+                            selected
+                              ? 'border-[var(--border-glow)] bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]'
+                              : 'border-[var(--border-subtle)] bg-[rgba(0,0,0,0.18)] text-[var(--text-secondary)]'
+                          }`}
+                        >
+                          {modeLabel}
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div className="mt-4 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.03)] p-4">
             <p className="text-sm font-medium text-[var(--text-primary)]">
               {snoozedUntil ? `Snoozed until ${snoozedUntil.toLocaleString()}` : 'Temporary snooze is off'}
@@ -1772,7 +1834,10 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
     <div className="space-y-5">
       <ProfileView onToggleSidebar={onToggleSidebar} embedded />
       <WeatherLocationSettings />
+      <TranslationSettings />
       <BlockedUsersSettings />
+      <ReadReceiptSettings />
+      <DataTakeoutSettings />
       <div className="glass-panel rounded-[var(--radius-lg)] p-5">
         <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
           <div>
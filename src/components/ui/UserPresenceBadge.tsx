@@ -1,5 +1,9 @@
-import { Ghost } from 'lucide-react'
+import { Gamepad2, Ghost, Headphones, MessageSquareText, Tv } from 'lucide-react'
 import { usePresenceForUser } from '../../hooks/usePresence'
+import {
+  formatCustomStatusSummary,
+  getPresenceCustomStatus,
+} from '../../features/custom-status/customStatusModel'
 import type { PresenceVisibility } from '../../types'
 
 interface UserPresenceBadgeProps {
@@ -8,6 +12,12 @@ interface UserPresenceBadgeProps {
   className?: string
 }
 
+const ACTIVITY_ICONS = {
+  watching: Tv,
+  playing: Gamepad2,
+  listening: Headphones,
+}
+
 export function UserPresenceBadge({
   userId,
   presenceVisibility,
@@ -16,6 +26,24 @@ export function UserPresenceBadge({
   const presence = usePresenceForUser(userId)
   const isInvisible =
     presence?.presence_state === 'invisible' || presenceVisibility === 'invisible'
+  const customStatus = isInvisible ? null : getPresenceCustomStatus(presence)
+
+  if (customStatus) {
+    const summary = formatCustomStatusSummary(customStatus)
+    const StatusIcon = customStatus.activity && !customStatus.emoji
+      ? ACTIVITY_ICONS[customStatus.activity.kind]
+      : MessageSquareText
+    return (
+      <span
+        className={`inline-flex h-4 min-w-4 shrink-0 items-center justify-center rounded-full text-[0.8rem] leading-none text-[var(--theme-accent-readable)] ${className}`}
+        title={summary}
+        aria-label={`Status: ${summary}`}
+        role="img"
+      >
+        {customStatus.emoji ?? <StatusIcon className="h-3 w-3" />}
+      </span>
+    )
+  }
 
   if (!isInvisible) {
     return null
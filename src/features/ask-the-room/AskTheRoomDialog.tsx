@@ -0,0 +1,184 @@
+import { useEffect, useId, useRef, useState, type FormEvent } from 'react'
+import { createPortal } from 'react-dom'
+import { ArrowUpRight, MessageCircleQuestion, X } from 'lucide-react'
+import { Button } from '../../components/ui/Button'
+import { useDialogAccessibility } from '../../hooks/useDialogAccessibility'
+import { buildCatchUpTargetUrl, formatCatchUpTime } from '../catch-up/catchUpModel'
+import { askTheRoom } from './askTheRoomApi'
+import {
+  getAskTheRoomSourceTarget,
+  type AskTheRoomAnswer,
+  type AskTheRoomCitation,
+  type AskTheRoomScope,
+} from './askTheRoomModel'
+
+type AskTheRoomDialogProps = {
+  open: boolean
+  onClose: () => void
+  scope: AskTheRoomScope
+}
+
+const QUESTION_LIMIT = 300
+
+const openCitation = (citation: AskTheRoomCitation) => {
+  const url = buildCatchUpTargetUrl(getAskTheRoomSourceTarget(citation), window.location.href)
+  window.history.pushState({}, '', url)
+  window.dispatchEvent(new PopStateEvent('popstate'))
+}
+
+/**
+ * Private question-and-answer over one conversation. Answers are shown only
+ * to the asker and never posted, so DM content cannot leak into a room.
+ */
+export function AskTheRoomDialog({ open, onClose, scope }: AskTheRoomDialogProps) {
+  const titleId = useId()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const requestRef = useRef(0)
+  const [question, setQuestion] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<AskTheRoomAnswer | null>(null)
+
+  const close = () => {
+    requestRef.current += 1
+    onClose()
+  }
+
+  const dialogRef = useDialogAccessibility<HTMLDivElement>({
+    open,
+    onClose: close,
+    initialFocusRef: inputRef,
+  })
+
+  useEffect(() => {
+    if (!open) {
+      setLoading(false)
+      setError(null)
+      setResult(null)
+    }
+  }, [open])
+
+  if (!open) return null
+
+  const roomLabel = scope.surface === 'general' ? 'General Chat' : `your chat with ${scope.title}`
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+    const trimmed = question.trim()
+    if (!trimmed || loading) return
+    const requestId = requestRef.current + 1
+    requestRef.current = requestId
+    setLoading(true)
+    setError(null)
+    setResult(null)
+    try {
+      const answer = await askTheRoom(trimmed, scope)
+      if (requestRef.current === requestId) setResult(answer)
+    } catch (caught) {
+      if (requestRef.current === requestId) {
+        setError(caught instanceof Error && caught.message ? caught.message : 'The assistant is unavailable right now.')
+      }
+    } finally {
+      if (requestRef.current === requestId) setLoading(false)
+    }
+  }
+
+  const jumpTo = (citation: AskTheRoomCitation) => {
+    close()
+    openCitation(citation)
+  }
+
+  const dialog = (
+    <div
+      role="presentation"
+      className="fixed inset-0 z-[160] flex items-end justify-center bg-[rgba(0,0,0,0.7)] backdrop-blur-sm sm:items-center sm:p-4"
+      onPointerDown={event => {
+        if (event.target === event.currentTarget) close()
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        data-testid="ask-the-room-dialog"
+        className="glass-panel-strong flex max-h-[85dvh] w-full min-w-0 flex-col overflow-hidden rounded-t-[var(--radius-xl)] border border-[var(--border-panel)] shadow-[var(--shadow-panel-strong)] sm:max-w-lg sm:rounded-[var(--radius-xl)]"
+      >
+        <header className="flex items-center gap-3 border-b border-[var(--border-panel)] px-4 py-3">
+          <MessageCircleQuestion className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          <h2 id={titleId} className="min-w-0 flex-1 truncate text-base font-semibold text-[var(--text-primary)]">
+            Ask about {roomLabel}
+          </h2>
+          <button
+            type="button"
+            onClick={close}
+            aria-label="Close ask the room"
+            className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-[var(--border-subtle)] text-[var(--text-secondary)] hover:border-[var(--border-glow)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </header>
+        <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-4 py-4 text-sm">
+          <form onSubmit={event => void submit(event)} className="flex gap-2">
+            <label className="sr-only" htmlFor={`${titleId}-question`}>Question</label>
+            <input
+              ref={inputRef}
+              id={`${titleId}-question`}
+              value={question}
+              maxLength={QUESTION_LIMIT}
+              onChange={event => setQuestion(event.target.value)}
+              placeholder="When did we decide on the trip date?"
+              className="obsidian-input min-h-10 min-w-0 flex-1 rounded-[var(--radius-sm)] px-3 text-sm text-[var(--text-primary)]"
+            />
+            <Button type="submit" size="sm" loading={loading} disabled={!question.trim()}>
+              Ask
+            </Button>
+          </form>
+          <p className="text-xs leading-5 text-[var(--text-muted)]">
+            Answers use only messages you can see in {roomLabel}, leave out people you have blocked, and are shown only to you.
+          </p>
+
+          {loading && <p className="text-xs text-[var(--theme-accent-readable)]" role="status">Searching {roomLabel}...</p>}
+          {error && <p className="text-xs text-red-200" role="alert">{error}</p>}
+
+          {result && result.consideredCount === 0 && (
+            <p className="text-sm text-[var(--text-secondary)]" role="status">
+              No messages matched that question. Try the words people would have used.
+            </p>
+          )}
+
+          {result && result.consideredCount > 0 && (
+            <section aria-label="Answer" className="space-y-3">
+              <p className="whitespace-pre-wrap leading-6 text-[var(--text-primary)]">{result.answer}</p>
+              {result.citations.length > 0 && (
+                <ol className="space-y-2">
+                  {result.citations.map(citation => (
+                    <li key={citation.ref}>
+                      <button
+                        type="button"
+                        onClick={() => jumpTo(citation)}
+                        className="flex w-full items-start gap-2 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] px-3 py-2 text-left transition-colors hover:border-[var(--border-glow)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+                        aria-label={`Jump to ${citation.authorName}'s message from ${formatCatchUpTime(citation.createdAt)}`}
+                      >
+                        <span className="min-w-0 flex-1">
+                          <span className="flex items-center justify-between gap-2 text-xs">
+                            <span className="truncate font-semibold text-[var(--text-secondary)]">{citation.authorName}</span>
+                            <span className="shrink-0 text-[var(--text-muted)]">{formatCatchUpTime(citation.createdAt)}</span>
+                          </span>
+                          <span className="mt-0.5 line-clamp-2 block text-xs leading-5 text-[var(--text-muted)]">{citation.text}</span>
+                        </span>
+                        <ArrowUpRight className="mt-0.5 h-3.5 w-3.5 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+
+  return typeof document === 'undefined' ? dialog : createPortal(dialog, document.body)
+}
@@ -0,0 +1,124 @@
+import { answerFromConversation } from '../../lib/ai'
+import {
+  getDMMessageWindow,
+  searchDMConversationMessages,
+  type DMRetrievedMessage,
+} from '../../lib/dmConversationRetrieval'
+import { searchMessageLibrary, type MessageLibraryItem } from '../../lib/messageLibrary'
+import { fetchMyBlockedUsers } from '../../lib/personalBlocking'
+import { fetchGeneralChatMessageWindow, type ChatMessageType, type Message } from '../../lib/supabase'
+import { describeDigestMessage } from '../catch-up/catchUpDigestModel'
+import {
+  buildAskTheRoomContext,
+  buildRetrievalQuery,
+  mergeAskTheRoomSources,
+  parseAskTheRoomAnswer,
+  type AskTheRoomAnswer,
+  type AskTheRoomScope,
+  type AskTheRoomSource,
+} from './askTheRoomModel'
+
+const SEARCH_HIT_LIMIT = 12
+/** Only the strongest hits pull in the messages around them. */
+const CONTEXT_HIT_LIMIT = 3
+const CONTEXT_WINDOW_LIMIT = 9
+
+const profileName = (profile: { display_name?: unknown; username?: unknown } | null | undefined) =>
+  (typeof profile?.display_name === 'string' && profile.display_name)
+  || (typeof profile?.username === 'string' && profile.username)
+  || 'Someone'
+
+const fromLibraryItem = (item: MessageLibraryItem, rank: number): AskTheRoomSource => ({
+  id: item.messageId,
+  surface: 'general',
+  conversationId: null,
+  authorId: typeof item.author.id === 'string' ? item.author.id : '',
+  authorName: profileName(item.author),
+  createdAt: item.messageCreatedAt,
+  text: describeDigestMessage({ content: item.content, message_type: item.messageType as ChatMessageType, file_url: item.fileUrl }),
+  rank,
+})
+
+const fromGeneralMessage = (message: Message, rank: number): AskTheRoomSource => ({
+  id: message.id,
+  surface: 'general',
+  conversationId: null,
+  authorId: message.user_id,
+  authorName: profileName(message.user),
+  createdAt: message.created_at,
+  text: describeDigestMessage(message),
+  rank,
+})
+
+const fromDMMessage = (message: DMRetrievedMessage, rank: number): AskTheRoomSource => ({
+  id: message.id,
+  surface: 'dm',
+  conversationId: message.conversationId,
+  authorId: message.senderId,
+  authorName: profileName(message.sender),
+  createdAt: message.createdAt,
+  text: describeDigestMessage({
+    content: message.content,
+    message_type: message.messageType,
+    audio_duration: message.audioDuration,
+    file_url: message.fileUrl,
+  }),
+  rank,
+})
+
+// Context is a bonus; a failed window still leaves the hit itself.
+const settle = async <T>(request: Promise<T[]>) => {
+  try {
+    return await request
+  } catch {
+    return [] as T[]
+  }
+}
+
+/**
+ * General Chat only ever searches General Chat. `search_my_messages` also
+ * returns DM hits, and those are discarded here so a room question can never
+ * surface private messages.
+ */
+const retrieveGeneralChat = async (query: string) => {
+  const hits = (await searchMessageLibrary(query, { limit: 40 }))
+    .filter(item => item.source === 'general')
+    .slice(0, SEARCH_HIT_LIMIT)
+  const context = await Promise.all(hits.slice(0, CONTEXT_HIT_LIMIT).map((hit, rank) => settle(
+    fetchGeneralChatMessageWindow({ mode: 'target', limit: CONTEXT_WINDOW_LIMIT, targetMessageId: hit.messageId })
+      .then(window => window.messages.filter(message => !message.optimistic).map(message => fromGeneralMessage(message, rank + 0.5)))
+  )))
+  return [...hits.map(fromLibraryItem), ...context.flat()]
+}
+
+const retrieveDMConversation = async (conversationId: string, query: string) => {
+  const { items } = await searchDMConversationMessages(conversationId, query, { limit: SEARCH_HIT_LIMIT })
+  const context = await Promise.all(items.slice(0, CONTEXT_HIT_LIMIT).map((hit, rank) => settle(
+    getDMMessageWindow(conversationId, hit.id, { limit: CONTEXT_WINDOW_LIMIT })
+      .then(window => window.messages.map(message => fromDMMessage(message, rank + 0.5)))
+  )))
+  return [...items.map(fromDMMessage), ...context.flat()]
+}
+
+/**
+ * Answers a question from the asker's own view of one conversation. Search
+ * runs through the member's RLS-scoped RPCs, blocked members are removed
+ * before anything reaches the model, and the answer cites what it used.
+ */
+export async function askTheRoom(question: string, scope: AskTheRoomScope): Promise<AskTheRoomAnswer> {
+  const query = buildRetrievalQuery(question)
+  if (!query) throw new Error('Ask about a topic, name, or phrase from the conversation.')
+
+  const [retrieved, blockedUsers] = await Promise.all([
+    scope.surface === 'general'
+      ? retrieveGeneralChat(query)
+      : retrieveDMConversation(scope.conversationId, query),
+    fetchMyBlockedUsers(),
+  ])
+  const sources = mergeAskTheRoomSources(retrieved, new Set(blockedUsers.map(entry => entry.user.id)))
+  if (sources.length === 0) return { answer: '', citations: [], consideredCount: 0 }
+
+  const { context, refs } = buildAskTheRoomContext(sources)
+  const reply = await answerFromConversation(question.trim(), context)
+  return { ...parseAskTheRoomAnswer(reply, refs), consideredCount: refs.size }
+}
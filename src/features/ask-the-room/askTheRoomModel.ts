@@ -0,0 +1,152 @@
+import type { CatchUpTarget } from '../catch-up/catchUpModel'
+
+export type AskTheRoomScope =
+  | { surface: 'general' }
+  | { surface: 'dm'; conversationId: string; title: string }
+
+export type AskTheRoomSource = {
+  id: string
+  surface: AskTheRoomScope['surface']
+  conversationId: string | null
+  authorId: string
+  authorName: string
+  createdAt: string
+  text: string
+  /** Lower is more relevant. Surrounding messages inherit their hit's rank. */
+  rank: number
+}
+
+export type AskTheRoomCitation = AskTheRoomSource & { ref: string }
+
+export type AskTheRoomAnswer = {
+  answer: string
+  citations: AskTheRoomCitation[]
+  consideredCount: number
+}
+
+export type AskTheRoomContext = {
+  context: string
+  refs: Map<string, AskTheRoomSource>
+}
+
+/** Keeps the prompt to roughly 2k tokens of retrieved messages. */
+export const ASK_THE_ROOM_CHAR_BUDGET = 8_000
+
+const MAX_QUERY_TERMS = 8
+const SOURCE_TEXT_LIMIT = 400
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before',
+  'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'him',
+  'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'out', 'she',
+  'should', 'so', 'some', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to', 'us', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your',
+  'anyone', 'someone', 'said', 'say', 'tell', 'know', 'remember', 'ever', 'last', 'time',
+])
+
+/**
+ * Turns a natural-language question into an OR query for the
+ * `websearch_to_tsquery` search RPCs, which otherwise require every word
+ * (including "when" and "did") to appear in a single message.
+ */
+export const buildRetrievalQuery = (question: string) => {
+  const terms = question
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_'-]+/u)
+    .map(term => term.replace(/^['-]+|['-]+$/g, '').replace(/'s$/, ''))
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+  return Array.from(new Set(terms)).slice(0, MAX_QUERY_TERMS).join(' or ')
+}
+
+/** De-duplicates hits and their context, keeping the best rank, and drops blocked authors. */
+export const mergeAskTheRoomSources = (
+  sources: AskTheRoomSource[],
+  blockedUserIds: ReadonlySet<string>,
+) => {
+  const byId = new Map<string, AskTheRoomSource>()
+  sources.forEach(source => {
+    if (blockedUserIds.has(source.authorId)) return
+    const current = byId.get(source.id)
+    if (!current || source.rank < current.rank) byId.set(source.id, source)
+  })
+  return Array.from(byId.values())
+}
+
+const clip = (value: string, max: number) => value.length > max ? `${value.slice(0, max - 1)}…` : value
+
+const formatContextTime = (value: string) => {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 16).replace('T', ' ')
+}
+
+/**
+ * Spends the budget on the most relevant sources, then lays them out in
+ * time order as `[s1] 2026-10-18 14:02 Ana: text` so the model reads them
+ * as conversation rather than as a ranked list.
+ */
+export const buildAskTheRoomContext = (
+  sources: AskTheRoomSource[],
+  charBudget = ASK_THE_ROOM_CHAR_BUDGET,
+): AskTheRoomContext => {
+  const chosen: AskTheRoomSource[] = []
+  let used = 0
+  ;[...sources].sort((left, right) => left.rank - right.rank).forEach(source => {
+    const cost = Math.min(source.text.length, SOURCE_TEXT_LIMIT) + source.authorName.length + 30
+    if (chosen.length > 0 && used + cost > charBudget) return
+    chosen.push(source)
+    used += cost
+  })
+  chosen.sort((left, right) => left.createdAt.localeCompare(right.createdAt) || left.id.localeCompare(right.id))
+
+  const refs = new Map<string, AskTheRoomSource>()
+  const lines = chosen.map((source, index) => {
+    const ref = `s${index + 1}`
+    refs.set(ref, source)
+    return `[${ref}] ${formatContextTime(source.createdAt)} ${source.authorName}: ${clip(source.text, SOURCE_TEXT_LIMIT) || '(no text)'}`
+  })
+  return { context: lines.join('\n'), refs }
+}
+
+const REF_PATTERN = /\[(s\d+)\]/g
+
+const stripCodeFence = (value: string) =>
+  value.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim()
+
+/**
+ * Reads `{"answer","refs"}`, or plain text with inline `[s2]` markers.
+ * Only refs that exist in the context become citations.
+ */
+export const parseAskTheRoomAnswer = (content: string, refs: Map<string, AskTheRoomSource>) => {
+  const trimmed = stripCodeFence(content)
+  let answer = trimmed
+  let refList: unknown[] = []
+  try {
+    const parsed = JSON.parse(trimmed) as { answer?: unknown; refs?: unknown }
+    if (typeof parsed.answer === 'string') {
+      answer = parsed.answer
+      refList = Array.isArray(parsed.refs) ? parsed.refs : []
+    }
+  } catch {
+    // Plain-text replies cite inline.
+  }
+  refList = [...refList, ...Array.from(answer.matchAll(REF_PATTERN), match => match[1])]
+
+  const seen = new Set<string>()
+  const citations = refList.flatMap(value => {
+    const ref = typeof value === 'string' ? value.replace(/[[\]\s]/g, '') : ''
+    const source = refs.get(ref)
+    if (!source || seen.has(ref)) return []
+    seen.add(ref)
+    return [{ ...source, ref }]
+  }).sort((left, right) => left.createdAt.localeCompare(right.createdAt))
+
+  return {
+    answer: answer.replace(REF_PATTERN, '').replace(/\s{2,}/g, ' ').replace(/\s+([.,;:!?])/g, '$1').trim(),
+    citations,
+  }
+}
+
+export const getAskTheRoomSourceTarget = (source: AskTheRoomSource): CatchUpTarget =>
+  source.surface === 'dm' && source.conversationId
+    ? { kind: 'dm_message', conversation_id: source.conversationId, message_id: source.id }
+    : { kind: 'chat_message', message_id: source.id }
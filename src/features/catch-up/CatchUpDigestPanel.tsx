@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react'
+import { ArrowUpRight, RefreshCw, Sparkles } from 'lucide-react'
+import { Button } from '../../components/ui/Button'
+import { fetchGeneralChatCatchUpDigest } from './catchUpDigestApi'
+import {
+  getDigestSourceItem,
+  readCatchUpDigestCache,
+  writeCatchUpDigestCache,
+  type CatchUpDigest,
+} from './catchUpDigestModel'
+import { formatCatchUpTime, type CatchUpItem } from './catchUpModel'
+
+type CatchUpDigestPanelProps = {
+  userId: string
+  onOpenSource: (item: CatchUpItem) => void
+}
+
+const describeCoverage = (digest: CatchUpDigest) => {
+  const messages = `${digest.messageCount.toLocaleString()} ${digest.messageCount === 1 ? 'message' : 'messages'}`
+  const threads = digest.threadCount > 0
+    ? ` and ${digest.threadCount} ${digest.threadCount === 1 ? 'thread' : 'threads'}`
+    : ''
+  const since = digest.since ? ` since you last read, ${formatCatchUpTime(digest.since)}` : ' from the last day'
+  return `Covers ${messages}${threads}${since}.`
+}
+
+/**
+ * On-demand AI digest of General Chat since the read cursor. It stays separate
+ * from the source snapshot, and every bullet cites the messages it came from.
+ */
+export function CatchUpDigestPanel({ userId, onOpenSource }: CatchUpDigestPanelProps) {
+  const [digest, setDigest] = useState<CatchUpDigest | null>(() => readCatchUpDigestCache(userId))
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const mountedRef = useRef(true)
+
+  useEffect(() => {
+    mountedRef.current = true
+    return () => { mountedRef.current = false }
+  }, [])
+
+  const summarize = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const next = await fetchGeneralChatCatchUpDigest()
+      writeCatchUpDigestCache(userId, next)
+      if (mountedRef.current) setDigest(next)
+    } catch (caught) {
+      if (mountedRef.current) {
+        setError(caught instanceof Error && caught.message ? caught.message : 'The digest is unavailable right now.')
+      }
+    } finally {
+      if (mountedRef.current) setLoading(false)
+    }
+  }
+
+  return (
+    <section
+      aria-labelledby="catch-up-digest-title"
+      aria-busy={loading}
+      className="rounded-[var(--radius-xl)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] p-4"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <span className="text-[0.64rem] font-semibold uppercase tracking-[0.16em] text-[var(--text-gold)]">AI summary</span>
+          <h2 id="catch-up-digest-title" className="mt-0.5 flex items-center gap-2 text-lg font-bold text-[var(--text-primary)]">
+            <Sparkles className="h-5 w-5 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+            General Chat digest
+          </h2>
+          <p className="mt-1 text-xs leading-5 text-[var(--text-muted)]">
+            {digest ? describeCoverage(digest) : 'Summarize what you missed since you last read. Each point links to the messages it came from.'}
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          loading={loading}
+          onClick={() => void summarize()}
+          className="shrink-0 gap-2"
+        >
+          {digest ? <RefreshCw className="h-4 w-4" aria-hidden="true" /> : <Sparkles className="h-4 w-4" aria-hidden="true" />}
+          {digest ? 'Refresh' : 'Summarize'}
+        </Button>
+      </div>
+
+      {error && <p role="alert" className="mt-3 text-xs text-red-200">{error}</p>}
+
+      {digest && digest.bullets.length === 0 && (
+        <p className="mt-3 text-sm text-[var(--text-secondary)]">Nothing new in General Chat since you last read.</p>
+      )}
+
+      {digest && digest.bullets.length > 0 && (
+        <ul className="mt-3 space-y-2.5">
+          {digest.bullets.map((bullet, index) => (
+            <li key={`${index}-${bullet.sources[0]?.messageId}`} className="text-sm leading-6 text-[var(--text-secondary)]">
+              <p>{bullet.text}</p>
+              <div className="mt-1 flex flex-wrap items-center gap-1.5">
+                {bullet.sources.map(source => (
+                  <button
+                    key={source.ref}
+                    type="button"
+                    onClick={() => onOpenSource(getDigestSourceItem(source, digest))}
+                    aria-label={`Open ${source.authorName}'s message`}
+                    className="inline-flex min-h-7 items-center gap-1 rounded-full border border-[var(--border-subtle)] px-2.5 text-[0.68rem] font-semibold text-[var(--theme-accent-readable)] transition-colors hover:border-[var(--border-glow)] hover:bg-[var(--theme-accent-soft)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-focus-ring)]"
+                  >
+                    {source.authorName}
+                    <ArrowUpRight className="h-3 w-3" aria-hidden="true" />
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {digest && digest.omittedCount > 0 && (
+        <p className="mt-3 text-xs text-[var(--text-muted)]">
+          {digest.omittedCount.toLocaleString()} earlier {digest.omittedCount === 1 ? 'message' : 'messages'} did not fit in this digest; open General Chat to read them.
+        </p>
+      )}
+    </section>
+  )
+}
@@ -1,6 +1,6 @@
 import { lazy, Suspense, useCallback, useEffect, useId, useMemo, useRef, useState } from 'react'
 import { animate, motion, useMotionValue, useTransform } from 'framer-motion'
-import { AlertCircle, ArrowUpRight, Check, Inbox, Loader2, MessageCircle, RefreshCw, ShieldCheck, Sparkles, Users } from 'lucide-react'
+import { AlertCircle, ArrowUpRight, Check, Inbox, Layers, Loader2, MessageCircle, RefreshCw, ShieldCheck, Sparkles, Users } from 'lucide-react'
 import { MobileAppHeader } from '../../components/layout/MobileAppHeader'
 import { Avatar } from '../../components/ui/Avatar'
 import { Button } from '../../components/ui/Button'
@@ -14,6 +14,7 @@ import {
   clearAllNotificationsFromSystemTray,
   clearNotificationEventFromSystemTray,
 } from '../notifications/notificationApi'
+import { UpcomingRemindersPanel } from '../message-reminders/UpcomingRemindersPanel'
 import {
   acknowledgeCatchUpEvents,
   acknowledgeAllNotificationInboxEvents,
@@ -32,8 +33,10 @@ import {
   readCatchUpCache,
   writeCatchUpCache,
   type CatchUpItem,
+  type CatchUpNotificationDigest,
   type CatchUpSnapshot,
 } from './catchUpModel'
+import { CatchUpDigestPanel } from './CatchUpDigestPanel'
 import { NotificationSandDisintegration } from './NotificationSandDisintegration'
 import {
   captureNotificationSandSnapshot,
@@ -176,6 +179,14 @@ const getNotificationCategoryLabel = (category: string) => {
   return 'ShadowChat'
 }
 
+const getNotificationDigestLabel = (digest: CatchUpNotificationDigest) => {
+  const cadence = digest.cadence === 'hourly' ? 'Hourly digest' : 'Daily digest'
+  if (digest.category === 'interactions') return `${cadence} · Reactions and Hype`
+  if (digest.category === 'shadow_pin') return `${cadence} · ShadowPin`
+  if (digest.category === 'presence') return `${cadence} · Active users`
+  return `${cadence} · Games`
+}
+
 const removeOpenedActivityItem = (snapshot: CatchUpSnapshot, item: CatchUpItem): CatchUpSnapshot => {
   if (item.activityEventIds.length === 0) return snapshot
   const eventIds = new Set(item.activityEventIds)
@@ -231,12 +242,16 @@ function CatchUpCard({
         </button>
       ) : (
         <span className="grid h-12 w-12 shrink-0 place-items-center rounded-full border border-[var(--border-glow)] bg-[var(--theme-accent-soft)] text-sm font-bold text-[var(--theme-accent-readable)]" aria-hidden="true">
-          {getInitials(item)}
+          {item.notificationDigest ? <Layers className="h-5 w-5" /> : getInitials(item)}
         </span>
       )}
       <button type="button" onClick={onOpen} data-catch-up-item-id={item.id} className="flex min-h-16 min-w-0 flex-1 items-center gap-3 rounded-[var(--radius-md)] text-left focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]" aria-labelledby={titleId} aria-describedby={detailsId}>
         <span className="min-w-0 flex-1">
-          {item.notificationPresentation && (
+          {item.notificationDigest ? (
+            <span className="mb-1 block text-[0.625rem] font-semibold uppercase tracking-[0.14em] text-[var(--text-gold)]">
+              {getNotificationDigestLabel(item.notificationDigest)}
+            </span>
+          ) : item.notificationPresentation && (
             <span className="mb-1 block text-[0.625rem] font-semibold uppercase tracking-[0.14em] text-[var(--text-gold)]">
               {getNotificationCategoryLabel(item.notificationPresentation.category)}
             </span>
@@ -1240,6 +1255,8 @@ export function CatchUpView({ currentView, onViewChange, onOpenSource }: CatchUp
             </div>
           </header>
 
+          {userId && <UpcomingRemindersPanel onOpenSource={openItem} />}
+
           {loading && !snapshot ? (
             <div className="grid min-h-72 place-items-center" role="status"><span className="flex items-center gap-3 text-[var(--text-muted)]"><Loader2 className="h-5 w-5 animate-spin" />Building your source snapshot...</span></div>
           ) : error && !snapshot ? (
@@ -1310,6 +1327,9 @@ export function CatchUpView({ currentView, onViewChange, onOpenSource }: CatchUp
                   </div>
                 </section>
               )}
+              {(snapshot.sections.general_chat.totalCount > 0 || snapshot.sections.general_chat.olderUnreadExists) && (
+                <CatchUpDigestPanel userId={userId} onOpenSource={openItem} />
+              )}
               {sections.filter(section => section.totalCount > 0).map(section => (
                 <section key={section.id} aria-labelledby={`catch-up-${section.id}`}>
                   <div className="mb-3 flex items-end justify-between gap-3 px-1">
@@ -4,6 +4,7 @@ import {
   normalizeCatchUpSnapshot,
   type CatchUpActor,
   type CatchUpItem,
+  type CatchUpNotificationDigest,
   type CatchUpNotificationPresentation,
   type CatchUpSnapshot,
 } from './catchUpModel'
@@ -17,6 +18,7 @@ type RawNotificationEvent = {
   route: string | null
   payload: unknown
   created_at: string
+  digest_batch_id: string | null
   actor: unknown
 }
 
@@ -349,12 +351,49 @@ const normalizeEnvelopePresentation = (
   }
 }
 
+const DIGEST_CATEGORIES = ['interactions', 'shadow_pin', 'presence', 'games'] as const
+
+const normalizeNotificationDigest = (
+  payload: Record<string, unknown>,
+): CatchUpNotificationDigest | null => {
+  const category = DIGEST_CATEGORIES.find(value => value === payload.digest_category)
+  const cadence = payload.cadence === 'hourly' || payload.cadence === 'daily' ? payload.cadence : null
+  const eventCount = Number(payload.event_count)
+  if (!category || !cadence || !Number.isInteger(eventCount) || eventCount < 1) return null
+  return { category, cadence, eventCount }
+}
+
+// Digest copy is counts only, so it skips the envelope privacy projection.
+const normalizeNotificationDigestItem = (
+  raw: RawNotificationEvent,
+  payload: Record<string, unknown>,
+): CatchUpItem | null => {
+  const digest = normalizeNotificationDigest(payload)
+  const route = getNotificationInboxRoute(raw, payload)
+  if (!digest || !isSafeAppRoute(route)) return null
+  return {
+    id: `notification:${raw.id}`,
+    kind: raw.type,
+    occurredAt: raw.created_at,
+    actor: null,
+    title: asText(payload.title) || 'Notification digest',
+    preview: asText(payload.body) || 'Open Catch-Up to review these updates.',
+    unreadCount: digest.eventCount,
+    manuallyUnread: false,
+    target: { kind: 'app_route', route },
+    activityEventIds: [],
+    notificationEventIds: [raw.id],
+    notificationDigest: digest,
+  }
+}
+
 const normalizeNotificationInboxItem = (
   raw: RawNotificationEvent,
   envelope: RawNotificationEnvelopeV2 | undefined,
   mediaById: Map<string, CatchUpNotificationPresentation['media']>,
 ): CatchUpItem | null => {
   const payload = asRecord(raw.payload) ?? {}
+  if (raw.type === 'notification_digest') return normalizeNotificationDigestItem(raw, payload)
   const envelopePresentation = envelope
     ? normalizeEnvelopePresentation(envelope, mediaById)
     : null
@@ -412,6 +451,7 @@ export async function fetchNotificationInbox(): Promise<NotificationInboxPage> {
       route,
       payload,
       created_at,
+      digest_batch_id,
       ${embedPublicProfile('actor', 'users!notification_events_actor_id_fkey')}
     `, { count: 'exact' })
     .is('read_at', null)
@@ -420,7 +460,15 @@ export async function fetchNotificationInbox(): Promise<NotificationInboxPage> {
     .limit(30)
 
   if (error) throw error
-  const events = (data ?? []) as unknown as RawNotificationEvent[]
+  const rawEvents = (data ?? []) as unknown as RawNotificationEvent[]
+  // A sent digest stands in for the events it summarises.
+  const digestBatchIds = new Set(rawEvents
+    .filter(event => event.type === 'notification_digest')
+    .map(event => asText(asRecord(event.payload)?.digest_batch_id))
+    .filter(Boolean))
+  const events = rawEvents.filter(event => !(
+    event.digest_batch_id && digestBatchIds.has(event.digest_batch_id)
+  ))
   const envelopes = await fetchNotificationEnvelopes(events.map(event => event.id))
   const mediaById = await fetchEnvelopeMedia(envelopes)
   const envelopesByEventId = new Map(envelopes.map(envelope => [envelope.event_id, envelope]))
@@ -431,9 +479,10 @@ export async function fetchNotificationInbox(): Promise<NotificationInboxPage> {
       mediaById,
     ))
     .filter((item): item is CatchUpItem => Boolean(item))
+  const summarisedCount = rawEvents.length - events.length
   return {
     items,
-    totalCount: Math.max(items.length, count ?? items.length),
+    totalCount: Math.max(items.length, (count ?? items.length) - summarisedCount),
   }
 }
 
@@ -0,0 +1,142 @@
+import { generateCatchUpDigest } from '../../lib/ai'
+import { fetchMyBlockedUsers } from '../../lib/personalBlocking'
+import { fetchUserReadCursor, isMessageAfterCursor } from '../../lib/readCursors'
+import {
+  fetchGeneralChatMessageWindow,
+  fetchGeneralChatThreadSummaries,
+  type Message,
+} from '../../lib/supabase'
+import { fetchGeneralChatThread } from '../general-chat-threads'
+import {
+  buildCatchUpDigestTranscript,
+  parseCatchUpDigest,
+  selectDigestMessages,
+  toCatchUpDigestEntry,
+  type CatchUpDigest,
+} from './catchUpDigestModel'
+
+const DIGEST_WINDOW_LIMIT = 80
+const DIGEST_WINDOW_PAGES = 3
+const DIGEST_THREAD_LIMIT = 5
+const DIGEST_THREAD_REPLY_LIMIT = 20
+/** Without a cursor the digest covers the last day instead of all history. */
+const DIGEST_FALLBACK_LOOKBACK_MS = 24 * 60 * 60 * 1_000
+
+type DigestCursor = { last_read_at: string; last_read_message_id: string | null }
+
+const collectUnreadTimeline = async (cursor: DigestCursor) => {
+  const collected = new Map<string, Message>()
+  let window = await fetchGeneralChatMessageWindow({
+    mode: 'target',
+    limit: DIGEST_WINDOW_LIMIT,
+    targetLastReadMessageId: cursor.last_read_message_id,
+    targetLastReadAt: cursor.last_read_at,
+  })
+  const pinned = window.pinnedMessages
+  // Read messages around the cursor can still root threads that moved on since.
+  const earlier = window.messages.filter(message => !message.reply_to && !isMessageAfterCursor(message, cursor))
+
+  for (let page = 0; page < DIGEST_WINDOW_PAGES; page += 1) {
+    window.messages
+      .filter(message => isMessageAfterCursor(message, cursor))
+      .forEach(message => collected.set(message.id, message))
+
+    const newest = window.messages[window.messages.length - 1]
+    if (!window.hasNewer || !newest || page === DIGEST_WINDOW_PAGES - 1) break
+    window = await fetchGeneralChatMessageWindow({
+      mode: 'newer',
+      limit: DIGEST_WINDOW_LIMIT,
+      targetMessageId: newest.id,
+    })
+  }
+
+  return { messages: Array.from(collected.values()), earlier, pinned }
+}
+
+const attachThreadSummaries = async (messages: Message[]) => {
+  const rootIds = messages.filter(message => !message.reply_to).map(message => message.id).slice(-50)
+  try {
+    const summaries = await fetchGeneralChatThreadSummaries(rootIds)
+    return messages.map(message => ({
+      ...message,
+      thread_summary: summaries.get(message.id) ?? message.thread_summary ?? null,
+    }))
+  } catch {
+    return messages
+  }
+}
+
+/**
+ * Thread replies live outside the main timeline. The busiest threads with
+ * replies since the cursor are fetched, roots included, so the digest can
+ * speak to them even when the root itself was already read.
+ */
+const collectUnreadThreadReplies = async (roots: Message[], cursor: DigestCursor) => {
+  const active = roots
+    .filter(message => {
+      const summary = message.thread_summary
+      return summary && summary.reply_count > 0 && isMessageAfterCursor(
+        { created_at: summary.latest_reply_at, id: summary.latest_reply_id },
+        cursor,
+      )
+    })
+    .sort((left, right) => (right.thread_summary?.reply_count ?? 0) - (left.thread_summary?.reply_count ?? 0))
+    .slice(0, DIGEST_THREAD_LIMIT)
+
+  const threads = await Promise.all(active.map(async root => {
+    try {
+      const thread = await fetchGeneralChatThread({ threadId: root.id, limit: DIGEST_THREAD_REPLY_LIMIT })
+      return thread.replies
+        .filter(reply => isMessageAfterCursor(reply, cursor))
+        .map(reply => ({ ...reply, reply_to: reply.reply_to ?? root.id }))
+    } catch {
+      // The thread summary on the root still tells the model the thread is busy.
+      return []
+    }
+  }))
+
+  return { roots: active, replies: threads.flat() }
+}
+
+export async function fetchGeneralChatCatchUpDigest(): Promise<CatchUpDigest> {
+  const storedCursor = await fetchUserReadCursor('general_chat', 'main')
+  const cursor: DigestCursor = storedCursor ?? {
+    last_read_at: new Date(Date.now() - DIGEST_FALLBACK_LOOKBACK_MS).toISOString(),
+    last_read_message_id: null,
+  }
+
+  const [{ messages, earlier, pinned }, blockedUsers] = await Promise.all([
+    collectUnreadTimeline(cursor),
+    fetchMyBlockedUsers(),
+  ])
+  const blockedUserIds = new Set(blockedUsers.map(entry => entry.user.id))
+  const candidates = await attachThreadSummaries(selectDigestMessages([...earlier, ...messages], blockedUserIds))
+  const { roots, replies } = await collectUnreadThreadReplies(candidates, cursor)
+  const unreadIds = new Set(messages.map(message => message.id))
+  const newlyPinned = pinned.filter(message => isMessageAfterCursor(
+    { created_at: message.pinned_at ?? message.created_at, id: message.id },
+    cursor,
+  ))
+  const selected = selectDigestMessages([
+    ...candidates.filter(message => unreadIds.has(message.id)),
+    ...roots,
+    ...replies,
+    ...newlyPinned,
+  ], blockedUserIds)
+
+  const { transcript, refs, includedCount, omittedCount } = buildCatchUpDigestTranscript(
+    selected.map(toCatchUpDigestEntry)
+  )
+  const base = {
+    generatedAt: new Date().toISOString(),
+    since: storedCursor?.last_read_at ?? null,
+    messageCount: includedCount,
+    threadCount: roots.length,
+    omittedCount,
+  }
+  if (includedCount === 0) return { ...base, bullets: [] }
+
+  const bullets = parseCatchUpDigest(await generateCatchUpDigest(transcript), refs)
+  if (bullets.length === 0) throw new Error('The digest could not be linked to its messages. Try again.')
+  return { ...base, bullets }
+}
@@ -0,0 +1,267 @@
+import type { ChatMessage, Message } from '../../lib/supabase'
+import type { CatchUpItem } from './catchUpModel'
+
+export type CatchUpDigestEntry = {
+  id: string
+  authorId: string
+  authorName: string
+  createdAt: string
+  text: string
+  threadRootId: string | null
+  pinned: boolean
+  thread: {
+    replyCount: number
+    participants: string[]
+  } | null
+}
+
+export type CatchUpDigestTranscript = {
+  transcript: string
+  refs: Map<string, CatchUpDigestEntry>
+  includedCount: number
+  omittedCount: number
+}
+
+export type CatchUpDigestSource = {
+  ref: string
+  messageId: string
+  authorName: string
+}
+
+export type CatchUpDigestBullet = {
+  text: string
+  sources: CatchUpDigestSource[]
+}
+
+export type CatchUpDigest = {
+  generatedAt: string
+  since: string | null
+  messageCount: number
+  threadCount: number
+  omittedCount: number
+  bullets: CatchUpDigestBullet[]
+}
+
+/** Roughly 3k tokens of transcript; the newest messages win when it overflows. */
+export const CATCH_UP_DIGEST_CHAR_BUDGET = 12_000
+
+const ENTRY_TEXT_LIMIT = 400
+const MAX_DIGEST_BULLETS = 8
+
+const clip = (value: string, max: number) => value.length > max ? `${value.slice(0, max - 1)}…` : value
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`
+
+const getAttachmentName = (fileUrl: string | null | undefined) => {
+  if (!fileUrl) return null
+  try {
+    return decodeURIComponent(new URL(fileUrl).pathname.split('/').pop() ?? '') || null
+  } catch {
+    return null
+  }
+}
+
+type DescribableMessage = Pick<ChatMessage, 'content' | 'message_type'> & {
+  audio_duration?: number | null
+  file_url?: string | null
+}
+
+/** Plain-text message body with a bracketed note for media the model cannot see. */
+export const describeDigestMessage = (message: DescribableMessage) => {
+  const text = message.content?.trim() ?? ''
+  const withNote = (note: string) => text ? `[${note}] ${text}` : `[${note}]`
+
+  switch (message.message_type) {
+    case 'image':
+      return withNote('Image')
+    case 'video':
+      return withNote('Video')
+    case 'audio':
+      return message.audio_duration ? `[Voice message, ${formatDuration(message.audio_duration)}]` : '[Voice message]'
+    case 'file': {
+      const name = getAttachmentName(message.file_url)
+      return name ? `[File: ${name}]` : withNote('File')
+    }
+    case 'poll':
+      return withNote('Poll')
+    case 'location':
+      return withNote('Location')
+    case 'hype':
+      return '[Hype]'
+    default:
+      return text
+  }
+}
+
+const getAuthor = (message: ChatMessage) => {
+  const profile = 'user' in message && message.user
+    ? message.user
+    : 'sender' in message && message.sender
+      ? message.sender
+      : null
+  const authorId = 'user_id' in message ? message.user_id : message.sender_id
+  return {
+    authorId,
+    authorName: profile?.display_name || profile?.username || 'Someone',
+  }
+}
+
+export const toCatchUpDigestEntry = (message: ChatMessage): CatchUpDigestEntry => {
+  const summary = 'thread_summary' in message ? message.thread_summary : null
+  return {
+    id: message.id,
+    ...getAuthor(message),
+    createdAt: message.created_at,
+    text: clip(describeDigestMessage(message), ENTRY_TEXT_LIMIT),
+    threadRootId: 'reply_to' in message && message.reply_to ? message.reply_to : null,
+    pinned: 'pinned' in message && message.pinned === true,
+    thread: summary && summary.reply_count > 0
+      ? {
+          replyCount: summary.reply_count,
+          participants: Array.from(new Set((summary.participants ?? [])
+            .map(participant => participant.display_name || participant.username)
+            .filter((name): name is string => Boolean(name)))),
+        }
+      : null,
+  }
+}
+
+/** General Chat messages that belong in a digest: sent, visible, and not from blocked members. */
+export const selectDigestMessages = (messages: Message[], blockedUserIds: ReadonlySet<string>) => {
+  const seen = new Set<string>()
+  return messages
+    .filter(message => {
+      if (seen.has(message.id) || message.optimistic || message.delivery_status === 'failed') return false
+      seen.add(message.id)
+      return !blockedUserIds.has(message.user_id)
+    })
+    .sort((left, right) => left.created_at.localeCompare(right.created_at) || left.id.localeCompare(right.id))
+}
+
+const formatTranscriptTime = (value: string) => {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 16).replace('T', ' ')
+}
+
+/**
+ * Renders entries as a referenced transcript, e.g.
+ * `[m3] 2026-10-18 14:02 Ana (thread on m1): sounds good`. Each line carries
+ * its own ref so the model can cite it and the client can link it back.
+ * Entries are taken newest-first until the budget is spent.
+ */
+export const buildCatchUpDigestTranscript = (
+  entries: CatchUpDigestEntry[],
+  charBudget = CATCH_UP_DIGEST_CHAR_BUDGET,
+): CatchUpDigestTranscript => {
+  const kept: CatchUpDigestEntry[] = []
+  let used = 0
+  for (let index = entries.length - 1; index >= 0; index -= 1) {
+    const cost = entries[index].text.length + entries[index].authorName.length + 40
+    if (kept.length > 0 && used + cost > charBudget) break
+    kept.unshift(entries[index])
+    used += cost
+  }
+
+  const refs = new Map<string, CatchUpDigestEntry>()
+  const refById = new Map<string, string>()
+  kept.forEach((entry, index) => {
+    const ref = `m${index + 1}`
+    refs.set(ref, entry)
+    refById.set(entry.id, ref)
+  })
+
+  const lines = kept.map(entry => {
+    const ref = refById.get(entry.id)
+    const rootRef = entry.threadRootId ? refById.get(entry.threadRootId) : null
+    const context = [
+      entry.threadRootId ? `thread on ${rootRef ?? 'an earlier message'}` : null,
+      entry.pinned ? 'pinned' : null,
+    ].filter(Boolean).join(', ')
+    const thread = entry.thread
+      ? ` {${entry.thread.replyCount} thread ${entry.thread.replyCount === 1 ? 'reply' : 'replies'}${entry.thread.participants.length ? ` from ${entry.thread.participants.join(', ')}` : ''}}`
+      : ''
+    return `[${ref}] ${formatTranscriptTime(entry.createdAt)} ${entry.authorName}${context ? ` (${context})` : ''}: ${entry.text || '(no text)'}${thread}`
+  })
+
+  return {
+    transcript: lines.join('\n'),
+    refs,
+    includedCount: kept.length,
+    omittedCount: entries.length - kept.length,
+  }
+}
+
+const stripCodeFence = (value: string) =>
+  value.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim()
+
+const REF_PATTERN = /\[(m\d+)\]/g
+
+const toSources = (refList: unknown[], refs: Map<string, CatchUpDigestEntry>) => {
+  const seen = new Set<string>()
+  return refList.flatMap(value => {
+    const ref = typeof value === 'string' ? value.replace(/[[\]\s]/g, '') : ''
+    const entry = refs.get(ref)
+    if (!entry || seen.has(ref)) return []
+    seen.add(ref)
+    return [{ ref, messageId: entry.id, authorName: entry.authorName }]
+  })
+}
+
+const toBullet = (text: string, refList: unknown[], refs: Map<string, CatchUpDigestEntry>): CatchUpDigestBullet | null => {
+  const sources = toSources(refList, refs)
+  const cleanText = text.replace(REF_PATTERN, '').replace(/\s{2,}/g, ' ').replace(/\s+([.,;:!?])/g, '$1').trim()
+  return cleanText && sources.length > 0 ? { text: cleanText, sources } : null
+}
+
+/**
+ * Reads `{"bullets":[{"text","refs"}]}`, falling back to a markdown
+ * list with inline `[m3]` refs. Bullets that cite nothing in the transcript
+ * are dropped so every point stays linked to a real message.
+ */
+export const parseCatchUpDigest = (content: string, refs: Map<string, CatchUpDigestEntry>): CatchUpDigestBullet[] => {
+  const trimmed = stripCodeFence(content)
+  let bullets: Array<CatchUpDigestBullet | null> = []
+
+  try {
+    const parsed = JSON.parse(trimmed) as { bullets?: unknown }
+    if (Array.isArray(parsed.bullets)) {
+      bullets = parsed.bullets.map(item => {
+        const record = item && typeof item === 'object' ? item as Record<string, unknown> : {}
+        const text = typeof record.text === 'string' ? record.text : ''
+        const refList = Array.isArray(record.refs) ? record.refs : Array.from(text.matchAll(REF_PATTERN), match => match[1])
+        return toBullet(text, refList, refs)
+      })
+    }
+  } catch {
+    bullets = trimmed.split('\n')
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+      .filter(Boolean)
+      .map(line => toBullet(line, Array.from(line.matchAll(REF_PATTERN), match => match[1]), refs))
+  }
+
+  return bullets.filter((bullet): bullet is CatchUpDigestBullet => Boolean(bullet)).slice(0, MAX_DIGEST_BULLETS)
+}
+
+/** Shapes a digest citation like a Catch-Up item so it opens through the same path. */
+export const getDigestSourceItem = (source: CatchUpDigestSource, digest: CatchUpDigest): CatchUpItem => ({
+  id: `digest:${source.messageId}`,
+  kind: 'general_chat_digest',
+  occurredAt: digest.generatedAt,
+  actor: null,
+  title: source.authorName,
+  preview: '',
+  unreadCount: 0,
+  manuallyUnread: false,
+  target: { kind: 'chat_message', message_id: source.messageId },
+  activityEventIds: [],
+})
+
+let digestCache: { ownerId: string | null; digest: CatchUpDigest | null } = { ownerId: null, digest: null }
+
+export const readCatchUpDigestCache = (ownerId: string | null) =>
+  ownerId && digestCache.ownerId === ownerId ? digestCache.digest : null
+
+export const writeCatchUpDigestCache = (ownerId: string | null, digest: CatchUpDigest | null) => {
+  digestCache = ownerId ? { ownerId, digest } : { ownerId: null, digest: null }
+}
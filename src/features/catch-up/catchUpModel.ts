@@ -30,6 +30,12 @@ export type CatchUpNotificationPresentation = {
   } | null
 }
 
+export type CatchUpNotificationDigest = {
+  category: 'interactions' | 'shadow_pin' | 'presence' | 'games'
+  cadence: 'hourly' | 'daily'
+  eventCount: number
+}
+
 export type CatchUpItem = {
   id: string
   kind: string
@@ -43,6 +49,7 @@ export type CatchUpItem = {
   activityEventIds: string[]
   notificationEventIds?: string[]
   notificationPresentation?: CatchUpNotificationPresentation
+  notificationDigest?: CatchUpNotificationDigest
 }
 
 export type CatchUpSection = {
@@ -276,3 +283,28 @@ export const writeCatchUpCache = (
 export const clearCatchUpCache = () => {
   cache = emptyCache(null)
 }
+
+/**
+ * Drops cached items that point into a DM conversation and marks the cache
+ * stale. Disappearing messages call this when they expire so reopening
+ * Catch-Up refetches instead of showing a preview that is already gone.
+ */
+export const forgetCatchUpDMConversation = (conversationId: string) => {
+  const snapshot = cache.snapshot
+  if (!snapshot) return
+  const sections = Object.fromEntries(CATCH_UP_SECTION_ORDER.map(sectionId => {
+    const section = snapshot.sections[sectionId]
+    const items = section.items.filter(item => (
+      item.target.kind !== 'dm_message' || item.target.conversation_id !== conversationId
+    ))
+    const removed = section.items.length - items.length
+    return [sectionId, {
+      ...section,
+      items,
+      shownCount: items.length,
+      totalCount: Math.max(0, section.totalCount - removed),
+      hasMore: Math.max(0, section.totalCount - removed) > items.length,
+    }]
+  })) as CatchUpSnapshot['sections']
+  cache = { ...cache, snapshot: { ...snapshot, sections }, fetchedAt: 0 }
+}
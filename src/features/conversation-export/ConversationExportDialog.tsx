@@ -0,0 +1,229 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { Download, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '../../components/ui/Button'
+import { useDialogAccessibility } from '../../hooks/useDialogAccessibility'
+import { cn } from '../../lib/utils'
+import { collectConversationExport, type ConversationExportTarget } from './conversationExportApi'
+import {
+  CONVERSATION_EXPORT_FORMATS,
+  getConversationExportFileName,
+  renderConversationExport,
+  type ConversationExport,
+  type ConversationExportFormat,
+} from './conversationExportModel'
+
+type ConversationExportDialogProps = {
+  open: boolean
+  onClose: () => void
+  target: ConversationExportTarget
+}
+
+const DEFAULT_RANGE_DAYS = 30
+
+const toDateInputValue = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000)
+  return local.toISOString().slice(0, 10)
+}
+
+const fromDateInputValue = (value: string, endOfDay: boolean) => {
+  const [year, month, day] = value.split('-').map(Number)
+  if (!year || !month || !day) return null
+  const date = endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day, 0, 0, 0, 0)
+  return Number.isFinite(date.getTime()) ? date.toISOString() : null
+}
+
+const downloadArchive = (archive: ConversationExport, format: ConversationExportFormat) => {
+  const mimeType = CONVERSATION_EXPORT_FORMATS.find(entry => entry.value === format)?.mimeType ?? 'text/plain'
+  const url = URL.createObjectURL(new Blob([renderConversationExport(archive, format)], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = getConversationExportFileName(archive, format)
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function ConversationExportDialog({ open, onClose, target }: ConversationExportDialogProps) {
+  const titleId = useId()
+  const closeRef = useRef<HTMLButtonElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const [fromValue, setFromValue] = useState(() =>
+    toDateInputValue(new Date(Date.now() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000)))
+  const [toValue, setToValue] = useState(() => toDateInputValue(new Date()))
+  const [format, setFormat] = useState<ConversationExportFormat>('markdown')
+  const [collected, setCollected] = useState<number | null>(null)
+  const [result, setResult] = useState<string | null>(null)
+  const exporting = collected !== null
+
+  const close = () => {
+    abortRef.current?.abort()
+    onClose()
+  }
+
+  const dialogRef = useDialogAccessibility<HTMLDivElement>({
+    open,
+    onClose: close,
+    initialFocusRef: closeRef,
+  })
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  useEffect(() => {
+    if (!open) {
+      setCollected(null)
+      setResult(null)
+    }
+  }, [open])
+
+  if (!open) return null
+
+  const from = fromDateInputValue(fromValue, false)
+  const to = fromDateInputValue(toValue, true)
+  const rangeError = !from || !to
+    ? 'Choose a start and end date.'
+    : Date.parse(from) > Date.parse(to)
+      ? 'The start date must be before the end date.'
+      : null
+
+  const startExport = async () => {
+    if (!from || !to || rangeError || exporting) return
+    const controller = new AbortController()
+    abortRef.current = controller
+    setResult(null)
+    setCollected(0)
+    try {
+      const archive = await collectConversationExport(target, { from, to }, {
+        signal: controller.signal,
+        onProgress: setCollected,
+      })
+      downloadArchive(archive, format)
+      setResult(archive.excludedMessageCount > 0
+        ? `Exported ${archive.messages.length} messages. ${archive.excludedMessageCount} from blocked members were left out.`
+        : `Exported ${archive.messages.length} messages.`)
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        toast.error(error instanceof Error && error.message ? error.message : 'Export failed')
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null
+      setCollected(null)
+    }
+  }
+
+  const dialog = (
+    <div
+      role="presentation"
+      className="fixed inset-0 z-[160] flex items-end justify-center bg-[rgba(0,0,0,0.7)] backdrop-blur-sm sm:items-center sm:p-4"
+      onPointerDown={event => {
+        if (event.target === event.currentTarget) close()
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        data-testid="conversation-export-dialog"
+        className="glass-panel-strong w-full min-w-0 overflow-hidden rounded-t-[var(--radius-xl)] border border-[var(--border-panel)] shadow-[var(--shadow-panel-strong)] sm:max-w-md sm:rounded-[var(--radius-xl)]"
+      >
+        <header className="flex items-center gap-3 border-b border-[var(--border-panel)] px-4 py-3">
+          <Download className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          <h2 id={titleId} className="min-w-0 flex-1 text-base font-semibold text-[var(--text-primary)]">
+            Export {target.surface === 'general' ? 'General Chat' : target.title}
+          </h2>
+          <button
+            ref={closeRef}
+            type="button"
+            onClick={close}
+            aria-label="Close export"
+            className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-[var(--border-subtle)] text-[var(--text-secondary)] hover:border-[var(--border-glow)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </header>
+        <div className="space-y-4 px-4 py-4 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="text-xs font-semibold text-[var(--text-secondary)]">From</span>
+              <input
+                type="date"
+                value={fromValue}
+                max={toValue}
+                onChange={event => setFromValue(event.target.value)}
+                disabled={exporting}
+                className="obsidian-input block min-h-10 w-full rounded-[var(--radius-sm)] px-2 text-sm text-[var(--text-primary)]"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-semibold text-[var(--text-secondary)]">To</span>
+              <input
+                type="date"
+                value={toValue}
+                min={fromValue}
+                onChange={event => setToValue(event.target.value)}
+                disabled={exporting}
+                className="obsidian-input block min-h-10 w-full rounded-[var(--radius-sm)] px-2 text-sm text-[var(--text-primary)]"
+              />
+            </label>
+          </div>
+          <fieldset className="space-y-1">
+            <legend className="text-xs font-semibold text-[var(--text-secondary)]">Format</legend>
+            <div className="flex gap-2">
+              {CONVERSATION_EXPORT_FORMATS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  aria-pressed={format === option.value}
+                  onClick={() => setFormat(option.value)}
+                  disabled={exporting}
+                  className={cn(
+                    'min-h-10 flex-1 rounded-[var(--radius-sm)] border px-3 text-sm font-semibold transition-colors',
+                    format === option.value
+                      ? 'border-[var(--theme-accent-border)] bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]'
+                      : 'border-[var(--border-subtle)] text-[var(--text-secondary)] hover:border-[var(--border-glow)]'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+          <p className="text-xs leading-5 text-[var(--text-muted)]">
+            Includes reactions, replies{target.surface === 'general' ? ', thread summaries' : ''} and media links.
+            Messages from people you have blocked are left out.
+          </p>
+          {rangeError && <p className="text-xs text-[var(--text-muted)]" role="status">{rangeError}</p>}
+          {exporting && (
+            <p className="text-xs text-[var(--theme-accent-readable)]" role="status">
+              Collected {collected} messages...
+            </p>
+          )}
+          {result && <p className="text-xs text-[var(--text-secondary)]" role="status">{result}</p>}
+          <div className="flex justify-end gap-2">
+            {exporting && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => abortRef.current?.abort()}>
+                Cancel
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => void startExport()}
+              loading={exporting}
+              disabled={Boolean(rangeError)}
+            >
+              Export
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+
+  return typeof document === 'undefined' ? dialog : createPortal(dialog, document.body)
+}
@@ -0,0 +1,159 @@
+import {
+  fetchGeneralChatMessageWindow,
+  fetchGeneralChatThreadSummaries,
+  getWorkingClient,
+  type GeneralChatThreadSummary,
+  type Message,
+} from '../../lib/supabase'
+import { getDMMessageWindow } from '../../lib/dmConversationRetrieval'
+import { fetchMyBlockedUsers } from '../../lib/personalBlocking'
+import {
+  CONVERSATION_EXPORT_MAX_MESSAGES,
+  fromDMMessage,
+  fromGeneralChatMessage,
+  isWithinExportRange,
+  prepareExportMessages,
+  type ConversationExport,
+  type ConversationExportRange,
+  type ExportedMessage,
+} from './conversationExportModel'
+
+const WINDOW_LIMIT = 100
+const THREAD_SUMMARY_BATCH = 50
+
+export type ConversationExportTarget =
+  | { surface: 'general' }
+  | { surface: 'dm'; conversationId: string; title: string }
+
+type CollectOptions = {
+  signal?: AbortSignal
+  onProgress?: (collected: number) => void
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Export canceled', 'AbortError')
+}
+
+const requireRange = (range: ConversationExportRange) => {
+  const from = Date.parse(range.from)
+  const to = Date.parse(range.to)
+  if (!Number.isFinite(from) || !Number.isFinite(to)) throw new Error('Choose a valid date range.')
+  if (from > to) throw new Error('The start date must be before the end date.')
+  return { from: new Date(from).toISOString(), to: new Date(to).toISOString() }
+}
+
+/**
+ * Walks General Chat forward from the range start. Each window is centered on
+ * the newest message already collected, so windows overlap by design and are
+ * de-duplicated when the archive is prepared.
+ */
+const collectGeneralChatMessages = async (range: ConversationExportRange, options: CollectOptions) => {
+  const collected = new Map<string, Message>()
+  let window = await fetchGeneralChatMessageWindow({
+    mode: 'target',
+    limit: WINDOW_LIMIT,
+    targetLastReadAt: range.from,
+  })
+
+  while (collected.size < CONVERSATION_EXPORT_MAX_MESSAGES) {
+    throwIfAborted(options.signal)
+    const inRange = window.messages.filter(message => isWithinExportRange(message.created_at, range))
+    inRange.forEach(message => collected.set(message.id, message))
+    options.onProgress?.(collected.size)
+
+    const newest = window.messages[window.messages.length - 1]
+    if (!window.hasNewer || !newest || Date.parse(newest.created_at) > Date.parse(range.to)) break
+    window = await fetchGeneralChatMessageWindow({
+      mode: 'newer',
+      limit: WINDOW_LIMIT,
+      targetMessageId: newest.id,
+    })
+    if (window.messages[window.messages.length - 1]?.id === newest.id) break
+  }
+
+  return Array.from(collected.values())
+}
+
+const attachThreadSummaries = async (messages: Message[]) => {
+  const summaries = new Map<string, GeneralChatThreadSummary>()
+  for (let index = 0; index < messages.length; index += THREAD_SUMMARY_BATCH) {
+    const batch = messages.slice(index, index + THREAD_SUMMARY_BATCH).map(message => message.id)
+    try {
+      const result = await fetchGeneralChatThreadSummaries(batch)
+      result.forEach((summary, threadId) => summaries.set(threadId, summary))
+    } catch {
+      // Thread summaries are supplementary; the archive still has every message.
+      break
+    }
+  }
+  return messages.map(message => ({
+    ...message,
+    thread_summary: summaries.get(message.id) ?? message.thread_summary ?? null,
+  }))
+}
+
+const findFirstDMMessageId = async (conversationId: string, range: ConversationExportRange) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('dm_messages')
+    .select('id')
+    .eq('conversation_id', conversationId)
+    .gte('created_at', range.from)
+    .lte('created_at', range.to)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+  if (error) throw error
+  return (data as { id?: string } | null)?.id ?? null
+}
+
+const collectDMMessages = async (
+  conversationId: string,
+  range: ConversationExportRange,
+  options: CollectOptions,
+) => {
+  const collected = new Map<string, ExportedMessage>()
+  let targetId = await findFirstDMMessageId(conversationId, range)
+
+  while (targetId && collected.size < CONVERSATION_EXPORT_MAX_MESSAGES) {
+    throwIfAborted(options.signal)
+    const window = await getDMMessageWindow(conversationId, targetId, { limit: WINDOW_LIMIT })
+    window.messages
+      .filter(message => isWithinExportRange(message.createdAt, range))
+      .forEach(message => collected.set(message.id, fromDMMessage(message)))
+    options.onProgress?.(collected.size)
+
+    const newest = window.messages[window.messages.length - 1]
+    if (!window.hasNewer || !newest || newest.id === targetId || Date.parse(newest.createdAt) > Date.parse(range.to)) break
+    targetId = newest.id
+  }
+
+  return Array.from(collected.values())
+}
+
+export const collectConversationExport = async (
+  target: ConversationExportTarget,
+  requestedRange: ConversationExportRange,
+  options: CollectOptions = {},
+): Promise<ConversationExport> => {
+  const range = requireRange(requestedRange)
+  const blockedUsers = await fetchMyBlockedUsers()
+  const blockedUserIds = new Set(blockedUsers.map(entry => entry.user.id))
+
+  const messages = target.surface === 'general'
+    ? (await attachThreadSummaries(await collectGeneralChatMessages(range, options))).map(fromGeneralChatMessage)
+    : await collectDMMessages(target.conversationId, range, options)
+  throwIfAborted(options.signal)
+
+  const prepared = prepareExportMessages(messages, blockedUserIds)
+  return {
+    title: target.surface === 'general' ? 'General Chat' : target.title,
+    surface: target.surface,
+    conversationId: target.surface === 'dm' ? target.conversationId : null,
+    range,
+    exportedAt: new Date().toISOString(),
+    excludedMessageCount: prepared.excludedMessageCount,
+    messages: prepared.messages,
+  }
+}
@@ -0,0 +1,260 @@
+import type { ChatMessageType, Message } from '../../lib/supabase'
+import type { DMRetrievedMessage } from '../../lib/dmConversationRetrieval'
+import { getMessagePreviewText } from '../../components/chat/messageDisplay'
+
+export type ConversationExportFormat = 'markdown' | 'json' | 'html'
+export type ConversationExportSurface = 'general' | 'dm'
+
+export interface ConversationExportRange {
+  from: string
+  to: string
+}
+
+export interface ConversationExportAuthor {
+  id: string
+  displayName: string
+  username: string | null
+}
+
+export interface ExportedMessage {
+  id: string
+  author: ConversationExportAuthor
+  createdAt: string
+  editedAt: string | null
+  type: ChatMessageType
+  content: string
+  mediaUrl: string | null
+  replyTo: { id: string; author: string | null; excerpt: string | null } | null
+  reactions: Array<{ emoji: string; count: number }>
+  thread: {
+    replyCount: number
+    latestReplyAt: string | null
+    latestReplyAuthorId: string | null
+    latestReplyPreview: string | null
+  } | null
+}
+
+export interface ConversationExport {
+  title: string
+  surface: ConversationExportSurface
+  conversationId: string | null
+  range: ConversationExportRange
+  exportedAt: string
+  excludedMessageCount: number
+  messages: ExportedMessage[]
+}
+
+export const CONVERSATION_EXPORT_FORMATS: Array<{ value: ConversationExportFormat; label: string; extension: string; mimeType: string }> = [
+  { value: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json;charset=utf-8' },
+  { value: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html;charset=utf-8' },
+]
+
+/** Hard cap so a single export can never walk an unbounded history. */
+export const CONVERSATION_EXPORT_MAX_MESSAGES = 10000
+
+const EXCERPT_LENGTH = 140
+
+const excerpt = (value: string) => value.length > EXCERPT_LENGTH ? `${value.slice(0, EXCERPT_LENGTH - 1)}…` : value
+
+const toReactions = (value: Record<string, { count: number }> | null | undefined) =>
+  Object.entries(value ?? {})
+    .map(([emoji, reaction]) => ({ emoji, count: Number(reaction?.count) || 0 }))
+    .filter(reaction => reaction.count > 0)
+
+const toAuthor = (
+  id: string,
+  profile: { display_name?: string | null; username?: string | null } | null | undefined,
+): ConversationExportAuthor => ({
+  id,
+  displayName: profile?.display_name || profile?.username || 'Unknown member',
+  username: profile?.username || null,
+})
+
+export const fromGeneralChatMessage = (message: Message): ExportedMessage => ({
+  id: message.id,
+  author: toAuthor(message.user_id, message.user),
+  createdAt: message.created_at,
+  editedAt: message.edited_at ?? null,
+  type: message.message_type,
+  content: message.content ?? '',
+  mediaUrl: message.file_url ?? message.audio_url ?? null,
+  replyTo: message.reply_to ? { id: message.reply_to, author: null, excerpt: null } : null,
+  reactions: toReactions(message.reactions),
+  thread: message.thread_summary && message.thread_summary.reply_count > 0
+    ? {
+        replyCount: message.thread_summary.reply_count,
+        latestReplyAt: message.thread_summary.latest_reply_at ?? null,
+        latestReplyAuthorId: message.thread_summary.latest_reply_author?.id ?? null,
+        latestReplyPreview: message.thread_summary.latest_reply_preview ?? null,
+      }
+    : null,
+})
+
+export const fromDMMessage = (message: DMRetrievedMessage): ExportedMessage => ({
+  id: message.id,
+  author: toAuthor(message.senderId, message.sender as { display_name?: string | null; username?: string | null }),
+  createdAt: message.createdAt,
+  editedAt: message.editedAt,
+  type: message.messageType,
+  content: message.content,
+  mediaUrl: message.fileUrl ?? message.audioUrl,
+  replyTo: message.replyTo ? { id: message.replyTo, author: null, excerpt: null } : null,
+  reactions: toReactions(message.reactions),
+  thread: null,
+})
+
+export const isWithinExportRange = (createdAt: string, range: ConversationExportRange) => {
+  const time = Date.parse(createdAt)
+  return time >= Date.parse(range.from) && time <= Date.parse(range.to)
+}
+
+/**
+ * Drops messages written by blocked members, de-duplicates overlapping
+ * windows, and fills reply excerpts from the exported set. Replies to blocked
+ * or out-of-range messages keep only the reference.
+ */
+export const prepareExportMessages = (
+  messages: ExportedMessage[],
+  blockedUserIds: ReadonlySet<string>,
+) => {
+  const unique = new Map<string, ExportedMessage>()
+  messages.forEach(message => unique.set(message.id, message))
+  const ordered = Array.from(unique.values())
+    .sort((left, right) => Date.parse(left.createdAt) - Date.parse(right.createdAt) || left.id.localeCompare(right.id))
+  const visible = ordered.filter(message => !blockedUserIds.has(message.author.id))
+  const byId = new Map(visible.map(message => [message.id, message]))
+
+  return {
+    excludedMessageCount: ordered.length - visible.length,
+    messages: visible.map(message => {
+      const parent = message.replyTo ? byId.get(message.replyTo.id) : null
+      const latestReplyAuthor = message.thread?.latestReplyAuthorId
+      return {
+        ...message,
+        replyTo: message.replyTo
+          ? {
+              id: message.replyTo.id,
+              author: parent?.author.displayName ?? null,
+              excerpt: parent ? excerpt(getMessagePreviewText({ id: parent.id, content: parent.content, message_type: parent.type })) : null,
+            }
+          : null,
+        thread: message.thread && latestReplyAuthor && blockedUserIds.has(latestReplyAuthor)
+          ? { ...message.thread, latestReplyPreview: null }
+          : message.thread,
+      }
+    }),
+  }
+}
+
+export const getConversationExportFileName = (archive: ConversationExport, format: ConversationExportFormat) => {
+  const extension = CONVERSATION_EXPORT_FORMATS.find(entry => entry.value === format)?.extension ?? 'txt'
+  const slug = archive.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'conversation'
+  return `shadowchat-${slug}-${archive.range.from.slice(0, 10)}-to-${archive.range.to.slice(0, 10)}.${extension}`
+}
+
+const describeMedia = (message: ExportedMessage) => {
+  if (!message.mediaUrl) return null
+  if (message.type === 'image') return 'Image'
+  if (message.type === 'video') return 'Video'
+  if (message.type === 'audio') return 'Voice message'
+  return 'Attachment'
+}
+
+const formatReactions = (message: ExportedMessage) =>
+  message.reactions.map(reaction => `${reaction.emoji} ${reaction.count}`).join('  ')
+
+const formatThread = (message: ExportedMessage) => {
+  if (!message.thread) return null
+  const replies = `${message.thread.replyCount} ${message.thread.replyCount === 1 ? 'reply' : 'replies'}`
+  return message.thread.latestReplyPreview ? `${replies} · latest: ${message.thread.latestReplyPreview}` : replies
+}
+
+export const renderConversationJson = (archive: ConversationExport) =>
+  `${JSON.stringify({ format: 'shadowchat.conversation-export', version: 1, ...archive }, null, 2)}\n`
+
+export const renderConversationMarkdown = (archive: ConversationExport) => {
+  const lines = [
+    `# ${archive.title}`,
+    '',
+    `Exported ${archive.exportedAt} · ${archive.range.from} to ${archive.range.to} · ${archive.messages.length} messages`,
+    '',
+  ]
+  archive.messages.forEach(message => {
+    lines.push(`**${message.author.displayName}** · ${message.createdAt}${message.editedAt ? ' (edited)' : ''}`)
+    if (message.replyTo) {
+      lines.push(`> Replying to ${message.replyTo.author ?? 'an earlier message'}${message.replyTo.excerpt ? `: ${message.replyTo.excerpt}` : ''}`)
+    }
+    if (message.content) lines.push('', message.content)
+    const media = describeMedia(message)
+    if (media) lines.push('', `[${media}](${message.mediaUrl})`)
+    const reactions = formatReactions(message)
+    if (reactions) lines.push('', reactions)
+    const thread = formatThread(message)
+    if (thread) lines.push('', `_Thread: ${thread}_`)
+    lines.push('', '---', '')
+  })
+  return lines.join('\n')
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;')
+
+const safeHref = (value: string) => /^https?:\/\//i.test(value) ? escapeHtml(value) : '#'
+
+const HTML_STYLES = [
+  'body{margin:0;background:#0d0d10;color:#ece8df;font:15px/1.5 system-ui,sans-serif}',
+  'main{max-width:720px;margin:0 auto;padding:32px 16px}',
+  'h1{font-size:22px;margin:0 0 4px}',
+  '.meta{color:#9a968c;font-size:13px;margin-bottom:24px}',
+  'article{border-top:1px solid #2a2823;padding:12px 0}',
+  '.author{font-weight:600}',
+  'time,.thread,.reply{color:#9a968c;font-size:13px}',
+  '.reply{border-left:2px solid #d7aa46;padding-left:8px;margin:6px 0}',
+  '.content{white-space:pre-wrap;word-break:break-word;margin:4px 0}',
+  'a{color:#d7aa46}',
+].join('')
+
+export const renderConversationHtml = (archive: ConversationExport) => {
+  const articles = archive.messages.map(message => {
+    const parts = [
+      `<div><span class="author">${escapeHtml(message.author.displayName)}</span> <time datetime="${escapeHtml(message.createdAt)}">${escapeHtml(message.createdAt)}${message.editedAt ? ' (edited)' : ''}</time></div>`,
+    ]
+    if (message.replyTo) {
+      parts.push(`<div class="reply">Replying to ${escapeHtml(message.replyTo.author ?? 'an earlier message')}${message.replyTo.excerpt ? `: ${escapeHtml(message.replyTo.excerpt)}` : ''}</div>`)
+    }
+    if (message.content) parts.push(`<div class="content">${escapeHtml(message.content)}</div>`)
+    const media = describeMedia(message)
+    if (media && message.mediaUrl) {
+      parts.push(`<div><a href="${safeHref(message.mediaUrl)}" rel="noreferrer">${media}</a></div>`)
+    }
+    const reactions = formatReactions(message)
+    if (reactions) parts.push(`<div>${escapeHtml(reactions)}</div>`)
+    const thread = formatThread(message)
+    if (thread) parts.push(`<div class="thread">Thread: ${escapeHtml(thread)}</div>`)
+    return `<article id="m-${escapeHtml(message.id)}">${parts.join('')}</article>`
+  })
+
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">',
+    `<title>${escapeHtml(archive.title)}</title><style>${HTML_STYLES}</style></head>`,
+    '<body><main>',
+    `<h1>${escapeHtml(archive.title)}</h1>`,
+    `<div class="meta">Exported ${escapeHtml(archive.exportedAt)} · ${escapeHtml(archive.range.from)} to ${escapeHtml(archive.range.to)} · ${archive.messages.length} messages</div>`,
+    ...articles,
+    '</main></body></html>',
+    '',
+  ].join('\n')
+}
+
+export const renderConversationExport = (archive: ConversationExport, format: ConversationExportFormat) => {
+  if (format === 'json') return renderConversationJson(archive)
+  if (format === 'html') return renderConversationHtml(archive)
+  return renderConversationMarkdown(archive)
+}
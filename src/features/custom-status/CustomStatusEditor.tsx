@@ -0,0 +1,224 @@
+import { useEffect, useState } from 'react'
+import { MessageSquareText } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '../../hooks/useAuth'
+import { usePresence } from '../../hooks/usePresence'
+import type { UserCustomStatus } from '../../lib/supabase'
+import { cn } from '../../lib/utils'
+import { Button } from '../../components/ui/Button'
+import { Input } from '../../components/ui/Input'
+import {
+  clearCustomStatus,
+  fetchMyCustomStatus,
+  saveCustomStatus,
+  setShareStatusActivity,
+} from './customStatusApi'
+import {
+  CUSTOM_STATUS_EMOJI_MAX_LENGTH,
+  CUSTOM_STATUS_EMOJI_SUGGESTIONS,
+  CUSTOM_STATUS_TEXT_MAX_LENGTH,
+  STATUS_CLEAR_OPTIONS,
+  formatStatusClearTime,
+  getActiveCustomStatus,
+  getCustomStatusError,
+  getStatusClearTime,
+  type CustomStatusDraft,
+  type StatusClearOption,
+} from './customStatusModel'
+
+const EMPTY_DRAFT: CustomStatusDraft = { emoji: '', text: '', clearAfter: 'never' }
+
+const selectClassName = 'mt-1 min-h-11 w-full rounded-[var(--radius-sm)] border border-[var(--border-panel)] bg-[var(--bg-input)] px-3 text-base text-[var(--text-primary)] outline-none transition-colors focus:border-[var(--border-glow)]'
+
+const toDraft = (status: UserCustomStatus | null): CustomStatusDraft => {
+  const active = getActiveCustomStatus(status)
+  return active ? { emoji: active.emoji ?? '', text: active.text ?? '', clearAfter: 'never' } : EMPTY_DRAFT
+}
+
+export function CustomStatusEditor() {
+  const { user } = useAuth()
+  const { refresh } = usePresence()
+  const userId = user?.id ?? null
+  const [status, setStatus] = useState<UserCustomStatus | null>(null)
+  const [draft, setDraft] = useState<CustomStatusDraft>(EMPTY_DRAFT)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    setLoading(true)
+    fetchMyCustomStatus(userId)
+      .then(next => {
+        if (cancelled) return
+        setStatus(next)
+        setDraft(toDraft(next))
+      })
+      .catch(() => {
+        if (!cancelled) toast.error('Your status could not be loaded.')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  if (!userId) return null
+
+  const active = getActiveCustomStatus(status)
+  const clearTime = formatStatusClearTime(active?.expiresAt ?? null)
+  const shareActivity = status?.share_activity ?? true
+  const draftError = draft.emoji || draft.text ? getCustomStatusError(draft) : null
+
+  const applyChange = async (change: () => Promise<UserCustomStatus>, failure: string) => {
+    setSaving(true)
+    try {
+      const next = await change()
+      setStatus(next)
+      setDraft(toDraft(next))
+      void refresh()
+      return true
+    } catch {
+      toast.error(failure)
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    const error = getCustomStatusError(draft)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    const saved = await applyChange(
+      () => saveCustomStatus(userId, {
+        emoji: draft.emoji,
+        text: draft.text,
+        expiresAt: getStatusClearTime(draft.clearAfter),
+      }),
+      'Your status could not be saved.'
+    )
+    if (saved) toast.success('Status updated')
+  }
+
+  const handleClear = () => applyChange(() => clearCustomStatus(userId), 'Your status could not be cleared.')
+
+  const handleShareActivity = () => applyChange(
+    () => setShareStatusActivity(userId, !shareActivity),
+    'Activity sharing could not be updated.'
+  )
+
+  return (
+    <section className="glass-panel rounded-[var(--radius-lg)] p-5" aria-labelledby="custom-status-title">
+      <div className="flex items-start gap-3">
+        <span className="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full border border-[rgba(215,170,70,0.2)] bg-[rgba(215,170,70,0.08)] text-[var(--text-gold)]">
+          <MessageSquareText className="h-5 w-5" aria-hidden="true" />
+        </span>
+        <div className="min-w-0">
+          <h2 id="custom-status-title" className="text-lg font-semibold text-[var(--text-primary)]">
+            Status
+          </h2>
+          <p className="mt-1 text-sm leading-6 text-[var(--text-muted)]">
+            Shown next to your name while you are visible. Invisible members never share a status.
+          </p>
+          {clearTime && <p className="mt-1 text-xs text-[var(--text-secondary)]">{clearTime}</p>}
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2" role="group" aria-label="Suggested emoji">
+        {CUSTOM_STATUS_EMOJI_SUGGESTIONS.map(emoji => (
+          <button
+            key={emoji}
+            type="button"
+            aria-pressed={draft.emoji === emoji}
+            aria-label={`Use ${emoji}`}
+            disabled={loading || saving}
+            onClick={() => setDraft(current => ({ ...current, emoji: current.emoji === emoji ? '' : emoji }))}
+            className={cn(
+              'inline-flex h-10 w-10 items-center justify-center rounded-[var(--radius-sm)] border text-lg transition-[background-color,border-color] disabled:opacity-50',
+              draft.emoji === emoji
+                ? 'border-[var(--border-glow)] bg-[var(--theme-accent-soft)]'
+                : 'border-[var(--border-subtle)] bg-[rgba(255,255,255,0.03)]'
+            )}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-[6rem_minmax(0,1fr)]">
+        <Input
+          label="Emoji"
+          value={draft.emoji}
+          maxLength={CUSTOM_STATUS_EMOJI_MAX_LENGTH}
+          disabled={loading || saving}
+          onChange={event => setDraft(current => ({ ...current, emoji: event.target.value }))}
+        />
+        <Input
+          label="What's happening?"
+          value={draft.text}
+          placeholder="At the game until 9"
+          maxLength={CUSTOM_STATUS_TEXT_MAX_LENGTH}
+          disabled={loading || saving}
+          error={draftError ?? undefined}
+          onChange={event => setDraft(current => ({ ...current, text: event.target.value }))}
+        />
+      </div>
+
+      <label className="mt-3 block text-sm font-medium text-[var(--text-secondary)]" htmlFor="custom-status-clear-after">
+        Clear after
+      </label>
+      <select
+        id="custom-status-clear-after"
+        className={selectClassName}
+        value={draft.clearAfter}
+        disabled={loading || saving}
+        onChange={event => setDraft(current => ({ ...current, clearAfter: event.target.value as StatusClearOption }))}
+      >
+        {STATUS_CLEAR_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => void handleSave()} loading={saving} disabled={loading || Boolean(draftError)}>
+          Save status
+        </Button>
+        {active && (active.emoji || active.text) && (
+          <Button size="sm" variant="ghost" onClick={() => void handleClear()} disabled={loading || saving}>
+            Clear status
+          </Button>
+        )}
+      </div>
+
+      <div className="mt-5 flex items-center justify-between gap-4 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.03)] px-4 py-3">
+        <div className="min-w-0">
+          <h3 className="font-medium text-[var(--text-primary)]">Share what I'm watching or playing</h3>
+          <p className="mt-1 text-sm leading-5 text-[var(--text-muted)]">
+            Adds a line while you watch Shado TV or play a game. It clears on its own when you leave.
+          </p>
+        </div>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={shareActivity}
+          aria-label="Share what I'm watching or playing"
+          disabled={loading || saving}
+          onClick={() => void handleShareActivity()}
+          className={cn(
+            'min-h-11 shrink-0 rounded-[var(--radius-sm)] border px-3 text-xs font-semibold transition-[background-color,border-color,color] disabled:cursor-not-allowed disabled:opacity-50',
+            shareActivity
+              ? 'border-[var(--border-glow)] bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]'
+              : 'border-[var(--border-subtle)] bg-[rgba(0,0,0,0.18)] text-[var(--text-secondary)]'
+          )}
+        >
+          {shareActivity ? 'On' : 'Off'}
+        </button>
+      </div>
+    </section>
+  )
+}
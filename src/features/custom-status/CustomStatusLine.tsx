@@ -0,0 +1,38 @@
+import { Gamepad2, Headphones, Tv } from 'lucide-react'
+import type { StatusActivityKind } from '../../lib/supabase'
+import { cn } from '../../lib/utils'
+import { formatStatusActivity, type ActiveCustomStatus } from './customStatusModel'
+
+const ACTIVITY_ICONS: Record<StatusActivityKind, typeof Tv> = {
+  watching: Tv,
+  playing: Gamepad2,
+  listening: Headphones,
+}
+
+export function CustomStatusLine({
+  status,
+  className,
+}: {
+  status: ActiveCustomStatus | null
+  className?: string
+}) {
+  if (!status) return null
+  const ActivityIcon = status.activity ? ACTIVITY_ICONS[status.activity.kind] : null
+
+  return (
+    <span className={cn('flex min-w-0 flex-col gap-0.5 text-xs text-[var(--text-secondary)]', className)} data-custom-status="true">
+      {(status.emoji || status.text) && (
+        <span className="flex min-w-0 items-center gap-1.5">
+          {status.emoji && <span aria-hidden={status.text ? true : undefined}>{status.emoji}</span>}
+          {status.text && <span className="truncate">{status.text}</span>}
+        </span>
+      )}
+      {status.activity && ActivityIcon && (
+        <span className="flex min-w-0 items-center gap-1.5 text-[var(--theme-accent-readable)]">
+          <ActivityIcon className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+          <span className="truncate">{formatStatusActivity(status.activity)}</span>
+        </span>
+      )}
+    </span>
+  )
+}
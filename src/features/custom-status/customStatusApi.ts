@@ -0,0 +1,97 @@
+import { getWorkingClient, type UserCustomStatus } from '../../lib/supabase'
+import {
+  STATUS_ACTIVITY_TTL_MS,
+  normalizeCustomStatusText,
+  normalizeUserCustomStatus,
+  type StatusActivity,
+} from './customStatusModel'
+
+const CUSTOM_STATUS_SELECT = [
+  'user_id',
+  'emoji',
+  'status_text',
+  'expires_at',
+  'share_activity',
+  'activity_kind',
+  'activity_label',
+  'activity_source',
+  'activity_expires_at',
+  'updated_at',
+].join(', ')
+
+const toStatuses = (rows: unknown[] | null) => (rows ?? [])
+  .map(normalizeUserCustomStatus)
+  .filter((status): status is UserCustomStatus => status !== null)
+
+const toStatus = (row: unknown) => {
+  const status = normalizeUserCustomStatus(row)
+  if (!status) throw new Error('Your status could not be saved.')
+  return status
+}
+
+/** Every status the caller may see. RLS hides invisible and blocked members. */
+export const fetchCustomStatuses = async () => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('user_custom_statuses')
+    .select(CUSTOM_STATUS_SELECT)
+    .or('status_text.not.is.null,emoji.not.is.null,activity_kind.not.is.null')
+  if (error) throw error
+  return toStatuses(data as unknown[] | null)
+}
+
+export const fetchMyCustomStatus = async (userId: string) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('user_custom_statuses')
+    .select(CUSTOM_STATUS_SELECT)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw error
+  return normalizeUserCustomStatus(data)
+}
+
+const upsertCustomStatus = async (userId: string, values: Record<string, unknown>) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('user_custom_statuses')
+    .upsert({ user_id: userId, ...values }, { onConflict: 'user_id' })
+    .select(CUSTOM_STATUS_SELECT)
+    .single()
+  if (error) throw error
+  return toStatus(data)
+}
+
+export const saveCustomStatus = (
+  userId: string,
+  status: { emoji: string; text: string; expiresAt: string | null }
+) => upsertCustomStatus(userId, {
+  emoji: status.emoji.trim() || null,
+  status_text: normalizeCustomStatusText(status.text) || null,
+  expires_at: status.expiresAt,
+})
+
+export const clearCustomStatus = (userId: string) => upsertCustomStatus(userId, {
+  emoji: null,
+  status_text: null,
+  expires_at: null,
+})
+
+export const setShareStatusActivity = (userId: string, shareActivity: boolean) =>
+  upsertCustomStatus(userId, { share_activity: shareActivity })
+
+/** Writes or clears the activity line. The server drops it when sharing is off. */
+export const setStatusActivity = (userId: string, activity: StatusActivity | null) =>
+  upsertCustomStatus(userId, activity
+    ? {
+        activity_kind: activity.kind,
+        activity_label: activity.label,
+        activity_source: activity.source,
+        activity_expires_at: new Date(Date.now() + STATUS_ACTIVITY_TTL_MS).toISOString(),
+      }
+    : {
+        activity_kind: null,
+        activity_label: null,
+        activity_source: null,
+        activity_expires_at: null,
+      })
@@ -0,0 +1,168 @@
+import type { PresenceSnapshot, StatusActivityKind, UserCustomStatus } from '../../lib/supabase'
+
+export const CUSTOM_STATUS_TEXT_MAX_LENGTH = 80
+export const CUSTOM_STATUS_EMOJI_MAX_LENGTH = 16
+/** Activity writes are refreshed well inside the server's 15 minute cap. */
+export const STATUS_ACTIVITY_TTL_MS = 10 * 60 * 1000
+export const STATUS_ACTIVITY_HEARTBEAT_MS = 4 * 60 * 1000
+
+export const CUSTOM_STATUS_EMOJI_SUGGESTIONS = ['💬', '🎮', '📺', '🎧', '🏟️', '💼', '🍕', '✈️', '🤒', '🌙']
+
+export type StatusClearOption = 'never' | '30m' | '1h' | '4h' | 'today'
+
+export const STATUS_CLEAR_OPTIONS: Array<{ value: StatusClearOption; label: string }> = [
+  { value: 'never', label: "Don't clear" },
+  { value: '30m', label: '30 minutes' },
+  { value: '1h', label: '1 hour' },
+  { value: '4h', label: '4 hours' },
+  { value: 'today', label: 'Today' },
+]
+
+const CLEAR_AFTER_MS: Record<Exclude<StatusClearOption, 'never' | 'today'>, number> = {
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+}
+
+export interface StatusActivity {
+  kind: StatusActivityKind
+  label: string
+  source: string
+}
+
+/** Play destinations that report an activity while they are open. */
+export const PLAY_EXPERIENCE_ACTIVITIES: Readonly<Record<string, StatusActivity>> = {
+  'shadow-checkers': { kind: 'playing', label: 'Shadow Checkers', source: 'shadow_checkers' },
+  'shadow-war': { kind: 'playing', label: 'Shadow War', source: 'shadow_war' },
+  'shadow-runner': { kind: 'playing', label: 'Shadow Runner', source: 'shadow_runner' },
+  'shado-live': { kind: 'listening', label: 'Shado Live', source: 'shado_live' },
+}
+
+export const getShadoTvActivity = (title: string): StatusActivity => ({
+  kind: 'watching',
+  label: title.trim().slice(0, CUSTOM_STATUS_TEXT_MAX_LENGTH) || 'Shado TV',
+  source: 'shado_tv',
+})
+
+export interface ActiveCustomStatus {
+  emoji: string | null
+  text: string | null
+  expiresAt: string | null
+  activity: Pick<StatusActivity, 'kind' | 'label'> | null
+}
+
+export interface CustomStatusDraft {
+  emoji: string
+  text: string
+  clearAfter: StatusClearOption
+}
+
+const ACTIVITY_KINDS: StatusActivityKind[] = ['watching', 'playing', 'listening']
+
+const ACTIVITY_VERBS: Record<StatusActivityKind, string> = {
+  watching: 'Watching',
+  playing: 'Playing',
+  listening: 'Listening to',
+}
+
+const toText = (value: unknown) => (typeof value === 'string' && value.trim() ? value : null)
+
+const isFuture = (value: string | null, now: number) => {
+  if (!value) return false
+  const time = Date.parse(value)
+  return Number.isFinite(time) && time > now
+}
+
+export const normalizeCustomStatusText = (value: string) =>
+  value.normalize('NFC').replace(/\s+/g, ' ').trim()
+
+export const getCustomStatusError = (draft: Pick<CustomStatusDraft, 'emoji' | 'text'>) => {
+  const emoji = draft.emoji.trim()
+  const text = normalizeCustomStatusText(draft.text)
+  if (!emoji && !text) return 'Add an emoji or some text.'
+  if (emoji.length > CUSTOM_STATUS_EMOJI_MAX_LENGTH || /\s/.test(emoji)) return 'Use a single emoji.'
+  if (text.length > CUSTOM_STATUS_TEXT_MAX_LENGTH) {
+    return `Keep your status to ${CUSTOM_STATUS_TEXT_MAX_LENGTH} characters or fewer.`
+  }
+  if (/\p{Cc}/u.test(text)) return 'Statuses cannot contain control characters.'
+  return null
+}
+
+/** "Today" clears at local midnight, which is what people mean by "until tonight". */
+export const getStatusClearTime = (option: StatusClearOption, now = new Date()) => {
+  if (option === 'never') return null
+  if (option === 'today') {
+    const endOfDay = new Date(now)
+    endOfDay.setHours(23, 59, 59, 999)
+    return endOfDay.toISOString()
+  }
+  return new Date(now.getTime() + CLEAR_AFTER_MS[option]).toISOString()
+}
+
+export const normalizeUserCustomStatus = (row: unknown): UserCustomStatus | null => {
+  if (!row || typeof row !== 'object') return null
+  const value = row as Record<string, unknown>
+  if (typeof value.user_id !== 'string' || !value.user_id) return null
+  const activityKind = ACTIVITY_KINDS.find(kind => kind === value.activity_kind) ?? null
+  return {
+    user_id: value.user_id,
+    emoji: toText(value.emoji),
+    status_text: toText(value.status_text),
+    expires_at: toText(value.expires_at),
+    share_activity: value.share_activity !== false,
+    activity_kind: activityKind,
+    activity_label: activityKind ? toText(value.activity_label) : null,
+    activity_source: activityKind ? toText(value.activity_source) : null,
+    activity_expires_at: activityKind ? toText(value.activity_expires_at) : null,
+    updated_at: typeof value.updated_at === 'string' ? value.updated_at : '',
+  }
+}
+
+/**
+ * What to show right now. Expired text and stale activity are dropped here
+ * because the row itself stays readable until its owner writes again.
+ */
+export const getActiveCustomStatus = (
+  status: UserCustomStatus | null | undefined,
+  now = Date.now()
+): ActiveCustomStatus | null => {
+  if (!status) return null
+  const textLive = !status.expires_at || isFuture(status.expires_at, now)
+  const emoji = textLive ? status.emoji : null
+  const text = textLive ? status.status_text : null
+  const activity = status.activity_kind && status.activity_label && isFuture(status.activity_expires_at, now)
+    ? { kind: status.activity_kind, label: status.activity_label }
+    : null
+  if (!emoji && !text && !activity) return null
+  return { emoji, text, expiresAt: textLive ? status.expires_at : null, activity }
+}
+
+/** Invisible members show no status, matching what everyone else can load. */
+export const getPresenceCustomStatus = (
+  presence: Pick<PresenceSnapshot, 'presence_state' | 'custom_status'> | null | undefined,
+  now = Date.now()
+) => (
+  !presence || presence.presence_state === 'invisible'
+    ? null
+    : getActiveCustomStatus(presence.custom_status, now)
+)
+
+export const formatStatusActivity = (activity: Pick<StatusActivity, 'kind' | 'label'>) =>
+  `${ACTIVITY_VERBS[activity.kind]} ${activity.label}`
+
+export const formatCustomStatusSummary = (status: ActiveCustomStatus) => {
+  const custom = [status.emoji, status.text].filter(Boolean).join(' ')
+  const activity = status.activity ? formatStatusActivity(status.activity) : ''
+  return [custom, activity].filter(Boolean).join(' · ')
+}
+
+export const formatStatusClearTime = (expiresAt: string | null, now = new Date()) => {
+  if (!expiresAt) return null
+  const clearsAt = new Date(expiresAt)
+  if (!Number.isFinite(clearsAt.getTime())) return null
+  const sameDay = clearsAt.toDateString() === now.toDateString()
+  const time = clearsAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  return sameDay
+    ? `Clears at ${time}`
+    : `Clears ${clearsAt.toLocaleDateString([], { weekday: 'short' })} at ${time}`
+}
@@ -0,0 +1,38 @@
+import { useEffect } from 'react'
+import { useAuth } from '../../hooks/useAuth'
+import { setStatusActivity } from './customStatusApi'
+import { STATUS_ACTIVITY_HEARTBEAT_MS, type StatusActivity } from './customStatusModel'
+
+let activityWrites: Promise<unknown> = Promise.resolve()
+
+// Writes are chained so a "clear" from one screen never lands after the
+// "set" from the screen that replaced it.
+const queueActivityWrite = (userId: string, activity: StatusActivity | null) => {
+  activityWrites = activityWrites
+    .then(() => setStatusActivity(userId, activity))
+    .catch(() => undefined)
+}
+
+/**
+ * Reports what the signed-in member is watching, playing, or listening to
+ * while the calling screen is mounted, and clears it on the way out. The
+ * server ignores the write when the member has turned activity sharing off.
+ */
+export function useStatusActivity(activity: StatusActivity | null) {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const kind = activity?.kind ?? null
+  const label = activity?.label ?? null
+  const source = activity?.source ?? null
+
+  useEffect(() => {
+    if (!userId || !kind || !label || !source) return
+    const current = { kind, label, source }
+    queueActivityWrite(userId, current)
+    const heartbeat = window.setInterval(() => queueActivityWrite(userId, current), STATUS_ACTIVITY_HEARTBEAT_MS)
+    return () => {
+      window.clearInterval(heartbeat)
+      queueActivityWrite(userId, null)
+    }
+  }, [kind, label, source, userId])
+}
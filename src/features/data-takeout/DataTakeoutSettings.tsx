@@ -0,0 +1,98 @@
+import { Archive, Download, RefreshCw } from 'lucide-react'
+import { Button } from '../../components/ui/Button'
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner'
+import { useDataTakeout } from './useDataTakeout'
+import { formatTakeoutExpiry, formatTakeoutSize, getEffectiveTakeoutStatus } from './dataTakeoutModel'
+
+const INCLUDED_DATA = 'Profile, DMs, General Chat posts, Shadow Pin uploads and comments, message library collections, inner circles, game stats, and notification preferences.'
+
+export function DataTakeoutSettings() {
+  const { takeout, loading, starting, downloading, start, download } = useDataTakeout()
+  const status = takeout ? getEffectiveTakeoutStatus(takeout) : null
+  const size = formatTakeoutSize(takeout?.byteSize ?? null)
+
+  return (
+    <section className="glass-panel rounded-[var(--radius-lg)] p-5" aria-labelledby="data-takeout-title">
+      <div className="flex items-start gap-3">
+        <span className="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full border border-[rgba(215,170,70,0.2)] bg-[rgba(215,170,70,0.08)] text-[var(--text-gold)]">
+          <Archive className="h-5 w-5" />
+        </span>
+        <div className="min-w-0">
+          <h2 id="data-takeout-title" className="text-lg font-semibold text-[var(--text-primary)]">
+            Download my data
+          </h2>
+          <p className="mt-1 text-sm leading-6 text-[var(--text-muted)]">
+            Build a zip archive of your Shadow Chat data. {INCLUDED_DATA} Archives stay available for 7 days.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-5 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] p-4">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-[var(--text-muted)]">
+            <LoadingSpinner size="sm" />
+            Checking for earlier archives...
+          </div>
+        ) : status === 'processing' && takeout ? (
+          <div role="status" aria-live="polite">
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <span className="font-medium text-[var(--text-primary)]">{takeout.stage || 'Preparing archive'}...</span>
+              <span className="text-[var(--text-muted)]">{takeout.progress}%</span>
+            </div>
+            <div
+              className="mt-3 h-2 overflow-hidden rounded-full bg-[rgba(255,255,255,0.06)]"
+              role="progressbar"
+              aria-label="Data takeout progress"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={takeout.progress}
+            >
+              <div
+                className="h-full rounded-full bg-[var(--theme-accent-readable)] transition-[width] duration-500"
+                style={{ width: `${Math.max(4, takeout.progress)}%` }}
+              />
+            </div>
+            <p className="mt-3 text-xs leading-5 text-[var(--text-muted)]">
+              You can leave this page. The archive keeps building and will be waiting here.
+            </p>
+          </div>
+        ) : status === 'ready' && takeout ? (
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div className="min-w-0 text-sm">
+              <p className="font-medium text-[var(--text-primary)]">
+                Archive ready{size ? ` · ${size}` : ''}
+              </p>
+              <p className="mt-1 text-xs text-[var(--text-muted)]">
+                {formatTakeoutExpiry(takeout.expiresAt)}
+              </p>
+            </div>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button variant="secondary" onClick={() => void start()} loading={starting} className="justify-center">
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Rebuild
+              </Button>
+              <Button onClick={() => void download()} loading={downloading} className="justify-center">
+                <Download className="mr-2 h-4 w-4" />
+                Download zip
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm text-[var(--text-muted)]">
+              {status === 'failed'
+                ? takeout?.failureReason || 'The last archive could not be built.'
+                : status === 'expired'
+                  ? 'Your last archive expired. Request a fresh one.'
+                  : 'Building an archive usually takes a minute or two.'}
+            </p>
+            <Button onClick={() => void start()} loading={starting} className="w-full justify-center sm:w-auto">
+              <Archive className="mr-2 h-4 w-4" />
+              Request archive
+            </Button>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
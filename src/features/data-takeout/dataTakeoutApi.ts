@@ -0,0 +1,32 @@
+import { getWorkingClient } from '../../lib/supabase'
+import { invokeAuthenticatedEdgeFunction } from '../../lib/edgeFunctions'
+import { normalizeDataTakeout, type DataTakeout } from './dataTakeoutModel'
+
+export const DATA_TAKEOUT_FUNCTION = 'data-takeout'
+
+export const fetchLatestDataTakeout = async (): Promise<DataTakeout | null> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('data_takeout_exports')
+    .select('id, status, progress, stage, byte_size, failure_reason, requested_at, completed_at, expires_at')
+    .order('requested_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) throw error
+  return normalizeDataTakeout(data)
+}
+
+export const startDataTakeout = async () => {
+  const data = await invokeAuthenticatedEdgeFunction<{ id?: string }>(DATA_TAKEOUT_FUNCTION, { action: 'start' })
+  if (!data?.id) throw new Error('Your data takeout could not be started.')
+  return data.id
+}
+
+export const getDataTakeoutDownloadUrl = async (takeoutId: string) => {
+  const data = await invokeAuthenticatedEdgeFunction<{ url?: string }>(DATA_TAKEOUT_FUNCTION, {
+    action: 'download',
+    takeoutId,
+  })
+  if (!data?.url) throw new Error('The download link could not be created.')
+  return data.url
+}
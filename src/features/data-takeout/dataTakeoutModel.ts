@@ -0,0 +1,65 @@
+export type DataTakeoutStatus = 'processing' | 'ready' | 'failed' | 'expired'
+
+export interface DataTakeout {
+  id: string
+  status: DataTakeoutStatus
+  progress: number
+  stage: string | null
+  byteSize: number | null
+  failureReason: string | null
+  requestedAt: string
+  completedAt: string | null
+  expiresAt: string | null
+}
+
+const STATUSES: DataTakeoutStatus[] = ['processing', 'ready', 'failed', 'expired']
+
+const asString = (value: unknown) => typeof value === 'string' && value ? value : null
+
+export const normalizeDataTakeout = (value: unknown): DataTakeout | null => {
+  if (!value || typeof value !== 'object') return null
+  const row = value as Record<string, unknown>
+  const id = asString(row.id)
+  const requestedAt = asString(row.requested_at)
+  if (!id || !requestedAt || !STATUSES.includes(row.status as DataTakeoutStatus)) return null
+  const byteSize = Number(row.byte_size)
+
+  return {
+    id,
+    status: row.status as DataTakeoutStatus,
+    progress: Math.min(100, Math.max(0, Math.round(Number(row.progress) || 0))),
+    stage: asString(row.stage),
+    byteSize: row.byte_size == null || !Number.isFinite(byteSize) ? null : byteSize,
+    failureReason: asString(row.failure_reason),
+    requestedAt,
+    completedAt: asString(row.completed_at),
+    expiresAt: asString(row.expires_at),
+  }
+}
+
+/**
+ * The server retires expired archives lazily, so a ready row past its expiry
+ * is shown as expired without waiting for the next takeout request.
+ */
+export const getEffectiveTakeoutStatus = (takeout: DataTakeout, now = Date.now()): DataTakeoutStatus =>
+  takeout.status === 'ready' && takeout.expiresAt && Date.parse(takeout.expiresAt) <= now
+    ? 'expired'
+    : takeout.status
+
+export const formatTakeoutSize = (bytes: number | null) => {
+  if (bytes == null) return null
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+export const formatTakeoutExpiry = (expiresAt: string | null, now = Date.now()) => {
+  if (!expiresAt) return null
+  const remaining = Date.parse(expiresAt) - now
+  if (!Number.isFinite(remaining) || remaining <= 0) return 'Expired'
+  const hours = Math.floor(remaining / (60 * 60 * 1000))
+  if (hours >= 48) return `Expires in ${Math.floor(hours / 24)} days`
+  if (hours >= 1) return `Expires in ${hours} ${hours === 1 ? 'hour' : 'hours'}`
+  return 'Expires in less than an hour'
+}
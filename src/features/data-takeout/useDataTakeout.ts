@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { fetchLatestDataTakeout, getDataTakeoutDownloadUrl, startDataTakeout } from './dataTakeoutApi'
+import type { DataTakeout } from './dataTakeoutModel'
+
+const POLL_INTERVAL_MS = 2000
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback
+
+/**
+ * Tracks the member's newest takeout and polls while the archive is being
+ * built. Progress is written by the Edge Function, so polling is the only
+ * signal the browser needs.
+ */
+export function useDataTakeout() {
+  const [takeout, setTakeout] = useState<DataTakeout | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [starting, setStarting] = useState(false)
+  const [downloading, setDownloading] = useState(false)
+  const mountedRef = useRef(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      const latest = await fetchLatestDataTakeout()
+      if (mountedRef.current) setTakeout(latest)
+    } catch (error) {
+      console.warn('Data takeout status unavailable', error)
+    } finally {
+      if (mountedRef.current) setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    mountedRef.current = true
+    void refresh()
+    return () => { mountedRef.current = false }
+  }, [refresh])
+
+  const processing = takeout?.status === 'processing'
+  useEffect(() => {
+    if (!processing) return
+    const timer = window.setInterval(() => { void refresh() }, POLL_INTERVAL_MS)
+    return () => window.clearInterval(timer)
+  }, [processing, refresh])
+
+  const start = useCallback(async () => {
+    setStarting(true)
+    try {
+      await startDataTakeout()
+      await refresh()
+    } catch (error) {
+      toast.error(errorMessage(error, 'Your data takeout could not be started.'))
+    } finally {
+      if (mountedRef.current) setStarting(false)
+    }
+  }, [refresh])
+
+  const download = useCallback(async () => {
+    if (!takeout) return
+    setDownloading(true)
+    try {
+      window.location.assign(await getDataTakeoutDownloadUrl(takeout.id))
+    } catch (error) {
+      toast.error(errorMessage(error, 'The download link could not be created.'))
+      await refresh()
+    } finally {
+      if (mountedRef.current) setDownloading(false)
+    }
+  }, [refresh, takeout])
+
+  return { takeout, loading, starting, downloading, start, download }
+}
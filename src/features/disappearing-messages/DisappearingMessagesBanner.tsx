@@ -0,0 +1,36 @@
+import { Timer } from 'lucide-react'
+import { cn } from '../../lib/utils'
+import { formatDisappearingMessageTimer } from './disappearingMessagesModel'
+
+type DisappearingMessagesBannerProps = {
+  messageTtlSeconds: number
+  onChange: () => void
+  className?: string
+}
+
+/** Stays above the thread while a timer is on so nobody sends without knowing. */
+export function DisappearingMessagesBanner({ messageTtlSeconds, onChange, className }: DisappearingMessagesBannerProps) {
+  const label = formatDisappearingMessageTimer(messageTtlSeconds)
+
+  return (
+    <div
+      role="note"
+      data-testid="disappearing-messages-banner"
+      className={cn(
+        'flex min-w-0 items-center gap-2 rounded-full border border-[var(--theme-accent-border-soft)] bg-[color:var(--bg-elevated)]/90 px-3 py-1.5 text-xs text-[var(--text-secondary)] backdrop-blur-xl',
+        className
+      )}
+    >
+      <Timer className="h-3.5 w-3.5 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+      <span className="min-w-0 flex-1 truncate">New messages disappear {label} after they are sent.</span>
+      <button
+        type="button"
+        onClick={onChange}
+        aria-label={`Change disappearing message timer, currently ${label}`}
+        className="min-h-8 shrink-0 rounded-full px-2 font-semibold text-[var(--theme-accent-readable)] hover:bg-[var(--theme-surface-hover)] focus:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-focus-ring)]"
+      >
+        Change
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import { Timer } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { DMHubBottomSheet } from '../../components/dms/hub/DMHubBottomSheet'
+import { cn } from '../../lib/utils'
+import { setDMMessageTimer } from './disappearingMessagesApi'
+import {
+  DISAPPEARING_MESSAGE_TIMERS,
+  formatDisappearingMessageTimer,
+  normalizeDisappearingMessageTimer,
+  type DisappearingMessageTimer,
+} from './disappearingMessagesModel'
+
+type DisappearingMessagesSheetProps = {
+  open: boolean
+  onClose: () => void
+  conversationId: string
+  conversationLabel: string
+  messageTtlSeconds?: number | null
+}
+
+const optionClassName = (selected: boolean) => cn(
+  'min-h-11 rounded-[var(--radius-sm)] border px-3 py-2 text-xs font-semibold transition-[background-color,border-color,color] disabled:cursor-wait disabled:opacity-60',
+  selected
+    ? 'border-[var(--border-glow)] bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]'
+    : 'border-[var(--border-subtle)] bg-[rgba(0,0,0,0.18)] text-[var(--text-secondary)]'
+)
+
+export function DisappearingMessagesSheet({
+  open,
+  onClose,
+  conversationId,
+  conversationLabel,
+  messageTtlSeconds,
+}: DisappearingMessagesSheetProps) {
+  const current = normalizeDisappearingMessageTimer(messageTtlSeconds)
+  const [saving, setSaving] = useState(false)
+
+  const choose = async (seconds: DisappearingMessageTimer | null) => {
+    if (saving) return
+    if (seconds === current) {
+      onClose()
+      return
+    }
+    setSaving(true)
+    try {
+      await setDMMessageTimer(conversationId, seconds)
+      toast.success(seconds
+        ? `New messages will disappear after ${formatDisappearingMessageTimer(seconds)}`
+        : 'Disappearing messages turned off')
+      onClose()
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : 'Could not change the message timer')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <DMHubBottomSheet
+      open={open}
+      onClose={onClose}
+      title="Disappearing messages"
+      eyebrow={conversationLabel}
+      description="Applies to everyone in this conversation. New messages, photos, files, and voice notes are deleted for everyone once the timer passes."
+      testId="disappearing-messages-sheet"
+    >
+      <section className="space-y-2" aria-busy={saving}>
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-[var(--text-primary)]">
+          <Timer className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          Delete new messages after
+        </h3>
+        <div className="grid grid-cols-2 gap-1.5" role="radiogroup" aria-label="Delete new messages after">
+          {DISAPPEARING_MESSAGE_TIMERS.map(timer => (
+            <button
+              key={timer.label}
+              type="button"
+              role="radio"
+              aria-checked={current === timer.seconds}
+              disabled={saving}
+              onClick={() => void choose(timer.seconds)}
+              className={optionClassName(current === timer.seconds)}
+            >
+              {timer.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-[var(--text-muted)]">
+          Messages sent before a change keep the timer they were sent with. Anyone can still take a screenshot.
+        </p>
+      </section>
+    </DMHubBottomSheet>
+  )
+}
@@ -0,0 +1,24 @@
+import { getWorkingClient } from '../../lib/supabase'
+import {
+  DISAPPEARING_MESSAGES_CHANGED_EVENT,
+  normalizeDisappearingMessageTimerChange,
+  type DisappearingMessageTimer,
+  type DisappearingMessageTimerChange,
+} from './disappearingMessagesModel'
+
+/** Sets or clears a conversation's timer. The server posts the system notice when it changes. */
+export const setDMMessageTimer = async (conversationId: string, ttlSeconds: DisappearingMessageTimer | null) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('set_dm_message_timer', {
+    target_conversation_id: conversationId,
+    ttl_seconds: ttlSeconds,
+  })
+  if (error) throw error
+
+  const change = normalizeDisappearingMessageTimerChange(data)
+  if (!change) throw new Error('Timer response was incomplete.')
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent<DisappearingMessageTimerChange>(DISAPPEARING_MESSAGES_CHANGED_EVENT, { detail: change }))
+  }
+  return change
+}
@@ -0,0 +1,65 @@
+import type { DMMessage } from '../../lib/supabase'
+
+export type DisappearingMessageTimer = 3600 | 86400 | 604800
+
+export interface DisappearingMessageTimerChange {
+  conversationId: string
+  messageTtlSeconds: DisappearingMessageTimer | null
+  updatedAt: string | null
+  updatedBy: string | null
+}
+
+export const DISAPPEARING_MESSAGES_CHANGED_EVENT = 'shadowchat:disappearing-messages-changed'
+
+export const DISAPPEARING_MESSAGE_TIMERS: Array<{ seconds: DisappearingMessageTimer | null; label: string }> = [
+  { seconds: null, label: 'Off' },
+  { seconds: 3600, label: '1 hour' },
+  { seconds: 86400, label: '1 day' },
+  { seconds: 604800, label: '7 days' },
+]
+
+const TIMER_SECONDS = new Set<number>([3600, 86400, 604800])
+
+export const normalizeDisappearingMessageTimer = (value: unknown): DisappearingMessageTimer | null => (
+  typeof value === 'number' && TIMER_SECONDS.has(value) ? value as DisappearingMessageTimer : null
+)
+
+export const formatDisappearingMessageTimer = (seconds: number | null | undefined) => (
+  DISAPPEARING_MESSAGE_TIMERS.find(timer => timer.seconds === normalizeDisappearingMessageTimer(seconds))?.label ?? 'Off'
+)
+
+export const normalizeDisappearingMessageTimerChange = (value: unknown): DisappearingMessageTimerChange | null => {
+  const record = value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+  if (typeof record.conversation_id !== 'string' || !record.conversation_id) return null
+  return {
+    conversationId: record.conversation_id,
+    messageTtlSeconds: normalizeDisappearingMessageTimer(record.message_ttl_seconds),
+    updatedAt: typeof record.message_ttl_updated_at === 'string' ? record.message_ttl_updated_at : null,
+    updatedBy: typeof record.message_ttl_updated_by === 'string' ? record.message_ttl_updated_by : null,
+  }
+}
+
+/** Mirrors the server stamp so a message that never reached the server expires on the same clock. */
+export const getDisappearingMessageExpiry = (createdAt: string, ttlSeconds: number | null | undefined) => {
+  const timer = normalizeDisappearingMessageTimer(ttlSeconds)
+  const sentAt = Date.parse(createdAt)
+  if (!timer || !Number.isFinite(sentAt)) return null
+  return new Date(sentAt + timer * 1000).toISOString()
+}
+
+export const isDMMessageExpired = (message: Pick<DMMessage, 'expires_at'>, now = Date.now()) => {
+  if (!message.expires_at) return false
+  const expiresAt = Date.parse(message.expires_at)
+  return Number.isFinite(expiresAt) && expiresAt <= now
+}
+
+/** The soonest expiry, which may already have passed after the device slept. */
+export const getNextDMMessageExpiry = (messages: Array<Pick<DMMessage, 'expires_at'> | null | undefined>) => {
+  let next: number | null = null
+  for (const message of messages) {
+    const expiresAt = message?.expires_at ? Date.parse(message.expires_at) : Number.NaN
+    if (!Number.isFinite(expiresAt)) continue
+    if (next === null || expiresAt < next) next = expiresAt
+  }
+  return next
+}
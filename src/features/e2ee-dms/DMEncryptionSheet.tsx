@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from 'react'
+import { LockKeyhole, MonitorSmartphone } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { DMHubBottomSheet } from '../../components/dms/hub/DMHubBottomSheet'
+import { Button } from '../../components/ui/Button'
+import { enableDMEncryption, listDeviceKeys, revokeDeviceKey } from './e2eeApi'
+import type { DeviceKeyMaterial } from './e2eeCrypto'
+import { isActiveDMDeviceKey, type DMDeviceKey } from './e2eeModel'
+
+type DMEncryptionSheetProps = {
+  open: boolean
+  onClose: () => void
+  conversationId: string
+  conversationLabel: string
+  e2eeEnabledAt?: string | null
+  userId: string
+  device: DeviceKeyMaterial | null
+  deviceError?: Error | null
+}
+
+const formatEnabledDate = (value: string) => new Date(value).toLocaleDateString(undefined, {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+})
+
+export function DMEncryptionSheet({
+  open,
+  onClose,
+  conversationId,
+  conversationLabel,
+  e2eeEnabledAt,
+  userId,
+  device,
+  deviceError,
+}: DMEncryptionSheetProps) {
+  const [saving, setSaving] = useState(false)
+  const [devices, setDevices] = useState<DMDeviceKey[]>([])
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const loadDevices = useCallback(async () => {
+    try {
+      setDevices((await listDeviceKeys([userId])).filter(isActiveDMDeviceKey))
+    } catch {
+      setDevices([])
+    }
+  }, [userId])
+
+  useEffect(() => {
+    if (open) void loadDevices()
+  }, [loadDevices, open, device?.id])
+
+  const turnOn = async () => {
+    if (saving) return
+    setSaving(true)
+    try {
+      await enableDMEncryption(conversationId)
+      toast.success('End-to-end encryption turned on')
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : 'Could not turn on encryption')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeDevice = async (deviceKey: DMDeviceKey) => {
+    setRemovingId(deviceKey.id)
+    try {
+      await revokeDeviceKey(userId, deviceKey.id)
+      setDevices(current => current.filter(item => item.id !== deviceKey.id))
+      toast.success('Device removed')
+    } catch {
+      toast.error('Could not remove this device')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  return (
+    <DMHubBottomSheet
+      open={open}
+      onClose={onClose}
+      title="End-to-end encryption"
+      eyebrow={conversationLabel}
+      description="Messages, photos, files, and voice notes are locked on the sender's device and can only be unlocked on member devices. ShadowChat's servers only see that a message was sent."
+      testId="dm-encryption-sheet"
+    >
+      <section className="space-y-3" aria-busy={saving}>
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-[var(--text-primary)]">
+          <LockKeyhole className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          {e2eeEnabledAt ? `On since ${formatEnabledDate(e2eeEnabledAt)}` : 'Off'}
+        </h3>
+        {e2eeEnabledAt ? (
+          <p className="text-xs text-[var(--text-muted)]">
+            Search, link previews, translation, and edits are unavailable for encrypted messages, and notifications never show their text. Compare safety numbers from a member&apos;s profile to make sure nobody is listening in.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-[var(--text-muted)]">
+              Applies to everyone in this conversation and cannot be turned off. Earlier messages stay as they are, and new messages can only be read on devices that were set up before they were sent. Polls, shared locations, and scheduled messages are unavailable once it is on.
+            </p>
+            <Button
+              type="button"
+              size="sm"
+              loading={saving}
+              disabled={!device}
+              onClick={() => void turnOn()}
+              className="min-h-11 w-full"
+            >
+              Turn on encryption
+            </Button>
+          </>
+        )}
+        {deviceError && (
+          <p role="alert" className="text-xs text-red-200">
+            This browser cannot keep encryption keys, so encrypted messages cannot be read or sent here.
+          </p>
+        )}
+      </section>
+
+      <section className="mt-5 space-y-2" aria-labelledby="dm-encryption-devices">
+        <h3 id="dm-encryption-devices" className="flex items-center gap-2 text-sm font-semibold text-[var(--text-primary)]">
+          <MonitorSmartphone className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          Your devices
+        </h3>
+        {devices.length === 0 ? (
+          <p className="text-xs text-[var(--text-muted)]">No devices are set up for encrypted messages yet.</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {devices.map(deviceKey => (
+              <li
+                key={deviceKey.id}
+                className="flex min-h-11 items-center gap-2 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[rgba(0,0,0,0.18)] px-3 py-2 text-xs"
+              >
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate font-semibold text-[var(--text-primary)]">{deviceKey.label || 'Browser'}</span>
+                  <span className="block text-[var(--text-muted)]">
+                    {deviceKey.id === device?.id ? 'This device' : `Added ${deviceKey.createdAt ? formatEnabledDate(deviceKey.createdAt) : 'earlier'}`}
+                  </span>
+                </span>
+                {deviceKey.id !== device?.id && (
+                  <button
+                    type="button"
+                    onClick={() => void removeDevice(deviceKey)}
+                    disabled={removingId === deviceKey.id}
+                    aria-label={`Remove ${deviceKey.label || 'device'}`}
+                    className="min-h-9 shrink-0 rounded-full px-3 font-semibold text-[var(--text-secondary)] hover:bg-[var(--theme-surface-hover)] hover:text-[var(--text-primary)] disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="text-xs text-[var(--text-muted)]">
+          Remove devices you no longer use. New messages are not encrypted to them, and your safety number changes.
+        </p>
+      </section>
+    </DMHubBottomSheet>
+  )
+}
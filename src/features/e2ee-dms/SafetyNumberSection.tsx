@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react'
+import { ShieldAlert, ShieldCheck } from 'lucide-react'
+import { Button } from '../../components/ui/Button'
+import { listDeviceKeys } from './e2eeApi'
+import { computeSafetyNumber } from './e2eeCrypto'
+import { formatSafetyNumber, isActiveDMDeviceKey, loadVerifiedSafetyNumber, saveVerifiedSafetyNumber } from './e2eeModel'
+
+type SafetyNumberSectionProps = {
+  currentUserId: string
+  otherUserId: string
+  otherUserLabel: string
+}
+
+/**
+ * Both members see the same number when nobody has slipped an extra device
+ * key in between them. Comparing it in person or on a call verifies the keys.
+ */
+export function SafetyNumberSection({ currentUserId, otherUserId, otherUserLabel }: SafetyNumberSectionProps) {
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [verifiedNumber, setVerifiedNumber] = useState<string | null>(() => loadVerifiedSafetyNumber(currentUserId, otherUserId))
+
+  useEffect(() => {
+    let active = true
+    setLoading(true)
+    setVerifiedNumber(loadVerifiedSafetyNumber(currentUserId, otherUserId))
+    void listDeviceKeys([currentUserId, otherUserId])
+      .then(async allKeys => {
+        const keys = allKeys.filter(isActiveDMDeviceKey)
+        const mine = keys.filter(key => key.userId === currentUserId).map(key => key.publicKey)
+        const theirs = keys.filter(key => key.userId === otherUserId).map(key => key.publicKey)
+        if (mine.length === 0 || theirs.length === 0) return null
+        return computeSafetyNumber(
+          { userId: currentUserId, publicKeys: mine },
+          { userId: otherUserId, publicKeys: theirs }
+        )
+      })
+      .catch(() => null)
+      .then(value => {
+        if (!active) return
+        setSafetyNumber(value)
+        setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [currentUserId, otherUserId])
+
+  const verified = Boolean(safetyNumber && verifiedNumber === safetyNumber)
+  const changed = Boolean(safetyNumber && verifiedNumber && verifiedNumber !== safetyNumber)
+
+  const setVerified = (value: string | null) => {
+    saveVerifiedSafetyNumber(currentUserId, otherUserId, value)
+    setVerifiedNumber(value)
+  }
+
+  return (
+    <section
+      className="rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.035)] p-4"
+      aria-labelledby="public-profile-safety-number"
+      aria-busy={loading}
+    >
+      <div id="public-profile-safety-number" className="mb-2 flex items-center gap-2 text-xs uppercase tracking-[0.16em] text-[var(--text-muted)]">
+        {changed
+          ? <ShieldAlert className="h-3.5 w-3.5 text-[var(--text-gold)]" />
+          : <ShieldCheck className="h-3.5 w-3.5" />}
+        Safety Number
+      </div>
+      {loading ? (
+        <p className="text-sm text-[var(--text-muted)]">Loading safety number...</p>
+      ) : !safetyNumber ? (
+        <p className="text-sm leading-6 text-[var(--text-secondary)]">
+          Safety numbers appear once you and {otherUserLabel} have both opened direct messages on a device that supports encryption.
+        </p>
+      ) : (
+        <>
+          {changed && (
+            <p role="alert" className="mb-3 rounded-[var(--radius-sm)] border border-[rgba(215,170,70,0.3)] bg-[rgba(215,170,70,0.08)] px-3 py-2 text-xs leading-5 text-[var(--text-secondary)]">
+              This number changed since you verified it. One of you added or removed a device. Compare it again before sharing anything sensitive.
+            </p>
+          )}
+          <p
+            className="grid grid-cols-4 gap-x-3 gap-y-1 font-mono text-sm tracking-wider text-[var(--text-primary)]"
+            aria-label={`Safety number ${formatSafetyNumber(safetyNumber).join(' ')}`}
+          >
+            {formatSafetyNumber(safetyNumber).map((group, index) => (
+              <span key={`${group}-${index}`}>{group}</span>
+            ))}
+          </p>
+          <p className="mt-3 text-xs leading-5 text-[var(--text-muted)]">
+            Compare this number with {otherUserLabel} in person or on a call. If it matches, your encrypted messages can only be read on your devices and theirs.
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            {verified ? (
+              <>
+                <span className="inline-flex items-center gap-1.5 text-xs font-semibold text-[var(--theme-accent-readable)]">
+                  <ShieldCheck className="h-3.5 w-3.5" aria-hidden="true" />
+                  Verified
+                </span>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setVerified(null)} className="min-h-11">
+                  Clear verification
+                </Button>
+              </>
+            ) : (
+              <Button type="button" variant="secondary" size="sm" onClick={() => setVerified(safetyNumber)} className="min-h-11 w-full sm:w-auto">
+                Mark as verified
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
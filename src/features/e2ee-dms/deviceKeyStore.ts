@@ -0,0 +1,57 @@
+/**
+ * Keeps this device's private key in IndexedDB. CryptoKey objects survive
+ * structured cloning without being exported, so the non-extractable key
+ * never exists as bytes that script could read back.
+ */
+
+const DATABASE_NAME = 'shadowchat-e2ee'
+const STORE_NAME = 'device-keys'
+
+export interface StoredDeviceKey {
+  userId: string
+  id: string
+  privateKey: CryptoKey
+  publicKey: string
+}
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('This browser cannot keep encryption keys.'))
+    return
+  }
+  const request = indexedDB.open(DATABASE_NAME, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'userId' })
+  }
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error ?? new Error('Could not open the encryption key store.'))
+})
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+) => {
+  const database = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result as T)
+      request.onerror = () => reject(request.error ?? new Error('Encryption key store request failed.'))
+    })
+  } finally {
+    database.close()
+  }
+}
+
+export const loadStoredDeviceKey = async (userId: string) => {
+  const stored = await runTransaction<StoredDeviceKey | undefined>('readonly', store => store.get(userId))
+  return stored ?? null
+}
+
+export const saveStoredDeviceKey = (key: StoredDeviceKey) => (
+  runTransaction<IDBValidKey>('readwrite', store => store.put(key))
+)
+
+export const deleteStoredDeviceKey = (userId: string) => (
+  runTransaction<undefined>('readwrite', store => store.delete(userId))
+)
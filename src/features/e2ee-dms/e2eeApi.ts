@@ -0,0 +1,155 @@
+import { getWorkingClient, uploadEncryptedChatAttachment } from '../../lib/supabase'
+import { optimizeImageFile } from '../../lib/imageOptimization'
+import { CHAT_FILE_UPLOAD_RULE, validateUpload } from '../../lib/uploadLimits'
+import { deleteStoredDeviceKey, loadStoredDeviceKey, saveStoredDeviceKey } from './deviceKeyStore'
+import {
+  decryptAttachment,
+  encryptAttachment,
+  encryptDMBody,
+  generateDeviceKeyPair,
+  type DeviceKeyMaterial,
+  type DMMessageContext,
+} from './e2eeCrypto'
+import {
+  DM_ENCRYPTION_CHANGED_EVENT,
+  getDeviceLabel,
+  isActiveDMDeviceKey,
+  normalizeDMDeviceKey,
+  normalizeDMEncryptionChange,
+  type DMDeviceKey,
+  type DMEncryptionChange,
+  type EncryptedDMAttachment,
+  type EncryptedDMBody,
+} from './e2eeModel'
+
+const DEVICE_KEY_SELECT = 'id, user_id, public_key, device_label, created_at, revoked_at'
+
+const deviceKeyRequests = new Map<string, Promise<DeviceKeyMaterial>>()
+
+/**
+ * Returns this device's key for the member, publishing a new one the first
+ * time or after the member removed this device elsewhere.
+ */
+export const ensureDeviceKey = (userId: string) => {
+  const pending = deviceKeyRequests.get(userId)
+  if (pending) return pending
+
+  const request = (async (): Promise<DeviceKeyMaterial> => {
+    const client = await getWorkingClient()
+    const stored = await loadStoredDeviceKey(userId)
+    if (stored) {
+      const { data, error } = await client
+        .from('dm_device_keys')
+        .select('id')
+        .eq('id', stored.id)
+        .is('revoked_at', null)
+        .maybeSingle()
+      if (error) throw error
+      if (data) return { id: stored.id, privateKey: stored.privateKey, publicKey: stored.publicKey }
+    }
+
+    const pair = await generateDeviceKeyPair()
+    const { data, error } = await client
+      .from('dm_device_keys')
+      .insert({
+        user_id: userId,
+        public_key: pair.publicKey,
+        device_label: typeof navigator === 'undefined' ? null : getDeviceLabel(navigator.userAgent),
+      })
+      .select('id')
+      .single()
+    if (error) throw error
+
+    const id = (data as { id?: unknown } | null)?.id
+    if (typeof id !== 'string') throw new Error('Device key response was incomplete.')
+    await saveStoredDeviceKey({ userId, id, privateKey: pair.privateKey, publicKey: pair.publicKey })
+    return { id, privateKey: pair.privateKey, publicKey: pair.publicKey }
+  })()
+
+  deviceKeyRequests.set(userId, request)
+  request.catch(() => deviceKeyRequests.delete(userId))
+  return request
+}
+
+/** Lists every key the members have published, revoked ones included so earlier messages still verify. */
+export const listDeviceKeys = async (userIds: string[]): Promise<DMDeviceKey[]> => {
+  const ids = Array.from(new Set(userIds.filter(Boolean)))
+  if (ids.length === 0) return []
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('dm_device_keys')
+    .select(DEVICE_KEY_SELECT)
+    .in('user_id', ids)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return ((data ?? []) as unknown[])
+    .map(normalizeDMDeviceKey)
+    .filter((key): key is DMDeviceKey => Boolean(key))
+}
+
+/** Stops new messages from being encrypted to a device. Its old messages stay unreadable elsewhere. */
+export const revokeDeviceKey = async (userId: string, deviceKeyId: string) => {
+  const client = await getWorkingClient()
+  const { error } = await client.rpc('revoke_dm_device_key', {
+    target_device_key_id: deviceKeyId,
+  })
+  if (error) throw error
+
+  const stored = await loadStoredDeviceKey(userId).catch(() => null)
+  if (stored?.id === deviceKeyId) {
+    deviceKeyRequests.delete(userId)
+    await deleteStoredDeviceKey(userId)
+  }
+}
+
+/** Turns encryption on for everyone in the conversation. The server posts the notice. */
+export const enableDMEncryption = async (conversationId: string) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('enable_dm_encryption', {
+    target_conversation_id: conversationId,
+  })
+  if (error) throw error
+
+  const change = normalizeDMEncryptionChange(data)
+  if (!change) throw new Error('Encryption response was incomplete.')
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent<DMEncryptionChange>(DM_ENCRYPTION_CHANGED_EVENT, { detail: change }))
+  }
+  return change
+}
+
+/** Seals a message for every active device of every member, fetched fresh so new devices are included. */
+export const sealDMMessage = async (
+  context: DMMessageContext,
+  participantIds: string[],
+  device: DeviceKeyMaterial,
+  body: EncryptedDMBody
+) => {
+  const devices = (await listDeviceKeys(participantIds)).filter(isActiveDMDeviceKey)
+  return encryptDMBody(body, context, device, devices)
+}
+
+/** Encrypts an attachment on this device and uploads only the ciphertext. */
+export const uploadEncryptedAttachment = async (file: Blob): Promise<{ url: string; attachment: EncryptedDMAttachment }> => {
+  const mimeType = validateUpload(file, CHAT_FILE_UPLOAD_RULE)
+  const uploadFile = file instanceof File && mimeType.startsWith('image/')
+    ? await optimizeImageFile(file, {
+      maxWidth: 1600,
+      maxHeight: 1600,
+      quality: 0.82,
+      fileNamePrefix: 'chat-image',
+    })
+    : file
+  const sealed = await encryptAttachment(uploadFile)
+  const url = await uploadEncryptedChatAttachment(sealed.ciphertext)
+  return {
+    url,
+    attachment: { key: sealed.key, iv: sealed.iv, mimeType: uploadFile.type || mimeType },
+  }
+}
+
+export const openEncryptedAttachment = async (url: string, attachment: EncryptedDMAttachment) => {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error('Encrypted attachment is unavailable.')
+  return decryptAttachment(await response.arrayBuffer(), attachment.key, attachment.iv, attachment.mimeType)
+}
@@ -0,0 +1,211 @@
+import type { EncryptedDMPayload } from '../../lib/supabase'
+
+/**
+ * WebCrypto primitives for encrypted DMs. Each device owns one ECDH P-256 key
+ * pair. A message is sealed with a fresh AES-GCM content key bound to its
+ * conversation, sender and client message id, and that key is wrapped for
+ * every member device with a key derived from ECDH between the sender's
+ * device key and the recipient's.
+ */
+
+const ECDH_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' }
+const WRAP_INFO = new TextEncoder().encode('shadowchat-dm-key-wrap-v1')
+const IV_BYTES = 12
+
+export interface DeviceKeyMaterial {
+  id: string
+  privateKey: CryptoKey
+  publicKey: string
+}
+
+export interface DevicePublicKey {
+  id: string
+  publicKey: string
+}
+
+/** What the ciphertext is bound to, so a stored payload cannot be replayed as another message. */
+export interface DMMessageContext {
+  conversationId: string
+  senderId: string
+  clientMessageId: string
+}
+
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array) => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)
+  let binary = ''
+  for (let index = 0; index < view.length; index += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(index, index + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export const fromBase64 = (value: string) => {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let index = 0; index < binary.length; index += 1) bytes[index] = binary.charCodeAt(index)
+  return bytes
+}
+
+const subtle = () => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('This browser cannot encrypt messages.')
+  }
+  return crypto.subtle
+}
+
+const randomIv = () => crypto.getRandomValues(new Uint8Array(IV_BYTES))
+
+const messageAad = ({ conversationId, senderId, clientMessageId }: DMMessageContext) => (
+  new TextEncoder().encode(JSON.stringify([conversationId, senderId, clientMessageId]))
+)
+
+/** The private key is not extractable, so it can be stored but never exported. */
+export const generateDeviceKeyPair = async () => {
+  const pair = await subtle().generateKey(ECDH_PARAMS, false, ['deriveBits']) as CryptoKeyPair
+  const spki = await subtle().exportKey('spki', pair.publicKey)
+  return { privateKey: pair.privateKey, publicKey: toBase64(spki) }
+}
+
+const importPublicKey = (publicKey: string) => subtle().importKey(
+  'spki',
+  fromBase64(publicKey),
+  ECDH_PARAMS,
+  false,
+  []
+)
+
+const deriveWrapKey = async (privateKey: CryptoKey, publicKey: string, usage: KeyUsage) => {
+  const shared = await subtle().deriveBits(
+    { name: 'ECDH', public: await importPublicKey(publicKey) },
+    privateKey,
+    256
+  )
+  const material = await subtle().importKey('raw', shared, 'HKDF', false, ['deriveKey'])
+  return subtle().deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: WRAP_INFO },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  )
+}
+
+/** Seals a JSON body for every listed device, including the sender's own. */
+export const encryptDMBody = async (
+  body: unknown,
+  context: DMMessageContext,
+  sender: DeviceKeyMaterial,
+  recipients: DevicePublicKey[]
+): Promise<EncryptedDMPayload> => {
+  const contentKey = await subtle().generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt'])
+  const rawContentKey = new Uint8Array(await subtle().exportKey('raw', contentKey))
+  const iv = randomIv()
+  const ciphertext = await subtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: messageAad(context) },
+    contentKey,
+    new TextEncoder().encode(JSON.stringify(body))
+  )
+
+  const keys: Record<string, string> = {}
+  const devices = new Map(recipients.map(device => [device.id, device.publicKey]))
+  devices.set(sender.id, sender.publicKey)
+  for (const [deviceId, publicKey] of devices) {
+    const wrapKey = await deriveWrapKey(sender.privateKey, publicKey, 'encrypt')
+    const wrapIv = randomIv()
+    const wrapped = new Uint8Array(await subtle().encrypt({ name: 'AES-GCM', iv: wrapIv }, wrapKey, rawContentKey))
+    const sealed = new Uint8Array(IV_BYTES + wrapped.length)
+    sealed.set(wrapIv)
+    sealed.set(wrapped, IV_BYTES)
+    keys[deviceId] = toBase64(sealed)
+  }
+
+  return {
+    v: 1,
+    sender_key_id: sender.id,
+    sender_public_key: sender.publicKey,
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext),
+    keys,
+  }
+}
+
+/**
+ * Returns null when this device was not one of the recipients or the payload
+ * was altered. `senderPublicKey` must come from the sender's registered
+ * devices, never from the payload itself, or anyone could claim to be them.
+ */
+export const decryptDMBody = async (
+  payload: EncryptedDMPayload,
+  context: DMMessageContext,
+  senderPublicKey: string,
+  device: Pick<DeviceKeyMaterial, 'id' | 'privateKey'>
+): Promise<unknown> => {
+  const sealed = payload.keys[device.id]
+  if (!sealed || payload.sender_public_key !== senderPublicKey) return null
+
+  try {
+    const sealedBytes = fromBase64(sealed)
+    const wrapKey = await deriveWrapKey(device.privateKey, senderPublicKey, 'decrypt')
+    const rawContentKey = await subtle().decrypt(
+      { name: 'AES-GCM', iv: sealedBytes.subarray(0, IV_BYTES) },
+      wrapKey,
+      sealedBytes.subarray(IV_BYTES)
+    )
+    const contentKey = await subtle().importKey('raw', rawContentKey, 'AES-GCM', false, ['decrypt'])
+    const plaintext = await subtle().decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv), additionalData: messageAad(context) },
+      contentKey,
+      fromBase64(payload.ciphertext)
+    )
+    return JSON.parse(new TextDecoder().decode(plaintext)) as unknown
+  } catch {
+    return null
+  }
+}
+
+/** Attachments get their own key, which travels inside the encrypted message body. */
+export const encryptAttachment = async (file: Blob) => {
+  const key = await subtle().generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt'])
+  const iv = randomIv()
+  const ciphertext = await subtle().encrypt({ name: 'AES-GCM', iv }, key, await file.arrayBuffer())
+  return {
+    ciphertext: new Blob([ciphertext]),
+    key: toBase64(await subtle().exportKey('raw', key)),
+    iv: toBase64(iv),
+  }
+}
+
+export const decryptAttachment = async (ciphertext: ArrayBuffer, key: string, iv: string, mimeType: string) => {
+  const contentKey = await subtle().importKey('raw', fromBase64(key), 'AES-GCM', false, ['decrypt'])
+  const plaintext = await subtle().decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, contentKey, ciphertext)
+  return new Blob([plaintext], { type: mimeType })
+}
+
+const digits = (bytes: Uint8Array) => {
+  let value = ''
+  for (let offset = 0; offset < 30; offset += 5) {
+    const chunk = bytes.subarray(offset, offset + 5).reduce((total, byte) => total * 256 + byte, 0)
+    value += String(chunk % 100000).padStart(5, '0')
+  }
+  return value
+}
+
+const fingerprint = async (userId: string, publicKeys: string[]) => {
+  const input = [userId, ...[...publicKeys].sort()].join('\n')
+  return digits(new Uint8Array(await subtle().digest('SHA-256', new TextEncoder().encode(input))))
+}
+
+/**
+ * A 60-digit number that both members see identically. It changes whenever
+ * either member adds or removes a device.
+ */
+export const computeSafetyNumber = async (
+  first: { userId: string; publicKeys: string[] },
+  second: { userId: string; publicKeys: string[] }
+) => {
+  const halves = [
+    { userId: first.userId, value: await fingerprint(first.userId, first.publicKeys) },
+    { userId: second.userId, value: await fingerprint(second.userId, second.publicKeys) },
+  ].sort((left, right) => left.userId.localeCompare(right.userId))
+  return halves.map(half => half.value).join('')
+}
@@ -0,0 +1,220 @@
+import type { ChatMessageType, DMMessage, EncryptedDMPayload } from '../../lib/supabase'
+
+export type EncryptedDMMessageType = Extract<ChatMessageType, 'text' | 'image' | 'video' | 'audio' | 'file'>
+
+/** Where an encrypted attachment lives and how to open it. Only ever sent inside the ciphertext. */
+export interface EncryptedDMAttachment {
+  key: string
+  iv: string
+  mimeType: string
+}
+
+/** The plaintext sealed into `encrypted_payload`. */
+export interface EncryptedDMBody {
+  text: string
+  type: EncryptedDMMessageType
+  url?: string
+  attachment?: EncryptedDMAttachment
+}
+
+export interface DMEncryptionChange {
+  conversationId: string
+  enabledAt: string
+  enabledBy: string | null
+}
+
+export interface DMDeviceKey {
+  id: string
+  userId: string
+  publicKey: string
+  label: string | null
+  createdAt: string
+  revokedAt: string | null
+}
+
+export const DM_ENCRYPTION_CHANGED_EVENT = 'shadowchat:dm-encryption-changed'
+
+/** What the server stores in `content` for every encrypted message. */
+export const ENCRYPTED_DM_PLACEHOLDER = 'Encrypted message'
+export const ENCRYPTED_DM_PENDING_TEXT = 'Decrypting...'
+export const ENCRYPTED_DM_UNREADABLE_TEXT = 'This message was encrypted before this device was set up, so it cannot be read here.'
+export const ENCRYPTED_DM_ATTACHMENT_FAILED_TEXT = 'This encrypted attachment could not be opened.'
+export const ENCRYPTED_DM_UNVERIFIED_TEXT = 'This message was not sent from one of the sender\'s registered devices, so it was not opened.'
+
+const BODY_TYPES = new Set<EncryptedDMMessageType>(['text', 'image', 'video', 'audio', 'file'])
+
+const asRecord = (value: unknown): Record<string, unknown> => (
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+)
+
+const asString = (value: unknown) => typeof value === 'string' && value ? value : null
+
+export const normalizeEncryptedDMPayload = (value: unknown): EncryptedDMPayload | null => {
+  const record = asRecord(value)
+  const senderKeyId = asString(record.sender_key_id)
+  const senderPublicKey = asString(record.sender_public_key)
+  const iv = asString(record.iv)
+  const ciphertext = asString(record.ciphertext)
+  const keys = asRecord(record.keys)
+  if (record.v !== 1 || !senderKeyId || !senderPublicKey || !iv || !ciphertext) return null
+  if (!Object.values(keys).every(entry => typeof entry === 'string')) return null
+  return {
+    v: 1,
+    sender_key_id: senderKeyId,
+    sender_public_key: senderPublicKey,
+    iv,
+    ciphertext,
+    keys: keys as Record<string, string>,
+  }
+}
+
+export const normalizeEncryptedDMBody = (value: unknown): EncryptedDMBody | null => {
+  const record = asRecord(value)
+  const type = asString(record.type) as EncryptedDMMessageType | null
+  if (!type || !BODY_TYPES.has(type) || typeof record.text !== 'string') return null
+  const url = asString(record.url)
+  // Only links that a browser can fetch directly; the key is what makes them readable.
+  if (url && !/^https:\/\//i.test(url)) return null
+
+  const attachment = asRecord(record.attachment)
+  const key = asString(attachment.key)
+  const iv = asString(attachment.iv)
+  const mimeType = asString(attachment.mimeType)
+  return {
+    text: record.text,
+    type,
+    ...(url ? { url } : {}),
+    ...(key && iv && mimeType ? { attachment: { key, iv, mimeType } } : {}),
+  }
+}
+
+export const normalizeDMEncryptionChange = (value: unknown): DMEncryptionChange | null => {
+  const record = asRecord(value)
+  const conversationId = asString(record.conversation_id)
+  const enabledAt = asString(record.e2ee_enabled_at)
+  if (!conversationId || !enabledAt) return null
+  return { conversationId, enabledAt, enabledBy: asString(record.e2ee_enabled_by) }
+}
+
+export const normalizeDMDeviceKey = (value: unknown): DMDeviceKey | null => {
+  const record = asRecord(value)
+  const id = asString(record.id)
+  const userId = asString(record.user_id)
+  const publicKey = asString(record.public_key)
+  if (!id || !userId || !publicKey) return null
+  return {
+    id,
+    userId,
+    publicKey,
+    label: asString(record.device_label),
+    createdAt: asString(record.created_at) ?? '',
+    revokedAt: asString(record.revoked_at),
+  }
+}
+
+/** Revoked keys are kept for verifying earlier messages but never encrypted to. */
+export const isActiveDMDeviceKey = (key: DMDeviceKey) => !key.revokedAt
+
+/**
+ * Maps what the composer hands over into the sealed body. Voice notes arrive
+ * with their upload URL as the content, like the plaintext send path.
+ */
+export const buildEncryptedDMBody = (
+  content: string,
+  type: ChatMessageType,
+  fileUrl?: string,
+  attachment?: EncryptedDMAttachment
+): EncryptedDMBody => {
+  const bodyType: EncryptedDMMessageType = BODY_TYPES.has(type as EncryptedDMMessageType)
+    ? type as EncryptedDMMessageType
+    : 'text'
+  const url = bodyType === 'audio' ? content : fileUrl
+  return {
+    text: bodyType === 'audio' ? '' : content,
+    type: bodyType,
+    ...(url ? { url } : {}),
+    ...(attachment ? { attachment } : {}),
+  }
+}
+
+/** Uploaded ciphertext is a `file` row; everything else, GIF links included, stays `text`. */
+export const getEncryptedDMRowType = (body: EncryptedDMBody): ChatMessageType => (
+  body.attachment ? 'file' : 'text'
+)
+
+/**
+ * Rebuilds the message the bubble renders from a decrypted body. `displayUrl`
+ * replaces the ciphertext link with a local object URL once it is decrypted.
+ */
+export const applyEncryptedDMBody = (message: DMMessage, body: EncryptedDMBody, displayUrl?: string): DMMessage => {
+  const url = body.attachment ? displayUrl : body.url
+  return {
+    ...message,
+    content: body.text,
+    message_type: body.type,
+    file_url: body.type === 'audio' ? undefined : url,
+    audio_url: body.type === 'audio' ? url : undefined,
+    thumbnail_url: null,
+  }
+}
+
+export const withEncryptedDMNotice = (message: DMMessage, text: string): DMMessage => ({
+  ...message,
+  content: text,
+  message_type: 'text',
+  file_url: undefined,
+  audio_url: undefined,
+  thumbnail_url: null,
+})
+
+export const isEncryptedDMMessage = (message: Pick<DMMessage, 'encrypted_payload'> | null | undefined) => (
+  Boolean(message?.encrypted_payload)
+)
+
+export const formatSafetyNumber = (value: string) => value.match(/.{1,5}/g) ?? []
+
+const verificationKey = (userId: string, otherUserId: string) => (
+  `shadowchat:e2ee-verified:${userId}:${otherUserId}`
+)
+
+/** Verification is a local note of the number the member compared; a new device makes it stale. */
+export const loadVerifiedSafetyNumber = (userId: string, otherUserId: string) => {
+  try {
+    return window.localStorage.getItem(verificationKey(userId, otherUserId))
+  } catch {
+    return null
+  }
+}
+
+export const saveVerifiedSafetyNumber = (userId: string, otherUserId: string, safetyNumber: string | null) => {
+  try {
+    if (safetyNumber) window.localStorage.setItem(verificationKey(userId, otherUserId), safetyNumber)
+    else window.localStorage.removeItem(verificationKey(userId, otherUserId))
+  } catch {
+    // Verification is a convenience; private browsing may not keep it.
+  }
+}
+
+export const getDeviceLabel = (userAgent: string) => {
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Firefox\//.test(userAgent)
+      ? 'Firefox'
+      : /Chrome\//.test(userAgent)
+        ? 'Chrome'
+        : /Safari\//.test(userAgent)
+          ? 'Safari'
+          : 'Browser'
+  const platform = /iPhone|iPad/.test(userAgent)
+    ? 'iOS'
+    : /Android/.test(userAgent)
+      ? 'Android'
+      : /Mac OS X/.test(userAgent)
+        ? 'macOS'
+        : /Windows/.test(userAgent)
+          ? 'Windows'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : null
+  return platform ? `${browser} on ${platform}` : browser
+}
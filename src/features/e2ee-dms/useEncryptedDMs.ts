@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { DMMessage } from '../../lib/supabase'
+import { ensureDeviceKey, listDeviceKeys, openEncryptedAttachment } from './e2eeApi'
+import { decryptDMBody, type DeviceKeyMaterial } from './e2eeCrypto'
+import {
+  applyEncryptedDMBody,
+  ENCRYPTED_DM_ATTACHMENT_FAILED_TEXT,
+  ENCRYPTED_DM_PENDING_TEXT,
+  ENCRYPTED_DM_UNREADABLE_TEXT,
+  ENCRYPTED_DM_UNVERIFIED_TEXT,
+  normalizeEncryptedDMBody,
+  normalizeEncryptedDMPayload,
+  withEncryptedDMNotice,
+  type DMDeviceKey,
+  type EncryptedDMBody,
+} from './e2eeModel'
+
+type DecryptedEntry =
+  | { status: 'ready'; body: EncryptedDMBody; objectUrl?: string }
+  | { status: 'unreadable' }
+  | { status: 'unverified' }
+  | { status: 'attachment_failed' }
+
+// Keyed by what the ciphertext is bound to, so a copied IV cannot pick up another message's result.
+const entryKey = (deviceId: string, message: DMMessage, iv: string) => (
+  `${deviceId}:${message.sender_id}:${message.client_message_id ?? message.id}:${iv}`
+)
+
+/** Publishes this device's key once per member so others can encrypt to it. */
+export function useDMDeviceKey(userId: string | null | undefined) {
+  const [device, setDevice] = useState<DeviceKeyMaterial | null>(null)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    setDevice(null)
+    setError(null)
+    if (!userId) return
+    let active = true
+    ensureDeviceKey(userId)
+      .then(key => {
+        if (active) setDevice(key)
+      })
+      .catch(caught => {
+        if (active) setError(caught instanceof Error ? caught : new Error('Encryption is unavailable on this device.'))
+      })
+    return () => {
+      active = false
+    }
+  }, [userId])
+
+  return { device, error }
+}
+
+/**
+ * Swaps each encrypted row for what the bubble should show. Results are kept
+ * by the payload's IV, so the optimistic copy and the stored row share one
+ * decryption and attachments are only downloaded once. A payload is only
+ * opened with a key the sender has registered and had not revoked when the
+ * message was sent; the key it carries is just a claim.
+ */
+export function useDecryptedDMMessages(
+  messages: DMMessage[],
+  device: DeviceKeyMaterial | null,
+  deviceUnavailable = false
+) {
+  const entriesRef = useRef(new Map<string, DecryptedEntry>())
+  const pendingRef = useRef(new Set<string>())
+  const senderKeysRef = useRef(new Map<string, Map<string, DMDeviceKey>>())
+  const senderKeyRequestsRef = useRef(new Map<string, Promise<void>>())
+  const mountedRef = useRef(true)
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    mountedRef.current = true
+    const entries = entriesRef.current
+    return () => {
+      mountedRef.current = false
+      entries.forEach(entry => {
+        if (entry.status === 'ready' && entry.objectUrl) URL.revokeObjectURL(entry.objectUrl)
+      })
+      entries.clear()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!device) return
+
+    // One lookup per unfamiliar key id, so a device added mid-conversation is picked up.
+    const resolveSenderKey = async (senderId: string, keyId: string) => {
+      const requestKey = `${senderId}:${keyId}`
+      if (!senderKeysRef.current.get(senderId)?.has(keyId) && !senderKeyRequestsRef.current.has(requestKey)) {
+        const request = listDeviceKeys([senderId]).then(keys => {
+          senderKeysRef.current.set(senderId, new Map(
+            keys.filter(key => key.userId === senderId).map(key => [key.id, key])
+          ))
+        })
+        request.catch(() => senderKeyRequestsRef.current.delete(requestKey))
+        senderKeyRequestsRef.current.set(requestKey, request)
+      }
+      await senderKeyRequestsRef.current.get(requestKey)
+      return senderKeysRef.current.get(senderId)?.get(keyId) ?? null
+    }
+
+    messages.forEach(message => {
+      const payload = normalizeEncryptedDMPayload(message.encrypted_payload)
+      if (!payload) return
+      const cacheKey = entryKey(device.id, message, payload.iv)
+      if (entriesRef.current.has(cacheKey) || pendingRef.current.has(cacheKey)) return
+      pendingRef.current.add(cacheKey)
+
+      void (async (): Promise<DecryptedEntry> => {
+        const senderKey = await resolveSenderKey(message.sender_id, payload.sender_key_id)
+        const senderPublicKey = senderKey?.publicKey
+        if (!senderPublicKey || senderPublicKey !== payload.sender_public_key) return { status: 'unverified' }
+        // A removed device still verifies what it sent before, never anything after.
+        if (senderKey.revokedAt && Date.parse(message.created_at) >= Date.parse(senderKey.revokedAt)) {
+          return { status: 'unverified' }
+        }
+        if (!message.client_message_id) return { status: 'unreadable' }
+        const body = normalizeEncryptedDMBody(await decryptDMBody(
+          payload,
+          { conversationId: message.conversation_id, senderId: message.sender_id, clientMessageId: message.client_message_id },
+          senderPublicKey,
+          device
+        ))
+        if (!body) return { status: 'unreadable' }
+        if (!body.attachment || !body.url) return { status: 'ready', body }
+        try {
+          const blob = await openEncryptedAttachment(body.url, body.attachment)
+          return { status: 'ready', body, objectUrl: URL.createObjectURL(blob) }
+        } catch {
+          return { status: 'attachment_failed' }
+        }
+      })().then(entry => {
+        pendingRef.current.delete(cacheKey)
+        if (!mountedRef.current) {
+          if (entry.status === 'ready' && entry.objectUrl) URL.revokeObjectURL(entry.objectUrl)
+          return
+        }
+        entriesRef.current.set(cacheKey, entry)
+        setVersion(current => current + 1)
+      }, () => {
+        // The sender's keys could not be loaded; try again with the next update.
+        pendingRef.current.delete(cacheKey)
+      })
+    })
+  }, [device, messages])
+
+  return useMemo(() => {
+    void version
+    return messages.map(message => {
+      const payload = normalizeEncryptedDMPayload(message.encrypted_payload)
+      if (!payload) return message
+      const entry = device ? entriesRef.current.get(entryKey(device.id, message, payload.iv)) : undefined
+      if (!entry) {
+        return withEncryptedDMNotice(message, deviceUnavailable ? ENCRYPTED_DM_UNREADABLE_TEXT : ENCRYPTED_DM_PENDING_TEXT)
+      }
+      if (entry.status === 'unreadable') return withEncryptedDMNotice(message, ENCRYPTED_DM_UNREADABLE_TEXT)
+      if (entry.status === 'unverified') return withEncryptedDMNotice(message, ENCRYPTED_DM_UNVERIFIED_TEXT)
+      if (entry.status === 'attachment_failed') return withEncryptedDMNotice(message, ENCRYPTED_DM_ATTACHMENT_FAILED_TEXT)
+      return applyEncryptedDMBody(message, entry.body, entry.objectUrl)
+    })
+  }, [device, deviceUnavailable, messages, version])
+}
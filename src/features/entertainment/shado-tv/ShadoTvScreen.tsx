@@ -15,6 +15,8 @@ import {
   type ShadoTvWatchProgress,
 } from './data'
 import { createShadoTvPlaybackId } from './playback'
+import { useStatusActivity } from '../../custom-status/useStatusActivity'
+import { getShadoTvActivity } from '../../custom-status/customStatusModel'
 import { ShadoTvStreamFrame, type ShadoTvPlaybackEvent } from './ShadoTvStreamFrame'
 
 interface ShadoTvScreenProps {
@@ -419,13 +421,17 @@ function EpisodeView({
   onProgressSaved: () => Promise<void>
 }) {
   const [message, setMessage] = useState<string | null>(null)
+  const [watching, setWatching] = useState(false)
   const playbackSessionId = useRef(createShadoTvPlaybackId())
   const status = getHubStatus(video)
   const target = getCountdownTarget(video)
   const canPlayVideo = (status === 'airing-now' || status === 'now-streaming') && Boolean(video.embedUrl)
   const trailerReady = isTrailerReleased(video)
 
+  useStatusActivity(watching ? getShadoTvActivity(video.title) : null)
+
   const handlePlaybackEvent = useCallback((event: ShadoTvPlaybackEvent) => {
+    setWatching(event.type !== 'pause' && event.type !== 'complete')
     void (async () => {
       const analytics = recordShadoTvWatchEvent(
         video.id,
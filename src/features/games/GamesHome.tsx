@@ -22,6 +22,8 @@ import { SHADO_LIVE_ASSETS } from '../entertainment/shado-live/assets/manifest'
 import { SHADO_LIVE_PROTOTYPE_ENABLED, SHADO_LIVE_REAL_ENABLED } from '../../config/featureFlags'
 import { MobileAppHeader } from '../../components/layout/MobileAppHeader'
 import { useAppBadgeState } from '../../hooks/useAppBadgeState'
+import { useStatusActivity } from '../custom-status/useStatusActivity'
+import { PLAY_EXPERIENCE_ACTIVITIES } from '../custom-status/customStatusModel'
 import type { AppView } from '../../types/navigation'
 import type { PlayExperience, PlayRouteAction } from '../../lib/appRouting'
 
@@ -146,6 +148,7 @@ export function GamesHome({
   const [selectedEntertainment, setSelectedEntertainment] = useState<SelectedEntertainment>(() => (
     initialExperience ?? readLocalPreviewEntertainment()
   ))
+  useStatusActivity(selectedEntertainment ? PLAY_EXPERIENCE_ACTIVITIES[selectedEntertainment] ?? null : null)
   const [musicPlaying, setMusicPlaying] = useState(false)
   const [audioBlocked, setAudioBlocked] = useState(false)
   const soundtrackRef = useRef<GameSoundtrackController | null>(null)
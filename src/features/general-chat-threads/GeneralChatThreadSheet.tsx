@@ -24,6 +24,8 @@ import { clearGroupNotifications, requestAppBadgeRefresh } from '../../lib/appBa
 import { markGeneralNotificationEventsReadThrough, type ChatMessageType, type Message } from '../../lib/supabase'
 import { cn, shouldGroupMessage } from '../../lib/utils'
 import type { AppView } from '../../types/navigation'
+import { SeenByIndicator } from '../read-receipts/SeenByIndicator'
+import { useSeenByReceipt } from '../read-receipts/useReadReceipts'
 import { useGeneralChatThread } from './useGeneralChatThread'
 
 export type GeneralChatThreadSheetProps = {
@@ -72,6 +74,7 @@ export function GeneralChatThreadSheet({
     targetMessageId: initialMessageId,
   })
   const { markRead } = useReadCursor('general_chat_thread', threadId, open && Boolean(threadId))
+  const seenBy = useSeenByReceipt('general_chat_thread', threadId, thread.replies, open)
 
   const markLatestVisibleRead = useCallback(async () => {
     if (!threadId || readInFlightRef.current) return
@@ -365,6 +368,7 @@ export function GeneralChatThreadSheet({
                             domIdPrefix="thread-message"
                             messageActionsPortalClassName="!z-[150]"
                           />
+                          {seenBy?.messageId === message.id && <SeenByIndicator readers={seenBy.readers} />}
                         </div>
                       )
                     })}
@@ -0,0 +1,434 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import {
+  Bell,
+  BellOff,
+  Camera,
+  Download,
+  Images,
+  Languages,
+  LockKeyhole,
+  LogOut,
+  MessageCircleQuestion,
+  Pencil,
+  Search,
+  SlidersHorizontal,
+  Timer,
+  UserMinus,
+  UserPlus,
+} from 'lucide-react'
+import { Avatar } from '../../components/ui/Avatar'
+import { Button } from '../../components/ui/Button'
+import { DMHubBottomSheet } from '../../components/dms/hub/DMHubBottomSheet'
+import { DetailsAction } from '../../components/dms/hub/DMHubConversationDetailsSheet'
+import type { DMConversation, User } from '../../lib/supabase'
+import { formatDisappearingMessageTimer } from '../disappearing-messages/disappearingMessagesModel'
+import {
+  leaveGroupDMConversation,
+  removeGroupDMMember,
+  updateGroupDMConversation,
+  uploadGroupDMAvatar,
+} from './groupDMApi'
+import {
+  GROUP_DM_MAX_MEMBERS,
+  GROUP_DM_TITLE_MAX_LENGTH,
+  formatGroupDMMemberSummary,
+  getDMConversationTitle,
+  getGroupDMErrorMessage,
+  getGroupDMHiddenMemberCount,
+  getGroupDMMemberName,
+  isGroupDMOwner,
+  normalizeGroupDMTitle,
+} from './groupDMModel'
+
+type GroupDMDetailsSheetProps = {
+  open: boolean
+  onClose: () => void
+  conversation: DMConversation
+  currentUserId: string | null | undefined
+  muted?: boolean
+  autoTranslate?: boolean
+  onSearch: (conversationId: string) => void
+  onOpenShared: (conversationId: string) => void
+  onExport?: (conversationId: string) => void
+  onAsk?: (conversationId: string) => void
+  onToggleAutoTranslate?: (conversationId: string, nextEnabled: boolean) => void
+  onToggleNotifications: (conversationId: string, nextMuted: boolean) => void | Promise<void>
+  onOpenNotificationRules?: (conversationId: string) => void
+  onOpenDisappearingMessages?: (conversationId: string) => void
+  onOpenEncryption?: (conversationId: string) => void
+  onOpenProfile: (user: User) => void
+  onAddPeople: (conversationId: string) => void
+  onLeft: (conversationId: string) => void
+}
+
+/**
+ * Group counterpart of the direct-message details sheet: rename and photo,
+ * the member list with owner-only removal, and leaving the group.
+ */
+export function GroupDMDetailsSheet({
+  open,
+  onClose,
+  conversation,
+  currentUserId,
+  muted = false,
+  autoTranslate = false,
+  onSearch,
+  onOpenShared,
+  onExport,
+  onAsk,
+  onToggleAutoTranslate,
+  onToggleNotifications,
+  onOpenNotificationRules,
+  onOpenDisappearingMessages,
+  onOpenEncryption,
+  onOpenProfile,
+  onAddPeople,
+  onLeft,
+}: GroupDMDetailsSheetProps) {
+  const conversationId = conversation.id
+  const title = getDMConversationTitle(conversation, currentUserId)
+  const members = conversation.members ?? []
+  const memberCount = conversation.participants?.length ?? members.length
+  const hiddenMemberCount = getGroupDMHiddenMemberCount(conversation)
+  const isOwner = isGroupDMOwner(conversation, currentUserId)
+  const formId = useId()
+  const leaveDescriptionId = useId()
+  const photoInputRef = useRef<HTMLInputElement>(null)
+  const leaveButtonRef = useRef<HTMLButtonElement>(null)
+  const cancelLeaveRef = useRef<HTMLButtonElement>(null)
+  const [editing, setEditing] = useState(false)
+  const [draftTitle, setDraftTitle] = useState(conversation.title ?? '')
+  const [saving, setSaving] = useState(false)
+  const [removingMemberId, setRemovingMemberId] = useState<string | null>(null)
+  const [confirmingLeave, setConfirmingLeave] = useState(false)
+  const [leaving, setLeaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) {
+      setEditing(false)
+      setConfirmingLeave(false)
+    }
+  }, [open])
+
+  useEffect(() => {
+    if (!editing) setDraftTitle(conversation.title ?? '')
+  }, [conversation.title, editing])
+
+  useEffect(() => {
+    if (confirmingLeave) cancelLeaveRef.current?.focus({ preventScroll: true })
+  }, [confirmingLeave])
+
+  const saveProfile = async (changes: { title: string; avatarUrl: string | null }) => {
+    setSaving(true)
+    try {
+      await updateGroupDMConversation(conversationId, changes)
+      setEditing(false)
+    } catch (error) {
+      toast.error(getGroupDMErrorMessage(error, 'Unable to update group'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const changePhoto = async (file: File) => {
+    setSaving(true)
+    try {
+      const avatarUrl = await uploadGroupDMAvatar(file)
+      await updateGroupDMConversation(conversationId, { title: conversation.title ?? title, avatarUrl })
+    } catch (error) {
+      toast.error(getGroupDMErrorMessage(error, 'Unable to update group photo'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeMember = async (member: User) => {
+    setRemovingMemberId(member.id)
+    try {
+      await removeGroupDMMember(conversationId, member.id)
+      toast.success(`${getGroupDMMemberName(member)} removed`)
+    } catch (error) {
+      toast.error(getGroupDMErrorMessage(error, 'Unable to remove member'))
+    } finally {
+      setRemovingMemberId(null)
+    }
+  }
+
+  const leave = async () => {
+    setLeaving(true)
+    try {
+      await leaveGroupDMConversation(conversationId)
+      toast.success(`Left ${title}`)
+      onLeft(conversationId)
+    } catch (error) {
+      toast.error(getGroupDMErrorMessage(error, 'Unable to leave group'))
+      setLeaving(false)
+    }
+  }
+
+  const cancelLeave = () => {
+    setConfirmingLeave(false)
+    window.requestAnimationFrame(() => leaveButtonRef.current?.focus({ preventScroll: true }))
+  }
+
+  return (
+    <DMHubBottomSheet
+      open={open}
+      onClose={onClose}
+      title="Group details"
+      eyebrow="Group message"
+      testId="group-dm-details"
+    >
+      <div className="mb-4 rounded-[var(--radius-lg)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] p-3">
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => photoInputRef.current?.click()}
+            disabled={saving}
+            aria-label="Change group photo"
+            className="relative shrink-0 rounded-full focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)] disabled:cursor-wait"
+          >
+            <Avatar src={conversation.avatar_url || undefined} alt={title} size="lg" loading="eager" />
+            <span className="absolute -bottom-0.5 -right-0.5 inline-flex h-6 w-6 items-center justify-center rounded-full border border-[var(--border-subtle)] bg-[var(--bg-panel)] text-[var(--text-secondary)]" aria-hidden="true">
+              <Camera className="h-3 w-3" />
+            </span>
+          </button>
+          <input
+            ref={photoInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0]
+              event.target.value = ''
+              if (file) void changePhoto(file)
+            }}
+          />
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-semibold text-[var(--text-primary)]">{title}</p>
+            <p className="truncate text-sm text-[var(--text-muted)]">{formatGroupDMMemberSummary(conversation, currentUserId)}</p>
+          </div>
+          {!editing && (
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              aria-label="Rename group"
+              className="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full border border-[var(--border-subtle)] text-[var(--text-secondary)] hover:border-[var(--border-glow)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+            >
+              <Pencil className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {editing && (
+          <form
+            className="mt-3 space-y-2"
+            onSubmit={event => {
+              event.preventDefault()
+              const nextTitle = normalizeGroupDMTitle(draftTitle)
+              if (!nextTitle) {
+                toast.error('Give the group a name.')
+                return
+              }
+              void saveProfile({ title: nextTitle, avatarUrl: conversation.avatar_url ?? null })
+            }}
+          >
+            <label htmlFor={`${formId}-title`} className="text-xs font-semibold text-[var(--text-secondary)]">
+              Group name
+            </label>
+            <input
+              id={`${formId}-title`}
+              value={draftTitle}
+              maxLength={GROUP_DM_TITLE_MAX_LENGTH}
+              onChange={event => setDraftTitle(event.target.value)}
+              autoFocus
+              className="obsidian-input min-h-10 w-full rounded-[var(--radius-sm)] px-3 text-sm text-[var(--text-primary)]"
+            />
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" loading={saving} disabled={saving}>Save</Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(false)}>Cancel</Button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <section aria-label="Members" className="mb-4 space-y-1">
+        <div className="flex items-center justify-between px-1 pb-1">
+          <p className="text-xs uppercase tracking-[0.16em] text-[var(--text-muted)]">
+            {memberCount} {memberCount === 1 ? 'member' : 'members'}
+          </p>
+          {memberCount < GROUP_DM_MAX_MEMBERS && (
+            <Button type="button" size="sm" variant="ghost" className="gap-2" onClick={() => onAddPeople(conversationId)}>
+              <UserPlus className="h-4 w-4" aria-hidden="true" />
+              Add people
+            </Button>
+          )}
+        </div>
+        <ul className="space-y-1">
+          {members.map(member => {
+            const isSelf = member.id === currentUserId
+            const memberName = getGroupDMMemberName(member)
+            return (
+              <li key={member.id} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onOpenProfile(member)}
+                  className="flex min-w-0 flex-1 items-center gap-3 rounded-[var(--radius-md)] px-2 py-2 text-left hover:bg-[rgba(255,255,255,0.05)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+                  aria-label={`Open ${memberName}'s profile`}
+                >
+                  <Avatar
+                    src={member.avatar_thumbnail_url || member.avatar_url}
+                    alt={memberName}
+                    size="sm"
+                    color={member.color}
+                    userId={member.id}
+                    presenceVisibility={member.presence_visibility}
+                    showStatus
+                  />
+                  <span className="min-w-0 flex-1 truncate text-sm font-medium text-[var(--text-primary)]">{memberName}</span>
+                  {conversation.created_by === member.id && (
+                    <span className="theme-accent-chip shrink-0 rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-[0.12em]">Owner</span>
+                  )}
+                  {isSelf && <span className="shrink-0 text-xs text-[var(--text-muted)]">You</span>}
+                </button>
+                {isOwner && !isSelf && (
+                  <button
+                    type="button"
+                    onClick={() => void removeMember(member)}
+                    disabled={removingMemberId === member.id}
+                    aria-label={`Remove ${memberName} from the group`}
+                    className="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full text-[var(--text-muted)] hover:text-red-200 focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)] disabled:cursor-wait disabled:opacity-60"
+                  >
+                    <UserMinus className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+        {hiddenMemberCount > 0 && (
+          <p className="px-1 text-xs leading-5 text-[var(--text-muted)]">
+            {hiddenMemberCount === 1 ? '1 member is' : `${hiddenMemberCount} members are`} hidden because of a block. Their messages stay hidden for you.
+          </p>
+        )}
+      </section>
+
+      <div className="space-y-2" aria-label={`Options for ${title}`}>
+        <DetailsAction
+          label="Search conversation"
+          description="Find words and messages inside this group."
+          icon={Search}
+          onClick={() => onSearch(conversationId)}
+        />
+        <DetailsAction
+          label="Shared media, files & links"
+          description="Browse what the group has shared."
+          icon={Images}
+          onClick={() => onOpenShared(conversationId)}
+        />
+        {onAsk && (
+          <DetailsAction
+            label="Ask about this chat"
+            description="Get a private answer with links to the messages it came from."
+            icon={MessageCircleQuestion}
+            onClick={() => onAsk(conversationId)}
+          />
+        )}
+        {onToggleAutoTranslate && (
+          <DetailsAction
+            label={autoTranslate ? 'Stop auto-translating' : 'Auto-translate messages'}
+            description={autoTranslate
+              ? 'Show new messages in the language they were written in.'
+              : 'Show new messages in your preferred language. Originals stay one tap away.'}
+            icon={Languages}
+            pressed={autoTranslate}
+            onClick={() => onToggleAutoTranslate(conversationId, !autoTranslate)}
+          />
+        )}
+        {onExport && (
+          <DetailsAction
+            label="Export conversation"
+            description="Download a date range as Markdown, JSON, or HTML."
+            icon={Download}
+            onClick={() => onExport(conversationId)}
+          />
+        )}
+        <DetailsAction
+          label={muted ? 'Resume notifications' : 'Mute notifications'}
+          description={muted ? 'Allow new-message alerts from this group.' : 'Silence alerts without leaving the group.'}
+          icon={muted ? Bell : BellOff}
+          pressed={muted}
+          onClick={() => void onToggleNotifications(conversationId, !muted)}
+        />
+        {onOpenNotificationRules && (
+          <DetailsAction
+            label="Notification rules"
+            description="Mentions only, snooze, a custom sound, or VIP alerts during quiet hours."
+            icon={SlidersHorizontal}
+            onClick={() => onOpenNotificationRules(conversationId)}
+          />
+        )}
+        {onOpenDisappearingMessages && (
+          <DetailsAction
+            label="Disappearing messages"
+            description={conversation.message_ttl_seconds
+              ? `On. New messages disappear after ${formatDisappearingMessageTimer(conversation.message_ttl_seconds)}.`
+              : 'Off. Set a timer so new messages delete themselves for everyone.'}
+            icon={Timer}
+            pressed={Boolean(conversation.message_ttl_seconds)}
+            onClick={() => onOpenDisappearingMessages(conversationId)}
+          />
+        )}
+        {onOpenEncryption && (
+          <DetailsAction
+            label="End-to-end encryption"
+            description={conversation.e2ee_enabled_at
+              ? 'On. Only member devices can read new messages and attachments.'
+              : 'Off. Turn it on so new messages can only be read on member devices.'}
+            icon={LockKeyhole}
+            pressed={Boolean(conversation.e2ee_enabled_at)}
+            onClick={() => onOpenEncryption(conversationId)}
+          />
+        )}
+        <DetailsAction
+          label="Leave group"
+          description={isOwner && memberCount > 1
+            ? 'You stop receiving messages. Ownership passes to another member.'
+            : 'You stop receiving messages from this group.'}
+          icon={LogOut}
+          danger
+          disabled={leaving}
+          buttonRef={leaveButtonRef}
+          onClick={() => setConfirmingLeave(true)}
+        />
+        {confirmingLeave && (
+          <div role="alertdialog" aria-label={`Confirm leaving ${title}`} aria-describedby={leaveDescriptionId} className="rounded-[var(--radius-md)] border border-[rgba(190,52,85,0.34)] bg-[rgba(24,10,14,0.96)] p-3">
+            <p id={leaveDescriptionId} className="text-sm leading-5 text-red-100">
+              Leave {title}? The group disappears from your inbox and someone has to add you back to rejoin.
+            </p>
+            <div className="mt-3 grid grid-cols-2 gap-2">
+              <button
+                ref={cancelLeaveRef}
+                type="button"
+                onClick={cancelLeave}
+                className="min-h-12 rounded-[var(--radius-md)] border border-[var(--border-subtle)] text-sm font-semibold text-[var(--text-secondary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setConfirmingLeave(false)
+                  void leave()
+                }}
+                className="min-h-12 rounded-[var(--radius-md)] border border-[rgba(190,52,85,0.4)] bg-[rgba(132,24,45,0.24)] text-sm font-semibold text-red-100 focus:outline-none focus:ring-2 focus:ring-red-300"
+              >
+                Leave group
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </DMHubBottomSheet>
+  )
+}
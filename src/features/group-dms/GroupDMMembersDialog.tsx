@@ -0,0 +1,277 @@
+import { useEffect, useId, useMemo, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import toast from 'react-hot-toast'
+import { Camera, Check, Search, Users, X } from 'lucide-react'
+import { Avatar } from '../../components/ui/Avatar'
+import { Button } from '../../components/ui/Button'
+import { useDialogAccessibility } from '../../hooks/useDialogAccessibility'
+import type { BasicUser } from '../../lib/supabase'
+import { cn } from '../../lib/utils'
+import {
+  addGroupDMMembers,
+  createGroupDMConversation,
+  uploadGroupDMAvatar,
+} from './groupDMApi'
+import {
+  GROUP_DM_MAX_MEMBERS,
+  GROUP_DM_TITLE_MAX_LENGTH,
+  getGroupDMErrorMessage,
+  getGroupDMMemberName,
+  validateGroupDMDraft,
+} from './groupDMModel'
+
+type GroupDMMembersDialogProps = {
+  open: boolean
+  onClose: () => void
+  users: BasicUser[]
+  loading?: boolean
+} & (
+  | { mode: 'create'; onCreated: (conversationId: string) => void }
+  | { mode: 'add'; conversationId: string; currentMemberCount: number }
+)
+
+/**
+ * Starts a named group with a photo and at least two other people, or adds
+ * people to an existing group. Both flows share the same searchable checklist.
+ */
+export function GroupDMMembersDialog(props: GroupDMMembersDialogProps) {
+  const { open, onClose, users, loading = false, mode } = props
+  const titleId = useId()
+  const firstFieldRef = useRef<HTMLInputElement>(null)
+  const photoInputRef = useRef<HTMLInputElement>(null)
+  const [title, setTitle] = useState('')
+  const [query, setQuery] = useState('')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [photo, setPhoto] = useState<File | null>(null)
+  const [photoPreviewUrl, setPhotoPreviewUrl] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [attempted, setAttempted] = useState(false)
+
+  const dialogRef = useDialogAccessibility<HTMLDivElement>({
+    open,
+    onClose,
+    initialFocusRef: firstFieldRef,
+  })
+
+  useEffect(() => {
+    if (open) return
+    setTitle('')
+    setQuery('')
+    setSelectedIds([])
+    setPhoto(null)
+    setSaving(false)
+    setAttempted(false)
+  }, [open])
+
+  useEffect(() => {
+    if (!photo) {
+      setPhotoPreviewUrl(null)
+      return
+    }
+    const url = URL.createObjectURL(photo)
+    setPhotoPreviewUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [photo])
+
+  const filteredUsers = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase()
+    if (!normalizedQuery) return users
+    return users.filter(user =>
+      user.username.toLowerCase().includes(normalizedQuery) ||
+      user.display_name.toLowerCase().includes(normalizedQuery)
+    )
+  }, [query, users])
+
+  if (!open) return null
+
+  const slotsLeft = mode === 'add'
+    ? Math.max(0, GROUP_DM_MAX_MEMBERS - props.currentMemberCount)
+    : GROUP_DM_MAX_MEMBERS - 1
+  const validationError = mode === 'create'
+    ? validateGroupDMDraft({ title, memberIds: selectedIds })
+    : selectedIds.length === 0
+      ? 'Pick at least one person.'
+      : selectedIds.length > slotsLeft
+        ? `This group has room for ${slotsLeft} more ${slotsLeft === 1 ? 'person' : 'people'}.`
+        : null
+
+  const toggleUser = (userId: string) => {
+    setSelectedIds(current => (
+      current.includes(userId)
+        ? current.filter(id => id !== userId)
+        : [...current, userId]
+    ))
+  }
+
+  const submit = async () => {
+    setAttempted(true)
+    if (validationError || saving) return
+    setSaving(true)
+    try {
+      if (props.mode === 'create') {
+        const avatarUrl = photo ? await uploadGroupDMAvatar(photo) : null
+        const conversationId = await createGroupDMConversation({ title, memberIds: selectedIds, avatarUrl })
+        props.onCreated(conversationId)
+      } else {
+        await addGroupDMMembers(props.conversationId, selectedIds)
+      }
+      onClose()
+    } catch (error) {
+      toast.error(getGroupDMErrorMessage(error, mode === 'create' ? 'Unable to create group' : 'Unable to add people'))
+      setSaving(false)
+    }
+  }
+
+  const heading = mode === 'create' ? 'New group' : 'Add people'
+
+  const dialog = (
+    <div
+      role="presentation"
+      className="fixed inset-0 z-[160] flex items-end justify-center bg-[rgba(0,0,0,0.7)] backdrop-blur-sm sm:items-center sm:p-4"
+      onPointerDown={event => {
+        if (event.target === event.currentTarget) onClose()
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        data-testid="group-dm-members-dialog"
+        className="glass-panel-strong flex max-h-[85dvh] w-full min-w-0 flex-col overflow-hidden rounded-t-[var(--radius-xl)] border border-[var(--border-panel)] shadow-[var(--shadow-panel-strong)] sm:max-w-md sm:rounded-[var(--radius-xl)]"
+      >
+        <header className="flex items-center gap-3 border-b border-[var(--border-panel)] px-4 py-3">
+          <Users className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          <h2 id={titleId} className="min-w-0 flex-1 truncate text-base font-semibold text-[var(--text-primary)]">
+            {heading}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={`Close ${heading.toLowerCase()}`}
+            className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-[var(--border-subtle)] text-[var(--text-secondary)] hover:border-[var(--border-glow)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </header>
+        <form
+          className="flex min-h-0 flex-1 flex-col"
+          onSubmit={event => {
+            event.preventDefault()
+            void submit()
+          }}
+        >
+          <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-4 py-4 text-sm">
+            {mode === 'create' && (
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => photoInputRef.current?.click()}
+                  aria-label={photo ? 'Change group photo' : 'Add group photo'}
+                  className="relative inline-flex h-14 w-14 shrink-0 items-center justify-center overflow-hidden rounded-full border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.04)] text-[var(--text-muted)] hover:border-[var(--border-glow)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+                >
+                  {photoPreviewUrl
+                    ? <img src={photoPreviewUrl} alt="" className="h-full w-full object-cover" />
+                    : <Camera className="h-5 w-5" aria-hidden="true" />}
+                </button>
+                <input
+                  ref={photoInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={event => {
+                    setPhoto(event.target.files?.[0] ?? null)
+                    event.target.value = ''
+                  }}
+                />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <label htmlFor={`${titleId}-title`} className="text-xs font-semibold text-[var(--text-secondary)]">
+                    Group name
+                  </label>
+                  <input
+                    ref={firstFieldRef}
+                    id={`${titleId}-title`}
+                    value={title}
+                    maxLength={GROUP_DM_TITLE_MAX_LENGTH}
+                    onChange={event => setTitle(event.target.value)}
+                    placeholder="Weekend plans"
+                    className="obsidian-input min-h-10 w-full rounded-[var(--radius-sm)] px-3 text-sm text-[var(--text-primary)]"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label htmlFor={`${titleId}-search`} className="flex items-center gap-2 text-xs font-semibold text-[var(--text-secondary)]">
+                <Search className="h-3.5 w-3.5" aria-hidden="true" />
+                {mode === 'create' ? 'Members' : `Room for ${slotsLeft} more`}
+              </label>
+              <input
+                ref={mode === 'add' ? firstFieldRef : undefined}
+                id={`${titleId}-search`}
+                value={query}
+                onChange={event => setQuery(event.target.value)}
+                placeholder="Search people"
+                className="obsidian-input min-h-10 w-full rounded-[var(--radius-sm)] px-3 text-sm text-[var(--text-primary)]"
+              />
+              {loading ? (
+                <p className="text-xs text-[var(--text-muted)]" role="status">Loading people...</p>
+              ) : filteredUsers.length === 0 ? (
+                <p className="text-xs text-[var(--text-muted)]">
+                  {query.trim() ? 'No matching people.' : 'No one else is available to add.'}
+                </p>
+              ) : (
+                <ul aria-label="People" className="space-y-1">
+                  {filteredUsers.map(user => {
+                    const selected = selectedIds.includes(user.id)
+                    return (
+                      <li key={user.id}>
+                        <button
+                          type="button"
+                          role="checkbox"
+                          aria-checked={selected}
+                          onClick={() => toggleUser(user.id)}
+                          className={cn(
+                            'flex w-full items-center gap-3 rounded-[var(--radius-md)] border px-3 py-2 text-left transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]',
+                            selected
+                              ? 'border-[var(--theme-accent-border)] bg-[var(--theme-accent-soft)]'
+                              : 'border-transparent hover:bg-[rgba(255,255,255,0.05)]'
+                          )}
+                        >
+                          <Avatar
+                            src={user.avatar_thumbnail_url || user.avatar_url}
+                            alt={getGroupDMMemberName(user)}
+                            size="sm"
+                            color={user.color}
+                          />
+                          <span className="min-w-0 flex-1">
+                            <span className="block truncate font-medium text-[var(--text-primary)]">{getGroupDMMemberName(user)}</span>
+                            <span className="block truncate text-xs text-[var(--text-muted)]">@{user.username}</span>
+                          </span>
+                          {selected && <Check className="h-4 w-4 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />}
+                        </button>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+          <footer className="space-y-2 border-t border-[var(--border-panel)] px-4 py-3">
+            {attempted && validationError && (
+              <p className="text-xs text-red-300" role="alert">{validationError}</p>
+            )}
+            <Button type="submit" loading={saving} disabled={saving} className="w-full gap-2">
+              <Users className="h-4 w-4" aria-hidden="true" />
+              {mode === 'create'
+                ? `Create group${selectedIds.length ? ` with ${selectedIds.length + 1}` : ''}`
+                : `Add ${selectedIds.length || ''} ${selectedIds.length === 1 ? 'person' : 'people'}`.replace(/\s+/g, ' ')}
+            </Button>
+          </footer>
+        </form>
+      </div>
+    </div>
+  )
+
+  return typeof document === 'undefined' ? dialog : createPortal(dialog, document.body)
+}
@@ -0,0 +1,115 @@
+import { getWorkingClient } from '../../lib/supabase'
+import { optimizeImageFile } from '../../lib/imageOptimization'
+import { AVATAR_UPLOAD_RULE, sanitizeUploadFileName, validateUpload } from '../../lib/uploadLimits'
+import {
+  GROUP_DM_CHANGED_EVENT,
+  normalizeGroupDMTitle,
+  type GroupDMChangedDetail,
+  type GroupDMDraft,
+} from './groupDMModel'
+
+const AVATAR_BUCKET = 'avatars'
+
+const requireId = (value: string, label: string) => {
+  const id = value.trim()
+  if (!id) throw new Error(`${label} is required.`)
+  return id
+}
+
+const requireConversationId = (data: unknown) => {
+  const id = data && typeof data === 'object' ? (data as { id?: unknown }).id : null
+  if (typeof id !== 'string' || !id) throw new Error('Group response was incomplete.')
+  return id
+}
+
+export const announceGroupDMChange = (detail: GroupDMChangedDetail) => {
+  if (typeof window === 'undefined') return
+  window.dispatchEvent(new CustomEvent<GroupDMChangedDetail>(GROUP_DM_CHANGED_EVENT, { detail }))
+}
+
+/** Uploads a group photo into the caller's own avatars folder and returns its public URL. */
+export const uploadGroupDMAvatar = async (file: File) => {
+  validateUpload(file, AVATAR_UPLOAD_RULE)
+
+  const client = await getWorkingClient()
+  const { data: { user } } = await client.auth.getUser()
+  if (!user) throw new Error('Not authenticated')
+
+  const uploadFile = await optimizeImageFile(file, {
+    maxWidth: 512,
+    maxHeight: 512,
+    minBytes: 80 * 1024,
+    quality: 0.84,
+    fileNamePrefix: 'group',
+  })
+  const contentType = validateUpload(uploadFile, AVATAR_UPLOAD_RULE)
+  const safeName = sanitizeUploadFileName(uploadFile.name, 'group')
+  const filePath = `${user.id}/groups/${Date.now()}_${safeName}`
+  const { error } = await client.storage.from(AVATAR_BUCKET).upload(filePath, uploadFile, {
+    upsert: true,
+    contentType,
+    cacheControl: '31536000',
+  })
+  if (error) throw error
+
+  const { data } = client.storage.from(AVATAR_BUCKET).getPublicUrl(filePath)
+  return data.publicUrl
+}
+
+export const createGroupDMConversation = async (
+  draft: GroupDMDraft & { avatarUrl?: string | null }
+) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('create_group_dm_conversation', {
+    group_title: normalizeGroupDMTitle(draft.title),
+    member_ids: Array.from(new Set(draft.memberIds)),
+    group_avatar_url: draft.avatarUrl ?? null,
+  })
+  if (error) throw error
+  const conversationId = requireConversationId(data)
+  announceGroupDMChange({ conversationId })
+  return conversationId
+}
+
+export const updateGroupDMConversation = async (
+  conversationId: string,
+  changes: { title: string; avatarUrl: string | null }
+) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('update_group_dm_conversation', {
+    target_conversation_id: requireId(conversationId, 'Conversation'),
+    group_title: normalizeGroupDMTitle(changes.title),
+    group_avatar_url: changes.avatarUrl,
+  })
+  if (error) throw error
+  announceGroupDMChange({ conversationId: requireConversationId(data) })
+}
+
+export const addGroupDMMembers = async (conversationId: string, memberIds: string[]) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('add_group_dm_members', {
+    target_conversation_id: requireId(conversationId, 'Conversation'),
+    member_ids: Array.from(new Set(memberIds)),
+  })
+  if (error) throw error
+  announceGroupDMChange({ conversationId: requireConversationId(data) })
+}
+
+export const removeGroupDMMember = async (conversationId: string, memberId: string) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('remove_group_dm_member', {
+    target_conversation_id: requireId(conversationId, 'Conversation'),
+    member_id: requireId(memberId, 'Member'),
+  })
+  if (error) throw error
+  announceGroupDMChange({ conversationId: requireConversationId(data) })
+}
+
+export const leaveGroupDMConversation = async (conversationId: string) => {
+  const client = await getWorkingClient()
+  const { error } = await client.rpc('leave_group_dm_conversation', {
+    target_conversation_id: requireId(conversationId, 'Conversation'),
+  })
+  if (error) throw error
+  announceGroupDMChange({ conversationId, left: true })
+}
@@ -0,0 +1,136 @@
+import type { DMConversation, DMMessage, User } from '../../lib/supabase'
+
+export const GROUP_DM_MIN_MEMBERS = 3
+export const GROUP_DM_MAX_MEMBERS = 20
+export const GROUP_DM_TITLE_MAX_LENGTH = 80
+export const GROUP_DM_CHANGED_EVENT = 'shadowchat:group-dm-changed'
+
+export type GroupDMChangedDetail = {
+  conversationId: string
+  left?: boolean
+}
+
+export type GroupDMDraft = {
+  title: string
+  memberIds: string[]
+}
+
+type NamedUser = Pick<User, 'id' | 'username' | 'display_name'>
+
+export const isGroupDMConversation = (
+  conversation: Pick<DMConversation, 'kind'> | null | undefined
+) => conversation?.kind === 'group'
+
+export const getGroupDMMemberName = (member: Partial<NamedUser> | null | undefined) => (
+  member?.display_name?.trim() || member?.username?.trim() || 'Unknown member'
+)
+
+const getFirstName = (member: Partial<NamedUser>) => getGroupDMMemberName(member).split(/\s+/)[0]
+
+export const normalizeGroupDMTitle = (value: string | null | undefined) => (
+  (value ?? '').replace(/\s+/g, ' ').trim().slice(0, GROUP_DM_TITLE_MAX_LENGTH)
+)
+
+/** Mirrors the server's create rules so the form can explain what is missing. */
+export const validateGroupDMDraft = (draft: GroupDMDraft) => {
+  if (!normalizeGroupDMTitle(draft.title)) return 'Give the group a name.'
+  const memberCount = new Set(draft.memberIds).size + 1
+  if (memberCount < GROUP_DM_MIN_MEMBERS) {
+    return `Add at least ${GROUP_DM_MIN_MEMBERS - 1} people.`
+  }
+  if (memberCount > GROUP_DM_MAX_MEMBERS) {
+    return `Groups can have up to ${GROUP_DM_MAX_MEMBERS} members including you.`
+  }
+  return null
+}
+
+export const getGroupDMOtherMembers = (
+  conversation: Pick<DMConversation, 'members'>,
+  currentUserId: string | null | undefined
+) => (conversation.members ?? []).filter(member => member.id !== currentUserId)
+
+/** Member profiles the caller cannot see because of a block in either direction. */
+export const getGroupDMHiddenMemberCount = (
+  conversation: Pick<DMConversation, 'members' | 'participants'>
+) => Math.max(0, (conversation.participants?.length ?? 0) - (conversation.members?.length ?? 0))
+
+export const formatGroupDMMemberSummary = (
+  conversation: Pick<DMConversation, 'members' | 'participants'>,
+  currentUserId: string | null | undefined
+) => {
+  const others = getGroupDMOtherMembers(conversation, currentUserId)
+  const total = conversation.participants?.length ?? others.length + 1
+  const named = others.slice(0, 3).map(getFirstName)
+  const remaining = total - 1 - named.length
+  const names = ['You', ...named]
+  return remaining > 0
+    ? `${names.join(', ')} and ${remaining} ${remaining === 1 ? 'other' : 'others'}`
+    : names.join(', ')
+}
+
+export const getDMConversationTitle = (
+  conversation: DMConversation,
+  currentUserId: string | null | undefined
+) => {
+  if (!isGroupDMConversation(conversation)) {
+    return conversation.other_user?.display_name || conversation.other_user?.username || 'Unknown member'
+  }
+  const title = normalizeGroupDMTitle(conversation.title)
+  if (title) return title
+  const names = getGroupDMOtherMembers(conversation, currentUserId).map(getFirstName)
+  return names.length ? names.join(', ') : 'Group'
+}
+
+export const getGroupDMMemberById = (
+  conversation: Pick<DMConversation, 'members'> | null | undefined,
+  memberId: string | null | undefined
+) => (memberId ? conversation?.members?.find(member => member.id === memberId) ?? null : null)
+
+export const isGroupDMOwner = (
+  conversation: Pick<DMConversation, 'created_by'>,
+  userId: string | null | undefined
+) => Boolean(userId && conversation.created_by === userId)
+
+/** Other members whose read receipt covers this message, in member order. */
+export const getDMMessageSeenBy = (
+  message: Pick<DMMessage, 'sender_id' | 'read_by'>,
+  members: User[]
+) => {
+  const readBy = new Set(message.read_by ?? [])
+  return members.filter(member => member.id !== message.sender_id && readBy.has(member.id))
+}
+
+export const formatSeenByLabel = (seenBy: Array<Partial<NamedUser>>, otherMemberCount: number) => {
+  if (seenBy.length === 0) return ''
+  if (otherMemberCount > 1 && seenBy.length >= otherMemberCount) return 'Seen by everyone'
+  const names = seenBy.map(getFirstName)
+  if (names.length === 1) return `Seen by ${names[0]}`
+  if (names.length === 2) return `Seen by ${names[0]} and ${names[1]}`
+  const remaining = names.length - 2
+  return `Seen by ${names[0]}, ${names[1]} and ${remaining} ${remaining === 1 ? 'other' : 'others'}`
+}
+
+/**
+ * Picks the caller's newest delivered message that at least one other member
+ * has read, which is where a group thread shows its seen-by line.
+ */
+export const getLatestSeenOwnMessageId = (
+  messages: DMMessage[],
+  currentUserId: string | null | undefined
+) => {
+  if (!currentUserId) return null
+  for (let index = messages.length - 1; index >= 0; index -= 1) {
+    const message = messages[index]
+    if (message.sender_id !== currentUserId || message.message_type === 'system' || message.optimistic || message.delivery_status === 'sending' || message.delivery_status === 'failed') {
+      continue
+    }
+    if ((message.read_by ?? []).some(readerId => readerId !== currentUserId)) return message.id
+  }
+  return null
+}
+
+/** Surfaces the server's membership messages, which arrive as plain error objects. */
+export const getGroupDMErrorMessage = (error: unknown, fallback: string) => {
+  const message = error && typeof error === 'object' ? (error as { message?: unknown }).message : null
+  return typeof message === 'string' && message.trim() ? message : fallback
+}
@@ -0,0 +1,461 @@
+import { useEffect, useReducer, useRef, useState, type KeyboardEvent, type PointerEvent } from 'react'
+import { createPortal } from 'react-dom'
+import {
+  Crop,
+  EyeOff,
+  Loader2,
+  RotateCcw,
+  RotateCw,
+  SlidersHorizontal,
+  Smile,
+  Trash2,
+  Type,
+  Undo2,
+  X,
+} from 'lucide-react'
+import { Button } from '../../components/ui/Button'
+import { useDialogAccessibility } from '../../hooks/useDialogAccessibility'
+import { cn } from '../../lib/utils'
+import {
+  IMAGE_EDITOR_ADJUSTMENT_RANGE,
+  IMAGE_EDITOR_ASPECTS,
+  IMAGE_EDITOR_BLUR_SIZE_RANGE,
+  IMAGE_EDITOR_MAX_ZOOM,
+  IMAGE_EDITOR_OVERLAY_SIZE_RANGE,
+  IMAGE_EDITOR_STICKERS,
+  IMAGE_EDITOR_STRAIGHTEN_LIMIT,
+  IMAGE_EDITOR_TEXT_COLORS,
+  IMAGE_EDITOR_TEXT_MAX_LENGTH,
+  createInitialImageEditorState,
+  findImageEditorItemAt,
+  getImageEditorBlurBounds,
+  getImageEditorOverlayBounds,
+  imageEditorReducer,
+  isImageEditorPristine,
+  panImageEditorCrop,
+  type ImageEditorTool,
+} from './imageEditorModel'
+import {
+  drawImageEditorScene,
+  exportEditedImageFile,
+  loadImageEditorSource,
+  type ImageEditorSource,
+} from './imageEditorRender'
+
+type ImageEditorDialogProps = {
+  open: boolean
+  file: File | null
+  confirmLabel?: string
+  onCancel: () => void
+  onConfirm: (file: File) => void | Promise<void>
+}
+
+const PREVIEW_MAX_EDGE = 960
+const KEYBOARD_STEP = 0.02
+
+const TOOLS: Array<{ value: ImageEditorTool; label: string; icon: typeof Crop }> = [
+  { value: 'crop', label: 'Crop', icon: Crop },
+  { value: 'adjust', label: 'Adjust', icon: SlidersHorizontal },
+  { value: 'text', label: 'Text', icon: Type },
+  { value: 'sticker', label: 'Stickers', icon: Smile },
+  { value: 'blur', label: 'Blur', icon: EyeOff },
+]
+
+type DragState =
+  | { mode: 'crop'; x: number; y: number }
+  | { mode: 'item'; id: string; offsetX: number; offsetY: number }
+
+function RangeField({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  display,
+  onChange,
+}: {
+  label: string
+  value: number
+  min: number
+  max: number
+  step?: number
+  display: string
+  onChange: (value: number) => void
+}) {
+  return (
+    <label className="block space-y-1.5">
+      <span className="flex justify-between text-xs font-medium text-[var(--text-secondary)]">
+        <span>{label}</span>
+        <span className="text-[var(--text-muted)]">{display}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={event => onChange(Number(event.target.value))}
+        className="h-8 w-full accent-[var(--theme-accent)]"
+      />
+    </label>
+  )
+}
+
+/**
+ * Crop, rotate, adjust, annotate, and blur an image before it is uploaded.
+ * Confirming hands back one flattened file; an untouched image is returned
+ * as-is, so the caller's upload validation always sees what will be sent.
+ */
+export function ImageEditorDialog({
+  open,
+  file,
+  confirmLabel = 'Done',
+  onCancel,
+  onConfirm,
+}: ImageEditorDialogProps) {
+  const [state, dispatch] = useReducer(imageEditorReducer, undefined, createInitialImageEditorState)
+  const [tool, setTool] = useState<ImageEditorTool>('crop')
+  const [source, setSource] = useState<ImageEditorSource | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [previewSize, setPreviewSize] = useState<{ width: number; height: number } | null>(null)
+  const [textDraft, setTextDraft] = useState('')
+  const [textColor, setTextColor] = useState(IMAGE_EDITOR_TEXT_COLORS[0])
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const cancelButtonRef = useRef<HTMLButtonElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const stateRef = useRef(state)
+  stateRef.current = state
+
+  const dialogRef = useDialogAccessibility({
+    open,
+    onClose: onCancel,
+    dismissible: !saving,
+    initialFocusRef: cancelButtonRef,
+  })
+
+  useEffect(() => {
+    if (!open || !file) return
+    let active = true
+    dispatch({ type: 'reset' })
+    setTool('crop')
+    setSource(null)
+    setLoadError(null)
+    setSaveError(null)
+    setPreviewSize(null)
+    setTextDraft('')
+    void loadImageEditorSource(file)
+      .then(next => {
+        if (active) setSource(next)
+      })
+      .catch(error => {
+        if (active) setLoadError(error instanceof Error ? error.message : 'This image could not be opened for editing.')
+      })
+    return () => {
+      active = false
+    }
+  }, [file, open])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !source) return
+    setPreviewSize(drawImageEditorScene(canvas, source, state, PREVIEW_MAX_EDGE))
+  }, [source, state])
+
+  if (!open || !file) return null
+
+  const outputAspect = previewSize ? previewSize.width / previewSize.height : 1
+  const selectedOverlay = state.overlays.find(overlay => overlay.id === state.selectedId) ?? null
+  const selectedBlur = state.blurRegions.find(region => region.id === state.selectedId) ?? null
+  const selectedBounds = selectedOverlay
+    ? getImageEditorOverlayBounds(selectedOverlay, outputAspect)
+    : selectedBlur ? getImageEditorBlurBounds(selectedBlur) : null
+
+  const pointFromEvent = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return {
+      x: rect.width ? (event.clientX - rect.left) / rect.width : 0,
+      y: rect.height ? (event.clientY - rect.top) / rect.height : 0,
+    }
+  }
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!source) return
+    const point = pointFromEvent(event)
+    event.currentTarget.setPointerCapture?.(event.pointerId)
+    if (tool === 'crop') {
+      dragRef.current = { mode: 'crop', ...point }
+      return
+    }
+    const id = findImageEditorItemAt(state, point.x, point.y, outputAspect)
+    dispatch({ type: 'select', id })
+    const item = state.overlays.find(overlay => overlay.id === id) ?? state.blurRegions.find(region => region.id === id)
+    dragRef.current = item ? { mode: 'item', id: item.id, offsetX: item.x - point.x, offsetY: item.y - point.y } : null
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    if (!drag || !source) return
+    const point = pointFromEvent(event)
+    if (drag.mode === 'crop') {
+      const center = panImageEditorCrop(source.width, source.height, stateRef.current, point.x - drag.x, point.y - drag.y)
+      dispatch({ type: 'set-crop-center', ...center })
+      dragRef.current = { mode: 'crop', ...point }
+      return
+    }
+    dispatch({ type: 'move-item', id: drag.id, x: point.x + drag.offsetX, y: point.y + drag.offsetY })
+  }
+
+  const endDrag = () => {
+    dragRef.current = null
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLCanvasElement>) => {
+    const deltas: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_STEP, 0],
+      ArrowRight: [KEYBOARD_STEP, 0],
+      ArrowUp: [0, -KEYBOARD_STEP],
+      ArrowDown: [0, KEYBOARD_STEP],
+    }
+    const delta = deltas[event.key]
+    if (!delta || !source) return
+    event.preventDefault()
+    if (tool === 'crop') {
+      // Arrow keys move the view, so the crop travels the opposite way of a drag.
+      dispatch({ type: 'set-crop-center', ...panImageEditorCrop(source.width, source.height, state, -delta[0], -delta[1]) })
+      return
+    }
+    const item = selectedOverlay ?? selectedBlur
+    if (item) dispatch({ type: 'move-item', id: item.id, x: item.x + delta[0], y: item.y + delta[1] })
+  }
+
+  const confirm = async () => {
+    if (saving) return
+    setSaving(true)
+    setSaveError(null)
+    try {
+      const edited = source ? await exportEditedImageFile(file, source, state) : file
+      await onConfirm(edited)
+    } catch (error) {
+      setSaveError(error instanceof Error && error.message ? error.message : 'Could not save the edited image.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addText = () => {
+    if (!textDraft.trim()) return
+    dispatch({ type: 'add-text', text: textDraft, color: textColor })
+    setTextDraft('')
+  }
+
+  const dialog = (
+    <div
+      ref={dialogRef}
+      className="fixed inset-0 z-[150] flex flex-col bg-[var(--bg-app)] pb-[env(safe-area-inset-bottom)] pt-[env(safe-area-inset-top)] text-[var(--text-primary)]"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="image-editor-title"
+    >
+      <header className="flex items-center justify-between gap-2 border-b border-[var(--border-subtle)] px-3 py-2">
+        <button
+          ref={cancelButtonRef}
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="inline-flex h-11 w-11 items-center justify-center rounded-full text-[var(--text-secondary)] hover:bg-white/5"
+          aria-label="Cancel editing"
+        >
+          <X className="h-5 w-5" />
+        </button>
+        <h2 id="image-editor-title" className="text-base font-semibold">Edit image</h2>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'reset' })}
+            disabled={saving || isImageEditorPristine(state)}
+            className="inline-flex h-11 w-11 items-center justify-center rounded-full text-[var(--text-secondary)] hover:bg-white/5 disabled:opacity-35"
+            aria-label="Undo all edits"
+          >
+            <Undo2 className="h-4 w-4" />
+          </button>
+          <Button type="button" size="sm" onClick={() => void confirm()} loading={saving} disabled={saving} className="min-h-11">
+            {confirmLabel}
+          </Button>
+        </div>
+      </header>
+
+      <div className="relative flex min-h-0 flex-1 items-center justify-center overflow-hidden bg-black/40 p-3">
+        {!source && !loadError && (
+          <p className="flex items-center gap-2 text-sm text-[var(--text-muted)]"><Loader2 className="h-4 w-4 animate-spin" /> Opening image</p>
+        )}
+        {loadError && (
+          <p role="status" className="max-w-sm text-center text-sm text-[var(--text-secondary)]">
+            {loadError} You can still continue with the original.
+          </p>
+        )}
+        <div className={cn('relative max-h-full max-w-full', !source && 'hidden')}>
+          <canvas
+            ref={canvasRef}
+            tabIndex={0}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            onKeyDown={handleKeyDown}
+            className="block max-h-[calc(var(--shadowchat-visual-viewport-height,100dvh)_-_19rem)] max-w-full touch-none rounded-[var(--radius-sm)] object-contain"
+            aria-label={tool === 'crop'
+              ? 'Image preview. Drag or use the arrow keys to move the crop.'
+              : 'Image preview. Drag or use the arrow keys to move the selected item.'}
+          />
+          {selectedBounds && (
+            <span
+              aria-hidden="true"
+              className="pointer-events-none absolute rounded-sm border-2 border-dashed border-[var(--theme-accent-readable)]"
+              style={{
+                left: `${selectedBounds.x * 100}%`,
+                top: `${selectedBounds.y * 100}%`,
+                width: `${selectedBounds.width * 100}%`,
+                height: `${selectedBounds.height * 100}%`,
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3 border-t border-[var(--border-subtle)] px-3 pb-3 pt-2">
+        {saveError && <p role="alert" className="text-sm text-red-200">{saveError}</p>}
+        {source && (
+          <div className="min-h-[7.5rem]">
+            {tool === 'crop' && (
+              <div className="space-y-2">
+                <div className="flex flex-wrap gap-1.5" role="group" aria-label="Aspect ratio">
+                  {IMAGE_EDITOR_ASPECTS.map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => dispatch({ type: 'set-aspect', aspect: option.value })}
+                      aria-pressed={state.aspect === option.value}
+                      className={cn('min-h-9 rounded-full border px-3 text-xs', state.aspect === option.value ? 'border-[var(--border-glow)] bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]' : 'border-[var(--border-subtle)] text-[var(--text-secondary)]')}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                  <button type="button" onClick={() => dispatch({ type: 'rotate', direction: -1 })} className="inline-flex min-h-9 w-9 items-center justify-center rounded-full border border-[var(--border-subtle)] text-[var(--text-secondary)]" aria-label="Rotate left"><RotateCcw className="h-4 w-4" /></button>
+                  <button type="button" onClick={() => dispatch({ type: 'rotate', direction: 1 })} className="inline-flex min-h-9 w-9 items-center justify-center rounded-full border border-[var(--border-subtle)] text-[var(--text-secondary)]" aria-label="Rotate right"><RotateCw className="h-4 w-4" /></button>
+                </div>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <RangeField label="Straighten" value={state.straighten} min={-IMAGE_EDITOR_STRAIGHTEN_LIMIT} max={IMAGE_EDITOR_STRAIGHTEN_LIMIT} step={0.5} display={`${state.straighten}°`} onChange={degrees => dispatch({ type: 'set-straighten', degrees })} />
+                  <RangeField label="Zoom" value={state.zoom} min={1} max={IMAGE_EDITOR_MAX_ZOOM} step={0.05} display={`${state.zoom.toFixed(2)}x`} onChange={zoom => dispatch({ type: 'set-zoom', zoom })} />
+                </div>
+              </div>
+            )}
+            {tool === 'adjust' && (
+              <div className="grid gap-2 sm:grid-cols-2">
+                <RangeField label="Brightness" value={state.brightness} min={IMAGE_EDITOR_ADJUSTMENT_RANGE.min} max={IMAGE_EDITOR_ADJUSTMENT_RANGE.max} display={`${state.brightness - 100 > 0 ? '+' : ''}${state.brightness - 100}`} onChange={value => dispatch({ type: 'set-adjustment', key: 'brightness', value })} />
+                <RangeField label="Contrast" value={state.contrast} min={IMAGE_EDITOR_ADJUSTMENT_RANGE.min} max={IMAGE_EDITOR_ADJUSTMENT_RANGE.max} display={`${state.contrast - 100 > 0 ? '+' : ''}${state.contrast - 100}`} onChange={value => dispatch({ type: 'set-adjustment', key: 'contrast', value })} />
+              </div>
+            )}
+            {tool === 'text' && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <input
+                    value={textDraft}
+                    maxLength={IMAGE_EDITOR_TEXT_MAX_LENGTH}
+                    onChange={event => setTextDraft(event.target.value)}
+                    onKeyDown={event => {
+                      if (event.key === 'Enter') {
+                        event.preventDefault()
+                        addText()
+                      }
+                    }}
+                    className="obsidian-input min-h-11 min-w-0 flex-1 rounded-[var(--radius-sm)] px-3 text-base"
+                    placeholder="Add text"
+                    aria-label="Overlay text"
+                  />
+                  <Button type="button" variant="secondary" size="sm" onClick={addText} disabled={!textDraft.trim()} className="min-h-11">Add</Button>
+                </div>
+                <div className="flex gap-1.5" role="group" aria-label="Text color">
+                  {IMAGE_EDITOR_TEXT_COLORS.map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => {
+                        setTextColor(color)
+                        if (selectedOverlay?.kind === 'text') dispatch({ type: 'update-overlay', id: selectedOverlay.id, patch: { color } })
+                      }}
+                      aria-pressed={textColor === color}
+                      aria-label={`Text color ${color}`}
+                      className={cn('h-8 w-8 rounded-full border-2', textColor === color ? 'border-[var(--theme-accent-readable)]' : 'border-white/20')}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+            {tool === 'sticker' && (
+              <div className="grid grid-cols-6 gap-1.5 sm:grid-cols-12" role="group" aria-label="Stickers">
+                {IMAGE_EDITOR_STICKERS.map(emoji => (
+                  <button key={emoji} type="button" onClick={() => dispatch({ type: 'add-sticker', emoji })} className="min-h-11 rounded-[var(--radius-sm)] text-2xl hover:bg-white/5" aria-label={`Add sticker ${emoji}`}>
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            )}
+            {tool === 'blur' && (
+              <div className="flex flex-wrap items-center gap-3">
+                <Button type="button" variant="secondary" size="sm" onClick={() => dispatch({ type: 'add-blur' })} className="min-h-11">Add blur</Button>
+                <p className="text-xs text-[var(--text-muted)]">Drag the box over faces, names, or addresses. The blur is saved into the image.</p>
+              </div>
+            )}
+            {(selectedOverlay || selectedBlur) && tool !== 'crop' && tool !== 'adjust' && (
+              <div className="mt-2 flex items-end gap-2 border-t border-[var(--border-subtle)] pt-2">
+                <div className="grid min-w-0 flex-1 gap-2 sm:grid-cols-2">
+                  {selectedOverlay && (
+                    <RangeField label="Size" value={selectedOverlay.size} min={IMAGE_EDITOR_OVERLAY_SIZE_RANGE.min} max={IMAGE_EDITOR_OVERLAY_SIZE_RANGE.max} step={0.01} display={`${Math.round(selectedOverlay.size * 100)}%`} onChange={size => dispatch({ type: 'update-overlay', id: selectedOverlay.id, patch: { size } })} />
+                  )}
+                  {selectedBlur && (
+                    <>
+                      <RangeField label="Width" value={selectedBlur.width} min={IMAGE_EDITOR_BLUR_SIZE_RANGE.min} max={IMAGE_EDITOR_BLUR_SIZE_RANGE.max} step={0.01} display={`${Math.round(selectedBlur.width * 100)}%`} onChange={width => dispatch({ type: 'update-blur', id: selectedBlur.id, patch: { width } })} />
+                      <RangeField label="Height" value={selectedBlur.height} min={IMAGE_EDITOR_BLUR_SIZE_RANGE.min} max={IMAGE_EDITOR_BLUR_SIZE_RANGE.max} step={0.01} display={`${Math.round(selectedBlur.height * 100)}%`} onChange={height => dispatch({ type: 'update-blur', id: selectedBlur.id, patch: { height } })} />
+                    </>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => state.selectedId && dispatch({ type: 'remove-item', id: state.selectedId })}
+                  className="inline-flex h-11 w-11 shrink-0 items-center justify-center rounded-full text-red-300/80 hover:bg-white/5"
+                  aria-label="Remove selected item"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+        <div className="grid grid-cols-5 gap-1 rounded-[var(--radius-md)] bg-white/[0.035] p-1" role="tablist" aria-label="Editing tools">
+          {TOOLS.map(option => {
+            const Icon = option.icon
+            return (
+              <button
+                key={option.value}
+                type="button"
+                role="tab"
+                aria-selected={tool === option.value}
+                disabled={!source}
+                onClick={() => setTool(option.value)}
+                className={cn('flex min-h-12 flex-col items-center justify-center gap-0.5 rounded-[var(--radius-sm)] text-xs disabled:opacity-35', tool === option.value ? 'bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]' : 'text-[var(--text-secondary)]')}
+              >
+                <Icon className="h-4 w-4" />
+                {option.label}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+
+  return typeof document === 'undefined' ? dialog : createPortal(dialog, document.body)
+}
@@ -0,0 +1,355 @@
+export type ImageEditorAspect = 'original' | '1:1' | '4:5' | '3:4' | '16:9' | '9:16'
+export type ImageEditorTool = 'crop' | 'adjust' | 'text' | 'sticker' | 'blur'
+
+export const IMAGE_EDITOR_ASPECTS: Array<{ value: ImageEditorAspect; label: string; ratio: number | null }> = [
+  { value: 'original', label: 'Original', ratio: null },
+  { value: '1:1', label: 'Square', ratio: 1 },
+  { value: '4:5', label: '4:5', ratio: 4 / 5 },
+  { value: '3:4', label: '3:4', ratio: 3 / 4 },
+  { value: '16:9', label: '16:9', ratio: 16 / 9 },
+  { value: '9:16', label: '9:16', ratio: 9 / 16 },
+]
+
+export const IMAGE_EDITOR_STICKERS = ['😂', '🔥', '❤️', '👀', '✨', '🎉', '😎', '🙏', '💯', '👻', '🌙', '⭐']
+export const IMAGE_EDITOR_TEXT_COLORS = ['#ffffff', '#111111', '#f5c542', '#ff5c7a', '#5cc8ff', '#7dff9a']
+
+export const IMAGE_EDITOR_STRAIGHTEN_LIMIT = 15
+export const IMAGE_EDITOR_MAX_ZOOM = 4
+export const IMAGE_EDITOR_ADJUSTMENT_RANGE = { min: 50, max: 150 } as const
+export const IMAGE_EDITOR_TEXT_MAX_LENGTH = 80
+/** Overlay sizes are a fraction of the output's shorter edge. */
+export const IMAGE_EDITOR_OVERLAY_SIZE_RANGE = { min: 0.04, max: 0.4 } as const
+export const IMAGE_EDITOR_BLUR_SIZE_RANGE = { min: 0.08, max: 1 } as const
+/** Long edge of the flattened file; uploads still resize further where they need to. */
+export const IMAGE_EDITOR_EXPORT_MAX_EDGE = 3072
+
+/** Frame-relative points are fractions (0-1) of the cropped output. */
+export interface ImageEditorOverlay {
+  id: string
+  kind: 'text' | 'sticker'
+  content: string
+  x: number
+  y: number
+  size: number
+  color: string
+}
+
+export interface ImageEditorBlurRegion {
+  id: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ImageEditorState {
+  quarterTurns: 0 | 1 | 2 | 3
+  straighten: number
+  aspect: ImageEditorAspect
+  zoom: number
+  /** Crop center as a fraction of the rotated image. Clamped when measured. */
+  centerX: number
+  centerY: number
+  brightness: number
+  contrast: number
+  overlays: ImageEditorOverlay[]
+  blurRegions: ImageEditorBlurRegion[]
+  selectedId: string | null
+  nextItemNumber: number
+}
+
+export type ImageEditorAction =
+  | { type: 'reset' }
+  | { type: 'rotate'; direction: 1 | -1 }
+  | { type: 'set-straighten'; degrees: number }
+  | { type: 'set-aspect'; aspect: ImageEditorAspect }
+  | { type: 'set-zoom'; zoom: number }
+  | { type: 'set-crop-center'; centerX: number; centerY: number }
+  | { type: 'set-adjustment'; key: 'brightness' | 'contrast'; value: number }
+  | { type: 'add-text'; text: string; color: string }
+  | { type: 'add-sticker'; emoji: string }
+  | { type: 'add-blur' }
+  | { type: 'update-overlay'; id: string; patch: Partial<Pick<ImageEditorOverlay, 'x' | 'y' | 'size' | 'color' | 'content'>> }
+  | { type: 'update-blur'; id: string; patch: Partial<Pick<ImageEditorBlurRegion, 'x' | 'y' | 'width' | 'height'>> }
+  | { type: 'move-item'; id: string; x: number; y: number }
+  | { type: 'remove-item'; id: string }
+  | { type: 'select'; id: string | null }
+
+export interface ImageEditorRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export const EDITABLE_IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp'])
+
+/** GIFs would lose their animation and SVGs are not raster images, so both skip the editor. */
+export const canEditImageFile = (file: Pick<File, 'type'>) => EDITABLE_IMAGE_TYPES.has(file.type)
+
+export const createInitialImageEditorState = (): ImageEditorState => ({
+  quarterTurns: 0,
+  straighten: 0,
+  aspect: 'original',
+  zoom: 1,
+  centerX: 0.5,
+  centerY: 0.5,
+  brightness: 100,
+  contrast: 100,
+  overlays: [],
+  blurRegions: [],
+  selectedId: null,
+  nextItemNumber: 1,
+})
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+const clampUnit = (value: number) => clamp(value, 0, 1)
+
+const nextItemId = (state: ImageEditorState) => `edit-${state.nextItemNumber}`
+
+const isValidAspect = (aspect: string): aspect is ImageEditorAspect => (
+  IMAGE_EDITOR_ASPECTS.some(option => option.value === aspect)
+)
+
+export function imageEditorReducer(state: ImageEditorState, action: ImageEditorAction): ImageEditorState {
+  switch (action.type) {
+    case 'reset':
+      return createInitialImageEditorState()
+    case 'rotate':
+      return {
+        ...state,
+        quarterTurns: ((state.quarterTurns + action.direction + 4) % 4) as ImageEditorState['quarterTurns'],
+        centerX: 0.5,
+        centerY: 0.5,
+      }
+    case 'set-straighten':
+      return { ...state, straighten: clamp(action.degrees, -IMAGE_EDITOR_STRAIGHTEN_LIMIT, IMAGE_EDITOR_STRAIGHTEN_LIMIT) }
+    case 'set-aspect':
+      if (!isValidAspect(action.aspect)) return state
+      return { ...state, aspect: action.aspect, zoom: 1, centerX: 0.5, centerY: 0.5 }
+    case 'set-zoom':
+      return { ...state, zoom: clamp(action.zoom, 1, IMAGE_EDITOR_MAX_ZOOM) }
+    case 'set-crop-center':
+      return { ...state, centerX: clampUnit(action.centerX), centerY: clampUnit(action.centerY) }
+    case 'set-adjustment':
+      return {
+        ...state,
+        [action.key]: clamp(Math.round(action.value), IMAGE_EDITOR_ADJUSTMENT_RANGE.min, IMAGE_EDITOR_ADJUSTMENT_RANGE.max),
+      }
+    case 'add-text': {
+      const text = action.text.trim().slice(0, IMAGE_EDITOR_TEXT_MAX_LENGTH)
+      if (!text) return state
+      const id = nextItemId(state)
+      return {
+        ...state,
+        overlays: [...state.overlays, { id, kind: 'text', content: text, x: 0.5, y: 0.5, size: 0.1, color: action.color }],
+        selectedId: id,
+        nextItemNumber: state.nextItemNumber + 1,
+      }
+    }
+    case 'add-sticker': {
+      if (!action.emoji) return state
+      const id = nextItemId(state)
+      return {
+        ...state,
+        overlays: [...state.overlays, { id, kind: 'sticker', content: action.emoji, x: 0.5, y: 0.5, size: 0.18, color: '#ffffff' }],
+        selectedId: id,
+        nextItemNumber: state.nextItemNumber + 1,
+      }
+    }
+    case 'add-blur': {
+      const id = nextItemId(state)
+      return {
+        ...state,
+        blurRegions: [...state.blurRegions, { id, x: 0.5, y: 0.5, width: 0.3, height: 0.2 }],
+        selectedId: id,
+        nextItemNumber: state.nextItemNumber + 1,
+      }
+    }
+    case 'update-overlay':
+      return {
+        ...state,
+        overlays: state.overlays.map(overlay => {
+          if (overlay.id !== action.id) return overlay
+          const next = { ...overlay, ...action.patch }
+          return {
+            ...next,
+            x: clampUnit(next.x),
+            y: clampUnit(next.y),
+            size: clamp(next.size, IMAGE_EDITOR_OVERLAY_SIZE_RANGE.min, IMAGE_EDITOR_OVERLAY_SIZE_RANGE.max),
+            content: next.kind === 'text' ? next.content.slice(0, IMAGE_EDITOR_TEXT_MAX_LENGTH) : next.content,
+          }
+        }),
+      }
+    case 'update-blur':
+      return {
+        ...state,
+        blurRegions: state.blurRegions.map(region => {
+          if (region.id !== action.id) return region
+          const next = { ...region, ...action.patch }
+          return {
+            ...next,
+            x: clampUnit(next.x),
+            y: clampUnit(next.y),
+            width: clamp(next.width, IMAGE_EDITOR_BLUR_SIZE_RANGE.min, IMAGE_EDITOR_BLUR_SIZE_RANGE.max),
+            height: clamp(next.height, IMAGE_EDITOR_BLUR_SIZE_RANGE.min, IMAGE_EDITOR_BLUR_SIZE_RANGE.max),
+          }
+        }),
+      }
+    case 'move-item':
+      if (state.overlays.some(overlay => overlay.id === action.id)) {
+        return imageEditorReducer(state, { type: 'update-overlay', id: action.id, patch: { x: action.x, y: action.y } })
+      }
+      return imageEditorReducer(state, { type: 'update-blur', id: action.id, patch: { x: action.x, y: action.y } })
+    case 'remove-item':
+      return {
+        ...state,
+        overlays: state.overlays.filter(overlay => overlay.id !== action.id),
+        blurRegions: state.blurRegions.filter(region => region.id !== action.id),
+        selectedId: state.selectedId === action.id ? null : state.selectedId,
+      }
+    case 'select':
+      return { ...state, selectedId: action.id }
+    default:
+      return state
+  }
+}
+
+export const isImageEditorPristine = (state: ImageEditorState) => (
+  state.quarterTurns === 0
+  && state.straighten === 0
+  && state.aspect === 'original'
+  && state.zoom === 1
+  && state.brightness === 100
+  && state.contrast === 100
+  && state.overlays.length === 0
+  && state.blurRegions.length === 0
+)
+
+/** Size of the image after quarter turns, before straightening or cropping. */
+export const getRotatedImageSize = (width: number, height: number, quarterTurns: number) => (
+  quarterTurns % 2 === 1 ? { width: height, height: width } : { width, height }
+)
+
+/**
+ * How far the straightened image must grow so its rotated corners still cover
+ * the whole frame; without it the output would show empty wedges.
+ */
+export const getStraightenCoverScale = (width: number, height: number, degrees: number) => {
+  const radians = Math.abs(degrees) * Math.PI / 180
+  if (!radians || !width || !height) return 1
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  return Math.max((width * cos + height * sin) / width, (width * sin + height * cos) / height)
+}
+
+/** The cropped area in rotated-image pixels, with its center kept inside the image. */
+export const getImageEditorCropRect = (
+  sourceWidth: number,
+  sourceHeight: number,
+  state: Pick<ImageEditorState, 'quarterTurns' | 'aspect' | 'zoom' | 'centerX' | 'centerY'>
+): ImageEditorRect => {
+  const frame = getRotatedImageSize(sourceWidth, sourceHeight, state.quarterTurns)
+  const ratio = IMAGE_EDITOR_ASPECTS.find(option => option.value === state.aspect)?.ratio ?? frame.width / frame.height
+  const fitted = frame.width / frame.height > ratio
+    ? { width: frame.height * ratio, height: frame.height }
+    : { width: frame.width, height: frame.width / ratio }
+  const width = fitted.width / state.zoom
+  const height = fitted.height / state.zoom
+  const centerX = clamp(state.centerX * frame.width, width / 2, frame.width - width / 2)
+  const centerY = clamp(state.centerY * frame.height, height / 2, frame.height - height / 2)
+  return { x: centerX - width / 2, y: centerY - height / 2, width, height }
+}
+
+export const getImageEditorOutputSize = (crop: Pick<ImageEditorRect, 'width' | 'height'>, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(crop.width, crop.height))
+  return {
+    width: Math.max(1, Math.round(crop.width * scale)),
+    height: Math.max(1, Math.round(crop.height * scale)),
+  }
+}
+
+/**
+ * Pan the crop by a drag measured in output fractions. Starting from the
+ * clamped rect keeps a drag past the edge from banking hidden offset.
+ */
+export const panImageEditorCrop = (
+  sourceWidth: number,
+  sourceHeight: number,
+  state: ImageEditorState,
+  deltaX: number,
+  deltaY: number
+) => {
+  const frame = getRotatedImageSize(sourceWidth, sourceHeight, state.quarterTurns)
+  const crop = getImageEditorCropRect(sourceWidth, sourceHeight, state)
+  return {
+    centerX: (crop.x + crop.width / 2 - deltaX * crop.width) / frame.width,
+    centerY: (crop.y + crop.height / 2 - deltaY * crop.height) / frame.height,
+  }
+}
+
+/** Overlay box in output fractions, sized from the output's shorter edge. */
+export const getImageEditorOverlayBounds = (overlay: ImageEditorOverlay, outputAspect: number): ImageEditorRect => {
+  const shortEdge = Math.min(1, outputAspect)
+  const heightUnits = overlay.size * shortEdge
+  const widthUnits = overlay.kind === 'text'
+    ? heightUnits * Math.max(1, overlay.content.length * 0.58)
+    : heightUnits * 1.2
+  const width = widthUnits / outputAspect
+  const height = heightUnits
+  return { x: overlay.x - width / 2, y: overlay.y - height / 2, width, height }
+}
+
+export const getImageEditorBlurBounds = (region: ImageEditorBlurRegion): ImageEditorRect => ({
+  x: region.x - region.width / 2,
+  y: region.y - region.height / 2,
+  width: region.width,
+  height: region.height,
+})
+
+const containsPoint = (rect: ImageEditorRect, x: number, y: number) => (
+  x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height
+)
+
+/** Topmost overlay or blur region under a point; overlays draw above blurs. */
+export const findImageEditorItemAt = (state: ImageEditorState, x: number, y: number, outputAspect: number) => {
+  for (let index = state.overlays.length - 1; index >= 0; index -= 1) {
+    const overlay = state.overlays[index]
+    if (containsPoint(getImageEditorOverlayBounds(overlay, outputAspect), x, y)) return overlay.id
+  }
+  for (let index = state.blurRegions.length - 1; index >= 0; index -= 1) {
+    const region = state.blurRegions[index]
+    if (containsPoint(getImageEditorBlurBounds(region), x, y)) return region.id
+  }
+  return null
+}
+
+/**
+ * Brightness then contrast, matching the CSS filter functions of the same
+ * names. Done on pixels because canvas filters are missing in older Safari.
+ */
+export const applyImageEditorAdjustments = (data: Uint8ClampedArray, brightness: number, contrast: number) => {
+  if (brightness === 100 && contrast === 100) return data
+  const brightnessFactor = brightness / 100
+  const contrastFactor = contrast / 100
+  const intercept = 128 * (1 - contrastFactor)
+  for (let index = 0; index < data.length; index += 4) {
+    data[index] = data[index] * brightnessFactor * contrastFactor + intercept
+    data[index + 1] = data[index + 1] * brightnessFactor * contrastFactor + intercept
+    data[index + 2] = data[index + 2] * brightnessFactor * contrastFactor + intercept
+  }
+  return data
+}
+
+export const getEditedImageOutputType = (file: Pick<File, 'type'>): 'image/png' | 'image/jpeg' => (
+  file.type === 'image/png' ? 'image/png' : 'image/jpeg'
+)
+
+export const getEditedImageFileName = (file: Pick<File, 'name'>, type: string) => {
+  const baseName = (file.name || 'image')
+    .replace(/\.[^.]+$/, '')
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'image'
+  return `${baseName}-edited.${type === 'image/png' ? 'png' : 'jpg'}`
+}
@@ -0,0 +1,160 @@
+import { canvasToBlob, loadImage } from '../../lib/imageOptimization'
+import {
+  IMAGE_EDITOR_EXPORT_MAX_EDGE,
+  applyImageEditorAdjustments,
+  getEditedImageFileName,
+  getEditedImageOutputType,
+  getImageEditorBlurBounds,
+  getImageEditorCropRect,
+  getImageEditorOutputSize,
+  getRotatedImageSize,
+  getStraightenCoverScale,
+  isImageEditorPristine,
+  type ImageEditorRect,
+  type ImageEditorState,
+} from './imageEditorModel'
+
+export type ImageEditorSource = {
+  image: CanvasImageSource
+  width: number
+  height: number
+}
+
+const EXPORT_QUALITY = 0.92
+
+export const loadImageEditorSource = async (file: File): Promise<ImageEditorSource> => {
+  const image = await loadImage(file)
+  if (!image?.naturalWidth || !image.naturalHeight) {
+    throw new Error('This image could not be opened for editing.')
+  }
+  return { image, width: image.naturalWidth, height: image.naturalHeight }
+}
+
+/**
+ * Shared images arrive as URLs. Fetching them turns the bytes into a local
+ * file; hosts that refuse cross-origin reads cannot be edited.
+ */
+export const fetchImageFileForEditing = async (url: string, fileName = 'shared-image') => {
+  const response = await fetch(url, { mode: 'cors', credentials: 'omit' })
+  if (!response.ok) throw new Error('This image could not be opened for editing.')
+  const blob = await response.blob()
+  const type = blob.type.split(';', 1)[0].trim().toLowerCase()
+  if (!type.startsWith('image/')) throw new Error('This link is not an image.')
+  const extension = type === 'image/png' ? 'png' : type === 'image/webp' ? 'webp' : type === 'image/gif' ? 'gif' : 'jpg'
+  return new File([blob], `${fileName}.${extension}`, { type })
+}
+
+/**
+ * A heavy blur from a downscale and a smoothed upscale. The small pass throws
+ * the detail away, so the covered text or face cannot be sharpened back.
+ */
+const blurRegion = (context: CanvasRenderingContext2D, rect: ImageEditorRect) => {
+  if (rect.width < 2 || rect.height < 2) return
+  const scratch = document.createElement('canvas')
+  scratch.width = Math.max(1, Math.round(rect.width / 24))
+  scratch.height = Math.max(1, Math.round(rect.height / 24))
+  const scratchContext = scratch.getContext('2d')
+  if (!scratchContext) return
+  scratchContext.imageSmoothingEnabled = true
+  scratchContext.drawImage(context.canvas, rect.x, rect.y, rect.width, rect.height, 0, 0, scratch.width, scratch.height)
+  context.save()
+  context.imageSmoothingEnabled = true
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(scratch, 0, 0, scratch.width, scratch.height, rect.x, rect.y, rect.width, rect.height)
+  context.restore()
+}
+
+/** Draw the edited image into `canvas`, sized so its long edge fits `maxEdge`. */
+export const drawImageEditorScene = (
+  canvas: HTMLCanvasElement,
+  source: ImageEditorSource,
+  state: ImageEditorState,
+  maxEdge: number,
+  fill?: string
+) => {
+  const crop = getImageEditorCropRect(source.width, source.height, state)
+  const output = getImageEditorOutputSize(crop, maxEdge)
+  canvas.width = output.width
+  canvas.height = output.height
+  const context = canvas.getContext('2d')
+  if (!context) return null
+
+  if (fill) {
+    context.fillStyle = fill
+    context.fillRect(0, 0, output.width, output.height)
+  }
+
+  const frame = getRotatedImageSize(source.width, source.height, state.quarterTurns)
+  const coverScale = getStraightenCoverScale(frame.width, frame.height, state.straighten)
+  context.save()
+  context.scale(output.width / crop.width, output.height / crop.height)
+  context.translate(-crop.x, -crop.y)
+  context.translate(frame.width / 2, frame.height / 2)
+  context.rotate((state.quarterTurns * 90 + state.straighten) * Math.PI / 180)
+  context.scale(coverScale, coverScale)
+  context.drawImage(source.image, -source.width / 2, -source.height / 2, source.width, source.height)
+  context.restore()
+
+  if (state.brightness !== 100 || state.contrast !== 100) {
+    const pixels = context.getImageData(0, 0, output.width, output.height)
+    applyImageEditorAdjustments(pixels.data, state.brightness, state.contrast)
+    context.putImageData(pixels, 0, 0)
+  }
+
+  for (const region of state.blurRegions) {
+    const bounds = getImageEditorBlurBounds(region)
+    const x = Math.max(0, Math.round(bounds.x * output.width))
+    const y = Math.max(0, Math.round(bounds.y * output.height))
+    const right = Math.min(output.width, Math.round((bounds.x + bounds.width) * output.width))
+    const bottom = Math.min(output.height, Math.round((bounds.y + bounds.height) * output.height))
+    blurRegion(context, { x, y, width: right - x, height: bottom - y })
+  }
+
+  const shortEdge = Math.min(output.width, output.height)
+  context.textAlign = 'center'
+  context.textBaseline = 'middle'
+  for (const overlay of state.overlays) {
+    const fontSize = Math.max(8, Math.round(overlay.size * shortEdge))
+    const x = overlay.x * output.width
+    const y = overlay.y * output.height
+    context.font = `700 ${fontSize}px system-ui, -apple-system, "Segoe UI", sans-serif`
+    if (overlay.kind === 'text') {
+      context.lineJoin = 'round'
+      context.lineWidth = Math.max(2, fontSize / 8)
+      context.strokeStyle = overlay.color === '#111111' ? 'rgba(255,255,255,0.75)' : 'rgba(0,0,0,0.6)'
+      context.strokeText(overlay.content, x, y)
+      context.fillStyle = overlay.color
+    } else {
+      context.fillStyle = '#ffffff'
+    }
+    context.fillText(overlay.content, x, y)
+  }
+
+  return output
+}
+
+/**
+ * Flatten every edit into a new file. An untouched image comes back as the
+ * original file so it keeps its bytes and name.
+ */
+export const exportEditedImageFile = async (
+  file: File,
+  source: ImageEditorSource,
+  state: ImageEditorState
+) => {
+  if (isImageEditorPristine(state)) return file
+  const outputType = getEditedImageOutputType(file)
+  const canvas = document.createElement('canvas')
+  const output = drawImageEditorScene(
+    canvas,
+    source,
+    state,
+    IMAGE_EDITOR_EXPORT_MAX_EDGE,
+    outputType === 'image/jpeg' ? '#0d0f10' : undefined
+  )
+  if (!output) throw new Error('This browser could not save the edited image.')
+  const blob = await canvasToBlob(canvas, outputType, EXPORT_QUALITY)
+  if (!blob) throw new Error('This browser could not save the edited image.')
+  const type = blob.type || outputType
+  return new File([blob], getEditedImageFileName(file, type), { type })
+}
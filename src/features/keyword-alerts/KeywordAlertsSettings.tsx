@@ -0,0 +1,135 @@
+import { useState, type FormEvent } from 'react'
+import { Tags, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '../../components/ui/Button'
+import { cn } from '../../lib/utils'
+import { KEYWORD_ALERT_LIMIT, KEYWORD_ALERT_MAX_LENGTH, getKeywordAlertPhraseError } from './keywordAlertsModel'
+import { useKeywordAlerts } from './useKeywordAlerts'
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback
+
+export function KeywordAlertsSettings({ paused = false }: { paused?: boolean }) {
+  const { alerts, loading, add, setEnabled, remove } = useKeywordAlerts()
+  const [draft, setDraft] = useState('')
+  const [saving, setSaving] = useState(false)
+  const atLimit = alerts.length >= KEYWORD_ALERT_LIMIT
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const phraseError = getKeywordAlertPhraseError(draft)
+    if (phraseError) {
+      toast.error(phraseError)
+      return
+    }
+    setSaving(true)
+    try {
+      await add(draft)
+      setDraft('')
+    } catch (error) {
+      toast.error(errorMessage(error, 'The keyword alert could not be saved.'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = (alertId: string, enabled: boolean) => {
+    void setEnabled(alertId, enabled).catch(error => {
+      toast.error(errorMessage(error, 'The keyword alert could not be updated.'))
+    })
+  }
+
+  const handleRemove = (alertId: string) => {
+    void remove(alertId).catch(error => {
+      toast.error(errorMessage(error, 'The keyword alert could not be removed.'))
+    })
+  }
+
+  return (
+    <section className="glass-panel min-w-0 rounded-[var(--radius-lg)] p-4 sm:p-5" aria-labelledby="keyword-alerts-title">
+      <div className="flex items-start gap-3">
+        <span className="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full border border-[rgba(215,170,70,0.2)] bg-[rgba(215,170,70,0.08)] text-[var(--text-gold)]">
+          <Tags className="h-5 w-5" aria-hidden="true" />
+        </span>
+        <div className="min-w-0">
+          <h3 id="keyword-alerts-title" className="font-semibold text-[var(--text-primary)]">Keyword alerts</h3>
+          <p className="mt-1 text-sm leading-6 text-[var(--text-muted)]">
+            Get a mention-style alert when a General Chat or thread message contains one of your words or phrases. Matching ignores case and only counts whole words; end a word with * to match the rest of it, like deploy*.
+          </p>
+        </div>
+      </div>
+
+      {paused && (
+        <p className="mt-4 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] px-3 py-2 text-xs text-[var(--text-muted)]">
+          Keyword alerts are off. Matching messages are still highlighted in chat.
+        </p>
+      )}
+
+      <form className="mt-4 flex flex-col gap-2 sm:flex-row" onSubmit={event => void handleSubmit(event)}>
+        <label className="min-w-0 flex-1">
+          <span className="sr-only">New keyword or phrase</span>
+          <input
+            type="text"
+            value={draft}
+            maxLength={KEYWORD_ALERT_MAX_LENGTH}
+            disabled={atLimit || saving}
+            onChange={event => setDraft(event.target.value)}
+            placeholder={atLimit ? `All ${KEYWORD_ALERT_LIMIT} keyword alerts are in use` : 'Add a word or phrase'}
+            className="obsidian-input min-h-11 w-full rounded-[var(--radius-md)] px-3.5 py-2.5 text-base"
+          />
+        </label>
+        <Button type="submit" size="sm" variant="secondary" disabled={atLimit || saving || !draft.trim()} className="justify-center">
+          Add alert
+        </Button>
+      </form>
+
+      {loading && alerts.length === 0 ? (
+        <p className="mt-4 text-sm text-[var(--text-muted)]">Loading keyword alerts...</p>
+      ) : alerts.length === 0 ? (
+        <p className="mt-4 rounded-[var(--radius-md)] border border-dashed border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] px-4 py-4 text-sm text-[var(--text-muted)]">
+          No keyword alerts yet.
+        </p>
+      ) : (
+        <ul className="mt-4 space-y-2" aria-label="Keyword alerts">
+          {alerts.map(alert => (
+            <li
+              key={alert.id}
+              className="flex min-w-0 items-center gap-3 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.03)] px-3 py-2"
+            >
+              <span className={cn(
+                'min-w-0 flex-1 truncate text-sm font-medium',
+                alert.enabled ? 'text-[var(--text-primary)]' : 'text-[var(--text-muted)] line-through'
+              )}>
+                {alert.phrase}
+              </span>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={alert.enabled}
+                aria-label={`Alert for ${alert.phrase}`}
+                onClick={() => handleToggle(alert.id, !alert.enabled)}
+                className={cn(
+                  'min-h-11 rounded-[var(--radius-sm)] border px-3 text-xs font-semibold transition-[background-color,border-color,color]',
+                  alert.enabled
+                    ? 'border-[var(--border-glow)] bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]'
+                    : 'border-[var(--border-subtle)] bg-[rgba(0,0,0,0.18)] text-[var(--text-secondary)]'
+                )}
+              >
+                {alert.enabled ? 'On' : 'Off'}
+              </button>
+              <button
+                type="button"
+                aria-label={`Remove ${alert.phrase}`}
+                onClick={() => handleRemove(alert.id)}
+                className="inline-flex h-11 w-11 items-center justify-center rounded-[var(--radius-sm)] text-[var(--text-muted)] transition-colors hover:text-[var(--text-primary)]"
+              >
+                <Trash2 className="h-4 w-4" aria-hidden="true" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="mt-3 text-xs text-[var(--text-muted)]">{alerts.length} of {KEYWORD_ALERT_LIMIT} used</p>
+    </section>
+  )
+}
@@ -0,0 +1,58 @@
+import { getWorkingClient } from '../../lib/supabase'
+import { normalizeKeywordAlert, normalizeKeywordAlertPhrase, type KeywordAlert } from './keywordAlertsModel'
+
+const KEYWORD_ALERT_SELECT = 'id, phrase, enabled, created_at'
+
+const toKeywordAlert = (row: unknown) => {
+  const alert = normalizeKeywordAlert(row)
+  if (!alert) throw new Error('The keyword alert could not be saved.')
+  return alert
+}
+
+export const fetchKeywordAlerts = async (userId: string): Promise<KeywordAlert[]> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('notification_keyword_alerts')
+    .select(KEYWORD_ALERT_SELECT)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return ((data ?? []) as unknown[])
+    .map(normalizeKeywordAlert)
+    .filter((alert): alert is KeywordAlert => alert !== null)
+}
+
+export const createKeywordAlert = async (userId: string, phrase: string) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('notification_keyword_alerts')
+    .insert({ user_id: userId, phrase: normalizeKeywordAlertPhrase(phrase) })
+    .select(KEYWORD_ALERT_SELECT)
+    .single()
+  if (error) {
+    if (error.code === '23505') throw new Error('You already have an alert for that keyword.')
+    throw error
+  }
+  return toKeywordAlert(data)
+}
+
+export const setKeywordAlertEnabled = async (alertId: string, enabled: boolean) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('notification_keyword_alerts')
+    .update({ enabled })
+    .eq('id', alertId)
+    .select(KEYWORD_ALERT_SELECT)
+    .single()
+  if (error) throw error
+  return toKeywordAlert(data)
+}
+
+export const deleteKeywordAlert = async (alertId: string) => {
+  const client = await getWorkingClient()
+  const { error } = await client
+    .from('notification_keyword_alerts')
+    .delete()
+    .eq('id', alertId)
+  if (error) throw error
+}
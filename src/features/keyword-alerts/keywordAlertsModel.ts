@@ -0,0 +1,35 @@
+export {
+  KEYWORD_ALERT_LIMIT,
+  KEYWORD_ALERT_MAX_LENGTH,
+  findKeywordAlertMatch,
+  getKeywordAlertPhraseError,
+  normalizeKeywordAlertPhrase,
+} from '../../../supabase/functions/_shared/keyword-alerts'
+
+export interface KeywordAlert {
+  id: string
+  phrase: string
+  enabled: boolean
+  createdAt: string
+}
+
+const asString = (value: unknown) => typeof value === 'string' && value ? value : null
+
+export const normalizeKeywordAlert = (value: unknown): KeywordAlert | null => {
+  if (!value || typeof value !== 'object') return null
+  const row = value as Record<string, unknown>
+  const id = asString(row.id)
+  const phrase = asString(row.phrase)
+  if (!id || !phrase) return null
+
+  return {
+    id,
+    phrase,
+    enabled: row.enabled !== false,
+    createdAt: asString(row.created_at) ?? '',
+  }
+}
+
+/** Phrases that should light up messages, in the order the member added them. */
+export const getActiveKeywordAlertPhrases = (alerts: readonly KeywordAlert[]) =>
+  alerts.filter(alert => alert.enabled).map(alert => alert.phrase)
@@ -0,0 +1,118 @@
+import {
+  createKeywordAlert,
+  deleteKeywordAlert,
+  fetchKeywordAlerts,
+  setKeywordAlertEnabled,
+} from './keywordAlertsApi'
+import {
+  KEYWORD_ALERT_LIMIT,
+  getActiveKeywordAlertPhrases,
+  getKeywordAlertPhraseError,
+  normalizeKeywordAlertPhrase,
+  type KeywordAlert,
+} from './keywordAlertsModel'
+
+export interface KeywordAlertsSnapshot {
+  userId: string | null
+  alerts: KeywordAlert[]
+  phrases: string[]
+  loaded: boolean
+}
+
+type Listener = () => void
+
+const EMPTY_SNAPSHOT: KeywordAlertsSnapshot = { userId: null, alerts: [], phrases: [], loaded: false }
+
+const listeners = new Set<Listener>()
+let snapshot = EMPTY_SNAPSHOT
+let pendingLoad: { userId: string; request: Promise<void> } | null = null
+
+const emit = () => listeners.forEach(listener => listener())
+
+const setAlerts = (userId: string, alerts: KeywordAlert[]) => {
+  snapshot = { userId, alerts, phrases: getActiveKeywordAlertPhrases(alerts), loaded: true }
+  emit()
+}
+
+export const subscribeToKeywordAlerts = (listener: Listener) => {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+export const getKeywordAlertsSnapshot = () => snapshot
+
+/**
+ * Every chat message reads the same list, so it is fetched once per member
+ * and shared. A failed load leaves highlights off rather than retrying per
+ * message.
+ */
+export const loadKeywordAlerts = (userId: string, force = false) => {
+  if (!force && snapshot.userId === userId && snapshot.loaded) return Promise.resolve()
+  if (!force && pendingLoad?.userId === userId) return pendingLoad.request
+
+  if (snapshot.userId !== userId) {
+    snapshot = { ...EMPTY_SNAPSHOT, userId }
+    emit()
+  }
+  const request = fetchKeywordAlerts(userId)
+    .then(alerts => {
+      if (snapshot.userId === userId) setAlerts(userId, alerts)
+    })
+    .catch(error => {
+      console.warn('Keyword alerts unavailable', error)
+    })
+    .finally(() => {
+      if (pendingLoad?.request === request) pendingLoad = null
+    })
+  pendingLoad = { userId, request }
+  return request
+}
+
+export const addKeywordAlert = async (userId: string, value: string) => {
+  const phraseError = getKeywordAlertPhraseError(value)
+  if (phraseError) throw new Error(phraseError)
+  const phrase = normalizeKeywordAlertPhrase(value)
+  const current = snapshot.userId === userId ? snapshot.alerts : []
+  if (current.some(alert => normalizeKeywordAlertPhrase(alert.phrase) === phrase)) {
+    throw new Error('You already have an alert for that keyword.')
+  }
+  if (current.length >= KEYWORD_ALERT_LIMIT) {
+    throw new Error(`You can have up to ${KEYWORD_ALERT_LIMIT} keyword alerts.`)
+  }
+
+  const created = await createKeywordAlert(userId, phrase)
+  if (snapshot.userId === userId) setAlerts(userId, [...snapshot.alerts, created])
+  return created
+}
+
+export const updateKeywordAlertEnabled = async (alertId: string, enabled: boolean) => {
+  const { userId, alerts } = snapshot
+  if (!userId) return
+  setAlerts(userId, alerts.map(alert => alert.id === alertId ? { ...alert, enabled } : alert))
+  try {
+    const saved = await setKeywordAlertEnabled(alertId, enabled)
+    if (snapshot.userId === userId) {
+      setAlerts(userId, snapshot.alerts.map(alert => alert.id === alertId ? saved : alert))
+    }
+  } catch (error) {
+    if (snapshot.userId === userId) setAlerts(userId, alerts)
+    throw error
+  }
+}
+
+export const removeKeywordAlert = async (alertId: string) => {
+  const { userId, alerts } = snapshot
+  if (!userId) return
+  setAlerts(userId, alerts.filter(alert => alert.id !== alertId))
+  try {
+    await deleteKeywordAlert(alertId)
+  } catch (error) {
+    if (snapshot.userId === userId) setAlerts(userId, alerts)
+    throw error
+  }
+}
+
+export const resetKeywordAlertsStoreForTests = () => {
+  snapshot = EMPTY_SNAPSHOT
+  pendingLoad = null
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { useAuth } from '../../hooks/useAuth'
+import {
+  addKeywordAlert,
+  getKeywordAlertsSnapshot,
+  loadKeywordAlerts,
+  removeKeywordAlert,
+  subscribeToKeywordAlerts,
+  updateKeywordAlertEnabled,
+} from './keywordAlertsStore'
+import { findKeywordAlertMatch } from './keywordAlertsModel'
+
+const useKeywordAlertsSnapshot = (userId: string | null | undefined) => {
+  const snapshot = useSyncExternalStore(
+    subscribeToKeywordAlerts,
+    getKeywordAlertsSnapshot,
+    getKeywordAlertsSnapshot,
+  )
+
+  useEffect(() => {
+    if (userId) void loadKeywordAlerts(userId)
+  }, [userId])
+
+  return snapshot.userId === userId ? snapshot : null
+}
+
+export function useKeywordAlerts() {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const snapshot = useKeywordAlertsSnapshot(userId)
+
+  const add = useCallback(async (phrase: string) => {
+    if (!userId) throw new Error('Sign in to manage keyword alerts.')
+    return addKeywordAlert(userId, phrase)
+  }, [userId])
+
+  return {
+    alerts: snapshot?.alerts ?? [],
+    loading: Boolean(userId) && !snapshot?.loaded,
+    add,
+    setEnabled: updateKeywordAlertEnabled,
+    remove: removeKeywordAlert,
+  }
+}
+
+/**
+ * The phrase a message matched for the signed-in member, or null. Own
+ * messages never match, the same rule send-push applies before notifying.
+ */
+export function useKeywordAlertMatch(
+  userId: string | null | undefined,
+  content: string | null | undefined,
+  disabled = false,
+) {
+  const snapshot = useKeywordAlertsSnapshot(disabled ? null : userId)
+  const phrases = snapshot?.phrases
+
+  return useMemo(
+    () => (phrases?.length ? findKeywordAlertMatch(content, phrases) : null),
+    [content, phrases],
+  )
+}
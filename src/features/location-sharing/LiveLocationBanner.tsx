@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react'
+import { Navigation } from 'lucide-react'
+import { showActionErrorToast } from '../../lib/toastNotifications'
+import { listMyActiveLiveLocations } from './locationSharingApi'
+import { startLiveLocationTracking, stopSharingLiveLocation } from './liveLocationStore'
+import { useTrackedLiveLocationIds } from './useMessageLocation'
+import {
+  MESSAGE_LOCATION_CHANGED_EVENT,
+  formatLiveLocationRemaining,
+  getLiveLocationStatus,
+  type MessageLocation,
+  type MessageLocationChangedDetail,
+} from './locationModel'
+
+type LiveLocationBannerProps = {
+  conversationId: string
+  userId?: string | null
+}
+
+/**
+ * Keeps an active live share visible above the composer, including after a
+ * reload when this device is no longer sending updates.
+ */
+export function LiveLocationBanner({ conversationId, userId }: LiveLocationBannerProps) {
+  const [locations, setLocations] = useState<MessageLocation[]>([])
+  const trackedIds = useTrackedLiveLocationIds()
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    listMyActiveLiveLocations(userId)
+      .then(next => { if (!cancelled) setLocations(next) })
+      .catch(() => { if (!cancelled) setLocations([]) })
+
+    const handleChange = (event: Event) => {
+      const changed = (event as CustomEvent<MessageLocationChangedDetail>).detail?.location
+      if (!changed || changed.senderId !== userId || !changed.liveUntil) return
+      setLocations(current => [changed, ...current.filter(location => location.id !== changed.id)])
+    }
+    window.addEventListener(MESSAGE_LOCATION_CHANGED_EVENT, handleChange)
+    return () => {
+      cancelled = true
+      window.removeEventListener(MESSAGE_LOCATION_CHANGED_EVENT, handleChange)
+    }
+  }, [userId])
+
+  const hasLocations = locations.length > 0
+  useEffect(() => {
+    if (!hasLocations) return
+    const timer = window.setInterval(() => setNow(Date.now()), 30_000)
+    return () => window.clearInterval(timer)
+  }, [hasLocations])
+
+  const active = locations.find(location => (
+    location.conversationId === conversationId && getLiveLocationStatus(location, now) === 'live'
+  ))
+  if (!active?.liveUntil) return null
+
+  const tracking = trackedIds.has(active.id)
+
+  const resume = () => {
+    try {
+      startLiveLocationTracking(active)
+    } catch (caught) {
+      showActionErrorToast(caught instanceof Error ? caught.message : 'Unable to resume live location')
+    }
+  }
+
+  const stop = async () => {
+    try {
+      await stopSharingLiveLocation(active.id)
+    } catch {
+      showActionErrorToast('Failed to stop sharing location')
+    }
+  }
+
+  return (
+    <div
+      role="status"
+      className="flex items-center gap-2 border-t border-[var(--border-panel)] bg-[var(--theme-accent-softer)] px-4 py-2 text-xs text-[var(--text-secondary)]"
+    >
+      <Navigation className="h-3.5 w-3.5 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+      <span className="min-w-0 flex-1 truncate">
+        {tracking ? 'Sharing live location' : 'Live location paused on this device'}
+        {' · '}
+        {formatLiveLocationRemaining(active.liveUntil, now)}
+      </span>
+      {!tracking && (
+        <button
+          type="button"
+          onClick={resume}
+          className="font-semibold text-[var(--theme-accent-readable)] hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent-border)]"
+        >
+          Resume
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={() => void stop()}
+        className="font-semibold text-[var(--theme-accent-readable)] hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent-border)]"
+      >
+        Stop sharing
+      </button>
+    </div>
+  )
+}
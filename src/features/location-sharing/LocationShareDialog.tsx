@@ -0,0 +1,251 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { Bookmark, LocateFixed, MapPin, Navigation, Search, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '../../components/ui/Button'
+import { useDialogAccessibility } from '../../hooks/useDialogAccessibility'
+import { cn } from '../../lib/utils'
+import {
+  fetchSavedWeatherLocations,
+  getWeatherLocationLabel,
+  searchWeatherLocations,
+  type SavedWeatherLocation,
+  type WeatherLocationResult,
+} from '../../lib/weather'
+import { getCurrentDevicePosition, startLiveLocationTracking } from './liveLocationStore'
+import {
+  LIVE_LOCATION_DURATIONS,
+  savedWeatherLocationToDraft,
+  weatherLocationToDraft,
+  type MessageLocation,
+  type MessageLocationDraft,
+} from './locationModel'
+
+type LocationShareDialogProps = {
+  open: boolean
+  onClose: () => void
+  userId?: string | null
+  onShare: (draft: MessageLocationDraft) => Promise<MessageLocation | null>
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * Picks a place to send: the device's position, a live position for a chosen
+ * duration, or a place found through the weather location search and saved
+ * weather places.
+ */
+export function LocationShareDialog({ open, onClose, userId, onShare }: LocationShareDialogProps) {
+  const titleId = useId()
+  const searchRef = useRef<HTMLInputElement>(null)
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<WeatherLocationResult[]>([])
+  const [searching, setSearching] = useState(false)
+  const [savedLocations, setSavedLocations] = useState<SavedWeatherLocation[]>([])
+  const [liveMinutes, setLiveMinutes] = useState<number>(LIVE_LOCATION_DURATIONS[0].minutes)
+  const [busy, setBusy] = useState<'current' | 'live' | 'place' | null>(null)
+
+  const dialogRef = useDialogAccessibility<HTMLDivElement>({
+    open,
+    onClose,
+    initialFocusRef: searchRef,
+  })
+
+  useEffect(() => {
+    if (!open) {
+      setQuery('')
+      setResults([])
+      setBusy(null)
+      return
+    }
+    if (!userId) return
+    let cancelled = false
+    fetchSavedWeatherLocations(userId)
+      .then(locations => { if (!cancelled) setSavedLocations(locations) })
+      .catch(() => { if (!cancelled) setSavedLocations([]) })
+    return () => { cancelled = true }
+  }, [open, userId])
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (trimmed.length < 2) {
+      setResults([])
+      setSearching(false)
+      return
+    }
+    let cancelled = false
+    setSearching(true)
+    const timer = window.setTimeout(() => {
+      searchWeatherLocations(trimmed)
+        .then(next => { if (!cancelled) setResults(next) })
+        .catch(() => { if (!cancelled) setResults([]) })
+        .finally(() => { if (!cancelled) setSearching(false) })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [query])
+
+  if (!open) return null
+
+  const share = async (kind: 'current' | 'live' | 'place', getDraft: () => Promise<MessageLocationDraft>) => {
+    if (busy) return
+    setBusy(kind)
+    try {
+      const location = await onShare(await getDraft())
+      if (!location) return
+      if (kind === 'live') startLiveLocationTracking(location)
+      onClose()
+    } catch (caught) {
+      toast.error(caught instanceof Error && caught.message ? caught.message : 'Unable to share location')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const shareCurrent = (live: boolean) => share(live ? 'live' : 'current', async () => ({
+    ...(await getCurrentDevicePosition()),
+    label: null,
+    liveMinutes: live ? liveMinutes : null,
+  }))
+
+  const placeButtonClass = 'flex w-full items-center gap-2 rounded-[var(--radius-md)] px-3 py-2 text-left text-sm text-[var(--text-secondary)] transition-colors hover:bg-[rgba(255,255,255,0.05)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)] disabled:opacity-60'
+
+  const dialog = (
+    <div
+      role="presentation"
+      className="fixed inset-0 z-[160] flex items-end justify-center bg-[rgba(0,0,0,0.7)] backdrop-blur-sm sm:items-center sm:p-4"
+      onPointerDown={event => {
+        if (event.target === event.currentTarget) onClose()
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        data-testid="location-share-dialog"
+        className="glass-panel-strong flex max-h-[85dvh] w-full min-w-0 flex-col overflow-hidden rounded-t-[var(--radius-xl)] border border-[var(--border-panel)] shadow-[var(--shadow-panel-strong)] sm:max-w-md sm:rounded-[var(--radius-xl)]"
+      >
+        <header className="flex items-center gap-3 border-b border-[var(--border-panel)] px-4 py-3">
+          <MapPin className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          <h2 id={titleId} className="min-w-0 flex-1 truncate text-base font-semibold text-[var(--text-primary)]">
+            Share location
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close share location"
+            className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-[var(--border-subtle)] text-[var(--text-secondary)] hover:border-[var(--border-glow)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </header>
+        <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-4 py-4 text-sm">
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            loading={busy === 'current'}
+            disabled={Boolean(busy)}
+            onClick={() => void shareCurrent(false)}
+            className="w-full gap-2"
+          >
+            <LocateFixed className="h-4 w-4" aria-hidden="true" />
+            Send current location
+          </Button>
+
+          <fieldset className="space-y-2 rounded-[var(--radius-md)] border border-[var(--border-subtle)] p-3">
+            <legend className="px-1 text-xs font-semibold text-[var(--text-secondary)]">Live location</legend>
+            <div role="radiogroup" aria-label="Share live location for" className="flex gap-1.5">
+              {LIVE_LOCATION_DURATIONS.map(duration => (
+                <button
+                  key={duration.minutes}
+                  type="button"
+                  role="radio"
+                  aria-checked={liveMinutes === duration.minutes}
+                  onClick={() => setLiveMinutes(duration.minutes)}
+                  className={cn(
+                    'min-h-9 flex-1 rounded-full border px-2 text-xs transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]',
+                    liveMinutes === duration.minutes
+                      ? 'border-[var(--theme-accent-border)] bg-[var(--theme-accent-soft)] text-[var(--text-primary)]'
+                      : 'border-[var(--border-subtle)] text-[var(--text-secondary)] hover:border-[var(--border-glow)]'
+                  )}
+                >
+                  {duration.label}
+                </button>
+              ))}
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              loading={busy === 'live'}
+              disabled={Boolean(busy)}
+              onClick={() => void shareCurrent(true)}
+              className="w-full gap-2"
+            >
+              <Navigation className="h-4 w-4" aria-hidden="true" />
+              Share live location
+            </Button>
+            <p className="text-xs leading-5 text-[var(--text-muted)]">
+              Your pin moves while ShadowChat is open on this device and stops on its own when the time runs out. You can stop sharing at any time.
+            </p>
+          </fieldset>
+
+          <div className="space-y-2">
+            <label htmlFor={`${titleId}-search`} className="flex items-center gap-2 text-xs font-semibold text-[var(--text-secondary)]">
+              <Search className="h-3.5 w-3.5" aria-hidden="true" />
+              Send a place
+            </label>
+            <input
+              ref={searchRef}
+              id={`${titleId}-search`}
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder="Search cities and towns"
+              className="obsidian-input min-h-10 w-full rounded-[var(--radius-sm)] px-3 text-sm text-[var(--text-primary)]"
+            />
+            {searching && <p className="text-xs text-[var(--text-muted)]" role="status">Searching...</p>}
+            {results.length > 0 && (
+              <ul aria-label="Search results" className="space-y-0.5">
+                {results.map(result => (
+                  <li key={`${result.id}-${result.latitude}-${result.longitude}`}>
+                    <button
+                      type="button"
+                      disabled={Boolean(busy)}
+                      onClick={() => void share('place', async () => weatherLocationToDraft(result))}
+                      className={placeButtonClass}
+                    >
+                      <MapPin className="h-4 w-4 shrink-0 text-[var(--text-muted)]" aria-hidden="true" />
+                      <span className="min-w-0 truncate">{getWeatherLocationLabel(result)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {!query.trim() && savedLocations.length > 0 && (
+              <ul aria-label="Saved places" className="space-y-0.5">
+                {savedLocations.map(saved => (
+                  <li key={saved.id}>
+                    <button
+                      type="button"
+                      disabled={Boolean(busy)}
+                      onClick={() => void share('place', async () => savedWeatherLocationToDraft(saved))}
+                      className={placeButtonClass}
+                    >
+                      <Bookmark className="h-4 w-4 shrink-0 text-[var(--text-muted)]" aria-hidden="true" />
+                      <span className="min-w-0 truncate">{saved.location_name}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+
+  return typeof document === 'undefined' ? dialog : createPortal(dialog, document.body)
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react'
+import { ExternalLink, MapPin, Navigation } from 'lucide-react'
+import { showActionErrorToast } from '../../lib/toastNotifications'
+import { cn } from '../../lib/utils'
+import { StaticLocationMap } from './StaticLocationMap'
+import { stopSharingLiveLocation } from './liveLocationStore'
+import { useMessageLocation, useTrackedLiveLocationIds } from './useMessageLocation'
+import {
+  formatCoordinates,
+  formatLiveLocationRemaining,
+  formatLocationUpdatedAgo,
+  getExternalMapUrl,
+  getLiveLocationStatus,
+  getMessageLocationTitle,
+} from './locationModel'
+
+type MessageLocationCardProps = {
+  messageId: string
+  label: string
+  currentUserId?: string | null
+  disabled?: boolean
+  className?: string
+}
+
+const CLOCK_INTERVAL_MS = 30_000
+
+export function MessageLocationCard({
+  messageId,
+  label,
+  currentUserId,
+  disabled = false,
+  className,
+}: MessageLocationCardProps) {
+  const { location, loading, error } = useMessageLocation(messageId, !disabled)
+  const trackedIds = useTrackedLiveLocationIds()
+  const [now, setNow] = useState(() => Date.now())
+  const [stopping, setStopping] = useState(false)
+  const status = location ? getLiveLocationStatus(location, now) : 'static'
+
+  useEffect(() => {
+    if (status !== 'live') return
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS)
+    return () => window.clearInterval(timer)
+  }, [status])
+
+  if (!location) {
+    return (
+      <div className={cn('mt-1 min-w-[14rem] space-y-1 text-sm', className)} data-testid="message-location">
+        <p className="flex items-center gap-1.5 font-semibold text-[var(--text-primary)]">
+          <MapPin className="h-4 w-4 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          {label}
+        </p>
+        <p className="text-xs text-[var(--text-muted)]">
+          {disabled ? 'Sharing location...' : loading ? 'Loading location...' : error ? 'Location unavailable' : 'Location'}
+        </p>
+      </div>
+    )
+  }
+
+  const isSender = currentUserId === location.senderId
+  const title = getMessageLocationTitle(location)
+
+  const handleStop = async () => {
+    setStopping(true)
+    try {
+      await stopSharingLiveLocation(location.id)
+    } catch {
+      showActionErrorToast('Failed to stop sharing location')
+    } finally {
+      setStopping(false)
+    }
+  }
+
+  return (
+    <div className={cn('mt-1 w-64 max-w-full space-y-2 text-sm', className)} data-testid="message-location">
+      <a
+        href={getExternalMapUrl(location.latitude, location.longitude)}
+        target="_blank"
+        rel="noopener noreferrer"
+        aria-label={`Open ${title} in maps`}
+        className="block rounded-[var(--radius-md)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent-border)]"
+      >
+        <StaticLocationMap
+          latitude={location.latitude}
+          longitude={location.longitude}
+          live={status === 'live'}
+          className="max-w-full"
+        />
+      </a>
+      <div className="flex items-start gap-1.5">
+        {location.liveUntil
+          ? <Navigation className="mt-0.5 h-4 w-4 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          : <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />}
+        <div className="min-w-0 flex-1">
+          <p className="break-words font-semibold text-[var(--text-primary)]">{title}</p>
+          <p className="text-[0.7rem] text-[var(--text-muted)]">
+            {formatCoordinates(location.latitude, location.longitude)}
+            {location.accuracyMeters ? ` · within ${Math.round(location.accuracyMeters)} m` : ''}
+          </p>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-[0.7rem] text-[var(--text-muted)]">
+        {status === 'live' && location.liveUntil && (
+          <>
+            <span className="inline-flex items-center gap-1 font-semibold text-[var(--theme-accent-readable)]">
+              <span className="h-1.5 w-1.5 rounded-full bg-current" aria-hidden="true" />
+              Live · {formatLiveLocationRemaining(location.liveUntil, now)}
+            </span>
+            <span>{formatLocationUpdatedAgo(location.updatedAt, now)}</span>
+            {isSender && !trackedIds.has(location.id) && <span>Paused on this device</span>}
+          </>
+        )}
+        {status === 'ended' && <span>Live location ended</span>}
+        {isSender && status === 'live' ? (
+          <button
+            type="button"
+            onClick={() => void handleStop()}
+            disabled={stopping}
+            className="ml-auto font-semibold text-[var(--theme-accent-readable)] hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent-border)] disabled:opacity-60"
+          >
+            Stop sharing
+          </button>
+        ) : (
+          <a
+            href={getExternalMapUrl(location.latitude, location.longitude)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="ml-auto inline-flex items-center gap-1 font-semibold text-[var(--theme-accent-readable)] hover:underline"
+          >
+            Open in maps
+            <ExternalLink className="h-3 w-3" aria-hidden="true" />
+          </a>
+        )}
+      </div>
+    </div>
+  )
+}
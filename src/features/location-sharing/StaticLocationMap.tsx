@@ -0,0 +1,63 @@
+import { useMemo } from 'react'
+import { MapPin } from 'lucide-react'
+import { cn } from '../../lib/utils'
+import { getStaticMapLayout } from './locationModel'
+
+type StaticLocationMapProps = {
+  latitude: number
+  longitude: number
+  width?: number
+  height?: number
+  live?: boolean
+  className?: string
+}
+
+export function StaticLocationMap({
+  latitude,
+  longitude,
+  width = 256,
+  height = 144,
+  live = false,
+  className,
+}: StaticLocationMapProps) {
+  const layout = useMemo(
+    () => getStaticMapLayout(latitude, longitude, width, height),
+    [height, latitude, longitude, width]
+  )
+
+  return (
+    <div
+      className={cn('relative overflow-hidden rounded-[var(--radius-md)] bg-[rgba(255,255,255,0.04)]', className)}
+      style={{ width, height }}
+      aria-hidden="true"
+      data-testid="static-location-map"
+    >
+      {layout.tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          width={256}
+          height={256}
+          loading="lazy"
+          decoding="async"
+          draggable={false}
+          className="absolute max-w-none select-none"
+          style={{ left: tile.left, top: tile.top }}
+        />
+      ))}
+      <span
+        className="absolute -translate-x-1/2 -translate-y-full"
+        style={{ left: layout.pin.left, top: layout.pin.top }}
+      >
+        {live && (
+          <span className="absolute left-1/2 top-full h-6 w-6 -translate-x-1/2 -translate-y-1/2 animate-ping rounded-full bg-[var(--theme-accent-soft)]" />
+        )}
+        <MapPin className="relative h-7 w-7 fill-[var(--theme-accent-readable)] text-[rgba(0,0,0,0.55)] drop-shadow" />
+      </span>
+      <span className="absolute bottom-0 right-0 bg-[rgba(0,0,0,0.55)] px-1 text-[0.55rem] text-[rgba(255,255,255,0.8)]">
+        © OpenStreetMap
+      </span>
+    </div>
+  )
+}
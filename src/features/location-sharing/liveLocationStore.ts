@@ -0,0 +1,126 @@
+import { stopLiveLocation, updateLiveLocation } from './locationSharingApi'
+import {
+  shouldSendLiveLocationUpdate,
+  type LiveLocationPosition,
+  type MessageLocation,
+} from './locationModel'
+
+type Listener = () => void
+
+type LiveLocationSession = {
+  location: MessageLocation
+  watchId: number
+  expiryTimer: ReturnType<typeof setTimeout>
+  lastSent: LiveLocationPosition | null
+  sending: boolean
+}
+
+const listeners = new Set<Listener>()
+const sessions = new Map<string, LiveLocationSession>()
+let snapshot: ReadonlySet<string> = new Set()
+
+const emit = () => {
+  snapshot = new Set(sessions.keys())
+  listeners.forEach(listener => listener())
+}
+
+export const subscribeToLiveLocations = (listener: Listener) => {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+/** Location ids this device is currently streaming. */
+export const getTrackedLiveLocationIds = () => snapshot
+
+const endSession = (locationId: string) => {
+  const session = sessions.get(locationId)
+  if (!session) return
+  navigator.geolocation?.clearWatch(session.watchId)
+  clearTimeout(session.expiryTimer)
+  sessions.delete(locationId)
+  emit()
+}
+
+const sendPosition = async (session: LiveLocationSession, position: LiveLocationPosition) => {
+  if (session.sending || !shouldSendLiveLocationUpdate(session.lastSent, position)) return
+  session.sending = true
+  try {
+    session.location = await updateLiveLocation(session.location.id, position)
+    session.lastSent = position
+    // A block in the conversation stops the share on the server instead of moving it.
+    if (session.location.stoppedAt) endSession(session.location.id)
+  } catch {
+    // The server refuses updates once the share has expired or been stopped.
+    endSession(session.location.id)
+  } finally {
+    session.sending = false
+  }
+}
+
+/**
+ * Streams this device's position into a live location until it expires or is
+ * stopped. Sessions live outside React so sharing continues while the member
+ * moves between conversations, and they end with the page.
+ */
+export const startLiveLocationTracking = (location: MessageLocation) => {
+  if (sessions.has(location.id) || !location.liveUntil) return
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    throw new Error('Location is not supported by this browser.')
+  }
+  const remaining = Date.parse(location.liveUntil) - Date.now()
+  if (!Number.isFinite(remaining) || remaining <= 0) return
+
+  const watchId = navigator.geolocation.watchPosition(
+    position => {
+      const session = sessions.get(location.id)
+      if (!session) return
+      void sendPosition(session, {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracyMeters: Number.isFinite(position.coords.accuracy) ? Math.round(position.coords.accuracy) : null,
+        at: Date.now(),
+      })
+    },
+    error => {
+      if (error.code === error.PERMISSION_DENIED) endSession(location.id)
+    },
+    { enableHighAccuracy: true, maximumAge: 5_000, timeout: 30_000 },
+  )
+
+  sessions.set(location.id, {
+    location,
+    watchId,
+    expiryTimer: setTimeout(() => endSession(location.id), remaining),
+    lastSent: {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      accuracyMeters: location.accuracyMeters,
+      at: Date.now(),
+    },
+    sending: false,
+  })
+  emit()
+}
+
+export const stopSharingLiveLocation = async (locationId: string) => {
+  endSession(locationId)
+  return stopLiveLocation(locationId)
+}
+
+export const getCurrentDevicePosition = () => new Promise<Omit<LiveLocationPosition, 'at'>>((resolve, reject) => {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    reject(new Error('Location is not supported by this browser.'))
+    return
+  }
+  navigator.geolocation.getCurrentPosition(
+    position => resolve({
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracyMeters: Number.isFinite(position.coords.accuracy) ? Math.round(position.coords.accuracy) : null,
+    }),
+    error => reject(new Error(error.code === error.PERMISSION_DENIED
+      ? 'Location permission was denied. You can still search for a place.'
+      : 'Your current location could not be determined.')),
+    { enableHighAccuracy: true, timeout: 12_000, maximumAge: 30_000 },
+  )
+})
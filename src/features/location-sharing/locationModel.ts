@@ -0,0 +1,240 @@
+import {
+  getWeatherLocationLabel,
+  savedWeatherLocationToResult,
+  type SavedWeatherLocation,
+  type WeatherLocationResult,
+} from '../../lib/weather'
+
+export interface MessageLocation {
+  id: string
+  messageId: string
+  conversationId: string
+  senderId: string
+  label: string | null
+  latitude: number
+  longitude: number
+  accuracyMeters: number | null
+  liveUntil: string | null
+  stoppedAt: string | null
+  revision: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MessageLocationDraft {
+  latitude: number
+  longitude: number
+  label: string | null
+  accuracyMeters: number | null
+  liveMinutes: number | null
+}
+
+export interface MessageLocationChangedDetail {
+  location: MessageLocation
+}
+
+export type LiveLocationStatus = 'static' | 'live' | 'ended'
+
+export interface LiveLocationPosition {
+  latitude: number
+  longitude: number
+  accuracyMeters: number | null
+  at: number
+}
+
+export interface StaticMapTile {
+  key: string
+  url: string
+  left: number
+  top: number
+}
+
+export interface StaticMapLayout {
+  tiles: StaticMapTile[]
+  pin: { left: number; top: number }
+}
+
+export const MESSAGE_LOCATION_CHANGED_EVENT = 'shadowchat:message-location-changed'
+
+export const LOCATION_LABEL_MAX_LENGTH = 120
+export const LIVE_LOCATION_DURATIONS = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 480, label: '8 hours' },
+] as const
+
+export const MESSAGE_LOCATION_COLUMNS =
+  'id, dm_message_id, conversation_id, sender_id, label, latitude, longitude, accuracy_meters, live_until, stopped_at, location_revision, created_at, updated_at'
+
+const TILE_SIZE = 256
+const STATIC_MAP_ZOOM = 15
+/** Live pins skip jitter under this distance unless the heartbeat is due. */
+const LIVE_UPDATE_MIN_DISTANCE_METERS = 25
+const LIVE_UPDATE_MIN_INTERVAL_MS = 10_000
+const LIVE_UPDATE_HEARTBEAT_MS = 60_000
+const EARTH_RADIUS_METERS = 6_371_000
+
+const asRecord = (value: unknown): Record<string, unknown> => {
+  if (Array.isArray(value)) return asRecord(value[0])
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {}
+}
+
+const asString = (value: unknown) => typeof value === 'string' ? value : null
+
+const asFiniteNumber = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : Number.NaN
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+/** Accepts RPC payloads (`message_id`) and table rows (`dm_message_id`). */
+export const normalizeMessageLocation = (value: unknown): MessageLocation | null => {
+  const record = asRecord(value)
+  const id = asString(record.id)
+  const messageId = asString(record.message_id) ?? asString(record.dm_message_id)
+  const conversationId = asString(record.conversation_id)
+  const senderId = asString(record.sender_id)
+  const latitude = asFiniteNumber(record.latitude)
+  const longitude = asFiniteNumber(record.longitude)
+  if (!id || !messageId || !conversationId || !senderId || latitude === null || longitude === null) return null
+
+  const accuracy = asFiniteNumber(record.accuracy_meters)
+  const revision = asFiniteNumber(record.location_revision)
+  return {
+    id,
+    messageId,
+    conversationId,
+    senderId,
+    label: asString(record.label)?.trim() || null,
+    latitude,
+    longitude,
+    accuracyMeters: accuracy !== null && accuracy >= 0 ? accuracy : null,
+    liveUntil: asString(record.live_until),
+    stoppedAt: asString(record.stopped_at),
+    revision: revision !== null && revision > 0 ? Math.floor(revision) : 0,
+    createdAt: asString(record.created_at) ?? '',
+    updatedAt: asString(record.updated_at) ?? asString(record.created_at) ?? '',
+  }
+}
+
+export const getLiveLocationStatus = (location: MessageLocation, now = Date.now()): LiveLocationStatus => {
+  if (!location.liveUntil) return 'static'
+  if (location.stoppedAt) return 'ended'
+  const liveUntil = Date.parse(location.liveUntil)
+  return Number.isFinite(liveUntil) && liveUntil > now ? 'live' : 'ended'
+}
+
+export const formatLiveLocationRemaining = (liveUntil: string, now = Date.now()) => {
+  const remaining = Date.parse(liveUntil) - now
+  if (!Number.isFinite(remaining) || remaining <= 0) return 'Ended'
+  const minutes = Math.ceil(remaining / 60_000)
+  if (minutes < 60) return `${minutes} min left`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return rest > 0 ? `${hours}h ${rest}m left` : `${hours}h left`
+}
+
+export const formatLocationUpdatedAgo = (updatedAt: string, now = Date.now()) => {
+  const elapsed = now - Date.parse(updatedAt)
+  if (!Number.isFinite(elapsed)) return ''
+  if (elapsed < 60_000) return 'Updated just now'
+  const minutes = Math.floor(elapsed / 60_000)
+  if (minutes < 60) return `Updated ${minutes} min ago`
+  return `Updated ${Math.floor(minutes / 60)}h ago`
+}
+
+export const getMessageLocationTitle = (location: Pick<MessageLocation, 'label' | 'liveUntil'>) =>
+  location.label || (location.liveUntil ? 'Live location' : 'Pinned location')
+
+export const formatCoordinates = (latitude: number, longitude: number) =>
+  `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`
+
+export const getExternalMapUrl = (latitude: number, longitude: number) => {
+  const lat = latitude.toFixed(6)
+  const lon = longitude.toFixed(6)
+  return `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lon}#map=16/${lat}/${lon}`
+}
+
+const toWorldPixels = (latitude: number, longitude: number, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom
+  const clampedLatitude = Math.max(-85.05112878, Math.min(85.05112878, latitude))
+  const sin = Math.sin(clampedLatitude * Math.PI / 180)
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  }
+}
+
+/**
+ * Lays out the OpenStreetMap tiles that cover a `width` x `height` preview
+ * centered on a point. A handful of cached tiles stands in for a static-map
+ * service and stays within the tile host the CSP already allows.
+ */
+export const getStaticMapLayout = (
+  latitude: number,
+  longitude: number,
+  width: number,
+  height: number,
+  zoom = STATIC_MAP_ZOOM,
+): StaticMapLayout => {
+  const tileCount = 2 ** zoom
+  const center = toWorldPixels(latitude, longitude, zoom)
+  const originX = center.x - width / 2
+  const originY = center.y - height / 2
+  const tiles: StaticMapTile[] = []
+
+  for (let tileY = Math.floor(originY / TILE_SIZE); tileY * TILE_SIZE < originY + height; tileY += 1) {
+    if (tileY < 0 || tileY >= tileCount) continue
+    for (let tileX = Math.floor(originX / TILE_SIZE); tileX * TILE_SIZE < originX + width; tileX += 1) {
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount
+      tiles.push({
+        key: `${zoom}/${tileX}/${tileY}`,
+        url: `https://tile.openstreetmap.org/${zoom}/${wrappedX}/${tileY}.png`,
+        left: Math.round(tileX * TILE_SIZE - originX),
+        top: Math.round(tileY * TILE_SIZE - originY),
+      })
+    }
+  }
+
+  return { tiles, pin: { left: Math.round(width / 2), top: Math.round(height / 2) } }
+}
+
+export const getDistanceMeters = (
+  from: Pick<LiveLocationPosition, 'latitude' | 'longitude'>,
+  to: Pick<LiveLocationPosition, 'latitude' | 'longitude'>,
+) => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const deltaLatitude = toRadians(to.latitude - from.latitude)
+  const deltaLongitude = toRadians(to.longitude - from.longitude)
+  const haversine = Math.sin(deltaLatitude / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(deltaLongitude / 2) ** 2
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(haversine)))
+}
+
+/**
+ * Decides whether a new device fix is worth a write. Movement is sent at most
+ * every 10 seconds, and a still device still refreshes once a minute so the
+ * other side can see the share is alive.
+ */
+export const shouldSendLiveLocationUpdate = (
+  previous: LiveLocationPosition | null,
+  next: LiveLocationPosition,
+) => {
+  if (!previous) return true
+  const elapsed = next.at - previous.at
+  if (elapsed >= LIVE_UPDATE_HEARTBEAT_MS) return true
+  if (elapsed < LIVE_UPDATE_MIN_INTERVAL_MS) return false
+  return getDistanceMeters(previous, next) >= LIVE_UPDATE_MIN_DISTANCE_METERS
+}
+
+/** Turns a weather search hit or saved weather place into a pin to send. */
+export const weatherLocationToDraft = (location: WeatherLocationResult): MessageLocationDraft => ({
+  latitude: location.latitude,
+  longitude: location.longitude,
+  label: (location.id === 0 ? location.name : getWeatherLocationLabel(location))
+    .slice(0, LOCATION_LABEL_MAX_LENGTH) || null,
+  accuracyMeters: null,
+  liveMinutes: null,
+})
+
+export const savedWeatherLocationToDraft = (location: SavedWeatherLocation) =>
+  weatherLocationToDraft(savedWeatherLocationToResult(location))
@@ -0,0 +1,114 @@
+import { getWorkingClient } from '../../lib/supabase'
+import {
+  MESSAGE_LOCATION_CHANGED_EVENT,
+  MESSAGE_LOCATION_COLUMNS,
+  normalizeMessageLocation,
+  type MessageLocation,
+  type MessageLocationChangedDetail,
+  type MessageLocationDraft,
+} from './locationModel'
+
+const MAX_LOCATION_MESSAGE_IDS = 100
+
+const requireId = (value: string, label: string) => {
+  const id = value.trim()
+  if (!id) throw new Error(`${label} is required.`)
+  return id
+}
+
+const requireLocation = (data: unknown) => {
+  const location = normalizeMessageLocation(data)
+  if (!location) throw new Error('Location response was incomplete.')
+  return location
+}
+
+export const announceMessageLocationChange = (location: MessageLocation) => {
+  if (typeof window === 'undefined') return
+  window.dispatchEvent(new CustomEvent<MessageLocationChangedDetail>(MESSAGE_LOCATION_CHANGED_EVENT, {
+    detail: { location },
+  }))
+}
+
+export const createLocationMessage = async (
+  conversationId: string,
+  draft: MessageLocationDraft,
+  options: { clientMessageId?: string | null } = {},
+): Promise<MessageLocation> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('create_location_message', {
+    target_conversation_id: requireId(conversationId, 'Conversation'),
+    target_latitude: draft.latitude,
+    target_longitude: draft.longitude,
+    target_label: draft.label,
+    target_accuracy_meters: draft.accuracyMeters,
+    target_live_minutes: draft.liveMinutes,
+    target_client_message_id: options.clientMessageId ?? null,
+  })
+  if (error) throw error
+  const location = requireLocation(data)
+  announceMessageLocationChange(location)
+  return location
+}
+
+export const updateLiveLocation = async (
+  locationId: string,
+  position: { latitude: number; longitude: number; accuracyMeters: number | null },
+): Promise<MessageLocation> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('update_live_location', {
+    target_location_id: requireId(locationId, 'Location'),
+    target_latitude: position.latitude,
+    target_longitude: position.longitude,
+    target_accuracy_meters: position.accuracyMeters,
+  })
+  if (error) throw error
+  const location = requireLocation(data)
+  announceMessageLocationChange(location)
+  return location
+}
+
+export const stopLiveLocation = async (locationId: string): Promise<MessageLocation> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('stop_live_location', {
+    target_location_id: requireId(locationId, 'Location'),
+  })
+  if (error) throw error
+  const location = requireLocation(data)
+  announceMessageLocationChange(location)
+  return location
+}
+
+export const listMessageLocations = async (messageIds: string[]): Promise<Map<string, MessageLocation>> => {
+  const ids = Array.from(new Set(messageIds.map(id => id.trim()).filter(Boolean)))
+    .slice(0, MAX_LOCATION_MESSAGE_IDS)
+  const locations = new Map<string, MessageLocation>()
+  if (ids.length === 0) return locations
+
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('message_locations')
+    .select(MESSAGE_LOCATION_COLUMNS)
+    .in('dm_message_id', ids)
+  if (error) throw error
+
+  for (const row of (data ?? []) as unknown[]) {
+    const location = normalizeMessageLocation(row)
+    if (location) locations.set(location.messageId, location)
+  }
+  return locations
+}
+
+/** The sender's live shares that have not ended, for resuming after a reload. */
+export const listMyActiveLiveLocations = async (userId: string): Promise<MessageLocation[]> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('message_locations')
+    .select(MESSAGE_LOCATION_COLUMNS)
+    .eq('sender_id', requireId(userId, 'User'))
+    .is('stopped_at', null)
+    .gt('live_until', new Date().toISOString())
+  if (error) throw error
+  return ((data ?? []) as unknown[])
+    .map(normalizeMessageLocation)
+    .filter((location): location is MessageLocation => location !== null)
+}
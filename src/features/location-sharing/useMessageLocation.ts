@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { getWorkingClient } from '../../lib/supabase'
+import { createRealtimeChannelName } from '../../lib/realtimeChannelName'
+import { listMessageLocations } from './locationSharingApi'
+import { getTrackedLiveLocationIds, subscribeToLiveLocations } from './liveLocationStore'
+import {
+  MESSAGE_LOCATION_CHANGED_EVENT,
+  getLiveLocationStatus,
+  normalizeMessageLocation,
+  type MessageLocation,
+  type MessageLocationChangedDetail,
+} from './locationModel'
+
+type LocationRealtimePayload = {
+  new: Record<string, unknown>
+}
+
+export function useTrackedLiveLocationIds() {
+  return useSyncExternalStore(subscribeToLiveLocations, getTrackedLiveLocationIds, getTrackedLiveLocationIds)
+}
+
+export function useMessageLocation(messageId: string | null, enabled = true) {
+  const [location, setLocation] = useState<MessageLocation | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  const requestVersionRef = useRef(0)
+  const locationRef = useRef<MessageLocation | null>(null)
+
+  locationRef.current = location
+
+  const accept = useCallback((next: MessageLocation) => {
+    const current = locationRef.current
+    if (current && current.id === next.id && next.revision < current.revision) return
+    requestVersionRef.current += 1
+    setLocation(next)
+  }, [])
+
+  const refresh = useCallback(async () => {
+    if (!messageId || !enabled) return
+    const requestVersion = ++requestVersionRef.current
+    if (!locationRef.current) setLoading(true)
+    try {
+      const locations = await listMessageLocations([messageId])
+      if (requestVersion !== requestVersionRef.current) return
+      setLocation(locations.get(messageId) ?? null)
+      setError(null)
+    } catch (caught) {
+      if (requestVersion !== requestVersionRef.current) return
+      setError(caught instanceof Error ? caught : new Error('Unable to load this location.'))
+    } finally {
+      if (requestVersion === requestVersionRef.current) setLoading(false)
+    }
+  }, [enabled, messageId])
+
+  useEffect(() => {
+    setLocation(null)
+    setError(null)
+    void refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    if (!messageId) return
+    const handleChange = (event: Event) => {
+      const changed = (event as CustomEvent<MessageLocationChangedDetail>).detail?.location
+      if (changed?.messageId === messageId) accept(changed)
+    }
+    window.addEventListener(MESSAGE_LOCATION_CHANGED_EVENT, handleChange)
+    return () => window.removeEventListener(MESSAGE_LOCATION_CHANGED_EVENT, handleChange)
+  }, [accept, messageId])
+
+  const locationId = location?.id ?? null
+  // Static pins never change, and ended shares are frozen.
+  const isLive = location ? getLiveLocationStatus(location) === 'live' : false
+
+  useEffect(() => {
+    if (!locationId || !enabled || !isLive) return
+    let disposed = false
+    let channel: RealtimeChannel | null = null
+    let realtimeClient: Awaited<ReturnType<typeof getWorkingClient>> | null = null
+
+    void getWorkingClient().then(client => {
+      if (disposed) return
+      realtimeClient = client
+      channel = client
+        .channel(createRealtimeChannelName(`message-location:${locationId}`))
+        .on('postgres_changes', {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'message_locations',
+          filter: `id=eq.${locationId}`,
+        }, (payload: LocationRealtimePayload) => {
+          const next = normalizeMessageLocation(payload.new)
+          if (next) accept(next)
+        })
+        .subscribe()
+    })
+
+    return () => {
+      disposed = true
+      if (channel && realtimeClient) void realtimeClient.removeChannel(channel)
+    }
+  }, [accept, enabled, isLive, locationId])
+
+  return { location, loading, error, refresh }
+}
@@ -0,0 +1,33 @@
+import { useState } from 'react'
+import { cn } from '../../lib/utils'
+import { MessageEditHistoryDialog } from './MessageEditHistoryDialog'
+import type { MessageHistorySurface } from './messageHistoryModel'
+
+type EditedMessageLabelProps = {
+  surface: MessageHistorySurface
+  messageId: string
+  className?: string
+}
+
+export function EditedMessageLabel({ surface, messageId, className }: EditedMessageLabelProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        aria-label="View edit history"
+        className={cn('underline-offset-2 hover:text-[var(--text-primary)] hover:underline focus:outline-none focus-visible:underline', className)}
+      >
+        (edited)
+      </button>
+      <MessageEditHistoryDialog
+        open={open}
+        onClose={() => setOpen(false)}
+        surface={surface}
+        messageId={messageId}
+      />
+    </>
+  )
+}
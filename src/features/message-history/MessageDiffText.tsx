@@ -0,0 +1,37 @@
+import { cn } from '../../lib/utils'
+import type { MessageDiffSegment } from './messageHistoryModel'
+
+type MessageDiffTextProps = {
+  segments: MessageDiffSegment[]
+  className?: string
+}
+
+export function MessageDiffText({ segments, className }: MessageDiffTextProps) {
+  return (
+    <p className={cn('whitespace-pre-wrap break-words text-sm leading-6 text-[var(--text-secondary)]', className)}>
+      {segments.map((segment, index) => {
+        if (segment.type === 'added') {
+          return (
+            <ins
+              key={index}
+              className="rounded-sm bg-[rgba(74,222,128,0.16)] text-[var(--text-primary)] no-underline"
+            >
+              {segment.text}
+            </ins>
+          )
+        }
+        if (segment.type === 'removed') {
+          return (
+            <del
+              key={index}
+              className="rounded-sm bg-[rgba(248,113,113,0.16)] text-[var(--text-muted)]"
+            >
+              {segment.text}
+            </del>
+          )
+        }
+        return <span key={index}>{segment.text}</span>
+      })}
+    </p>
+  )
+}
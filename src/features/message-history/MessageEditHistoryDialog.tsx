@@ -0,0 +1,125 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { History, Loader2, X } from 'lucide-react'
+import { useDialogAccessibility } from '../../hooks/useDialogAccessibility'
+import { getMessageEditHistory } from './messageHistoryApi'
+import { MessageDiffText } from './MessageDiffText'
+import {
+  diffMessageVersions,
+  getMessageVersions,
+  type MessageEditHistory,
+  type MessageHistorySurface,
+} from './messageHistoryModel'
+
+type MessageEditHistoryDialogProps = {
+  open: boolean
+  onClose: () => void
+  surface: MessageHistorySurface
+  messageId: string
+}
+
+const formatVersionTime = (value: string | null) => {
+  if (!value) return ''
+  const date = new Date(value)
+  return Number.isFinite(date.getTime())
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+    : ''
+}
+
+export function MessageEditHistoryDialog({ open, onClose, surface, messageId }: MessageEditHistoryDialogProps) {
+  const titleId = useId()
+  const closeRef = useRef<HTMLButtonElement>(null)
+  const [history, setHistory] = useState<MessageEditHistory | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const dialogRef = useDialogAccessibility<HTMLDivElement>({
+    open,
+    onClose,
+    initialFocusRef: closeRef,
+  })
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setHistory(null)
+    setError(null)
+    getMessageEditHistory(surface, messageId)
+      .then(next => {
+        if (!cancelled) setHistory(next)
+      })
+      .catch(caught => {
+        if (!cancelled) setError(caught instanceof Error && caught.message ? caught.message : 'Unable to load edit history.')
+      })
+    return () => { cancelled = true }
+  }, [messageId, open, surface])
+
+  if (!open) return null
+
+  const versions = history ? getMessageVersions(history) : []
+
+  const dialog = (
+    <div
+      role="presentation"
+      className="fixed inset-0 z-[160] flex items-end justify-center bg-[rgba(0,0,0,0.7)] backdrop-blur-sm sm:items-center sm:p-4"
+      onPointerDown={event => {
+        if (event.target === event.currentTarget) onClose()
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        data-testid="message-edit-history"
+        className="glass-panel-strong flex max-h-[min(80dvh,40rem)] w-full min-w-0 flex-col overflow-hidden rounded-t-[var(--radius-xl)] border border-[var(--border-panel)] shadow-[var(--shadow-panel-strong)] sm:max-w-lg sm:rounded-[var(--radius-xl)]"
+      >
+        <header className="flex shrink-0 items-center gap-3 border-b border-[var(--border-panel)] px-4 py-3">
+          <History className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          <h2 id={titleId} className="min-w-0 flex-1 text-base font-semibold text-[var(--text-primary)]">
+            Edit history
+          </h2>
+          <button
+            ref={closeRef}
+            type="button"
+            onClick={onClose}
+            aria-label="Close edit history"
+            className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-[var(--border-subtle)] text-[var(--text-secondary)] hover:border-[var(--border-glow)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </header>
+        <div className="min-h-0 flex-1 overflow-y-auto px-4 py-4">
+          {error ? (
+            <p className="text-sm text-[var(--text-muted)]">{error}</p>
+          ) : !history ? (
+            <div className="grid min-h-24 place-items-center">
+              <Loader2 className="h-5 w-5 animate-spin text-[var(--theme-accent-readable)]" aria-label="Loading edit history" />
+            </div>
+          ) : (
+            <ol className="space-y-3">
+              {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+                <li
+                  key={`${version.label}-${index}`}
+                  className="rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(0,0,0,0.14)] p-3"
+                >
+                  <div className="mb-1.5 flex items-center justify-between gap-2 text-xs">
+                    <span className="font-semibold text-[var(--theme-accent-readable)]">{version.label}</span>
+                    <span className="text-[var(--text-muted)]">{formatVersionTime(version.timestamp)}</span>
+                  </div>
+                  {index === 0 ? (
+                    <p className="whitespace-pre-wrap break-words text-sm leading-6 text-[var(--text-secondary)]">
+                      {version.content}
+                    </p>
+                  ) : (
+                    <MessageDiffText segments={diffMessageVersions(versions[index - 1].content, version.content)} />
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+
+  return typeof document === 'undefined' ? dialog : createPortal(dialog, document.body)
+}
@@ -0,0 +1,36 @@
+import { getWorkingClient } from '../../lib/supabase'
+import {
+  normalizeMessageEditHistory,
+  type MessageEditHistory,
+  type MessageHistorySurface,
+} from './messageHistoryModel'
+
+const requireId = (value: string, label: string) => {
+  const id = value.trim()
+  if (!id) throw new Error(`${label} is required.`)
+  return id
+}
+
+export const getMessageEditHistory = async (
+  surface: MessageHistorySurface,
+  messageId: string,
+): Promise<MessageEditHistory> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('get_message_edit_history', {
+    target_surface: surface,
+    target_message_id: requireId(messageId, 'Message'),
+  })
+  if (error) throw error
+  const history = normalizeMessageEditHistory(data)
+  if (!history) throw new Error('Message history is unavailable.')
+  return history
+}
+
+export const getModerationCaseMessageHistory = async (caseId: string): Promise<MessageEditHistory | null> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('get_moderation_case_message_history', {
+    p_case_id: requireId(caseId, 'Case'),
+  })
+  if (error) throw error
+  return normalizeMessageEditHistory(data)
+}
@@ -0,0 +1,157 @@
+export type MessageHistorySurface = 'general' | 'dm'
+
+export interface MessageRevision {
+  revisionNumber: number
+  content: string
+  replacedAt: string
+}
+
+export interface MessageEditHistory {
+  surface: MessageHistorySurface
+  messageId: string
+  currentContent: string
+  createdAt: string | null
+  editedAt: string | null
+  revisions: MessageRevision[]
+}
+
+/** One entry per version, oldest first, ending with the current text. */
+export interface MessageVersion {
+  label: string
+  content: string
+  timestamp: string | null
+  isOriginal: boolean
+  isCurrent: boolean
+}
+
+export type MessageDiffSegment = {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+const MAX_DIFF_TOKENS = 1200
+
+const asRecord = (value: unknown): Record<string, unknown> => {
+  if (Array.isArray(value)) return asRecord(value[0])
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {}
+}
+
+const asString = (value: unknown) => typeof value === 'string' ? value : null
+
+const normalizeRevision = (value: unknown): MessageRevision | null => {
+  const record = asRecord(value)
+  const revisionNumber = Number(record.revision_number)
+  const content = asString(record.content)
+  if (!Number.isInteger(revisionNumber) || revisionNumber <= 0 || content === null) return null
+  return {
+    revisionNumber,
+    content,
+    replacedAt: asString(record.replaced_at) ?? '',
+  }
+}
+
+export const normalizeMessageEditHistory = (value: unknown): MessageEditHistory | null => {
+  const record = asRecord(value)
+  const messageId = asString(record.message_id)
+  if (!messageId) return null
+  return {
+    surface: record.surface === 'dm' ? 'dm' : 'general',
+    messageId,
+    currentContent: asString(record.current_content) ?? '',
+    createdAt: asString(record.created_at),
+    editedAt: asString(record.edited_at),
+    revisions: Array.isArray(record.revisions)
+      ? record.revisions
+        .map(normalizeRevision)
+        .filter((revision): revision is MessageRevision => revision !== null)
+        .sort((left, right) => left.revisionNumber - right.revisionNumber)
+      : [],
+  }
+}
+
+export const getOriginalMessageText = (history: MessageEditHistory) =>
+  history.revisions[0]?.content ?? history.currentContent
+
+/**
+ * Each revision row stores the text that an edit replaced, so version N was
+ * written at the previous row's replacement time (or message creation).
+ */
+export const getMessageVersions = (history: MessageEditHistory): MessageVersion[] => {
+  const versions = history.revisions.map((revision, index) => ({
+    label: index === 0 ? 'Original' : `Edit ${index}`,
+    content: revision.content,
+    timestamp: index === 0 ? history.createdAt : history.revisions[index - 1].replacedAt,
+    isOriginal: index === 0,
+    isCurrent: false,
+  }))
+  versions.push({
+    label: versions.length === 0 ? 'Original' : 'Current',
+    content: history.currentContent,
+    timestamp: history.revisions[history.revisions.length - 1]?.replacedAt ?? history.createdAt,
+    isOriginal: versions.length === 0,
+    isCurrent: true,
+  })
+  return versions
+}
+
+const tokenize = (value: string) => value.split(/(\s+)/).filter(Boolean)
+
+const pushSegment = (segments: MessageDiffSegment[], type: MessageDiffSegment['type'], text: string) => {
+  const previous = segments[segments.length - 1]
+  if (previous?.type === type) {
+    previous.text += text
+  } else {
+    segments.push({ type, text })
+  }
+}
+
+/**
+ * Word-level diff between two versions. Very long messages fall back to a
+ * whole-text replacement so the dialog never runs a quadratic diff on them.
+ */
+export const diffMessageVersions = (before: string, after: string): MessageDiffSegment[] => {
+  if (before === after) return before ? [{ type: 'same', text: before }] : []
+  const left = tokenize(before)
+  const right = tokenize(after)
+  if (left.length + right.length > MAX_DIFF_TOKENS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ]
+  }
+
+  const lengths = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0))
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = left[i] === right[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const segments: MessageDiffSegment[] = []
+  let i = 0
+  let j = 0
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      pushSegment(segments, 'same', left[i])
+      i += 1
+      j += 1
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'removed', left[i])
+      i += 1
+    } else {
+      pushSegment(segments, 'added', right[j])
+      j += 1
+    }
+  }
+  while (i < left.length) {
+    pushSegment(segments, 'removed', left[i])
+    i += 1
+  }
+  while (j < right.length) {
+    pushSegment(segments, 'added', right[j])
+    j += 1
+  }
+  return segments
+}
@@ -0,0 +1,25 @@
+import React, { useCallback, useMemo, useState } from 'react'
+import type { MessageReminderTarget } from './messageRemindersModel'
+import { MessageReminderContext } from './messageReminderContext'
+
+const RemindMeSheet = React.lazy(() =>
+  import('./RemindMeSheet').then(module => ({ default: module.RemindMeSheet }))
+)
+
+export function MessageReminderProvider({ children }: { children: React.ReactNode }) {
+  const [target, setTarget] = useState<MessageReminderTarget | null>(null)
+  const closeReminder = useCallback(() => setTarget(null), [])
+  const openReminder = useCallback((nextTarget: MessageReminderTarget) => setTarget(nextTarget), [])
+  const value = useMemo(() => ({ openReminder, closeReminder }), [closeReminder, openReminder])
+
+  return (
+    <MessageReminderContext.Provider value={value}>
+      {children}
+      {target && (
+        <React.Suspense fallback={null}>
+          <RemindMeSheet target={target} onClose={closeReminder} />
+        </React.Suspense>
+      )}
+    </MessageReminderContext.Provider>
+  )
+}
@@ -0,0 +1,121 @@
+import { useId, useRef, useState } from 'react'
+import { AlarmClock, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '../../components/ui/Button'
+import { useAuth } from '../../hooks/useAuth'
+import { useDialogAccessibility } from '../../hooks/useDialogAccessibility'
+import {
+  formatScheduledSendTime,
+  fromDateTimeLocalValue,
+  toDateTimeLocalValue,
+} from '../scheduled-messages/scheduledMessagesModel'
+import { setMessageReminder } from './messageRemindersApi'
+import {
+  MESSAGE_REMINDER_PRESETS,
+  MESSAGE_REMINDER_SOURCE_LABELS,
+  getMessageReminderPresetTime,
+  getMessageReminderTimeError,
+  type MessageReminderTarget,
+} from './messageRemindersModel'
+
+export function RemindMeSheet({ target, onClose }: {
+  target: MessageReminderTarget
+  onClose: () => void
+}) {
+  const { user } = useAuth()
+  const titleId = useId()
+  const closeRef = useRef<HTMLButtonElement>(null)
+  const [customValue, setCustomValue] = useState(() => (
+    toDateTimeLocalValue(getMessageReminderPresetTime('tomorrow_morning'))
+  ))
+  const [saving, setSaving] = useState(false)
+  const dialogRef = useDialogAccessibility<HTMLElement>({
+    open: true,
+    onClose,
+    dismissible: !saving,
+    initialFocusRef: closeRef,
+  })
+  const customDate = fromDateTimeLocalValue(customValue)
+  const customError = customDate ? getMessageReminderTimeError(customDate) : 'Choose a valid reminder time.'
+
+  const submit = async (remindAt: Date | null) => {
+    if (!remindAt || !user || saving) return
+    const timeError = getMessageReminderTimeError(remindAt)
+    if (timeError) {
+      toast.error(timeError)
+      return
+    }
+    setSaving(true)
+    try {
+      const reminder = await setMessageReminder(user.id, target, remindAt)
+      toast.success(`Reminder set for ${formatScheduledSendTime(reminder.remindAt)}`)
+      onClose()
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : 'Could not set this reminder')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[180] flex items-end justify-center bg-black/72 px-0 backdrop-blur-sm sm:items-center sm:p-4" role="presentation" onMouseDown={event => {
+      if (event.currentTarget === event.target && !saving) onClose()
+    }}>
+      <section
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="max-h-[min(92dvh,720px)] w-full max-w-md overflow-y-auto rounded-t-[28px] border border-[var(--border-panel)] bg-[var(--bg-elevated)] shadow-[var(--shadow-modal)] sm:rounded-[28px]"
+      >
+        <header className="sticky top-0 z-10 flex items-center gap-3 border-b border-[var(--border-subtle)] bg-[color:var(--bg-elevated)]/95 px-5 py-4 backdrop-blur-xl">
+          <span className="grid h-10 w-10 place-items-center rounded-2xl border border-[var(--theme-accent-border-soft)] bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]">
+            <AlarmClock className="h-5 w-5" />
+          </span>
+          <div className="min-w-0 flex-1">
+            <h2 id={titleId} className="font-display text-lg font-semibold text-[var(--text-primary)]">Remind me</h2>
+            <p className="text-xs text-[var(--text-muted)]">We will send a notification that opens this {MESSAGE_REMINDER_SOURCE_LABELS[target.source].toLowerCase()}.</p>
+          </div>
+          <button ref={closeRef} type="button" onClick={onClose} disabled={saving} aria-label="Close reminder" className="grid h-11 w-11 place-items-center rounded-full text-[var(--text-muted)] hover:bg-[var(--theme-surface-hover)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]">
+            <X className="h-5 w-5" />
+          </button>
+        </header>
+
+        <div className="space-y-5 p-5 pb-[calc(1.25rem+env(safe-area-inset-bottom))]">
+          <div className="rounded-2xl border border-[var(--border-subtle)] bg-[var(--bg-panel)] p-4">
+            <p className="font-medium text-[var(--text-primary)]">{target.label}</p>
+            <p className="mt-1 line-clamp-3 whitespace-pre-wrap text-sm leading-5 text-[var(--text-secondary)]">{target.preview}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2" role="group" aria-label="Reminder presets">
+            {MESSAGE_REMINDER_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                type="button"
+                disabled={saving}
+                onClick={() => void submit(getMessageReminderPresetTime(preset.id))}
+                className="min-h-11 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-3 py-2 text-left text-sm text-[var(--text-secondary)] transition-colors hover:border-[var(--border-glow)] hover:text-[var(--text-primary)] disabled:opacity-50"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          <label className="block text-sm font-semibold text-[var(--text-primary)]">
+            Custom time
+            <input
+              type="datetime-local"
+              value={customValue}
+              onChange={event => setCustomValue(event.target.value)}
+              className="obsidian-input mt-2 block min-h-11 w-full rounded-[var(--radius-sm)] px-3 text-sm font-normal text-[var(--text-primary)]"
+            />
+          </label>
+          {customError && <p className="text-xs text-[var(--text-muted)]">{customError}</p>}
+          <Button className="w-full" loading={saving} disabled={Boolean(customError)} onClick={() => void submit(customDate)}>
+            Set reminder
+          </Button>
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react'
+import { AlarmClock, ArrowUpRight, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { CatchUpItem } from '../catch-up/catchUpModel'
+import { formatScheduledSendTime } from '../scheduled-messages/scheduledMessagesModel'
+import {
+  getMessageReminderSourceItem,
+  getMessageReminderSourceLabel,
+  type MessageReminder,
+} from './messageRemindersModel'
+import { useUpcomingMessageReminders } from './useUpcomingMessageReminders'
+
+type UpcomingRemindersPanelProps = {
+  onOpenSource: (item: CatchUpItem) => void
+}
+
+/** Reminders that have not fired yet. Delivered ones arrive in the notification inbox. */
+export function UpcomingRemindersPanel({ onOpenSource }: UpcomingRemindersPanelProps) {
+  const { reminders, cancel } = useUpcomingMessageReminders()
+  const [cancelingId, setCancelingId] = useState<string | null>(null)
+
+  if (reminders.length === 0) return null
+
+  const handleCancel = async (reminder: MessageReminder) => {
+    setCancelingId(reminder.id)
+    try {
+      await cancel(reminder)
+    } catch {
+      toast.error('Could not cancel this reminder')
+    } finally {
+      setCancelingId(null)
+    }
+  }
+
+  return (
+    <section className="mt-5" aria-labelledby="catch-up-upcoming-reminders">
+      <div className="mb-3 flex items-end justify-between gap-3 px-1">
+        <div className="min-w-0">
+          <h2 id="catch-up-upcoming-reminders" className="flex items-center gap-2 text-lg font-bold text-[var(--text-primary)]">
+            <AlarmClock className="h-5 w-5 text-[var(--theme-accent-readable)]" />
+            Upcoming reminders
+          </h2>
+          <p className="mt-1 text-xs text-[var(--text-muted)]">Messages you asked to come back to. Each one sends a notification at its time.</p>
+        </div>
+        <span className="rounded-full border border-[var(--border-subtle)] px-2.5 py-1 text-xs font-semibold text-[var(--text-secondary)]">
+          {reminders.length}
+        </span>
+      </div>
+      <ul className="grid gap-2 sm:grid-cols-2">
+        {reminders.map(reminder => (
+          <li
+            key={reminder.id}
+            className="flex items-start gap-2 rounded-[var(--radius-lg)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] p-3"
+          >
+            <button
+              type="button"
+              onClick={() => onOpenSource(getMessageReminderSourceItem(reminder))}
+              className="min-w-0 flex-1 rounded-[var(--radius-sm)] text-left focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-focus-ring)]"
+              aria-label={`Open ${getMessageReminderSourceLabel(reminder).toLowerCase()} reminder for ${formatScheduledSendTime(reminder.remindAt)}`}
+            >
+              <span className="flex items-center gap-1.5 text-[0.68rem] font-semibold uppercase tracking-[0.12em] text-[var(--text-gold)]">
+                {formatScheduledSendTime(reminder.remindAt)}
+                <ArrowUpRight className="h-3 w-3" aria-hidden="true" />
+              </span>
+              <span className="mt-1 block text-sm font-semibold text-[var(--text-primary)]">{getMessageReminderSourceLabel(reminder)}</span>
+              <span className="mt-0.5 line-clamp-2 block text-sm leading-5 text-[var(--text-secondary)]">{reminder.preview || 'Open the message'}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleCancel(reminder)}
+              disabled={cancelingId === reminder.id}
+              aria-label={`Cancel reminder for ${formatScheduledSendTime(reminder.remindAt)}`}
+              className="grid h-9 w-9 shrink-0 place-items-center rounded-full text-[var(--text-muted)] transition-colors hover:bg-[var(--theme-surface-hover)] hover:text-[var(--text-primary)] disabled:opacity-50"
+            >
+              <X className="h-4 w-4" aria-hidden="true" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
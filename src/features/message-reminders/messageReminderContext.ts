@@ -0,0 +1,12 @@
+import { createContext } from 'react'
+import type { MessageReminderTarget } from './messageRemindersModel'
+
+export type MessageReminderContextValue = {
+  openReminder: (target: MessageReminderTarget) => void
+  closeReminder: () => void
+}
+
+export const MessageReminderContext = createContext<MessageReminderContextValue>({
+  openReminder: () => undefined,
+  closeReminder: () => undefined,
+})
@@ -0,0 +1,100 @@
+import { getWorkingClient } from '../../lib/supabase'
+import {
+  MESSAGE_REMINDERS_CHANGED_EVENT,
+  normalizeMessageReminder,
+  type MessageReminder,
+  type MessageReminderSource,
+  type MessageRemindersChangedDetail,
+} from './messageRemindersModel'
+
+const MESSAGE_REMINDER_SELECT = [
+  'id',
+  'source',
+  'message_id',
+  'conversation_id',
+  'thread_id',
+  'image_id',
+  'preview',
+  'route',
+  'remind_at',
+  'status',
+  'sent_at',
+  'created_at',
+].join(', ')
+
+const requireReminder = (data: unknown) => {
+  const reminder = normalizeMessageReminder(data)
+  if (!reminder) throw new Error('Reminder response was incomplete.')
+  return reminder
+}
+
+export const announceMessageReminderChange = (reminder: MessageReminder) => {
+  if (typeof window === 'undefined') return
+  window.dispatchEvent(new CustomEvent<MessageRemindersChangedDetail>(MESSAGE_REMINDERS_CHANGED_EVENT, {
+    detail: { reminder },
+  }))
+}
+
+/**
+ * One reminder per message: setting another time for the same message moves
+ * the existing reminder (and re-arms it if it already fired).
+ */
+export const setMessageReminder = async (
+  userId: string,
+  target: { source: MessageReminderSource; messageId: string },
+  remindAt: Date,
+): Promise<MessageReminder> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('message_reminders')
+    .upsert({
+      user_id: userId,
+      source: target.source,
+      message_id: target.messageId,
+      remind_at: remindAt.toISOString(),
+    }, { onConflict: 'user_id,source,message_id' })
+    .select(MESSAGE_REMINDER_SELECT)
+    .single()
+  if (error) throw error
+  const reminder = requireReminder(data)
+  announceMessageReminderChange(reminder)
+  return reminder
+}
+
+export const rescheduleMessageReminder = async (id: string, remindAt: Date): Promise<MessageReminder> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('message_reminders')
+    .update({ remind_at: remindAt.toISOString() })
+    .eq('id', id)
+    .select(MESSAGE_REMINDER_SELECT)
+    .single()
+  if (error) throw error
+  const reminder = requireReminder(data)
+  announceMessageReminderChange(reminder)
+  return reminder
+}
+
+export const cancelMessageReminder = async (reminder: MessageReminder) => {
+  const client = await getWorkingClient()
+  const { error } = await client
+    .from('message_reminders')
+    .delete()
+    .eq('id', reminder.id)
+  if (error) throw error
+  announceMessageReminderChange({ ...reminder, status: 'canceled' })
+}
+
+export const listUpcomingMessageReminders = async (limit = 50): Promise<MessageReminder[]> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('message_reminders')
+    .select(MESSAGE_REMINDER_SELECT)
+    .eq('status', 'scheduled')
+    .order('remind_at', { ascending: true })
+    .limit(limit)
+  if (error) throw error
+  return ((data ?? []) as unknown[])
+    .map(normalizeMessageReminder)
+    .filter((reminder): reminder is MessageReminder => reminder !== null)
+}
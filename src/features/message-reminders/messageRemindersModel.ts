@@ -0,0 +1,147 @@
+import type { CatchUpItem } from '../catch-up/catchUpModel'
+
+export type MessageReminderSource = 'general' | 'dm' | 'shadow_pin_comment'
+export type MessageReminderStatus = 'scheduled' | 'sent' | 'canceled'
+export type MessageReminderPreset = 'in_20_minutes' | 'in_1_hour' | 'in_3_hours' | 'tomorrow_morning' | 'next_week'
+
+export interface MessageReminder {
+  id: string
+  source: MessageReminderSource
+  messageId: string
+  conversationId: string | null
+  threadId: string | null
+  imageId: string | null
+  preview: string
+  route: string
+  remindAt: string
+  status: MessageReminderStatus
+  sentAt: string | null
+  createdAt: string
+}
+
+/** What the "Remind me" action was opened on. */
+export interface MessageReminderTarget {
+  source: MessageReminderSource
+  messageId: string
+  label: string
+  preview: string
+}
+
+export interface MessageRemindersChangedDetail {
+  reminder: MessageReminder
+}
+
+export const MESSAGE_REMINDERS_CHANGED_EVENT = 'shadowchat:message-reminders-changed'
+
+export const MESSAGE_REMINDER_MIN_LEAD_MS = 60 * 1000
+export const MESSAGE_REMINDER_MAX_LEAD_MS = 365 * 24 * 60 * 60 * 1000
+
+export const MESSAGE_REMINDER_PRESETS: Array<{ id: MessageReminderPreset; label: string }> = [
+  { id: 'in_20_minutes', label: 'In 20 minutes' },
+  { id: 'in_1_hour', label: 'In 1 hour' },
+  { id: 'in_3_hours', label: 'In 3 hours' },
+  { id: 'tomorrow_morning', label: 'Tomorrow, 9 AM' },
+  { id: 'next_week', label: 'Next week' },
+]
+
+export const MESSAGE_REMINDER_SOURCE_LABELS: Record<MessageReminderSource, string> = {
+  general: 'General Chat',
+  dm: 'Direct message',
+  shadow_pin_comment: 'ShadowPin comment',
+}
+
+const SOURCES = new Set<MessageReminderSource>(['general', 'dm', 'shadow_pin_comment'])
+const STATUSES = new Set<MessageReminderStatus>(['scheduled', 'sent', 'canceled'])
+
+const asRecord = (value: unknown): Record<string, unknown> => {
+  if (Array.isArray(value)) return asRecord(value[0])
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {}
+}
+
+const asString = (value: unknown) => typeof value === 'string' && value ? value : null
+
+export const normalizeMessageReminder = (value: unknown): MessageReminder | null => {
+  const record = asRecord(value)
+  const id = asString(record.id)
+  const messageId = asString(record.message_id)
+  const remindAt = asString(record.remind_at)
+  const route = asString(record.route)
+  const source = asString(record.source) as MessageReminderSource | null
+  if (!id || !messageId || !remindAt || !source || !SOURCES.has(source)) return null
+  // Routes come from the server trigger; anything else is not an in-app link.
+  if (!route?.startsWith('/') || route.startsWith('//')) return null
+
+  const status = asString(record.status) as MessageReminderStatus | null
+  return {
+    id,
+    source,
+    messageId,
+    conversationId: asString(record.conversation_id),
+    threadId: asString(record.thread_id),
+    imageId: asString(record.image_id),
+    preview: asString(record.preview) ?? '',
+    route,
+    remindAt,
+    status: status && STATUSES.has(status) ? status : 'scheduled',
+    sentAt: asString(record.sent_at),
+    createdAt: asString(record.created_at) ?? '',
+  }
+}
+
+export const getMessageReminderSourceLabel = (reminder: Pick<MessageReminder, 'source' | 'threadId'>) => (
+  reminder.source === 'general' && reminder.threadId
+    ? 'Thread reply'
+    : MESSAGE_REMINDER_SOURCE_LABELS[reminder.source]
+)
+
+/** Keeps the upcoming list ordered by reminder time and drops rows that already fired. */
+export const mergeMessageReminder = (current: MessageReminder[], next: MessageReminder) => {
+  const withoutNext = current.filter(reminder => reminder.id !== next.id)
+  const merged = next.status === 'scheduled' ? [...withoutNext, next] : withoutNext
+  return merged.sort((left, right) => (
+    Date.parse(left.remindAt) - Date.parse(right.remindAt) || left.id.localeCompare(right.id)
+  ))
+}
+
+export const getMessageReminderPresetTime = (preset: MessageReminderPreset, now = new Date()) => {
+  const target = new Date(now)
+  switch (preset) {
+    case 'in_20_minutes':
+      return new Date(now.getTime() + 20 * 60 * 1000)
+    case 'in_1_hour':
+      return new Date(now.getTime() + 60 * 60 * 1000)
+    case 'in_3_hours':
+      return new Date(now.getTime() + 3 * 60 * 60 * 1000)
+    case 'tomorrow_morning':
+      target.setDate(target.getDate() + 1)
+      target.setHours(9, 0, 0, 0)
+      return target
+    case 'next_week':
+      // The coming Monday morning, never today.
+      target.setDate(target.getDate() + (((8 - target.getDay()) % 7) || 7))
+      target.setHours(9, 0, 0, 0)
+      return target
+  }
+}
+
+export const getMessageReminderTimeError = (remindAt: Date, now = Date.now()) => {
+  const time = remindAt.getTime()
+  if (!Number.isFinite(time)) return 'Choose a valid reminder time.'
+  if (time - now < MESSAGE_REMINDER_MIN_LEAD_MS) return 'Choose a time at least one minute from now.'
+  if (time - now > MESSAGE_REMINDER_MAX_LEAD_MS) return 'Reminders can be set up to a year ahead.'
+  return null
+}
+
+/** Lets Catch-Up open a reminder's message through its usual source navigation. */
+export const getMessageReminderSourceItem = (reminder: MessageReminder): CatchUpItem => ({
+  id: `message-reminder:${reminder.id}`,
+  kind: 'message_reminder',
+  occurredAt: reminder.remindAt,
+  actor: null,
+  title: getMessageReminderSourceLabel(reminder),
+  preview: reminder.preview || 'Open the message',
+  unreadCount: 0,
+  manuallyUnread: false,
+  target: { kind: 'app_route', route: reminder.route },
+  activityEventIds: [],
+})
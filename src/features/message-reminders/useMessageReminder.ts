@@ -0,0 +1,6 @@
+import { useContext } from 'react'
+import { MessageReminderContext } from './messageReminderContext'
+
+export function useMessageReminder() {
+  return useContext(MessageReminderContext)
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { getWorkingClient } from '../../lib/supabase'
+import { createRealtimeChannelName } from '../../lib/realtimeChannelName'
+import { cancelMessageReminder, listUpcomingMessageReminders, rescheduleMessageReminder } from './messageRemindersApi'
+import {
+  MESSAGE_REMINDERS_CHANGED_EVENT,
+  mergeMessageReminder,
+  type MessageReminder,
+  type MessageRemindersChangedDetail,
+} from './messageRemindersModel'
+
+export function useUpcomingMessageReminders(enabled = true) {
+  const [reminders, setReminders] = useState<MessageReminder[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  const requestVersionRef = useRef(0)
+  const refreshTimerRef = useRef<number | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return
+    const requestVersion = ++requestVersionRef.current
+    setLoading(true)
+    try {
+      const next = await listUpcomingMessageReminders()
+      if (requestVersion !== requestVersionRef.current) return
+      setReminders(next)
+      setError(null)
+    } catch (caught) {
+      if (requestVersion !== requestVersionRef.current) return
+      setError(caught instanceof Error ? caught : new Error('Unable to load reminders.'))
+    } finally {
+      if (requestVersion === requestVersionRef.current) setLoading(false)
+    }
+  }, [enabled])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    if (!enabled) return
+    const handleChange = (event: Event) => {
+      const changed = (event as CustomEvent<MessageRemindersChangedDetail>).detail?.reminder
+      if (changed) setReminders(current => mergeMessageReminder(current, changed))
+    }
+    window.addEventListener(MESSAGE_REMINDERS_CHANGED_EVENT, handleChange)
+    return () => window.removeEventListener(MESSAGE_REMINDERS_CHANGED_EVENT, handleChange)
+  }, [enabled])
+
+  useEffect(() => {
+    if (!enabled) return
+    let disposed = false
+    let channel: RealtimeChannel | null = null
+    let realtimeClient: Awaited<ReturnType<typeof getWorkingClient>> | null = null
+
+    // RLS keeps reminder changes to their owner, so the delivery run's
+    // "sent" transition drops the row from this list on every open device.
+    void getWorkingClient().then(client => {
+      if (disposed) return
+      realtimeClient = client
+      channel = client
+        .channel(createRealtimeChannelName('message-reminders'))
+        .on('postgres_changes', {
+          event: '*',
+          schema: 'public',
+          table: 'message_reminders',
+        }, () => {
+          if (refreshTimerRef.current !== null) window.clearTimeout(refreshTimerRef.current)
+          refreshTimerRef.current = window.setTimeout(() => {
+            refreshTimerRef.current = null
+            void refresh()
+          }, 120)
+        })
+        .subscribe()
+    }).catch(() => undefined)
+
+    return () => {
+      disposed = true
+      if (refreshTimerRef.current !== null) window.clearTimeout(refreshTimerRef.current)
+      if (channel && realtimeClient) void realtimeClient.removeChannel(channel)
+    }
+  }, [enabled, refresh])
+
+  const cancel = useCallback((reminder: MessageReminder) => cancelMessageReminder(reminder), [])
+  const reschedule = useCallback((id: string, remindAt: Date) => rescheduleMessageReminder(id, remindAt), [])
+
+  return { reminders, loading, error, refresh, cancel, reschedule }
+}
@@ -0,0 +1,39 @@
+import { Languages } from 'lucide-react'
+import { cn } from '../../lib/utils'
+import { getTranslationLanguageLabel } from './translationModel'
+import type { useMessageTranslation } from './useMessageTranslation'
+
+type MessageTranslationState = ReturnType<typeof useMessageTranslation>
+
+export function MessageTranslationNotice({
+  translation,
+  className,
+}: {
+  translation: MessageTranslationState
+  className?: string
+}) {
+  if (translation.loading && !translation.available) {
+    return (
+      <p className={cn('mt-1 text-[0.7rem] text-[var(--text-muted)]', className)} role="status">
+        Translating...
+      </p>
+    )
+  }
+  if (!translation.available) return null
+
+  const source = getTranslationLanguageLabel(translation.sourceLanguage)
+  return (
+    <p className={cn('mt-1 flex flex-wrap items-center gap-1 text-[0.7rem] text-[var(--text-muted)]', className)}>
+      <Languages className="h-3 w-3" aria-hidden="true" />
+      {translation.translated ? (source ? `Translated from ${source}` : 'Translated') : 'Original'}
+      <span aria-hidden="true">·</span>
+      <button
+        type="button"
+        onClick={translation.translated ? translation.showOriginal : translation.showTranslation}
+        className="font-semibold text-[var(--theme-accent-readable)] underline-offset-2 hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-focus-ring)]"
+      >
+        {translation.translated ? 'Show original' : 'Show translation'}
+      </button>
+    </p>
+  )
+}
@@ -0,0 +1,56 @@
+import { Languages } from 'lucide-react'
+import { Button } from '../../components/ui/Button'
+import { TRANSLATION_LANGUAGES, type TranslationConversationKey } from './translationModel'
+import { useTranslationPreferences } from './useMessageTranslation'
+
+export function TranslationSettings() {
+  const { preferences, setLanguage, setConversationAutoTranslate } = useTranslationPreferences()
+  const autoTranslated = Object.keys(preferences.autoTranslate) as TranslationConversationKey[]
+
+  return (
+    <section className="glass-panel rounded-[var(--radius-lg)] p-5" aria-labelledby="translation-settings-title">
+      <div className="flex items-start gap-3">
+        <span className="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full border border-[rgba(215,170,70,0.2)] bg-[rgba(215,170,70,0.08)] text-[var(--text-gold)]">
+          <Languages className="h-5 w-5" />
+        </span>
+        <div className="min-w-0">
+          <h2 id="translation-settings-title" className="text-lg font-semibold text-[var(--text-primary)]">
+            Translation
+          </h2>
+          <p className="mt-1 text-sm leading-6 text-[var(--text-muted)]">
+            Translate turns messages into this language. Turn on auto-translate from General Chat tools or a DM's details.
+          </p>
+        </div>
+      </div>
+
+      <label className="mt-5 block">
+        <span className="mb-2 block text-sm font-medium text-[var(--text-secondary)]">Preferred language</span>
+        <select
+          value={preferences.language}
+          onChange={event => setLanguage(event.target.value)}
+          className="obsidian-input w-full rounded-[var(--radius-md)] px-3.5 py-3 text-sm"
+        >
+          {TRANSLATION_LANGUAGES.map(language => (
+            <option key={language.code} value={language.code}>{language.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {autoTranslated.length > 0 && (
+        <div className="mt-4 flex flex-col gap-3 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] p-3 sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-sm text-[var(--text-muted)]">
+            Auto-translate is on in {autoTranslated.length} {autoTranslated.length === 1 ? 'conversation' : 'conversations'}.
+          </p>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => autoTranslated.forEach(key => setConversationAutoTranslate(key, false))}
+            className="justify-center"
+          >
+            Turn off everywhere
+          </Button>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,16 @@
+import { Languages } from 'lucide-react'
+import type { ChatMessageAction } from '../../components/chat/ChatMessageActionsMenu'
+import type { useMessageTranslation } from './useMessageTranslation'
+
+export const getTranslationAction = (translation: ReturnType<typeof useMessageTranslation>): ChatMessageAction => ({
+  id: 'translate',
+  label: translation.translated ? 'Show original' : translation.available ? 'Show translation' : 'Translate',
+  icon: Languages,
+  hidden: !translation.canTranslate,
+  disabled: translation.loading,
+  onSelect: translation.translated
+    ? translation.showOriginal
+    : translation.available
+      ? translation.showTranslation
+      : translation.translate,
+})
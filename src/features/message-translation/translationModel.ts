@@ -0,0 +1,131 @@
+import type { ChatMessageType } from '../../lib/supabase'
+
+export const TRANSLATION_PREFERENCES_VERSION = 1 as const
+
+export type TranslationLanguage = {
+  code: string
+  label: string
+}
+
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'pt', label: 'Português' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+  { code: 'zh', label: '中文' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'hi', label: 'हिन्दी' },
+]
+
+export const DEFAULT_TRANSLATION_LANGUAGE = 'en'
+
+export type TranslationConversationKey = 'general' | `dm:${string}`
+
+export type TranslationPreferences = {
+  version: typeof TRANSLATION_PREFERENCES_VERSION
+  language: string
+  /** Conversation key to the ISO time auto-translate was switched on. */
+  autoTranslate: Partial<Record<TranslationConversationKey, string>>
+}
+
+export type CachedTranslation = {
+  text: string
+  sourceLanguage: string | null
+  translatedAt: string
+}
+
+/**
+ * Auto-translate covers the hour before it was switched on and everything
+ * after. Older history stays one tap away through the Translate action, so
+ * opening a long conversation does not fan out into hundreds of AI calls.
+ */
+export const AUTO_TRANSLATE_LOOKBACK_MS = 60 * 60 * 1000
+
+const LANGUAGE_CODES = new Set(TRANSLATION_LANGUAGES.map(language => language.code))
+
+export const isSupportedTranslationLanguage = (code: unknown): code is string =>
+  typeof code === 'string' && LANGUAGE_CODES.has(code)
+
+export const getTranslationLanguageLabel = (code: string | null | undefined) => {
+  if (!code) return null
+  const language = TRANSLATION_LANGUAGES.find(entry => entry.code === code)
+  if (language) return language.label
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code
+  } catch {
+    return code
+  }
+}
+
+export const detectPreferredTranslationLanguage = (languages: readonly string[] | undefined) => {
+  for (const tag of languages ?? []) {
+    const base = tag.toLowerCase().split('-')[0]
+    if (LANGUAGE_CODES.has(base)) return base
+  }
+  return DEFAULT_TRANSLATION_LANGUAGE
+}
+
+export const getTranslationConversationKey = (
+  surface: 'general' | 'dm',
+  conversationId?: string | null,
+): TranslationConversationKey => surface === 'dm' && conversationId ? `dm:${conversationId}` : 'general'
+
+const isConversationKey = (value: string): value is TranslationConversationKey =>
+  value === 'general' || /^dm:[0-9a-f-]{36}$/i.test(value)
+
+export const normalizeTranslationPreferences = (
+  value: unknown,
+  fallbackLanguage: string,
+): TranslationPreferences => {
+  const record = value && typeof value === 'object' ? value as Record<string, unknown> : {}
+  const autoTranslate: TranslationPreferences['autoTranslate'] = {}
+  const rawAuto = record.autoTranslate && typeof record.autoTranslate === 'object'
+    ? record.autoTranslate as Record<string, unknown>
+    : {}
+  Object.entries(rawAuto).forEach(([key, enabledAt]) => {
+    if (isConversationKey(key) && typeof enabledAt === 'string' && Number.isFinite(Date.parse(enabledAt))) {
+      autoTranslate[key] = enabledAt
+    }
+  })
+
+  return {
+    version: TRANSLATION_PREFERENCES_VERSION,
+    language: isSupportedTranslationLanguage(record.language) ? record.language : fallbackLanguage,
+    autoTranslate,
+  }
+}
+
+export const shouldAutoTranslateMessage = (
+  preferences: TranslationPreferences,
+  conversationKey: TranslationConversationKey,
+  createdAt: string,
+) => {
+  const enabledAt = preferences.autoTranslate[conversationKey]
+  if (!enabledAt) return false
+  return Date.parse(createdAt) >= Date.parse(enabledAt) - AUTO_TRANSLATE_LOOKBACK_MS
+}
+
+const WORDLESS_PATTERN = /^[\s\p{P}\p{S}\p{N}]*$/u
+
+export const canTranslateMessage = (messageType: ChatMessageType, content: string | null | undefined) => {
+  if (messageType !== 'text') return false
+  const text = content?.trim() ?? ''
+  return text.length > 1 && !WORDLESS_PATTERN.test(text)
+}
+
+/** FNV-1a, so an edited message never reuses a stale translation. */
+const fingerprint = (value: string) => {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+export const getTranslationCacheKey = (messageId: string, language: string, content: string) =>
+  `${messageId}:${language}:${fingerprint(content)}`
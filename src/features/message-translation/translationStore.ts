@@ -0,0 +1,180 @@
+import { translateText } from '../../lib/ai'
+import {
+  detectPreferredTranslationLanguage,
+  getTranslationCacheKey,
+  normalizeTranslationPreferences,
+  type CachedTranslation,
+  type TranslationConversationKey,
+  type TranslationPreferences,
+} from './translationModel'
+
+const PREFERENCES_STORAGE_KEY = 'shadowchat:translation-preferences:v1'
+const CACHE_STORAGE_KEY = 'shadowchat:translation-cache:v1'
+const CACHE_LIMIT = 400
+const MAX_CONCURRENT_TRANSLATIONS = 2
+
+type Listener = () => void
+
+const listeners = new Set<Listener>()
+let preferences: TranslationPreferences | null = null
+let cache: Map<string, CachedTranslation> | null = null
+const inFlight = new Map<string, Promise<CachedTranslation>>()
+const queue: Array<() => void> = []
+let activeTranslations = 0
+
+const getStorage = () => {
+  try {
+    return typeof window === 'undefined' ? null : window.localStorage
+  } catch {
+    return null
+  }
+}
+
+const emit = () => listeners.forEach(listener => listener())
+
+export const subscribeToTranslations = (listener: Listener) => {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+const getFallbackLanguage = () =>
+  detectPreferredTranslationLanguage(typeof navigator === 'undefined' ? undefined : navigator.languages)
+
+export const getTranslationPreferences = (): TranslationPreferences => {
+  if (preferences) return preferences
+
+  let stored: unknown = null
+  try {
+    stored = JSON.parse(getStorage()?.getItem(PREFERENCES_STORAGE_KEY) ?? 'null')
+  } catch {
+    stored = null
+  }
+  preferences = normalizeTranslationPreferences(stored, getFallbackLanguage())
+  return preferences
+}
+
+const saveTranslationPreferences = (next: TranslationPreferences) => {
+  preferences = next
+  try {
+    getStorage()?.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(next))
+  } catch {
+    // Private browsing can reject writes; the in-memory copy still applies.
+  }
+  emit()
+}
+
+export const setPreferredTranslationLanguage = (language: string) => {
+  saveTranslationPreferences({ ...getTranslationPreferences(), language })
+}
+
+export const setAutoTranslate = (conversationKey: TranslationConversationKey, enabled: boolean) => {
+  const current = getTranslationPreferences()
+  const autoTranslate = { ...current.autoTranslate }
+  if (enabled) autoTranslate[conversationKey] = new Date().toISOString()
+  else delete autoTranslate[conversationKey]
+  saveTranslationPreferences({ ...current, autoTranslate })
+}
+
+const loadCache = () => {
+  if (cache) return cache
+  cache = new Map()
+  try {
+    const entries = JSON.parse(getStorage()?.getItem(CACHE_STORAGE_KEY) ?? '[]') as unknown
+    if (Array.isArray(entries)) {
+      entries.forEach(entry => {
+        if (Array.isArray(entry) && typeof entry[0] === 'string' && typeof entry[1]?.text === 'string') {
+          cache?.set(entry[0], entry[1] as CachedTranslation)
+        }
+      })
+    }
+  } catch {
+    cache.clear()
+  }
+  return cache
+}
+
+const persistCache = () => {
+  const current = loadCache()
+  while (current.size > CACHE_LIMIT) {
+    const oldest = current.keys().next().value
+    if (oldest === undefined) break
+    current.delete(oldest)
+  }
+  try {
+    getStorage()?.setItem(CACHE_STORAGE_KEY, JSON.stringify(Array.from(current.entries())))
+  } catch {
+    // A full quota only costs a repeat request later.
+  }
+}
+
+export const getCachedTranslation = (messageId: string, language: string, content: string) =>
+  loadCache().get(getTranslationCacheKey(messageId, language, content)) ?? null
+
+const runQueued = <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+  const start = () => {
+    activeTranslations += 1
+    task().then(resolve, reject).finally(() => {
+      activeTranslations -= 1
+      queue.shift()?.()
+    })
+  }
+  if (activeTranslations < MAX_CONCURRENT_TRANSLATIONS) start()
+  else queue.push(start)
+})
+
+export const translateMessage = (messageId: string, language: string, content: string) => {
+  const key = getTranslationCacheKey(messageId, language, content)
+  const cached = loadCache().get(key)
+  if (cached) return Promise.resolve(cached)
+  const pending = inFlight.get(key)
+  if (pending) return pending
+
+  const request = runQueued(() => translateText(content, language))
+    .then(result => {
+      const entry: CachedTranslation = {
+        text: result.translation,
+        sourceLanguage: result.sourceLanguage,
+        translatedAt: new Date().toISOString(),
+      }
+      loadCache().set(key, entry)
+      persistCache()
+      emit()
+      return entry
+    })
+    .finally(() => { inFlight.delete(key) })
+  inFlight.set(key, request)
+  return request
+}
+
+/** Drops every cached translation of the given messages once they are deleted or expire. */
+export const forgetTranslations = (messageIds: Iterable<string>) => {
+  const prefixes = Array.from(messageIds, messageId => `${messageId}:`)
+  if (prefixes.length === 0) return
+
+  const current = loadCache()
+  const forgotten = Array.from(current.keys()).filter(key => prefixes.some(prefix => key.startsWith(prefix)))
+  if (forgotten.length === 0) return
+
+  forgotten.forEach(key => current.delete(key))
+  persistCache()
+  emit()
+}
+
+/** Translations hold message text, so they leave the device with the session. */
+export const clearTranslationCache = () => {
+  cache = new Map()
+  try {
+    getStorage()?.removeItem(CACHE_STORAGE_KEY)
+  } catch {
+    // Nothing else to clear when storage is unavailable.
+  }
+  emit()
+}
+
+export const resetTranslationStoreForTests = () => {
+  preferences = null
+  cache = null
+  inFlight.clear()
+  queue.length = 0
+  activeTranslations = 0
+}
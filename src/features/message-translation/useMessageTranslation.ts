@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react'
+import toast from 'react-hot-toast'
+import {
+  getCachedTranslation,
+  getTranslationPreferences,
+  setAutoTranslate,
+  setPreferredTranslationLanguage,
+  subscribeToTranslations,
+  translateMessage,
+} from './translationStore'
+import {
+  canTranslateMessage,
+  getTranslationLanguageLabel,
+  shouldAutoTranslateMessage,
+  type CachedTranslation,
+  type TranslationConversationKey,
+} from './translationModel'
+import type { ChatMessageType } from '../../lib/supabase'
+
+export function useTranslationPreferences() {
+  const preferences = useSyncExternalStore(
+    subscribeToTranslations,
+    getTranslationPreferences,
+    getTranslationPreferences,
+  )
+
+  return {
+    preferences,
+    setLanguage: setPreferredTranslationLanguage,
+    setConversationAutoTranslate: setAutoTranslate,
+  }
+}
+
+// The model echoes text that is already in the target language.
+const isUntranslated = (entry: CachedTranslation | null, language: string, content: string) =>
+  Boolean(entry) && (entry?.sourceLanguage === language || entry?.text === content.trim())
+
+type MessageTranslationOptions = {
+  conversationKey: TranslationConversationKey
+  messageId: string
+  messageType: ChatMessageType
+  content: string
+  createdAt: string
+  isOwn: boolean
+  disabled?: boolean
+}
+
+/**
+ * Per-message translation state. Translations are cached by message, target
+ * language, and content, so toggling back and forth never repeats a request
+ * and the original text is always one tap away.
+ */
+export function useMessageTranslation({
+  conversationKey,
+  messageId,
+  messageType,
+  content,
+  createdAt,
+  isOwn,
+  disabled = false,
+}: MessageTranslationOptions) {
+  const { preferences } = useTranslationPreferences()
+  const language = preferences.language
+  const translation = useSyncExternalStore(
+    subscribeToTranslations,
+    () => getCachedTranslation(messageId, language, content),
+    () => null,
+  )
+  const canTranslate = !disabled && canTranslateMessage(messageType, content)
+  const autoTranslate = canTranslate && !isOwn && shouldAutoTranslateMessage(preferences, conversationKey, createdAt)
+  const [requested, setRequested] = useState(false)
+  const [showOriginal, setShowOriginal] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const translate = useCallback(async (quiet = false) => {
+    setRequested(true)
+    setShowOriginal(false)
+    setLoading(true)
+    try {
+      const entry = await translateMessage(messageId, language, content)
+      if (!quiet && isUntranslated(entry, language, content)) {
+        toast(`Already in ${getTranslationLanguageLabel(language)}`)
+      }
+    } catch (error) {
+      setRequested(false)
+      if (!quiet) toast.error(error instanceof Error && error.message ? error.message : 'Translation is unavailable right now.')
+    } finally {
+      setLoading(false)
+    }
+  }, [content, language, messageId])
+
+  useEffect(() => {
+    if (autoTranslate && !translation) void translate(true)
+  }, [autoTranslate, translate, translation])
+
+  const available = Boolean(translation)
+    && (requested || autoTranslate)
+    && !isUntranslated(translation, language, content)
+  const translated = available && !showOriginal
+
+  return {
+    canTranslate,
+    loading,
+    translated,
+    available,
+    text: translated && translation ? translation.text : content,
+    sourceLanguage: translation?.sourceLanguage ?? null,
+    translate: () => void translate(),
+    showOriginal: () => setShowOriginal(true),
+    showTranslation: () => setShowOriginal(false),
+  }
+}
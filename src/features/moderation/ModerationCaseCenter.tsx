@@ -33,6 +33,14 @@ import {
   type ModerationTargetType,
   MODERATION_REPORT_REASONS,
 } from '../../lib/moderationCases'
+import { getModerationCaseMessageHistory } from '../message-history/messageHistoryApi'
+import { MessageDiffText } from '../message-history/MessageDiffText'
+import {
+  diffMessageVersions,
+  getMessageVersions,
+  getOriginalMessageText,
+  type MessageEditHistory,
+} from '../message-history/messageHistoryModel'
 
 const queues: Array<{ value: ModerationCaseQueue; label: string }> = [
   { value: 'new', label: 'New' },
@@ -212,6 +220,38 @@ function Pill({ value }: { value: string }) {
   return <span className="rounded-full border border-[var(--theme-accent-border-soft)] bg-[var(--theme-accent-soft)] px-2.5 py-1 text-xs font-medium capitalize text-[var(--theme-accent-readable)]">{value.replace(/_/g, ' ')}</span>
 }
 
+function CaseMessageHistory({ caseId, version }: { caseId: string; version: number }) {
+  const [history, setHistory] = useState<MessageEditHistory | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setHistory(null)
+    getModerationCaseMessageHistory(caseId)
+      .then(next => { if (!cancelled) setHistory(next) })
+      .catch(() => { if (!cancelled) setHistory(null) })
+    return () => { cancelled = true }
+  }, [caseId, version])
+
+  if (!history || history.revisions.length === 0) return null
+  const versions = getMessageVersions(history)
+
+  return (
+    <div className="mt-4 space-y-3" data-testid="moderation-message-history">
+      <h4 className="text-sm font-semibold text-[var(--text-primary)]">Original text</h4>
+      <p className="whitespace-pre-wrap rounded-2xl border border-[var(--border-subtle)] bg-[rgba(0,0,0,0.18)] p-4 text-sm leading-6 text-[var(--text-secondary)]">{getOriginalMessageText(history)}</p>
+      <h4 className="text-sm font-semibold text-[var(--text-primary)]">Edit timeline</h4>
+      <ol className="space-y-2">
+        {versions.slice(1).map((entry, index) => (
+          <li key={entry.label} className="rounded-2xl border border-[var(--border-subtle)] p-3">
+            <p className="mb-1 text-xs text-[var(--text-muted)]">{entry.label} · {formatDate(entry.timestamp)}</p>
+            <MessageDiffText segments={diffMessageVersions(versions[index].content, entry.content)} />
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
 function CaseDetail({ detail, loading, saving, currentUserId, onBack, onRefresh, applyAndRefresh }: {
   detail: ModerationCaseDetail | null
   loading: boolean
@@ -282,6 +322,7 @@ function CaseDetail({ detail, loading, saving, currentUserId, onBack, onRefresh,
         <h3 className="font-semibold text-[var(--text-primary)]">Immutable evidence</h3>
         <p className="mt-3 whitespace-pre-wrap rounded-2xl border border-[var(--border-subtle)] bg-[rgba(0,0,0,0.18)] p-4 text-sm leading-6 text-[var(--text-secondary)]">{evidenceText}</p>
         <p className="mt-2 text-xs text-[var(--text-muted)]">Captured {formatDate(firstEvidence?.captured_at)} · Source is not trusted from the reporting client.</p>
+        {(record.targetType === 'general_message' || record.targetType === 'dm_message') && <CaseMessageHistory caseId={record.id} version={record.version} />}
         {detail.reports.flatMap(report => report.attachments ?? []).map(attachment => attachment.signedUrl ? <a key={attachment.id} href={attachment.signedUrl} target="_blank" rel="noreferrer" className="mt-3 inline-flex items-center gap-2 rounded-xl border border-[var(--border-panel)] px-3 py-2 text-sm text-[var(--theme-accent-readable)]"><ExternalLink className="h-4 w-4" />{attachment.name}</a> : null)}
       </section>
 
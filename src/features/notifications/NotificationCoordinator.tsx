@@ -36,6 +36,7 @@ import {
 } from './notificationApi'
 import {
   buildNotificationPresentation,
+  getNotificationConversationSoundId,
   getNotificationEventMediaIds,
   isNotificationPresentationCandidate,
   isNotificationSourceActive,
@@ -244,7 +245,8 @@ export function NotificationCoordinatorProvider({ children }: { children: ReactN
       const envelope = buildNotificationEnvelopeV2(event, presentation, {
         previewMode: preferences.notification_preview_mode,
         mediaEnabled: preferences.notification_media_enabled,
-        soundId: preferences.notification_event_sound_map?.[event.type] ??
+        soundId: getNotificationConversationSoundId(event, preferences) ??
+          preferences.notification_event_sound_map?.[event.type] ??
           preferences.notification_sound_map?.[
           getNotificationTypePolicyV2(event.type).category
         ],
@@ -1,4 +1,8 @@
-import { getDefaultNotificationPreferences } from '../../lib/push'
+import {
+  fetchConversationNotificationMutes,
+  fetchConversationNotificationRules,
+  getDefaultNotificationPreferences,
+} from '../../lib/push'
 import { requestAppBadgeRefresh } from '../../lib/appBadge'
 import { getWorkingClient } from '../../lib/supabase'
 import type {
@@ -29,6 +33,7 @@ const EVENT_SELECT = [
   'resolved_at',
   'created_at',
   'presentation_expires_at',
+  'digest_batch_id',
 ].join(', ')
 
 export const fetchNotificationCoordinatorPreferences = async (
@@ -46,11 +51,21 @@ export const fetchNotificationCoordinatorPreferences = async (
     await fetchNotificationCategoryPresentationPreferences(userId)
   const notificationEventSoundMap =
     await fetchNotificationEventPresentationPreferences(userId, notificationSoundMap)
+  const [conversationRules, conversationMutes] = await Promise.all([
+    fetchConversationNotificationRules(userId),
+    fetchConversationNotificationMutes(userId),
+  ])
   return {
     ...getDefaultNotificationPreferences(userId),
     ...(data ?? {}),
     notification_sound_map: notificationSoundMap,
     notification_event_sound_map: notificationEventSoundMap,
+    notification_conversation_rules: Object.fromEntries(
+      conversationRules.map(rule => [rule.conversation_id, rule]),
+    ),
+    notification_conversation_mutes: Object.fromEntries(
+      conversationMutes.map(mute => [mute.conversation_id, mute.muted_until]),
+    ),
   } as NotificationCoordinatorPreferences
 }
 
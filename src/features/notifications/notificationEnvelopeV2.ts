@@ -45,7 +45,14 @@ export type NotificationSoundId = typeof NOTIFICATION_SOUND_IDS[number]
 
 export const NOTIFICATION_PRIVACY_MODES = ['full', 'sender_only', 'private'] as const
 export const NOTIFICATION_PRIORITIES = ['ambient', 'normal', 'high', 'urgent'] as const
-export const NOTIFICATION_ACTION_KEYS = ['open', 'mark_read'] as const
+export const NOTIFICATION_ACTION_KEYS = [
+  'open',
+  'mark_read',
+  'reply',
+  'react',
+  'mute_conversation',
+] as const
+export const NOTIFICATION_QUICK_ACTION_KEYS = ['reply', 'react', 'mute_conversation'] as const
 export const NOTIFICATION_BADGE_CATEGORIES = [
   'dm',
   'group',
@@ -68,6 +75,7 @@ export const NOTIFICATION_ANDROID_CHANNEL_KEYS = [
 export type NotificationPrivacyMode = typeof NOTIFICATION_PRIVACY_MODES[number]
 export type NotificationPriority = typeof NOTIFICATION_PRIORITIES[number]
 export type NotificationActionKey = typeof NOTIFICATION_ACTION_KEYS[number]
+export type NotificationQuickActionKey = typeof NOTIFICATION_QUICK_ACTION_KEYS[number]
 export type NotificationBadgeCategory = typeof NOTIFICATION_BADGE_CATEGORIES[number]
 export type NotificationAndroidChannelKey =
   typeof NOTIFICATION_ANDROID_CHANNEL_KEYS[number]
@@ -101,6 +109,8 @@ export interface NotificationEnvelopeV2 {
     alt: string
   } | null
   actions: NotificationActionKey[]
+  /** Signed credential that lets a quick action run without a session. */
+  actionToken?: string
   soundId: NotificationSoundId
   androidChannelKey: NotificationAndroidChannelKey
   badgeCategory: NotificationBadgeCategory
@@ -287,6 +297,16 @@ const typePolicies: Record<string, NotificationTypePolicy> = {
     badge: 'interactions',
     actionLabel: 'View Reply',
   },
+  keyword_alert: {
+    category: 'mentions_replies',
+    eyebrow: 'Keyword alert',
+    groupKey: entityGroup('keyword'),
+    priority: 'normal',
+    soundId: 'gold_signal',
+    channel: 'mentions_v1',
+    badge: 'interactions',
+    actionLabel: 'View Message',
+  },
   reaction: {
     category: 'reactions_hype',
     eyebrow: 'Reaction',
@@ -457,6 +477,16 @@ const typePolicies: Record<string, NotificationTypePolicy> = {
     badge: 'none',
     actionLabel: 'View Weather',
   },
+  message_reminder: {
+    category: 'system',
+    eyebrow: 'Reminder',
+    groupKey: entityGroup('reminder'),
+    priority: 'high',
+    soundId: 'system_default',
+    channel: 'social_v1',
+    badge: 'none',
+    actionLabel: 'View Message',
+  },
   security_alert: {
     category: 'security',
     eyebrow: 'Security',
@@ -625,6 +655,9 @@ const hasExactKeys = (
   return actual.length === keys.length && actual.every(key => keys.includes(key))
 }
 
+const isNotificationQuickActionKey = (value: unknown) =>
+  NOTIFICATION_QUICK_ACTION_KEYS.includes(value as NotificationQuickActionKey)
+
 const isBoundedString = (
   value: unknown,
   maxLength: number,
@@ -658,12 +691,13 @@ export const isNotificationEnvelopeV2 = (
   const content = asRecord(record.content)
   const media = record.media === null ? null : asRecord(record.media)
   const actions = Array.isArray(record.actions) ? record.actions : []
+  const hasActionToken = 'actionToken' in record
   const expiresAt = typeof record.expiresAt === 'string'
     ? Date.parse(record.expiresAt)
     : Number.NaN
 
   return (
-    hasExactKeys(record, ENVELOPE_KEYS) &&
+    hasExactKeys(record, hasActionToken ? [...ENVELOPE_KEYS, 'actionToken'] : ENVELOPE_KEYS) &&
     record.schemaVersion === NOTIFICATION_ENVELOPE_VERSION &&
     isBoundedString(record.eventId, 128) &&
     eventIds.length >= 1 &&
@@ -720,11 +754,18 @@ export const isNotificationEnvelopeV2 = (
       )
     ) &&
     actions.length >= 1 &&
-    actions.length <= 2 &&
+    actions.length <= 5 &&
     actions.every(action =>
       NOTIFICATION_ACTION_KEYS.includes(action as NotificationActionKey)
     ) &&
     new Set(actions).size === actions.length &&
+    (
+      hasActionToken
+        ? isBoundedString(record.actionToken, 512) &&
+          /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(record.actionToken) &&
+          actions.some(isNotificationQuickActionKey)
+        : !actions.some(isNotificationQuickActionKey)
+    ) &&
     isNotificationSoundId(record.soundId) &&
     NOTIFICATION_ANDROID_CHANNEL_KEYS.includes(
       record.androidChannelKey as NotificationAndroidChannelKey,
@@ -1,7 +1,11 @@
-import type { NotificationPreferences } from '../../lib/push'
 import type {
-  NotificationPresentationCategory,
-  NotificationSoundId,
+  ConversationNotificationRule,
+  NotificationPreferences,
+} from '../../lib/push'
+import {
+  isNotificationSoundId,
+  type NotificationPresentationCategory,
+  type NotificationSoundId,
 } from './notificationEnvelopeV2'
 
 export type NotificationCategory =
@@ -33,6 +37,7 @@ export interface NotificationEventRecord {
   resolved_at: string | null
   created_at: string
   presentation_expires_at: string
+  digest_batch_id?: string | null
 }
 
 export type NotificationCoordinatorPreferences = NotificationPreferences & {
@@ -44,6 +49,13 @@ export type NotificationCoordinatorPreferences = NotificationPreferences & {
   notification_event_sound_map?: Partial<
     Record<string, NotificationSoundId>
   >
+  notification_conversation_rules?: Partial<
+    Record<string, ConversationNotificationRule>
+  >
+  /** Conversation id to `muted_until`; null means muted until resumed. */
+  notification_conversation_mutes?: Partial<
+    Record<string, string | null>
+  >
 }
 
 export interface NotificationPresentation {
@@ -108,6 +120,7 @@ const getFallbackRoute = (
     event.type === 'group_message' ||
     event.type === 'mention' ||
     event.type === 'reply' ||
+    event.type === 'keyword_alert' ||
     event.type === 'reaction' ||
     event.type === 'hype_event'
   ) {
@@ -152,6 +165,10 @@ const getDefaultTitle = (
     case 'group_message': return `${actor} posted in General Chat`
     case 'mention': return `${actor} mentioned you`
     case 'reply': return `${actor} replied to you`
+    case 'keyword_alert':
+      return asString(payload.keyword)
+        ? `${actor} mentioned "${asString(payload.keyword)}"`
+        : `${actor} matched a keyword alert`
     case 'reaction': return `${actor} reacted to your message`
     case 'hype_event': return `${actor} sent Hype`
     case 'connection_request': return `${actor} sent you a connection request`
@@ -170,6 +187,7 @@ const getDefaultTitle = (
       return asString(payload.opponent_name)
         ? `Your move against ${asString(payload.opponent_name)}`
         : 'Your move in Shadow Checkers'
+    case 'message_reminder': return 'Reminder'
     default: return 'New ShadowChat update'
   }
 }
@@ -262,6 +280,7 @@ const parseClockMinutes = (value: string | null | undefined) => {
 export const isNotificationQuietNow = (
   preferences: Partial<NotificationCoordinatorPreferences>,
   now = new Date(),
+  options: { bypassQuietHours?: boolean } = {},
 ) => {
   if (
     preferences.mute_until &&
@@ -269,6 +288,7 @@ export const isNotificationQuietNow = (
   ) {
     return true
   }
+  if (options.bypassQuietHours) return false
 
   const start = parseClockMinutes(preferences.quiet_hours_start)
   const end = parseClockMinutes(preferences.quiet_hours_end)
@@ -283,22 +303,66 @@ export const isNotificationQuietNow = (
     : current >= start || current < end
 }
 
+const getConversationRule = (
+  event: NotificationEventRecord,
+  preferences: Partial<NotificationCoordinatorPreferences>,
+) => (
+  event.type === 'dm_message' && event.conversation_id
+    ? preferences.notification_conversation_rules?.[event.conversation_id] ?? null
+    : null
+)
+
+const isConversationMutedNow = (
+  event: NotificationEventRecord,
+  preferences: Partial<NotificationCoordinatorPreferences>,
+  now: Date,
+) => {
+  if (!event.conversation_id) return false
+  const mutes = preferences.notification_conversation_mutes ?? {}
+  if (!(event.conversation_id in mutes)) return false
+  const mutedUntil = mutes[event.conversation_id]
+  return !mutedUntil || Date.parse(mutedUntil) > now.getTime()
+}
+
+export const getNotificationConversationSoundId = (
+  event: NotificationEventRecord,
+  preferences: Partial<NotificationCoordinatorPreferences>,
+): NotificationSoundId | null => {
+  const soundId = getConversationRule(event, preferences)?.sound_id
+  return isNotificationSoundId(soundId) ? soundId : null
+}
+
 export const isNotificationTypeEnabled = (
   event: NotificationEventRecord,
   preferences: Partial<NotificationCoordinatorPreferences>,
   now = new Date(),
 ) => {
-  if (preferences.notifications_enabled === false || isNotificationQuietNow(preferences, now)) {
+  const conversationRule = getConversationRule(event, preferences)
+  if (
+    preferences.notifications_enabled === false ||
+    isNotificationQuietNow(preferences, now, {
+      bypassQuietHours: conversationRule?.bypass_quiet_hours === true,
+    })
+  ) {
     return false
   }
+  // Held events surface later in their digest, never as individual banners.
+  if (event.digest_batch_id) return false
 
   const payload = asRecord(event.payload)
   switch (event.type) {
-    case 'dm_message': return preferences.dm_enabled !== false
+    case 'dm_message':
+      return (
+        preferences.dm_enabled !== false &&
+        !isConversationMutedNow(event, preferences, now) &&
+        (conversationRule?.delivery_mode !== 'mentions_only' || payload.mentioned === true)
+      )
     case 'group_message':
       return preferences.group_enabled !== false && preferences.general_chat_muted !== true
     case 'mention': return preferences.mention_enabled !== false
     case 'reply': return preferences.reply_enabled !== false
+    case 'keyword_alert':
+      return preferences.keyword_alerts_enabled !== false && preferences.general_chat_muted !== true
     case 'reaction': return preferences.reaction_enabled !== false
     case 'hype_event': return preferences.hype_enabled !== false
     case 'shadow_pin_post': return preferences.shadow_pin_new_post_enabled !== false
@@ -323,6 +387,8 @@ export const isNotificationTypeEnabled = (
     case 'shado_live_participant_removed':
       return preferences.shado_live_in_app_enabled !== false
     case 'shadow_checkers_turn': return preferences.checkers_turn_enabled !== false
+    case 'notification_digest': return true
+    case 'message_reminder': return true
     default: return false
   }
 }
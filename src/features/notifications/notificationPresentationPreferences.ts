@@ -24,6 +24,7 @@ export const ACTIVE_NOTIFICATION_EVENT_TYPES = [
   'group_message',
   'mention',
   'reply',
+  'keyword_alert',
   'reaction',
   'hype_event',
   'shadow_pin_post',
@@ -181,6 +182,7 @@ export const NOTIFICATION_EVENT_PRESENTATION_OPTIONS: NotificationEventPresentat
   eventOption('group_message', 'Messages', 'General Chat message', 'A new room message'),
   eventOption('mention', 'Messages', 'Mention', 'Someone mentions you'),
   eventOption('reply', 'Messages', 'Reply', 'Someone replies directly to you'),
+  eventOption('keyword_alert', 'Messages', 'Keyword alert', 'A General Chat message matches one of your keywords'),
   eventOption('reaction', 'Social & ShadowPin', 'Reaction', 'Someone reacts to your message'),
   eventOption('hype_event', 'Social & ShadowPin', 'Hype', 'Someone hypes your message'),
   eventOption('shadow_pin_post', 'Social & ShadowPin', 'New ShadowPin', 'A new post is published'),
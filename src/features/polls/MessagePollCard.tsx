@@ -0,0 +1,151 @@
+import { BarChart3, Check, Lock } from 'lucide-react'
+import { getBlockedActionMessage, type ChannelBanScope } from '../../lib/moderation'
+import { showActionErrorToast } from '../../lib/toastNotifications'
+import { cn } from '../../lib/utils'
+import { useMessagePoll } from './useMessagePoll'
+import {
+  formatPollClosesIn,
+  getPollOptionShare,
+  isMessagePollClosed,
+  togglePollSelection,
+} from './pollModel'
+
+type MessagePollCardProps = {
+  messageId: string
+  question: string
+  currentUserId?: string | null
+  moderationScope?: ChannelBanScope
+  disabled?: boolean
+  className?: string
+}
+
+export function MessagePollCard({
+  messageId,
+  question,
+  currentUserId,
+  moderationScope = 'general_chat',
+  disabled = false,
+  className,
+}: MessagePollCardProps) {
+  const { poll, loading, voting, error, vote, close } = useMessagePoll(messageId, !disabled)
+
+  if (!poll) {
+    return (
+      <div
+        className={cn('mt-1 min-w-[14rem] space-y-1 text-sm', className)}
+        data-testid="message-poll"
+      >
+        <p className="flex items-center gap-1.5 font-semibold text-[var(--text-primary)]">
+          <BarChart3 className="h-4 w-4 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          {question}
+        </p>
+        <p className="text-xs text-[var(--text-muted)]">
+          {disabled ? 'Sending poll...' : loading ? 'Loading poll...' : error ? 'Poll unavailable' : 'Poll'}
+        </p>
+      </div>
+    )
+  }
+
+  const closed = isMessagePollClosed(poll)
+  const showResults = closed || poll.options.some(option => option.viewerVoted)
+  const canClose = !closed && currentUserId === poll.createdBy
+
+  const handleVote = async (optionId: string) => {
+    if (closed || voting || disabled) return
+    try {
+      await vote(togglePollSelection(poll, optionId))
+    } catch (caught) {
+      const notice = await getBlockedActionMessage(moderationScope, caught, 'Failed to record vote')
+      showActionErrorToast(notice)
+    }
+  }
+
+  const handleClose = async () => {
+    try {
+      await close()
+    } catch {
+      showActionErrorToast('Failed to close poll')
+    }
+  }
+
+  return (
+    <div
+      className={cn('mt-1 min-w-[14rem] max-w-sm space-y-2 text-sm', className)}
+      data-testid="message-poll"
+    >
+      <p className="flex items-start gap-1.5 font-semibold text-[var(--text-primary)]">
+        <BarChart3 className="mt-0.5 h-4 w-4 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+        <span className="break-words">{poll.question}</span>
+      </p>
+      <div
+        role="group"
+        aria-label={poll.allowsMultiple ? 'Poll options, choose any' : 'Poll options, choose one'}
+        className="space-y-1.5"
+      >
+        {poll.options.map(option => {
+          const share = getPollOptionShare(poll, option)
+          return (
+            <button
+              key={option.id}
+              type="button"
+              role={poll.allowsMultiple ? 'checkbox' : 'radio'}
+              aria-checked={option.viewerVoted}
+              disabled={closed || disabled}
+              onClick={() => void handleVote(option.id)}
+              className={cn(
+                'relative flex min-h-10 w-full items-center gap-2 overflow-hidden rounded-[var(--radius-md)] border px-3 py-2 text-left text-xs transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent-border)] disabled:cursor-default',
+                option.viewerVoted
+                  ? 'border-[var(--theme-accent-border)] text-[var(--text-primary)]'
+                  : 'border-[var(--border-panel)] text-[var(--text-secondary)] hover:border-[var(--theme-accent-border-soft)]'
+              )}
+              title={!poll.isAnonymous && option.voterIds.length > 0
+                ? `${option.voterIds.length} ${option.voterIds.length === 1 ? 'vote' : 'votes'}`
+                : undefined}
+            >
+              {showResults && (
+                <span
+                  aria-hidden="true"
+                  className="absolute inset-y-0 left-0 bg-[var(--theme-accent-softer)] transition-[width] duration-300"
+                  style={{ width: `${share}%` }}
+                />
+              )}
+              <span className="relative flex h-4 w-4 shrink-0 items-center justify-center rounded-full border border-current">
+                {option.viewerVoted && <Check className="h-3 w-3" aria-hidden="true" />}
+              </span>
+              <span className="relative min-w-0 flex-1 break-words">{option.label}</span>
+              {showResults && (
+                <span className="relative shrink-0 font-semibold tabular-nums">
+                  {share}%
+                </span>
+              )}
+            </button>
+          )
+        })}
+      </div>
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-[0.7rem] text-[var(--text-muted)]">
+        <span>
+          {poll.voterCount} {poll.voterCount === 1 ? 'voter' : 'voters'}
+        </span>
+        {poll.allowsMultiple && <span>Multiple choice</span>}
+        {poll.isAnonymous && (
+          <span className="inline-flex items-center gap-1">
+            <Lock className="h-3 w-3" aria-hidden="true" />
+            Anonymous
+          </span>
+        )}
+        <span>
+          {closed ? 'Final results' : poll.closesAt ? formatPollClosesIn(poll.closesAt) : 'Open'}
+        </span>
+        {canClose && (
+          <button
+            type="button"
+            onClick={() => void handleClose()}
+            className="ml-auto font-semibold text-[var(--theme-accent-readable)] hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent-border)]"
+          >
+            Close poll
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+export type MessagePollSurface = 'general' | 'dm'
+
+export interface MessagePollOption {
+  id: string
+  position: number
+  label: string
+  voteCount: number
+  viewerVoted: boolean
+  voterIds: string[]
+}
+
+export interface MessagePoll {
+  id: string
+  surface: MessagePollSurface
+  messageId: string
+  conversationId: string | null
+  createdBy: string
+  question: string
+  allowsMultiple: boolean
+  isAnonymous: boolean
+  closesAt: string | null
+  closedAt: string | null
+  voteRevision: number
+  voterCount: number
+  options: MessagePollOption[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MessagePollDraft {
+  question: string
+  options: string[]
+  allowsMultiple: boolean
+  isAnonymous: boolean
+  closesAt: string | null
+}
+
+export interface MessagePollChangedDetail {
+  poll: MessagePoll
+}
+
+export const MESSAGE_POLL_CHANGED_EVENT = 'shadowchat:message-poll-changed'
+
+export const POLL_QUESTION_MAX_LENGTH = 200
+export const POLL_OPTION_MAX_LENGTH = 80
+export const POLL_MIN_OPTIONS = 2
+export const POLL_MAX_OPTIONS = 10
+export const POLL_MAX_DURATION_MS = 30 * 24 * 60 * 60 * 1000
+export const POLL_COMMAND_USAGE =
+  '/poll Question? | Option A | Option B [--multi] [--anonymous] [--closes 2h]'
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+const asRecord = (value: unknown): Record<string, unknown> => {
+  if (Array.isArray(value)) return asRecord(value[0])
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {}
+}
+
+const asString = (value: unknown) => typeof value === 'string' ? value : null
+
+const asNonNegativeInteger = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : 0
+}
+
+const normalizePollOption = (value: unknown): MessagePollOption | null => {
+  const record = asRecord(value)
+  const id = asString(record.id)
+  const label = asString(record.label)
+  if (!id || !label) return null
+  return {
+    id,
+    position: asNonNegativeInteger(record.position),
+    label,
+    voteCount: asNonNegativeInteger(record.vote_count),
+    viewerVoted: record.viewer_voted === true,
+    voterIds: Array.isArray(record.voter_ids)
+      ? record.voter_ids.filter((voterId): voterId is string => typeof voterId === 'string')
+      : [],
+  }
+}
+
+export const normalizeMessagePoll = (value: unknown): MessagePoll | null => {
+  const record = asRecord(value)
+  const id = asString(record.id)
+  const messageId = asString(record.message_id)
+  const createdBy = asString(record.created_by)
+  const question = asString(record.question)
+  if (!id || !messageId || !createdBy || !question) return null
+
+  const options = Array.isArray(record.options)
+    ? record.options
+      .map(normalizePollOption)
+      .filter((option): option is MessagePollOption => option !== null)
+      .sort((left, right) => left.position - right.position)
+    : []
+
+  return {
+    id,
+    surface: record.surface === 'dm' ? 'dm' : 'general',
+    messageId,
+    conversationId: asString(record.conversation_id),
+    createdBy,
+    question,
+    allowsMultiple: record.allows_multiple === true,
+    isAnonymous: record.is_anonymous === true,
+    closesAt: asString(record.closes_at),
+    closedAt: asString(record.closed_at),
+    voteRevision: asNonNegativeInteger(record.vote_revision),
+    voterCount: asNonNegativeInteger(record.voter_count),
+    options,
+    createdAt: asString(record.created_at) ?? '',
+    updatedAt: asString(record.updated_at) ?? asString(record.created_at) ?? '',
+  }
+}
+
+export const isMessagePollClosed = (poll: MessagePoll, now = Date.now()) => {
+  if (poll.closedAt) return true
+  if (!poll.closesAt) return false
+  const closesAt = Date.parse(poll.closesAt)
+  return Number.isFinite(closesAt) && closesAt <= now
+}
+
+export const getPollVoteTotal = (poll: MessagePoll) =>
+  poll.options.reduce((total, option) => total + option.voteCount, 0)
+
+export const getPollOptionShare = (poll: MessagePoll, option: MessagePollOption) => {
+  const total = getPollVoteTotal(poll)
+  return total > 0 ? Math.round((option.voteCount / total) * 100) : 0
+}
+
+export const getViewerPollSelection = (poll: MessagePoll) =>
+  poll.options.filter(option => option.viewerVoted).map(option => option.id)
+
+/**
+ * Returns the ballot that results from tapping an option. Single-choice
+ * polls swap the selection; tapping the current choice retracts it.
+ */
+export const togglePollSelection = (poll: MessagePoll, optionId: string) => {
+  const current = getViewerPollSelection(poll)
+  if (current.includes(optionId)) return current.filter(id => id !== optionId)
+  return poll.allowsMultiple ? [...current, optionId] : [optionId]
+}
+
+/** Applies a local ballot so the card can update before the server responds. */
+export const applyOptimisticPollVote = (poll: MessagePoll, optionIds: string[]): MessagePoll => {
+  const selected = new Set(optionIds)
+  const hadVote = poll.options.some(option => option.viewerVoted)
+  return {
+    ...poll,
+    voterCount: Math.max(0, poll.voterCount + (selected.size > 0 ? 1 : 0) - (hadVote ? 1 : 0)),
+    options: poll.options.map(option => {
+      const nextVoted = selected.has(option.id)
+      if (nextVoted === option.viewerVoted) return option
+      return {
+        ...option,
+        viewerVoted: nextVoted,
+        voteCount: Math.max(0, option.voteCount + (nextVoted ? 1 : -1)),
+      }
+    }),
+  }
+}
+
+export const formatPollClosesIn = (closesAt: string, now = Date.now()) => {
+  const remaining = Date.parse(closesAt) - now
+  if (!Number.isFinite(remaining) || remaining <= 0) return 'Closed'
+  const minutes = Math.ceil(remaining / DURATION_UNITS_MS.m)
+  if (minutes < 60) return `Closes in ${minutes}m`
+  const hours = Math.round(minutes / 60)
+  if (hours < 48) return `Closes in ${hours}h`
+  return `Closes in ${Math.round(hours / 24)}d`
+}
+
+export const parsePollDuration = (value: string) => {
+  const match = /^(\d{1,4})\s*([mhd])$/i.exec(value.trim())
+  if (!match) return null
+  const duration = Number(match[1]) * DURATION_UNITS_MS[match[2].toLowerCase()]
+  return duration > 0 ? duration : null
+}
+
+/**
+ * Parses `/poll` arguments into a draft. Options are pipe-separated after the
+ * question; flags may appear anywhere.
+ */
+export const parsePollCommand = (args: string, now = Date.now()): MessagePollDraft => {
+  let allowsMultiple = false
+  let isAnonymous = false
+  let closesAt: string | null = null
+
+  const withoutFlags = args
+    .replace(/(^|\s)--(multi|multiple)(?=\s|$)/gi, (_match, leading: string) => {
+      allowsMultiple = true
+      return leading
+    })
+    .replace(/(^|\s)--(anonymous|anon)(?=\s|$)/gi, (_match, leading: string) => {
+      isAnonymous = true
+      return leading
+    })
+    .replace(/(^|\s)--closes(?:\s+([^\s|]+))?/gi, (_match, leading: string, value?: string) => {
+      const duration = value ? parsePollDuration(value) : null
+      if (!duration) throw new Error('Use --closes with a duration like 30m, 2h, or 3d.')
+      if (duration > POLL_MAX_DURATION_MS) throw new Error('Polls can stay open for up to 30 days.')
+      closesAt = new Date(now + duration).toISOString()
+      return leading
+    })
+
+  const [rawQuestion = '', ...rawOptions] = withoutFlags.split('|')
+  const question = rawQuestion.trim()
+  const seen = new Set<string>()
+  const options = rawOptions
+    .map(option => option.trim())
+    .filter(option => {
+      const key = option.toLowerCase()
+      if (!option || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+
+  if (!question) throw new Error(`Usage: ${POLL_COMMAND_USAGE}`)
+  if (question.length > POLL_QUESTION_MAX_LENGTH) {
+    throw new Error(`Poll questions must be ${POLL_QUESTION_MAX_LENGTH} characters or shorter.`)
+  }
+  if (options.length < POLL_MIN_OPTIONS || options.length > POLL_MAX_OPTIONS) {
+    throw new Error(`Polls need between ${POLL_MIN_OPTIONS} and ${POLL_MAX_OPTIONS} distinct options.`)
+  }
+  if (options.some(option => option.length > POLL_OPTION_MAX_LENGTH)) {
+    throw new Error(`Poll options must be ${POLL_OPTION_MAX_LENGTH} characters or shorter.`)
+  }
+
+  return { question, options, allowsMultiple, isAnonymous, closesAt }
+}
+
+export const isPollCommand = (input: string) => /^\/poll(?:\s|$)/i.test(input.trim())
+
+export const getPollCommandArgs = (input: string) => input.trim().replace(/^\/poll\b/i, '').trim()
@@ -0,0 +1,103 @@
+import { getWorkingClient } from '../../lib/supabase'
+import {
+  MESSAGE_POLL_CHANGED_EVENT,
+  normalizeMessagePoll,
+  type MessagePoll,
+  type MessagePollChangedDetail,
+  type MessagePollDraft,
+  type MessagePollSurface,
+} from './pollModel'
+
+type PollListRow = {
+  message_id?: string | null
+  poll?: unknown
+}
+
+const MAX_POLL_MESSAGE_IDS = 100
+
+const requireId = (value: string, label: string) => {
+  const id = value.trim()
+  if (!id) throw new Error(`${label} is required.`)
+  return id
+}
+
+const requirePoll = (data: unknown) => {
+  const poll = normalizeMessagePoll(data)
+  if (!poll) throw new Error('Poll response was incomplete.')
+  return poll
+}
+
+export const announceMessagePollChange = (poll: MessagePoll) => {
+  if (typeof window === 'undefined') return
+  window.dispatchEvent(new CustomEvent<MessagePollChangedDetail>(MESSAGE_POLL_CHANGED_EVENT, {
+    detail: { poll },
+  }))
+}
+
+export const createMessagePoll = async (
+  surface: MessagePollSurface,
+  draft: MessagePollDraft,
+  options: { conversationId?: string | null; clientMessageId?: string | null } = {},
+): Promise<MessagePoll> => {
+  const conversationId = surface === 'dm'
+    ? requireId(options.conversationId ?? '', 'Conversation')
+    : null
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('create_message_poll', {
+    target_surface: surface,
+    target_conversation_id: conversationId,
+    target_question: draft.question,
+    target_options: draft.options,
+    target_allows_multiple: draft.allowsMultiple,
+    target_is_anonymous: draft.isAnonymous,
+    target_closes_at: draft.closesAt,
+    target_client_message_id: options.clientMessageId ?? null,
+  })
+  if (error) throw error
+  const poll = requirePoll(data)
+  announceMessagePollChange(poll)
+  return poll
+}
+
+export const voteMessagePoll = async (pollId: string, optionIds: string[]): Promise<MessagePoll> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('vote_message_poll', {
+    target_poll_id: requireId(pollId, 'Poll'),
+    target_option_ids: Array.from(new Set(optionIds.filter(Boolean))),
+  })
+  if (error) throw error
+  const poll = requirePoll(data)
+  announceMessagePollChange(poll)
+  return poll
+}
+
+export const closeMessagePoll = async (pollId: string): Promise<MessagePoll> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('close_message_poll', {
+    target_poll_id: requireId(pollId, 'Poll'),
+  })
+  if (error) throw error
+  const poll = requirePoll(data)
+  announceMessagePollChange(poll)
+  return poll
+}
+
+export const listMessagePolls = async (messageIds: string[]): Promise<Map<string, MessagePoll>> => {
+  const ids = Array.from(new Set(messageIds.map(id => id.trim()).filter(Boolean)))
+    .slice(0, MAX_POLL_MESSAGE_IDS)
+  const polls = new Map<string, MessagePoll>()
+  if (ids.length === 0) return polls
+
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('list_message_polls', {
+    target_message_ids: ids,
+  })
+  if (error) throw error
+  if (!Array.isArray(data)) return polls
+
+  for (const row of data as PollListRow[]) {
+    const poll = normalizeMessagePoll(row.poll)
+    if (poll) polls.set(row.message_id ?? poll.messageId, poll)
+  }
+  return polls
+}
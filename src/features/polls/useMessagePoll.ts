@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { getWorkingClient } from '../../lib/supabase'
+import { createRealtimeChannelName } from '../../lib/realtimeChannelName'
+import { closeMessagePoll, listMessagePolls, voteMessagePoll } from './pollsApi'
+import {
+  MESSAGE_POLL_CHANGED_EVENT,
+  applyOptimisticPollVote,
+  type MessagePoll,
+  type MessagePollChangedDetail,
+} from './pollModel'
+
+type PollRealtimePayload = {
+  new: Record<string, unknown>
+}
+
+export function useMessagePoll(messageId: string | null, enabled = true) {
+  const [poll, setPoll] = useState<MessagePoll | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [voting, setVoting] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  const requestVersionRef = useRef(0)
+  const pollRef = useRef<MessagePoll | null>(null)
+
+  pollRef.current = poll
+
+  const refresh = useCallback(async () => {
+    if (!messageId || !enabled) return
+    const requestVersion = ++requestVersionRef.current
+    if (!pollRef.current) setLoading(true)
+    try {
+      const polls = await listMessagePolls([messageId])
+      if (requestVersion !== requestVersionRef.current) return
+      setPoll(polls.get(messageId) ?? null)
+      setError(null)
+    } catch (caught) {
+      if (requestVersion !== requestVersionRef.current) return
+      setError(caught instanceof Error ? caught : new Error('Unable to load this poll.'))
+    } finally {
+      if (requestVersion === requestVersionRef.current) setLoading(false)
+    }
+  }, [enabled, messageId])
+
+  useEffect(() => {
+    setPoll(null)
+    setError(null)
+    void refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    if (!messageId) return
+    const handleChange = (event: Event) => {
+      const changed = (event as CustomEvent<MessagePollChangedDetail>).detail?.poll
+      if (changed?.messageId !== messageId) return
+      requestVersionRef.current += 1
+      setPoll(changed)
+    }
+    window.addEventListener(MESSAGE_POLL_CHANGED_EVENT, handleChange)
+    return () => window.removeEventListener(MESSAGE_POLL_CHANGED_EVENT, handleChange)
+  }, [messageId])
+
+  const pollId = poll?.id ?? null
+
+  useEffect(() => {
+    if (!pollId || !enabled) return
+    let disposed = false
+    let channel: RealtimeChannel | null = null
+    let realtimeClient: Awaited<ReturnType<typeof getWorkingClient>> | null = null
+
+    void getWorkingClient().then(client => {
+      if (disposed) return
+      realtimeClient = client
+      channel = client
+        .channel(createRealtimeChannelName(`message-poll:${pollId}`))
+        .on('postgres_changes', {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'message_polls',
+          filter: `id=eq.${pollId}`,
+        }, (payload: PollRealtimePayload) => {
+          const revision = Number(payload.new.vote_revision)
+          if (Number.isFinite(revision) && revision <= (pollRef.current?.voteRevision ?? -1)) return
+          void refresh()
+        })
+        .subscribe()
+    })
+
+    return () => {
+      disposed = true
+      if (channel && realtimeClient) void realtimeClient.removeChannel(channel)
+    }
+  }, [enabled, pollId, refresh])
+
+  const vote = useCallback(async (optionIds: string[]) => {
+    const current = pollRef.current
+    if (!current) return
+    requestVersionRef.current += 1
+    setVoting(true)
+    setPoll(applyOptimisticPollVote(current, optionIds))
+    try {
+      setPoll(await voteMessagePoll(current.id, optionIds))
+    } catch (caught) {
+      setPoll(current)
+      throw caught
+    } finally {
+      setVoting(false)
+    }
+  }, [])
+
+  const close = useCallback(async () => {
+    const current = pollRef.current
+    if (!current) return
+    requestVersionRef.current += 1
+    setPoll(await closeMessagePoll(current.id))
+  }, [])
+
+  return { poll, loading, voting, error, refresh, vote, close }
+}
@@ -0,0 +1,81 @@
+import { Eye } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { cn } from '../../lib/utils'
+import { DEFAULT_READ_RECEIPT_PREFERENCES, type ReadReceiptPreferences } from './readReceiptsModel'
+import { useReadReceiptPreferences } from './useReadReceipts'
+
+const OPTIONS: Array<{ key: keyof ReadReceiptPreferences; label: string; description: string }> = [
+  {
+    key: 'showSeenBy',
+    label: 'Show seen by',
+    description: 'Show who has read your latest message in General Chat and threads.',
+  },
+  {
+    key: 'shareReadState',
+    label: 'Share my read state',
+    description: 'Let others see when you have read their messages. Turning this off also hides who has read yours. Appearing offline hides it too.',
+  },
+]
+
+export function ReadReceiptSettings() {
+  const { preferences, loading, update } = useReadReceiptPreferences()
+  const current = preferences ?? DEFAULT_READ_RECEIPT_PREFERENCES
+
+  const handleToggle = (key: keyof ReadReceiptPreferences, enabled: boolean) => {
+    void update({ [key]: enabled }).catch(() => {
+      toast.error('Read receipt settings could not be saved.')
+    })
+  }
+
+  return (
+    <section className="glass-panel rounded-[var(--radius-lg)] p-5" aria-labelledby="read-receipts-title">
+      <div className="flex items-start gap-3">
+        <span className="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full border border-[rgba(215,170,70,0.2)] bg-[rgba(215,170,70,0.08)] text-[var(--text-gold)]">
+          <Eye className="h-5 w-5" aria-hidden="true" />
+        </span>
+        <div className="min-w-0">
+          <h2 id="read-receipts-title" className="text-lg font-semibold text-[var(--text-primary)]">
+            Read receipts
+          </h2>
+          <p className="mt-1 text-sm leading-6 text-[var(--text-muted)]">
+            Seen-by lists come from where each member has read up to in General Chat and its threads. Blocked members never see each other's read state.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-5 space-y-2">
+        {OPTIONS.map(option => {
+          const enabled = current[option.key]
+          const disabled = loading || (option.key === 'showSeenBy' && !current.shareReadState)
+          return (
+            <div
+              key={option.key}
+              className="flex items-center justify-between gap-4 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.03)] px-4 py-3"
+            >
+              <div className="min-w-0">
+                <h3 className="font-medium text-[var(--text-primary)]">{option.label}</h3>
+                <p className="mt-1 text-sm leading-5 text-[var(--text-muted)]">{option.description}</p>
+              </div>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={enabled}
+                aria-label={option.label}
+                disabled={disabled}
+                onClick={() => handleToggle(option.key, !enabled)}
+                className={cn(
+                  'min-h-11 shrink-0 rounded-[var(--radius-sm)] border px-3 text-xs font-semibold transition-[background-color,border-color,color] disabled:cursor-not-allowed disabled:opacity-50',
+                  enabled
+                    ? 'border-[var(--border-glow)] bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)]'
+                    : 'border-[var(--border-subtle)] bg-[rgba(0,0,0,0.18)] text-[var(--text-secondary)]'
+                )}
+              >
+                {enabled ? 'On' : 'Off'}
+              </button>
+            </div>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,64 @@
+import { useId, useState } from 'react'
+import { Avatar } from '../../components/ui/Avatar'
+import { getGroupDMMemberName } from '../group-dms/groupDMModel'
+import { formatSeenByLabel, type SeenByReader } from './readReceiptsModel'
+
+const STACKED_AVATARS = 3
+
+export function SeenByIndicator({ readers }: { readers: SeenByReader[] }) {
+  const [expanded, setExpanded] = useState(false)
+  const listId = useId()
+  if (readers.length === 0) return null
+
+  const label = formatSeenByLabel(readers.map(reader => reader.user), 0)
+
+  return (
+    <div className="mt-0.5 flex flex-col items-end px-2" data-seen-by="true">
+      <button
+        type="button"
+        aria-expanded={expanded}
+        aria-controls={listId}
+        onClick={() => setExpanded(current => !current)}
+        className="inline-flex min-h-8 max-w-full items-center gap-2 rounded-full px-2 text-[11px] text-[var(--text-muted)] transition-colors hover:text-[var(--text-primary)]"
+      >
+        <span className="flex -space-x-1.5" aria-hidden="true">
+          {readers.slice(0, STACKED_AVATARS).map(reader => (
+            <Avatar
+              key={reader.user.id}
+              src={reader.user.avatar_thumbnail_url || reader.user.avatar_url}
+              alt={getGroupDMMemberName(reader.user)}
+              size="sm"
+              color={reader.user.color}
+              className="ring-1 ring-[var(--bg-panel-strong)]"
+            />
+          ))}
+        </span>
+        <span className="truncate">{label}</span>
+      </button>
+
+      {expanded && (
+        <ul
+          id={listId}
+          aria-label="Seen by"
+          className="mt-1 max-h-60 w-64 max-w-full overflow-y-auto rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[var(--bg-panel-strong)] p-1.5 shadow-[var(--shadow-panel)]"
+        >
+          {readers.map(reader => (
+            <li key={reader.user.id} className="flex min-w-0 items-center gap-2 rounded-[var(--radius-sm)] px-2 py-1.5">
+              <Avatar
+                src={reader.user.avatar_thumbnail_url || reader.user.avatar_url}
+                alt={getGroupDMMemberName(reader.user)}
+                size="sm"
+                color={reader.user.color}
+                userId={reader.user.id}
+                presenceVisibility={reader.user.presence_visibility}
+              />
+              <span className="min-w-0 flex-1 truncate text-sm text-[var(--text-primary)]">
+                {getGroupDMMemberName(reader.user)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
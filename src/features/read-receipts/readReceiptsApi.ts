@@ -0,0 +1,72 @@
+import { embedPublicProfile } from '../../../supabase/functions/_shared/public-profile'
+import { getWorkingClient } from '../../lib/supabase'
+import {
+  SEEN_BY_READER_LIMIT,
+  normalizeReadReceiptPreferences,
+  normalizeSeenByReader,
+  type ReadReceiptPreferences,
+  type SeenByReader,
+} from './readReceiptsModel'
+
+const PREFERENCES_SELECT = 'share_read_state, show_seen_by'
+
+const SEEN_BY_READER_SELECT = `
+  last_read_message_id,
+  last_read_at,
+  ${embedPublicProfile('user', 'users!user_id')}
+`
+
+export const fetchReadReceiptPreferences = async (userId: string): Promise<ReadReceiptPreferences> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('read_receipt_preferences')
+    .select(PREFERENCES_SELECT)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw error
+  return normalizeReadReceiptPreferences(data)
+}
+
+export const saveReadReceiptPreferences = async (
+  userId: string,
+  preferences: ReadReceiptPreferences
+): Promise<ReadReceiptPreferences> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('read_receipt_preferences')
+    .upsert({
+      user_id: userId,
+      share_read_state: preferences.shareReadState,
+      show_seen_by: preferences.showSeenBy,
+    }, { onConflict: 'user_id' })
+    .select(PREFERENCES_SELECT)
+    .single()
+  if (error) throw error
+  return normalizeReadReceiptPreferences(data)
+}
+
+/**
+ * Other members' cursors in one room or thread that reached `since` or later.
+ * RLS drops anyone who hides their read state or shares a block with the caller.
+ */
+export const fetchSeenByReaders = async (
+  surface: string,
+  scopeId: string,
+  currentUserId: string,
+  since: string
+): Promise<SeenByReader[]> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client
+    .from('user_read_cursors')
+    .select(SEEN_BY_READER_SELECT)
+    .eq('surface', surface)
+    .eq('scope_id', scopeId)
+    .neq('user_id', currentUserId)
+    .gte('last_read_at', since)
+    .order('last_read_at', { ascending: false })
+    .limit(SEEN_BY_READER_LIMIT)
+  if (error) throw error
+  return ((data ?? []) as unknown[])
+    .map(normalizeSeenByReader)
+    .filter((reader): reader is SeenByReader => reader !== null)
+}
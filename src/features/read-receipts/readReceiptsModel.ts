@@ -0,0 +1,93 @@
+import type { Message, User } from '../../lib/supabase'
+import { isMessageKeyAtOrBefore, type ReadSurface } from '../../lib/readCursors'
+import { formatSeenByLabel } from '../group-dms/groupDMModel'
+
+export { formatSeenByLabel }
+
+/** Cursor surfaces whose read state members can share with each other. */
+export const SEEN_BY_SURFACES = ['general_chat', 'general_chat_thread'] as const
+export const SEEN_BY_READER_LIMIT = 100
+
+export interface ReadReceiptPreferences {
+  shareReadState: boolean
+  showSeenBy: boolean
+}
+
+export const DEFAULT_READ_RECEIPT_PREFERENCES: ReadReceiptPreferences = {
+  shareReadState: true,
+  showSeenBy: false,
+}
+
+export interface SeenByReader {
+  user: User
+  lastReadMessageId: string | null
+  lastReadAt: string
+}
+
+type SeenByCandidate = Pick<Message, 'id' | 'created_at' | 'user_id' | 'optimistic' | 'delivery_status'>
+
+export const isSeenBySurface = (surface: ReadSurface) =>
+  (SEEN_BY_SURFACES as readonly string[]).includes(surface)
+
+export const normalizeReadReceiptPreferences = (row: unknown): ReadReceiptPreferences => {
+  if (!row || typeof row !== 'object') return DEFAULT_READ_RECEIPT_PREFERENCES
+  const value = row as Record<string, unknown>
+  return {
+    shareReadState: typeof value.share_read_state === 'boolean'
+      ? value.share_read_state
+      : DEFAULT_READ_RECEIPT_PREFERENCES.shareReadState,
+    showSeenBy: typeof value.show_seen_by === 'boolean'
+      ? value.show_seen_by
+      : DEFAULT_READ_RECEIPT_PREFERENCES.showSeenBy,
+  }
+}
+
+/** Hiding your own read state also hides everyone else's, so the indicator needs both. */
+export const canShowSeenBy = (preferences: ReadReceiptPreferences) =>
+  preferences.showSeenBy && preferences.shareReadState
+
+export const normalizeSeenByReader = (row: unknown): SeenByReader | null => {
+  if (!row || typeof row !== 'object') return null
+  const value = row as Record<string, unknown>
+  const user = value.user as User | null | undefined
+  if (!user?.id || typeof value.last_read_at !== 'string') return null
+  return {
+    user,
+    lastReadMessageId: typeof value.last_read_message_id === 'string' ? value.last_read_message_id : null,
+    lastReadAt: value.last_read_at,
+  }
+}
+
+/**
+ * The caller's newest message that has reached the server. Optimistic and
+ * failed sends have no position in anyone's cursor yet.
+ */
+export const getLatestSeenByMessage = <T extends SeenByCandidate>(
+  messages: readonly T[],
+  currentUserId: string | null | undefined
+) => {
+  if (!currentUserId) return null
+  for (let index = messages.length - 1; index >= 0; index -= 1) {
+    const message = messages[index]
+    if (
+      message.user_id === currentUserId &&
+      !message.optimistic &&
+      message.delivery_status !== 'sending' &&
+      message.delivery_status !== 'failed'
+    ) {
+      return message
+    }
+  }
+  return null
+}
+
+/** Readers whose cursor has reached the message, most recent reader first. */
+export const getMessageSeenByReaders = (
+  message: Pick<Message, 'id' | 'created_at' | 'user_id'>,
+  readers: readonly SeenByReader[],
+  hiddenUserIds: ReadonlySet<string> = new Set()
+) => readers.filter(reader => (
+  reader.user.id !== message.user_id &&
+  !hiddenUserIds.has(reader.user.id) &&
+  isMessageKeyAtOrBefore(message, { last_read_at: reader.lastReadAt, last_read_message_id: reader.lastReadMessageId })
+))
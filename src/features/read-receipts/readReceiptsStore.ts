@@ -0,0 +1,80 @@
+import { fetchReadReceiptPreferences, saveReadReceiptPreferences } from './readReceiptsApi'
+import { DEFAULT_READ_RECEIPT_PREFERENCES, type ReadReceiptPreferences } from './readReceiptsModel'
+
+export interface ReadReceiptPreferencesSnapshot {
+  userId: string | null
+  preferences: ReadReceiptPreferences
+  loaded: boolean
+}
+
+type Listener = () => void
+
+const EMPTY_SNAPSHOT: ReadReceiptPreferencesSnapshot = {
+  userId: null,
+  preferences: DEFAULT_READ_RECEIPT_PREFERENCES,
+  loaded: false,
+}
+
+const listeners = new Set<Listener>()
+let snapshot = EMPTY_SNAPSHOT
+let pendingLoad: { userId: string; request: Promise<void> } | null = null
+
+const emit = () => listeners.forEach(listener => listener())
+
+const setPreferences = (userId: string, preferences: ReadReceiptPreferences) => {
+  snapshot = { userId, preferences, loaded: true }
+  emit()
+}
+
+export const subscribeToReadReceiptPreferences = (listener: Listener) => {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+export const getReadReceiptPreferencesSnapshot = () => snapshot
+
+/**
+ * The main room, every open thread, and Settings share one copy. Until it
+ * loads the defaults apply, which keep the indicator off.
+ */
+export const loadReadReceiptPreferences = (userId: string, force = false) => {
+  if (!force && snapshot.userId === userId && snapshot.loaded) return Promise.resolve()
+  if (!force && pendingLoad?.userId === userId) return pendingLoad.request
+
+  if (snapshot.userId !== userId) {
+    snapshot = { ...EMPTY_SNAPSHOT, userId }
+    emit()
+  }
+  const request = fetchReadReceiptPreferences(userId)
+    .then(preferences => {
+      if (snapshot.userId === userId) setPreferences(userId, preferences)
+    })
+    .catch(error => {
+      console.warn('Read receipt preferences unavailable', error)
+    })
+    .finally(() => {
+      if (pendingLoad?.request === request) pendingLoad = null
+    })
+  pendingLoad = { userId, request }
+  return request
+}
+
+export const updateReadReceiptPreferences = async (
+  userId: string,
+  changes: Partial<ReadReceiptPreferences>
+) => {
+  const previous = snapshot.userId === userId ? snapshot.preferences : DEFAULT_READ_RECEIPT_PREFERENCES
+  setPreferences(userId, { ...previous, ...changes })
+  try {
+    const saved = await saveReadReceiptPreferences(userId, { ...previous, ...changes })
+    if (snapshot.userId === userId) setPreferences(userId, saved)
+  } catch (error) {
+    if (snapshot.userId === userId) setPreferences(userId, previous)
+    throw error
+  }
+}
+
+export const resetReadReceiptsStoreForTests = () => {
+  snapshot = EMPTY_SNAPSHOT
+  pendingLoad = null
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import { useAuth } from '../../hooks/useAuth'
+import { useBlockedUsers } from '../../hooks/useBlockedUsers'
+import type { Message } from '../../lib/supabase'
+import type { ReadSurface } from '../../lib/readCursors'
+import { fetchSeenByReaders } from './readReceiptsApi'
+import {
+  canShowSeenBy,
+  getLatestSeenByMessage,
+  getMessageSeenByReaders,
+  isSeenBySurface,
+  type ReadReceiptPreferences,
+  type SeenByReader,
+} from './readReceiptsModel'
+import {
+  getReadReceiptPreferencesSnapshot,
+  loadReadReceiptPreferences,
+  subscribeToReadReceiptPreferences,
+  updateReadReceiptPreferences,
+} from './readReceiptsStore'
+
+const SEEN_BY_REFRESH_MS = 30_000
+
+const useReadReceiptPreferencesSnapshot = (userId: string | null) => {
+  const snapshot = useSyncExternalStore(
+    subscribeToReadReceiptPreferences,
+    getReadReceiptPreferencesSnapshot,
+    getReadReceiptPreferencesSnapshot,
+  )
+
+  useEffect(() => {
+    if (userId) void loadReadReceiptPreferences(userId)
+  }, [userId])
+
+  return snapshot.userId === userId ? snapshot : null
+}
+
+export function useReadReceiptPreferences() {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const snapshot = useReadReceiptPreferencesSnapshot(userId)
+
+  const update = useCallback(async (changes: Partial<ReadReceiptPreferences>) => {
+    if (!userId) throw new Error('Sign in to change read receipts.')
+    await updateReadReceiptPreferences(userId, changes)
+  }, [userId])
+
+  return {
+    preferences: snapshot?.preferences ?? null,
+    loading: Boolean(userId) && !snapshot?.loaded,
+    update,
+  }
+}
+
+/**
+ * Who has read the caller's newest message in a General Chat room or thread.
+ * Returns null until the member opts in, so nothing is fetched for everyone
+ * else. Other members' cursors are polled rather than streamed; a seen-by
+ * line that is half a minute behind is fine.
+ */
+export function useSeenByReceipt(
+  surface: ReadSurface,
+  scopeId: string | null | undefined,
+  messages: readonly Message[],
+  enabled = true
+) {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const { blockedUserIds } = useBlockedUsers()
+  const snapshot = useReadReceiptPreferencesSnapshot(enabled && isSeenBySurface(surface) ? userId : null)
+  const active = Boolean(scopeId && snapshot?.loaded && canShowSeenBy(snapshot.preferences))
+  const latest = useMemo(
+    () => (active ? getLatestSeenByMessage(messages, userId) : null),
+    [active, messages, userId]
+  )
+  const requestKey = latest && scopeId ? `${surface}:${scopeId}:${latest.id}` : null
+  const since = latest?.created_at ?? null
+  const [result, setResult] = useState<{ key: string; readers: SeenByReader[] } | null>(null)
+
+  useEffect(() => {
+    if (!requestKey || !userId || !scopeId || !since) return
+    let cancelled = false
+    const refresh = () => {
+      if (document.visibilityState === 'hidden') return
+      fetchSeenByReaders(surface, scopeId, userId, since)
+        .then(readers => {
+          if (!cancelled) setResult({ key: requestKey, readers })
+        })
+        .catch(error => {
+          console.warn('Seen-by receipts unavailable', error)
+        })
+    }
+
+    refresh()
+    const interval = window.setInterval(refresh, SEEN_BY_REFRESH_MS)
+    document.addEventListener('visibilitychange', refresh)
+    return () => {
+      cancelled = true
+      window.clearInterval(interval)
+      document.removeEventListener('visibilitychange', refresh)
+    }
+  }, [requestKey, scopeId, since, surface, userId])
+
+  return useMemo(() => {
+    if (!latest || !result || result.key !== requestKey) return null
+    return {
+      messageId: latest.id,
+      readers: getMessageSeenByReaders(latest, result.readers, blockedUserIds),
+    }
+  }, [blockedUserIds, latest, requestKey, result])
+}
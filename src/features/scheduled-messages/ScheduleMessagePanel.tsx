@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { Clock3, X } from 'lucide-react'
+import { Button } from '../../components/ui/Button'
+import {
+  SCHEDULED_SEND_PRESETS,
+  fromDateTimeLocalValue,
+  getScheduledPresetTime,
+  getScheduledSendAtError,
+  toDateTimeLocalValue,
+} from './scheduledMessagesModel'
+
+type ScheduleMessagePanelProps = {
+  canSchedule: boolean
+  onSchedule: (sendAt: Date) => Promise<void> | void
+  onClose: () => void
+}
+
+export function ScheduleMessagePanel({ canSchedule, onSchedule, onClose }: ScheduleMessagePanelProps) {
+  const [customValue, setCustomValue] = useState(() => (
+    toDateTimeLocalValue(getScheduledPresetTime('in_1_hour'))
+  ))
+  const [submitting, setSubmitting] = useState(false)
+  const customDate = fromDateTimeLocalValue(customValue)
+  const customError = customDate ? getScheduledSendAtError(customDate) : 'Choose a valid send time.'
+
+  const submit = async (sendAt: Date | null) => {
+    if (!sendAt || !canSchedule || submitting) return
+    setSubmitting(true)
+    try {
+      await onSchedule(sendAt)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Schedule message"
+      className="glass-panel-strong mb-2 rounded-[var(--radius-md)] p-3 text-sm"
+      data-testid="schedule-message-panel"
+    >
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5 font-semibold text-[var(--text-primary)]">
+          <Clock3 className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          Send later
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close scheduling"
+          className="rounded-full p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      {!canSchedule && (
+        <p className="mb-2 text-xs text-[var(--text-muted)]">Type a message to schedule it.</p>
+      )}
+      <div className="grid grid-cols-2 gap-1.5">
+        {SCHEDULED_SEND_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            type="button"
+            disabled={!canSchedule || submitting}
+            onClick={() => void submit(getScheduledPresetTime(preset.id))}
+            className="min-h-10 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-2 py-1.5 text-left text-xs text-[var(--text-secondary)] transition-colors hover:border-[var(--border-glow)] hover:text-[var(--text-primary)] disabled:opacity-50"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <label className="mt-3 block text-xs text-[var(--text-muted)]">
+        Custom time
+        <input
+          type="datetime-local"
+          value={customValue}
+          onChange={event => setCustomValue(event.target.value)}
+          className="obsidian-input mt-1 block min-h-10 w-full rounded-[var(--radius-sm)] px-2 text-sm text-[var(--text-primary)]"
+        />
+      </label>
+      {customError && customValue && (
+        <p className="mt-1 text-xs text-[var(--text-muted)]" role="status">{customError}</p>
+      )}
+      <Button
+        type="button"
+        size="sm"
+        className="mt-2 w-full"
+        disabled={!canSchedule || submitting || Boolean(customError)}
+        onClick={() => void submit(customDate)}
+      >
+        Schedule
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react'
+import { ChevronDown, Clock3 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { cn } from '../../lib/utils'
+import {
+  SCHEDULED_MESSAGE_MAX_LENGTH,
+  formatScheduledSendTime,
+  fromDateTimeLocalValue,
+  getScheduledSendAtError,
+  toDateTimeLocalValue,
+  type ScheduledMessage,
+} from './scheduledMessagesModel'
+
+type ScheduledMessagesTrayProps = {
+  messages: ScheduledMessage[]
+  onUpdate: (id: string, content: string, sendAt: Date) => Promise<unknown>
+  onCancel: (id: string) => Promise<unknown>
+  className?: string
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback
+
+function ScheduledMessageRow({
+  message,
+  onUpdate,
+  onCancel,
+}: {
+  message: ScheduledMessage
+  onUpdate: ScheduledMessagesTrayProps['onUpdate']
+  onCancel: ScheduledMessagesTrayProps['onCancel']
+}) {
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
+  const [sendAtValue, setSendAtValue] = useState(() => toDateTimeLocalValue(new Date(message.sendAt)))
+  const [busy, setBusy] = useState(false)
+  const editable = message.status === 'scheduled'
+  const sendAt = fromDateTimeLocalValue(sendAtValue)
+  const sendAtError = sendAt ? getScheduledSendAtError(sendAt) : 'Choose a valid send time.'
+
+  const startEditing = () => {
+    setDraft(message.content)
+    setSendAtValue(toDateTimeLocalValue(new Date(message.sendAt)))
+    setEditing(true)
+  }
+
+  const save = async () => {
+    if (!sendAt || sendAtError || !draft.trim() || busy) return
+    setBusy(true)
+    try {
+      await onUpdate(message.id, draft.trim(), sendAt)
+      setEditing(false)
+      toast.success('Scheduled message updated')
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to update scheduled message'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const cancel = async () => {
+    if (busy) return
+    setBusy(true)
+    try {
+      await onCancel(message.id)
+      toast.success('Scheduled message canceled')
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to cancel scheduled message'))
+      setBusy(false)
+    }
+  }
+
+  if (editing) {
+    return (
+      <li className="space-y-2 rounded-[var(--radius-sm)] border border-[var(--border-glow)] p-2">
+        <textarea
+          value={draft}
+          onChange={event => setDraft(event.target.value)}
+          maxLength={SCHEDULED_MESSAGE_MAX_LENGTH}
+          rows={2}
+          aria-label="Scheduled message text"
+          className="obsidian-input block w-full resize-none rounded-[var(--radius-sm)] px-2 py-1.5 text-sm text-[var(--text-primary)]"
+        />
+        <input
+          type="datetime-local"
+          value={sendAtValue}
+          onChange={event => setSendAtValue(event.target.value)}
+          aria-label="Scheduled send time"
+          className="obsidian-input block min-h-10 w-full rounded-[var(--radius-sm)] px-2 text-sm text-[var(--text-primary)]"
+        />
+        {sendAtError && <p className="text-xs text-[var(--text-muted)]" role="status">{sendAtError}</p>}
+        <div className="flex justify-end gap-2 text-xs font-semibold">
+          <button
+            type="button"
+            onClick={() => setEditing(false)}
+            className="px-2 py-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+          >
+            Discard
+          </button>
+          <button
+            type="button"
+            disabled={busy || Boolean(sendAtError) || !draft.trim()}
+            onClick={() => void save()}
+            className="px-2 py-1 text-[var(--theme-accent-readable)] disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </li>
+    )
+  }
+
+  return (
+    <li className="rounded-[var(--radius-sm)] border border-[var(--border-subtle)] p-2" data-testid="scheduled-message">
+      <div className="flex items-center justify-between gap-2 text-[0.7rem] text-[var(--text-muted)]">
+        <span className="font-semibold text-[var(--theme-accent-readable)]">
+          {formatScheduledSendTime(message.sendAt)}
+        </span>
+        {message.status === 'sending' && <span>Sending...</span>}
+        {message.status === 'failed' && <span className="text-red-300">Not sent</span>}
+      </div>
+      <p className="mt-1 line-clamp-2 whitespace-pre-wrap break-words text-sm text-[var(--text-secondary)]">
+        {message.content}
+      </p>
+      {message.status === 'failed' && message.failureReason && (
+        <p className="mt-1 text-xs text-red-300">{message.failureReason}</p>
+      )}
+      <div className="mt-1.5 flex justify-end gap-2 text-xs font-semibold">
+        {editable && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={startEditing}
+            className="px-2 py-1 text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+          >
+            Edit
+          </button>
+        )}
+        {message.status !== 'sending' && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void cancel()}
+            className="px-2 py-1 text-[var(--text-muted)] hover:text-red-300"
+          >
+            {message.status === 'failed' ? 'Dismiss' : 'Cancel'}
+          </button>
+        )}
+      </div>
+    </li>
+  )
+}
+
+export function ScheduledMessagesTray({ messages, onUpdate, onCancel, className }: ScheduledMessagesTrayProps) {
+  const [expanded, setExpanded] = useState(false)
+  if (messages.length === 0) return null
+
+  return (
+    <div className={cn('mb-2 text-sm', className)} data-testid="scheduled-messages-tray">
+      <button
+        type="button"
+        onClick={() => setExpanded(current => !current)}
+        aria-expanded={expanded}
+        className="flex min-h-9 items-center gap-1.5 rounded-full border border-[var(--theme-accent-border-soft)] bg-[var(--theme-accent-softer)] px-3 py-1 text-xs font-semibold text-[var(--theme-accent-readable)]"
+      >
+        <Clock3 className="h-3.5 w-3.5" aria-hidden="true" />
+        Scheduled ({messages.length})
+        <ChevronDown className={cn('h-3.5 w-3.5 transition-transform', expanded && 'rotate-180')} aria-hidden="true" />
+      </button>
+      {expanded && (
+        <ul className="glass-panel mt-2 max-h-64 space-y-2 overflow-y-auto rounded-[var(--radius-md)] p-2">
+          {messages.map(message => (
+            <ScheduledMessageRow
+              key={`${message.id}:${message.updatedAt}`}
+              message={message}
+              onUpdate={onUpdate}
+              onCancel={onCancel}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
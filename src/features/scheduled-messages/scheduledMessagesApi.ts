@@ -0,0 +1,94 @@
+import { getWorkingClient } from '../../lib/supabase'
+import {
+  SCHEDULED_MESSAGES_CHANGED_EVENT,
+  normalizeScheduledMessage,
+  type ScheduledMessage,
+  type ScheduledMessageTarget,
+  type ScheduledMessagesChangedDetail,
+} from './scheduledMessagesModel'
+
+const requireId = (value: string, label: string) => {
+  const id = value.trim()
+  if (!id) throw new Error(`${label} is required.`)
+  return id
+}
+
+const requireScheduledMessage = (data: unknown) => {
+  const message = normalizeScheduledMessage(data)
+  if (!message) throw new Error('Scheduled message response was incomplete.')
+  return message
+}
+
+export const announceScheduledMessageChange = (message: ScheduledMessage) => {
+  if (typeof window === 'undefined') return
+  window.dispatchEvent(new CustomEvent<ScheduledMessagesChangedDetail>(SCHEDULED_MESSAGES_CHANGED_EVENT, {
+    detail: { message },
+  }))
+}
+
+export const createScheduledMessage = async (
+  target: ScheduledMessageTarget,
+  content: string,
+  sendAt: Date,
+  options: { replyTo?: string | null; clientMessageId?: string | null } = {},
+): Promise<ScheduledMessage> => {
+  const conversationId = target.surface === 'dm'
+    ? requireId(target.conversationId ?? '', 'Conversation')
+    : null
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('create_scheduled_message', {
+    target_surface: target.surface,
+    target_conversation_id: conversationId,
+    target_content: content,
+    target_send_at: sendAt.toISOString(),
+    target_reply_to: options.replyTo ?? null,
+    target_client_message_id: options.clientMessageId ?? null,
+  })
+  if (error) throw error
+  const message = requireScheduledMessage(data)
+  announceScheduledMessageChange(message)
+  return message
+}
+
+export const updateScheduledMessage = async (
+  id: string,
+  content: string,
+  sendAt: Date,
+): Promise<ScheduledMessage> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('update_scheduled_message', {
+    target_id: requireId(id, 'Scheduled message'),
+    target_content: content,
+    target_send_at: sendAt.toISOString(),
+  })
+  if (error) throw error
+  const message = requireScheduledMessage(data)
+  announceScheduledMessageChange(message)
+  return message
+}
+
+export const cancelScheduledMessage = async (id: string): Promise<ScheduledMessage> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('cancel_scheduled_message', {
+    target_id: requireId(id, 'Scheduled message'),
+  })
+  if (error) throw error
+  const message = requireScheduledMessage(data)
+  announceScheduledMessageChange(message)
+  return message
+}
+
+export const listMyScheduledMessages = async (
+  target?: ScheduledMessageTarget,
+): Promise<ScheduledMessage[]> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('list_my_scheduled_messages', {
+    target_surface: target?.surface ?? null,
+    target_conversation_id: target?.surface === 'dm' ? target.conversationId ?? null : null,
+  })
+  if (error) throw error
+  if (!Array.isArray(data)) return []
+  return data
+    .map(normalizeScheduledMessage)
+    .filter((message): message is ScheduledMessage => message !== null)
+}
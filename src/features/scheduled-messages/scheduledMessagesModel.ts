@@ -0,0 +1,145 @@
+export type ScheduledMessageSurface = 'general' | 'dm'
+export type ScheduledMessageStatus = 'scheduled' | 'sending' | 'sent' | 'failed' | 'canceled'
+export type ScheduledSendPreset = 'in_1_hour' | 'in_3_hours' | 'tonight' | 'tomorrow_morning'
+
+export interface ScheduledMessage {
+  id: string
+  surface: ScheduledMessageSurface
+  conversationId: string | null
+  content: string
+  replyTo: string | null
+  sendAt: string
+  status: ScheduledMessageStatus
+  deliveredMessageId: string | null
+  failureReason: string | null
+  sentAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ScheduledMessageTarget {
+  surface: ScheduledMessageSurface
+  conversationId?: string | null
+}
+
+export interface ScheduledMessagesChangedDetail {
+  message: ScheduledMessage
+}
+
+export const SCHEDULED_MESSAGES_CHANGED_EVENT = 'shadowchat:scheduled-messages-changed'
+
+export const SCHEDULED_MESSAGE_MAX_LENGTH = 4000
+export const SCHEDULED_MESSAGE_MIN_LEAD_MS = 60 * 1000
+export const SCHEDULED_MESSAGE_MAX_LEAD_MS = 30 * 24 * 60 * 60 * 1000
+
+export const SCHEDULED_SEND_PRESETS: Array<{ id: ScheduledSendPreset; label: string }> = [
+  { id: 'in_1_hour', label: 'In 1 hour' },
+  { id: 'in_3_hours', label: 'In 3 hours' },
+  { id: 'tonight', label: 'Tonight, 8 PM' },
+  { id: 'tomorrow_morning', label: 'Tomorrow, 9 AM' },
+]
+
+const STATUSES = new Set<ScheduledMessageStatus>(['scheduled', 'sending', 'sent', 'failed', 'canceled'])
+
+const asRecord = (value: unknown): Record<string, unknown> => {
+  if (Array.isArray(value)) return asRecord(value[0])
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {}
+}
+
+const asString = (value: unknown) => typeof value === 'string' ? value : null
+
+export const normalizeScheduledMessage = (value: unknown): ScheduledMessage | null => {
+  const record = asRecord(value)
+  const id = asString(record.id)
+  const content = asString(record.content)
+  const sendAt = asString(record.send_at)
+  if (!id || content === null || !sendAt) return null
+
+  const status = asString(record.status) as ScheduledMessageStatus | null
+  return {
+    id,
+    surface: record.surface === 'dm' ? 'dm' : 'general',
+    conversationId: asString(record.conversation_id),
+    content,
+    replyTo: asString(record.reply_to),
+    sendAt,
+    status: status && STATUSES.has(status) ? status : 'scheduled',
+    deliveredMessageId: asString(record.delivered_message_id),
+    failureReason: asString(record.failure_reason),
+    sentAt: asString(record.sent_at),
+    createdAt: asString(record.created_at) ?? '',
+    updatedAt: asString(record.updated_at) ?? asString(record.created_at) ?? '',
+  }
+}
+
+export const isScheduledMessageForTarget = (
+  message: ScheduledMessage,
+  target: ScheduledMessageTarget,
+) => message.surface === target.surface && (
+  target.surface === 'general' || message.conversationId === (target.conversationId ?? null)
+)
+
+export const isScheduledMessagePending = (message: ScheduledMessage) =>
+  message.status === 'scheduled' || message.status === 'sending' || message.status === 'failed'
+
+/** Keeps the tray ordered by delivery time and drops rows that already left the queue. */
+export const mergeScheduledMessage = (current: ScheduledMessage[], next: ScheduledMessage) => {
+  const withoutNext = current.filter(message => message.id !== next.id)
+  const merged = isScheduledMessagePending(next) ? [...withoutNext, next] : withoutNext
+  return merged.sort((left, right) => (
+    Date.parse(left.sendAt) - Date.parse(right.sendAt) || left.id.localeCompare(right.id)
+  ))
+}
+
+export const getScheduledPresetTime = (preset: ScheduledSendPreset, now = new Date()) => {
+  const target = new Date(now)
+  switch (preset) {
+    case 'in_1_hour':
+      return new Date(now.getTime() + 60 * 60 * 1000)
+    case 'in_3_hours':
+      return new Date(now.getTime() + 3 * 60 * 60 * 1000)
+    case 'tonight':
+      target.setHours(20, 0, 0, 0)
+      if (target.getTime() - now.getTime() < SCHEDULED_MESSAGE_MIN_LEAD_MS) {
+        target.setDate(target.getDate() + 1)
+      }
+      return target
+    case 'tomorrow_morning':
+      target.setDate(target.getDate() + 1)
+      target.setHours(9, 0, 0, 0)
+      return target
+  }
+}
+
+export const getScheduledSendAtError = (sendAt: Date, now = Date.now()) => {
+  const time = sendAt.getTime()
+  if (!Number.isFinite(time)) return 'Choose a valid send time.'
+  if (time - now < SCHEDULED_MESSAGE_MIN_LEAD_MS) return 'Choose a time at least one minute from now.'
+  if (time - now > SCHEDULED_MESSAGE_MAX_LEAD_MS) return 'Messages can be scheduled up to 30 days ahead.'
+  return null
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/** Formats a date for a `datetime-local` input in the member's local time zone. */
+export const toDateTimeLocalValue = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+
+export const fromDateTimeLocalValue = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value.trim())
+  if (!match) return null
+  const [, year, month, day, hours, minutes] = match.map(Number)
+  const date = new Date(year, month - 1, day, hours, minutes)
+  return Number.isFinite(date.getTime()) ? date : null
+}
+
+export const formatScheduledSendTime = (sendAt: string, now = new Date()) => {
+  const date = new Date(sendAt)
+  if (!Number.isFinite(date.getTime())) return 'Unknown time'
+  const time = date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+  const tomorrow = new Date(now)
+  tomorrow.setDate(now.getDate() + 1)
+  if (date.toDateString() === now.toDateString()) return `Today, ${time}`
+  if (date.toDateString() === tomorrow.toDateString()) return `Tomorrow, ${time}`
+  return `${date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}, ${time}`
+}
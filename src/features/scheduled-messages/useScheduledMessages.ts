@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { getWorkingClient } from '../../lib/supabase'
+import { createRealtimeChannelName } from '../../lib/realtimeChannelName'
+import {
+  cancelScheduledMessage,
+  createScheduledMessage,
+  listMyScheduledMessages,
+  updateScheduledMessage,
+} from './scheduledMessagesApi'
+import {
+  SCHEDULED_MESSAGES_CHANGED_EVENT,
+  isScheduledMessageForTarget,
+  mergeScheduledMessage,
+  type ScheduledMessage,
+  type ScheduledMessageSurface,
+  type ScheduledMessagesChangedDetail,
+} from './scheduledMessagesModel'
+
+export function useScheduledMessages(
+  surface: ScheduledMessageSurface | null,
+  conversationId: string | null = null,
+) {
+  const [messages, setMessages] = useState<ScheduledMessage[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  const requestVersionRef = useRef(0)
+  const refreshTimerRef = useRef<number | null>(null)
+  const enabled = surface === 'general' || (surface === 'dm' && Boolean(conversationId))
+
+  const refresh = useCallback(async () => {
+    if (!enabled || !surface) return
+    const requestVersion = ++requestVersionRef.current
+    setLoading(true)
+    try {
+      const next = await listMyScheduledMessages({ surface, conversationId })
+      if (requestVersion !== requestVersionRef.current) return
+      setMessages(next)
+      setError(null)
+    } catch (caught) {
+      if (requestVersion !== requestVersionRef.current) return
+      setError(caught instanceof Error ? caught : new Error('Unable to load scheduled messages.'))
+    } finally {
+      if (requestVersion === requestVersionRef.current) setLoading(false)
+    }
+  }, [conversationId, enabled, surface])
+
+  useEffect(() => {
+    setMessages([])
+    setError(null)
+    void refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    if (!enabled || !surface) return
+    const handleChange = (event: Event) => {
+      const changed = (event as CustomEvent<ScheduledMessagesChangedDetail>).detail?.message
+      if (!changed || !isScheduledMessageForTarget(changed, { surface, conversationId })) return
+      setMessages(current => mergeScheduledMessage(current, changed))
+    }
+    window.addEventListener(SCHEDULED_MESSAGES_CHANGED_EVENT, handleChange)
+    return () => window.removeEventListener(SCHEDULED_MESSAGES_CHANGED_EVENT, handleChange)
+  }, [conversationId, enabled, surface])
+
+  useEffect(() => {
+    if (!enabled) return
+    let disposed = false
+    let channel: RealtimeChannel | null = null
+    let realtimeClient: Awaited<ReturnType<typeof getWorkingClient>> | null = null
+
+    // RLS limits scheduled_messages changes to the sender, so the worker's
+    // sent/failed transitions reach only the member who queued them.
+    void getWorkingClient().then(client => {
+      if (disposed) return
+      realtimeClient = client
+      channel = client
+        .channel(createRealtimeChannelName(`scheduled-messages:${surface}:${conversationId ?? 'general'}`))
+        .on('postgres_changes', {
+          event: '*',
+          schema: 'public',
+          table: 'scheduled_messages',
+        }, () => {
+          if (refreshTimerRef.current !== null) window.clearTimeout(refreshTimerRef.current)
+          refreshTimerRef.current = window.setTimeout(() => {
+            refreshTimerRef.current = null
+            void refresh()
+          }, 120)
+        })
+        .subscribe()
+    })
+
+    return () => {
+      disposed = true
+      if (refreshTimerRef.current !== null) window.clearTimeout(refreshTimerRef.current)
+      if (channel && realtimeClient) void realtimeClient.removeChannel(channel)
+    }
+  }, [conversationId, enabled, refresh, surface])
+
+  const schedule = useCallback(async (
+    content: string,
+    sendAt: Date,
+    options: { replyTo?: string | null } = {},
+  ) => {
+    if (!surface) throw new Error('Scheduling is not available here.')
+    return createScheduledMessage({ surface, conversationId }, content, sendAt, options)
+  }, [conversationId, surface])
+
+  const update = useCallback((id: string, content: string, sendAt: Date) => (
+    updateScheduledMessage(id, content, sendAt)
+  ), [])
+
+  const cancel = useCallback((id: string) => cancelScheduledMessage(id), [])
+
+  return { messages, loading, error, refresh, schedule, update, cancel }
+}
@@ -67,7 +67,9 @@ import {
   searchShadowPinImages,
 } from './api/shadowPinApi'
 import { ShadowPinCommentsDialog } from './components/ShadowPinCommentsDialog'
+import { ShadowPinForYouFeed } from './components/ShadowPinForYouFeed'
 import { ShadowPinImmersiveViewer } from './components/ShadowPinImmersiveViewer'
+import { SaveToBoardSheet } from './boards'
 import { buildViewerSequence, createShadowPinPermalink } from './immersiveViewerModel'
 import { useModerationReport } from '../moderation/useModerationReport'
 import { MEMBER_REPORTING_FEATURE_ENABLED } from '../../config/featureFlags'
@@ -75,6 +77,7 @@ import { markNotificationDestinationRead } from '../notifications/notificationAp
 import { rankShadowPinCategories } from './categorySearch'
 import { ShadowPinFeedModeTabs } from './components/ShadowPinFeedModeTabs'
 import { useShadowPinConnectionFeed } from './hooks/useShadowPinConnectionFeed'
+import { useShadowPinForYouFeed } from './hooks/useShadowPinForYouFeed'
 import { useShadowPinFeedMode } from './hooks/useShadowPinFeedMode'
 import { CONNECTIONS_CHANGED_EVENT } from '../connections/connectionModel'
 import { ShadowPinCircleFilterSheet } from '../inner-circles/components'
@@ -110,7 +113,7 @@ type ShadowPinProps = {
   initialImageId?: string
   initialCommentId?: string
   initialPanel?: 'viewer' | 'comments'
-  initialFeedMode?: Extract<ShadowPinFeedMode, 'connections'>
+  initialFeedMode?: Exclude<ShadowPinFeedMode, 'discover'>
   initialCircleId?: string
   onPinRoute?: (action: PinRouteAction, imageId?: string, commentId?: string) => void
   onFeedModeChange?: (mode: ShadowPinFeedMode) => void
@@ -128,6 +131,7 @@ type ModalMode =
 type ShadowPinHomeScrollMemory = {
   discover: number
   connections: number
+  for_you: number
   restoreMode: ShadowPinFeedMode | null
 }
 
@@ -3261,7 +3265,7 @@ function ShadowPinHome({
   onPublishedPin: (image: ShadowPinImage) => void
   initialCreatorOpen: boolean
   homeScrollMemory: MutableRefObject<ShadowPinHomeScrollMemory>
-  initialFeedMode?: 'connections'
+  initialFeedMode?: Exclude<ShadowPinFeedMode, 'discover'>
   initialImage?: ShadowPinImage | null
   initialNeighbors?: ShadowPinImage[]
   routedImageId?: string
@@ -3284,6 +3288,7 @@ function ShadowPinHome({
   const feedModeState = useShadowPinFeedMode(initialFeedMode ?? null, onFeedModeChange)
   const connectionsState = useShadowPinConnectionFeed(feedModeState.mode === 'connections' && !initialCircleId)
   const circlesState = useInnerCircles(feedModeState.mode === 'connections')
+  const forYouState = useShadowPinForYouFeed(feedModeState.mode === 'for_you')
   const selectedCircle = useMemo(
     () => circlesState.circles.find(circle => circle.id === initialCircleId) ?? null,
     [circlesState.circles, initialCircleId]
@@ -3299,6 +3304,7 @@ function ShadowPinHome({
   const [creatorAttentionVisible, setCreatorAttentionVisible] = useState(false)
   const creatorAttentionRequestRef = useRef(0)
   const [commentsImage, setCommentsImage] = useState<ShadowPinImage | null>(null)
+  const [boardSaveImage, setBoardSaveImage] = useState<ShadowPinImage | null>(null)
   const [viewerSessionImages, setViewerSessionImages] = useState<ShadowPinImage[]>([])
   const openedInitialTargetRef = useRef<string | null>(null)
   const viewerEligibilityGenerationRef = useRef(0)
@@ -3856,6 +3862,7 @@ function ShadowPinHome({
     if (homeScrollMemory.current.restoreMode !== feedModeState.mode) return
     if (feedModeState.mode === 'discover' && categoriesState.loading) return
     if (feedModeState.mode === 'connections' && activeConnectionsState.loading && activeConnectionsState.images.length === 0) return
+    if (feedModeState.mode === 'for_you' && forYouState.loading && forYouState.images.length === 0) return
 
     const scrollNode = categoryScrollRef.current
     if (!scrollNode) return
@@ -3872,6 +3879,8 @@ function ShadowPinHome({
     categoriesState.loading,
     activeConnectionsState.images.length,
     activeConnectionsState.loading,
+    forYouState.images.length,
+    forYouState.loading,
     feedModeState.mode,
     homeScrollMemory,
   ])
@@ -3915,7 +3924,9 @@ function ShadowPinHome({
     <div
       className="theme-image-surface relative flex h-full min-h-0 flex-col overflow-hidden overscroll-contain"
       data-feed-mode={feedModeState.mode}
-      aria-busy={feedModeState.loading || (feedModeState.mode === 'connections' && activeConnectionsState.loading)}
+      aria-busy={feedModeState.loading
+        || (feedModeState.mode === 'connections' && activeConnectionsState.loading)
+        || (feedModeState.mode === 'for_you' && forYouState.loading)}
     >
       <MobileAppHeader
         currentView={currentView}
@@ -4160,6 +4171,17 @@ function ShadowPinHome({
           </div>
         )}
           </div>
+        ) : feedModeState.mode === 'for_you' ? (
+          <ShadowPinForYouFeed
+            feed={forYouState}
+            getImageSrc={image => getPinImageUrl(image, 'medium')}
+            onOpenPin={onOpenPin}
+            onPinVisible={image => {
+              tracker.recordPinViewed(image, null)
+              onPostViewed(image.id)
+            }}
+            onViewDiscover={() => selectFeedMode('discover')}
+          />
         ) : (
           <section
             id="shadow-pin-feed-panel-connections"
@@ -4292,7 +4314,7 @@ function ShadowPinHome({
               await categoriesState.refresh()
               if (feedModeState.mode === 'connections') await activeConnectionsState.refresh()
               tracker.recordPinMutation(image, 'pin_created', null)
-              if (feedModeState.mode === 'connections') {
+              if (feedModeState.mode !== 'discover') {
                 toast.success('Published to Discover')
                 onFeedModeChange('discover')
                 onPublishedPin(image)
@@ -4353,7 +4375,7 @@ function ShadowPinHome({
           categoryTitle={selectedCircle?.name || 'Connections'}
           hasMore={activeConnectionsState.hasMore}
           loadingMore={activeConnectionsState.loading}
-          commentsOpen={Boolean(commentsImage)}
+          commentsOpen={Boolean(commentsImage || boardSaveImage)}
           canManageImage={image => canManage(image, user?.id, adminRole)}
           getPosterUrl={image => getPinImageUrl(image, 'medium')}
           getTransitionUrl={image => isVideoPin(image)
@@ -4388,6 +4410,7 @@ function ShadowPinHome({
           onHeart={toggleConnectionImageHeart}
           onComments={image => openConnectionImageComments(image, true)}
           onShare={image => { void shareConnectionImage(image) }}
+          onSave={setBoardSaveImage}
           onEdit={image => {
             onPinRoute('close-viewer', image.id)
             setCreatorTargetImage(image)
@@ -4397,6 +4420,11 @@ function ShadowPinHome({
           onClose={closeConnectionImageViewer}
         />
       )}
+      <SaveToBoardSheet
+        open={Boolean(boardSaveImage)}
+        image={boardSaveImage}
+        onClose={() => setBoardSaveImage(null)}
+      />
       {commentsImage && feedModeState.mode === 'connections' && (
         <ShadowPinCommentsDialog
           image={commentsImage}
@@ -4465,6 +4493,7 @@ function ShadowPinCategoryScreen({
   const [creatorOpen, setCreatorOpen] = useState(false)
   const [creatorTargetImage, setCreatorTargetImage] = useState<ShadowPinImage | null>(null)
   const [commentsImage, setCommentsImage] = useState<ShadowPinImage | null>(null)
+  const [boardSaveImage, setBoardSaveImage] = useState<ShadowPinImage | null>(null)
   const [viewerSessionImages, setViewerSessionImages] = useState<ShadowPinImage[]>([])
   const openedInitialTargetRef = useRef<string | null>(null)
   const title = imagesState.category?.title || 'ShadowPin'
@@ -4748,7 +4777,7 @@ function ShadowPinCategoryScreen({
           categoryTitle={title}
           hasMore={!coldExactViewer && imagesState.hasMore}
           loadingMore={imagesState.loading}
-          commentsOpen={Boolean(commentsImage)}
+          commentsOpen={Boolean(commentsImage || boardSaveImage)}
           canManageImage={image => canManage(image, user?.id, adminRole)}
           getPosterUrl={image => getPinImageUrl(image, 'medium')}
           getTransitionUrl={image => isVideoPin(image)
@@ -4783,6 +4812,7 @@ function ShadowPinCategoryScreen({
           onHeart={toggleImageHeart}
           onComments={image => openImageComments(image, true)}
           onShare={image => { void shareViewerImage(image) }}
+          onSave={setBoardSaveImage}
           onEdit={image => {
             onPinRoute('close-viewer', image.id)
             setCreatorTargetImage(image)
@@ -4792,6 +4822,11 @@ function ShadowPinCategoryScreen({
           onClose={closeImageViewer}
         />
       )}
+      <SaveToBoardSheet
+        open={Boolean(boardSaveImage)}
+        image={boardSaveImage}
+        onClose={() => setBoardSaveImage(null)}
+      />
       {commentsImage && (
         <ShadowPinCommentsDialog
           image={commentsImage}
@@ -4844,6 +4879,7 @@ export function ShadowPin({
   const homeScrollMemory = useRef<ShadowPinHomeScrollMemory>({
     discover: 0,
     connections: 0,
+    for_you: 0,
     restoreMode: null,
   })
   const tracker = useShadowPinActivityTracker()
@@ -5062,7 +5098,7 @@ export function ShadowPin({
       }}
       onOpenPin={image => {
         if (!image.category_id) return
-        setReturnHomeAfterViewerClose(initialFeedMode === 'connections')
+        setReturnHomeAfterViewerClose(Boolean(initialFeedMode))
         routedViewerImagesRef.current.set(image.id, image)
         setInitialImage(image)
         setInitialNeighbors([])
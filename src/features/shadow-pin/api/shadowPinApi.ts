@@ -14,8 +14,12 @@ import type {
   ShadowPinFeedMode,
   ShadowPinFeedPage,
   ShadowPinFeedPreference,
+  ShadowPinForYouCursor,
+  ShadowPinForYouPage,
+  ShadowPinForYouReason,
   ShadowPinCommentReactionSummary,
 } from '../types'
+import { normalizeShadowPinForYouReason } from '../forYouModel'
 import { embedPublicProfile } from '../../../../supabase/functions/_shared/public-profile'
 import {
   triggerShadowPinCommentPushNotification,
@@ -61,7 +65,8 @@ export const SHADOW_PIN_IMAGE_SELECT = `
   updated_at,
   ${embedPublicProfile('creator', 'users!creator_id')},
   category:shadow_pin_categories!category_id(id, title),
-  tag_links:shadow_pin_image_tags(tag:shadow_pin_tags(slug))
+  tag_links:shadow_pin_image_tags(tag:shadow_pin_tags(slug)),
+  slides:shadow_pin_image_slides(position, media_type, image_url, thumbnail_url, medium_url, image_width, image_height, provider, provider_asset_id, video_preview_url, video_playback_url, video_hls_url, video_embed_url, duration_seconds, caption)
 `
 
 const ALLOWED_IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp', 'image/gif'])
@@ -96,6 +101,9 @@ export function normalizeShadowPinImageRecord(record: ShadowPinImageRecord): Sha
     heart_count: Number(image.heart_count ?? 0),
     comment_count: Number(image.comment_count ?? 0),
     tags: normalizeShadowPinTags(tags),
+    slides: image.slides?.length
+      ? [...image.slides].sort((first, second) => first.position - second.position)
+      : undefined,
   }
 }
 
@@ -282,10 +290,10 @@ type ShadowPinFeedIdRow = {
 }
 
 const normalizeShadowPinFeedMode = (value: unknown): ShadowPinFeedMode => (
-  value === 'connections' ? 'connections' : 'discover'
+  value === 'connections' || value === 'for_you' ? value : 'discover'
 )
 
-const fetchShadowPinImagesByIds = async (
+export const fetchShadowPinImagesByIds = async (
   imageIds: string[],
   heartState?: ReadonlyMap<string, boolean>
 ) => {
@@ -401,6 +409,56 @@ export async function fetchMyShadowPinConnectionFeedWindow(imageId: string) {
   }
 }
 
+type ShadowPinForYouRow = {
+  image_id: string
+  reason_kind?: unknown
+  reason_action?: unknown
+  reason_label?: unknown
+  has_more?: boolean
+}
+
+export async function fetchMyShadowPinForYouFeed(
+  cursor?: ShadowPinForYouCursor | null,
+  limit = SHADOW_PIN_PAGE_SIZE
+): Promise<ShadowPinForYouPage> {
+  const rankedAt = cursor?.rankedAt ?? new Date().toISOString()
+  const offset = cursor?.offset ?? 0
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('list_my_shadow_pin_for_you_feed', {
+    result_limit: Math.max(1, Math.min(Math.trunc(limit) || SHADOW_PIN_PAGE_SIZE, 60)),
+    page_offset: offset,
+    ranked_at: rankedAt,
+  })
+  if (error) throw error
+
+  const rows = (data ?? []) as ShadowPinForYouRow[]
+  // Hearted Pins are never ranked, so every returned row starts unhearted.
+  const heartState = new Map(rows.map(row => [row.image_id, false]))
+  const images = await fetchShadowPinImagesByIds(rows.map(row => row.image_id), heartState)
+  const reasons = new Map<string, ShadowPinForYouReason>(
+    rows.map(row => [row.image_id, normalizeShadowPinForYouReason(row)])
+  )
+  const hasMore = Boolean(rows[0]?.has_more)
+
+  return {
+    images,
+    reasons,
+    hasMore,
+    nextCursor: hasMore ? { rankedAt, offset: offset + rows.length } : null,
+  }
+}
+
+export async function setShadowPinForYouFeedback(imageId: string, hidden = true) {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('set_shadow_pin_for_you_feedback', {
+    target_image_id: imageId,
+    target_hidden: hidden,
+  })
+  if (error) throw error
+  const row = (Array.isArray(data) ? data[0] : data) as { hidden?: unknown } | null
+  return { hidden: Boolean(row?.hidden) }
+}
+
 export async function fetchShadowPinImage(imageId: string) {
   const client = await getWorkingClient()
   const { data, error } = await client
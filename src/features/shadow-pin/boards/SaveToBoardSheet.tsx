@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react'
+import { Bookmark, BookmarkCheck, Loader2, Plus } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '../../../components/ui/Button'
+import { useAuth } from '../../../hooks/useAuth'
+import { cn } from '../../../lib/utils'
+import { InnerCircleSheet } from '../../inner-circles/components/InnerCircleSheet'
+import { useInnerCircles } from '../../inner-circles/useInnerCircles'
+import type { ShadowPinImage } from '../types'
+import { listShadowPinBoards, mutateShadowPinBoard, setShadowPinBoardPin } from './boardsApi'
+import {
+  EMPTY_SHADOW_PIN_BOARD_FORM,
+  applyShadowPinBoardPinChange,
+  dispatchShadowPinBoardsChanged,
+  getShadowPinBoardVisibilityLabel,
+  type ShadowPinBoard,
+  type ShadowPinBoardFormValues,
+} from './boardsModel'
+import { ShadowPinBoardFormFields } from './ShadowPinBoardFormFields'
+
+const errorMessage = (error: unknown, fallback: string) => (
+  error instanceof Error ? error.message : fallback
+)
+
+export function SaveToBoardSheet({
+  open,
+  image,
+  onClose,
+}: {
+  open: boolean
+  image: ShadowPinImage | null
+  onClose: () => void
+}) {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const imageId = image?.id ?? null
+  const [boards, setBoards] = useState<ShadowPinBoard[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingBoardId, setPendingBoardId] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [form, setForm] = useState<ShadowPinBoardFormValues>(EMPTY_SHADOW_PIN_BOARD_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const titleRef = useRef<HTMLInputElement>(null)
+  // Kept across retries so a failed save after a successful create reuses the board.
+  const createdBoardIdRef = useRef<string | null>(null)
+  const { circles, loading: circlesLoading } = useInnerCircles(open)
+
+  const load = useCallback(async () => {
+    if (!userId || !imageId) return
+    setLoading(true)
+    setError(null)
+    try {
+      setBoards(await listShadowPinBoards(userId, imageId))
+    } catch (loadError) {
+      setError(errorMessage(loadError, 'Unable to load your boards'))
+    } finally {
+      setLoading(false)
+    }
+  }, [imageId, userId])
+
+  useEffect(() => {
+    if (!open) {
+      setCreating(false)
+      setForm(EMPTY_SHADOW_PIN_BOARD_FORM)
+      setFormError(null)
+      createdBoardIdRef.current = null
+      return
+    }
+    void load()
+  }, [load, open])
+
+  const toggleBoard = async (board: ShadowPinBoard) => {
+    if (!imageId || pendingBoardId) return
+    const saved = !board.containsImage
+    setPendingBoardId(board.id)
+    setBoards(current => applyShadowPinBoardPinChange(current, board.id, imageId, saved))
+    try {
+      const result = await setShadowPinBoardPin(board.id, imageId, saved)
+      setBoards(current => applyShadowPinBoardPinChange(current, board.id, imageId, result.saved, result.pinCount))
+      dispatchShadowPinBoardsChanged({ boardId: board.id, imageId, change: 'pin' })
+      toast.success(saved ? `Saved to ${board.title}` : `Removed from ${board.title}`)
+    } catch (toggleError) {
+      setBoards(current => applyShadowPinBoardPinChange(current, board.id, imageId, !saved, board.pinCount))
+      toast.error(errorMessage(toggleError, 'Unable to update this board'))
+    } finally {
+      setPendingBoardId(null)
+    }
+  }
+
+  const createBoard = async () => {
+    if (!imageId || submitting) return
+    setSubmitting(true)
+    setFormError(null)
+    try {
+      const { boardId } = await mutateShadowPinBoard('create', {
+        boardId: createdBoardIdRef.current,
+        values: form,
+      })
+      createdBoardIdRef.current = boardId
+      await setShadowPinBoardPin(boardId, imageId, true)
+      createdBoardIdRef.current = null
+      dispatchShadowPinBoardsChanged({ boardId, imageId, change: 'create' })
+      toast.success(`Saved to ${form.title.trim()}`)
+      setCreating(false)
+      setForm(EMPTY_SHADOW_PIN_BOARD_FORM)
+      await load()
+    } catch (createError) {
+      setFormError(errorMessage(createError, 'Unable to create this board'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const circleNames = new Map(circles.map(circle => [circle.id, circle.name]))
+
+  return (
+    <InnerCircleSheet
+      open={open && Boolean(image)}
+      onClose={creating && !submitting ? () => setCreating(false) : onClose}
+      dismissible={!submitting}
+      title={creating ? 'New board' : 'Save to board'}
+      eyebrow="ShadowPin"
+      description={creating
+        ? 'Boards group Pins from any category. You choose who can see each one.'
+        : image?.title || 'Pin'}
+      initialFocusRef={creating ? titleRef as RefObject<HTMLElement> : undefined}
+      testId="shadow-pin-save-to-board"
+      footer={creating ? (
+        <div className="grid grid-cols-2 gap-3">
+          <Button type="button" variant="secondary" onClick={() => setCreating(false)} disabled={submitting}>Back</Button>
+          <Button
+            type="submit"
+            form="shadow-pin-new-board-form"
+            loading={submitting}
+            disabled={submitting || !form.title.trim()}
+          >
+            Create and save
+          </Button>
+        </div>
+      ) : (
+        <Button type="button" variant="secondary" className="w-full" onClick={() => setCreating(true)}>
+          <Plus className="mr-2 h-4 w-4" aria-hidden="true" />
+          New board
+        </Button>
+      )}
+    >
+      {creating ? (
+        <form id="shadow-pin-new-board-form" onSubmit={event => { event.preventDefault(); void createBoard() }}>
+          <ShadowPinBoardFormFields
+            idPrefix="shadow-pin-new-board"
+            values={form}
+            circles={circles}
+            circlesLoading={circlesLoading}
+            titleRef={titleRef}
+            onChange={setForm}
+          />
+          {formError && <p role="alert" className="mt-3 rounded-[var(--radius-md)] border border-red-400/25 bg-red-950/20 p-3 text-sm text-red-100">{formError}</p>}
+        </form>
+      ) : (
+        <>
+          {loading && boards.length === 0 && (
+            <div className="flex min-h-12 items-center justify-center gap-2 text-sm text-[var(--text-muted)]" role="status">
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              Loading your boards
+            </div>
+          )}
+          {!loading && error && (
+            <div className="rounded-[var(--radius-md)] border border-red-400/30 bg-red-500/10 p-3 text-center text-sm text-red-100" role="alert">
+              <p>{error}</p>
+              <Button type="button" className="mt-3 w-full" variant="secondary" onClick={() => void load()}>Try again</Button>
+            </div>
+          )}
+          {!loading && !error && boards.length === 0 && (
+            <p className="rounded-[var(--radius-md)] border border-dashed border-[var(--border-subtle)] p-3 text-center text-sm text-[var(--text-muted)]">
+              You have no boards yet. Create one to save this Pin.
+            </p>
+          )}
+          {boards.length > 0 && (
+            <ul className="space-y-2" aria-label="Your boards">
+              {boards.map(board => {
+                const pending = pendingBoardId === board.id
+                return (
+                  <li key={board.id}>
+                    <button
+                      type="button"
+                      aria-pressed={board.containsImage}
+                      disabled={Boolean(pendingBoardId)}
+                      onClick={() => void toggleBoard(board)}
+                      className={cn(
+                        'flex min-h-14 w-full min-w-0 items-center gap-3 rounded-[var(--radius-lg)] border p-3 text-left transition-[background-color,border-color,color] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)] disabled:cursor-wait',
+                        board.containsImage ? 'border-[var(--theme-accent-border)] bg-[var(--theme-accent-soft)]' : 'border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] hover:border-[var(--border-glow)]'
+                      )}
+                    >
+                      <span className="min-w-0 flex-1">
+                        <span className="block break-words font-semibold text-[var(--text-primary)]">{board.title}</span>
+                        <span className="block text-xs text-[var(--text-muted)]">
+                          {getShadowPinBoardVisibilityLabel(board, board.circleId ? circleNames.get(board.circleId) : null, true)}
+                          {' · '}
+                          {board.pinCount} {board.pinCount === 1 ? 'Pin' : 'Pins'}
+                        </span>
+                      </span>
+                      {pending
+                        ? <Loader2 className="h-5 w-5 shrink-0 animate-spin text-[var(--text-muted)]" aria-hidden="true" />
+                        : board.containsImage
+                          ? <BookmarkCheck className="h-5 w-5 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+                          : <Bookmark className="h-5 w-5 shrink-0 text-[var(--text-muted)]" aria-hidden="true" />}
+                      <span className="sr-only">{board.containsImage ? 'Saved' : 'Not saved'}</span>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </InnerCircleSheet>
+  )
+}
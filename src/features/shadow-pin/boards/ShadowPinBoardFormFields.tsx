@@ -0,0 +1,116 @@
+import type { RefObject } from 'react'
+import { Check, CircleUserRound, Globe2, LockKeyhole, UsersRound } from 'lucide-react'
+import { cn } from '../../../lib/utils'
+import type { InnerCircle } from '../../inner-circles/innerCirclesModel'
+import {
+  SHADOW_PIN_BOARD_DESCRIPTION_MAX_LENGTH,
+  SHADOW_PIN_BOARD_TITLE_MAX_LENGTH,
+  SHADOW_PIN_BOARD_VISIBILITY_OPTIONS,
+  type ShadowPinBoardFormValues,
+  type ShadowPinBoardVisibility,
+} from './boardsModel'
+
+const VISIBILITY_ICONS: Record<ShadowPinBoardVisibility, typeof Globe2> = {
+  public: Globe2,
+  connections: UsersRound,
+  circle: CircleUserRound,
+  private: LockKeyhole,
+}
+
+export function ShadowPinBoardFormFields({
+  idPrefix,
+  values,
+  circles,
+  circlesLoading = false,
+  titleRef,
+  onChange,
+}: {
+  idPrefix: string
+  values: ShadowPinBoardFormValues
+  circles: InnerCircle[]
+  circlesLoading?: boolean
+  titleRef?: RefObject<HTMLInputElement>
+  onChange: (values: ShadowPinBoardFormValues) => void
+}) {
+  const update = (patch: Partial<ShadowPinBoardFormValues>) => onChange({ ...values, ...patch })
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor={`${idPrefix}-title`} className="text-sm font-semibold text-[var(--text-primary)]">Board name</label>
+        <input
+          ref={titleRef}
+          id={`${idPrefix}-title`}
+          value={values.title}
+          onChange={event => update({ title: event.target.value.slice(0, SHADOW_PIN_BOARD_TITLE_MAX_LENGTH) })}
+          maxLength={SHADOW_PIN_BOARD_TITLE_MAX_LENGTH}
+          autoComplete="off"
+          placeholder="Night drives"
+          className="obsidian-input mt-2 h-12 w-full min-w-0 rounded-2xl px-4 text-base text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+        />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-description`} className="text-sm font-semibold text-[var(--text-primary)]">Description</label>
+        <textarea
+          id={`${idPrefix}-description`}
+          value={values.description}
+          onChange={event => update({ description: event.target.value.slice(0, SHADOW_PIN_BOARD_DESCRIPTION_MAX_LENGTH) })}
+          maxLength={SHADOW_PIN_BOARD_DESCRIPTION_MAX_LENGTH}
+          rows={2}
+          placeholder="Optional"
+          className="obsidian-input mt-2 w-full min-w-0 resize-none rounded-2xl px-4 py-3 text-base text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+        />
+      </div>
+      <div role="radiogroup" aria-label="Who can see this board" className="space-y-2">
+        <p className="text-sm font-semibold text-[var(--text-primary)]">Who can see it</p>
+        {SHADOW_PIN_BOARD_VISIBILITY_OPTIONS.map(option => {
+          const selected = values.visibility === option.value
+          const Icon = VISIBILITY_ICONS[option.value]
+          const unavailable = option.value === 'circle' && !circlesLoading && circles.length === 0
+          return (
+            <button
+              key={option.value}
+              type="button"
+              role="radio"
+              aria-checked={selected}
+              disabled={unavailable}
+              onClick={() => update({
+                visibility: option.value,
+                circleId: option.value === 'circle' ? values.circleId ?? circles[0]?.id ?? null : null,
+              })}
+              className={cn(
+                'flex min-h-14 w-full min-w-0 items-center gap-3 rounded-[var(--radius-lg)] border p-3 text-left transition-[background-color,border-color,color] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)] disabled:opacity-50',
+                selected ? 'border-[var(--theme-accent-border)] bg-[var(--theme-accent-soft)]' : 'border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] hover:border-[var(--border-glow)]'
+              )}
+            >
+              <Icon className="h-5 w-5 shrink-0 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+              <span className="min-w-0 flex-1">
+                <span className="block font-semibold text-[var(--text-primary)]">{option.label}</span>
+                <span className="block text-xs text-[var(--text-muted)]">
+                  {unavailable ? 'Create an Inner Circle from Connections first.' : option.description}
+                </span>
+              </span>
+              <span aria-hidden="true" className={cn('grid h-7 w-7 shrink-0 place-items-center rounded-full border', selected ? 'border-[var(--theme-accent-border)] bg-[var(--theme-accent)] text-[var(--theme-accent-text)]' : 'border-[var(--border-subtle)] text-transparent')}><Check className="h-4 w-4" /></span>
+            </button>
+          )
+        })}
+      </div>
+      {values.visibility === 'circle' && circles.length > 0 && (
+        <div>
+          <label htmlFor={`${idPrefix}-circle`} className="text-sm font-semibold text-[var(--text-primary)]">Inner Circle</label>
+          <select
+            id={`${idPrefix}-circle`}
+            value={values.circleId ?? ''}
+            onChange={event => update({ circleId: event.target.value || null })}
+            className="obsidian-input mt-2 h-12 w-full min-w-0 rounded-2xl px-4 text-base text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+          >
+            {!values.circleId && <option value="">Choose a circle</option>}
+            {circles.map(circle => (
+              <option key={circle.id} value={circle.id}>{circle.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react'
+import { Loader2, Pencil, Play, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '../../../components/ui/Button'
+import { useAuth } from '../../../hooks/useAuth'
+import { InnerCircleSheet } from '../../inner-circles/components/InnerCircleSheet'
+import { useInnerCircles } from '../../inner-circles/useInnerCircles'
+import type { ShadowPinImage } from '../types'
+import {
+  fetchShadowPinBoardPins,
+  mutateShadowPinBoard,
+  setShadowPinBoardFollow,
+} from './boardsApi'
+import {
+  dispatchShadowPinBoardsChanged,
+  formatShadowPinBoardCounts,
+  getShadowPinBoardFormValues,
+  getShadowPinBoardThumbnailUrl,
+  getShadowPinBoardVisibilityLabel,
+  normalizeShadowPinBoardFormValues,
+  type ShadowPinBoard,
+  type ShadowPinBoardFormValues,
+  type ShadowPinBoardPinsCursor,
+} from './boardsModel'
+import { ShadowPinBoardFormFields } from './ShadowPinBoardFormFields'
+
+type SheetMode = 'view' | 'edit' | 'delete'
+
+const errorMessage = (error: unknown, fallback: string) => (
+  error instanceof Error ? error.message : fallback
+)
+
+export function ShadowPinBoardSheet({
+  open,
+  board,
+  onClose,
+  onOpenPin,
+  onBoardChange,
+  onBoardDeleted,
+}: {
+  open: boolean
+  board: ShadowPinBoard | null
+  onClose: () => void
+  onOpenPin: (image: ShadowPinImage) => void
+  onBoardChange: (board: ShadowPinBoard) => void
+  onBoardDeleted: (boardId: string) => void
+}) {
+  const { user } = useAuth()
+  const isOwner = Boolean(board && user?.id === board.ownerId)
+  const boardId = board?.id ?? null
+  const [images, setImages] = useState<ShadowPinImage[]>([])
+  const [cursor, setCursor] = useState<ShadowPinBoardPinsCursor | null>(null)
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<SheetMode>('view')
+  const [form, setForm] = useState<ShadowPinBoardFormValues | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [pending, setPending] = useState(false)
+  const titleRef = useRef<HTMLInputElement>(null)
+  const generationRef = useRef(0)
+  const { circles, loading: circlesLoading } = useInnerCircles(open && isOwner)
+
+  const loadPage = useCallback(async (nextCursor: ShadowPinBoardPinsCursor | null) => {
+    if (!boardId) return
+    const generation = generationRef.current
+    setLoading(true)
+    setError(null)
+    try {
+      const page = await fetchShadowPinBoardPins(boardId, nextCursor)
+      if (generation !== generationRef.current) return
+      setImages(current => nextCursor ? [...current, ...page.images] : page.images)
+      setCursor(page.nextCursor)
+      setHasMore(page.hasMore)
+    } catch (loadError) {
+      if (generation === generationRef.current) setError(errorMessage(loadError, 'Unable to load this board'))
+    } finally {
+      if (generation === generationRef.current) setLoading(false)
+    }
+  }, [boardId])
+
+  useEffect(() => {
+    generationRef.current += 1
+    setImages([])
+    setCursor(null)
+    setHasMore(false)
+    setMode('view')
+    setFormError(null)
+    if (open && boardId) void loadPage(null)
+  }, [boardId, loadPage, open])
+
+  if (!board) return null
+
+  const toggleFollow = async () => {
+    if (pending) return
+    setPending(true)
+    try {
+      const result = await setShadowPinBoardFollow(board.id, !board.viewerIsFollowing)
+      onBoardChange({
+        ...board,
+        viewerIsFollowing: result.following,
+        followerCount: result.followerCount ?? board.followerCount,
+      })
+      dispatchShadowPinBoardsChanged({ boardId: board.id, change: 'follow' })
+    } catch (followError) {
+      toast.error(errorMessage(followError, 'Unable to update this board'))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const saveEdit = async () => {
+    if (!form || pending) return
+    setPending(true)
+    setFormError(null)
+    try {
+      const values = normalizeShadowPinBoardFormValues(form)
+      await mutateShadowPinBoard('update', { boardId: board.id, values })
+      onBoardChange({ ...board, ...values, updatedAt: new Date().toISOString() })
+      dispatchShadowPinBoardsChanged({ boardId: board.id, change: 'update' })
+      setMode('view')
+    } catch (saveError) {
+      setFormError(errorMessage(saveError, 'Unable to update this board'))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const deleteBoard = async () => {
+    if (pending) return
+    setPending(true)
+    try {
+      await mutateShadowPinBoard('delete', { boardId: board.id })
+      dispatchShadowPinBoardsChanged({ boardId: board.id, change: 'delete' })
+      toast.success('Board deleted')
+      onBoardDeleted(board.id)
+    } catch (deleteError) {
+      toast.error(errorMessage(deleteError, 'Unable to delete this board'))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const circleName = board.circleId ? circles.find(circle => circle.id === board.circleId)?.name : null
+  const footer = mode === 'edit' ? (
+    <div className="grid grid-cols-2 gap-3">
+      <Button type="button" variant="secondary" onClick={() => setMode('view')} disabled={pending}>Cancel</Button>
+      <Button type="submit" form="shadow-pin-edit-board-form" loading={pending} disabled={pending || !form?.title.trim()}>Save board</Button>
+    </div>
+  ) : mode === 'delete' ? (
+    <div className="grid grid-cols-2 gap-3">
+      <Button type="button" variant="secondary" onClick={() => setMode('view')} disabled={pending}>Keep board</Button>
+      <Button type="button" variant="danger" onClick={() => void deleteBoard()} loading={pending}>Delete board</Button>
+    </div>
+  ) : isOwner ? (
+    <div className="grid grid-cols-2 gap-3">
+      <Button
+        type="button"
+        variant="secondary"
+        onClick={() => {
+          setForm(getShadowPinBoardFormValues(board))
+          setMode('edit')
+        }}
+      >
+        <Pencil className="mr-2 h-4 w-4" aria-hidden="true" />
+        Edit
+      </Button>
+      <Button type="button" variant="secondary" onClick={() => setMode('delete')}>
+        <Trash2 className="mr-2 h-4 w-4" aria-hidden="true" />
+        Delete
+      </Button>
+    </div>
+  ) : (
+    <Button
+      type="button"
+      className="w-full"
+      variant={board.viewerIsFollowing ? 'secondary' : 'primary'}
+      aria-pressed={board.viewerIsFollowing}
+      loading={pending}
+      onClick={() => void toggleFollow()}
+    >
+      {board.viewerIsFollowing ? 'Following' : 'Follow board'}
+    </Button>
+  )
+
+  return (
+    <InnerCircleSheet
+      open={open}
+      onClose={mode === 'view' ? onClose : () => setMode('view')}
+      dismissible={!pending}
+      title={board.title}
+      eyebrow={`Board · ${getShadowPinBoardVisibilityLabel(board, circleName, isOwner)}`}
+      description={board.description || formatShadowPinBoardCounts(board)}
+      initialFocusRef={mode === 'edit' ? titleRef as RefObject<HTMLElement> : undefined}
+      testId="shadow-pin-board-sheet"
+      footer={footer}
+    >
+      {mode === 'edit' && form ? (
+        <form id="shadow-pin-edit-board-form" onSubmit={event => { event.preventDefault(); void saveEdit() }}>
+          <ShadowPinBoardFormFields
+            idPrefix="shadow-pin-edit-board"
+            values={form}
+            circles={circles}
+            circlesLoading={circlesLoading}
+            titleRef={titleRef}
+            onChange={setForm}
+          />
+          {formError && <p role="alert" className="mt-3 rounded-[var(--radius-md)] border border-red-400/25 bg-red-950/20 p-3 text-sm text-red-100">{formError}</p>}
+        </form>
+      ) : mode === 'delete' ? (
+        <p className="text-sm leading-6 text-[var(--text-secondary)]">
+          Delete “{board.title}”? The Pins stay where they are; only this board and its followers are removed.
+        </p>
+      ) : (
+        <>
+          {board.description && (
+            <p className="mb-3 text-xs text-[var(--text-muted)]">{formatShadowPinBoardCounts(board)}</p>
+          )}
+          {images.length > 0 && (
+            <ul className="grid grid-cols-3 gap-2" aria-label={`Pins in ${board.title}`}>
+              {images.map(image => {
+                const thumbnailUrl = getShadowPinBoardThumbnailUrl(image)
+                return (
+                  <li key={image.id}>
+                    <button
+                      type="button"
+                      onClick={() => onOpenPin(image)}
+                      aria-label={`Open ${image.title || 'Pin'}`}
+                      className="relative block aspect-[3/4] w-full overflow-hidden rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.04)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+                    >
+                      {thumbnailUrl && (
+                        <img src={thumbnailUrl} alt="" loading="lazy" decoding="async" className="h-full w-full object-cover" />
+                      )}
+                      {image.media_type === 'video' && (
+                        <Play className="absolute right-1.5 top-1.5 h-4 w-4 text-white drop-shadow" aria-hidden="true" />
+                      )}
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+          {loading && (
+            <div className="mt-3 flex min-h-12 items-center justify-center gap-2 text-sm text-[var(--text-muted)]" role="status">
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              Loading Pins
+            </div>
+          )}
+          {!loading && error && (
+            <div className="mt-3 rounded-[var(--radius-md)] border border-red-400/30 bg-red-500/10 p-3 text-center text-sm text-red-100" role="alert">
+              <p>{error}</p>
+              <Button type="button" className="mt-3 w-full" variant="secondary" onClick={() => void loadPage(cursor)}>Try again</Button>
+            </div>
+          )}
+          {!loading && !error && images.length === 0 && (
+            <p className="rounded-[var(--radius-md)] border border-dashed border-[var(--border-subtle)] p-3 text-center text-sm text-[var(--text-muted)]">
+              {isOwner ? 'Save Pins here from the ShadowPin viewer.' : 'No Pins here yet.'}
+            </p>
+          )}
+          {!loading && !error && hasMore && (
+            <Button type="button" className="mt-3 w-full" variant="secondary" onClick={() => void loadPage(cursor)}>Load more</Button>
+          )}
+        </>
+      )}
+    </InnerCircleSheet>
+  )
+}
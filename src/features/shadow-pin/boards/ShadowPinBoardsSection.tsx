@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useState } from 'react'
+import { LayoutGrid, Loader2 } from 'lucide-react'
+import { resolvePinRouteMutation } from '../../../lib/appRouting'
+import type { ShadowPinImage } from '../types'
+import { fetchShadowPinBoardCovers, listMyFollowedShadowPinBoards, listShadowPinBoards } from './boardsApi'
+import {
+  SHADOW_PIN_BOARDS_CHANGED_EVENT,
+  formatShadowPinBoardCounts,
+  getShadowPinBoardThumbnailUrl,
+  getShadowPinBoardVisibilityLabel,
+  type ShadowPinBoard,
+} from './boardsModel'
+import { ShadowPinBoardSheet } from './ShadowPinBoardSheet'
+
+const routeToBoardPin = (imageId: string) => {
+  if (typeof window === 'undefined') return
+  const mutation = resolvePinRouteMutation({
+    currentUrl: new URL(window.location.href),
+    currentLayer: null,
+    action: 'push-viewer',
+    imageId,
+  })
+  if (!mutation || mutation.method === 'back') return
+  const nextState = { ...(window.history.state ?? {}), shadowchatLayer: mutation.layer }
+  window.history.pushState(nextState, '', mutation.url)
+  window.dispatchEvent(new PopStateEvent('popstate', { state: nextState }))
+}
+
+function BoardCard({
+  board,
+  covers,
+  isOwner,
+  onOpen,
+}: {
+  board: ShadowPinBoard
+  covers: ReadonlyMap<string, ShadowPinImage>
+  isOwner: boolean
+  onOpen: () => void
+}) {
+  const coverUrls = board.coverImageIds
+    .map(imageId => covers.get(imageId))
+    .map(image => image ? getShadowPinBoardThumbnailUrl(image) : '')
+    .filter(Boolean)
+    .slice(0, 3)
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      className="flex w-full min-w-0 flex-col overflow-hidden rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.025)] text-left transition-colors hover:border-[var(--border-glow)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-focus-ring)]"
+    >
+      <span className="grid aspect-[3/2] w-full grid-cols-3 gap-px bg-[rgba(255,255,255,0.04)]" aria-hidden="true">
+        {[0, 1, 2].map(index => coverUrls[index]
+          ? <img key={index} src={coverUrls[index]} alt="" loading="lazy" decoding="async" className="h-full w-full object-cover" />
+          : <span key={index} className="h-full w-full bg-[rgba(255,255,255,0.03)]" />)}
+      </span>
+      <span className="block min-w-0 p-2.5">
+        <span className="block truncate text-sm font-semibold text-[var(--text-primary)]">{board.title}</span>
+        <span className="block truncate text-xs text-[var(--text-muted)]">
+          {isOwner ? `${getShadowPinBoardVisibilityLabel(board, null, true)} · ` : ''}
+          {formatShadowPinBoardCounts(board)}
+        </span>
+      </span>
+    </button>
+  )
+}
+
+/**
+ * Boards on a profile. Other members only ever receive boards they may see,
+ * so the section stays hidden when none are shared with the viewer.
+ */
+export function ShadowPinBoardsSection({
+  userId,
+  isOwnProfile,
+  onNavigate,
+}: {
+  userId: string
+  isOwnProfile: boolean
+  onNavigate?: () => void
+}) {
+  const [boards, setBoards] = useState<ShadowPinBoard[]>([])
+  const [followedBoards, setFollowedBoards] = useState<ShadowPinBoard[]>([])
+  const [covers, setCovers] = useState<ReadonlyMap<string, ShadowPinImage>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState(false)
+  const [activeBoard, setActiveBoard] = useState<ShadowPinBoard | null>(null)
+
+  const load = useCallback(async (isCancelled: () => boolean = () => false) => {
+    setLoading(true)
+    try {
+      const [ownedBoards, followed] = await Promise.all([
+        listShadowPinBoards(userId),
+        isOwnProfile ? listMyFollowedShadowPinBoards() : Promise.resolve([]),
+      ])
+      const coverMap = await fetchShadowPinBoardCovers([...ownedBoards, ...followed])
+      if (isCancelled()) return
+      setBoards(ownedBoards)
+      setFollowedBoards(followed)
+      setCovers(coverMap)
+      setError(false)
+    } catch {
+      if (!isCancelled()) setError(true)
+    } finally {
+      if (!isCancelled()) setLoading(false)
+    }
+  }, [isOwnProfile, userId])
+
+  useEffect(() => {
+    let cancelled = false
+    const isCancelled = () => cancelled
+    void load(isCancelled)
+    const handleChanged = () => { void load(isCancelled) }
+    window.addEventListener(SHADOW_PIN_BOARDS_CHANGED_EVENT, handleChanged)
+    return () => {
+      cancelled = true
+      window.removeEventListener(SHADOW_PIN_BOARDS_CHANGED_EVENT, handleChanged)
+    }
+  }, [load])
+
+  const replaceBoard = (next: ShadowPinBoard) => {
+    const replace = (list: ShadowPinBoard[]) => list.map(board => board.id === next.id ? next : board)
+    setBoards(replace)
+    setFollowedBoards(replace)
+    setActiveBoard(current => current?.id === next.id ? next : current)
+  }
+
+  if (!isOwnProfile && !loading && (error || boards.length === 0)) return null
+
+  const renderGrid = (list: ShadowPinBoard[], label: string) => (
+    <ul className="grid grid-cols-2 gap-2" aria-label={label}>
+      {list.map(board => (
+        <li key={board.id} className="min-w-0">
+          <BoardCard board={board} covers={covers} isOwner={board.ownerId === userId && isOwnProfile} onOpen={() => setActiveBoard(board)} />
+        </li>
+      ))}
+    </ul>
+  )
+
+  return (
+    <section className="rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[rgba(255,255,255,0.035)] p-4" aria-label="ShadowPin boards">
+      <div className="mb-2 flex items-center gap-2 text-xs uppercase tracking-[0.16em] text-[var(--text-muted)]">
+        <LayoutGrid className="h-3.5 w-3.5" />
+        Boards
+      </div>
+      {loading && boards.length === 0 && followedBoards.length === 0 ? (
+        <div className="flex min-h-12 items-center justify-center gap-2 text-sm text-[var(--text-muted)]" role="status">
+          <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+          Loading boards
+        </div>
+      ) : error ? (
+        <p className="text-sm text-[var(--text-muted)]">Boards could not be loaded right now.</p>
+      ) : (
+        <>
+          {boards.length > 0
+            ? renderGrid(boards, isOwnProfile ? 'Your boards' : 'Boards')
+            : <p className="text-sm text-[var(--text-muted)]">Save a Pin from the ShadowPin viewer to start your first board.</p>}
+          {isOwnProfile && followedBoards.length > 0 && (
+            <>
+              <p className="mb-2 mt-4 text-xs uppercase tracking-[0.16em] text-[var(--text-muted)]">Following</p>
+              {renderGrid(followedBoards, 'Boards you follow')}
+            </>
+          )}
+        </>
+      )}
+      <ShadowPinBoardSheet
+        open={Boolean(activeBoard)}
+        board={activeBoard}
+        onClose={() => setActiveBoard(null)}
+        onBoardChange={replaceBoard}
+        onBoardDeleted={boardId => {
+          setBoards(current => current.filter(board => board.id !== boardId))
+          setActiveBoard(null)
+        }}
+        onOpenPin={image => {
+          setActiveBoard(null)
+          routeToBoardPin(image.id)
+          onNavigate?.()
+        }}
+      />
+    </section>
+  )
+}
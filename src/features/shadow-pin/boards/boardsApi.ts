@@ -0,0 +1,140 @@
+import { getWorkingClient } from '../../../lib/supabase'
+import { fetchShadowPinImagesByIds } from '../api/shadowPinApi'
+// Same client-generated v4 ids Inner Circles use for idempotent creates.
+import { createInnerCircleId as createBoardId } from '../../inner-circles/innerCirclesApi'
+import type { ShadowPinImage } from '../types'
+import {
+  normalizeShadowPinBoardFormValues,
+  normalizeShadowPinBoards,
+  type ShadowPinBoard,
+  type ShadowPinBoardAction,
+  type ShadowPinBoardFormValues,
+  type ShadowPinBoardPinsCursor,
+  type ShadowPinBoardPinsPage,
+} from './boardsModel'
+
+const DEFAULT_PAGE_SIZE = 30
+
+type BoardPinIdRow = {
+  image_id: string
+  added_at: string
+  viewer_has_hearted: boolean
+  has_more?: boolean
+}
+
+const requireId = (value: string | null | undefined, label: string) => {
+  const id = value?.trim()
+  if (!id) throw new Error(`${label} is required.`)
+  return id
+}
+
+export const listShadowPinBoards = async (
+  ownerId: string,
+  imageId?: string | null
+): Promise<ShadowPinBoard[]> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('list_shadow_pin_boards', {
+    target_owner_id: requireId(ownerId, 'Board owner'),
+    target_image_id: imageId ?? null,
+  })
+  if (error) throw error
+  return normalizeShadowPinBoards(data)
+}
+
+export const listMyFollowedShadowPinBoards = async (): Promise<ShadowPinBoard[]> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('list_my_followed_shadow_pin_boards')
+  if (error) throw error
+  return normalizeShadowPinBoards(data)
+}
+
+export const mutateShadowPinBoard = async (
+  action: ShadowPinBoardAction,
+  options: { boardId?: string | null; values?: ShadowPinBoardFormValues } = {}
+): Promise<{ boardId: string; deleted: boolean }> => {
+  const boardId = action === 'create'
+    ? (options.boardId?.trim() || createBoardId())
+    : requireId(options.boardId, 'Board')
+  let values: ShadowPinBoardFormValues | null = null
+  if (action !== 'delete') {
+    if (!options.values) throw new Error('Board details are required.')
+    values = normalizeShadowPinBoardFormValues(options.values)
+  }
+
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('mutate_shadow_pin_board', {
+    target_board_id: boardId,
+    target_action: action,
+    target_title: values?.title ?? null,
+    target_description: values?.description ?? null,
+    target_visibility: values?.visibility ?? null,
+    target_circle_id: values?.circleId ?? null,
+  })
+  if (error) throw error
+  const row = Array.isArray(data) ? data[0] as { id?: string; deleted?: boolean } | undefined : undefined
+  return { boardId: row?.id ?? boardId, deleted: row?.deleted === true }
+}
+
+export const setShadowPinBoardPin = async (boardId: string, imageId: string, saved: boolean) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('set_shadow_pin_board_pin', {
+    target_board_id: requireId(boardId, 'Board'),
+    target_image_id: requireId(imageId, 'Pin'),
+    target_saved: saved,
+  })
+  if (error) throw error
+  const row = Array.isArray(data) ? data[0] as { saved?: boolean; pin_count?: number } | undefined : undefined
+  return {
+    saved: row?.saved ?? saved,
+    pinCount: typeof row?.pin_count === 'number' ? row.pin_count : null,
+  }
+}
+
+export const setShadowPinBoardFollow = async (boardId: string, following: boolean) => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('set_shadow_pin_board_follow', {
+    target_board_id: requireId(boardId, 'Board'),
+    target_following: following,
+  })
+  if (error) throw error
+  const row = Array.isArray(data)
+    ? data[0] as { following?: boolean; follower_count?: number } | undefined
+    : undefined
+  return {
+    following: row?.following ?? following,
+    followerCount: typeof row?.follower_count === 'number' ? row.follower_count : null,
+  }
+}
+
+export const fetchShadowPinBoardPins = async (
+  boardId: string,
+  cursor?: ShadowPinBoardPinsCursor | null,
+  limit = DEFAULT_PAGE_SIZE
+): Promise<ShadowPinBoardPinsPage> => {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('list_shadow_pin_board_pins', {
+    target_board_id: requireId(boardId, 'Board'),
+    result_limit: Math.max(1, Math.min(Math.trunc(limit) || DEFAULT_PAGE_SIZE, 60)),
+    before_added_at: cursor?.addedAt ?? null,
+    before_image_id: cursor?.imageId ?? null,
+  })
+  if (error) throw error
+
+  const rows = (data ?? []) as BoardPinIdRow[]
+  const heartState = new Map(rows.map(row => [row.image_id, Boolean(row.viewer_has_hearted)]))
+  const images = await fetchShadowPinImagesByIds(rows.map(row => row.image_id), heartState)
+  const lastRow = rows.length > 0 ? rows[rows.length - 1] : undefined
+
+  return {
+    images,
+    hasMore: Boolean(rows[0]?.has_more),
+    nextCursor: lastRow ? { addedAt: lastRow.added_at, imageId: lastRow.image_id } : null,
+  }
+}
+
+/** Load every board cover in one query; Pins the viewer cannot read are skipped. */
+export const fetchShadowPinBoardCovers = async (boards: ShadowPinBoard[]) => {
+  const imageIds = Array.from(new Set(boards.flatMap(board => board.coverImageIds)))
+  const images = await fetchShadowPinImagesByIds(imageIds)
+  return new Map<string, ShadowPinImage>(images.map(image => [image.id, image]))
+}
@@ -0,0 +1,200 @@
+import type { ShadowPinImage } from '../types'
+
+export type ShadowPinBoardVisibility = 'public' | 'connections' | 'circle' | 'private'
+export type ShadowPinBoardAction = 'create' | 'update' | 'delete'
+
+export interface ShadowPinBoard {
+  id: string
+  ownerId: string
+  title: string
+  description: string
+  visibility: ShadowPinBoardVisibility
+  /** Only returned to the owner; other viewers never learn which circle. */
+  circleId: string | null
+  pinCount: number
+  followerCount: number
+  coverImageIds: string[]
+  viewerIsFollowing: boolean
+  containsImage: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ShadowPinBoardFormValues {
+  title: string
+  description: string
+  visibility: ShadowPinBoardVisibility
+  circleId: string | null
+}
+
+export interface ShadowPinBoardPinsCursor {
+  addedAt: string
+  imageId: string
+}
+
+export interface ShadowPinBoardPinsPage {
+  images: ShadowPinImage[]
+  hasMore: boolean
+  nextCursor: ShadowPinBoardPinsCursor | null
+}
+
+export interface ShadowPinBoardsChangedDetail {
+  boardId?: string | null
+  imageId?: string | null
+  change?: ShadowPinBoardAction | 'pin' | 'follow'
+}
+
+export const SHADOW_PIN_BOARDS_CHANGED_EVENT = 'shadowchat:shadow-pin-boards-changed'
+export const SHADOW_PIN_BOARD_TITLE_MAX_LENGTH = 60
+export const SHADOW_PIN_BOARD_DESCRIPTION_MAX_LENGTH = 280
+
+export const SHADOW_PIN_BOARD_VISIBILITY_OPTIONS: Array<{
+  value: ShadowPinBoardVisibility
+  label: string
+  description: string
+}> = [
+  { value: 'public', label: 'Public', description: 'Anyone on ShadowChat can see and follow it.' },
+  { value: 'connections', label: 'Connections', description: 'Only your accepted Connections can see it.' },
+  { value: 'circle', label: 'Inner Circle', description: 'Only members of one of your Inner Circles can see it.' },
+  { value: 'private', label: 'Private', description: 'Only you can see it.' },
+]
+
+export const EMPTY_SHADOW_PIN_BOARD_FORM: ShadowPinBoardFormValues = {
+  title: '',
+  description: '',
+  visibility: 'public',
+  circleId: null,
+}
+
+const asRecord = (value: unknown): Record<string, unknown> => {
+  if (Array.isArray(value)) return asRecord(value[0])
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {}
+}
+
+const asString = (value: unknown) => typeof value === 'string' ? value : null
+
+const asNonNegativeInteger = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : 0
+}
+
+const isBoardVisibility = (value: unknown): value is ShadowPinBoardVisibility => (
+  value === 'public' || value === 'connections' || value === 'circle' || value === 'private'
+)
+
+const collapseWhitespace = (value: string) => value.trim().replace(/\s+/g, ' ')
+
+export const normalizeShadowPinBoard = (value: unknown): ShadowPinBoard | null => {
+  const record = asRecord(value)
+  const id = asString(record.id)
+  const ownerId = asString(record.owner_id)
+  const title = asString(record.title)?.trim()
+  const createdAt = asString(record.created_at)
+  const updatedAt = asString(record.updated_at)
+  if (!id || !ownerId || !title || !createdAt || !updatedAt) return null
+
+  return {
+    id,
+    ownerId,
+    title,
+    description: asString(record.description)?.trim() ?? '',
+    // An unknown scope is treated as the narrowest one.
+    visibility: isBoardVisibility(record.visibility) ? record.visibility : 'private',
+    circleId: asString(record.circle_id),
+    pinCount: asNonNegativeInteger(record.pin_count),
+    followerCount: asNonNegativeInteger(record.follower_count),
+    coverImageIds: Array.isArray(record.cover_image_ids)
+      ? record.cover_image_ids.filter((imageId): imageId is string => typeof imageId === 'string')
+      : [],
+    viewerIsFollowing: record.viewer_is_following === true,
+    containsImage: record.contains_image === true,
+    createdAt,
+    updatedAt,
+  }
+}
+
+export const normalizeShadowPinBoards = (value: unknown) => (
+  Array.isArray(value)
+    ? value.map(normalizeShadowPinBoard).filter((board): board is ShadowPinBoard => board !== null)
+    : []
+)
+
+export const normalizeShadowPinBoardFormValues = (
+  values: ShadowPinBoardFormValues
+): ShadowPinBoardFormValues => {
+  const title = collapseWhitespace(values.title)
+  if (!title) throw new Error('Board title is required.')
+  if (title.length > SHADOW_PIN_BOARD_TITLE_MAX_LENGTH) {
+    throw new Error(`Board title must be ${SHADOW_PIN_BOARD_TITLE_MAX_LENGTH} characters or fewer.`)
+  }
+
+  const description = collapseWhitespace(values.description)
+  if (description.length > SHADOW_PIN_BOARD_DESCRIPTION_MAX_LENGTH) {
+    throw new Error(`Board description must be ${SHADOW_PIN_BOARD_DESCRIPTION_MAX_LENGTH} characters or fewer.`)
+  }
+
+  if (values.visibility === 'circle' && !values.circleId) {
+    throw new Error('Choose an Inner Circle for this board.')
+  }
+
+  return {
+    title,
+    description,
+    visibility: values.visibility,
+    circleId: values.visibility === 'circle' ? values.circleId : null,
+  }
+}
+
+export const getShadowPinBoardFormValues = (board: ShadowPinBoard): ShadowPinBoardFormValues => ({
+  title: board.title,
+  description: board.description,
+  visibility: board.visibility,
+  circleId: board.circleId,
+})
+
+export const getShadowPinBoardVisibilityLabel = (
+  board: Pick<ShadowPinBoard, 'visibility' | 'circleId'>,
+  circleName?: string | null,
+  isOwner = false
+) => {
+  if (board.visibility === 'circle') {
+    if (circleName) return circleName
+    // A deleted circle leaves the board owner-only until it is rescoped.
+    return isOwner && board.circleId === null ? 'Only you' : 'Inner Circle'
+  }
+  return SHADOW_PIN_BOARD_VISIBILITY_OPTIONS.find(option => option.value === board.visibility)?.label ?? 'Private'
+}
+
+export const formatShadowPinBoardCounts = (board: Pick<ShadowPinBoard, 'pinCount' | 'followerCount'>) => [
+  `${board.pinCount} ${board.pinCount === 1 ? 'Pin' : 'Pins'}`,
+  `${board.followerCount} ${board.followerCount === 1 ? 'follower' : 'followers'}`,
+].join(' · ')
+
+export const getShadowPinBoardThumbnailUrl = (image: ShadowPinImage) => (
+  image.thumbnail_url || image.medium_url || (image.media_type === 'video' ? '' : image.image_url)
+)
+
+/** Apply a save or unsave locally so the sheet reflects it before the next refresh. */
+export const applyShadowPinBoardPinChange = (
+  boards: ShadowPinBoard[],
+  boardId: string,
+  imageId: string,
+  saved: boolean,
+  pinCount?: number | null
+) => boards.map(board => {
+  if (board.id !== boardId) return board
+  const coverImageIds = saved
+    ? [imageId, ...board.coverImageIds.filter(id => id !== imageId)].slice(0, 4)
+    : board.coverImageIds.filter(id => id !== imageId)
+  return {
+    ...board,
+    containsImage: saved,
+    coverImageIds,
+    pinCount: typeof pinCount === 'number' ? pinCount : Math.max(0, board.pinCount + (saved ? 1 : -1)),
+  }
+})
+
+export const dispatchShadowPinBoardsChanged = (detail: ShadowPinBoardsChangedDetail = {}) => {
+  if (typeof window === 'undefined') return
+  window.dispatchEvent(new CustomEvent<ShadowPinBoardsChangedDetail>(SHADOW_PIN_BOARDS_CHANGED_EVENT, { detail }))
+}
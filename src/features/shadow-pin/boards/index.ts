@@ -0,0 +1,4 @@
+export { SaveToBoardSheet } from './SaveToBoardSheet'
+export { ShadowPinBoardSheet } from './ShadowPinBoardSheet'
+export { ShadowPinBoardsSection } from './ShadowPinBoardsSection'
+export * from './boardsModel'
@@ -1,6 +1,6 @@
 import { lazy, Suspense, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
-import { Copy, Edit3, Flag, Loader2, MessageSquare, Plus, Reply, Send, Trash2, X } from 'lucide-react'
+import { AlarmClock, Copy, Edit3, Flag, Loader2, MessageSquare, Plus, Reply, Send, Trash2, X } from 'lucide-react'
 import toast from 'react-hot-toast'
 import type { EmojiClickData } from '../../../types'
 import { ChatMessageActionsMenu, type ChatMessageAction } from '../../../components/chat/ChatMessageActionsMenu'
@@ -22,6 +22,7 @@ import {
 import type { ShadowPinCommentCursor } from '../api/shadowPinApi'
 import type { ShadowPinComment, ShadowPinImage } from '../types'
 import { useModerationReport } from '../../moderation/useModerationReport'
+import { useMessageReminder } from '../../message-reminders/useMessageReminder'
 import { MEMBER_REPORTING_FEATURE_ENABLED } from '../../../config/featureFlags'
 
 const PublicProfileDialog = lazy(() =>
@@ -63,6 +64,7 @@ function CommentCard({
   onEdit,
   onDelete,
   onReport,
+  onRemind,
   onReaction,
   onOpenProfile,
   currentUserId,
@@ -78,6 +80,7 @@ function CommentCard({
   onEdit: () => void
   onDelete: () => void
   onReport: () => void
+  onRemind: () => void
   onReaction: (emoji: string) => Promise<void>
   onOpenProfile: () => void
   currentUserId?: string
@@ -146,6 +149,12 @@ function CommentCard({
       icon: Plus,
       onSelect: () => setShowReactionPicker(true),
     },
+    {
+      id: 'remind',
+      label: 'Remind me',
+      icon: AlarmClock,
+      onSelect: onRemind,
+    },
     {
       id: 'edit',
       label: 'Edit',
@@ -312,6 +321,7 @@ export function ShadowPinCommentsDialog({
 }) {
   const { user } = useAuth()
   const { openReport } = useModerationReport()
+  const { openReminder } = useMessageReminder()
   const { role } = useAdminAccess({ includeUsers: false })
   const [comments, setComments] = useState<ShadowPinComment[]>([])
   const [body, setBody] = useState('')
@@ -396,6 +406,13 @@ export function ShadowPinCommentsDialog({
     subjectAvatarUrl: comment.author?.avatar_url ?? null,
   })
 
+  const remindAboutComment = (comment: ShadowPinComment) => openReminder({
+    source: 'shadow_pin_comment',
+    messageId: comment.id,
+    label: authorLabel(comment),
+    preview: comment.body,
+  })
+
   useEffect(() => {
     canonicalCountRef.current = Math.max(0, image.comment_count ?? 0)
   }, [image.comment_count, image.id])
@@ -623,6 +640,7 @@ export function ShadowPinCommentsDialog({
                     onEdit={() => startEdit(comment)}
                     onDelete={() => void removeComment(comment)}
                     onReport={() => reportComment(comment)}
+                    onRemind={() => remindAboutComment(comment)}
                     onReaction={emoji => toggleCommentReaction(comment.id, emoji)}
                     onOpenProfile={() => setProfileUser(comment.author ?? null)}
                     currentUserId={user?.id}
@@ -641,6 +659,7 @@ export function ShadowPinCommentsDialog({
                       onEdit={() => startEdit(reply)}
                       onDelete={() => void removeComment(reply)}
                       onReport={() => reportComment(reply)}
+                      onRemind={() => remindAboutComment(reply)}
                       onReaction={emoji => toggleCommentReaction(reply.id, emoji)}
                       onOpenProfile={() => setProfileUser(reply.author ?? null)}
                       currentUserId={user?.id}
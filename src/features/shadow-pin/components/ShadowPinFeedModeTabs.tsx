@@ -5,6 +5,7 @@ import type { ShadowPinFeedMode } from '../types'
 const MODES: Array<{ id: ShadowPinFeedMode; label: string }> = [
   { id: 'discover', label: 'Discover' },
   { id: 'connections', label: 'Connections' },
+  { id: 'for_you', label: 'For You' },
 ]
 
 export function ShadowPinFeedModeTabs({
@@ -31,7 +32,7 @@ export function ShadowPinFeedModeTabs({
     <div
       role="tablist"
       aria-label="ShadowPin feed mode"
-      className="grid min-h-12 grid-cols-2 gap-1 rounded-[var(--radius-lg)] border border-[var(--border-panel)] bg-[rgba(5,6,8,0.72)] p-1 shadow-[var(--shadow-panel)] backdrop-blur-md"
+      className="grid min-h-12 grid-cols-3 gap-1 rounded-[var(--radius-lg)] border border-[var(--border-panel)] bg-[rgba(5,6,8,0.72)] p-1 shadow-[var(--shadow-panel)] backdrop-blur-md"
       data-testid="shadow-pin-feed-mode-tabs"
     >
       {MODES.map((candidate, index) => {
@@ -65,7 +66,7 @@ export function ShadowPinFeedModeTabs({
               }
             }}
             className={cn(
-              'min-h-11 rounded-[calc(var(--radius-lg)-0.25rem)] border px-3 text-sm font-semibold transition-[background-color,border-color,color,box-shadow] focus:outline-none focus:ring-2 focus:ring-[var(--theme-accent-border)] disabled:opacity-60',
+              'min-h-11 rounded-[calc(var(--radius-lg)-0.25rem)] border px-2 text-sm font-semibold transition-[background-color,border-color,color,box-shadow] focus:outline-none focus:ring-2 focus:ring-[var(--theme-accent-border)] disabled:opacity-60',
               selected
                 ? 'border-[var(--theme-accent-border)] bg-[var(--theme-accent-soft)] text-[var(--theme-accent-readable)] shadow-[inset_0_0_0_1px_var(--theme-accent-border-soft)]'
                 : 'border-transparent text-[var(--text-secondary)] hover:bg-[rgba(255,255,255,0.055)] hover:text-[var(--text-primary)]'
@@ -0,0 +1,238 @@
+import { useEffect, useRef, useState } from 'react'
+import { EyeOff, Sparkles } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '../../../components/ui/Button'
+import { getShadowPinForYouReasonText } from '../forYouModel'
+import type { ShadowPinForYouReason, ShadowPinImage } from '../types'
+
+type ShadowPinForYouFeedState = {
+  images: ShadowPinImage[]
+  reasons: Map<string, ShadowPinForYouReason>
+  loading: boolean
+  error: string | null
+  hasMore: boolean
+  refresh: () => Promise<void>
+  loadMore: () => Promise<void>
+  showLess: (image: ShadowPinImage) => Promise<() => Promise<void>>
+}
+
+type HiddenNotice = {
+  image: ShadowPinImage
+  undo: () => Promise<void>
+}
+
+const NEW_REASON: ShadowPinForYouReason = { kind: 'new', action: null, label: null }
+
+function ForYouCard({
+  image,
+  reason,
+  imageSrc,
+  onOpen,
+  onShowLess,
+  onVisible,
+}: {
+  image: ShadowPinImage
+  reason: ShadowPinForYouReason
+  imageSrc: string
+  onOpen: () => void
+  onShowLess: () => void
+  onVisible: () => void
+}) {
+  const cardRef = useRef<HTMLElement | null>(null)
+  const onVisibleRef = useRef(onVisible)
+  onVisibleRef.current = onVisible
+  const reasonText = getShadowPinForYouReasonText(reason, image)
+
+  useEffect(() => {
+    const node = cardRef.current
+    if (!node || typeof IntersectionObserver === 'undefined') return
+
+    let visibleTimer: number | null = null
+    const clearVisibleTimer = () => {
+      if (visibleTimer) {
+        window.clearTimeout(visibleTimer)
+        visibleTimer = null
+      }
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) {
+        clearVisibleTimer()
+        visibleTimer = window.setTimeout(() => {
+          visibleTimer = null
+          onVisibleRef.current()
+        }, 1000)
+        return
+      }
+      clearVisibleTimer()
+    }, { threshold: 0.12 })
+
+    observer.observe(node)
+    return () => {
+      clearVisibleTimer()
+      observer.disconnect()
+    }
+  }, [image.id])
+
+  return (
+    <article
+      ref={cardRef}
+      className="overflow-hidden rounded-[var(--radius-lg)] border border-[var(--border-panel)] bg-[rgba(5,6,8,0.72)] shadow-[var(--shadow-panel)]"
+      data-testid={`shadow-pin-for-you-card-${image.id}`}
+    >
+      <button
+        type="button"
+        onClick={onOpen}
+        disabled={!image.category_id}
+        className="block w-full text-left focus:outline-none focus:ring-2 focus:ring-inset focus:ring-[var(--theme-accent-border)] disabled:opacity-60"
+        aria-label={`Open ${image.title}`}
+      >
+        <span className="block aspect-square w-full overflow-hidden bg-[rgba(255,255,255,0.055)]">
+          {imageSrc && <img src={imageSrc} alt="" loading="lazy" decoding="async" className="h-full w-full object-cover" />}
+        </span>
+        <span className="block px-3 pt-2.5">
+          <span className="block truncate text-sm font-semibold text-[var(--text-primary)]">{image.title}</span>
+          <span className="block truncate text-xs text-[var(--text-muted)]">
+            {image.creator?.display_name || image.creator?.username || image.category?.title || 'ShadowPin'}
+          </span>
+        </span>
+      </button>
+      <div className="flex items-center justify-between gap-2 px-3 pb-2.5 pt-2">
+        <span
+          className="inline-flex min-w-0 items-center gap-1 rounded-full border border-[var(--theme-accent-border-soft)] bg-[var(--theme-accent-soft)] px-2 py-1 text-[0.68rem] font-semibold text-[var(--theme-accent-readable)]"
+          data-testid="shadow-pin-for-you-reason"
+        >
+          <Sparkles className="h-3 w-3 shrink-0" aria-hidden="true" />
+          <span className="truncate">{reasonText}</span>
+        </span>
+        <button
+          type="button"
+          onClick={onShowLess}
+          className="inline-flex min-h-9 min-w-9 shrink-0 items-center justify-center rounded-full text-[var(--text-muted)] transition-colors hover:bg-[rgba(255,255,255,0.055)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--theme-accent-border)]"
+          aria-label={`Show less like ${image.title}`}
+          title="Show less like this"
+          data-testid="shadow-pin-for-you-show-less"
+        >
+          <EyeOff className="h-4 w-4" aria-hidden="true" />
+        </button>
+      </div>
+    </article>
+  )
+}
+
+export function ShadowPinForYouFeed({
+  feed,
+  getImageSrc,
+  onOpenPin,
+  onPinVisible,
+  onViewDiscover,
+}: {
+  feed: ShadowPinForYouFeedState
+  getImageSrc: (image: ShadowPinImage) => string
+  onOpenPin: (image: ShadowPinImage) => void
+  onPinVisible: (image: ShadowPinImage) => void
+  onViewDiscover: () => void
+}) {
+  const [hiddenNotice, setHiddenNotice] = useState<HiddenNotice | null>(null)
+
+  const showLess = async (image: ShadowPinImage) => {
+    try {
+      const undo = await feed.showLess(image)
+      setHiddenNotice({ image, undo })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to update For You')
+    }
+  }
+
+  const undoShowLess = async () => {
+    if (!hiddenNotice) return
+    const notice = hiddenNotice
+    setHiddenNotice(null)
+    try {
+      await notice.undo()
+    } catch (error) {
+      setHiddenNotice(notice)
+      toast.error(error instanceof Error ? error.message : 'Unable to undo')
+    }
+  }
+
+  return (
+    <section
+      id="shadow-pin-feed-panel-for_you"
+      role="tabpanel"
+      aria-labelledby="shadow-pin-feed-mode-for_you"
+      data-testid="shadow-pin-for-you-panel"
+    >
+      <div className="sr-only" role="status" aria-live="polite">
+        {feed.loading ? 'Loading Pins picked for you' : `${feed.images.length} Pins picked for you loaded`}
+      </div>
+      {hiddenNotice && (
+        <div
+          className="mb-3 flex items-center justify-between gap-3 rounded-[var(--radius-md)] border border-[var(--border-panel)] bg-[rgba(5,6,8,0.72)] px-3 py-2 text-sm text-[var(--text-secondary)]"
+          role="status"
+          data-testid="shadow-pin-for-you-hidden-notice"
+        >
+          <span className="min-w-0 truncate">You will see fewer Pins like {hiddenNotice.image.title}.</span>
+          <button type="button" className="min-h-9 shrink-0 font-semibold text-[var(--theme-accent-readable)]" onClick={() => { void undoShowLess() }}>Undo</button>
+        </div>
+      )}
+      {feed.loading && feed.images.length === 0 ? (
+        <div className="grid grid-cols-2 gap-3" data-testid="shadow-pin-feed-skeleton" aria-hidden="true">
+          {[0, 1, 2, 3, 4, 5].map(index => (
+            <div key={index} className="aspect-square animate-pulse rounded-[var(--radius-lg)] border border-[var(--border-panel)] bg-[rgba(255,255,255,0.055)]" />
+          ))}
+        </div>
+      ) : feed.error && feed.images.length === 0 ? (
+        <div className="mx-auto max-w-md rounded-[var(--radius-lg)] border border-red-400/30 bg-red-500/10 p-5 text-center text-red-100" data-testid="shadow-pin-feed-error">
+          <h2 className="text-lg font-semibold">For You could not load</h2>
+          <p className="mt-1 text-sm text-red-100/75">{feed.error}</p>
+          <div className="mt-4 grid grid-cols-2 gap-2">
+            <Button variant="secondary" onClick={onViewDiscover}>View Discover</Button>
+            <Button onClick={() => { void feed.refresh() }}>Retry</Button>
+          </div>
+        </div>
+      ) : feed.images.length === 0 ? (
+        <div className="mx-auto max-w-md rounded-[var(--radius-lg)] border border-[var(--border-panel)] bg-[rgba(5,6,8,0.58)] p-5 text-center" data-testid="shadow-pin-feed-empty">
+          <Sparkles className="mx-auto mb-3 h-8 w-8 text-[var(--theme-accent-readable)]" aria-hidden="true" />
+          <h2 className="text-lg font-semibold text-[var(--text-primary)]">Nothing picked for you yet</h2>
+          <p className="mt-1 text-sm text-[var(--text-secondary)]">Heart, comment on, and browse Pins in Discover to shape this feed.</p>
+          <Button className="mt-4" variant="secondary" onClick={onViewDiscover}>View Discover</Button>
+        </div>
+      ) : (
+        <>
+          {feed.error && (
+            <div className="mb-3 flex items-center justify-between gap-3 rounded-[var(--radius-md)] border border-amber-300/25 bg-amber-500/10 px-3 py-2 text-sm text-amber-100" role="status" data-testid="shadow-pin-feed-refresh-error">
+              <span>Some Pins may be out of date.</span>
+              <button type="button" className="min-h-9 shrink-0 font-semibold text-[var(--theme-accent-readable)]" onClick={() => { void feed.refresh() }}>Retry</button>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 xl:grid-cols-4" aria-label="Pins picked for you" data-testid="shadow-pin-for-you-feed">
+            {feed.images.map(image => (
+              <ForYouCard
+                key={image.id}
+                image={image}
+                reason={feed.reasons.get(image.id) ?? NEW_REASON}
+                imageSrc={getImageSrc(image)}
+                onOpen={() => onOpenPin(image)}
+                onShowLess={() => { void showLess(image) }}
+                onVisible={() => onPinVisible(image)}
+              />
+            ))}
+          </div>
+          {feed.hasMore && (
+            <div className="mt-4 flex justify-center">
+              <Button
+                variant="secondary"
+                onClick={() => { void feed.loadMore() }}
+                loading={feed.loading}
+                data-testid="shadow-pin-feed-load-more"
+              >
+                Load More
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
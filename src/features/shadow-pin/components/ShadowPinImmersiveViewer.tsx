@@ -1,4 +1,5 @@
 import {
+  Bookmark,
   ChevronDown,
   ChevronLeft,
   ChevronRight,
@@ -35,6 +36,8 @@ import {
   canStartViewerSwipe,
   getViewerIndex,
   getViewerNeighbor,
+  getViewerSlideImage,
+  getViewerSlides,
   resolveViewerSwipe,
   shouldLoadMoreForViewer,
   type ViewerDirection,
@@ -88,6 +91,8 @@ type ShadowPinImmersiveViewerProps = {
   onHeart: (image: ShadowPinImage) => void
   onComments: (image: ShadowPinImage) => void
   onShare: (image: ShadowPinImage) => void
+  /** Opens the save-to-board sheet; the button is hidden when omitted. */
+  onSave?: (image: ShadowPinImage) => void
   onEdit: (image: ShadowPinImage) => void
   onDelete: (image: ShadowPinImage) => void
   onClose: () => void
@@ -131,6 +136,7 @@ export function ShadowPinImmersiveViewer({
   onHeart,
   onComments,
   onShare,
+  onSave,
   onEdit,
   onDelete,
   onClose,
@@ -149,6 +155,7 @@ export function ShadowPinImmersiveViewer({
   const previousImage = getViewerNeighbor(images, activeImageId, -1)
   const nextImage = getViewerNeighbor(images, activeImageId, 1)
   const [detailsOpen, setDetailsOpen] = useState(false)
+  const [slideIndex, setSlideIndex] = useState(0)
   const [muted, setMuted] = useState(true)
   const [zoomed, setZoomed] = useState(false)
   const [dragX, setDragX] = useState(0)
@@ -172,6 +179,19 @@ export function ShadowPinImmersiveViewer({
   const openedIdsRef = useRef(new Set<string>())
   const requestedMoreRef = useRef<string | null>(null)
   const preloadedImagesRef = useRef(new Map<string, HTMLImageElement>())
+  const slides = getViewerSlides(activeImage)
+  const activeSlideIndex = Math.min(slideIndex, Math.max(0, slides.length - 1))
+  const displayImage = activeImage ? getViewerSlideImage(activeImage, activeSlideIndex) : null
+  const activeCaption = slides[activeSlideIndex]?.caption || ''
+  // Carousel Pins step through their slides before moving to a neighbor Pin.
+  const hasPreviousStep = activeSlideIndex > 0 || Boolean(previousImage)
+  const hasNextStep = activeSlideIndex < slides.length - 1 || Boolean(nextImage)
+  const previousPreviewUrl = activeImage && activeSlideIndex > 0
+    ? getTransitionUrl(getViewerSlideImage(activeImage, activeSlideIndex - 1))
+    : previousImage ? getTransitionUrl(previousImage) : ''
+  const nextPreviewUrl = activeImage && activeSlideIndex < slides.length - 1
+    ? getTransitionUrl(getViewerSlideImage(activeImage, activeSlideIndex + 1))
+    : nextImage ? getTransitionUrl(nextImage) : ''
 
   const updateDragX = useCallback((value: number, immediate = false) => {
     dragXRef.current = value
@@ -268,6 +288,7 @@ export function ShadowPinImmersiveViewer({
 
   useEffect(() => {
     setDetailsOpen(false)
+    setSlideIndex(0)
     setZoomed(false)
     updateDragX(0, true)
     pendingNavigationRef.current = null
@@ -400,8 +421,21 @@ export function ShadowPinImmersiveViewer({
     navigationTimerRef.current = window.setTimeout(commitPendingNavigation, NAVIGATION_FALLBACK_MS)
   }, [commitPendingNavigation, updateDragX])
 
+  const showSlide = useCallback((index: number) => {
+    if (index < 0 || index >= slides.length) return
+    setSlideIndex(index)
+    setZoomed(false)
+    updateDragX(0, true)
+    setAnnouncement(`Slide ${index + 1} of ${slides.length}`)
+  }, [slides.length, updateDragX])
+
   const navigate = useCallback((direction: ViewerDirection, reason: ViewerNavigationReason) => {
     if (motionPhase !== 'idle' || commentsOpen || zoomed) return
+    const nextSlideIndex = activeSlideIndex + direction
+    if (slides.length > 1 && nextSlideIndex >= 0 && nextSlideIndex < slides.length) {
+      showSlide(nextSlideIndex)
+      return
+    }
     const neighbor = direction === -1 ? previousImage : nextImage
     if (!neighbor) {
       if (hasMore && direction === 1) {
@@ -424,7 +458,7 @@ export function ShadowPinImmersiveViewer({
     setMotionPhase('settling-navigation')
     updateDragX(direction === 1 ? -getStageWidth() : getStageWidth(), true)
     navigationTimerRef.current = window.setTimeout(commitPendingNavigation, NAVIGATION_FALLBACK_MS)
-  }, [commentsOpen, commitPendingNavigation, getStageWidth, hasMore, loadingMore, motionPhase, nextImage, onActiveImageChange, onLoadMore, previousImage, reducedMotion, updateDragX, zoomed])
+  }, [activeSlideIndex, commentsOpen, commitPendingNavigation, getStageWidth, hasMore, loadingMore, motionPhase, nextImage, onActiveImageChange, onLoadMore, previousImage, reducedMotion, showSlide, slides.length, updateDragX, zoomed])
 
   useEffect(() => {
     if (motionPhase !== 'idle' || commentsOpen || zoomed || queuedSwipes.length === 0) return
@@ -475,7 +509,7 @@ export function ShadowPinImmersiveViewer({
     if (gesture.axis !== 'horizontal') return
     event.preventDefault()
     if (gesture.queued) return
-    const atBoundary = (deltaX > 0 && !previousImage) || (deltaX < 0 && !nextImage)
+    const atBoundary = (deltaX > 0 && !hasPreviousStep) || (deltaX < 0 && !hasNextStep)
     updateDragX(atBoundary ? deltaX * 0.24 : deltaX)
   }
 
@@ -490,8 +524,8 @@ export function ShadowPinImmersiveViewer({
       deltaY,
       elapsedMs: performance.now() - gesture.startedAt,
       viewportWidth: getStageWidth(),
-      hasPrevious: gesture.queued ? true : Boolean(previousImage),
-      hasNext: gesture.queued ? true : Boolean(nextImage),
+      hasPrevious: gesture.queued ? true : hasPreviousStep,
+      hasNext: gesture.queued ? true : hasNextStep,
     })
     if (direction && (gesture.queued || motionPhase !== 'idle')) {
       setQueuedSwipes(current => current.length >= MAX_QUEUED_SWIPES ? current : [...current, direction])
@@ -574,9 +608,9 @@ export function ShadowPinImmersiveViewer({
           className="absolute inset-x-0 bottom-36 top-20 overflow-hidden [contain:layout_paint] md:bottom-28"
           data-testid="shadow-pin-theater-media-stage"
         >
-          {previousImage && (
+          {previousPreviewUrl && (
             <img
-              src={getTransitionUrl(previousImage)}
+              src={previousPreviewUrl}
               alt=""
               aria-hidden="true"
               className="pointer-events-none absolute inset-0 h-full w-full object-contain"
@@ -585,9 +619,9 @@ export function ShadowPinImmersiveViewer({
               data-testid="shadow-pin-theater-previous-slide"
             />
           )}
-          {nextImage && (
+          {nextPreviewUrl && (
             <img
-              src={getTransitionUrl(nextImage)}
+              src={nextPreviewUrl}
               alt=""
               aria-hidden="true"
               className="pointer-events-none absolute inset-0 h-full w-full object-contain"
@@ -645,13 +679,13 @@ export function ShadowPinImmersiveViewer({
                   </button>
                 </div>
               </div>
-            ) : (
+            ) : displayImage && (
               <div
-                key={activeImage.id}
+                key={`${activeImage.id}:${activeSlideIndex}`}
                 className="h-full w-full bg-contain bg-center bg-no-repeat"
-                style={{ backgroundImage: getTransitionUrl(activeImage) ? `url(${JSON.stringify(getTransitionUrl(activeImage))})` : undefined }}
+                style={{ backgroundImage: getTransitionUrl(displayImage) ? `url(${JSON.stringify(getTransitionUrl(displayImage))})` : undefined }}
               >
-                {renderActiveMedia(activeImage, {
+                {renderActiveMedia(displayImage, {
                   muted,
                   reducedMotion,
                   autoplayMedia: shouldAutoplayMedia,
@@ -679,6 +713,22 @@ export function ShadowPinImmersiveViewer({
             />
           )}
         </div>
+        {slides.length > 1 && (
+          <div className="absolute inset-x-0 bottom-32 z-10 flex justify-center md:bottom-24" role="group" aria-label={`Slide ${activeSlideIndex + 1} of ${slides.length}`} data-viewer-no-swipe>
+            {slides.map((slide, index) => (
+              <button
+                key={slide.position}
+                type="button"
+                onClick={() => showSlide(index)}
+                className="inline-flex h-6 w-6 items-center justify-center focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent)]"
+                aria-label={`Show slide ${index + 1}`}
+                aria-current={index === activeSlideIndex ? 'true' : undefined}
+              >
+                <span className={cn('h-1.5 rounded-full bg-white transition-all', index === activeSlideIndex ? 'w-4 opacity-95' : 'w-1.5 opacity-45')} />
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       <header className="pointer-events-none absolute inset-x-0 top-0 z-20 flex items-center gap-3 bg-gradient-to-b from-black/90 via-black/50 to-transparent px-3 pb-8 pt-[calc(env(safe-area-inset-top)+0.5rem)]">
@@ -705,18 +755,18 @@ export function ShadowPinImmersiveViewer({
       <button
         type="button"
         onClick={() => navigate(-1, 'button')}
-        disabled={!previousImage || motionPhase !== 'idle' || zoomed}
+        disabled={!hasPreviousStep || motionPhase !== 'idle' || zoomed}
         className="absolute left-3 top-1/2 z-20 inline-flex h-12 w-12 -translate-y-1/2 items-center justify-center text-white [filter:drop-shadow(0_2px_3px_rgba(0,0,0,0.95))] disabled:pointer-events-none disabled:opacity-25 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent)]"
-        aria-label="Previous Pin"
+        aria-label={activeSlideIndex > 0 ? 'Previous slide' : 'Previous Pin'}
       >
         <ChevronLeft className="h-6 w-6" />
       </button>
       <button
         type="button"
         onClick={() => navigate(1, 'button')}
-        disabled={(!nextImage && !hasMore) || motionPhase !== 'idle' || zoomed}
+        disabled={(!hasNextStep && !hasMore) || motionPhase !== 'idle' || zoomed}
         className="absolute right-3 top-1/2 z-20 inline-flex h-12 w-12 -translate-y-1/2 items-center justify-center text-white [filter:drop-shadow(0_2px_3px_rgba(0,0,0,0.95))] disabled:pointer-events-none disabled:opacity-25 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent)]"
-        aria-label={loadingMore && !nextImage ? 'Loading next Pin' : 'Next Pin'}
+        aria-label={activeSlideIndex < slides.length - 1 ? 'Next slide' : loadingMore && !nextImage ? 'Loading next Pin' : 'Next Pin'}
       >
         {loadingMore && !nextImage ? <Loader2 className="h-5 w-5 animate-spin" /> : <ChevronRight className="h-6 w-6" />}
       </button>
@@ -733,7 +783,7 @@ export function ShadowPinImmersiveViewer({
                 </p>
                 <p className="truncate text-xs text-white/55">{categoryTitle}</p>
               </div>
-              {(activeImage.media_type === 'video' || activeImage.media_type === 'external_video') && <button
+              {(displayImage?.media_type === 'video' || displayImage?.media_type === 'external_video') && <button
                 type="button"
                 onClick={() => setMuted(value => !value)}
                 className="inline-flex h-12 w-12 items-center justify-center rounded-full text-white/75 hover:bg-white/10 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent)]"
@@ -744,7 +794,9 @@ export function ShadowPinImmersiveViewer({
               </button>}
             </div>
 
-            <div className="mt-2 grid grid-cols-4 gap-1 sm:grid-cols-6">
+            {activeCaption && <p className="mt-2 line-clamp-2 text-sm text-white/80" data-testid="shadow-pin-theater-slide-caption">{activeCaption}</p>}
+
+            <div className={cn('mt-2 grid gap-1', onSave ? 'grid-cols-5 sm:grid-cols-7' : 'grid-cols-4 sm:grid-cols-6')}>
               <button
                 type="button"
                 onClick={() => onHeart(activeImage)}
@@ -767,6 +819,17 @@ export function ShadowPinImmersiveViewer({
                 <MessageSquare className="h-5 w-5" />
                 {formatCount(activeImage.comment_count ?? 0)}
               </button>
+              {onSave && (
+                <button
+                  type="button"
+                  onClick={() => onSave(activeImage)}
+                  aria-label={`Save ${activeImage.title} to a board`}
+                  className="inline-flex min-h-12 items-center justify-center gap-1.5 rounded-full text-xs font-semibold text-white/80 hover:bg-white/10 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--theme-accent)]"
+                >
+                  <Bookmark className="h-5 w-5" />
+                  Save
+                </button>
+              )}
               <button
                 type="button"
                 onClick={() => onShare(activeImage)}
@@ -46,6 +46,9 @@ export function ShareImageToShadowPinModal({
       <LazyShadowPinCreatorStudio
         open
         initialMediaUrl={imageUrl}
+        // Chat images come from ShadowChat storage, which allows reading them
+        // back, so the Studio can offer the image editor before posting.
+        initialMediaEditable
         initialTitle="Shared from ShadowChat"
         onClose={onClose}
         onPublished={async image => {
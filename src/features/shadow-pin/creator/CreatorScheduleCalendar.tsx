@@ -0,0 +1,99 @@
+import { useMemo, useState } from 'react'
+import { AlertTriangle, CalendarClock } from 'lucide-react'
+import { cn } from '../../../lib/utils'
+import {
+  buildCreatorScheduleCalendar,
+  formatCreatorScheduleTime,
+} from './creatorSchedule'
+import type { ShadowPinCreatorDraftBundle } from './creatorTypes'
+
+/**
+ * Two-week strip of scheduled Pins with an agenda below it. Selecting a day
+ * narrows the agenda; selecting it again shows every upcoming post.
+ */
+export function CreatorScheduleCalendar({
+  bundles,
+  selectedDraftId,
+  disabled = false,
+  onOpen,
+  now,
+}: {
+  bundles: ShadowPinCreatorDraftBundle[]
+  selectedDraftId: string | null
+  disabled?: boolean
+  onOpen: (bundle: ShadowPinCreatorDraftBundle) => void
+  now?: Date
+}) {
+  const calendar = useMemo(() => buildCreatorScheduleCalendar(bundles, now), [bundles, now])
+  const [selectedDayKey, setSelectedDayKey] = useState<string | null>(null)
+  const selectedDay = calendar.days.find(day => day.key === selectedDayKey) ?? null
+  const agenda = selectedDay
+    ? selectedDay.bundles
+    : [...calendar.overdue, ...calendar.days.flatMap(day => day.bundles), ...calendar.later]
+
+  if (calendar.total === 0) return null
+
+  return (
+    <section className="mb-4 rounded-[var(--radius-lg)] border border-[var(--border-panel)] bg-white/[0.025] p-3" aria-labelledby="creator-schedule-title" data-testid="creator-schedule-calendar">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 id="creator-schedule-title" className="flex items-center gap-1.5 text-sm font-semibold"><CalendarClock className="h-4 w-4 text-[var(--theme-accent-readable)]" aria-hidden="true" />Upcoming posts</h2>
+          <p className="text-xs text-[var(--text-muted)]">Scheduled Pins publish automatically at their time.</p>
+        </div>
+        <span className="rounded-full border border-[var(--border-subtle)] px-2 py-1 text-xs text-[var(--text-muted)]">{calendar.total}</span>
+      </div>
+      <div className="mt-3 flex gap-1.5 overflow-x-auto pb-1" role="group" aria-label="Schedule days">
+        {calendar.days.map(day => {
+          const selected = day.key === selectedDayKey
+          const label = day.date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })
+          return (
+            <button
+              key={day.key}
+              type="button"
+              onClick={() => setSelectedDayKey(selected ? null : day.key)}
+              className={cn(
+                'flex min-h-14 w-11 shrink-0 flex-col items-center justify-center rounded-[var(--radius-sm)] border text-xs',
+                selected ? 'border-[var(--border-glow)] bg-[var(--theme-accent-soft)]' : 'border-[var(--border-subtle)] bg-black/10',
+                day.bundles.length === 0 && !selected && 'text-[var(--text-muted)]'
+              )}
+              aria-pressed={selected}
+              aria-label={`${label}, ${day.bundles.length} scheduled`}
+              data-testid={`creator-schedule-day-${day.key}`}
+            >
+              <span>{day.date.toLocaleDateString(undefined, { weekday: 'narrow' })}</span>
+              <span className="text-sm font-semibold">{day.date.getDate()}</span>
+              <span className={cn('mt-0.5 h-1.5 w-1.5 rounded-full', day.bundles.length > 0 ? 'bg-[var(--theme-accent)]' : 'bg-transparent')} aria-hidden="true" />
+            </button>
+          )
+        })}
+      </div>
+      {agenda.length === 0 ? (
+        <p className="mt-2 text-xs text-[var(--text-muted)]">Nothing scheduled for this day.</p>
+      ) : (
+        <ul className="mt-2 space-y-1.5" aria-label={selectedDay ? 'Posts scheduled for the selected day' : 'All upcoming posts'}>
+          {agenda.map(bundle => {
+            const selected = bundle.draft.id === selectedDraftId
+            const failed = Boolean(bundle.draft.lastErrorMessage)
+            return (
+              <li key={bundle.draft.id}>
+                <button
+                  type="button"
+                  onClick={() => onOpen(bundle)}
+                  disabled={disabled || selected}
+                  className={cn('flex min-h-11 w-full items-center gap-3 rounded-[var(--radius-md)] border px-3 py-2 text-left', selected ? 'border-[var(--border-glow)] bg-[var(--theme-accent-soft)]' : 'border-[var(--border-subtle)] bg-black/10')}
+                  aria-pressed={selected}
+                >
+                  <span className="w-28 shrink-0 text-xs text-[var(--text-muted)]">{formatCreatorScheduleTime(bundle.draft.scheduledPublishAt as string)}</span>
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-sm font-semibold">{bundle.draft.title || 'Untitled Pin'}</span>
+                    {failed && <span className="flex items-center gap-1 truncate text-xs text-amber-200"><AlertTriangle className="h-3 w-3 shrink-0" aria-hidden="true" />{bundle.draft.lastErrorMessage}</span>}
+                  </span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
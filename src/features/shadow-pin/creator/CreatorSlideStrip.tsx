@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react'
+import { ArrowDown, ArrowUp, Film, Image as ImageIcon, Plus, RefreshCw, SlidersHorizontal, Trash2 } from 'lucide-react'
+import { MAX_CREATOR_SLIDE_CAPTION_LENGTH, MAX_CREATOR_SLIDES } from './creatorModel'
+import type { ShadowPinCreatorAsset } from './creatorTypes'
+
+export type CreatorSlideStripItem = {
+  key: string
+  name: string
+  file: File | null
+  fileType: string
+  previewUrl: string | null
+  caption: string
+  needsReselection: boolean
+  /** A local still image that can be opened in the image editor. */
+  editable: boolean
+  state: ShadowPinCreatorAsset['state'] | null
+}
+
+const MEDIA_ACCEPT = 'image/jpeg,image/png,image/webp,image/gif,video/mp4,video/quicktime,video/webm,video/x-m4v'
+
+function SlideThumbnail({ file, fileType, previewUrl }: Pick<CreatorSlideStripItem, 'file' | 'fileType' | 'previewUrl'>) {
+  const [objectUrl, setObjectUrl] = useState('')
+
+  useEffect(() => {
+    if (!file || file.type.startsWith('video/')) {
+      setObjectUrl('')
+      return
+    }
+    const next = URL.createObjectURL(file)
+    setObjectUrl(next)
+    return () => URL.revokeObjectURL(next)
+  }, [file])
+
+  const imageUrl = objectUrl || previewUrl
+  if (imageUrl) {
+    return <img src={imageUrl} alt="" className="h-16 w-16 shrink-0 rounded-[var(--radius-sm)] bg-black/30 object-cover" />
+  }
+  return (
+    <span className="flex h-16 w-16 shrink-0 items-center justify-center rounded-[var(--radius-sm)] bg-white/[0.04] text-[var(--text-muted)]">
+      {fileType.startsWith('video/') ? <Film className="h-6 w-6" /> : <ImageIcon className="h-6 w-6" />}
+    </span>
+  )
+}
+
+/**
+ * The ordered slides of a carousel Pin. The first item is the cover; its media
+ * is the one chosen above, so it can be reordered and captioned here but is
+ * replaced with the main picker.
+ */
+export function CreatorSlideStrip({
+  items,
+  readOnly = false,
+  onAdd,
+  onReplace,
+  onRemove,
+  onMove,
+  onCaptionChange,
+  onEdit,
+}: {
+  items: CreatorSlideStripItem[]
+  readOnly?: boolean
+  onAdd?: (files: File[]) => void
+  onReplace?: (index: number, file: File) => void
+  onRemove?: (index: number) => void
+  onMove?: (from: number, to: number) => void
+  onCaptionChange?: (index: number, caption: string) => void
+  onEdit?: (index: number) => void
+}) {
+  const canAdd = !readOnly && items.length < MAX_CREATOR_SLIDES
+
+  return (
+    <section className="space-y-3 rounded-[var(--radius-lg)] border border-[var(--border-panel)] bg-white/[0.025] p-3" aria-labelledby="creator-slides-title">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 id="creator-slides-title" className="text-sm font-semibold">Slides</h3>
+          <p className="text-xs text-[var(--text-muted)]">
+            {readOnly ? 'Members swipe through them in this order.' : 'Add up to 10 images or videos. The first slide is the cover.'}
+          </p>
+        </div>
+        <span className="rounded-full border border-[var(--border-subtle)] px-2 py-1 text-xs text-[var(--text-muted)]">{items.length}/{MAX_CREATOR_SLIDES}</span>
+      </div>
+      <ol className="space-y-2">
+        {items.map((item, index) => (
+          <li key={item.key} className="flex gap-3 rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-black/10 p-2">
+            <SlideThumbnail file={item.file} fileType={item.fileType} previewUrl={item.previewUrl} />
+            <div className="min-w-0 flex-1 space-y-1.5">
+              <p className="flex items-center gap-2 text-xs">
+                <span className="font-semibold text-[var(--text-primary)]">{index === 0 ? 'Cover' : `Slide ${index + 1}`}</span>
+                <span className="truncate text-[var(--text-muted)]">{item.name}</span>
+                {item.state === 'processing' && <span className="shrink-0 text-[var(--theme-accent-readable)]">Processing</span>}
+                {item.state === 'failed' && <span className="shrink-0 text-red-200">Failed</span>}
+              </p>
+              {item.needsReselection && <p className="text-xs text-amber-100">Choose this media again to upload it.</p>}
+              {readOnly ? (
+                item.caption && <p className="text-sm text-[var(--text-secondary)]">{item.caption}</p>
+              ) : (
+                <input
+                  value={item.caption}
+                  maxLength={MAX_CREATOR_SLIDE_CAPTION_LENGTH}
+                  onChange={event => onCaptionChange?.(index, event.target.value)}
+                  className="obsidian-input min-h-11 w-full rounded-[var(--radius-sm)] px-3 text-base"
+                  placeholder="Caption (optional)"
+                  aria-label={`Caption for slide ${index + 1}`}
+                />
+              )}
+            </div>
+            {!readOnly && (
+              <div className="flex shrink-0 flex-col items-center gap-1">
+                <button type="button" onClick={() => onMove?.(index, index - 1)} disabled={index === 0} className="inline-flex h-9 w-9 items-center justify-center rounded-full text-[var(--text-secondary)] hover:bg-white/5 disabled:opacity-35" aria-label={`Move slide ${index + 1} earlier`}><ArrowUp className="h-4 w-4" /></button>
+                <button type="button" onClick={() => onMove?.(index, index + 1)} disabled={index === items.length - 1} className="inline-flex h-9 w-9 items-center justify-center rounded-full text-[var(--text-secondary)] hover:bg-white/5 disabled:opacity-35" aria-label={`Move slide ${index + 1} later`}><ArrowDown className="h-4 w-4" /></button>
+                {item.editable && onEdit && (
+                  <button type="button" onClick={() => onEdit(index)} className="inline-flex h-9 w-9 items-center justify-center rounded-full text-[var(--text-secondary)] hover:bg-white/5" aria-label={`Edit slide ${index + 1}`}><SlidersHorizontal className="h-4 w-4" /></button>
+                )}
+                {index > 0 && (
+                  <>
+                    <label className="inline-flex h-9 w-9 cursor-pointer items-center justify-center rounded-full text-[var(--text-secondary)] hover:bg-white/5" aria-label={`Replace slide ${index + 1}`}>
+                      <RefreshCw className="h-4 w-4" />
+                      <input type="file" className="sr-only" accept={MEDIA_ACCEPT} onChange={event => {
+                        const nextFile = event.target.files?.[0]
+                        event.target.value = ''
+                        if (nextFile) onReplace?.(index, nextFile)
+                      }} />
+                    </label>
+                    <button type="button" onClick={() => onRemove?.(index)} className="inline-flex h-9 w-9 items-center justify-center rounded-full text-red-300/80 hover:bg-white/5" aria-label={`Remove slide ${index + 1}`}><Trash2 className="h-4 w-4" /></button>
+                  </>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+      {canAdd && (
+        <label className="flex min-h-12 cursor-pointer items-center justify-center gap-2 rounded-[var(--radius-md)] border border-dashed border-[var(--theme-accent-border-soft)] text-sm font-semibold text-[var(--theme-accent-readable)]">
+          <Plus className="h-4 w-4" /> Add slides
+          <input type="file" multiple className="sr-only" accept={MEDIA_ACCEPT} onChange={event => {
+            const files = Array.from(event.target.files ?? [])
+            event.target.value = ''
+            if (files.length > 0) onAdd?.(files)
+          }} />
+        </label>
+      )}
+    </section>
+  )
+}
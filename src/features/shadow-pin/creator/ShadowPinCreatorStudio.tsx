@@ -7,9 +7,11 @@ import {
   useState,
 } from 'react'
 import { createPortal } from 'react-dom'
+import toast from 'react-hot-toast'
 import {
   ArrowLeft,
   ArrowRight,
+  CalendarClock,
   Check,
   Film,
   Image as ImageIcon,
@@ -17,6 +19,7 @@ import {
   Loader2,
   RotateCcw,
   Save,
+  SlidersHorizontal,
   Upload,
   X,
 } from 'lucide-react'
@@ -27,6 +30,9 @@ import { useDialogAccessibility } from '../../../hooks/useDialogAccessibility'
 import { MOBILE_VIEWPORT_UPDATED_EVENT } from '../../../lib/mobileViewport'
 import { fetchLinkPreview } from '../../../lib/linkPreview'
 import { cn } from '../../../lib/utils'
+import { ImageEditorDialog } from '../../image-editor/ImageEditorDialog'
+import { canEditImageFile } from '../../image-editor/imageEditorModel'
+import { fetchImageFileForEditing } from '../../image-editor/imageEditorRender'
 import { useShadowPinCategories } from '../hooks/useShadowPinCategories'
 import type { ShadowPinImage } from '../types'
 import {
@@ -35,16 +41,22 @@ import {
   listCreatorDrafts,
   publishCreatorDraft,
   inspectCreatorVideoFile,
+  saveCreatorDraftSlides,
+  scheduleCreatorDraft,
   stageCreatorDraftMedia,
+  stageCreatorSlideMedia,
   syncCreatorDraftStatus,
   updateCreatorDraft,
 } from './creatorApi'
 import {
   CREATOR_STEPS,
+  MAX_CREATOR_SLIDES,
   createInitialCreatorState,
   creatorFileMatchesFingerprint,
   creatorReducer,
+  creatorSlideValuesFromServer,
   inferCreatorSourceKind,
+  moveCreatorSlide,
   shouldPreferLocalCreatorDraft,
   validateCreatorStep,
   type ShadowPinCreatorAction,
@@ -55,7 +67,17 @@ import {
   loadCreatorLocalDraft,
   saveCreatorLocalDraft,
 } from './creatorLocalStore'
-import type { ShadowPinCreatorAsset, ShadowPinCreatorDraftBundle } from './creatorTypes'
+import type { ShadowPinCreatorAsset, ShadowPinCreatorDraftBundle, ShadowPinCreatorSlide } from './creatorTypes'
+import { CreatorSlideStrip, type CreatorSlideStripItem } from './CreatorSlideStrip'
+import { CreatorScheduleCalendar } from './CreatorScheduleCalendar'
+import {
+  defaultCreatorScheduleTime,
+  formatCreatorScheduleInput,
+  formatCreatorScheduleTime,
+  isCreatorDraftScheduled,
+  parseCreatorScheduleInput,
+  validateCreatorScheduleTime,
+} from './creatorSchedule'
 import { validateShadowPinFile } from '../api/shadowPinApi'
 import {
   enterCreatorStudioHistory,
@@ -66,12 +88,15 @@ import {
   CREATOR_PROCESSING_POLL_INTERVAL_MS,
   isCreatorAssetReady,
   refreshCreatorAssetUntilSettled,
+  refreshCreatorSlidesUntilSettled,
 } from './creatorProcessing'
 
 export type ShadowPinCreatorStudioProps = {
   open: boolean
   initialCategoryId?: string
   initialMediaUrl?: string
+  /** The initial URL is an image this app can read back, so it can be edited before posting. */
+  initialMediaEditable?: boolean
   initialTitle?: string
   targetImage?: ShadowPinImage | null
   onClose: () => void
@@ -85,12 +110,16 @@ const STEP_LABELS: Record<ShadowPinCreatorStep, string> = {
   publish: 'Publish',
 }
 
-const sourceKey = (values: ReturnType<typeof createInitialCreatorState>['values']) => JSON.stringify({
+const sourceKey = (values: Omit<ReturnType<typeof createInitialCreatorState>['values'], 'slides'>) => JSON.stringify({
   kind: inferCreatorSourceKind(values),
   url: values.sourceUrl.trim(),
   file: values.fileFingerprint,
 })
 
+const slideAssetMap = (slides: ShadowPinCreatorSlide[] = []) => Object.fromEntries(
+  slides.flatMap(slide => slide.asset ? [[slide.asset.id, slide.asset] as const] : [])
+)
+
 const statusLabel = (operation: ReturnType<typeof createInitialCreatorState>['operation']) => ({
   idle: '',
   restoring: 'Restoring draft',
@@ -100,6 +129,8 @@ const statusLabel = (operation: ReturnType<typeof createInitialCreatorState>['op
   processing: 'Processing media',
   publishing: 'Publishing Pin',
   published: 'Pin published',
+  scheduling: 'Scheduling Pin',
+  scheduled: 'Pin scheduled',
   failed: 'Draft needs attention',
 }[operation])
 
@@ -170,6 +201,7 @@ export function ShadowPinCreatorStudio({
   open,
   initialCategoryId = '',
   initialMediaUrl = '',
+  initialMediaEditable = false,
   initialTitle = '',
   targetImage = null,
   onClose,
@@ -183,15 +215,19 @@ export function ShadowPinCreatorStudio({
     seed => createInitialCreatorState(seed.categoryId, seed.targetImageId)
   )
   const [asset, setAsset] = useState<ShadowPinCreatorAsset | null>(null)
+  const [slideAssets, setSlideAssets] = useState<Record<string, ShadowPinCreatorAsset>>({})
   const [availableDrafts, setAvailableDrafts] = useState<ShadowPinCreatorDraftBundle[]>([])
   const [objectUrl, setObjectUrl] = useState('')
   const [tagsText, setTagsText] = useState('')
+  const [imageEdit, setImageEdit] = useState<{ file: File; slideIndex: number } | null>(null)
+  const [sharedImageLoading, setSharedImageLoading] = useState(false)
   const [mediaInspecting, setMediaInspecting] = useState(false)
   const [mediaInspectionError, setMediaInspectionError] = useState<string | null>(null)
   const [discoveredPreviewUrl, setDiscoveredPreviewUrl] = useState('')
   const [discoveringPreview, setDiscoveringPreview] = useState(false)
   const [recoveryPending, setRecoveryPending] = useState(false)
   const [draftSwitching, setDraftSwitching] = useState(false)
+  const [scheduleInput, setScheduleInput] = useState(() => formatCreatorScheduleInput(defaultCreatorScheduleTime()))
   const closeRef = useRef<HTMLButtonElement>(null)
   const saveTimerRef = useRef<number | null>(null)
   const savePromiseRef = useRef<{
@@ -200,6 +236,7 @@ export function ShadowPinCreatorStudio({
     promise: Promise<ShadowPinCreatorDraftBundle>
   } | null>(null)
   const stagedSourceKeyRef = useRef('')
+  const serverSlideCountRef = useRef(0)
   const uploadAbortRef = useRef<AbortController | null>(null)
   const restoredRef = useRef(false)
   const stateRef = useRef(state)
@@ -221,6 +258,12 @@ export function ShadowPinCreatorStudio({
   const titleId = useId()
   const { isReducedMotion } = useComfortPreferences()
   stateRef.current = state
+  const scheduledPublishAt = state.draft?.scheduledPublishAt ?? null
+
+  useEffect(() => {
+    // Reopening a scheduled draft starts the picker at its current slot.
+    if (scheduledPublishAt) setScheduleInput(formatCreatorScheduleInput(new Date(scheduledPublishAt)))
+  }, [scheduledPublishAt])
 
   const revealFocusedEditor = useCallback(() => {
     if (focusRevealFrameRef.current !== null) {
@@ -275,6 +318,16 @@ export function ShadowPinCreatorStudio({
     dispatch(action)
   }, [])
 
+  const rememberSlideAssets = useCallback((assets: Array<ShadowPinCreatorAsset | null>) => {
+    setSlideAssets(previous => {
+      const next = { ...previous }
+      assets.forEach(slideAsset => {
+        if (slideAsset) next[slideAsset.id] = slideAsset
+      })
+      return next
+    })
+  }, [])
+
   const refreshProcessingDraft = useCallback((draft: ShadowPinCreatorDraftBundle['draft']) => {
     const inFlight = processingSyncRef.current
     if (inFlight?.draftId === draft.id) return inFlight.request
@@ -315,7 +368,9 @@ export function ShadowPinCreatorStudio({
     saveTimerRef.current = null
     savePromiseRef.current = null
     stagedSourceKeyRef.current = ''
+    serverSlideCountRef.current = 0
     setAsset(null)
+    setSlideAssets({})
     setAvailableDrafts([])
     setTagsText('')
     setMediaInspecting(false)
@@ -461,6 +516,7 @@ export function ShadowPinCreatorStudio({
           keepExistingMedia: local?.draftId === selected.draft.id
             ? Boolean(local.values.keepExistingMedia || selected.asset)
             : Boolean(selected.asset),
+          ...creatorSlideValuesFromServer(selected.slides ?? []),
         }
         const useLocal = Boolean(local && shouldPreferLocalCreatorDraft(local, selected.draft))
         const restoredValues = useLocal && local
@@ -484,6 +540,8 @@ export function ShadowPinCreatorStudio({
         })
         setTagsText(restoredValues.tags.join(', '))
         setAsset(selected.asset)
+        setSlideAssets(slideAssetMap(selected.slides))
+        serverSlideCountRef.current = selected.slides?.length ?? 0
         if (selected.asset) stagedSourceKeyRef.current = sourceKey({ ...createInitialCreatorState().values, ...restoredValues })
       })
       .catch(error => {
@@ -641,7 +699,34 @@ export function ShadowPinCreatorStudio({
     }
   }, [asset?.state, open, refreshProcessingDraft, state.draft?.id])
 
-  const stageMedia = useCallback(async () => {
+  const processingSlideIds = state.values.slides
+    .map(slide => slide.assetId)
+    .filter((assetId): assetId is string => Boolean(assetId && slideAssets[assetId]?.state === 'processing'))
+    .join(',')
+
+  useEffect(() => {
+    if (!open || !state.draft?.id || !processingSlideIds) return
+    let cancelled = false
+    const poll = () => {
+      if (cancelled || document.visibilityState === 'hidden') return
+      const currentDraft = stateRef.current.draft
+      if (!currentDraft || stateRef.current.operation === 'uploading' || stateRef.current.operation === 'publishing') return
+      processingSlideIds.split(',').forEach(assetId => {
+        void syncCreatorDraftStatus(currentDraft, assetId)
+          .then(bundle => {
+            if (!cancelled && stateRef.current.draft?.id === currentDraft.id) rememberSlideAssets([bundle.asset])
+          })
+          .catch(() => undefined)
+      })
+    }
+    const interval = window.setInterval(poll, CREATOR_PROCESSING_POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      window.clearInterval(interval)
+    }
+  }, [open, processingSlideIds, rememberSlideAssets, state.draft?.id])
+
+  const stageMedia = useCallback(async (): Promise<ShadowPinCreatorDraftBundle> => {
     // Staging is revision guarded on the server. Drain any in-flight or
     // scheduled metadata save first so the media request cannot race a newer
     // draft revision and fail after the user presses Continue.
@@ -653,6 +738,67 @@ export function ShadowPinCreatorStudio({
     const bundle = { draft: current.draft, asset }
     const currentValues = current.values
     const currentKey = sourceKey(currentValues)
+    if (currentValues.slides.length > 0 || serverSlideCountRef.current > 0) {
+      // Carousel slides upload beside the cover, then one revision-guarded
+      // save orders them and makes the cover the draft's active asset.
+      uploadAbortRef.current?.abort()
+      const controller = new AbortController()
+      uploadAbortRef.current = controller
+      dispatch({ type: 'operation', operation: 'uploading', progress: 0, error: null })
+      try {
+        const stageOptions = {
+          signal: controller.signal,
+          onProgress: (progress: number) => dispatch({ type: 'operation', operation: 'uploading', progress }),
+        }
+        let draft = current.draft
+        let coverAsset = asset && !asset.id.startsWith('existing:') && (
+          currentValues.keepExistingMedia || stagedSourceKeyRef.current === currentKey
+        ) ? asset : null
+        if (!coverAsset) {
+          if (!currentValues.file) throw new Error('Reselect the cover media to continue this upload.')
+          const staged = await stageCreatorSlideMedia(draft, currentValues.file, stageOptions)
+          draft = staged.draft.id ? staged.draft : draft
+          coverAsset = staged.asset
+          rememberSlideAssets([coverAsset])
+        }
+        const stagedSlides: ShadowPinCreatorAsset[] = []
+        for (const slide of currentValues.slides) {
+          let slideAsset = slide.assetId ? slideAssets[slide.assetId] ?? null : null
+          if (!slideAsset) {
+            if (!slide.file) throw new Error('Choose the media for each slide again.')
+            const staged = await stageCreatorSlideMedia(draft, slide.file, stageOptions)
+            draft = staged.draft.id ? staged.draft : draft
+            slideAsset = staged.asset
+            if (!slideAsset) throw new Error('Unable to stage slide media.')
+            rememberSlideAssets([slideAsset])
+            applyAsyncAction({ type: 'slide-staged', key: slide.key, assetId: slideAsset.id })
+          }
+          stagedSlides.push(slideAsset)
+        }
+        if (!coverAsset) throw new Error('Unable to stage the cover media.')
+        const saved = await saveCreatorDraftSlides(draft, [
+          { assetId: coverAsset.id, caption: currentValues.coverCaption },
+          ...currentValues.slides.map((slide, index) => ({ assetId: stagedSlides[index].id, caption: slide.caption })),
+        ])
+        const assetsById = new Map([coverAsset, ...stagedSlides].map(slideAsset => [slideAsset.id, slideAsset]))
+        serverSlideCountRef.current = saved.slides.length
+        setAsset(coverAsset)
+        stagedSourceKeyRef.current = currentKey
+        applyAsyncAction({ type: 'draft-saved', draft: saved.draft, savedRevision: current.dirtyRevision })
+        return {
+          draft: saved.draft,
+          asset: coverAsset,
+          slides: saved.slides.map(slide => ({ ...slide, asset: slide.assetId ? assetsById.get(slide.assetId) ?? null : null })),
+        }
+      } catch (error) {
+        if ((error as { name?: string })?.name !== 'AbortError') {
+          dispatch({ type: 'operation', operation: 'failed', error: error instanceof Error ? error.message : 'Unable to stage media.' })
+        }
+        throw error
+      } finally {
+        if (uploadAbortRef.current === controller) uploadAbortRef.current = null
+      }
+    }
     if (currentValues.keepExistingMedia && asset) {
       if (isCreatorAssetReady(asset)) return { draft: bundle.draft, asset: bundle.asset ?? asset }
       return refreshProcessingDraft(bundle.draft)
@@ -679,7 +825,7 @@ export function ShadowPinCreatorStudio({
     } finally {
       if (uploadAbortRef.current === controller) uploadAbortRef.current = null
     }
-  }, [applyAsyncAction, asset, flushCurrentDraft, refreshProcessingDraft])
+  }, [applyAsyncAction, asset, flushCurrentDraft, refreshProcessingDraft, rememberSlideAssets, slideAssets])
 
   const openAvailableDraft = async (bundle: ShadowPinCreatorDraftBundle) => {
     if (bundle.draft.id === stateRef.current.draft?.id || draftSwitching) return
@@ -703,6 +849,7 @@ export function ShadowPinCreatorStudio({
       sourceUrl: bundle.asset?.sourceUrl || '',
       fileFingerprint: null,
       keepExistingMedia: Boolean(bundle.asset),
+      ...creatorSlideValuesFromServer(bundle.slides ?? []),
     }
     applyAsyncAction({
       type: 'restored',
@@ -716,6 +863,8 @@ export function ShadowPinCreatorStudio({
     })
     setTagsText(bundle.draft.tags.join(', '))
     setAsset(bundle.asset)
+    setSlideAssets(slideAssetMap(bundle.slides))
+    serverSlideCountRef.current = bundle.slides?.length ?? 0
     stagedSourceKeyRef.current = bundle.asset
       ? sourceKey({ ...createInitialCreatorState().values, ...values })
       : ''
@@ -761,7 +910,8 @@ export function ShadowPinCreatorStudio({
     void flushCurrentDraft().finally(onClose)
   }
   const dialogRef = useDialogAccessibility<HTMLDivElement>({
-    open,
+    // The image editor traps focus above the Studio while it is open.
+    open: open && !imageEdit,
     onClose: () => { void saveAndExit() },
     initialFocusRef: closeRef,
   })
@@ -776,7 +926,7 @@ export function ShadowPinCreatorStudio({
     await flushCurrentDraft()
     const currentDraft = stateRef.current.draft
     if (currentDraft) {
-      try { await deleteCreatorDraft(currentDraft, asset) } catch (error) {
+      try { await deleteCreatorDraft(currentDraft, asset, Object.values(slideAssets)) } catch (error) {
         dispatch({ type: 'operation', operation: 'failed', error: error instanceof Error ? error.message : 'Unable to discard draft.' })
         return
       }
@@ -784,6 +934,8 @@ export function ShadowPinCreatorStudio({
     if (user?.id) clearCreatorLocalDraft(user.id)
     dispatch({ type: 'reset', categoryId: initialCategoryId })
     setAsset(null)
+    setSlideAssets({})
+    serverSlideCountRef.current = 0
     setTagsText('')
     replaceCreatorStudioHistory()
     onClose()
@@ -800,27 +952,51 @@ export function ShadowPinCreatorStudio({
     }
   }
 
+  /**
+   * Stages the latest media and waits for it and every slide to settle, so
+   * publishing now and scheduling both start from publish-ready media.
+   */
+  const prepareMediaForPublish = async () => {
+    let bundle = await stageMedia()
+    if (!isCreatorAssetReady(bundle.asset)) {
+      dispatch({ type: 'operation', operation: 'processing', error: null })
+      bundle = await refreshCreatorAssetUntilSettled(bundle, refreshProcessingDraft)
+    }
+    if (bundle.asset?.state === 'failed') {
+      throw new Error(bundle.asset.errorMessage || 'Bunny Stream could not process this video.')
+    }
+    if (!isCreatorAssetReady(bundle.asset)) {
+      throw new Error('This video is still encoding. Creator Studio will keep checking automatically; you can keep this screen open or Save & exit and return shortly.')
+    }
+    let slideList = (bundle.slides ?? [])
+      .filter(slide => slide.position > 0)
+      .map(slide => slide.asset)
+      .filter((slideAsset): slideAsset is ShadowPinCreatorAsset => Boolean(slideAsset))
+    if (!slideList.every(isCreatorAssetReady)) {
+      dispatch({ type: 'operation', operation: 'processing', error: null })
+      slideList = await refreshCreatorSlidesUntilSettled(bundle.draft, slideList, syncCreatorDraftStatus)
+      rememberSlideAssets(slideList)
+    }
+    const failedSlide = slideList.find(slideAsset => slideAsset.state === 'failed')
+    if (failedSlide) {
+      throw new Error(failedSlide.errorMessage || 'One of the slides could not be processed. Replace it and try again.')
+    }
+    if (!slideList.every(isCreatorAssetReady)) {
+      throw new Error('A slide video is still encoding. Creator Studio will keep checking automatically; you can keep this screen open or Save & exit and return shortly.')
+    }
+    return { bundle, slideList }
+  }
+
   const publish = async () => {
     const errors = validateCreatorStep('publish', state.values)
     if (errors.length || !state.publishConfirmed) {
       dispatch({ type: 'operation', operation: 'failed', error: errors[0] || 'Confirm that this Pin is ready to publish.' })
       return
     }
-    let bundle: ShadowPinCreatorDraftBundle
     try {
-      bundle = await stageMedia()
-      if (!isCreatorAssetReady(bundle.asset)) {
-        dispatch({ type: 'operation', operation: 'processing', error: null })
-        bundle = await refreshCreatorAssetUntilSettled(bundle, refreshProcessingDraft)
-      }
-      if (bundle.asset?.state === 'failed') {
-        throw new Error(bundle.asset.errorMessage || 'Bunny Stream could not process this video.')
-      }
-      if (!isCreatorAssetReady(bundle.asset)) {
-        throw new Error('This video is still encoding. Creator Studio will keep checking automatically; you can keep this screen open or Save & exit and return shortly.')
-      }
+      const { bundle, slideList } = await prepareMediaForPublish()
       dispatch({ type: 'operation', operation: 'publishing', error: null })
-      const result = await publishCreatorDraft(bundle.draft, bundle.asset)
+      const result = await publishCreatorDraft(bundle.draft, bundle.asset, slideList)
       dispatch({ type: 'operation', operation: 'published', progress: 100 })
       if (user?.id) clearCreatorLocalDraft(user.id)
       replaceCreatorStudioHistory()
@@ -831,6 +1007,132 @@ export function ShadowPinCreatorStudio({
     }
   }
 
+  const schedulePublish = async () => {
+    const errors = validateCreatorStep('publish', state.values)
+    if (errors.length || !state.publishConfirmed) {
+      dispatch({ type: 'operation', operation: 'failed', error: errors[0] || 'Confirm that this Pin is ready to publish.' })
+      return
+    }
+    const publishAt = parseCreatorScheduleInput(scheduleInput)
+    const scheduleError = validateCreatorScheduleTime(publishAt)
+    if (scheduleError || !publishAt) {
+      dispatch({ type: 'operation', operation: 'failed', error: scheduleError })
+      return
+    }
+    try {
+      const { bundle } = await prepareMediaForPublish()
+      dispatch({ type: 'operation', operation: 'scheduling', error: null })
+      const scheduled = await scheduleCreatorDraft(bundle.draft, publishAt)
+      dispatch({ type: 'draft-status-synced', draft: scheduled })
+      dispatch({ type: 'operation', operation: 'scheduled', progress: 100 })
+      if (user?.id) clearCreatorLocalDraft(user.id)
+      replaceCreatorStudioHistory()
+      toast.success(`Pin scheduled for ${formatCreatorScheduleTime(scheduled.scheduledPublishAt || publishAt)}`)
+      onClose()
+    } catch (error) {
+      dispatch({ type: 'operation', operation: 'failed', error: error instanceof Error ? error.message : 'Unable to schedule this Pin.' })
+    }
+  }
+
+  const unschedule = async () => {
+    try {
+      const flushed = await flushCurrentDraft()
+      const current = stateRef.current.draft
+      if (!flushed || !current) throw new Error('Save this draft before changing its schedule.')
+      dispatch({ type: 'operation', operation: 'scheduling', error: null })
+      const draft = await scheduleCreatorDraft(current, null)
+      dispatch({ type: 'draft-status-synced', draft })
+      setAvailableDrafts(drafts => drafts.map(bundle => (
+        bundle.draft.id === draft.id ? { ...bundle, draft } : bundle
+      )))
+      dispatch({ type: 'operation', operation: 'idle', error: null })
+    } catch (error) {
+      dispatch({ type: 'operation', operation: 'failed', error: error instanceof Error ? error.message : 'Unable to change this schedule.' })
+    }
+  }
+
+  const checkSlideFiles = async (files: File[]) => {
+    try {
+      files.forEach(validateShadowPinFile)
+      const videos = files.filter(file => file.type.startsWith('video/'))
+      if (videos.length > 0) {
+        setMediaInspecting(true)
+        await Promise.all(videos.map(inspectCreatorVideoFile))
+      }
+      return true
+    } catch (error) {
+      dispatch({ type: 'operation', operation: 'failed', error: error instanceof Error ? error.message : 'Choose a supported media file.' })
+      return false
+    } finally {
+      setMediaInspecting(false)
+    }
+  }
+
+  const addSlides = async (files: File[]) => {
+    const accepted = files.slice(0, Math.max(0, MAX_CREATOR_SLIDES - 1 - state.values.slides.length))
+    if (!(await checkSlideFiles(accepted))) return
+    dispatch({ type: 'add-slides', files: accepted })
+    if (accepted.length < files.length) {
+      dispatch({ type: 'operation', operation: 'failed', error: `A Pin can hold up to ${MAX_CREATOR_SLIDES} slides.` })
+    }
+  }
+
+  const replaceSlide = async (index: number, file: File) => {
+    const slide = state.values.slides[index - 1]
+    if (!slide || !(await checkSlideFiles([file]))) return
+    dispatch({ type: 'replace-slide', key: slide.key, file })
+  }
+
+  const editSharedImage = async () => {
+    setSharedImageLoading(true)
+    try {
+      const file = await fetchImageFileForEditing(initialMediaUrl)
+      if (!canEditImageFile(file)) throw new Error('Only JPEG, PNG, and WebP images can be edited.')
+      setImageEdit({ file, slideIndex: 0 })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'This image could not be opened for editing.'
+      setMediaInspectionError(message)
+      dispatch({ type: 'operation', operation: 'failed', error: message })
+    } finally {
+      setSharedImageLoading(false)
+    }
+  }
+
+  const applyImageEdit = async (edited: File) => {
+    const target = imageEdit
+    setImageEdit(null)
+    if (!target) return
+    if (target.slideIndex > 0) {
+      if (edited !== target.file) await replaceSlide(target.slideIndex, edited)
+      return
+    }
+    if (edited === state.values.file) return
+    try {
+      validateShadowPinFile(edited)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Choose a supported media file.'
+      setMediaInspectionError(message)
+      dispatch({ type: 'operation', operation: 'failed', error: message })
+      return
+    }
+    setMediaInspectionError(null)
+    dispatch({ type: 'set-file', file: edited })
+  }
+
+  const moveSlide = (from: number, to: number) => {
+    const coverAssetId = previewAsset && !previewAsset.id.startsWith('existing:') ? previewAsset.id : null
+    const arrangement = moveCreatorSlide(state.values, from, to, coverAssetId)
+    if (from === 0 || to === 0) {
+      // The cover is the draft's active asset, so the Studio's cover preview
+      // follows whichever staged slide moves into the first position.
+      if (previewAsset && coverAssetId) rememberSlideAssets([previewAsset])
+      const nextCover = arrangement.coverAssetId ? slideAssets[arrangement.coverAssetId] ?? null : null
+      setAsset(nextCover)
+      stagedSourceKeyRef.current = nextCover ? sourceKey({ ...state.values, ...arrangement }) : ''
+    }
+    dispatch({ type: 'arrange-slides', arrangement })
+  }
+
   useEffect(() => () => {
     uploadAbortRef.current?.abort()
     if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current)
@@ -838,12 +1140,46 @@ export function ShadowPinCreatorStudio({
 
   if (!open) return null
   const stepIndex = CREATOR_STEPS.indexOf(state.step)
-  const busy = recoveryPending || draftSwitching || mediaInspecting || ['restoring', 'uploading', 'processing', 'publishing'].includes(state.operation)
+  const busy = recoveryPending || draftSwitching || mediaInspecting || ['restoring', 'uploading', 'processing', 'publishing', 'scheduling'].includes(state.operation)
   const fileNeedsReselection = state.values.sourceMode === 'file' && !state.values.file && Boolean(state.values.fileFingerprint)
   const previewFileType = state.values.file?.type || state.values.fileFingerprint?.type || asset?.mimeType || ''
+  const scheduledDraft = state.draft && isCreatorDraftScheduled(state.draft) ? state.draft : null
+  // Uploaded videos publish through the video edge function, which the
+  // scheduled publisher cannot call, and edits replace a live Pin in place.
+  const canSchedule = !state.targetImageId && !previewFileType.startsWith('video/') && asset?.provider !== 'bunny_stream'
   const previewAsset = asset && (
     state.values.keepExistingMedia || stagedSourceKeyRef.current === sourceKey(state.values)
   ) ? asset : null
+  const carouselAvailable = !targetImage && !state.targetImageId && state.values.sourceMode === 'file' && Boolean(
+    state.values.file || state.values.fileFingerprint || state.values.keepExistingMedia
+  )
+  const slideItems: CreatorSlideStripItem[] = [
+    {
+      key: 'cover',
+      name: state.values.file?.name || state.values.fileFingerprint?.name || 'Current media',
+      file: state.values.file,
+      fileType: previewFileType,
+      previewUrl: previewAsset?.previewUrl ?? null,
+      caption: state.values.coverCaption,
+      needsReselection: fileNeedsReselection,
+      editable: Boolean(state.values.file && canEditImageFile(state.values.file)),
+      state: previewAsset?.state ?? null,
+    },
+    ...state.values.slides.map(slide => {
+      const slideAsset = slide.assetId ? slideAssets[slide.assetId] : undefined
+      return {
+        key: slide.key,
+        name: slide.file?.name || slide.fileFingerprint?.name || 'Uploaded media',
+        file: slide.file,
+        fileType: slide.file?.type || slide.fileFingerprint?.type || slideAsset?.mimeType || '',
+        previewUrl: slideAsset?.previewUrl ?? null,
+        caption: slide.caption,
+        needsReselection: !slide.file && !slide.assetId,
+        editable: Boolean(slide.file && canEditImageFile(slide.file)),
+        state: slideAsset?.state ?? null,
+      }
+    }),
+  ]
 
   const studio = (
     <div className="fixed inset-0 z-[138] bg-[var(--bg-app)] text-[var(--text-primary)]" data-testid="shadow-pin-creator-studio">
@@ -877,6 +1213,14 @@ export function ShadowPinCreatorStudio({
         >
           <div className="mx-auto max-w-3xl">
             <fieldset disabled={busy} className="contents" aria-label="Creator Studio editor" aria-busy={busy}>
+            {state.step === 'media' && (
+              <CreatorScheduleCalendar
+                bundles={availableDrafts}
+                selectedDraftId={state.draft?.id ?? null}
+                disabled={busy}
+                onOpen={bundle => void openAvailableDraft(bundle)}
+              />
+            )}
             {state.step === 'media' && availableDrafts.length > 1 && (
               <section className="mb-4 rounded-[var(--radius-lg)] border border-[var(--border-panel)] bg-white/[0.025] p-3" aria-labelledby="creator-drafts-title">
                 <div className="flex items-center justify-between gap-3">
@@ -887,6 +1231,7 @@ export function ShadowPinCreatorStudio({
                   {availableDrafts.map(bundle => {
                     const selected = bundle.draft.id === state.draft?.id
                     const needsAttention = bundle.draft.state === 'failed' || Boolean(bundle.draft.lastErrorMessage)
+                    const scheduledAt = isCreatorDraftScheduled(bundle.draft) ? bundle.draft.scheduledPublishAt : null
                     return (
                       <button
                         key={bundle.draft.id}
@@ -898,7 +1243,11 @@ export function ShadowPinCreatorStudio({
                       >
                         <span className="block truncate text-sm font-semibold">{bundle.draft.title || 'Untitled Pin'}</span>
                         <span className={cn('mt-0.5 block text-xs', needsAttention ? 'text-amber-200' : 'text-[var(--text-muted)]')}>
-                          {needsAttention ? 'Needs attention' : bundle.draft.state.replace(/_/g, ' ')} - {new Date(bundle.draft.updatedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                          {needsAttention
+                            ? 'Needs attention'
+                            : scheduledAt
+                              ? `Scheduled ${formatCreatorScheduleTime(scheduledAt)}`
+                              : bundle.draft.state.replace(/_/g, ' ')} - {new Date(bundle.draft.updatedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
                         </span>
                       </button>
                     )
@@ -954,10 +1303,30 @@ export function ShadowPinCreatorStudio({
                 ) : (
                   <label className="block space-y-2"><span className="text-sm font-medium">Public media URL</span><input value={state.values.sourceUrl} onChange={event => { setMediaInspectionError(null); dispatch({ type: 'set-value', key: 'sourceUrl', value: event.target.value }); dispatch({ type: 'set-value', key: 'keepExistingMedia', value: false }) }} className="obsidian-input min-h-12 w-full rounded-[var(--radius-md)] px-3 text-base" placeholder="https://youtube.com/shorts/..." inputMode="url" autoCapitalize="none" /></label>
                 )}
+                {state.values.sourceMode === 'file' && state.values.file && canEditImageFile(state.values.file) && state.values.slides.length === 0 && (
+                  <Button type="button" variant="secondary" onClick={() => setImageEdit({ file: state.values.file as File, slideIndex: 0 })} disabled={busy} className="w-full"><SlidersHorizontal className="mr-2 h-4 w-4" /> Edit image</Button>
+                )}
+                {state.values.sourceMode === 'url' && initialMediaEditable && initialMediaUrl && state.values.sourceUrl.trim() === initialMediaUrl && (
+                  <Button type="button" variant="secondary" onClick={() => void editSharedImage()} loading={sharedImageLoading} disabled={busy || sharedImageLoading} className="w-full"><SlidersHorizontal className="mr-2 h-4 w-4" /> Edit image before posting</Button>
+                )}
                 {targetImage && !state.values.file && !state.values.sourceUrl && <p className="rounded-[var(--radius-sm)] border border-[var(--theme-accent-border-soft)] bg-[var(--theme-accent-softer)] p-3 text-sm text-[var(--text-secondary)]">Choose replacement media. Your current Pin stays unchanged until the new version is fully published.</p>}
                 {mediaInspecting && <p className="flex items-center gap-2 text-sm text-[var(--text-muted)]"><Loader2 className={cn('h-4 w-4', !isReducedMotion && 'animate-spin')} /> Checking video duration</p>}
                 {fileNeedsReselection && <div className="rounded-[var(--radius-sm)] border border-amber-300/25 bg-amber-400/10 p-3 text-sm text-amber-100"><p>Reselect {state.values.fileFingerprint?.name} to resume its upload. The file itself is never stored in localStorage.</p><button type="button" onClick={() => dispatch({ type: 'set-file', file: null })} className="mt-2 min-h-12 rounded-full border border-amber-200/25 px-3 font-semibold">Use different media</button></div>}
                 <MediaPreview objectUrl={objectUrl} sourceUrl={state.values.sourceUrl} fileType={previewFileType} asset={previewAsset} title={state.values.title} discoveredPreviewUrl={discoveredPreviewUrl} discoveringPreview={discoveringPreview} />
+                {(carouselAvailable || state.values.slides.length > 0) && (
+                  <CreatorSlideStrip
+                    items={slideItems}
+                    onAdd={files => void addSlides(files)}
+                    onReplace={(index, file) => void replaceSlide(index, file)}
+                    onRemove={index => dispatch({ type: 'remove-slide', key: state.values.slides[index - 1].key })}
+                    onMove={moveSlide}
+                    onCaptionChange={(index, caption) => dispatch({ type: 'set-slide-caption', key: index === 0 ? null : state.values.slides[index - 1].key, caption })}
+                    onEdit={index => {
+                      const file = index === 0 ? state.values.file : state.values.slides[index - 1].file
+                      if (file) setImageEdit({ file, slideIndex: index })
+                    }}
+                  />
+                )}
               </section>
             )}
 
@@ -975,6 +1344,7 @@ export function ShadowPinCreatorStudio({
               <section className="space-y-5" aria-labelledby="creator-preview-title">
                 <div><h2 id="creator-preview-title" className="text-2xl font-semibold">Preview your Pin</h2><p className="mt-1 text-sm text-[var(--text-muted)]">This is how the media and details will feel in ShadowPin.</p></div>
                 <div className="mx-auto max-w-lg rounded-[var(--radius-xl)] border border-[var(--border-panel)] bg-white/[0.025] p-3 shadow-[var(--shadow-panel)]"><MediaPreview objectUrl={objectUrl} sourceUrl={state.values.sourceUrl} fileType={previewFileType} asset={previewAsset} title={state.values.title} discoveredPreviewUrl={discoveredPreviewUrl} discoveringPreview={discoveringPreview} /><div className="p-2 pt-4"><h3 className="text-xl font-semibold">{state.values.title}</h3>{state.values.description && <p className="mt-2 whitespace-pre-line text-sm leading-6 text-[var(--text-secondary)]">{state.values.description}</p>}<div className="mt-3 flex flex-wrap gap-2">{state.values.tags.map(tag => <span key={tag} className="rounded-full border border-[var(--border-subtle)] px-2.5 py-1 text-xs text-[var(--text-muted)]">#{tag}</span>)}</div></div></div>
+                {state.values.slides.length > 0 && <div className="mx-auto max-w-lg"><CreatorSlideStrip items={slideItems} readOnly /></div>}
                 {asset && !isCreatorAssetReady(asset) && <button type="button" onClick={() => void retryProcessing()} className="mx-auto flex min-h-11 items-center gap-2 rounded-full border border-[var(--theme-accent-border-soft)] px-4 text-sm text-[var(--theme-accent-readable)]"><RotateCcw className="h-4 w-4" /> Check processing now</button>}
               </section>
             )}
@@ -991,6 +1361,34 @@ export function ShadowPinCreatorStudio({
                 )}
                 <label className="flex cursor-pointer items-start gap-3 rounded-[var(--radius-lg)] border border-[var(--theme-accent-border-soft)] bg-[var(--theme-accent-softer)] p-4"><input type="checkbox" checked={state.publishConfirmed} onChange={event => dispatch({ type: 'publish-confirmed', confirmed: event.target.checked })} className="mt-1 h-5 w-5 accent-[var(--theme-accent)]" /><span><span className="block font-semibold">I am ready to publish this Pin</span><span className="mt-1 block text-sm text-[var(--text-muted)]">I reviewed the media, category, title, and description.</span></span></label>
                 <Button type="button" size="lg" className="w-full" loading={state.operation === 'processing' || state.operation === 'publishing'} disabled={!state.publishConfirmed || busy} onClick={() => void publish()}><Check className="mr-2 h-5 w-5" /> Publish Pin</Button>
+                {canSchedule && (
+                  <div className="space-y-3 rounded-[var(--radius-lg)] border border-[var(--border-panel)] bg-white/[0.025] p-4" data-testid="creator-schedule-panel">
+                    {scheduledDraft && (
+                      <div className="flex items-start justify-between gap-3 text-sm" role="status">
+                        <span>
+                          <strong className="block">Scheduled for {formatCreatorScheduleTime(scheduledDraft.scheduledPublishAt as string)}</strong>
+                          {scheduledDraft.lastErrorMessage
+                            ? <span className="text-amber-200">The last attempt failed: {scheduledDraft.lastErrorMessage}</span>
+                            : <span className="text-[var(--text-muted)]">It publishes automatically, even if Creator Studio is closed.</span>}
+                        </span>
+                        <Button type="button" variant="secondary" size="sm" disabled={busy} onClick={() => void unschedule()}>Unschedule</Button>
+                      </div>
+                    )}
+                    <label className="block">
+                      <span className="block font-semibold">{scheduledDraft ? 'Change the publish time' : 'Or schedule it for later'}</span>
+                      <span className="mt-1 block text-sm text-[var(--text-muted)]">Up to 30 days ahead, in your local time.</span>
+                      <input
+                        type="datetime-local"
+                        value={scheduleInput}
+                        min={formatCreatorScheduleInput(new Date())}
+                        onChange={event => setScheduleInput(event.target.value)}
+                        className="mt-2 min-h-11 w-full rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-black/20 px-3 text-base text-[var(--text-primary)]"
+                        data-testid="creator-schedule-input"
+                      />
+                    </label>
+                    <Button type="button" variant="secondary" className="w-full" loading={state.operation === 'scheduling'} disabled={!state.publishConfirmed || busy} onClick={() => void schedulePublish()}><CalendarClock className="mr-2 h-5 w-5" /> {scheduledDraft ? 'Reschedule Pin' : 'Schedule Pin'}</Button>
+                  </div>
+                )}
               </section>
             )}
             </fieldset>
@@ -1006,6 +1404,13 @@ export function ShadowPinCreatorStudio({
             {stepIndex < CREATOR_STEPS.length - 1 && <Button type="button" onClick={() => void goTo(CREATOR_STEPS[stepIndex + 1])} disabled={busy}>Continue <ArrowRight className="ml-1 h-4 w-4" /></Button>}
           </div>
         </footer>
+        <ImageEditorDialog
+          open={Boolean(imageEdit)}
+          file={imageEdit?.file ?? null}
+          confirmLabel="Use image"
+          onCancel={() => setImageEdit(null)}
+          onConfirm={applyImageEdit}
+        />
         {busy && <div className="pointer-events-none fixed inset-x-0 top-[calc(env(safe-area-inset-top)_+_0.25rem)] z-20 flex justify-center" aria-hidden="true"><span className="inline-flex items-center gap-2 rounded-full border border-[var(--border-panel)] bg-[var(--bg-panel-strong)] px-3 py-1.5 text-xs text-[var(--text-secondary)] shadow-[var(--shadow-panel)]"><Loader2 className={cn('h-3.5 w-3.5', !isReducedMotion && 'animate-spin')} /> {statusLabel(state.operation)}</span></div>}
       </div>
     </div>
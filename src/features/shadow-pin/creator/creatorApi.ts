@@ -6,6 +6,7 @@ import type {
   ShadowPinCreatorDraft,
   ShadowPinCreatorDraftBundle,
   ShadowPinCreatorPublishResult,
+  ShadowPinCreatorSlide,
   ShadowPinCreatorSourceKind,
 } from './creatorTypes'
 
@@ -46,6 +47,8 @@ export const normalizeCreatorDraft = (value: unknown): ShadowPinCreatorDraft =>
     promotionLeaseToken: asOptionalString(pick(row, 'promotion_lease_token', 'promotionLeaseToken')),
     promotionLeaseExpiresAt: asOptionalString(pick(row, 'promotion_lease_expires_at', 'promotionLeaseExpiresAt')),
     promotionAssetId: asOptionalString(pick(row, 'promotion_asset_id', 'promotionAssetId')),
+    scheduledPublishAt: asOptionalString(pick(row, 'scheduled_publish_at', 'scheduledPublishAt')),
+    scheduledPublishAttempts: asNumber(pick(row, 'scheduled_publish_attempts', 'scheduledPublishAttempts')),
     lastErrorCode: asOptionalString(pick(row, 'last_error_code', 'lastErrorCode')),
     lastErrorMessage: asOptionalString(pick(row, 'last_error_message', 'lastErrorMessage')),
     expiresAt: asOptionalString(pick(row, 'expires_at', 'expiresAt')),
@@ -96,6 +99,17 @@ export const normalizeCreatorBundle = (value: unknown): ShadowPinCreatorDraftBun
   }
 }
 
+export const normalizeCreatorSlide = (value: unknown): ShadowPinCreatorSlide => {
+  const row = asRecord(value)
+  return {
+    id: asString(row.id),
+    position: asNumber(row.position),
+    assetId: asOptionalString(pick(row, 'asset_id', 'assetId')),
+    caption: asString(row.caption),
+    asset: normalizeCreatorAsset(row.asset),
+  }
+}
+
 const draftRpcValues = (values: ShadowPinCreatorValues) => ({
   target_category_id: values.categoryId || null,
   target_source_kind: inferCreatorSourceKind(values),
@@ -138,6 +152,11 @@ export async function listCreatorDrafts(): Promise<ShadowPinCreatorDraftBundle[]
   const bundles = await Promise.all((Array.isArray(data) ? data : []).map(async value => (
     withCreatorPrivatePreview(normalizeCreatorBundle(value))
   )))
+  const slidesByDraft = await listCreatorDraftSlides(bundles.map(bundle => bundle.draft.id))
+  for (const bundle of bundles) {
+    const slides = slidesByDraft.get(bundle.draft.id)
+    if (slides) bundle.slides = slides
+  }
   for (const bundle of bundles) {
     if (bundle.draft.state === 'published' && bundle.asset) {
       void cleanupCreatorPublishedAssets(bundle.draft, bundle.asset).catch(() => undefined)
@@ -146,9 +165,68 @@ export async function listCreatorDrafts(): Promise<ShadowPinCreatorDraftBundle[]
   return bundles
 }
 
+async function listCreatorDraftSlides(draftIds: string[]) {
+  const slidesByDraft = new Map<string, ShadowPinCreatorSlide[]>()
+  if (draftIds.length === 0) return slidesByDraft
+  const client = await getWorkingClient()
+  const { data, error } = await client.from('shadow_pin_creator_draft_slides')
+    .select('id, draft_id, position, asset_id, caption, asset:shadow_pin_draft_assets!asset_id(*)')
+    .in('draft_id', draftIds)
+    .order('position', { ascending: true })
+  if (error) throw error
+  for (const row of Array.isArray(data) ? data : []) {
+    const draftId = asString(asRecord(row).draft_id)
+    const slide = normalizeCreatorSlide(row)
+    const withPreview = slide.asset
+      ? { ...slide, asset: (await withCreatorPrivatePreview({ draft: { id: draftId } as ShadowPinCreatorDraft, asset: slide.asset })).asset }
+      : slide
+    slidesByDraft.set(draftId, [...(slidesByDraft.get(draftId) ?? []), withPreview])
+  }
+  return slidesByDraft
+}
+
+/**
+ * Replaces the draft's ordered slides. The first entry becomes the cover and
+ * the draft's active asset; a single entry turns the draft back into a
+ * single-media Pin.
+ */
+export async function saveCreatorDraftSlides(
+  draft: ShadowPinCreatorDraft,
+  slides: Array<{ assetId: string; caption: string }>
+) {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('set_shadow_pin_creator_draft_slides', {
+    target_draft_id: draft.id,
+    target_expected_revision: draft.revision,
+    target_slides: slides.map(slide => ({ asset_id: slide.assetId, caption: slide.caption.trim() })),
+  })
+  if (error) throw error
+  const row = firstRow(data)
+  return {
+    draft: normalizeCreatorDraft(row.draft),
+    slides: (Array.isArray(row.slides) ? row.slides : []).map(normalizeCreatorSlide),
+  }
+}
+
+/**
+ * Sets the time the publish janitor publishes this draft, or clears it when
+ * `publishAt` is null. The draft keeps its publish receipt either way.
+ */
+export async function scheduleCreatorDraft(draft: ShadowPinCreatorDraft, publishAt: Date | null) {
+  const client = await getWorkingClient()
+  const { data, error } = await client.rpc('schedule_shadow_pin_creator_draft', {
+    target_draft_id: draft.id,
+    target_expected_revision: draft.revision,
+    target_publish_at: publishAt ? publishAt.toISOString() : null,
+  })
+  if (error) throw error
+  return normalizeCreatorDraft(data)
+}
+
 export async function deleteCreatorDraft(
   draft: ShadowPinCreatorDraft,
-  asset: ShadowPinCreatorAsset | null = null
+  asset: ShadowPinCreatorAsset | null = null,
+  slideAssets: ShadowPinCreatorAsset[] = []
 ) {
   const client = await getWorkingClient()
   const { data, error } = await client.rpc('delete_shadow_pin_creator_draft', {
@@ -157,6 +235,18 @@ export async function deleteCreatorDraft(
   })
   if (error) throw error
   const abandoned = normalizeCreatorDraft(data)
+  for (const slideAsset of slideAssets) {
+    if (slideAsset.id === (asset?.id || draft.activeAssetId)) continue
+    try {
+      if (slideAsset.assetKind === 'video') {
+        await callVideoFunction({ action: 'delete-draft-video-asset', draftId: draft.id, assetId: slideAsset.id })
+      } else {
+        await cleanupCreatorImageAsset(draft, slideAsset)
+      }
+    } catch {
+      // Slide media of an abandoned draft is swept with the draft on expiry.
+    }
+  }
   const assetId = asset?.id || draft.activeAssetId
   if (!assetId) return { draft: abandoned, asset: null }
 
@@ -180,11 +270,22 @@ export async function deleteCreatorDraft(
 
 export async function publishCreatorDraft(
   draft: ShadowPinCreatorDraft,
-  asset: ShadowPinCreatorAsset | null = null
+  asset: ShadowPinCreatorAsset | null = null,
+  slideAssets: ShadowPinCreatorAsset[] = []
 ): Promise<ShadowPinCreatorPublishResult> {
   if (!draft.publishIdempotencyKey) {
     throw new Error('Refresh this draft before publishing so its publish receipt can be verified.')
   }
+  // Slides after the cover are promoted first; publishing the cover copies
+  // them onto the Pin and fails if any of them is not publish_ready yet.
+  for (const slideAsset of slideAssets) {
+    if (slideAsset.state === 'publish_ready') continue
+    if (slideAsset.assetKind === 'video') {
+      await callVideoFunction({ action: 'prepare-draft-slide-video', draftId: draft.id, assetId: slideAsset.id })
+    } else {
+      await callNetlifyMediaRaw({ action: 'prepare-draft-slide-publish', draftId: draft.id, assetId: slideAsset.id })
+    }
+  }
   const publishPayload = {
     draftId: draft.id,
     expectedRevision: draft.revision,
@@ -333,7 +434,13 @@ async function cleanupCreatorPublishedAssets(
     if (candidate.state === 'superseded') {
       if (candidate.assetKind === 'image') await cleanupCreatorImageAsset(draft, candidate)
       else await callVideoFunction({ action: 'delete-draft-video-asset', draftId: draft.id, assetId: candidate.id })
-    } else if (candidate.id === activeAsset.id && candidate.assetKind === 'image' && candidate.state !== 'deleted') {
+    } else if (
+      candidate.assetKind === 'image' &&
+      candidate.state !== 'deleted' &&
+      (candidate.id === activeAsset.id || candidate.state === 'publish_ready')
+    ) {
+      // Published slide images keep their public copies; this only removes
+      // the private draft originals.
       await cleanupCreatorImageAsset(draft, candidate)
     }
   }
@@ -361,7 +468,12 @@ const isStorageObjectAlreadyPresent = (error: unknown) => {
   return Number(row.statusCode ?? row.status) === 409 || /already exists|duplicate/i.test(asString(row.message))
 }
 
-async function uploadDraftImage(draft: ShadowPinCreatorDraft, file: File, signal?: AbortSignal) {
+async function uploadDraftImage(
+  draft: ShadowPinCreatorDraft,
+  file: File,
+  signal?: AbortSignal,
+  extra: UnknownRecord = {}
+) {
   const client = await getWorkingClient()
   const { data: { user } } = await client.auth.getUser()
   if (!user) throw new Error('Sign in to upload draft media.')
@@ -382,6 +494,7 @@ async function uploadDraftImage(draft: ShadowPinCreatorDraft, file: File, signal
     storagePath: path,
     contentType: file.type,
     sizeBytes: file.size,
+    ...extra,
   }, signal)
 }
 
@@ -427,10 +540,12 @@ async function uploadDraftVideo(
   draft: ShadowPinCreatorDraft,
   file: File,
   onProgress?: (progress: number) => void,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  extra: UnknownRecord = {}
 ) {
   const metadata = await readVideoMetadata(file)
   const rawSession = await callVideoFunction({
+    ...extra,
     action: 'create-draft-upload',
     draftId: draft.id,
     expectedRevision: draft.revision,
@@ -480,6 +595,7 @@ async function uploadDraftVideo(
     expectedRevision: normalizeCreatorDraft(session.draft).revision || draft.revision,
     ...(assetId ? { assetId } : {}),
     bunnyVideoId: session.bunnyVideoId,
+    ...extra,
   })
   return normalizeCreatorBundle(complete)
 }
@@ -516,7 +632,23 @@ export async function stageCreatorDraftMedia(
   return normalizeCreatorBundle(result)
 }
 
-export async function syncCreatorDraftStatus(draft: ShadowPinCreatorDraft) {
-  const result = await callVideoFunction({ action: 'sync-draft-status', draftId: draft.id })
+/** Uploads one carousel slide beside the cover without making it active. */
+export async function stageCreatorSlideMedia(
+  draft: ShadowPinCreatorDraft,
+  file: File,
+  options: { signal?: AbortSignal; onProgress?: (progress: number) => void } = {}
+) {
+  if (file.type.startsWith('video/')) {
+    return uploadDraftVideo(draft, file, options.onProgress, options.signal, { slide: true })
+  }
+  return uploadDraftImage(draft, file, options.signal, { slide: true })
+}
+
+export async function syncCreatorDraftStatus(draft: ShadowPinCreatorDraft, slideAssetId?: string) {
+  const result = await callVideoFunction({
+    action: 'sync-draft-status',
+    draftId: draft.id,
+    ...(slideAssetId ? { assetId: slideAssetId, slide: true } : {}),
+  })
   return normalizeCreatorBundle(result)
 }
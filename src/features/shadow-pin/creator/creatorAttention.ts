@@ -22,6 +22,8 @@ type RemoteCreatorAttentionDraft = {
   tags?: string[] | null
   active_asset_id?: string | null
   target_image_id?: string | null
+  scheduled_publish_at?: string | null
+  last_error_message?: string | null
 }
 
 type RemoteCreatorAttentionAsset = {
@@ -132,6 +134,9 @@ export const creatorRemoteDraftNeedsAttention = (
   target?: RemoteCreatorAttentionTarget
 ) => {
   if (!draft.target_image_id) {
+    // A scheduled Pin is waiting on the publish janitor, not on the creator,
+    // until a scheduled attempt fails.
+    if (draft.scheduled_publish_at && !draft.last_error_message) return false
     return draft.state !== 'editing' || Boolean(
       draft.active_asset_id ||
       normalizeText(draft.title) ||
@@ -174,7 +179,7 @@ export async function hasCreatorDraftsNeedingAttention(userId: string) {
   const client = await getWorkingClient()
   const { data, error } = await client
     .from('shadow_pin_creator_drafts')
-    .select('id,state,category_id,title,description,tags,active_asset_id,target_image_id')
+    .select('id,state,category_id,title,description,tags,active_asset_id,target_image_id,scheduled_publish_at,last_error_message')
     .eq('creator_id', userId)
     .in('state', ATTENTION_DRAFT_STATES)
     .limit(25)
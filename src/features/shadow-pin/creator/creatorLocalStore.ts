@@ -9,6 +9,7 @@ export const saveCreatorLocalDraft = (userId: string, state: ShadowPinCreatorSta
   try {
     if (
       state.operation === 'published' ||
+      state.operation === 'scheduled' ||
       state.draft?.state === 'published' ||
       state.draft?.state === 'abandoned'
     ) {
@@ -30,6 +31,11 @@ export const loadCreatorLocalDraft = (userId: string): CreatorLocalDraft | null
     const hasPersistedRevisions = Number.isFinite(parsed.dirtyRevision) && Number.isFinite(parsed.savedRevision)
     return {
       ...parsed,
+      values: {
+        ...parsed.values,
+        coverCaption: typeof parsed.values?.coverCaption === 'string' ? parsed.values.coverCaption : '',
+        slides: Array.isArray(parsed.values?.slides) ? parsed.values.slides : [],
+      },
       // Legacy v1 snapshots did not carry revisions. Treat them as unsynced so
       // recovery cannot silently replace possible offline work with the server.
       dirtyRevision: hasPersistedRevisions ? parsed.dirtyRevision : 1,
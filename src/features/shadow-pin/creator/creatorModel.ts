@@ -1,4 +1,4 @@
-import type { ShadowPinCreatorDraft, ShadowPinCreatorSourceKind } from './creatorTypes'
+import type { ShadowPinCreatorDraft, ShadowPinCreatorSlide, ShadowPinCreatorSourceKind } from './creatorTypes'
 
 export const CREATOR_STEPS = ['media', 'details', 'preview', 'publish'] as const
 export type ShadowPinCreatorStep = typeof CREATOR_STEPS[number]
@@ -10,6 +10,23 @@ export type CreatorFileFingerprint = {
   lastModified: number
 }
 
+export const MAX_CREATOR_SLIDES = 10
+export const MAX_CREATOR_SLIDE_CAPTION_LENGTH = 200
+
+/**
+ * A carousel slide after the cover. The cover keeps using the top-level media
+ * fields so single-media Pins and existing local snapshots are unchanged.
+ */
+export type CreatorSlideValues = {
+  key: string
+  assetId: string | null
+  file: File | null
+  fileFingerprint: CreatorFileFingerprint | null
+  caption: string
+}
+
+export type CreatorLocalSlide = Omit<CreatorSlideValues, 'file'>
+
 export type ShadowPinCreatorValues = {
   categoryId: string
   title: string
@@ -20,6 +37,16 @@ export type ShadowPinCreatorValues = {
   file: File | null
   fileFingerprint: CreatorFileFingerprint | null
   keepExistingMedia: boolean
+  coverCaption: string
+  slides: CreatorSlideValues[]
+}
+
+/** The cover and slide fields that change together when slides are reordered. */
+export type CreatorSlideArrangement = Pick<
+  ShadowPinCreatorValues,
+  'file' | 'fileFingerprint' | 'keepExistingMedia' | 'coverCaption' | 'slides'
+> & {
+  coverAssetId: string | null
 }
 
 export type CreatorOperation =
@@ -31,6 +58,8 @@ export type CreatorOperation =
   | 'processing'
   | 'publishing'
   | 'published'
+  | 'scheduling'
+  | 'scheduled'
   | 'failed'
 
 export type ShadowPinCreatorState = {
@@ -51,9 +80,15 @@ export type ShadowPinCreatorState = {
 
 export type ShadowPinCreatorAction =
   | { type: 'restore-started' }
-  | { type: 'restored'; values: Partial<ShadowPinCreatorValues>; draft?: ShadowPinCreatorDraft | null; step?: ShadowPinCreatorStep; recovered?: boolean; clientMutationId?: string; targetImageId?: string | null; dirtyRevision?: number; savedRevision?: number; updatedAt?: string }
+  | { type: 'restored'; values: Partial<Omit<ShadowPinCreatorValues, 'slides'>> & { slides?: Array<CreatorLocalSlide & { file?: File | null }> }; draft?: ShadowPinCreatorDraft | null; step?: ShadowPinCreatorStep; recovered?: boolean; clientMutationId?: string; targetImageId?: string | null; dirtyRevision?: number; savedRevision?: number; updatedAt?: string }
   | { type: 'set-value'; key: keyof ShadowPinCreatorValues; value: ShadowPinCreatorValues[keyof ShadowPinCreatorValues] }
   | { type: 'set-file'; file: File | null }
+  | { type: 'add-slides'; files: File[] }
+  | { type: 'replace-slide'; key: string; file: File }
+  | { type: 'remove-slide'; key: string }
+  | { type: 'set-slide-caption'; key: string | null; caption: string }
+  | { type: 'arrange-slides'; arrangement: CreatorSlideArrangement }
+  | { type: 'slide-staged'; key: string; assetId: string }
   | { type: 'set-step'; step: ShadowPinCreatorStep }
   | { type: 'operation'; operation: CreatorOperation; error?: string | null; progress?: number }
   | { type: 'draft-saved'; draft: ShadowPinCreatorDraft; savedRevision: number }
@@ -84,6 +119,8 @@ export const createInitialCreatorState = (categoryId = '', targetImageId: string
     file: null,
     fileFingerprint: null,
     keepExistingMedia: false,
+    coverCaption: '',
+    slides: [],
   },
   draft: null,
   operation: 'idle',
@@ -114,11 +151,85 @@ export const creatorFileMatchesFingerprint = (
   file.lastModified === fingerprint.lastModified
 )
 
+const createCreatorSlide = (file: File): CreatorSlideValues => ({
+  key: createCreatorClientMutationId(),
+  assetId: null,
+  file,
+  fileFingerprint: fingerprintCreatorFile(file),
+  caption: '',
+})
+
+/** Maps server slide rows onto the cover caption and the slides after it. */
+export const creatorSlideValuesFromServer = (
+  slides: ShadowPinCreatorSlide[]
+): Pick<ShadowPinCreatorValues, 'coverCaption' | 'slides'> => {
+  const ordered = [...slides].sort((left, right) => left.position - right.position)
+  return {
+    coverCaption: ordered.find(slide => slide.position === 0)?.caption ?? '',
+    slides: ordered
+      .filter(slide => slide.position > 0)
+      .map(slide => ({
+        key: slide.id,
+        assetId: slide.assetId,
+        file: null,
+        fileFingerprint: null,
+        caption: slide.caption,
+      })),
+  }
+}
+
+/**
+ * Moves one slide, where index 0 is the cover. When the cover changes, the
+ * old cover becomes an ordinary slide that keeps its staged asset.
+ */
+export const moveCreatorSlide = (
+  values: ShadowPinCreatorValues,
+  from: number,
+  to: number,
+  coverAssetId: string | null
+): CreatorSlideArrangement => {
+  const ordered: CreatorSlideValues[] = [
+    {
+      key: 'cover',
+      assetId: coverAssetId,
+      file: values.file,
+      fileFingerprint: values.fileFingerprint,
+      caption: values.coverCaption,
+    },
+    ...values.slides,
+  ]
+  const unchanged = {
+    file: values.file,
+    fileFingerprint: values.fileFingerprint,
+    keepExistingMedia: values.keepExistingMedia,
+    coverCaption: values.coverCaption,
+    slides: values.slides,
+    coverAssetId,
+  }
+  if (from === to || from < 0 || to < 0 || from >= ordered.length || to >= ordered.length) return unchanged
+
+  const [moved] = ordered.splice(from, 1)
+  ordered.splice(to, 0, moved)
+  const [cover, ...rest] = ordered
+  return {
+    file: cover.file,
+    fileFingerprint: cover.fileFingerprint,
+    keepExistingMedia: cover.key === 'cover' ? values.keepExistingMedia : Boolean(cover.assetId),
+    coverCaption: cover.caption,
+    slides: rest.map(slide => (
+      slide.key === 'cover' ? { ...slide, key: createCreatorClientMutationId() } : slide
+    )),
+    coverAssetId: cover.assetId,
+  }
+}
+
 const normalizeTags = (tags: string[]) => Array.from(new Set(tags
   .map(tag => tag.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''))
   .filter(Boolean)))
 
-export const inferCreatorSourceKind = (values: ShadowPinCreatorValues): ShadowPinCreatorSourceKind => {
+export const inferCreatorSourceKind = (
+  values: Pick<ShadowPinCreatorValues, 'sourceMode' | 'sourceUrl' | 'file' | 'fileFingerprint'>
+): ShadowPinCreatorSourceKind => {
   if (values.sourceMode === 'file') {
     return values.file?.type.startsWith('video/') || values.fileFingerprint?.type.startsWith('video/')
       ? 'video_upload'
@@ -153,6 +264,14 @@ export const validateCreatorStep = (
         errors.push('Enter a valid media URL.')
       }
     }
+    if (values.slides.length > 0) {
+      if (values.sourceMode !== 'file') errors.push('Carousel Pins use uploaded images or videos.')
+      if (values.slides.length > MAX_CREATOR_SLIDES - 1) errors.push(`A Pin can hold up to ${MAX_CREATOR_SLIDES} slides.`)
+      if (values.slides.some(slide => !slide.file && !slide.assetId)) errors.push('Choose the media for each slide again.')
+    }
+    if ([values.coverCaption, ...values.slides.map(slide => slide.caption)].some(caption => caption.length > MAX_CREATOR_SLIDE_CAPTION_LENGTH)) {
+      errors.push(`Keep each slide caption under ${MAX_CREATOR_SLIDE_CAPTION_LENGTH} characters.`)
+    }
   }
   if (step === 'details' || step === 'preview' || step === 'publish') {
     if (!values.categoryId) errors.push('Choose a category.')
@@ -178,7 +297,12 @@ export const creatorReducer = (
         ...state,
         clientMutationId: action.draft?.clientMutationId || action.clientMutationId || state.clientMutationId,
         targetImageId: action.draft?.targetImageId ?? action.targetImageId ?? state.targetImageId,
-        values: { ...state.values, ...action.values, file: action.values.file ?? null },
+        values: {
+          ...state.values,
+          ...action.values,
+          file: action.values.file ?? null,
+          slides: (action.values.slides ?? state.values.slides).map(slide => ({ ...slide, file: slide.file ?? null })),
+        },
         draft: action.draft === undefined ? state.draft : action.draft,
         step: action.step ?? state.step,
         recovered: action.recovered ?? state.recovered,
@@ -216,6 +340,66 @@ export const creatorReducer = (
         publishConfirmed: false,
         error: null,
       }
+    case 'add-slides': {
+      const room = MAX_CREATOR_SLIDES - 1 - state.values.slides.length
+      if (room <= 0 || action.files.length === 0) return state
+      return {
+        ...state,
+        values: {
+          ...state.values,
+          sourceMode: 'file',
+          slides: [...state.values.slides, ...action.files.slice(0, room).map(createCreatorSlide)],
+        },
+        dirtyRevision: state.dirtyRevision + 1,
+        updatedAt: new Date().toISOString(),
+        publishConfirmed: false,
+        error: null,
+      }
+    }
+    case 'replace-slide':
+    case 'remove-slide':
+    case 'set-slide-caption':
+      return {
+        ...state,
+        values: action.type === 'set-slide-caption' && action.key === null
+          ? { ...state.values, coverCaption: action.caption }
+          : {
+              ...state.values,
+              slides: action.type === 'remove-slide'
+                ? state.values.slides.filter(slide => slide.key !== action.key)
+                : state.values.slides.map(slide => {
+                    if (slide.key !== action.key) return slide
+                    return action.type === 'replace-slide'
+                      ? { ...slide, assetId: null, file: action.file, fileFingerprint: fingerprintCreatorFile(action.file) }
+                      : { ...slide, caption: action.caption }
+                  }),
+            },
+        dirtyRevision: state.dirtyRevision + 1,
+        updatedAt: new Date().toISOString(),
+        publishConfirmed: false,
+        error: null,
+      }
+    case 'arrange-slides': {
+      const { coverAssetId, ...arrangement } = action.arrangement
+      return {
+        ...state,
+        values: { ...state.values, ...arrangement },
+        dirtyRevision: state.dirtyRevision + 1,
+        updatedAt: new Date().toISOString(),
+        publishConfirmed: false,
+        error: null,
+      }
+    }
+    case 'slide-staged':
+      return {
+        ...state,
+        values: {
+          ...state.values,
+          slides: state.values.slides.map(slide => (
+            slide.key === action.key ? { ...slide, assetId: action.assetId } : slide
+          )),
+        },
+      }
     case 'set-step':
       return { ...state, step: action.step, updatedAt: new Date().toISOString(), error: null }
     case 'operation':
@@ -260,7 +444,11 @@ export type CreatorLocalDraft = {
   targetImageId: string | null
   clientMutationId: string
   step: ShadowPinCreatorStep
-  values: Omit<ShadowPinCreatorValues, 'file'>
+  // Slide fields are absent from snapshots saved before carousel Pins.
+  values: Omit<ShadowPinCreatorValues, 'file' | 'coverCaption' | 'slides'> & {
+    coverCaption?: string
+    slides?: CreatorLocalSlide[]
+  }
   dirtyRevision: number
   savedRevision: number
   updatedAt: string
@@ -307,6 +495,8 @@ export const serializeCreatorLocalDraft = (state: ShadowPinCreatorState): Creato
       sourceUrl: state.values.sourceUrl,
       fileFingerprint: state.values.fileFingerprint,
       keepExistingMedia: state.values.keepExistingMedia,
+      coverCaption: state.values.coverCaption,
+      slides: state.values.slides.map(({ file, ...slide }) => slide),
     },
     // A failed first server save still has no draft receipt. Persist it dirty
     // so reopening Studio automatically retries instead of treating it clean.
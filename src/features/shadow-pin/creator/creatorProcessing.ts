@@ -45,3 +45,42 @@ export async function refreshCreatorAssetUntilSettled(
 
   return current
 }
+
+type CreatorSlideStatusSync = (
+  draft: ShadowPinCreatorDraft,
+  assetId: string,
+) => Promise<ShadowPinCreatorDraftBundle>
+
+/**
+ * Carousel slides after the cover settle independently. Each unsettled slide
+ * is synced by asset id until all of them are ready or one has failed.
+ */
+export async function refreshCreatorSlidesUntilSettled(
+  draft: ShadowPinCreatorDraft,
+  slides: ShadowPinCreatorAsset[],
+  sync: CreatorSlideStatusSync,
+  options: {
+    attempts?: number
+    intervalMs?: number
+    wait?: Wait
+  } = {},
+) {
+  const attempts = Math.max(1, options.attempts ?? CREATOR_PUBLISH_SYNC_ATTEMPTS)
+  const intervalMs = Math.max(0, options.intervalMs ?? CREATOR_PUBLISH_SYNC_INTERVAL_MS)
+  const waitForNext = options.wait ?? wait
+  let current = slides
+
+  for (
+    let attempt = 0;
+    attempt < attempts && !current.every(isCreatorAssetSettled) && !current.some(asset => asset.state === 'failed');
+    attempt += 1
+  ) {
+    if (attempt > 0) await waitForNext(intervalMs)
+    current = await Promise.all(current.map(async asset => {
+      if (isCreatorAssetSettled(asset)) return asset
+      return (await sync(draft, asset.id)).asset ?? asset
+    }))
+  }
+
+  return current
+}
@@ -0,0 +1,115 @@
+import type { ShadowPinCreatorDraft, ShadowPinCreatorDraftBundle } from './creatorTypes'
+
+/** Mirrors the bounds enforced by `schedule_shadow_pin_creator_draft`. */
+export const CREATOR_SCHEDULE_MIN_LEAD_MS = 5 * 60 * 1000
+export const CREATOR_SCHEDULE_MAX_AHEAD_MS = 30 * 24 * 60 * 60 * 1000
+export const CREATOR_SCHEDULE_CALENDAR_DAYS = 14
+
+export type CreatorScheduleDay = {
+  key: string
+  date: Date
+  bundles: ShadowPinCreatorDraftBundle[]
+}
+
+export type CreatorScheduleCalendar = {
+  /** Scheduled time has passed but the janitor has not published it yet. */
+  overdue: ShadowPinCreatorDraftBundle[]
+  days: CreatorScheduleDay[]
+  /** Scheduled beyond the calendar window. */
+  later: ShadowPinCreatorDraftBundle[]
+  total: number
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const startOfLocalDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+export const creatorScheduleDayKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+export const isCreatorDraftScheduled = (draft: Pick<ShadowPinCreatorDraft, 'state' | 'scheduledPublishAt'>) => Boolean(
+  draft.scheduledPublishAt &&
+  draft.state !== 'published' &&
+  draft.state !== 'abandoned' &&
+  Number.isFinite(Date.parse(draft.scheduledPublishAt))
+)
+
+/** Value for a `datetime-local` input, in the device's time zone. */
+export const formatCreatorScheduleInput = (date: Date) =>
+  `${creatorScheduleDayKey(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+
+export const parseCreatorScheduleInput = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value.trim())
+  if (!match) return null
+  const [, year, month, day, hours, minutes] = match.map(Number)
+  const date = new Date(year, month - 1, day, hours, minutes)
+  // Reject rolled-over dates such as Feb 30 instead of silently shifting them.
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null
+  return date
+}
+
+/** The next whole hour that is at least an hour away. */
+export const defaultCreatorScheduleTime = (now = new Date()) => {
+  const date = new Date(now.getTime() + 60 * 60 * 1000)
+  if (date.getMinutes() || date.getSeconds() || date.getMilliseconds()) {
+    date.setHours(date.getHours() + 1, 0, 0, 0)
+  }
+  return date
+}
+
+export const validateCreatorScheduleTime = (date: Date | null, now = new Date()) => {
+  if (!date || !Number.isFinite(date.getTime())) return 'Choose a date and time to publish.'
+  if (date.getTime() < now.getTime() + CREATOR_SCHEDULE_MIN_LEAD_MS) {
+    return 'Choose a time at least 5 minutes from now.'
+  }
+  if (date.getTime() > now.getTime() + CREATOR_SCHEDULE_MAX_AHEAD_MS) {
+    return 'Pins can be scheduled up to 30 days ahead.'
+  }
+  return null
+}
+
+export const formatCreatorScheduleTime = (value: string | Date) =>
+  new Date(value).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+
+/**
+ * Groups scheduled drafts into the next `days` local calendar days, in
+ * publish order. Every day is present so the strip keeps a stable layout.
+ */
+export const buildCreatorScheduleCalendar = (
+  bundles: readonly ShadowPinCreatorDraftBundle[],
+  now = new Date(),
+  days = CREATOR_SCHEDULE_CALENDAR_DAYS
+): CreatorScheduleCalendar => {
+  const scheduled = bundles
+    .filter(bundle => isCreatorDraftScheduled(bundle.draft))
+    .sort((left, right) => (
+      Date.parse(left.draft.scheduledPublishAt as string) - Date.parse(right.draft.scheduledPublishAt as string)
+    ))
+  const today = startOfLocalDay(now)
+  const calendarDays: CreatorScheduleDay[] = Array.from({ length: days }, (_, index) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + index)
+    return { key: creatorScheduleDayKey(date), date, bundles: [] }
+  })
+  const daysByKey = new Map(calendarDays.map(day => [day.key, day]))
+  const overdue: ShadowPinCreatorDraftBundle[] = []
+  const later: ShadowPinCreatorDraftBundle[] = []
+
+  for (const bundle of scheduled) {
+    const publishAt = new Date(bundle.draft.scheduledPublishAt as string)
+    if (publishAt.getTime() <= now.getTime()) {
+      overdue.push(bundle)
+      continue
+    }
+    const day = daysByKey.get(creatorScheduleDayKey(publishAt))
+    if (day) day.bundles.push(bundle)
+    else later.push(bundle)
+  }
+
+  return { overdue, days: calendarDays, later, total: scheduled.length }
+}
@@ -23,6 +23,8 @@ export type ShadowPinCreatorDraft = {
   promotionLeaseToken?: string | null
   promotionLeaseExpiresAt?: string | null
   promotionAssetId?: string | null
+  scheduledPublishAt?: string | null
+  scheduledPublishAttempts?: number
   lastErrorCode: string | null
   lastErrorMessage: string | null
   expiresAt: string | null
@@ -55,9 +57,19 @@ export type ShadowPinCreatorAsset = {
   errorMessage: string | null
 }
 
+/** Position 0 is the cover and always points at the draft's active asset. */
+export type ShadowPinCreatorSlide = {
+  id: string
+  position: number
+  assetId: string | null
+  caption: string
+  asset: ShadowPinCreatorAsset | null
+}
+
 export type ShadowPinCreatorDraftBundle = {
   draft: ShadowPinCreatorDraft
   asset: ShadowPinCreatorAsset | null
+  slides?: ShadowPinCreatorSlide[]
 }
 
 export type ShadowPinCreatorPublishResult = {
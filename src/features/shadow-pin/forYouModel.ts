@@ -0,0 +1,74 @@
+import type {
+  ShadowPinForYouReason,
+  ShadowPinForYouReasonAction,
+  ShadowPinForYouReasonKind,
+  ShadowPinImage,
+} from './types'
+
+const REASON_KINDS = new Set<ShadowPinForYouReasonKind>(['tag', 'connection', 'creator', 'category', 'popular', 'new'])
+const REASON_ACTIONS = new Set<ShadowPinForYouReasonAction>(['heart', 'comment', 'view'])
+
+const ACTION_VERBS: Record<ShadowPinForYouReasonAction, string> = {
+  heart: 'hearted',
+  comment: 'commented on',
+  view: 'viewed',
+}
+
+export const normalizeShadowPinForYouReason = (row: {
+  reason_kind?: unknown
+  reason_action?: unknown
+  reason_label?: unknown
+}): ShadowPinForYouReason => {
+  const kind = REASON_KINDS.has(row.reason_kind as ShadowPinForYouReasonKind)
+    ? row.reason_kind as ShadowPinForYouReasonKind
+    : 'new'
+  const action = REASON_ACTIONS.has(row.reason_action as ShadowPinForYouReasonAction)
+    ? row.reason_action as ShadowPinForYouReasonAction
+    : null
+  const label = typeof row.reason_label === 'string' && row.reason_label.trim()
+    ? row.reason_label.trim()
+    : null
+
+  if ((kind === 'tag' || kind === 'category') && !label) return { kind: 'new', action: null, label: null }
+  return { kind, action, label }
+}
+
+const getCreatorName = (image: Pick<ShadowPinImage, 'creator'>) =>
+  image.creator?.display_name || image.creator?.username || null
+
+/** Short explanation shown on a For You card, e.g. "Because you hearted #sunsets". */
+export const getShadowPinForYouReasonText = (
+  reason: ShadowPinForYouReason,
+  image: Pick<ShadowPinImage, 'creator'>
+) => {
+  const creatorName = getCreatorName(image)
+  switch (reason.kind) {
+    case 'tag':
+      return `Because you ${ACTION_VERBS[reason.action ?? 'view']} #${reason.label}`
+    case 'connection':
+      return creatorName ? `From your Connection ${creatorName}` : 'From your Connections'
+    case 'creator':
+      return creatorName
+        ? `Because you ${ACTION_VERBS[reason.action ?? 'view']} Pins by ${creatorName}`
+        : 'From a creator you keep coming back to'
+    case 'category':
+      return `Because you spend time in ${reason.label}`
+    case 'popular':
+      return 'Popular on ShadowPin'
+    default:
+      return 'New on ShadowPin'
+  }
+}
+
+/** Keeps ranked order while dropping Pins a later page repeats after a re-rank. */
+export const appendShadowPinForYouImages = (
+  current: readonly ShadowPinImage[],
+  next: readonly ShadowPinImage[]
+) => {
+  const seen = new Set(current.map(image => image.id))
+  return [...current, ...next.filter(image => {
+    if (seen.has(image.id)) return false
+    seen.add(image.id)
+    return true
+  })]
+}
@@ -85,7 +85,7 @@ export function useShadowPinFeedMode(
       return
     }
 
-    if (previousRouteModeRef.current === 'connections') {
+    if (previousRouteModeRef.current && previousRouteModeRef.current !== 'discover') {
       previousRouteModeRef.current = null
       modeByUserId.set(userId, { mode: 'discover', fetchedAt: Date.now() })
       setMode('discover')
@@ -100,7 +100,7 @@ export function useShadowPinFeedMode(
       setMode(cached.mode)
       desiredModeRef.current = cached.mode
       setLoading(false)
-      if (cached.mode === 'connections') onRouteModeChange(cached.mode)
+      if (cached.mode !== 'discover') onRouteModeChange(cached.mode)
       return
     }
 
@@ -116,7 +116,7 @@ export function useShadowPinFeedMode(
         modeByUserId.set(userId, { mode: preference.mode, fetchedAt: Date.now() })
         setMode(preference.mode)
         desiredModeRef.current = preference.mode
-        if (preference.mode === 'connections') onRouteModeChange(preference.mode)
+        if (preference.mode !== 'discover') onRouteModeChange(preference.mode)
       })
       .catch(() => {
         if (requestGenerationRef.current !== generation) return
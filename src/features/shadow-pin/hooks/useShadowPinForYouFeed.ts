@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useAuth } from '../../../hooks/useAuth'
+import { PERSONAL_BLOCKS_CHANGED_EVENT } from '../../../lib/personalBlocking'
+import { CONNECTIONS_CHANGED_EVENT } from '../../connections/connectionModel'
+import {
+  fetchMyShadowPinForYouFeed,
+  setShadowPinForYouFeedback,
+} from '../api/shadowPinApi'
+import { appendShadowPinForYouImages } from '../forYouModel'
+import type { ShadowPinForYouCursor, ShadowPinForYouReason, ShadowPinImage } from '../types'
+
+const CACHE_MS = 2 * 60 * 1000
+
+type FeedCacheEntry = {
+  images: ShadowPinImage[]
+  reasons: Map<string, ShadowPinForYouReason>
+  cursor: ShadowPinForYouCursor | null
+  hasMore: boolean
+  fetchedAt: number
+}
+
+const cacheByUserId = new Map<string, FeedCacheEntry>()
+let globalInvalidationListenersInstalled = false
+
+export function invalidateShadowPinForYouFeed(userId?: string) {
+  if (userId) cacheByUserId.delete(userId)
+  else cacheByUserId.clear()
+}
+
+const ensureGlobalInvalidationListeners = () => {
+  if (globalInvalidationListenersInstalled || typeof window === 'undefined') return
+  const invalidateAll = () => invalidateShadowPinForYouFeed()
+  window.addEventListener(CONNECTIONS_CHANGED_EVENT, invalidateAll)
+  window.addEventListener(PERSONAL_BLOCKS_CHANGED_EVENT, invalidateAll)
+  globalInvalidationListenersInstalled = true
+}
+
+/**
+ * Ranked For You Pins. Unlike the Connections feed this does not refetch on
+ * focus, so the order a member is reading never reshuffles underneath them.
+ */
+export function useShadowPinForYouFeed(enabled: boolean) {
+  ensureGlobalInvalidationListeners()
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const cached = userId ? cacheByUserId.get(userId) : undefined
+  const freshCache = cached && Date.now() - cached.fetchedAt < CACHE_MS ? cached : undefined
+  const [images, setImages] = useState<ShadowPinImage[]>(freshCache?.images ?? [])
+  const [reasons, setReasons] = useState<Map<string, ShadowPinForYouReason>>(freshCache?.reasons ?? new Map())
+  const [cursor, setCursor] = useState<ShadowPinForYouCursor | null>(freshCache?.cursor ?? null)
+  const [hasMore, setHasMore] = useState(freshCache?.hasMore ?? false)
+  const [loading, setLoading] = useState(Boolean(enabled && userId && !freshCache))
+  const [error, setError] = useState<string | null>(null)
+  const generationRef = useRef(0)
+  const loadingMoreRef = useRef(false)
+
+  const writeCache = useCallback((entry: Omit<FeedCacheEntry, 'fetchedAt'>) => {
+    if (!userId) return
+    cacheByUserId.set(userId, { ...entry, fetchedAt: Date.now() })
+  }, [userId])
+
+  const refresh = useCallback(async (showLoading = true) => {
+    if (!enabled || !userId) return
+    const generation = ++generationRef.current
+    if (showLoading) setLoading(true)
+    setError(null)
+    try {
+      const page = await fetchMyShadowPinForYouFeed(null)
+      if (generationRef.current !== generation) return
+      setImages(page.images)
+      setReasons(page.reasons)
+      setCursor(page.nextCursor)
+      setHasMore(page.hasMore)
+      writeCache({ images: page.images, reasons: page.reasons, cursor: page.nextCursor, hasMore: page.hasMore })
+    } catch (refreshError) {
+      if (generationRef.current !== generation) return
+      setError(refreshError instanceof Error ? refreshError.message : 'Unable to load For You')
+    } finally {
+      if (generationRef.current === generation) setLoading(false)
+    }
+  }, [enabled, userId, writeCache])
+
+  const loadMore = useCallback(async () => {
+    if (!enabled || !userId || !hasMore || !cursor || loadingMoreRef.current) return
+    loadingMoreRef.current = true
+    setLoading(true)
+    const generation = generationRef.current
+    try {
+      const page = await fetchMyShadowPinForYouFeed(cursor)
+      if (generationRef.current !== generation) return
+      const nextImages = appendShadowPinForYouImages(images, page.images)
+      const nextReasons = new Map([...reasons, ...page.reasons])
+      setImages(nextImages)
+      setReasons(nextReasons)
+      setCursor(page.nextCursor)
+      setHasMore(page.hasMore)
+      writeCache({ images: nextImages, reasons: nextReasons, cursor: page.nextCursor, hasMore: page.hasMore })
+      setError(null)
+    } catch (loadError) {
+      if (generationRef.current === generation) {
+        setError(loadError instanceof Error ? loadError.message : 'Unable to load more Pins')
+      }
+    } finally {
+      loadingMoreRef.current = false
+      if (generationRef.current === generation) setLoading(false)
+    }
+  }, [cursor, enabled, hasMore, images, reasons, userId, writeCache])
+
+  useEffect(() => {
+    if (!enabled || !userId) {
+      generationRef.current += 1
+      setLoading(false)
+      return
+    }
+
+    const nextCached = cacheByUserId.get(userId)
+    if (nextCached && Date.now() - nextCached.fetchedAt < CACHE_MS) {
+      setImages(nextCached.images)
+      setReasons(nextCached.reasons)
+      setCursor(nextCached.cursor)
+      setHasMore(nextCached.hasMore)
+      setLoading(false)
+      return
+    }
+
+    setImages([])
+    setReasons(new Map())
+    setCursor(null)
+    setHasMore(false)
+    void refresh(true)
+  }, [enabled, refresh, userId])
+
+  useEffect(() => {
+    if (!enabled || !userId) return
+    const invalidateAndRefresh = () => {
+      invalidateShadowPinForYouFeed(userId)
+      generationRef.current += 1
+      setImages([])
+      setReasons(new Map())
+      setCursor(null)
+      setHasMore(false)
+      void refresh(true)
+    }
+
+    window.addEventListener(CONNECTIONS_CHANGED_EVENT, invalidateAndRefresh)
+    window.addEventListener(PERSONAL_BLOCKS_CHANGED_EVENT, invalidateAndRefresh)
+    return () => {
+      window.removeEventListener(CONNECTIONS_CHANGED_EVENT, invalidateAndRefresh)
+      window.removeEventListener(PERSONAL_BLOCKS_CHANGED_EVENT, invalidateAndRefresh)
+    }
+  }, [enabled, refresh, userId])
+
+  const replaceImages = useCallback((updater: (current: ShadowPinImage[]) => ShadowPinImage[]) => {
+    setImages(current => {
+      const nextImages = updater(current)
+      writeCache({ images: nextImages, reasons, cursor, hasMore })
+      return nextImages
+    })
+  }, [cursor, hasMore, reasons, writeCache])
+
+  /** Hides a Pin right away; the returned undo restores it in place. */
+  const showLess = useCallback(async (image: ShadowPinImage) => {
+    const index = images.findIndex(candidate => candidate.id === image.id)
+    replaceImages(current => current.filter(candidate => candidate.id !== image.id))
+    const restore = () => replaceImages(current => {
+      if (current.some(candidate => candidate.id === image.id)) return current
+      const nextImages = [...current]
+      nextImages.splice(index < 0 ? nextImages.length : Math.min(index, nextImages.length), 0, image)
+      return nextImages
+    })
+    try {
+      await setShadowPinForYouFeedback(image.id, true)
+    } catch (feedbackError) {
+      restore()
+      throw feedbackError
+    }
+    return async () => {
+      await setShadowPinForYouFeedback(image.id, false)
+      restore()
+    }
+  }, [images, replaceImages])
+
+  return useMemo(() => ({
+    images,
+    reasons,
+    loading,
+    error,
+    hasMore,
+    refresh: () => refresh(true),
+    loadMore,
+    showLess,
+  }), [error, hasMore, images, loadMore, loading, reasons, refresh, showLess])
+}
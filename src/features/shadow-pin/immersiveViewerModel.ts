@@ -1,4 +1,4 @@
-import type { ShadowPinImage } from './types'
+import type { ShadowPinImage, ShadowPinImageSlide } from './types'
 
 export const VIEWER_EDGE_GUARD_PX = 24
 export const VIEWER_SWIPE_MIN_DISTANCE_PX = 56
@@ -40,6 +40,40 @@ export const getViewerNeighbor = (
   return images[index + direction] ?? null
 }
 
+export const getViewerSlides = (image: ShadowPinImage | null): ShadowPinImageSlide[] => (
+  image?.slides && image.slides.length > 1
+    ? [...image.slides].sort((first, second) => first.position - second.position)
+    : []
+)
+
+/**
+ * The Pin as it should render on one carousel slide. Slide 0 is the cover,
+ * which is the Pin's own media; later slides swap in their own media fields.
+ */
+export const getViewerSlideImage = (image: ShadowPinImage, slideIndex: number): ShadowPinImage => {
+  const slide = slideIndex > 0 ? getViewerSlides(image)[slideIndex] : undefined
+  if (!slide) return image
+  return {
+    ...image,
+    media_type: slide.media_type,
+    image_url: slide.image_url,
+    image_content_type: null,
+    thumbnail_url: slide.thumbnail_url ?? null,
+    medium_url: slide.medium_url ?? null,
+    image_width: slide.image_width ?? null,
+    image_height: slide.image_height ?? null,
+    provider: slide.provider ?? null,
+    provider_asset_id: slide.provider_asset_id ?? null,
+    provider_playback_id: null,
+    provider_payload: null,
+    video_preview_url: slide.video_preview_url ?? null,
+    video_playback_url: slide.video_playback_url ?? null,
+    video_hls_url: slide.video_hls_url ?? null,
+    video_embed_url: slide.video_embed_url ?? null,
+    duration_seconds: slide.duration_seconds ?? null,
+  }
+}
+
 export const shouldLoadMoreForViewer = ({
   activeIndex,
   itemCount,
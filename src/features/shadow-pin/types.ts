@@ -12,7 +12,7 @@ export type ShadowPinProvider =
   | 'instagram'
   | 'external'
 export type ShadowPinPinSourceType = 'file_upload' | 'url_import' | 'external_embed'
-export type ShadowPinFeedMode = 'discover' | 'connections'
+export type ShadowPinFeedMode = 'discover' | 'connections' | 'for_you'
 
 export interface ShadowPinFeedPreference {
   mode: ShadowPinFeedMode
@@ -31,6 +31,27 @@ export interface ShadowPinFeedPage {
   nextCursor: ShadowPinFeedCursor | null
 }
 
+export type ShadowPinForYouReasonKind = 'tag' | 'connection' | 'creator' | 'category' | 'popular' | 'new'
+export type ShadowPinForYouReasonAction = 'heart' | 'comment' | 'view'
+
+export interface ShadowPinForYouReason {
+  kind: ShadowPinForYouReasonKind
+  action: ShadowPinForYouReasonAction | null
+  label: string | null
+}
+
+export interface ShadowPinForYouCursor {
+  rankedAt: string
+  offset: number
+}
+
+export interface ShadowPinForYouPage {
+  images: ShadowPinImage[]
+  reasons: Map<string, ShadowPinForYouReason>
+  hasMore: boolean
+  nextCursor: ShadowPinForYouCursor | null
+}
+
 export interface ShadowPinCategory {
   id: string
   creator_id?: string | null
@@ -100,6 +121,26 @@ export interface ShadowPinImage {
   creator?: User | null
   category?: Pick<ShadowPinCategory, 'id' | 'title'> | null
   viewer_has_hearted?: boolean
+  slides?: ShadowPinImageSlide[]
+}
+
+/** One carousel slide; position 0 repeats the Pin's own media as the cover. */
+export interface ShadowPinImageSlide {
+  position: number
+  media_type: 'image' | 'video'
+  image_url: string
+  thumbnail_url?: string | null
+  medium_url?: string | null
+  image_width?: number | null
+  image_height?: number | null
+  provider?: ShadowPinProvider | null
+  provider_asset_id?: string | null
+  video_preview_url?: string | null
+  video_playback_url?: string | null
+  video_hls_url?: string | null
+  video_embed_url?: string | null
+  duration_seconds?: number | null
+  caption: string
 }
 
 export interface ShadowPinComment {
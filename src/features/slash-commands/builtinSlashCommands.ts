@@ -0,0 +1,67 @@
+import { summarizeConversation } from '../../lib/ai'
+import { searchKlipyGifs } from '../../lib/gifs'
+import { buildCatchUpDigestTranscript, toCatchUpDigestEntry } from '../catch-up/catchUpDigestModel'
+import { parsePollCommand } from '../polls/pollModel'
+import type { SlashCommandDefinition } from './slashCommandModel'
+
+export const BUILTIN_SLASH_COMMANDS: SlashCommandDefinition[] = [
+  {
+    name: 'shrug',
+    description: 'Send a shrug emoticon',
+    handler: () => ({ kind: 'message', content: '¯\\_(ツ)_/¯' }),
+  },
+  {
+    name: 'me',
+    description: 'Send an action message',
+    args: [{ name: 'action', type: 'text', required: true }],
+    handler: args => ({ kind: 'message', content: `*${args.action}*` }),
+  },
+  {
+    name: 'giphy',
+    description: 'Send the top GIF for a search',
+    args: [{ name: 'search', type: 'text', required: true }],
+    handler: async args => {
+      const query = String(args.search)
+      const { gifs } = await searchKlipyGifs({ query, limit: 1 })
+      if (!gifs[0]) throw new Error(`No GIFs found for "${query}"`)
+      return { kind: 'message', content: '', type: 'image', fileUrl: gifs[0].url }
+    },
+  },
+  {
+    name: 'summary',
+    description: 'Summarize recent messages',
+    handler: async (_args, { messages }) => {
+      const sent = messages.filter(message => !message.optimistic && message.delivery_status !== 'failed')
+      const { transcript, includedCount } = buildCatchUpDigestTranscript(sent.map(toCatchUpDigestEntry))
+      if (includedCount === 0) throw new Error('There are no messages to summarize yet')
+      return { kind: 'message', content: await summarizeConversation(transcript) }
+    },
+  },
+  {
+    name: 'poll',
+    description: 'Start a poll: Question | Option | Option',
+    args: [{ name: 'question | options', type: 'text' }],
+    handler: async (_args, { rawArgs, createPoll }) => {
+      if (!createPoll) throw new Error('Polls are not available in this conversation')
+      const created = await createPoll(parsePollCommand(rawArgs))
+      return { kind: 'handled', keepDraft: created === null }
+    },
+  },
+  {
+    name: 'weather',
+    description: 'Post current weather for a city or postal code',
+    args: [{ name: 'location', type: 'text', required: true, description: 'City or postal code' }],
+    execution: 'server',
+  },
+  {
+    name: 'ban',
+    description: 'Ban a member from General Chat',
+    args: [
+      { name: 'user', type: 'user', required: true },
+      { name: 'duration', type: 'duration', required: true, suggestions: ['15m', '1h', '1d', '7d'] },
+      { name: 'reason', type: 'text' },
+    ],
+    minRole: 'sub_admin',
+    execution: 'server',
+  },
+]
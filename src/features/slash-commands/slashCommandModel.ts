@@ -0,0 +1,208 @@
+import type { AdminRole, ChatMessage } from '../../lib/supabase'
+import type { ScheduledMessageTarget } from '../scheduled-messages/scheduledMessagesModel'
+import type { MessagePollDraft } from '../polls/pollModel'
+
+export type SlashCommandArgType = 'text' | 'word' | 'user' | 'duration' | 'number'
+
+export interface SlashCommandArgSpec {
+  name: string
+  type: SlashCommandArgType
+  required?: boolean
+  description?: string
+  /** Offered by the composer autocomplete once this argument is reached. */
+  suggestions?: string[]
+}
+
+export type SlashCommandArgValue = string | number
+
+export type SlashCommandArgs = Record<string, SlashCommandArgValue>
+
+export interface SlashCommandContext {
+  messages: ChatMessage[]
+  target?: ScheduledMessageTarget
+  createPoll?: (draft: MessagePollDraft) => Promise<unknown> | unknown
+}
+
+export type SlashCommandResult =
+  | { kind: 'message'; content: string; type?: 'text' | 'image'; fileUrl?: string }
+  | { kind: 'notice'; message: string }
+  | { kind: 'handled'; keepDraft?: boolean }
+
+export interface SlashCommandDefinition {
+  /** Command name without the leading slash, e.g. `weather`. */
+  name: string
+  description: string
+  args?: SlashCommandArgSpec[]
+  /** Lowest admin role allowed to see and run the command. */
+  minRole?: AdminRole
+  /**
+   * Client commands run `handler` in the browser. Server commands are sent to
+   * the `slash-command` Edge Function, which re-checks permissions itself.
+   */
+  execution?: 'client' | 'server'
+  handler?: (args: SlashCommandArgs, context: SlashCommandContext & { rawArgs: string }) =>
+    SlashCommandResult | Promise<SlashCommandResult>
+}
+
+export interface ParsedSlashCommandInput {
+  name: string
+  rawArgs: string
+}
+
+export type SlashCommandSuggestion =
+  | { kind: 'command'; command: SlashCommandDefinition; insertText: string }
+  | { kind: 'value'; label: string; insertText: string; arg: SlashCommandArgSpec }
+
+const ROLE_RANK: Record<AdminRole, number> = {
+  sub_admin: 1,
+  admin: 2,
+}
+
+const DURATION_UNITS_MINUTES: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 60 * 24,
+  w: 60 * 24 * 7,
+}
+
+export const MAX_SLASH_COMMAND_DURATION_MINUTES = 60 * 24 * 365
+
+export const formatSlashCommandUsage = (command: SlashCommandDefinition) => [
+  `/${command.name}`,
+  ...(command.args ?? []).map(arg => arg.required ? `<${arg.name}>` : `[${arg.name}]`),
+].join(' ')
+
+export const canUseSlashCommand = (command: SlashCommandDefinition, role: AdminRole | null | undefined) =>
+  !command.minRole || (role ? ROLE_RANK[role] >= ROLE_RANK[command.minRole] : false)
+
+export const parseSlashCommandInput = (input: string): ParsedSlashCommandInput | null => {
+  const match = input.trim().match(/^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i)
+  if (!match) return null
+  return { name: match[1].toLowerCase(), rawArgs: (match[2] ?? '').trim() }
+}
+
+/** Parses `30m`, `1h`, `2d`, or `1w` into minutes. */
+export const parseSlashCommandDuration = (value: string): number | null => {
+  const match = value.trim().toLowerCase().match(/^(\d+)\s*([mhdw])$/)
+  if (!match) return null
+  const minutes = Number(match[1]) * DURATION_UNITS_MINUTES[match[2]]
+  return minutes > 0 && minutes <= MAX_SLASH_COMMAND_DURATION_MINUTES ? minutes : null
+}
+
+const parseArgValue = (arg: SlashCommandArgSpec, token: string): SlashCommandArgValue => {
+  switch (arg.type) {
+    case 'user': {
+      const username = token.replace(/^@/, '')
+      if (!/^[\w.-]{1,64}$/.test(username)) throw new Error(`${arg.name} must be a @username`)
+      return username
+    }
+    case 'duration': {
+      const minutes = parseSlashCommandDuration(token)
+      if (minutes === null) throw new Error(`${arg.name} must look like 30m, 1h, 2d, or 1w`)
+      return minutes
+    }
+    case 'number': {
+      const value = Number(token)
+      if (!Number.isFinite(value)) throw new Error(`${arg.name} must be a number`)
+      return value
+    }
+    default:
+      return token
+  }
+}
+
+/**
+ * Applies a command's argument schema. Positional tokens fill each argument in
+ * order, and a trailing `text` argument keeps the rest of the line verbatim.
+ */
+export const parseSlashCommandArgs = (command: SlashCommandDefinition, rawArgs: string): SlashCommandArgs => {
+  const specs = command.args ?? []
+  const values: SlashCommandArgs = {}
+  let rest = rawArgs.trim()
+
+  specs.forEach((arg, index) => {
+    const isLast = index === specs.length - 1
+    let token: string
+    if (arg.type === 'text' && isLast) {
+      token = rest
+      rest = ''
+    } else {
+      const match = rest.match(/^(\S+)\s*([\s\S]*)$/)
+      token = match?.[1] ?? ''
+      rest = match?.[2] ?? ''
+    }
+
+    if (!token) {
+      if (arg.required) throw new Error(`Usage: ${formatSlashCommandUsage(command)}`)
+      return
+    }
+    values[arg.name] = parseArgValue(arg, token)
+  })
+
+  if (rest && specs.length > 0) {
+    throw new Error(`Usage: ${formatSlashCommandUsage(command)}`)
+  }
+  return values
+}
+
+/**
+ * Suggestions for the composer: matching command names while the first word
+ * is typed, then values for the argument under the cursor.
+ */
+export const getSlashCommandSuggestions = (
+  input: string,
+  commands: SlashCommandDefinition[],
+  knownUsernames: string[] = [],
+): SlashCommandSuggestion[] => {
+  if (!input.startsWith('/')) return []
+  const commandMatch = input.match(/^\/(\S*)$/)
+  if (commandMatch) {
+    const query = commandMatch[1].toLowerCase()
+    return commands
+      .filter(command => command.name.startsWith(query) || (query.length > 1 && command.name.includes(query)))
+      .map(command => ({ kind: 'command', command, insertText: `/${command.name} ` }))
+  }
+
+  const parsed = input.match(/^\/(\S+)\s+([\s\S]*)$/)
+  if (!parsed) return []
+  const command = commands.find(entry => entry.name === parsed[1].toLowerCase())
+  const specs = command?.args ?? []
+  const tokens = parsed[2].split(/\s+/)
+  const arg = specs[tokens.length - 1]
+  if (!command || !arg) return []
+
+  const current = tokens[tokens.length - 1].toLowerCase()
+  const prefix = input.slice(0, input.length - tokens[tokens.length - 1].length)
+  const candidates = arg.type === 'user'
+    ? knownUsernames.map(username => `@${username}`)
+    : arg.suggestions ?? []
+
+  return Array.from(new Set(candidates))
+    .filter(candidate => candidate.toLowerCase().startsWith(current) && candidate.toLowerCase() !== current)
+    .slice(0, 6)
+    .map(candidate => ({ kind: 'value', label: candidate, insertText: `${prefix}${candidate} `, arg }))
+}
+
+export const getMessageAuthorUsernames = (messages: ChatMessage[]) => {
+  const usernames = new Set<string>()
+  for (let index = messages.length - 1; index >= 0 && usernames.size < 20; index -= 1) {
+    const message = messages[index] as {
+      user?: { username?: string | null } | null
+      sender?: { username?: string | null } | null
+    }
+    const username = message.user?.username ?? message.sender?.username
+    if (username) usernames.add(username)
+  }
+  return Array.from(usernames)
+}
+
+export const normalizeSlashCommandResult = (value: unknown): SlashCommandResult => {
+  const record = value && typeof value === 'object' ? value as Record<string, unknown> : {}
+  if (record.kind === 'message' && typeof record.content === 'string' && record.content.trim()) {
+    return { kind: 'message', content: record.content }
+  }
+  if (typeof record.message === 'string' && record.message.trim()) {
+    return { kind: 'notice', message: record.message }
+  }
+  return { kind: 'handled' }
+}
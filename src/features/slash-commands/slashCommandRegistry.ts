@@ -0,0 +1,62 @@
+import type { AdminRole } from '../../lib/supabase'
+import { BUILTIN_SLASH_COMMANDS } from './builtinSlashCommands'
+import {
+  canUseSlashCommand,
+  parseSlashCommandArgs,
+  parseSlashCommandInput,
+  type SlashCommandContext,
+  type SlashCommandDefinition,
+  type SlashCommandResult,
+} from './slashCommandModel'
+import { executeServerSlashCommand } from './slashCommandsApi'
+
+const registry = new Map<string, SlashCommandDefinition>()
+
+/**
+ * Registers a command for every composer. Returns an unregister callback so
+ * feature modules and tests can scope their commands.
+ */
+export const registerSlashCommand = (command: SlashCommandDefinition) => {
+  const name = command.name.trim().toLowerCase()
+  if (!/^[a-z][\w-]*$/.test(name)) throw new Error(`Invalid slash command name: ${command.name}`)
+  if ((command.execution ?? 'client') === 'client' && !command.handler) {
+    throw new Error(`/${name} needs a handler or server execution`)
+  }
+  const entry = { ...command, name }
+  registry.set(name, entry)
+  return () => {
+    if (registry.get(name) === entry) registry.delete(name)
+  }
+}
+
+export const getSlashCommand = (name: string) => registry.get(name.toLowerCase()) ?? null
+
+export const listSlashCommands = (role?: AdminRole | null) =>
+  Array.from(registry.values())
+    .filter(command => canUseSlashCommand(command, role))
+    .sort((left, right) => left.name.localeCompare(right.name))
+
+/**
+ * Runs the command in `input`. Returns null when the text is not a registered
+ * command so the composer can send it as an ordinary message.
+ */
+export const executeSlashCommand = async (
+  input: string,
+  context: SlashCommandContext,
+  role?: AdminRole | null,
+): Promise<SlashCommandResult | null> => {
+  const parsed = parseSlashCommandInput(input)
+  const command = parsed ? getSlashCommand(parsed.name) : null
+  if (!parsed || !command) return null
+  if (!canUseSlashCommand(command, role)) {
+    throw new Error(`You do not have permission to use /${command.name}`)
+  }
+
+  const args = parseSlashCommandArgs(command, parsed.rawArgs)
+  if (command.execution === 'server') {
+    return executeServerSlashCommand(command.name, args, context.target)
+  }
+  return command.handler!(args, { ...context, rawArgs: parsed.rawArgs })
+}
+
+BUILTIN_SLASH_COMMANDS.forEach(registerSlashCommand)
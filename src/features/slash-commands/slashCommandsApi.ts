@@ -0,0 +1,23 @@
+import { invokeAuthenticatedEdgeFunction } from '../../lib/edgeFunctions'
+import {
+  normalizeSlashCommandResult,
+  type SlashCommandArgs,
+  type SlashCommandResult,
+} from './slashCommandModel'
+import type { ScheduledMessageTarget } from '../scheduled-messages/scheduledMessagesModel'
+
+export const SLASH_COMMAND_FUNCTION = 'slash-command'
+
+export const executeServerSlashCommand = async (
+  command: string,
+  args: SlashCommandArgs,
+  target?: ScheduledMessageTarget,
+): Promise<SlashCommandResult> => {
+  const data = await invokeAuthenticatedEdgeFunction<unknown>(SLASH_COMMAND_FUNCTION, {
+    command,
+    args,
+    surface: target?.surface ?? null,
+    conversationId: target?.conversationId ?? null,
+  })
+  return normalizeSlashCommandResult(data)
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef, useState } from 'react'
+import { getMyAdminRole, type AdminRole } from '../../lib/supabase'
+
+/**
+ * Loads the caller's admin role the first time the command menu opens. Role
+ * gating here only hides commands; the server re-checks every privileged run.
+ */
+export function useSlashCommandRole(enabled: boolean) {
+  const [role, setRole] = useState<AdminRole | null>(null)
+  const requestedRef = useRef(false)
+  const mountedRef = useRef(true)
+
+  useEffect(() => {
+    mountedRef.current = true
+    return () => { mountedRef.current = false }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || requestedRef.current) return
+    requestedRef.current = true
+    Promise.resolve()
+      .then(() => getMyAdminRole())
+      .then(nextRole => {
+        if (mountedRef.current) setRole(nextRole)
+      })
+      .catch(() => {
+        requestedRef.current = false
+      })
+  }, [enabled])
+
+  return role
+}
@@ -27,6 +27,7 @@ import {
 } from '../lib/auth';
 import { markPhoneInstallOnboardingPending } from '../lib/phoneInstallOnboarding';
 import { clearLocalOutboxScopes } from '../lib/localMessageOutbox';
+import { clearTranslationCache } from '../features/message-translation/translationStore';
 
 interface AuthContextValue {
   user: AuthenticatedUser | null;
@@ -575,6 +576,7 @@ function useProvideAuth() {
             }
           });
           clearLocalOutboxScopes();
+          clearTranslationCache();
         } catch {
           // ignore storage errors
         }
@@ -651,6 +653,7 @@ function useProvideAuth() {
             }
           });
           clearLocalOutboxScopes();
+          clearTranslationCache();
         } catch {
           // ignore storage errors
         }
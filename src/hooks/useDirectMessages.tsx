@@ -14,6 +14,7 @@ import {
   DMConversation,
   DMMessage,
   type ChatMessageType,
+  type EncryptedDMPayload,
   getOrCreateDMConversation,
   markDMMessagesRead,
   markDMMessagesReadThrough,
@@ -35,6 +36,17 @@ import {
   upsertMessageIntoState,
 } from '../lib/optimisticMessages';
 import { MESSAGE_FETCH_LIMIT } from '../config';
+import { GROUP_DM_CHANGED_EVENT, type GroupDMChangedDetail } from '../features/group-dms/groupDMModel';
+import { forgetCatchUpDMConversation } from '../features/catch-up/catchUpModel';
+import { forgetTranslations } from '../features/message-translation/translationStore';
+import {
+  DISAPPEARING_MESSAGES_CHANGED_EVENT,
+  getDisappearingMessageExpiry,
+  getNextDMMessageExpiry,
+  isDMMessageExpired,
+  type DisappearingMessageTimerChange,
+} from '../features/disappearing-messages/disappearingMessagesModel';
+import { DM_ENCRYPTION_CHANGED_EVENT, type DMEncryptionChange } from '../features/e2ee-dms/e2eeModel';
 import { useAuth } from './useAuth';
 import { useRealtimeRecovery } from './useRealtimeRecovery';
 import { useSoundEffects } from './useSoundEffects';
@@ -76,7 +88,8 @@ interface DirectMessagesContextValue {
     messageType?: ChatMessageType,
     fileUrl?: string,
     replyTo?: string,
-    thumbnailUrl?: string | null
+    thumbnailUrl?: string | null,
+    options?: SendDMMessageOptions
   ) => Promise<DMMessage | null>;
   retryFailedMessage: (messageId: string) => Promise<DMMessage | null>;
   discardFailedMessage: (messageId: string) => void;
@@ -153,6 +166,8 @@ const localOutboxEntryToDMMessage = (
   read_at: undefined,
   read_by: [entry.senderId],
   reactions: {},
+  expires_at: entry.expiresAt ?? null,
+  encrypted_payload: entry.encryptedPayload ?? null,
   created_at: entry.createdAt,
   updated_at: entry.failedAt,
   sender: user,
@@ -160,9 +175,11 @@ const localOutboxEntryToDMMessage = (
   delivery_status: 'failed',
 } as DMMessage);
 
-type SendDMMessageOptions = {
+export type SendDMMessageOptions = {
   clientMessageId?: string;
   createdAt?: string;
+  /** Sealed body for end-to-end encrypted conversations; `content` is then only a placeholder. */
+  encryptedPayload?: EncryptedDMPayload;
 }
 
 type FetchConversationMessagesOptions = {
@@ -208,7 +225,10 @@ function useProvideDirectMessages(): DirectMessagesContextValue {
     handleRealtimeUpdate,
     handleRealtimeDelete,
     refreshVisibleMessages,
-  } = useConversationMessages(currentConversation);
+  } = useConversationMessages(
+    currentConversation,
+    conversations.find(conversation => conversation.id === currentConversation)?.message_ttl_seconds ?? null
+  );
 
   activeMessageHandlersRef.current = {
     insert: handleRealtimeInsert,
@@ -281,6 +301,83 @@ function useProvideDirectMessages(): DirectMessagesContextValue {
     };
   }, [refreshConversations, refreshVisibleMessages, user]);
 
+  useEffect(() => {
+    if (typeof window === 'undefined' || !user) return;
+
+    const handleGroupChanged = (event: Event) => {
+      const detail = (event as CustomEvent<GroupDMChangedDetail>).detail;
+      if (detail?.left) {
+        setCurrentConversation(current => current === detail.conversationId ? null : current);
+      }
+      void refreshConversations();
+    };
+
+    window.addEventListener(GROUP_DM_CHANGED_EVENT, handleGroupChanged);
+    return () => {
+      window.removeEventListener(GROUP_DM_CHANGED_EVENT, handleGroupChanged);
+    };
+  }, [refreshConversations, user]);
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !user) return;
+
+    const handleTimerChanged = (event: Event) => {
+      const detail = (event as CustomEvent<DisappearingMessageTimerChange>).detail;
+      if (!detail) return;
+      // New sends pick up the timer right away; the refresh brings the notice.
+      setConversations(prev => prev.map(conversation => (
+        conversation.id === detail.conversationId
+          ? { ...conversation, message_ttl_seconds: detail.messageTtlSeconds }
+          : conversation
+      )));
+      refreshConversationsDebounced();
+    };
+
+    window.addEventListener(DISAPPEARING_MESSAGES_CHANGED_EVENT, handleTimerChanged);
+    return () => {
+      window.removeEventListener(DISAPPEARING_MESSAGES_CHANGED_EVENT, handleTimerChanged);
+    };
+  }, [refreshConversationsDebounced, user]);
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !user) return;
+
+    const handleEncryptionChanged = (event: Event) => {
+      const detail = (event as CustomEvent<DMEncryptionChange>).detail;
+      if (!detail) return;
+      setConversations(prev => prev.map(conversation => (
+        conversation.id === detail.conversationId
+          ? { ...conversation, e2ee_enabled_at: detail.enabledAt }
+          : conversation
+      )));
+      refreshConversationsDebounced();
+    };
+
+    window.addEventListener(DM_ENCRYPTION_CHANGED_EVENT, handleEncryptionChanged);
+    return () => {
+      window.removeEventListener(DM_ENCRYPTION_CHANGED_EVENT, handleEncryptionChanged);
+    };
+  }, [refreshConversationsDebounced, user]);
+
+  // Inbox previews of disappearing messages go when their timer passes. The
+  // extra second keeps a slightly fast device clock from refetching in a loop.
+  useEffect(() => {
+    const nextExpiry = getNextDMMessageExpiry(conversations.map(conversation => conversation.last_message));
+    if (nextExpiry === null) return;
+
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      conversations.forEach(conversation => {
+        if (conversation.last_message && isDMMessageExpired(conversation.last_message, now)) {
+          forgetCatchUpDMConversation(conversation.id);
+          forgetTranslations([conversation.last_message.id]);
+        }
+      });
+      void refreshConversations();
+    }, Math.max(0, nextExpiry - Date.now()) + 1000);
+    return () => clearTimeout(timer);
+  }, [conversations, refreshConversations]);
+
   // One inbox-wide channel owns both conversation summaries and the active thread.
   useEffect(() => {
     if (!user) return;
@@ -325,7 +422,7 @@ function useProvideDirectMessages(): DirectMessagesContextValue {
 
               const updated = [...prev];
               let unread = updated[convIndex].unread_count;
-              if (incomingSenderId !== user.id) {
+              if (incomingSenderId !== user.id && incoming.message_type !== 'system') {
                 unread = (unread || 0) + 1;
               }
 
@@ -347,6 +444,7 @@ function useProvideDirectMessages(): DirectMessagesContextValue {
                   read_at: incoming.read_at,
                   reactions: incoming.reactions ?? {},
                   edited_at: incoming.edited_at,
+                  expires_at: incoming.expires_at ?? null,
                   created_at: incomingCreatedAt,
                   updated_at: incoming.updated_at ?? incomingCreatedAt,
                 },
@@ -364,7 +462,7 @@ function useProvideDirectMessages(): DirectMessagesContextValue {
             }
 
             void activeMessageHandlersRef.current.insert(incoming);
-            if (incomingSenderId !== user.id) {
+            if (incomingSenderId !== user.id && incoming.message_type !== 'system') {
               playMessage();
             }
           }
@@ -404,6 +502,15 @@ function useProvideDirectMessages(): DirectMessagesContextValue {
             activeMessageHandlersRef.current.delete(removed);
             void refreshConversations();
           }
+        )
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'dm_conversations' },
+          () => {
+            // Group renames and membership changes; message activity already
+            // schedules the same debounced refresh.
+            refreshConversationsDebounced();
+          }
         );
 
       latestChannel = nextChannel;
@@ -449,9 +556,10 @@ function useProvideDirectMessages(): DirectMessagesContextValue {
       messageType?: ChatMessageType,
       fileUrl?: string,
       replyTo?: string,
-      thumbnailUrl?: string | null
+      thumbnailUrl?: string | null,
+      options?: SendDMMessageOptions
     ) => {
-      const message = await sendConversationMessage(content, messageType, fileUrl, replyTo, thumbnailUrl);
+      const message = await sendConversationMessage(content, messageType, fileUrl, replyTo, thumbnailUrl, options);
       if (message) {
         if (hasNewer) {
           await loadLatestMessages();
@@ -562,7 +670,7 @@ function useProvideDirectMessages(): DirectMessagesContextValue {
   };
 }
 
-export function useConversationMessages(conversationId: string | null) {
+export function useConversationMessages(conversationId: string | null, messageTtlSeconds: number | null = null) {
   const [messages, setMessages] = useState<DMMessage[]>([]);
   const [loadedConversationId, setLoadedConversationId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
@@ -619,6 +727,7 @@ export function useConversationMessages(conversationId: string | null) {
         media_processed_at?: string;
         audio_url?: string;
         reply_to?: string;
+        encrypted_payload?: EncryptedDMPayload;
       }
     ) => {
       const workingClient = await getWorkingClient();
@@ -964,8 +1073,25 @@ export function useConversationMessages(conversationId: string | null) {
     if (!removed.id) return;
 
     setMessages(prev => prev.filter(message => message.id !== removed.id));
+    forgetTranslations([removed.id]);
+    if (removed.conversation_id) forgetCatchUpDMConversation(removed.conversation_id);
   }, []);
 
+  // Disappearing messages leave the open thread on time; the server janitor
+  // deletes the rows and their uploads shortly after.
+  useEffect(() => {
+    const nextExpiry = getNextDMMessageExpiry(messages);
+    if (nextExpiry === null || !conversationId) return;
+
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      setMessages(prev => prev.filter(message => !isDMMessageExpired(message, now)));
+      forgetTranslations(messages.filter(message => isDMMessageExpired(message, now)).map(message => message.id));
+      forgetCatchUpDMConversation(conversationId);
+    }, Math.max(0, nextExpiry - Date.now()));
+    return () => clearTimeout(timer);
+  }, [conversationId, messages]);
+
   const loadMessageWindow = useCallback(async (messageId: string) => {
     if (!conversationId) return false;
     const requestedConversationId = conversationId;
@@ -1001,6 +1127,8 @@ export function useConversationMessages(conversationId: string | null) {
         media_width: message.mediaWidth,
         media_height: message.mediaHeight,
         media_processed_at: message.mediaProcessedAt,
+        expires_at: message.expiresAt,
+        encrypted_payload: message.encryptedPayload,
         sender: message.sender,
       } as DMMessage));
 
@@ -1053,6 +1181,8 @@ export function useConversationMessages(conversationId: string | null) {
         read_at: undefined,
         read_by: [user.id],
         reactions: {},
+        expires_at: getDisappearingMessageExpiry(createdAt, messageTtlSeconds),
+        encrypted_payload: options.encryptedPayload ?? null,
         created_at: createdAt,
         updated_at: createdAt,
         sender: profile ?? user,
@@ -1079,6 +1209,7 @@ export function useConversationMessages(conversationId: string | null) {
               ...(thumbnailUrl ? { thumbnail_url: thumbnailUrl, media_processed_at: new Date().toISOString() } : {}),
               ...(replyTo ? { reply_to: replyTo } : {}),
               ...(messageType === 'audio' ? { audio_url: trimmedContent } : {}),
+              ...(options.encryptedPayload ? { encrypted_payload: options.encryptedPayload } : {}),
             };
 
             const { data, error } = await insertConversationMessage(insertPayload);
@@ -1136,6 +1267,8 @@ export function useConversationMessages(conversationId: string | null) {
           replyTo,
           createdAt,
           failedAt: new Date().toISOString(),
+          expiresAt: optimisticMessage.expires_at,
+          encryptedPayload: options.encryptedPayload ?? null,
         });
         setMessages(prev => markMessageSendFailed(prev, clientMessageId));
         await runRealtimeRecovery('send-error').catch(() => undefined);
@@ -1150,7 +1283,7 @@ export function useConversationMessages(conversationId: string | null) {
         sendingRef.current = false;
         setSending(false);
       }
-    }, [user, conversationId, insertConversationMessage, profile]);
+    }, [user, conversationId, insertConversationMessage, messageTtlSeconds, profile]);
 
   const retryFailedMessage = useCallback(async (messageId: string) => {
     const failedMessage = latestMessagesRef.current.find(message =>
@@ -1174,6 +1307,7 @@ export function useConversationMessages(conversationId: string | null) {
       {
         clientMessageId,
         createdAt: new Date().toISOString(),
+        encryptedPayload: failedMessage.encrypted_payload ?? undefined,
       }
     );
   }, [sendMessage]);
@@ -1223,6 +1357,7 @@ export function useConversationMessages(conversationId: string | null) {
     if (error) throw error;
 
     setMessages(prev => prev.filter(message => message.id !== messageId));
+    forgetTranslations([messageId]);
   }, [conversationId, user]);
 
   const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
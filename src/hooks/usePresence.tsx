@@ -6,8 +6,11 @@ import {
   getRealtimeClient,
   getWorkingClient,
   type PresenceSnapshot,
+  type UserCustomStatus,
 } from '../lib/supabase'
 import { createRealtimeChannelName } from '../lib/realtimeChannelName'
+import { fetchCustomStatuses } from '../features/custom-status/customStatusApi'
+import { normalizeUserCustomStatus } from '../features/custom-status/customStatusModel'
 import type { PresenceState, PresenceVisibility } from '../types'
 
 const PRESENCE_REFRESH_MS = 30000
@@ -19,8 +22,25 @@ type PresenceContextValue = {
   refresh: () => Promise<void>
 }
 
-const normalizePresence = (rows: PresenceSnapshot[]) =>
-  Object.fromEntries(rows.map(row => [row.user_id, row]))
+/**
+ * Custom statuses load beside presence. When that request fails the last
+ * known statuses are kept rather than blanking everyone's status.
+ */
+const normalizePresence = (
+  rows: PresenceSnapshot[],
+  statuses: UserCustomStatus[] | null,
+  previous: Record<string, PresenceSnapshot>
+) => {
+  const statusByUserId = statuses
+    ? new Map(statuses.map(status => [status.user_id, status]))
+    : null
+  return Object.fromEntries(rows.map(row => [row.user_id, {
+    ...row,
+    custom_status: statusByUserId
+      ? statusByUserId.get(row.user_id) ?? null
+      : previous[row.user_id]?.custom_status ?? null,
+  }]))
+}
 
 const getVisibleDocument = () =>
   typeof document === 'undefined' || document.visibilityState !== 'hidden'
@@ -150,10 +170,13 @@ export function PresenceProvider({
       return refreshInFlightRef.current
     }
 
-    refreshInFlightRef.current = fetchPresenceStates()
-      .then(rows => {
+    refreshInFlightRef.current = Promise.all([
+      fetchPresenceStates(),
+      fetchCustomStatuses().catch(() => null),
+    ])
+      .then(([rows, statuses]) => {
         if (aliveRef.current) {
-          store.setPresenceByUserId(normalizePresence(rows))
+          store.setPresenceByUserId(normalizePresence(rows, statuses, store.getPresenceByUserId()))
         }
       })
       .catch(() => undefined)
@@ -248,6 +271,24 @@ export function PresenceProvider({
     })
   }, [refreshSoon, store])
 
+  const applyCustomStatusRealtimePayload = useCallback((payload: any) => {
+    const row = (payload.new || payload.old) as { user_id?: string | null } | undefined
+    const targetUserId = row?.user_id
+    const existing = targetUserId ? store.getPresenceForUser(targetUserId) : null
+    if (!targetUserId || !existing) {
+      refreshSoon()
+      return
+    }
+
+    store.setPresenceByUserId({
+      ...store.getPresenceByUserId(),
+      [targetUserId]: {
+        ...existing,
+        custom_status: payload.eventType === 'DELETE' ? null : normalizeUserCustomStatus(payload.new),
+      },
+    })
+  }, [refreshSoon, store])
+
   useEffect(() => {
     aliveRef.current = true
     return () => {
@@ -306,6 +347,13 @@ export function PresenceProvider({
             applyUserRealtimePayload(payload)
           }
         )
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'user_custom_statuses' },
+          (payload: any) => {
+            applyCustomStatusRealtimePayload(payload)
+          }
+        )
         .subscribe((status: string) => {
           if (status === 'SUBSCRIBED') {
             void refresh()
@@ -356,7 +404,7 @@ export function PresenceProvider({
         getRealtimeClient()?.removeChannel(channel)
       }
     }
-  }, [applyPresenceRealtimePayload, applyUserRealtimePayload, refresh, store, userId])
+  }, [applyCustomStatusRealtimePayload, applyPresenceRealtimePayload, applyUserRealtimePayload, refresh, store, userId])
 
   const value = useMemo(
     () => ({
@@ -32,15 +32,49 @@ const invokeAI = async (
   })
 }
 
-export async function summarizeConversation(messages: ChatMessage[]): Promise<string> {
+const TRANSCRIPT_FORMAT_NOTE =
+  'Each transcript line reads "[ref] time Author (context): text". ' +
+  'Bracketed notes such as [Image] or [Voice message] describe media you cannot see. ' +
+  '"thread on mN" marks a reply inside the thread started by mN, and {N thread replies} marks a message with a thread.'
+
+/** Summarizes a referenced transcript from `buildCatchUpDigestTranscript`. */
+export async function summarizeConversation(transcript: string): Promise<string> {
   const data = await invokeAI([
-    { role: 'system', content: 'Summarize the following conversation in a short paragraph.' },
-    ...messages.map(m => ({ role: 'user' as const, content: m.content }))
+    {
+      role: 'system',
+      content:
+        'Summarize this group chat transcript in a short paragraph. ' +
+        'Name who said or decided what, and mention busy threads. ' +
+        'Do not include the [ref] markers. ' +
+        TRANSCRIPT_FORMAT_NOTE
+    },
+    { role: 'user', content: transcript }
   ])
 
   return data.choices?.[0]?.message?.content?.trim() || ''
 }
 
+/** Returns the raw model reply; `parseCatchUpDigest` turns it into linked bullets. */
+export async function generateCatchUpDigest(transcript: string): Promise<string> {
+  const data = await invokeAI([
+    {
+      role: 'system',
+      content:
+        'You write catch-up digests for someone returning to a group chat. ' +
+        'Pick the most important points: decisions, questions waiting on answers, plans, and busy threads. ' +
+        'Name the people involved in each point and cite the lines it came from. ' +
+        TRANSCRIPT_FORMAT_NOTE + ' ' +
+        'Reply only with JSON: {"bullets": [{"text": "<one sentence>", "refs": ["m1"]}]}, ' +
+        'at most 8 bullets, oldest first.'
+    },
+    { role: 'user', content: transcript }
+  ])
+
+  const content = data.choices?.[0]?.message?.content?.trim()
+  if (!content) throw new Error('The digest is unavailable right now.')
+  return content
+}
+
 export async function getSuggestedReplies(messages: ChatMessage[]): Promise<string[]> {
   const data = await invokeAI([
     {
@@ -80,3 +114,71 @@ export async function askQuestion(
 
   return data.choices?.[0]?.message?.content?.trim() || ''
 }
+
+/**
+ * Answers from retrieved messages only. The reply is raw model output;
+ * `parseAskTheRoomAnswer` maps its `[sN]` citations back to messages.
+ */
+export async function answerFromConversation(question: string, context: string): Promise<string> {
+  const data = await invokeAI([
+    {
+      role: 'system',
+      content:
+        'You answer questions about a chat conversation using only the excerpts provided. ' +
+        'Each excerpt line reads "[ref] time Author: text"; bracketed notes such as [Image] describe media you cannot see. ' +
+        'Name who said what and give dates when they matter. ' +
+        'If the excerpts do not answer the question, say so plainly instead of guessing. ' +
+        'Reply only with JSON: {"answer": "<two or three sentences>", "refs": ["s1"]}, listing every excerpt you relied on.'
+    },
+    { role: 'user', content: `Excerpts:\n${context}\n\nQuestion: ${question}` }
+  ])
+
+  const content = data.choices?.[0]?.message?.content?.trim()
+  if (!content) throw new Error('The assistant is unavailable right now.')
+  return content
+}
+
+export interface TranslationResult {
+  translation: string
+  sourceLanguage: string | null
+}
+
+const stripCodeFence = (value: string) =>
+  value.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim()
+
+export const parseTranslationResponse = (content: string): TranslationResult => {
+  const trimmed = stripCodeFence(content.trim())
+  try {
+    const parsed = JSON.parse(trimmed) as { translation?: unknown; source_language?: unknown }
+    if (typeof parsed.translation === 'string' && parsed.translation.trim()) {
+      const source = typeof parsed.source_language === 'string' ? parsed.source_language.trim().toLowerCase() : ''
+      return {
+        translation: parsed.translation.trim(),
+        sourceLanguage: /^[a-z]{2,3}$/.test(source) ? source : null,
+      }
+    }
+  } catch {
+    // Models occasionally answer with bare text; treat it as the translation.
+  }
+
+  return { translation: trimmed, sourceLanguage: null }
+}
+
+export async function translateText(text: string, targetLanguage: string): Promise<TranslationResult> {
+  const data = await invokeAI([
+    {
+      role: 'system',
+      content:
+        `Translate the user's chat message into the language with ISO 639-1 code "${targetLanguage}". ` +
+        'Keep names, @mentions, links, and emoji unchanged. ' +
+        'Reply only with JSON: {"source_language": "<ISO 639-1 code>", "translation": "<text>"}.'
+    },
+    { role: 'user', content: text }
+  ])
+
+  const result = parseTranslationResponse(data.choices?.[0]?.message?.content || '')
+  if (!result.translation) {
+    throw new Error('Translation is unavailable right now.')
+  }
+  return result
+}
@@ -18,7 +18,7 @@ export type AppLocationState = {
   pin: string | null
   comment: string | null
   pinPanel: 'viewer' | 'comments' | null
-  pinFeed: 'connections' | null
+  pinFeed: 'connections' | 'for_you' | null
   pinCircle?: string | null
   playExperience: PlayExperience | null
   playItem: string | null
@@ -313,7 +313,7 @@ export type PinRouteAction =
 
 export type PinHistoryLayer = 'pin-viewer' | 'pin-comments' | 'catch-up-result' | null
 
-export type PinFeedMode = 'discover' | 'connections'
+export type PinFeedMode = 'discover' | 'connections' | 'for_you'
 
 const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/iu
 
@@ -386,7 +386,10 @@ export const resolvePinFeedModeMutation = ({
   const url = new URL(currentUrl)
   url.searchParams.set('view', 'pins')
   if (mode === 'connections') url.searchParams.set('feed', 'connections')
-  else {
+  else if (mode === 'for_you') {
+    url.searchParams.set('feed', 'for-you')
+    url.searchParams.delete('circle')
+  } else {
     url.searchParams.delete('feed')
     url.searchParams.delete('circle')
   }
@@ -520,8 +523,11 @@ export const getLocationStateFromUrl = (url: URL): AppLocationState => {
     ? 'circles' as const
     : null
   const dmCircle = connectionsSection ? preserveRequestedInnerCircleId(params.get('circle')) : null
-  const pinFeed = view === 'pins' && params.get('feed') === 'connections' ? 'connections' as const : null
-  const pinCircle = pinFeed ? preserveRequestedInnerCircleId(params.get('circle')) : null
+  const pinFeedParam = view === 'pins' ? params.get('feed') : null
+  const pinFeed = pinFeedParam === 'connections'
+    ? 'connections' as const
+    : pinFeedParam === 'for-you' ? 'for_you' as const : null
+  const pinCircle = pinFeed === 'connections' ? preserveRequestedInnerCircleId(params.get('circle')) : null
   const playExperience = view === 'games' ? normalizePlayExperience(params.get('experience')) : null
   const playItem = playExperience && PLAY_EXPERIENCES_WITH_ITEMS.has(playExperience)
     ? normalizePlayItem(params.get('item'))
@@ -25,7 +25,7 @@ export const fetchDMConversationHubState = async () => {
       .select('conversation_id,pinned_at,archived_at,marked_unread_at,updated_at'),
     client
       .from('notification_conversation_mutes')
-      .select('conversation_id'),
+      .select('conversation_id,muted_until'),
   ])
 
   if (preferencesResult.error) throw preferencesResult.error
@@ -33,7 +33,10 @@ export const fetchDMConversationHubState = async () => {
 
   return {
     preferences: ((preferencesResult.data ?? []) as DMConversationPreferenceRow[]).map(mapPreferenceRow),
-    mutedConversationIds: (muteResult.data ?? []).map((row: { conversation_id: string }) => String(row.conversation_id)),
+    // Timed snoozes lapse on their own; an expired row no longer mutes the thread.
+    mutedConversationIds: ((muteResult.data ?? []) as { conversation_id: string; muted_until: string | null }[])
+      .filter(row => !row.muted_until || new Date(row.muted_until).getTime() > Date.now())
+      .map(row => String(row.conversation_id)),
   }
 }
 
@@ -1,7 +1,7 @@
 import {
   pickPublicProfile,
 } from '../../supabase/functions/_shared/public-profile'
-import { getWorkingClient, type ChatMessageType } from './supabase'
+import { getWorkingClient, type ChatMessageType, type EncryptedDMPayload } from './supabase'
 
 type PublicProfile = ReturnType<typeof pickPublicProfile>
 
@@ -35,6 +35,9 @@ export interface DMRetrievedMessage {
   mediaHeight: number | null
   mediaProcessedAt: string | null
   thumbnailPath: string | null
+  expiresAt: string | null
+  /** Sealed body of an end-to-end encrypted message; `content` is then only a placeholder. */
+  encryptedPayload: EncryptedDMPayload | null
   sender: PublicProfile
 }
 
@@ -71,6 +74,9 @@ const MESSAGE_TYPES = new Set<ChatMessageType>([
   'video',
   'file',
   'hype',
+  'poll',
+  'location',
+  'system',
 ])
 
 const requireUuid = (value: string, label: string) => {
@@ -131,6 +137,12 @@ const normalizeReactions = (value: unknown): DMRetrievedMessage['reactions'] =>
   return value as DMRetrievedMessage['reactions']
 }
 
+const normalizeEncryptedPayload = (value: unknown) => (
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? value as EncryptedDMPayload
+    : null
+)
+
 const normalizeSender = (value: unknown) => pickPublicProfile(
   value && typeof value === 'object' && !Array.isArray(value)
     ? value as Record<string, unknown>
@@ -161,6 +173,8 @@ const mapRetrievedMessage = (row: RetrievalRow): DMRetrievedMessage => {
     mediaHeight: optionalNumber(row.media_height),
     mediaProcessedAt: optionalString(row.media_processed_at),
     thumbnailPath: optionalString(row.thumbnail_path),
+    expiresAt: optionalString(row.expires_at),
+    encryptedPayload: normalizeEncryptedPayload(row.encrypted_payload),
     sender: normalizeSender(row.sender),
   }
 }
@@ -24,7 +24,7 @@ const getOptimizedFileName = (file: File, type: string, prefix?: string) => {
   return `${prefix || baseName}-${Date.now()}.${extension}`
 }
 
-const loadImage = async (file: File) => {
+export const loadImage = async (file: File) => {
   if (typeof document === 'undefined' || typeof URL === 'undefined' || !URL.createObjectURL) {
     return null
   }
@@ -42,9 +42,9 @@ const loadImage = async (file: File) => {
   }
 }
 
-const canvasToBlob = async (
+export const canvasToBlob = async (
   canvas: HTMLCanvasElement,
-  type: 'image/webp' | 'image/jpeg',
+  type: 'image/webp' | 'image/jpeg' | 'image/png',
   quality: number
 ) => new Promise<Blob | null>(resolve => {
   canvas.toBlob(resolve, type, quality)
@@ -1,4 +1,4 @@
-import type { ChatMessageType } from './supabase'
+import type { ChatMessageType, EncryptedDMPayload } from './supabase'
 
 export interface LocalMessageOutboxEntry {
   id: string
@@ -11,6 +11,10 @@ export interface LocalMessageOutboxEntry {
   replyTo?: string | null
   createdAt: string
   failedAt: string
+  /** Set in conversations with disappearing messages; the entry is dropped once this passes. */
+  expiresAt?: string | null
+  /** End-to-end encrypted sends keep only the sealed body here, never the plaintext. */
+  encryptedPayload?: EncryptedDMPayload | null
 }
 
 const OUTBOX_STORAGE_PREFIX = 'shadowchat:outbox:'
@@ -37,6 +41,7 @@ export const loadLocalOutboxEntries = (scope: string) => {
       .filter(entry => entry && typeof entry === 'object')
       .map(entry => normalizeEntry(entry as LocalMessageOutboxEntry))
       .filter(entry => entry.clientMessageId && entry.senderId && entry.messageType && entry.createdAt)
+      .filter(entry => !entry.expiresAt || Date.parse(entry.expiresAt) > Date.now())
   } catch {
     return []
   }
@@ -3,12 +3,15 @@ import { getWorkingClient } from './supabase'
 import { invokeEdgeFunctionWithRetry } from './edgeFunctionRetry'
 import { registerWebNotificationInstallation } from './notificationInstallation'
 
+export type NotificationDigestMode = 'immediate' | 'hourly' | 'daily'
+
 export interface NotificationPreferences {
   user_id: string
   notifications_enabled: boolean
   dm_enabled: boolean
   mention_enabled: boolean
   reply_enabled: boolean
+  keyword_alerts_enabled: boolean
   reaction_enabled: boolean
   group_enabled: boolean
   hype_enabled: boolean
@@ -35,6 +38,10 @@ export interface NotificationPreferences {
   quiet_hours_end: string | null
   quiet_hours_timezone: string
   mute_until: string | null
+  interactions_digest_mode: NotificationDigestMode
+  shadow_pin_digest_mode: NotificationDigestMode
+  presence_digest_mode: NotificationDigestMode
+  games_digest_mode: NotificationDigestMode
 }
 
 export interface PushSupportStatus {
@@ -63,6 +70,7 @@ const DEFAULT_PREFERENCES = {
   dm_enabled: true,
   mention_enabled: true,
   reply_enabled: true,
+  keyword_alerts_enabled: true,
   reaction_enabled: true,
   group_enabled: true,
   hype_enabled: true,
@@ -89,6 +97,10 @@ const DEFAULT_PREFERENCES = {
   quiet_hours_end: null,
   quiet_hours_timezone: 'UTC',
   mute_until: null,
+  interactions_digest_mode: 'immediate' as const,
+  shadow_pin_digest_mode: 'immediate' as const,
+  presence_digest_mode: 'immediate' as const,
+  games_digest_mode: 'immediate' as const,
 }
 
 const NOTIFICATION_PREFERENCE_SELECT = [
@@ -97,6 +109,7 @@ const NOTIFICATION_PREFERENCE_SELECT = [
   'dm_enabled',
   'mention_enabled',
   'reply_enabled',
+  'keyword_alerts_enabled',
   'reaction_enabled',
   'group_enabled',
   'hype_enabled',
@@ -123,6 +136,10 @@ const NOTIFICATION_PREFERENCE_SELECT = [
   'quiet_hours_end',
   'quiet_hours_timezone',
   'mute_until',
+  'interactions_digest_mode',
+  'shadow_pin_digest_mode',
+  'presence_digest_mode',
+  'games_digest_mode',
 ].join(', ')
 
 const SW_PATH = '/sw.js'
@@ -464,7 +481,49 @@ export const upsertNotificationPreferences = async (
   return data as NotificationPreferences
 }
 
-export const fetchConversationNotificationMute = async (
+export type ConversationNotificationDeliveryMode = 'all' | 'mentions_only'
+
+export interface ConversationNotificationRule {
+  conversation_id: string
+  delivery_mode: ConversationNotificationDeliveryMode
+  sound_id: string | null
+  bypass_quiet_hours: boolean
+}
+
+export type ConversationNotificationSnooze = '1h' | '8h' | 'tomorrow'
+
+const CONVERSATION_RULE_SELECT = 'conversation_id, delivery_mode, sound_id, bypass_quiet_hours'
+
+const isConversationMuteActive = (mutedUntil: string | null) => (
+  !mutedUntil || new Date(mutedUntil).getTime() > Date.now()
+)
+
+export const getDefaultConversationNotificationRule = (
+  conversationId: string
+): ConversationNotificationRule => ({
+  conversation_id: conversationId,
+  delivery_mode: 'all',
+  sound_id: null,
+  bypass_quiet_hours: false,
+})
+
+/** "Until tomorrow" ends at 09:00 local time on the next calendar day. */
+export const getConversationNotificationSnoozeUntil = (
+  snooze: ConversationNotificationSnooze,
+  now = new Date()
+) => {
+  if (snooze === 'tomorrow') {
+    const until = new Date(now)
+    until.setDate(until.getDate() + 1)
+    until.setHours(9, 0, 0, 0)
+    return until.toISOString()
+  }
+
+  const hours = snooze === '1h' ? 1 : 8
+  return new Date(now.getTime() + (hours * 60 * 60 * 1000)).toISOString()
+}
+
+export const fetchConversationNotificationMuteUntil = async (
   userId: string,
   conversationId: string
 ) => {
@@ -477,16 +536,20 @@ export const fetchConversationNotificationMute = async (
     .maybeSingle()
 
   if (error) throw error
-  if (!data) return false
-  if (!data.muted_until) return true
-
-  return new Date(data.muted_until).getTime() > Date.now()
+  if (!data || !isConversationMuteActive(data.muted_until)) return { muted: false, mutedUntil: null }
+  return { muted: true, mutedUntil: data.muted_until as string | null }
 }
 
+export const fetchConversationNotificationMute = async (
+  userId: string,
+  conversationId: string
+) => (await fetchConversationNotificationMuteUntil(userId, conversationId)).muted
+
 export const setConversationNotificationMute = async (
   userId: string,
   conversationId: string,
-  muted: boolean
+  muted: boolean,
+  mutedUntil: string | null = null
 ) => {
   const workingClient = await getWorkingClient()
 
@@ -507,7 +570,7 @@ export const setConversationNotificationMute = async (
       {
         user_id: userId,
         conversation_id: conversationId,
-        muted_until: null,
+        muted_until: mutedUntil,
       },
       { onConflict: 'user_id,conversation_id' }
     )
@@ -516,6 +579,68 @@ export const setConversationNotificationMute = async (
   return true
 }
 
+export const fetchConversationNotificationMutes = async (userId: string) => {
+  const workingClient = await getWorkingClient()
+  const { data, error } = await workingClient
+    .from('notification_conversation_mutes')
+    .select('conversation_id, muted_until')
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return (data ?? []) as { conversation_id: string; muted_until: string | null }[]
+}
+
+export const fetchConversationNotificationRule = async (
+  userId: string,
+  conversationId: string
+): Promise<ConversationNotificationRule> => {
+  const workingClient = await getWorkingClient()
+  const { data, error } = await workingClient
+    .from('notification_conversation_rules')
+    .select(CONVERSATION_RULE_SELECT)
+    .eq('user_id', userId)
+    .eq('conversation_id', conversationId)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data as ConversationNotificationRule | null) ?? getDefaultConversationNotificationRule(conversationId)
+}
+
+export const fetchConversationNotificationRules = async (userId: string) => {
+  const workingClient = await getWorkingClient()
+  const { data, error } = await workingClient
+    .from('notification_conversation_rules')
+    .select(CONVERSATION_RULE_SELECT)
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return (data ?? []) as ConversationNotificationRule[]
+}
+
+export const saveConversationNotificationRule = async (
+  userId: string,
+  rule: ConversationNotificationRule
+) => {
+  const workingClient = await getWorkingClient()
+  const { data, error } = await workingClient
+    .from('notification_conversation_rules')
+    .upsert(
+      {
+        user_id: userId,
+        conversation_id: rule.conversation_id,
+        delivery_mode: rule.delivery_mode,
+        sound_id: rule.sound_id,
+        bypass_quiet_hours: rule.bypass_quiet_hours,
+      },
+      { onConflict: 'user_id,conversation_id' }
+    )
+    .select(CONVERSATION_RULE_SELECT)
+    .single()
+
+  if (error) throw error
+  return data as ConversationNotificationRule
+}
+
 export const getCurrentPushSubscription = async () => {
   const support = getPushSupportStatus()
   if (!support.supported) return null
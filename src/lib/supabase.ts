@@ -9,6 +9,8 @@ import { createStoredImageAsset, type MediaThumbnailProfile } from './mediaAsset
 import {
   CHAT_FILE_UPLOAD_RULE,
   CHAT_IMAGE_UPLOAD_RULE,
+  ENCRYPTED_ATTACHMENT_MIME_TYPE,
+  ENCRYPTED_ATTACHMENT_UPLOAD_RULE,
   sanitizeUploadFileName,
   validateUpload,
   VOICE_UPLOAD_RULE,
@@ -765,6 +767,33 @@ export const uploadChatFile = async (file: File) => {
   return data.publicUrl
 }
 
+/** Stores an already-encrypted attachment under the sender's folder. */
+export const uploadEncryptedChatAttachment = async (ciphertext: Blob) => {
+  const file = new File([ciphertext], 'encrypted.bin', { type: ENCRYPTED_ATTACHMENT_MIME_TYPE })
+  const contentType = validateUpload(file, ENCRYPTED_ATTACHMENT_UPLOAD_RULE)
+  const workingClient = await getWorkingClient()
+  const { data: { user } } = await workingClient.auth.getUser()
+  if (!user) throw new Error('Not authenticated')
+  const filePath = `${user.id}/${Date.now()}_encrypted.bin`
+  if (file.size > RESUMABLE_UPLOAD_THRESHOLD_BYTES) {
+    await uploadResumableStorageObject(
+      workingClient,
+      UPLOADS_BUCKET,
+      filePath,
+      file,
+      contentType
+    )
+  } else {
+    const { error } = await workingClient.storage.from(UPLOADS_BUCKET).upload(filePath, file, {
+      contentType,
+      cacheControl: '31536000',
+    })
+    if (error) throw error
+  }
+  const { data } = workingClient.storage.from(UPLOADS_BUCKET).getPublicUrl(filePath)
+  return data.publicUrl
+}
+
 export const uploadChatImageAsset = async (
   file: File,
   thumbnailProfile: MediaThumbnailProfile = 'chat'
@@ -907,7 +936,8 @@ export interface AuthenticatedUser extends User {
   email: string
 }
 
-export type ChatMessageType = 'text' | 'command' | 'audio' | 'image' | 'video' | 'file' | 'hype'
+/** `system` rows are server-written DM notices, such as a disappearing-message timer change. */
+export type ChatMessageType = 'text' | 'command' | 'audio' | 'image' | 'video' | 'file' | 'hype' | 'poll' | 'location' | 'system'
 
 export type HypeEventType = 'bell' | 'message'
 
@@ -1608,16 +1638,40 @@ export interface ArtBoardLink {
   updated_at: string
 }
 
+export type DMConversationKind = 'direct' | 'group'
+
 export interface DMConversation {
   id: string
   participants: string[]
   last_message_at: string
   created_at: string
+  kind?: DMConversationKind
   other_user?: User
+  title?: string | null
+  avatar_url?: string | null
+  created_by?: string | null
+  members?: User[]
   unread_count?: number
   last_message?: DMMessage
   is_blocked?: boolean
   blocked_by_me?: boolean
+  /** Disappearing-message timer; new messages expire this many seconds after they are sent. */
+  message_ttl_seconds?: number | null
+  /** Set once end-to-end encryption is turned on. It cannot be turned off. */
+  e2ee_enabled_at?: string | null
+}
+
+/**
+ * End-to-end encrypted message body. The content key is wrapped once per
+ * member device; the server only stores a placeholder in `content`.
+ */
+export interface EncryptedDMPayload {
+  v: 1
+  sender_key_id: string
+  sender_public_key: string
+  iv: string
+  ciphertext: string
+  keys: Record<string, string>
 }
 
 export interface DMMessage {
@@ -1640,6 +1694,8 @@ export interface DMMessage {
   read_by?: string[]
   reactions: Record<string, { count: number; users: string[] }>
   edited_at?: string
+  expires_at?: string | null
+  encrypted_payload?: EncryptedDMPayload | null
   created_at: string
   updated_at: string
   sender?: User
@@ -1662,6 +1718,21 @@ export interface ShadowRunnerLevelCompletionPayload {
   totalEnemies?: number | null
 }
 
+export type StatusActivityKind = 'watching' | 'playing' | 'listening'
+
+export interface UserCustomStatus {
+  user_id: string
+  emoji: string | null
+  status_text: string | null
+  expires_at: string | null
+  share_activity: boolean
+  activity_kind: StatusActivityKind | null
+  activity_label: string | null
+  activity_source: string | null
+  activity_expires_at: string | null
+  updated_at: string
+}
+
 export interface PresenceSnapshot {
   user_id: string
   username?: string | null
@@ -1672,6 +1743,7 @@ export interface PresenceSnapshot {
   presence_state: PresenceState
   is_active: boolean
   last_seen?: string | null
+  custom_status?: UserCustomStatus | null
 }
 
 export interface ActiveUserSnapshot {
@@ -1877,7 +1949,7 @@ export const fetchDMConversations = async () => {
   const rows = (data ?? []) as any[]
 
   const missingIds = rows
-    .filter(r => !r.other_user && r.other_user_id)
+    .filter(r => r.kind !== 'group' && !r.other_user && r.other_user_id)
     .map(r => r.other_user_id as string)
 
   let usersMap: Record<string, User> = {}
@@ -1917,16 +1989,41 @@ export const fetchDMConversations = async () => {
         display_name: row.other_user_display_name,
       })
 
+    if (row.kind === 'group') {
+      return {
+        id: row.id,
+        participants: row.participants,
+        last_message_at: row.last_message_at,
+        created_at: row.created_at,
+        kind: 'group',
+        title: row.title ?? null,
+        avatar_url: row.avatar_url ?? null,
+        created_by: row.created_by ?? null,
+        members: (Array.isArray(row.members) ? row.members : []).map((member: Record<string, unknown>) =>
+          pickPublicProfile(member) as unknown as User
+        ),
+        unread_count: row.unread_count,
+        last_message: lastMsg,
+        is_blocked: false,
+        blocked_by_me: false,
+        message_ttl_seconds: row.message_ttl_seconds ?? null,
+        e2ee_enabled_at: row.e2ee_enabled_at ?? null,
+      } as DMConversation
+    }
+
     return {
       id: row.id,
       participants: row.participants,
       last_message_at: row.last_message_at,
       created_at: row.created_at,
+      kind: 'direct',
       other_user: otherUser,
       unread_count: row.unread_count,
       last_message: lastMsg,
       is_blocked: row.is_blocked === true,
       blocked_by_me: row.blocked_by_me === true,
+      message_ttl_seconds: row.message_ttl_seconds ?? null,
+      e2ee_enabled_at: row.e2ee_enabled_at ?? null,
     } as DMConversation
   })
 }
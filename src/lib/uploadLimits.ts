@@ -107,6 +107,16 @@ export const CHAT_FILE_UPLOAD_RULE: UploadRule = {
   supportedTypesDescription: 'supported image, video, audio, text, PDF, Office, JSON, or ZIP file',
 }
 
+/** Attachments in end-to-end encrypted DMs are uploaded as opaque ciphertext. */
+export const ENCRYPTED_ATTACHMENT_MIME_TYPE = 'application/octet-stream'
+
+export const ENCRYPTED_ATTACHMENT_UPLOAD_RULE: UploadRule = {
+  maxBytes: CHAT_UPLOAD_MAX_BYTES,
+  mimeTypes: [ENCRYPTED_ATTACHMENT_MIME_TYPE],
+  label: 'Encrypted attachment',
+  supportedTypesDescription: 'encrypted file',
+}
+
 const EXTENSION_MIME_TYPES: Record<string, string> = {
   aac: 'audio/aac',
   avif: 'image/avif',
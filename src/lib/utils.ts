@@ -1,7 +1,6 @@
 import { clsx, type ClassValue } from 'clsx'
 import { twMerge } from 'tailwind-merge'
 import type { ChatMessage } from './supabase'
-import { summarizeConversation } from './ai'
 
 export function getReadableTextColor(hexColor: string) {
   if (!hexColor) return '#000'
@@ -99,49 +98,3 @@ export function shouldGroupMessage(current: ChatMessage, previous?: ChatMessage)
 
   return Math.abs(currentTime - previousTime) < FIVE_MINUTES
 }
-
-// Slash command processor
-export interface SlashCommand {
-  command: string
-  description: string
-  handler: (args: string, messages: ChatMessage[]) => string | Promise<string>
-}
-
-export const slashCommands: SlashCommand[] = [
-  {
-    command: '/shrug',
-    description: 'Send a shrug emoticon',
-    handler: () => '¯\\_(ツ)_/¯'
-  },
-  {
-    command: '/me',
-    description: 'Send an action message',
-    handler: (args: string) => `*${args}*`
-  },
-  {
-    command: '/giphy',
-    description: 'Search for a GIF',
-    handler: (args: string) => `🎬 *Searching for "${args}" GIF...*`
-  },
-  {
-    command: '/summary',
-    description: 'Summarize recent messages',
-    handler: async (_args: string, messages: ChatMessage[]) => {
-      return summarizeConversation(messages.slice(-20))
-    }
-  }
-]
-
-export async function processSlashCommand(input: string, messages: ChatMessage[]): Promise<string | null> {
-  const trimmed = input.trim()
-  if (!trimmed.startsWith('/')) return null
-
-  const [command, ...argsParts] = trimmed.split(' ')
-  const args = argsParts.join(' ')
-
-  const slashCommand = slashCommands.find(cmd => cmd.command === command)
-  if (!slashCommand) return null
-
-  return await slashCommand.handler(args, messages)
-}
-
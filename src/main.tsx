@@ -12,6 +12,7 @@ import { BlockedUsersProvider } from './hooks/useBlockedUsers';
 import { ComfortPreferencesProvider } from './hooks/useComfortPreferences';
 import { MEMBER_REPORTING_FEATURE_ENABLED, SHADO_LIVE_REAL_ENABLED } from './config/featureFlags';
 import { NativeAppBridge } from './components/native/NativeAppBridge';
+import { MessageReminderProvider } from './features/message-reminders/MessageReminderProvider';
 import { isNativeAppWebView } from './lib/nativeAppBridge';
 
 const REPORTING_RUNTIME_ENABLED = MEMBER_REPORTING_FEATURE_ENABLED || SHADO_LIVE_REAL_ENABLED;
@@ -32,19 +33,21 @@ createRoot(document.getElementById('root')!).render(
         <PresenceRoot>
           <ComfortPreferencesProvider>
             <ThemeProvider>
-              {REPORTING_RUNTIME_ENABLED && ModerationReportProvider ? (
-                <Suspense fallback={null}>
-                  <ModerationReportProvider>
-                    <ErrorBoundary>
-                      <App />
-                    </ErrorBoundary>
-                  </ModerationReportProvider>
-                </Suspense>
-              ) : (
-                <ErrorBoundary>
-                  <App />
-                </ErrorBoundary>
-              )}
+              <MessageReminderProvider>
+                {REPORTING_RUNTIME_ENABLED && ModerationReportProvider ? (
+                  <Suspense fallback={null}>
+                    <ModerationReportProvider>
+                      <ErrorBoundary>
+                        <App />
+                      </ErrorBoundary>
+                    </ModerationReportProvider>
+                  </Suspense>
+                ) : (
+                  <ErrorBoundary>
+                    <App />
+                  </ErrorBoundary>
+                )}
+              </MessageReminderProvider>
             </ThemeProvider>
           </ComfortPreferencesProvider>
         </PresenceRoot>
@@ -0,0 +1,60 @@
+export const KEYWORD_ALERT_LIMIT = 25
+export const KEYWORD_ALERT_MIN_LENGTH = 2
+export const KEYWORD_ALERT_MAX_LENGTH = 80
+
+const WORD_CHARACTER = '[\\p{L}\\p{N}_]'
+const patternCache = new Map<string, RegExp | null>()
+
+/** Collapses whitespace and case so "Launch  Day" and "launch day" are one alert. */
+export const normalizeKeywordAlertPhrase = (value: string) =>
+  value.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase()
+
+export const getKeywordAlertPhraseError = (value: string) => {
+  const phrase = normalizeKeywordAlertPhrase(value)
+  if (/\p{Cc}/u.test(phrase)) return 'Keyword alerts cannot contain control characters.'
+  if (phrase.length > KEYWORD_ALERT_MAX_LENGTH) {
+    return `Keep keyword alerts to ${KEYWORD_ALERT_MAX_LENGTH} characters or fewer.`
+  }
+  if (phrase.replace(/[\s*]/g, '').length < KEYWORD_ALERT_MIN_LENGTH) {
+    return `Use at least ${KEYWORD_ALERT_MIN_LENGTH} letters or numbers.`
+  }
+  // Only a trailing * per word: mid-word wildcards compile to nested
+  // unbounded runs that backtrack exponentially on long words.
+  if (/\*\S/.test(phrase)) return 'Use * only once, at the end of a word.'
+  return null
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Builds a whole-word, case-insensitive pattern. `*` matches the rest of a
+ * word ("deploy*" finds "deploying"), and a space matches any run of
+ * whitespace so a phrase still matches across a line break.
+ */
+const compileKeywordAlert = (phrase: string) => {
+  const normalized = normalizeKeywordAlertPhrase(phrase)
+  if (patternCache.has(normalized)) return patternCache.get(normalized) ?? null
+
+  let pattern: RegExp | null = null
+  if (!getKeywordAlertPhraseError(normalized)) {
+    const body = normalized
+      .split(' ')
+      .map(token => token.endsWith('*')
+        ? `${escapeRegExp(token.slice(0, -1))}${WORD_CHARACTER}*`
+        : escapeRegExp(token))
+      .join('\\s+')
+    pattern = new RegExp(`(?<!${WORD_CHARACTER})${body}(?!${WORD_CHARACTER})`, 'iu')
+  }
+  patternCache.set(normalized, pattern)
+  return pattern
+}
+
+/** Returns the first phrase that matches, in the member's list order. */
+export const findKeywordAlertMatch = (
+  content: string | null | undefined,
+  phrases: readonly string[]
+) => {
+  if (!content?.trim()) return null
+  const text = content.normalize('NFC')
+  return phrases.find(phrase => compileKeywordAlert(phrase)?.test(text) ?? false) ?? null
+}
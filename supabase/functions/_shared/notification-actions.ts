@@ -0,0 +1,139 @@
+export const NOTIFICATION_QUICK_ACTIONS = [
+  'reply',
+  'react',
+  'mute_conversation',
+] as const
+
+export type NotificationQuickAction = typeof NOTIFICATION_QUICK_ACTIONS[number]
+
+export const NOTIFICATION_QUICK_REACTION = '❤️'
+export const NOTIFICATION_REPLY_MAX_LENGTH = 2000
+// Lock-screen alerts can sit for a while; the token outlives the 90 second
+// delivery window and a night in the tray, but not a day-old alert.
+export const NOTIFICATION_ACTION_TOKEN_TTL_SECONDS = 12 * 60 * 60
+
+// Tokens are bound to the web push subscription or native installation that
+// received them, so removing that device stops its alerts from acting.
+export const NOTIFICATION_ACTION_TRANSPORTS = ['web_push', 'native'] as const
+
+export type NotificationActionTransport = typeof NOTIFICATION_ACTION_TRANSPORTS[number]
+
+export type NotificationActionClaims = {
+  userId: string
+  eventId: string
+  conversationId: string
+  messageId: string
+  transport: NotificationActionTransport
+  subscriptionId: string
+  expiresAt: number
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const MIN_SECRET_LENGTH = 32
+
+export const isNotificationQuickAction = (
+  value: unknown,
+): value is NotificationQuickAction => (
+  NOTIFICATION_QUICK_ACTIONS.includes(value as NotificationQuickAction)
+)
+
+/** Returns null when quick actions are not configured, which keeps alerts on open/mark-read. */
+export const getNotificationActionSecret = () => {
+  const runtime = globalThis as typeof globalThis & {
+    Deno?: { env?: { get?: (name: string) => string | undefined } }
+  }
+  const secret = runtime.Deno?.env?.get?.('NOTIFICATION_ACTION_SECRET')?.trim() ?? ''
+  return secret.length >= MIN_SECRET_LENGTH ? secret : null
+}
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/g, '')
+
+const base64UrlDecode = (value: string) => {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/')
+    .padEnd(Math.ceil(value.length / 4) * 4, '=')
+  return Uint8Array.from(atob(padded), character => character.charCodeAt(0))
+}
+
+const importSigningKey = (secret: string) =>
+  crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  )
+
+export const createNotificationActionToken = async (
+  claims: Omit<NotificationActionClaims, 'expiresAt'>,
+  secret: string,
+  now = Date.now(),
+) => {
+  const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify({
+    u: claims.userId,
+    e: claims.eventId,
+    c: claims.conversationId,
+    m: claims.messageId,
+    t: claims.transport,
+    s: claims.subscriptionId,
+    x: Math.floor(now / 1000) + NOTIFICATION_ACTION_TOKEN_TTL_SECONDS,
+  })))
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importSigningKey(secret),
+    new TextEncoder().encode(payload),
+  )
+  return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+/** Verifies the signature before reading any claim; returns null for every failure. */
+export const verifyNotificationActionToken = async (
+  token: unknown,
+  secret: string,
+  now = Date.now(),
+): Promise<NotificationActionClaims | null> => {
+  if (typeof token !== 'string' || token.length > 512) return null
+  const [payload, signature, extra] = token.split('.')
+  if (!payload || !signature || extra !== undefined) return null
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await importSigningKey(secret),
+      base64UrlDecode(signature),
+      new TextEncoder().encode(payload),
+    )
+    if (!valid) return null
+
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as Record<string, unknown>
+    const ids = [claims.u, claims.e, claims.c, claims.m, claims.s]
+    if (!ids.every(id => typeof id === 'string' && UUID_PATTERN.test(id))) return null
+    if (!NOTIFICATION_ACTION_TRANSPORTS.includes(claims.t as NotificationActionTransport)) return null
+    const expiresAt = Number(claims.x)
+    if (!Number.isFinite(expiresAt) || expiresAt * 1000 <= now) return null
+
+    return {
+      userId: claims.u as string,
+      eventId: claims.e as string,
+      conversationId: claims.c as string,
+      messageId: claims.m as string,
+      transport: claims.t as NotificationActionTransport,
+      subscriptionId: claims.s as string,
+      expiresAt,
+    }
+  } catch {
+    return null
+  }
+}
+
+export const normalizeNotificationReply = (value: unknown) => {
+  const text = typeof value === 'string' ? value.trim() : ''
+  return text && text.length <= NOTIFICATION_REPLY_MAX_LENGTH ? text : null
+}
+
+export const normalizeNotificationClientMessageId = (value: unknown) => (
+  typeof value === 'string' && /^[A-Za-z0-9:_-]{8,128}$/.test(value) ? value : null
+)
@@ -6,7 +6,13 @@ export type NotificationDeliveryPreferences = {
   quiet_hours_timezone?: string | null
 }
 
-export type GroupNotificationKind = 'mention' | 'reply' | 'group_message'
+export type GroupNotificationKind = 'mention' | 'reply' | 'keyword_alert' | 'group_message'
+
+export type ConversationNotificationRule = {
+  delivery_mode?: string | null
+  sound_id?: string | null
+  bypass_quiet_hours?: boolean | null
+}
 
 const parseTimeMinutes = (value: string | null | undefined) => {
   if (!value) return null
@@ -62,7 +68,8 @@ export const isQuietHoursActive = (
 
 export const getNotificationSuppressionReason = (
   preferences: NotificationDeliveryPreferences | null | undefined,
-  now = new Date()
+  now = new Date(),
+  options: { bypassQuietHours?: boolean } = {}
 ) => {
   if (!preferences) return 'Notification preferences are unavailable'
   if (preferences.notifications_enabled === false) return 'All notifications are muted'
@@ -74,10 +81,20 @@ export const getNotificationSuppressionReason = (
     }
   }
 
-  if (isQuietHoursActive(preferences, now)) return 'Quiet hours are active'
+  // VIP conversations skip quiet hours only; the master switch and snooze still win.
+  if (!options.bypassQuietHours && isQuietHoursActive(preferences, now)) return 'Quiet hours are active'
   return null
 }
 
+export const getConversationRuleSuppressionReason = (
+  rule: ConversationNotificationRule | null | undefined,
+  isMentioned: boolean
+) => (
+  rule?.delivery_mode === 'mentions_only' && !isMentioned
+    ? 'Conversation only notifies for mentions'
+    : null
+)
+
 export const extractMentionUsernames = (content: string | null | undefined) => {
   if (!content) return []
 
@@ -98,15 +115,20 @@ export const selectGroupNotificationKind = ({
   mentionEnabled,
   replyEnabled,
   groupEnabled,
+  keywordMatched = false,
+  keywordAlertsEnabled = false,
 }: {
   isMentioned: boolean
   isReplyTarget: boolean
   mentionEnabled: boolean
   replyEnabled: boolean
   groupEnabled: boolean
+  keywordMatched?: boolean
+  keywordAlertsEnabled?: boolean
 }): GroupNotificationKind | null => {
   if (isMentioned && mentionEnabled) return 'mention'
   if (isReplyTarget && replyEnabled) return 'reply'
+  if (keywordMatched && keywordAlertsEnabled) return 'keyword_alert'
   if (groupEnabled) return 'group_message'
   return null
 }
@@ -1,3 +1,5 @@
+import { isNotificationQuickAction } from './notification-actions.ts'
+
 export type NotificationPreviewMode = 'full' | 'sender_only' | 'private'
 
 export type NotificationEnvelopeV2Row = {
@@ -82,6 +84,13 @@ const BADGE_CATEGORIES = new Set([
   'games',
   'none',
 ])
+const ACTION_KEYS = new Set([
+  'open',
+  'mark_read',
+  'reply',
+  'react',
+  'mute_conversation',
+])
 const MAX_NOTIFICATION_MEDIA_URL_LENGTH = 2048
 const APPROVED_NOTIFICATION_APP_HOSTS = new Set([
   'shadochat.online',
@@ -245,6 +254,7 @@ export const buildNotificationDeliveryEnvelopeV2 = (
     soundId?: string | null
     eventType?: string | null
     entityId?: string | null
+    actionToken?: string | null
   },
 ) => {
   const isPrivate = options.previewMode === 'private'
@@ -279,9 +289,15 @@ export const buildNotificationDeliveryEnvelopeV2 = (
         : row.body,
     240,
   )
+  // Quick actions are only useful with a credential the lock screen can spend.
+  const actionToken = options.actionToken || null
   const actions = [...new Set(
-    row.action_keys.filter(action => action === 'open' || action === 'mark_read'),
-  )].slice(0, 2)
+    row.action_keys.filter(action => (
+      ACTION_KEYS.has(action) &&
+      (actionToken !== null || !isNotificationQuickAction(action))
+    )),
+  )].slice(0, 5)
+  const hasQuickActions = actions.some(isNotificationQuickAction)
 
   return {
     schemaVersion: 2,
@@ -318,5 +334,6 @@ export const buildNotificationDeliveryEnvelopeV2 = (
     autoRead: false,
     createdAt: row.created_at,
     expiresAt: row.expires_at,
+    ...(hasQuickActions && actionToken ? { actionToken } : {}),
   }
 }
@@ -0,0 +1,464 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { strToU8, zipSync, type Zippable } from 'https://esm.sh/fflate@0.8.2'
+import {
+  EdgeAuthenticationError,
+  EdgeRateLimitError,
+  authenticateEdgeUser,
+  consumeEdgeRateLimit,
+  createEdgeAdminClient,
+} from '../_shared/edge-guard.ts'
+
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void } | undefined
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const TAKEOUT_BUCKET = 'data-takeouts'
+const SHADOW_PIN_BUCKET = 'shadow-pin'
+const PAGE_SIZE = 1000
+const MAX_ROWS_PER_SECTION = 100_000
+const MAX_PIN_MEDIA_BYTES = 100 * 1024 * 1024
+const ARCHIVE_TTL_DAYS = 7
+const DOWNLOAD_URL_TTL_SECONDS = 10 * 60
+// A background run that has not finished by then was evicted with its worker.
+const STALE_PROCESSING_MINUTES = 15
+const TAKEOUTS_PER_DAY = 3
+// The member's own identity fields, including the private email and full name.
+const PROFILE_COLUMNS = [
+  'id',
+  'email',
+  'full_name',
+  'username',
+  'display_name',
+  'avatar_url',
+  'banner_url',
+  'status',
+  'status_message',
+  'color',
+  'chat_color',
+  'presence_visibility',
+  'dm_discoverable',
+  'last_active',
+  'created_at',
+  'updated_at',
+].join(', ')
+
+type AdminClient = ReturnType<typeof createEdgeAdminClient>
+type Row = Record<string, unknown>
+
+type TakeoutRow = {
+  id: string
+  user_id: string
+  status: 'processing' | 'ready' | 'failed' | 'expired'
+  storage_path: string | null
+  requested_at: string
+  expires_at: string | null
+}
+
+class TakeoutError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.status = status
+  }
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+  })
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+
+const toJsonFile = (value: unknown) => strToU8(`${JSON.stringify(value, null, 2)}\n`)
+
+const unique = (values: unknown[]) =>
+  Array.from(new Set(values.filter((value): value is string => typeof value === 'string' && value.length > 0)))
+
+const chunk = <T>(items: T[], size: number) => {
+  const groups: T[][] = []
+  for (let index = 0; index < items.length; index += size) groups.push(items.slice(index, index + size))
+  return groups
+}
+
+type PagedQuery = {
+  range: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message?: string } | null }>
+}
+
+const fetchAllRows = async (build: () => PagedQuery) => {
+  const rows: Row[] = []
+  while (rows.length < MAX_ROWS_PER_SECTION) {
+    const { data, error } = await build().range(rows.length, rows.length + PAGE_SIZE - 1)
+    if (error) throw new Error(error.message || 'Could not read takeout data')
+    const page = (data ?? []) as Row[]
+    rows.push(...page)
+    if (page.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+const fetchRowsIn = async (
+  admin: AdminClient,
+  table: string,
+  column: string,
+  ids: string[],
+  orderColumns = ['created_at', 'id'],
+) => {
+  const rows: Row[] = []
+  for (const batch of chunk(ids, 100)) {
+    rows.push(...await fetchAllRows(() => orderColumns.reduce(
+      (query, orderColumn) => query.order(orderColumn),
+      admin.from(table).select('*').in(column, batch),
+    )))
+  }
+  return rows
+}
+
+const fetchOwnRows = (admin: AdminClient, table: string, column: string, userId: string, order?: string) =>
+  fetchAllRows(() => {
+    const query = admin.from(table).select('*').eq(column, userId)
+    return order ? query.order(order) : query
+  })
+
+const fetchMemberDirectory = async (admin: AdminClient, userIds: string[]) => {
+  const directory: Record<string, { username: string | null; display_name: string | null }> = {}
+  for (const batch of chunk(userIds, 100)) {
+    const { data, error } = await admin.from('users').select('id, username, display_name').in('id', batch)
+    if (error) throw error
+    for (const user of (data ?? []) as Row[]) {
+      directory[String(user.id)] = {
+        username: typeof user.username === 'string' ? user.username : null,
+        display_name: typeof user.display_name === 'string' ? user.display_name : null,
+      }
+    }
+  }
+  return directory
+}
+
+const collectProfile = async (admin: AdminClient, userId: string) => {
+  const { data, error } = await admin
+    .from('users')
+    .select(PROFILE_COLUMNS)
+    .eq('id', userId)
+    .maybeSingle()
+  if (error) throw error
+  return { 'profile.json': toJsonFile(data ?? {}) }
+}
+
+// Either side of a block hides the other's DMs in the app, so the archive matches.
+const fetchBlockedCounterpartIds = async (admin: AdminClient, userId: string) => {
+  const blocks = await fetchAllRows(() => admin
+    .from('user_blocks')
+    .select('blocker_id, blocked_id')
+    .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`)
+    .order('blocker_id')
+    .order('blocked_id'))
+  return new Set(unique(blocks.map(row => (row.blocker_id === userId ? row.blocked_id : row.blocker_id))))
+}
+
+// Expired disappearing DMs are hidden in the app until the janitor deletes them.
+const isExpiredMessage = (message: Row, now: number) =>
+  typeof message.expires_at === 'string' && Date.parse(message.expires_at) <= now
+
+const collectDirectMessages = async (admin: AdminClient, userId: string) => {
+  const conversations = await fetchAllRows(() => admin
+    .from('dm_conversations')
+    .select('*')
+    .contains('participants', [userId])
+    .order('created_at')
+    .order('id'))
+  const now = Date.now()
+  const blockedIds = await fetchBlockedCounterpartIds(admin, userId)
+  const messages = (await fetchRowsIn(admin, 'dm_messages', 'conversation_id', unique(conversations.map(row => row.id))))
+    .filter(message => !isExpiredMessage(message, now))
+    .filter(message => message.sender_id === userId || !blockedIds.has(String(message.sender_id)))
+  const participants = unique(conversations.flatMap(row => Array.isArray(row.participants) ? row.participants : []))
+  const members = await fetchMemberDirectory(admin, participants)
+
+  return {
+    'direct-messages.json': toJsonFile({
+      members,
+      conversations: conversations.map(conversation => ({
+        ...conversation,
+        messages: messages.filter(message => message.conversation_id === conversation.id),
+      })),
+    }),
+  }
+}
+
+const collectGeneralChat = async (admin: AdminClient, userId: string) => ({
+  'general-chat-posts.json': toJsonFile(await fetchOwnRows(admin, 'messages', 'user_id', userId, 'created_at')),
+})
+
+const fileExtension = (path: string) => {
+  const match = /\.([a-z0-9]{1,8})$/i.exec(path)
+  return match ? match[1].toLowerCase() : 'bin'
+}
+
+const collectShadowPins = async (admin: AdminClient, userId: string) => {
+  const uploads = await fetchAllRows(() => admin
+    .from('shadow_pin_images')
+    .select('*')
+    .eq('creator_id', userId)
+    .is('deleted_at', null)
+    .order('created_at'))
+  const comments = await fetchOwnRows(admin, 'shadow_pin_comments', 'author_id', userId, 'created_at')
+  const files: Zippable = {}
+  const skipped: string[] = []
+  let mediaBytes = 0
+
+  for (const upload of uploads) {
+    const path = typeof upload.image_path === 'string' ? upload.image_path : ''
+    if (!path) continue
+    const { data, error } = await admin.storage.from(SHADOW_PIN_BUCKET).download(path)
+    if (error || !data || mediaBytes + data.size > MAX_PIN_MEDIA_BYTES) {
+      skipped.push(String(upload.id))
+      continue
+    }
+    mediaBytes += data.size
+    // Images are already compressed, so storing them avoids wasted CPU.
+    files[`shadow-pins/uploads/${upload.id}.${fileExtension(path)}`] = [new Uint8Array(await data.arrayBuffer()), { level: 0 }]
+  }
+
+  return {
+    ...files,
+    'shadow-pins/uploads.json': toJsonFile(uploads.map(upload => ({
+      ...upload,
+      archived_file: skipped.includes(String(upload.id)) || !upload.image_path
+        ? null
+        : `uploads/${upload.id}.${fileExtension(String(upload.image_path))}`,
+    }))),
+    'shadow-pins/comments.json': toJsonFile(comments),
+  }
+}
+
+const collectMessageLibrary = async (admin: AdminClient, userId: string) => ({
+  'message-library.json': toJsonFile({
+    collections: await fetchOwnRows(admin, 'message_collections', 'user_id', userId, 'sort_order'),
+    saved_messages: await fetchOwnRows(admin, 'saved_messages', 'user_id', userId, 'created_at'),
+  }),
+})
+
+const collectInnerCircles = async (admin: AdminClient, userId: string) => {
+  const circles = await fetchOwnRows(admin, 'inner_circles', 'owner_id', userId, 'created_at')
+  const members = await fetchRowsIn(admin, 'inner_circle_members', 'circle_id', unique(circles.map(row => row.id)), ['added_at', 'member_id'])
+  const directory = await fetchMemberDirectory(admin, unique(members.map(row => row.member_id)))
+  return {
+    'inner-circles.json': toJsonFile(circles.map(circle => ({
+      ...circle,
+      members: members
+        .filter(member => member.circle_id === circle.id)
+        .map(member => ({ ...member, ...directory[String(member.member_id)] })),
+    }))),
+  }
+}
+
+const collectGameStats = async (admin: AdminClient, userId: string) => ({
+  'game-stats.json': toJsonFile({
+    shadow_checkers: await fetchOwnRows(admin, 'shadow_checkers_stats', 'user_id', userId),
+    shadow_war: await fetchOwnRows(admin, 'shadow_war_stats', 'user_id', userId),
+    shadow_runner_levels: await fetchOwnRows(admin, 'shadow_runner_level_completions', 'user_id', userId, 'completed_at'),
+  }),
+})
+
+const collectNotificationPreferences = async (admin: AdminClient, userId: string) => ({
+  'notification-preferences.json': toJsonFile({
+    delivery: await fetchOwnRows(admin, 'notification_preferences', 'user_id', userId),
+    category_sounds: await fetchOwnRows(admin, 'notification_category_presentation_preferences', 'user_id', userId),
+    event_sounds: await fetchOwnRows(admin, 'notification_event_presentation_preferences', 'user_id', userId),
+    conversation_mutes: await fetchOwnRows(admin, 'notification_conversation_mutes', 'user_id', userId),
+    conversation_rules: await fetchOwnRows(admin, 'notification_conversation_rules', 'user_id', userId),
+    keyword_alerts: await fetchOwnRows(admin, 'notification_keyword_alerts', 'user_id', userId),
+  }),
+})
+
+const SECTIONS: Array<{ stage: string; collect: (admin: AdminClient, userId: string) => Promise<Zippable> }> = [
+  { stage: 'Profile', collect: collectProfile },
+  { stage: 'Direct messages', collect: collectDirectMessages },
+  { stage: 'General Chat posts', collect: collectGeneralChat },
+  { stage: 'Shadow Pins', collect: collectShadowPins },
+  { stage: 'Message library', collect: collectMessageLibrary },
+  { stage: 'Inner circles', collect: collectInnerCircles },
+  { stage: 'Game stats', collect: collectGameStats },
+  { stage: 'Notification preferences', collect: collectNotificationPreferences },
+]
+
+const README = [
+  'Shadow Chat data takeout',
+  '',
+  'Each JSON file mirrors the stored records for one area of the app:',
+  '  profile.json                  Your member profile',
+  '  direct-messages.json          DM conversations you are part of, with the messages you can see',
+  '  general-chat-posts.json       Messages you posted in General Chat',
+  '  shadow-pins/                  Your Shadow Pin uploads (with image files) and comments',
+  '  message-library.json          Saved message collections',
+  '  inner-circles.json            Inner circles you own and their members',
+  '  game-stats.json               Shadow Checkers, Shadow War, and Shadow Runner progress',
+  '  notification-preferences.json Notification delivery, sounds, and mutes',
+  '',
+].join('\n')
+
+const updateTakeout = async (admin: AdminClient, id: string, values: Row) => {
+  const { error } = await admin.from('data_takeout_exports').update(values).eq('id', id)
+  if (error) throw error
+}
+
+const removeArchive = async (admin: AdminClient, row: Pick<TakeoutRow, 'storage_path'>) => {
+  if (!row.storage_path) return
+  const { error } = await admin.storage.from(TAKEOUT_BUCKET).remove([row.storage_path])
+  if (error) console.warn('data-takeout archive cleanup failed', error.message)
+}
+
+const buildTakeout = async (admin: AdminClient, takeoutId: string, userId: string) => {
+  try {
+    const files: Zippable = { 'README.txt': strToU8(README) }
+    for (const [index, section] of SECTIONS.entries()) {
+      await updateTakeout(admin, takeoutId, {
+        stage: section.stage,
+        progress: Math.round((index / SECTIONS.length) * 90),
+      })
+      Object.assign(files, await section.collect(admin, userId))
+    }
+
+    await updateTakeout(admin, takeoutId, { stage: 'Packaging archive', progress: 92 })
+    const archive = zipSync(files, { level: 6 })
+    const storagePath = `${userId}/${takeoutId}.zip`
+    const { error: uploadError } = await admin.storage
+      .from(TAKEOUT_BUCKET)
+      .upload(storagePath, archive, { contentType: 'application/zip', upsert: true })
+    if (uploadError) throw uploadError
+
+    const completedAt = new Date()
+    await updateTakeout(admin, takeoutId, {
+      status: 'ready',
+      stage: null,
+      progress: 100,
+      storage_path: storagePath,
+      byte_size: archive.byteLength,
+      completed_at: completedAt.toISOString(),
+      expires_at: new Date(completedAt.getTime() + ARCHIVE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    })
+  } catch (error) {
+    console.error('data-takeout build failed', error)
+    await updateTakeout(admin, takeoutId, {
+      status: 'failed',
+      stage: null,
+      failure_reason: 'The archive could not be built. Try again in a few minutes.',
+    }).catch(() => undefined)
+  }
+}
+
+const listTakeouts = async (admin: AdminClient, userId: string) => {
+  const { data, error } = await admin
+    .from('data_takeout_exports')
+    .select('id, user_id, status, storage_path, requested_at, expires_at')
+    .eq('user_id', userId)
+    .order('requested_at', { ascending: false })
+  if (error) throw error
+  return (data ?? []) as TakeoutRow[]
+}
+
+/**
+ * Retires archives past their expiry and runs that were evicted mid-build, so
+ * the member can request a fresh takeout and stale zips do not linger.
+ */
+const retireStaleTakeouts = async (admin: AdminClient, rows: TakeoutRow[]) => {
+  const now = Date.now()
+  for (const row of rows) {
+    if (row.status === 'ready' && row.expires_at && Date.parse(row.expires_at) <= now) {
+      await removeArchive(admin, row)
+      await updateTakeout(admin, row.id, { status: 'expired', storage_path: null })
+      row.status = 'expired'
+    } else if (row.status === 'processing' && now - Date.parse(row.requested_at) > STALE_PROCESSING_MINUTES * 60 * 1000) {
+      await updateTakeout(admin, row.id, {
+        status: 'failed',
+        stage: null,
+        failure_reason: 'The archive took too long to build. Try again.',
+      })
+      row.status = 'failed'
+    }
+  }
+}
+
+const startTakeout = async (admin: AdminClient, userId: string) => {
+  const rows = await listTakeouts(admin, userId)
+  await retireStaleTakeouts(admin, rows)
+  const active = rows.find(row => row.status === 'processing')
+  if (active) return { id: active.id }
+
+  await consumeEdgeRateLimit(admin, {
+    userId,
+    scope: 'data-takeout:day',
+    windowSeconds: 24 * 60 * 60,
+    limit: TAKEOUTS_PER_DAY,
+    message: 'You have requested several takeouts today. Try again tomorrow.',
+  })
+
+  // Only the newest archive is kept; older ready zips are replaced by this run.
+  for (const row of rows.filter(entry => entry.status === 'ready')) {
+    await removeArchive(admin, row)
+    await updateTakeout(admin, row.id, { status: 'expired', storage_path: null })
+  }
+
+  const { data, error } = await admin
+    .from('data_takeout_exports')
+    .insert({ user_id: userId, stage: 'Queued' })
+    .select('id')
+    .single()
+  if (error?.code === '23505') throw new TakeoutError('A takeout is already being prepared.', 409)
+  if (error) throw error
+
+  const build = buildTakeout(admin, data.id, userId)
+  if (typeof EdgeRuntime !== 'undefined') EdgeRuntime.waitUntil(build)
+  else await build
+  return { id: data.id as string }
+}
+
+const createDownloadUrl = async (admin: AdminClient, userId: string, takeoutId: string) => {
+  const rows = await listTakeouts(admin, userId)
+  await retireStaleTakeouts(admin, rows)
+  const row = rows.find(entry => entry.id === takeoutId)
+  if (!row) throw new TakeoutError('Takeout not found.', 404)
+  if (row.status === 'expired') throw new TakeoutError('This takeout has expired. Request a new one.', 410)
+  if (row.status !== 'ready' || !row.storage_path) throw new TakeoutError('This takeout is not ready yet.', 409)
+
+  const { data, error } = await admin.storage
+    .from(TAKEOUT_BUCKET)
+    .createSignedUrl(row.storage_path, DOWNLOAD_URL_TTL_SECONDS, { download: `shadowchat-takeout-${row.requested_at.slice(0, 10)}.zip` })
+  if (error || !data?.signedUrl) throw new TakeoutError('The download link could not be created.', 500)
+  return { url: data.signedUrl, expiresInSeconds: DOWNLOAD_URL_TTL_SECONDS }
+}
+
+serve(async (req): Promise<Response> => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+  if (req.method !== 'POST') return json({ error: 'Method not allowed.' }, 405)
+
+  try {
+    const user = await authenticateEdgeUser(req)
+    const body = asRecord(await req.json().catch(() => null))
+    const admin = createEdgeAdminClient()
+
+    if (body.action === 'start') return json(await startTakeout(admin, user.id), 202)
+    if (body.action === 'download') {
+      const takeoutId = typeof body.takeoutId === 'string' ? body.takeoutId : ''
+      if (!/^[0-9a-f-]{36}$/i.test(takeoutId)) throw new TakeoutError('Takeout not found.', 404)
+      return json(await createDownloadUrl(admin, user.id, takeoutId))
+    }
+    throw new TakeoutError('Unknown takeout action.')
+  } catch (error) {
+    if (error instanceof EdgeRateLimitError) {
+      return json({ error: error.message }, error.status, { 'Retry-After': String(error.retryAfterSeconds) })
+    }
+    if (error instanceof EdgeAuthenticationError || error instanceof TakeoutError) {
+      return json({ error: error.message }, error.status)
+    }
+    console.error('data-takeout failed', error)
+    return json({ error: 'Your data takeout could not be completed.' }, 500)
+  }
+})
@@ -17,6 +17,7 @@ const USER_STORAGE_BUCKETS = [
   'shadow-pin',
   'shado-tv',
   'feedback-attachments',
+  'data-takeouts',
 ]
 
 type StorageListItem = {
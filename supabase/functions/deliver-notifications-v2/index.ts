@@ -7,7 +7,16 @@ import {
   type NotificationMediaV2,
   type NotificationPreviewMode,
 } from '../_shared/notification-envelope-v2.ts'
-import { getNotificationSuppressionReason } from '../_shared/notification-delivery.ts'
+import {
+  getConversationRuleSuppressionReason,
+  getNotificationSuppressionReason,
+  type ConversationNotificationRule,
+} from '../_shared/notification-delivery.ts'
+import {
+  createNotificationActionToken,
+  getNotificationActionSecret,
+  isNotificationQuickAction,
+} from '../_shared/notification-actions.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -73,6 +82,10 @@ type ExpoTransport = {
   getReceipts: (ids: string[], signal?: AbortSignal) => Promise<Response>
 }
 
+// Installations registered before quick actions reject envelopes that carry
+// them, so older app builds keep receiving open/mark-read only.
+export const QUICK_ACTION_INSTALLATION_SCHEMA_VERSION = 3
+
 const notificationEnvironments = new Set(['development', 'preview', 'production'])
 const permanentlyRejectedExpoErrors = new Set([
   'DeviceNotRegistered',
@@ -268,6 +281,9 @@ const categoryEnabled = (
   }
   if (eventType === 'mention') return preferences.mention_enabled !== false
   if (eventType === 'reply') return preferences.reply_enabled !== false
+  if (eventType === 'keyword_alert') {
+    return preferences.keyword_alerts_enabled !== false && preferences.general_chat_muted !== true
+  }
   if (eventType === 'reaction') return preferences.reaction_enabled !== false
   if (eventType === 'hype_event') return preferences.hype_enabled !== false
   if (eventType === 'shadow_pin_post') return preferences.shadow_pin_new_post_enabled !== false
@@ -279,6 +295,8 @@ const categoryEnabled = (
   }
   if (eventType === 'presence_active') return preferences.presence_push_enabled !== false
   if (eventType.startsWith('shado_live_')) return preferences.shado_live_in_app_enabled !== false
+  if (eventType === 'notification_digest') return true
+  if (eventType === 'message_reminder') return true
   return false
 }
 
@@ -351,7 +369,21 @@ export const toExpoMessage = (
     : envelope.soundId === 'system_default'
       ? 'default'
       : `${envelope.soundId}.wav`
-  const categoryId = envelope.category === 'dm' ||
+  const deliveryEnvelope = {
+    ...envelope,
+    type: eventType,
+    entityId,
+  }
+  if (installation.channel_schema_version < QUICK_ACTION_INSTALLATION_SCHEMA_VERSION) {
+    const legacyActions = envelope.actions.filter(action => !isNotificationQuickAction(action))
+    deliveryEnvelope.actions = legacyActions.length > 0 ? legacyActions : ['open']
+    delete deliveryEnvelope.actionToken
+  }
+  const hasQuickActions = Boolean(deliveryEnvelope.actionToken) &&
+    deliveryEnvelope.actions.some(isNotificationQuickAction)
+  const categoryId = hasQuickActions
+    ? 'shadowchat_dm'
+    : envelope.category === 'dm' ||
       envelope.category === 'general_chat' ||
       envelope.category === 'mentions_replies'
     ? 'shadowchat_message'
@@ -364,11 +396,6 @@ export const toExpoMessage = (
         ? 'shadowchat_social'
         : 'shadowchat_open'
 
-  const deliveryEnvelope = {
-    ...envelope,
-    type: eventType,
-    entityId,
-  }
   const richImage = envelope.privacy === 'full'
     ? envelope.media?.thumbnailUrl
     : null
@@ -436,6 +463,8 @@ export const toExpoMessage = (
   if (payloadBytes() > 3_800) {
     deliveryEnvelope.actor = null
     deliveryEnvelope.actions = ['open']
+    delete deliveryEnvelope.actionToken
+    if (installation.platform === 'ios') message.categoryId = 'shadowchat_open'
   }
   if (payloadBytes() > 3_800) {
     deliveryEnvelope.eventIds = [deliveryEnvelope.eventId]
@@ -456,11 +485,14 @@ export const toExpoMessage = (
 export const resolveNotificationSoundPreference = (
   eventSoundId: unknown,
   categorySoundId: unknown,
-) => typeof eventSoundId === 'string'
-  ? eventSoundId
-  : typeof categorySoundId === 'string'
-    ? categorySoundId
-    : null
+  conversationSoundId: unknown = null,
+) => typeof conversationSoundId === 'string'
+  ? conversationSoundId
+  : typeof eventSoundId === 'string'
+    ? eventSoundId
+    : typeof categorySoundId === 'string'
+      ? categorySoundId
+      : null
 
 const completeOutbox = async (
   supabase: ReturnType<typeof getAdminClient>,
@@ -515,7 +547,7 @@ const processClaim = async (
       .maybeSingle(),
     supabase
       .from('notification_events')
-      .select('id, type, entity_id, actor_id, conversation_id, read_at, resolved_at')
+      .select('id, type, entity_id, actor_id, conversation_id, payload, read_at, resolved_at')
       .eq('id', claim.event_id)
       .eq('user_id', claim.user_id)
       .maybeSingle(),
@@ -555,7 +587,36 @@ const processClaim = async (
   }
 
   const preferences = (preferencesResult.data ?? {}) as Record<string, unknown>
-  const suppression = getNotificationSuppressionReason(preferences)
+  let conversationRule: ConversationNotificationRule | null = null
+  let conversationEncrypted = false
+  if (event.type === 'dm_message' && event.conversation_id) {
+    const [ruleResult, conversationResult] = await Promise.all([
+      supabase
+        .from('notification_conversation_rules')
+        .select('delivery_mode, sound_id, bypass_quiet_hours')
+        .eq('user_id', claim.user_id)
+        .eq('conversation_id', event.conversation_id)
+        .maybeSingle(),
+      supabase
+        .from('dm_conversations')
+        .select('e2ee_enabled_at')
+        .eq('id', event.conversation_id)
+        .maybeSingle(),
+    ])
+    if (ruleResult.error) throw ruleResult.error
+    if (conversationResult.error) throw conversationResult.error
+    conversationRule = ruleResult.data as ConversationNotificationRule | null
+    conversationEncrypted = Boolean(conversationResult.data?.e2ee_enabled_at)
+  }
+  const eventPayload = event.payload && typeof event.payload === 'object'
+    ? event.payload as Record<string, unknown>
+    : {}
+  const suppression = getNotificationSuppressionReason(preferences, new Date(), {
+    bypassQuietHours: conversationRule?.bypass_quiet_hours === true,
+  }) || getConversationRuleSuppressionReason(
+    conversationRule,
+    eventPayload.mentioned === true,
+  )
   if (
     suppression ||
     !categoryEnabled(event.type, preferences)
@@ -685,21 +746,49 @@ const processClaim = async (
   if (eventSoundPreference.error) throw eventSoundPreference.error
   if (categorySoundPreference.error) throw categorySoundPreference.error
 
-  const previewMode = (
-    preferences.notification_preview_mode === 'sender_only' ||
-    preferences.notification_preview_mode === 'private'
-  )
-    ? preferences.notification_preview_mode as NotificationPreviewMode
-    : 'full'
-  const deliveryEnvelope = buildNotificationDeliveryEnvelopeV2(envelope, {
-    previewMode,
-    actor,
-    media: preferences.notification_media_enabled === false ? null : media,
-    soundId: resolveNotificationSoundPreference(
-      eventSoundPreference.data?.sound_id,
-      categorySoundPreference.data?.sound_id,
-    ),
-  })
+  // Encrypted DMs have no readable text server-side, and quick replies could not be sealed.
+  const previewMode: NotificationPreviewMode = conversationEncrypted
+    ? 'private'
+    : (
+      preferences.notification_preview_mode === 'sender_only' ||
+      preferences.notification_preview_mode === 'private'
+    )
+      ? preferences.notification_preview_mode as NotificationPreviewMode
+      : 'full'
+  const actionSecret = getNotificationActionSecret()
+  const actionClaims = actionSecret &&
+      !conversationEncrypted &&
+      event.type === 'dm_message' &&
+      event.conversation_id &&
+      event.entity_id &&
+      envelope.action_keys.some(isNotificationQuickAction)
+    ? {
+      userId: claim.user_id,
+      eventId: claim.event_id,
+      conversationId: event.conversation_id,
+      messageId: event.entity_id,
+    }
+    : null
+  // Action tokens are bound to the installation they are sent to, so each
+  // installation gets its own envelope.
+  const buildInstallationEnvelope = async (installationId: string) =>
+    buildNotificationDeliveryEnvelopeV2(envelope, {
+      previewMode,
+      actor,
+      media: preferences.notification_media_enabled === false || conversationEncrypted ? null : media,
+      soundId: resolveNotificationSoundPreference(
+        eventSoundPreference.data?.sound_id,
+        categorySoundPreference.data?.sound_id,
+        conversationRule?.sound_id,
+      ),
+      actionToken: actionSecret && actionClaims
+        ? await createNotificationActionToken({
+          ...actionClaims,
+          transport: 'native',
+          subscriptionId: installationId,
+        }, actionSecret)
+        : null,
+    })
   const installationById = new Map(eligibleInstallations.map(item => [item.id, item]))
   const initialTargetByInstallation = new Map(
     ((existingTargetData ?? []) as DeliveryTargetRow[])
@@ -836,17 +925,17 @@ const processClaim = async (
     return { delivered: false, cancelled: true }
   }
 
-  const messages = attemptTokens.map(token => {
+  const messages = await Promise.all(attemptTokens.map(async token => {
     const installation = installationById.get(token.installation_id)!
     return toExpoMessage(
       token,
       installation,
-      deliveryEnvelope,
+      await buildInstallationEnvelope(token.installation_id),
       event.type,
       event.entity_id,
       badge,
     )
-  })
+  }))
   const controller = new AbortController()
   const timeout = setTimeout(() => controller.abort(), 8_000)
   let response: Response
@@ -6,6 +6,7 @@ import {
   getNotificationDeliveryEnvironment,
   handleNotificationDeliveryRequest,
   isNativeInstallationForeground,
+  QUICK_ACTION_INSTALLATION_SCHEMA_VERSION,
   resolveNotificationSoundPreference,
   shouldAttemptExpoTarget,
   toExpoMessage,
@@ -209,6 +210,77 @@ Deno.test('Android delivery is data-only while iOS invokes the rich notification
   assert.equal(ios.collapseId, envelope.eventId)
 })
 
+Deno.test('DM quick actions reach current installations and fall back for older builds', () => {
+  const envelope = {
+    schemaVersion: 2 as const,
+    eventId: '11111111-1111-4111-8111-111111111111',
+    eventIds: ['11111111-1111-4111-8111-111111111111'],
+    type: 'dm_message',
+    category: 'dm',
+    entityId: '22222222-2222-4222-8222-222222222222',
+    route: '/?view=dms',
+    groupKey: 'dm:22222222-2222-4222-8222-222222222222',
+    priority: 'high' as const,
+    privacy: 'full' as const,
+    actor: null,
+    content: {
+      eyebrow: 'Direct message',
+      title: 'JJ',
+      body: 'Test message',
+      privateTitle: 'New ShadowChat notification',
+      privateBody: 'Open ShadowChat to view it.',
+    },
+    media: null,
+    actions: ['open', 'mark_read', 'reply', 'react', 'mute_conversation'],
+    soundId: 'shadow_whisper',
+    androidChannelKey: 'messages_v1',
+    badgeCategory: 'dm',
+    autoRead: false,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    actionToken: 'payload.signature',
+  }
+  const token = {
+    id: 'token',
+    installation_id: 'installation',
+    provider: 'expo' as const,
+    token: 'ExponentPushToken[test]',
+    environment: 'preview',
+  }
+  const installation = {
+    id: 'installation',
+    platform: 'ios' as const,
+    environment: 'preview',
+    foreground_until: null,
+  }
+
+  const current = toExpoMessage(
+    token,
+    { ...installation, channel_schema_version: QUICK_ACTION_INSTALLATION_SCHEMA_VERSION },
+    envelope,
+    'dm_message',
+    envelope.entityId,
+    1,
+  )
+  const currentEnvelope = (current.data as Record<string, Record<string, unknown>>).envelopeV2
+  assert.equal(current.categoryId, 'shadowchat_dm')
+  assert.deepEqual(currentEnvelope.actions, envelope.actions)
+  assert.equal(currentEnvelope.actionToken, envelope.actionToken)
+
+  const legacy = toExpoMessage(
+    token,
+    { ...installation, channel_schema_version: 2 },
+    envelope,
+    'dm_message',
+    envelope.entityId,
+    1,
+  )
+  const legacyEnvelope = (legacy.data as Record<string, Record<string, unknown>>).envelopeV2
+  assert.equal(legacy.categoryId, 'shadowchat_message')
+  assert.deepEqual(legacyEnvelope.actions, ['open', 'mark_read'])
+  assert.equal('actionToken' in legacyEnvelope, false)
+})
+
 Deno.test('iOS ShadowPin delivery carries an explicit rich image and actor envelope', () => {
   const envelope = {
     schemaVersion: 2 as const,
@@ -287,6 +359,17 @@ Deno.test('event sound overrides category sound and category remains the fallbac
   assert.equal(resolveNotificationSoundPreference(null, null), null)
 })
 
+Deno.test('a conversation rule sound overrides event and category sounds', () => {
+  assert.equal(
+    resolveNotificationSoundPreference('gold_signal', 'low_glass', 'war_drum'),
+    'war_drum',
+  )
+  assert.equal(
+    resolveNotificationSoundPreference('gold_signal', 'low_glass', null),
+    'gold_signal',
+  )
+})
+
 Deno.test('oversized Android data is trimmed below the provider payload limit', () => {
   const longText = 'x'.repeat(6_000)
   const envelope = {
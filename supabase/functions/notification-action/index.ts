@@ -0,0 +1,217 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import {
+  EdgeRateLimitError,
+  consumeEdgeRateLimit,
+  createEdgeAdminClient,
+} from '../_shared/edge-guard.ts'
+import { triggerPushDispatch } from '../_shared/bridge.ts'
+import {
+  NOTIFICATION_QUICK_REACTION,
+  type NotificationActionClaims,
+  getNotificationActionSecret,
+  normalizeNotificationClientMessageId,
+  normalizeNotificationReply,
+  verifyNotificationActionToken,
+} from '../_shared/notification-actions.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const ACTIONS_PER_MINUTE = 30
+const ACTIONS = ['reply', 'react', 'mute_conversation', 'mark_read'] as const
+
+type NotificationAction = typeof ACTIONS[number]
+type AdminClient = ReturnType<typeof createEdgeAdminClient>
+
+class NotificationActionError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.status = status
+  }
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+  })
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+
+// Turning push off deletes the web subscription and an account switch revokes
+// the native installation; either one retires the tokens left in that tray.
+const assertSubscriptionActive = async (admin: AdminClient, claims: NotificationActionClaims) => {
+  const { data, error } = claims.transport === 'web_push'
+    ? await admin
+      .from('push_subscriptions')
+      .select('id')
+      .eq('id', claims.subscriptionId)
+      .eq('user_id', claims.userId)
+      .eq('enabled', true)
+      .maybeSingle()
+    : await admin
+      .from('notification_installations')
+      .select('id')
+      .eq('id', claims.subscriptionId)
+      .eq('user_id', claims.userId)
+      .is('revoked_at', null)
+      .maybeSingle()
+  if (error) throw error
+  if (!data) throw new NotificationActionError('This notification has expired.', 401)
+}
+
+const markConversationRead = async (admin: AdminClient, claims: NotificationActionClaims) => {
+  const { error } = await admin.rpc('bridge_mark_dm_messages_read', {
+    p_conversation_id: claims.conversationId,
+    p_reader_user_id: claims.userId,
+  })
+  if (error) throw error
+}
+
+const DM_REPLY_SELECT = 'id, conversation_id, sender_id, client_message_id, created_at'
+
+const sendReply = async (
+  admin: AdminClient,
+  claims: NotificationActionClaims,
+  body: Record<string, unknown>,
+  encrypted: boolean,
+) => {
+  // Encrypted conversations only accept messages sealed on a member device.
+  if (encrypted) {
+    throw new NotificationActionError('This conversation is end-to-end encrypted. Open ShadowChat to reply.', 409)
+  }
+  const content = normalizeNotificationReply(body.text)
+  if (!content) throw new NotificationActionError('Write a reply before sending.')
+  const clientMessageId = normalizeNotificationClientMessageId(body.clientMessageId)
+  if (!clientMessageId) throw new NotificationActionError('A client message id is required.')
+
+  const { data: inserted, error } = await admin
+    .from('dm_messages')
+    .insert({
+      conversation_id: claims.conversationId,
+      sender_id: claims.userId,
+      content,
+      message_type: 'text',
+      client_message_id: clientMessageId,
+    })
+    .select(DM_REPLY_SELECT)
+    .single()
+
+  // A lock-screen retry reuses its client message id; answer with the first copy.
+  if (error?.code === '23505') {
+    const { data: existing, error: existingError } = await admin
+      .from('dm_messages')
+      .select(DM_REPLY_SELECT)
+      .eq('sender_id', claims.userId)
+      .eq('client_message_id', clientMessageId)
+      .single()
+    if (existingError) throw existingError
+    if (existing.conversation_id !== claims.conversationId) {
+      throw new NotificationActionError('That reply id is already in use.', 409)
+    }
+    await markConversationRead(admin, claims)
+    return { message: existing, replayed: true }
+  }
+  if (error?.code === '42501' || error?.code === 'P0001') {
+    throw new NotificationActionError('You can no longer reply in this conversation.', 403)
+  }
+  if (error) throw error
+
+  await triggerPushDispatch('dm_message', inserted.id, claims.userId)
+  await markConversationRead(admin, claims)
+  return { message: inserted, replayed: false }
+}
+
+const addReaction = async (admin: AdminClient, claims: NotificationActionClaims) => {
+  const { data, error } = await admin.rpc('notification_action_react_to_dm_message', {
+    target_message_id: claims.messageId,
+    reacting_user_id: claims.userId,
+    reaction_emoji: NOTIFICATION_QUICK_REACTION,
+  })
+  if (error?.code === 'P0002') throw new NotificationActionError('That message is no longer available.', 404)
+  if (error?.code === '42501' || error?.code === 'P0001') {
+    throw new NotificationActionError('You can no longer react to this message.', 403)
+  }
+  if (error) throw error
+  await markConversationRead(admin, claims)
+  return { emoji: NOTIFICATION_QUICK_REACTION, added: data === true }
+}
+
+const muteConversation = async (admin: AdminClient, claims: NotificationActionClaims) => {
+  const { error } = await admin
+    .from('notification_conversation_mutes')
+    .upsert({
+      user_id: claims.userId,
+      conversation_id: claims.conversationId,
+      muted_until: null,
+    }, { onConflict: 'user_id,conversation_id' })
+  if (error) throw error
+  await markConversationRead(admin, claims)
+  return { muted: true }
+}
+
+const markRead = async (admin: AdminClient, claims: NotificationActionClaims) => {
+  await markConversationRead(admin, claims)
+  return { read: true }
+}
+
+serve(async (req): Promise<Response> => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+  if (req.method !== 'POST') return json({ error: 'Method not allowed.' }, 405)
+
+  try {
+    const secret = getNotificationActionSecret()
+    if (!secret) return json({ error: 'Notification actions are not configured.' }, 503)
+
+    // The signed token is the credential: lock-screen actions run without a session.
+    const body = asRecord(await req.json().catch(() => null))
+    const claims = await verifyNotificationActionToken(body.token, secret)
+    if (!claims) throw new NotificationActionError('This notification has expired.', 401)
+    const action = body.action as NotificationAction
+    if (!ACTIONS.includes(action)) throw new NotificationActionError('Unknown notification action.')
+
+    const admin = createEdgeAdminClient()
+    await consumeEdgeRateLimit(admin, {
+      userId: claims.userId,
+      scope: 'notification-action:minute',
+      windowSeconds: 60,
+      limit: ACTIONS_PER_MINUTE,
+      message: 'Too many notification actions. Wait a moment and try again.',
+    })
+    await assertSubscriptionActive(admin, claims)
+
+    const { data: conversation, error: conversationError } = await admin
+      .from('dm_conversations')
+      .select('id, participants, e2ee_enabled_at')
+      .eq('id', claims.conversationId)
+      .maybeSingle()
+    if (conversationError) throw conversationError
+    if (!conversation || !(conversation.participants as string[]).includes(claims.userId)) {
+      throw new NotificationActionError('You are no longer in this conversation.', 403)
+    }
+
+    const result = action === 'reply'
+      ? await sendReply(admin, claims, body, Boolean(conversation.e2ee_enabled_at))
+      : action === 'react'
+        ? await addReaction(admin, claims)
+        : action === 'mute_conversation'
+          ? await muteConversation(admin, claims)
+          : await markRead(admin, claims)
+    return json({ ok: true, action, conversationId: claims.conversationId, ...result })
+  } catch (error) {
+    if (error instanceof EdgeRateLimitError) {
+      return json({ error: error.message }, error.status, { 'Retry-After': String(error.retryAfterSeconds) })
+    }
+    if (error instanceof NotificationActionError) {
+      return json({ error: error.message }, error.status)
+    }
+    console.error('notification-action failed', error)
+    return json({ error: 'This notification action could not be completed.' }, 500)
+  }
+})
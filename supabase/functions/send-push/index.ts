@@ -28,10 +28,19 @@ import {
 } from '../_shared/public-profile.ts'
 import {
   extractMentionUsernames,
+  getConversationRuleSuppressionReason,
   getNotificationSuppressionReason,
   selectGroupNotificationKind,
+  type ConversationNotificationRule,
   type GroupNotificationKind,
 } from '../_shared/notification-delivery.ts'
+import { findKeywordAlertMatch } from '../_shared/keyword-alerts.ts'
+import {
+  NOTIFICATION_QUICK_ACTIONS,
+  type NotificationActionClaims,
+  createNotificationActionToken,
+  getNotificationActionSecret,
+} from '../_shared/notification-actions.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -78,6 +87,7 @@ type NotificationPrefs = {
   presence_in_app_enabled?: boolean
   checkers_turn_enabled?: boolean
   connection_notifications_enabled?: boolean
+  keyword_alerts_enabled?: boolean
   general_chat_muted: boolean
   quiet_hours_start: string | null
   quiet_hours_end: string | null
@@ -110,6 +120,7 @@ type PresenceRecipientClaim = {
 type NotificationEventRow = {
   id: string
   sent_at: string | null
+  digest_batch_id: string | null
 }
 
 type BatchedNotificationEventRow = NotificationEventRow & {
@@ -159,6 +170,9 @@ const PUSH_PROVIDER_TIMEOUT_MS = 8_000
 const PUSH_FANOUT_CONCURRENCY = 3
 const PUSH_RECOVERY_CONCURRENCY = 2
 const PUSH_RECOVERY_BATCH_SIZE = 5
+const NOTIFICATION_DIGEST_FLUSH_SIZE = 50
+const MESSAGE_REMINDER_BATCH_SIZE = 50
+const NOTIFICATION_DIGEST_HELD_REASON = 'Held for notification digest'
 const SAFE_PUSH_ENDPOINT_OPTIONS = {
   credentialMessage: 'Push endpoint credentials are not allowed.',
   invalidSchemeMessage: 'Only https push endpoints are supported.',
@@ -342,6 +356,7 @@ const NOTIFICATION_PREFERENCE_SELECT = [
   'presence_in_app_enabled',
   'checkers_turn_enabled',
   'connection_notifications_enabled',
+  'keyword_alerts_enabled',
   'general_chat_muted',
   'quiet_hours_start',
   'quiet_hours_end',
@@ -519,9 +534,11 @@ const getNotificationPreferences = async (
 
 const getDeliverySuppressionReason = (
   preferences: NotificationPrefs | null | undefined,
-  options: { generalChat?: boolean } = {}
+  options: { generalChat?: boolean; bypassQuietHours?: boolean } = {}
 ) => {
-  const reason = getNotificationSuppressionReason(preferences)
+  const reason = getNotificationSuppressionReason(preferences, new Date(), {
+    bypassQuietHours: options.bypassQuietHours,
+  })
   if (reason) return reason
   if (options.generalChat && preferences?.general_chat_muted) return 'General Chat is muted'
   return null
@@ -545,6 +562,22 @@ const isConversationMuted = async (
   return new Date(data.muted_until).getTime() > Date.now()
 }
 
+const getConversationNotificationRule = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  userId: string,
+  conversationId: string
+) => {
+  const { data, error } = await supabase
+    .from('notification_conversation_rules')
+    .select('delivery_mode, sound_id, bypass_quiet_hours')
+    .eq('user_id', userId)
+    .eq('conversation_id', conversationId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as ConversationNotificationRule | null
+}
+
 const getBlockedCounterpartIds = async (
   supabase: ReturnType<typeof getSupabaseAdmin>,
   userId: string
@@ -581,6 +614,28 @@ const getUnreadBadgeCount = async (
   return Number.isFinite(count) ? Math.min(99, Math.max(0, Math.floor(count))) : 0
 }
 
+// The service worker spends this token at notification-action, so the web
+// alert can reply, react, or mute without opening a window or a session.
+// Each subscription gets its own token, bound to that subscription's id.
+const getDmQuickActionData = async (
+  claims: Omit<NotificationActionClaims, 'transport' | 'subscriptionId' | 'expiresAt'>,
+  subscription: Pick<StoredSubscription, 'id'>
+) => {
+  const secret = getNotificationActionSecret()
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  if (!secret || !supabaseUrl) return {}
+
+  return {
+    actions: NOTIFICATION_QUICK_ACTIONS,
+    actionToken: await createNotificationActionToken({
+      ...claims,
+      transport: 'web_push',
+      subscriptionId: subscription.id,
+    }, secret),
+    actionEndpoint: `${supabaseUrl.replace(/\/+$/, '')}/functions/v1/notification-action`,
+  }
+}
+
 const upsertNotificationEvent = async (
   supabase: ReturnType<typeof getSupabaseAdmin>,
   values: Record<string, unknown>,
@@ -595,7 +650,7 @@ const upsertNotificationEvent = async (
       },
       { onConflict: 'dedupe_key' }
     )
-    .select('id, sent_at')
+    .select('id, sent_at, digest_batch_id')
     .single()
 
   if (error) {
@@ -620,7 +675,7 @@ const upsertNotificationEvents = async (
       })),
       { onConflict: 'dedupe_key' }
     )
-    .select('id, sent_at, dedupe_key')
+    .select('id, sent_at, digest_batch_id, dedupe_key')
 
   if (error) {
     throw error
@@ -631,6 +686,23 @@ const upsertNotificationEvents = async (
   )
 }
 
+// Presence recipients are claimed in SQL, so their digest hold is looked up here.
+const getDigestHeldEventIds = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  eventIds: string[]
+) => {
+  if (!eventIds.length) return new Set<string>()
+
+  const { data, error } = await supabase
+    .from('notification_events')
+    .select('id')
+    .in('id', eventIds)
+    .not('digest_batch_id', 'is', null)
+
+  if (error) throw error
+  return new Set(((data ?? []) as Array<{ id: string }>).map(event => event.id))
+}
+
 const cancelNotificationDeliveryJob = async (
   supabase: ReturnType<typeof getSupabaseAdmin>,
   notificationEventId: string,
@@ -674,7 +746,7 @@ const deliverPushToSubscriptions = async (
   supabase: ReturnType<typeof getSupabaseAdmin>,
   vapid: VapidKeys,
   subscriptions: StoredSubscription[],
-  message: PushMessage,
+  message: PushMessage | ((subscription: StoredSubscription) => Promise<PushMessage>),
   options: { retryAttempts?: number; notificationEventId?: string } = {}
 ): Promise<PushDeliveryResult> => {
   let deliveredSubscriptionIds = new Set<string>()
@@ -724,9 +796,12 @@ const deliverPushToSubscriptions = async (
         }
       }
 
+      const subscriptionMessage = typeof message === 'function'
+        ? await message(subscriptionRow)
+        : message
       let payload: Awaited<ReturnType<typeof buildPushPayload>>
       try {
-        payload = await buildPushPayload(message, subscription, vapid)
+        payload = await buildPushPayload(subscriptionMessage, subscription, vapid)
       } catch (error) {
         return {
           id: subscriptionRow.id,
@@ -912,7 +987,7 @@ const sendDmPush = async (
 
   const { data: conversation, error: conversationError } = await supabase
     .from('dm_conversations')
-    .select('id, participants')
+    .select('id, participants, kind, title, e2ee_enabled_at')
     .eq('id', dmMessage.conversation_id)
     .single()
 
@@ -920,39 +995,60 @@ const sendDmPush = async (
     return json({ error: 'Conversation not found' }, 404)
   }
 
-  const recipientId = (conversation.participants as string[]).find(
+  const recipientIds = (conversation.participants as string[]).filter(
     (participantId) => participantId !== authUserId
   )
 
-  if (!recipientId) {
+  if (!recipientIds.length) {
     return json({ skipped: true, reason: 'No recipient found' })
   }
 
   const sender = getActor(dmMessage.sender)
   const senderLabel = getActorLabel(sender)
   const preview = getMessagePreview(dmMessage)
+  const isGroup = conversation.kind === 'group'
+  // Encrypted conversations only ever show a private alert; the server has no text to preview.
+  const isEncrypted = Boolean(conversation.e2ee_enabled_at)
+  // Group alerts are titled by the group so members can tell threads apart.
+  const title = isEncrypted
+    ? 'ShadowChat'
+    : isGroup && conversation.title ? String(conversation.title) : senderLabel
+  const body = isEncrypted
+    ? 'New encrypted message'
+    : isGroup ? `${senderLabel}: ${preview}` : preview
   const route = `/?view=dms&conversation=${dmMessage.conversation_id}&message=${dmMessage.id}`
-  let delivery: Record<string, unknown>
+  const blockedCounterpartIds = await getBlockedCounterpartIds(supabase, authUserId)
+  const mentionedUserIds = await resolveMentionedUserIds(supabase, dmMessage.content)
 
-  const preferences = await getNotificationPreferences(supabase, recipientId)
-  const suppressionReason = getDeliverySuppressionReason(preferences)
-  const blockedRelationship = (await getBlockedCounterpartIds(supabase, authUserId)).has(recipientId)
-  const conversationMuted = await isConversationMuted(
-    supabase,
-    recipientId,
-    dmMessage.conversation_id
-  )
+  const deliverToRecipient = async (recipientId: string): Promise<Record<string, unknown>> => {
+    const preferences = await getNotificationPreferences(supabase, recipientId)
+    const rule = await getConversationNotificationRule(
+      supabase,
+      recipientId,
+      dmMessage.conversation_id
+    )
+    const mentioned = mentionedUserIds.has(recipientId)
+    const suppressionReason = getDeliverySuppressionReason(preferences, {
+      bypassQuietHours: rule?.bypass_quiet_hours === true,
+    }) || getConversationRuleSuppressionReason(rule, mentioned)
+    const blockedRelationship = blockedCounterpartIds.has(recipientId)
+    const conversationMuted = await isConversationMuted(
+      supabase,
+      recipientId,
+      dmMessage.conversation_id
+    )
 
-  if (blockedRelationship || !preferences?.dm_enabled || suppressionReason || conversationMuted) {
-    delivery = {
-      skipped: true,
-      reason: blockedRelationship
-        ? 'Blocked relationship suppresses notification'
-        : !preferences?.dm_enabled
-        ? 'Recipient disabled direct message notifications'
-        : suppressionReason || 'Recipient muted this conversation',
+    if (blockedRelationship || !preferences?.dm_enabled || suppressionReason || conversationMuted) {
+      return {
+        skipped: true,
+        reason: blockedRelationship
+          ? 'Blocked relationship suppresses notification'
+          : !preferences?.dm_enabled
+          ? 'Recipient disabled direct message notifications'
+          : suppressionReason || 'Recipient muted this conversation',
+      }
     }
-  } else {
+
     const dedupeKey = `dm:${dmMessage.id}:${recipientId}`
     const eventRecord = await upsertNotificationEvent(supabase, {
       user_id: recipientId,
@@ -961,66 +1057,92 @@ const sendDmPush = async (
       conversation_id: dmMessage.conversation_id,
       dm_message_id: dmMessage.id,
       payload: {
-        title: senderLabel,
-        body: preview,
+        title,
+        body,
         route,
         sender_id: authUserId,
         actor: sender,
+        mentioned,
       },
     }, dedupeKey)
 
     if (eventRecord.sent_at) {
-      delivery = { skipped: true, reason: 'Notification already sent' }
-    } else {
-      const subscriptions = await getActiveSubscriptions(supabase, recipientId)
-      if (!subscriptions.length) {
-        await cancelNotificationDeliveryJob(
-          supabase,
-          eventRecord.id,
-          'Recipient has no active push subscriptions'
-        )
-        delivery = { skipped: true, reason: 'Recipient has no active push subscriptions' }
-      } else {
-        const badgeCount = await getUnreadBadgeCount(supabase, recipientId)
-        const pushMessage: PushMessage = {
-          data: JSON.stringify({
-            title: senderLabel,
-            body: preview,
-            tag: `dm:${dmMessage.conversation_id}`,
-            badgeCount,
-            unreadCount: badgeCount,
-            data: {
-              url: route,
-              route,
-              type: 'dm_message',
-              conversationId: dmMessage.conversation_id,
-              messageId: dmMessage.id,
-              senderId: authUserId,
-              badgeCount,
-              unreadCount: badgeCount,
-            },
-          }),
-          options: {
-            ttl: 300,
-            urgency: 'high',
-          },
-        }
+      return { skipped: true, reason: 'Notification already sent' }
+    }
 
-        delivery = await deliverPushToSubscriptions(
-          supabase,
-          vapid,
-          subscriptions,
-          pushMessage,
-          { notificationEventId: eventRecord.id }
-        )
+    const subscriptions = await getActiveSubscriptions(supabase, recipientId)
+    if (!subscriptions.length) {
+      await cancelNotificationDeliveryJob(
+        supabase,
+        eventRecord.id,
+        'Recipient has no active push subscriptions'
+      )
+      return { skipped: true, reason: 'Recipient has no active push subscriptions' }
+    }
 
-        if (Number(delivery.deliveredCount ?? 0) > 0) {
-          await supabase
-            .from('notification_events')
-            .update({ sent_at: new Date().toISOString() })
-            .eq('id', eventRecord.id)
-        }
-      }
+    const badgeCount = await getUnreadBadgeCount(supabase, recipientId)
+    const quickActionClaims = {
+      userId: recipientId,
+      eventId: eventRecord.id,
+      conversationId: dmMessage.conversation_id,
+      messageId: dmMessage.id,
+    }
+    const buildPushMessage = async (subscription: StoredSubscription): Promise<PushMessage> => ({
+      data: JSON.stringify({
+        title,
+        body,
+        tag: `dm:${dmMessage.conversation_id}`,
+        badgeCount,
+        unreadCount: badgeCount,
+        data: {
+          url: route,
+          route,
+          type: 'dm_message',
+          conversationId: dmMessage.conversation_id,
+          messageId: dmMessage.id,
+          senderId: authUserId,
+          badgeCount,
+          unreadCount: badgeCount,
+          ...(rule?.sound_id ? { soundId: rule.sound_id } : {}),
+          ...(isEncrypted ? {} : await getDmQuickActionData(quickActionClaims, subscription)),
+        },
+      }),
+      options: {
+        ttl: 300,
+        urgency: 'high',
+      },
+    })
+
+    const recipientDelivery = await deliverPushToSubscriptions(
+      supabase,
+      vapid,
+      subscriptions,
+      buildPushMessage,
+      { notificationEventId: eventRecord.id }
+    )
+
+    if (Number(recipientDelivery.deliveredCount ?? 0) > 0) {
+      await supabase
+        .from('notification_events')
+        .update({ sent_at: new Date().toISOString() })
+        .eq('id', eventRecord.id)
+    }
+
+    return recipientDelivery
+  }
+
+  let delivery: Record<string, unknown>
+  if (recipientIds.length === 1) {
+    delivery = await deliverToRecipient(recipientIds[0])
+  } else {
+    const recipients: Record<string, unknown>[] = []
+    for (const recipientId of recipientIds) {
+      recipients.push({ userId: recipientId, ...(await deliverToRecipient(recipientId)) })
+    }
+    delivery = {
+      recipients,
+      deliveredCount: recipients.reduce((sum, result) => sum + Number(result.deliveredCount ?? 0), 0),
+      retryableFailures: recipients.reduce((sum, result) => sum + getRetryableFailureCount(result), 0),
     }
   }
 
@@ -1155,6 +1277,34 @@ const resolveMentionedUserIds = async (
     .map(user => user.id as string))
 }
 
+// Returns each member's first matching phrase; the sender's own alerts never fire.
+const resolveKeywordAlertMatches = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  authorId: string,
+  content: string | null
+) => {
+  const matches = new Map<string, string>()
+  if (!content?.trim()) return matches
+
+  const { data, error } = await supabase
+    .from('notification_keyword_alerts')
+    .select('user_id, phrase')
+    .eq('enabled', true)
+    .neq('user_id', authorId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  const phrasesByUser = new Map<string, string[]>()
+  for (const alert of (data ?? []) as Array<{ user_id: string; phrase: string }>) {
+    phrasesByUser.set(alert.user_id, [...(phrasesByUser.get(alert.user_id) ?? []), alert.phrase])
+  }
+  for (const [userId, phrases] of phrasesByUser) {
+    const phrase = findKeywordAlertMatch(content, phrases)
+    if (phrase) matches.set(userId, phrase)
+  }
+  return matches
+}
+
 const resolveReplyAuthorId = async (
   supabase: ReturnType<typeof getSupabaseAdmin>,
   replyTo: string | null
@@ -1174,7 +1324,8 @@ const resolveReplyAuthorId = async (
 const getGroupNotificationCopy = (
   kind: GroupNotificationKind,
   senderLabel: string,
-  preview: string
+  preview: string,
+  keyword: string | null = null
 ) => {
   if (kind === 'mention') {
     return { title: `${senderLabel} mentioned you`, body: preview }
@@ -1182,6 +1333,9 @@ const getGroupNotificationCopy = (
   if (kind === 'reply') {
     return { title: `${senderLabel} replied to you`, body: preview }
   }
+  if (kind === 'keyword_alert') {
+    return { title: `${senderLabel} mentioned "${keyword ?? 'a keyword'}"`, body: preview }
+  }
   return { title: `${senderLabel} in General Chat`, body: preview }
 }
 
@@ -1301,6 +1455,9 @@ const sendReactionPush = async (
   if (eventRecord.sent_at) {
     return json({ skipped: true, reason: 'Notification already sent' })
   }
+  if (eventRecord.digest_batch_id) {
+    return json({ skipped: true, reason: NOTIFICATION_DIGEST_HELD_REASON })
+  }
 
   const subscriptions = await getActiveSubscriptions(supabase, recipientId)
   if (!subscriptions.length) {
@@ -1400,10 +1557,11 @@ const sendGroupPush = async (
     throw prefsError
   }
 
-  const [mentionedUserIds, replyAuthorId, blockedUserIds] = await Promise.all([
+  const [mentionedUserIds, replyAuthorId, blockedUserIds, keywordMatches] = await Promise.all([
     resolveMentionedUserIds(supabase, groupMessage.content),
     resolveReplyAuthorId(supabase, groupMessage.reply_to),
     getBlockedCounterpartIds(supabase, authUserId),
+    resolveKeywordAlertMatches(supabase, authUserId, groupMessage.content),
   ])
 
   const eligibleRecipients = ((recipientPreferences ?? []) as unknown as NotificationPrefs[])
@@ -1415,6 +1573,8 @@ const sendGroupPush = async (
         mentionEnabled: Boolean(preferences.mention_enabled),
         replyEnabled: Boolean(preferences.reply_enabled),
         groupEnabled: Boolean(preferences.group_enabled),
+        keywordMatched: keywordMatches.has(preferences.user_id),
+        keywordAlertsEnabled: preferences.keyword_alerts_enabled !== false,
       }),
     }))
     .filter((recipient): recipient is { preferences: NotificationPrefs; kind: GroupNotificationKind } => (
@@ -1453,7 +1613,8 @@ const sendGroupPush = async (
   const recipientNotifications = eligibleRecipients.map(({ preferences: prefs, kind }) => {
     const isBridgeSenderRecipient = origin === 'bridge' && prefs.user_id === authUserId
     const dedupeKey = `group:${groupMessage.id}:${prefs.user_id}`
-    const copy = getGroupNotificationCopy(kind, senderLabel, preview)
+    const keyword = kind === 'keyword_alert' ? keywordMatches.get(prefs.user_id) ?? null : null
+    const copy = getGroupNotificationCopy(kind, senderLabel, preview, keyword)
     const title = isBridgeSenderRecipient ? 'ShadowChat Bridge' : copy.title
     const body = isBridgeSenderRecipient ? `Sent to General Chat: ${preview}` : copy.body
     return {
@@ -1466,6 +1627,8 @@ const sendGroupPush = async (
       values: {
         user_id: prefs.user_id,
         type: kind,
+        // Unknown types keep the supplied category; mentions and replies are mapped in SQL.
+        category: kind === 'keyword_alert' ? 'interactions' : null,
         entity_id: groupMessage.id,
         message_id: groupMessage.id,
         payload: {
@@ -1476,6 +1639,7 @@ const sendGroupPush = async (
           actor: sender,
           notification_kind: kind,
           thread_id: threadId,
+          keyword: keyword ?? undefined,
           origin: isBridgeSenderRecipient ? 'bridge' : undefined,
           bridge_device_id: isBridgeSenderRecipient ? bridgeDeviceId : undefined,
         },
@@ -1698,11 +1862,11 @@ const sendShadowPinPostPush = async (
       throw new Error(`Notification event upsert did not return ${dedupeKey}`)
     }
 
-    if (eventRecord.sent_at) {
+    if (eventRecord.sent_at || eventRecord.digest_batch_id) {
       return {
         userId: preferences.user_id,
         skipped: true,
-        reason: 'Notification already sent',
+        reason: eventRecord.sent_at ? 'Notification already sent' : NOTIFICATION_DIGEST_HELD_REASON,
         deliveredCount: 0,
         removedSubscriptions: 0,
         attemptedCount: 0,
@@ -1881,6 +2045,9 @@ const sendShadowPinCommentPush = async (
   if (eventRecord.sent_at) {
     return json({ skipped: true, reason: 'Notification already sent' })
   }
+  if (eventRecord.digest_batch_id) {
+    return json({ skipped: true, reason: NOTIFICATION_DIGEST_HELD_REASON })
+  }
 
   const subscriptions = await getActiveSubscriptions(supabase, recipientId)
   if (!subscriptions.length) {
@@ -2034,11 +2201,13 @@ const sendHypePush = async (
         dedupeKey
       )
 
-      if (eventRecord.sent_at) {
+      if (eventRecord.sent_at || eventRecord.digest_batch_id) {
         return {
           userId: prefs.user_id,
           skipped: true,
-          reason: 'Collapsed into recent Hype notification',
+          reason: eventRecord.sent_at
+            ? 'Collapsed into recent Hype notification'
+            : NOTIFICATION_DIGEST_HELD_REASON,
           delivered: 0,
           removedSubscriptions: 0,
           attemptedCount: 0,
@@ -2183,7 +2352,7 @@ const sendShadowCheckersTurnPush = async (
 
   const { data: eventRecord, error: eventError } = await supabase
     .from('notification_events')
-    .select('id, sent_at')
+    .select('id, sent_at, digest_batch_id')
     .eq('user_id', recipientId)
     .eq('type', 'shadow_checkers_turn')
     .eq('entity_id', match.id)
@@ -2204,6 +2373,9 @@ const sendShadowCheckersTurnPush = async (
   if (eventRecord.sent_at) {
     return json({ skipped: true, reason: 'Shadow Checkers turn notification already sent' })
   }
+  if (eventRecord.digest_batch_id) {
+    return json({ skipped: true, reason: NOTIFICATION_DIGEST_HELD_REASON })
+  }
 
   const title = 'Your turn in Shadow Checkers'
   const body = 'It is your turn. Open the match to make your play.'
@@ -2272,6 +2444,7 @@ const isRecoveryEventPreferenceEnabled = (
   if (eventType === 'group_message') return preferences.group_enabled === true
   if (eventType === 'mention') return preferences.mention_enabled !== false
   if (eventType === 'reply') return preferences.reply_enabled !== false
+  if (eventType === 'keyword_alert') return preferences.keyword_alerts_enabled !== false
   if (eventType === 'reaction') return preferences.reaction_enabled === true
   if (eventType === 'hype_event') return preferences.hype_enabled === true
   if (eventType === 'shadow_pin_post') return preferences.shadow_pin_new_post_enabled !== false
@@ -2282,6 +2455,10 @@ const isRecoveryEventPreferenceEnabled = (
   if (eventType === 'connection_request' || eventType === 'connection_accepted') {
     return preferences.connection_notifications_enabled !== false
   }
+  // A digest only exists because its category was enabled when events arrived.
+  if (eventType === 'notification_digest') return true
+  // Reminders were asked for explicitly, one message at a time.
+  if (eventType === 'message_reminder') return true
   return false
 }
 
@@ -2316,6 +2493,19 @@ const sendNotificationDeliveryRecovery = async (
   supabase: ReturnType<typeof getSupabaseAdmin>,
   vapid: VapidKeys
 ) => {
+  // Due digests and reminders queue their own recovery jobs, so this same run delivers them.
+  const { data: flushedDigests, error: flushError } = await supabase.rpc(
+    'flush_due_notification_digests',
+    { batch_size: NOTIFICATION_DIGEST_FLUSH_SIZE }
+  )
+  if (flushError) throw flushError
+
+  const { data: sentReminders, error: reminderError } = await supabase.rpc(
+    'deliver_due_message_reminders',
+    { batch_size: MESSAGE_REMINDER_BATCH_SIZE }
+  )
+  if (reminderError) throw reminderError
+
   const { data, error } = await supabase.rpc('claim_notification_delivery_jobs', {
     batch_size: PUSH_RECOVERY_BATCH_SIZE,
   })
@@ -2338,7 +2528,7 @@ const sendNotificationDeliveryRecovery = async (
       }
 
       const preferences = await getNotificationPreferences(supabase, job.user_id)
-      const generalChatEvent = ['group_message', 'mention', 'reply', 'hype_event']
+      const generalChatEvent = ['group_message', 'mention', 'reply', 'keyword_alert', 'hype_event']
         .includes(job.event_type)
       const suppressionReason = getDeliverySuppressionReason(preferences, {
         generalChat: generalChatEvent,
@@ -2476,6 +2666,8 @@ const sendNotificationDeliveryRecovery = async (
   )
 
   return json({
+    digests: Number(flushedDigests ?? 0),
+    reminders: Number(sentReminders ?? 0),
     claimed: jobs.length,
     delivered: results.filter(result => result.delivered).length,
     retryable: results.filter(result => result.retryable).length,
@@ -2534,6 +2726,10 @@ const sendPresenceActivePush = async (
   let dispatchResponse: Response | undefined
   let dispatchError: unknown
   try {
+    const heldEventIds = await getDigestHeldEventIds(
+      supabase,
+      claims.map(claim => claim.event_id)
+    )
     const results = await mapWithConcurrency(
       claims,
       PUSH_FANOUT_CONCURRENCY,
@@ -2549,6 +2745,17 @@ const sendPresenceActivePush = async (
           retryableFailures: 0,
         }
       }
+      if (heldEventIds.has(claim.event_id)) {
+        return {
+          userId: claim.recipient_id,
+          skipped: true,
+          reason: NOTIFICATION_DIGEST_HELD_REASON,
+          deliveredCount: 0,
+          removedSubscriptions: 0,
+          attemptedCount: 0,
+          retryableFailures: 0,
+        }
+      }
 
       const preferences = await getNotificationPreferences(supabase, claim.recipient_id)
       const suppressionReason = getDeliverySuppressionReason(preferences)
@@ -65,6 +65,7 @@ type VideoAction =
   | 'complete-draft-upload'
   | 'sync-draft-status'
   | 'publish-draft-video'
+  | 'prepare-draft-slide-video'
   | 'delete-draft-video-asset'
 
 type VideoPayload = {
@@ -89,6 +90,7 @@ type VideoPayload = {
   assetId?: string
   expectedRevision?: number
   publishIdempotencyKey?: string
+  slide?: boolean
 }
 
 type ShadowPinDraftRow = {
@@ -1882,12 +1884,15 @@ const handleCreateDraftUpload = async (req: Request, body: VideoPayload) => {
   const draftId = normalizeUuid(body.draftId)
   let assetId = normalizeUuid(body.assetId)
   const expectedRevision = normalizePositiveInteger(body.expectedRevision)
+  // Carousel slides upload beside the cover and never replace the active asset.
+  const slide = body.slide === true
   if (!draftId || expectedRevision === null) {
     return badRequest('draftId and expectedRevision are required.')
   }
+  if (slide && body.sourceUrl) return badRequest('Carousel slides must be uploaded videos.')
 
   const currentDraft = await getCreatorDraft(auth.supabase, auth.userId, draftId)
-  if (!assetId && currentDraft.active_asset_id) assetId = currentDraft.active_asset_id
+  if (!slide && !assetId && currentDraft.active_asset_id) assetId = currentDraft.active_asset_id
   let existing = assetId
     ? await getDraftAsset(auth.supabase, auth.userId, draftId, assetId)
     : null
@@ -1916,7 +1921,7 @@ const handleCreateDraftUpload = async (req: Request, body: VideoPayload) => {
   if (existing) {
     const draft = await getCreatorDraft(auth.supabase, auth.userId, draftId)
     if (existing.provider === 'bunny_stream' && existing.provider_asset_id) {
-      const activeDraft = draft.active_asset_id === assetId
+      const activeDraft = slide || draft.active_asset_id === assetId
         ? draft
         : await activateDraftAsset(auth.supabase, draftId, assetId, existing.state)
       const { libraryId, apiKey } = getBunnyEnv()
@@ -1962,7 +1967,7 @@ const handleCreateDraftUpload = async (req: Request, body: VideoPayload) => {
     return json({ ok: true, draft: activeDraft, asset })
   }
 
-  if (draft.source_kind !== 'video_upload') throw new Error('Draft source is not a native video.')
+  if (!slide && draft.source_kind !== 'video_upload') throw new Error('Draft source is not a native video.')
   const upload = validateNativeUpload(body)
   await enforceDailyDraftNativeUploadLimit(auth.supabase, auth.userId)
   const { libraryId, apiKey } = getBunnyEnv()
@@ -1998,7 +2003,7 @@ const handleCreateDraftUpload = async (req: Request, body: VideoPayload) => {
     await deleteBunnyVideo(libraryId, apiKey, bunnyVideo.guid).catch(() => undefined)
     throw assetError
   }
-  const activeDraft = await activateDraftAsset(auth.supabase, draftId, assetId, 'uploading')
+  const activeDraft = slide ? draft : await activateDraftAsset(auth.supabase, draftId, assetId, 'uploading')
   return finishDraftUploadSession(activeDraft, asset, bunnyVideo.guid, libraryId, apiKey)
 }
 
@@ -2011,8 +2016,9 @@ const handleCompleteDraftUpload = async (req: Request, body: VideoPayload) => {
   if (!draftId || expectedRevision === null || !bunnyVideoId) {
     return badRequest('draftId, expectedRevision, and bunnyVideoId are required.')
   }
+  const slide = body.slide === true
   const currentDraft = await getCreatorDraft(auth.supabase, auth.userId, draftId)
-  const assetId = normalizeUuid(body.assetId) || currentDraft.active_asset_id || ''
+  const assetId = normalizeUuid(body.assetId) || (slide ? '' : currentDraft.active_asset_id) || ''
   if (!assetId) return badRequest('Draft does not have an active upload.')
   const asset = await getDraftAsset(auth.supabase, auth.userId, draftId, assetId)
   if (!asset) return notFound('Draft asset not found.')
@@ -2033,7 +2039,9 @@ const handleCompleteDraftUpload = async (req: Request, body: VideoPayload) => {
     .update({ state: 'processing', provider_payload: nextPayload, error_code: null, error_message: null })
     .eq('id', assetId).select('*').single()
   if (error) throw error
-  const draft = await activateDraftAsset(auth.supabase, draftId, assetId, 'processing')
+  const draft = slide && currentDraft.active_asset_id !== assetId
+    ? currentDraft
+    : await activateDraftAsset(auth.supabase, draftId, assetId, 'processing')
   return json({ ok: true, draft, asset: updatedAsset })
 }
 
@@ -2086,9 +2094,9 @@ const handleSyncDraftStatus = async (req: Request, body: VideoPayload) => {
     })
     .eq('id', assetId).select('*').single()
   if (error) throw error
-  const updatedDraft = await activateDraftAsset(
-    auth.supabase, draftId, assetId, state,
-  )
+  const updatedDraft = body.slide === true && draft.active_asset_id !== assetId
+    ? draft
+    : await activateDraftAsset(auth.supabase, draftId, assetId, state)
   return json({ ok: true, draft: updatedDraft, asset: updatedAsset })
 }
 
@@ -2164,6 +2172,57 @@ const handlePublishDraftVideo = async (req: Request, body: VideoPayload) => {
   })
 }
 
+// Extra carousel slides get their playback URLs before the cover publishes;
+// the finalize trigger copies them onto the Pin once every slide is publish_ready.
+const handlePrepareDraftSlideVideo = async (req: Request, body: VideoPayload) => {
+  const auth = await authenticate(req)
+  if ('error' in auth) return auth.error
+  const draftId = normalizeUuid(body.draftId)
+  const assetId = normalizeUuid(body.assetId)
+  if (!draftId || !assetId) return badRequest('draftId and assetId are required.')
+
+  const draft = await getCreatorDraft(auth.supabase, auth.userId, draftId)
+  const { data: slideRow, error: slideError } = await auth.supabase
+    .from('shadow_pin_creator_draft_slides')
+    .select('position')
+    .eq('draft_id', draftId)
+    .eq('asset_id', assetId)
+    .maybeSingle()
+  if (slideError) throw slideError
+  if (!slideRow || slideRow.position === 0) return notFound('Carousel slide not found.')
+  const asset = await getDraftAsset(auth.supabase, auth.userId, draftId, assetId)
+  if (!asset) return notFound('Draft asset not found.')
+  if (asset.provider !== 'bunny_stream' || asset.asset_kind !== 'video' || !asset.provider_asset_id) {
+    return badRequest('Draft asset is not a Bunny Stream video.')
+  }
+  if (asset.state === 'publish_ready') return json({ ok: true, draft, asset })
+  if (asset.state !== 'ready') return badRequest('Carousel slide video is not ready to publish.')
+
+  await enforceProviderRequestLimit(auth.supabase, auth.userId, 'prepare-draft-slide-video')
+  const { libraryId, apiKey, pullZoneUrl } = getBunnyEnv()
+  const bunnyStatus = await getBunnyVideo(libraryId, apiKey, asset.provider_asset_id)
+  const providerState = getBunnyStreamReadyState(bunnyStatus)
+  if (providerState.failed) throw new Error('Bunny Stream could not process this video.')
+  if (!providerState.ready) throw new Error('Bunny Stream is still processing this video.')
+  const playback = buildBunnyPlaybackUrls(
+    libraryId, asset.provider_asset_id, pullZoneUrl, bunnyStatus.availableResolutions,
+  )
+  const { data: updatedAsset, error } = await auth.supabase
+    .from('shadow_pin_draft_assets')
+    .update({
+      state: 'publish_ready',
+      video_preview_url: playback.previewUrl,
+      video_playback_url: playback.playbackUrl,
+      video_hls_url: playback.hlsUrl,
+      video_embed_url: playback.embedUrl,
+      error_code: null,
+      error_message: null,
+    })
+    .eq('id', assetId).select('*').single()
+  if (error) throw error
+  return json({ ok: true, draft, asset: updatedAsset })
+}
+
 const handleDeleteDraftVideoAsset = async (req: Request, body: VideoPayload) => {
   const auth = await authenticate(req)
   if ('error' in auth) return auth.error
@@ -2188,6 +2247,13 @@ const handleDeleteDraftVideoAsset = async (req: Request, body: VideoPayload) =>
       .eq('provider_asset_id', asset.provider_asset_id)
     if (referenceError) throw referenceError
     if ((count ?? 0) > 0) return forbidden('This video asset is referenced by a canonical pin.')
+    const { count: slideCount, error: slideReferenceError } = await auth.supabase
+      .from('shadow_pin_image_slides')
+      .select('id', { count: 'exact', head: true })
+      .eq('provider', asset.provider)
+      .eq('provider_asset_id', asset.provider_asset_id)
+    if (slideReferenceError) throw slideReferenceError
+    if ((slideCount ?? 0) > 0) return forbidden('This video asset is referenced by a carousel slide.')
   }
   await enforceProviderRequestLimit(auth.supabase, auth.userId, 'delete-draft-video-asset')
   let cleanup: Record<string, unknown> | null = null
@@ -2253,6 +2319,8 @@ serve(async (req): Promise<Response> => {
         return ensureResponse(await handleSyncDraftStatus(req, body))
       case 'publish-draft-video':
         return ensureResponse(await handlePublishDraftVideo(req, body))
+      case 'prepare-draft-slide-video':
+        return ensureResponse(await handlePrepareDraftSlideVideo(req, body))
       case 'delete-draft-video-asset':
         return ensureResponse(await handleDeleteDraftVideoAsset(req, body))
       default:
@@ -0,0 +1,225 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4'
+import {
+  EdgeAuthenticationError,
+  EdgeRateLimitError,
+  authenticateEdgeUser,
+  consumeEdgeRateLimit,
+  createEdgeAdminClient,
+  getBearerToken,
+  getEdgeSupabaseEnv,
+} from '../_shared/edge-guard.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const GEOCODING_ENDPOINT = 'https://geocoding-api.open-meteo.com/v1/search'
+const FORECAST_ENDPOINT = 'https://api.open-meteo.com/v1/forecast'
+const COMMAND_REQUESTS_PER_MINUTE = 20
+const MAX_BAN_MINUTES = 60 * 24 * 365
+const SERVER_COMMANDS = ['weather', 'ban'] as const
+
+type ServerCommand = typeof SERVER_COMMANDS[number]
+
+class SlashCommandError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.status = status
+  }
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+  })
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+
+const asTrimmedString = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+
+const WEATHER_LABELS: Array<[number[], string, string]> = [
+  [[0], 'Clear', '☀️'],
+  [[1, 2], 'Partly cloudy', '⛅'],
+  [[3], 'Cloudy', '☁️'],
+  [[45, 48], 'Fog', '🌫️'],
+  [[51, 53, 55, 56, 57], 'Drizzle', '🌦️'],
+  [[61, 63, 65, 66, 67, 80, 81, 82], 'Rain', '🌧️'],
+  [[71, 73, 75, 77, 85, 86], 'Snow', '🌨️'],
+  [[95, 96, 99], 'Thunderstorms', '⛈️'],
+]
+
+const describeWeatherCode = (code: number) => {
+  const match = WEATHER_LABELS.find(([codes]) => codes.includes(code))
+  return match ? { label: match[1], icon: match[2] } : { label: 'Weather', icon: '🌡️' }
+}
+
+const runWeather = async (args: Record<string, unknown>) => {
+  const location = asTrimmedString(args.location)
+  if (location.length < 2 || location.length > 100) {
+    throw new SlashCommandError('Usage: /weather <city or postal code>')
+  }
+
+  const geocodeUrl = new URL(GEOCODING_ENDPOINT)
+  geocodeUrl.searchParams.set('name', location)
+  geocodeUrl.searchParams.set('count', '1')
+  geocodeUrl.searchParams.set('language', 'en')
+  geocodeUrl.searchParams.set('format', 'json')
+  if (/^\d{5}$/.test(location)) geocodeUrl.searchParams.set('countryCode', 'US')
+
+  const geocodeResponse = await fetch(geocodeUrl, { signal: AbortSignal.timeout(5000) })
+  if (!geocodeResponse.ok) throw new SlashCommandError('Weather search is unavailable right now.', 503)
+  const place = asRecord((asRecord(await geocodeResponse.json()).results as unknown[] | undefined)?.[0])
+  const latitude = Number(place.latitude)
+  const longitude = Number(place.longitude)
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    throw new SlashCommandError(`No weather location found for "${location}".`, 404)
+  }
+
+  const fahrenheit = place.country_code === 'US'
+  const forecastUrl = new URL(FORECAST_ENDPOINT)
+  forecastUrl.searchParams.set('latitude', String(latitude))
+  forecastUrl.searchParams.set('longitude', String(longitude))
+  forecastUrl.searchParams.set('current', 'temperature_2m,weather_code')
+  forecastUrl.searchParams.set('daily', 'temperature_2m_max,temperature_2m_min')
+  forecastUrl.searchParams.set('forecast_days', '1')
+  forecastUrl.searchParams.set('timezone', typeof place.timezone === 'string' ? place.timezone : 'auto')
+  forecastUrl.searchParams.set('temperature_unit', fahrenheit ? 'fahrenheit' : 'celsius')
+
+  const forecastResponse = await fetch(forecastUrl, { signal: AbortSignal.timeout(5000) })
+  if (!forecastResponse.ok) throw new SlashCommandError('Weather is unavailable right now.', 503)
+  const forecast = asRecord(await forecastResponse.json())
+  const current = asRecord(forecast.current)
+  const daily = asRecord(forecast.daily)
+  const temperature = Number(current.temperature_2m)
+  if (!Number.isFinite(temperature)) throw new SlashCommandError('Weather is unavailable right now.', 503)
+
+  const unit = fahrenheit ? '°F' : '°C'
+  const { label, icon } = describeWeatherCode(Number(current.weather_code))
+  const high = Number((daily.temperature_2m_max as unknown[] | undefined)?.[0])
+  const low = Number((daily.temperature_2m_min as unknown[] | undefined)?.[0])
+  const name = [place.name, place.admin1 ?? place.country].filter(part => typeof part === 'string' && part).join(', ')
+  const range = Number.isFinite(high) && Number.isFinite(low)
+    ? ` · H ${Math.round(high)}${unit} L ${Math.round(low)}${unit}`
+    : ''
+
+  return { kind: 'message', content: `${icon} ${name}: ${Math.round(temperature)}${unit}, ${label}${range}` }
+}
+
+const formatDuration = (minutes: number) => {
+  if (minutes % (60 * 24) === 0) return `${minutes / (60 * 24)}d`
+  if (minutes % 60 === 0) return `${minutes / 60}h`
+  return `${minutes}m`
+}
+
+// Usernames are unique as typed but not case-insensitively, so an exact match
+// wins and a case-insensitive fallback must not guess between several members.
+const findBanTarget = async (admin: ReturnType<typeof createEdgeAdminClient>, username: string) => {
+  const { data: exact, error: exactError } = await admin
+    .from('users')
+    .select('id, username')
+    .eq('username', username)
+    .maybeSingle()
+  if (exactError) throw exactError
+  if (exact) return exact
+
+  const { data: matches, error: matchesError } = await admin
+    .from('users')
+    .select('id, username')
+    .ilike('username', username.replace(/[\\%_]/g, character => `\\${character}`))
+    .limit(2)
+  if (matchesError) throw matchesError
+  if (!matches || matches.length === 0) throw new SlashCommandError(`@${username} was not found.`, 404)
+  if (matches.length > 1) {
+    throw new SlashCommandError(`More than one member matches @${username}. Use their exact username.`, 409)
+  }
+  return matches[0]
+}
+
+const runBan = async (req: Request, admin: ReturnType<typeof createEdgeAdminClient>, args: Record<string, unknown>) => {
+  const username = asTrimmedString(args.user).replace(/^@/, '')
+  const durationMinutes = Number(args.duration)
+  const reason = asTrimmedString(args.reason).slice(0, 500)
+  if (!/^[\w.-]{1,64}$/.test(username)) throw new SlashCommandError('Usage: /ban @user <duration> [reason]')
+  if (!Number.isSafeInteger(durationMinutes) || durationMinutes <= 0 || durationMinutes > MAX_BAN_MINUTES) {
+    throw new SlashCommandError('Ban duration must be between 1 minute and 1 year.')
+  }
+
+  const target = await findBanTarget(admin, username)
+
+  const { data: activeBans, error: activeBansError } = await admin
+    .from('user_channel_bans')
+    .select('scope')
+    .eq('target_user_id', target.id)
+    .is('revoked_at', null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+  if (activeBansError) throw activeBansError
+  // set_user_channel_bans replaces the full scope set, so a quick command must
+  // not silently rewrite restrictions that were set from the moderation panel.
+  if ((activeBans ?? []).length > 0) {
+    throw new SlashCommandError(`@${target.username} already has active restrictions. Update them from the moderation panel.`, 409)
+  }
+
+  // The ban RPC authorizes through auth.uid(), so it runs with the caller's token.
+  const { supabaseUrl, supabaseAnonKey } = getEdgeSupabaseEnv()
+  const callerClient = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { Authorization: `Bearer ${getBearerToken(req)}` } },
+  })
+  const { error } = await callerClient.rpc('set_user_channel_bans', {
+    target_user_id: target.id,
+    scopes: ['general_chat'],
+    duration_minutes: durationMinutes,
+    reason: reason || null,
+  })
+  if (error) throw new SlashCommandError(error.message || 'Unable to ban this member.', 403)
+
+  return {
+    kind: 'notice',
+    message: `@${target.username} is banned from General Chat for ${formatDuration(durationMinutes)}.`,
+  }
+}
+
+serve(async (req): Promise<Response> => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+  if (req.method !== 'POST') return json({ error: 'Method not allowed.' }, 405)
+
+  try {
+    const user = await authenticateEdgeUser(req)
+    const body = asRecord(await req.json().catch(() => null))
+    const command = asTrimmedString(body.command).toLowerCase()
+    if (!SERVER_COMMANDS.includes(command as ServerCommand)) {
+      throw new SlashCommandError('Unknown slash command.', 404)
+    }
+
+    const admin = createEdgeAdminClient()
+    await consumeEdgeRateLimit(admin, {
+      userId: user.id,
+      scope: `slash-command:${command}:minute`,
+      windowSeconds: 60,
+      limit: COMMAND_REQUESTS_PER_MINUTE,
+      message: 'Too many commands. Wait a moment and try again.',
+    })
+
+    const args = asRecord(body.args)
+    const result = command === 'weather'
+      ? await runWeather(args)
+      : await runBan(req, admin, args)
+    return json(result)
+  } catch (error) {
+    if (error instanceof EdgeRateLimitError) {
+      return json({ error: error.message }, error.status, { 'Retry-After': String(error.retryAfterSeconds) })
+    }
+    if (error instanceof EdgeAuthenticationError || error instanceof SlashCommandError) {
+      return json({ error: error.message }, error.status)
+    }
+    console.error('slash-command failed', error)
+    return json({ error: 'This command could not be completed.' }, 500)
+  }
+})
@@ -0,0 +1,620 @@
+/*
+  # Native message polls
+
+  A poll is a `message_type = 'poll'` row in General Chat (`messages`) or a DM
+  (`dm_messages`) plus one `message_polls` row that owns its options and
+  votes. The message content carries the question so existing previews,
+  search, and notifications keep working without poll awareness.
+
+  Browser roles may read poll headers only where they can already read the
+  parent message; that row is published to Realtime so clients refetch tallies
+  when `vote_revision` advances. Options and votes have no browser table
+  authority. Guarded caller-scoped RPCs create polls, replace the caller's
+  votes, close polls, and return tallies, hiding voter identities when the
+  poll is anonymous. Posting and voting respect the existing channel-ban
+  scopes: `general_chat` for General Chat and `all_interaction` for DMs.
+*/
+
+begin;
+
+create schema if not exists message_polls_private;
+
+revoke all on schema message_polls_private from public, anon, authenticated;
+grant usage on schema message_polls_private to authenticated, service_role;
+
+alter default privileges for role postgres in schema message_polls_private
+  revoke execute on functions from public;
+
+create table public.message_polls (
+  id uuid primary key default gen_random_uuid(),
+  surface text not null check (surface in ('general', 'dm')),
+  message_id uuid references public.messages(id) on delete cascade,
+  dm_message_id uuid references public.dm_messages(id) on delete cascade,
+  conversation_id uuid references public.dm_conversations(id) on delete cascade,
+  created_by uuid not null references public.users(id) on delete cascade,
+  question text not null,
+  allows_multiple boolean not null default false,
+  is_anonymous boolean not null default false,
+  closes_at timestamptz,
+  closed_at timestamptz,
+  vote_revision integer not null default 0 check (vote_revision >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint message_polls_surface_target_check check (
+    (surface = 'general' and message_id is not null and dm_message_id is null and conversation_id is null)
+    or
+    (surface = 'dm' and dm_message_id is not null and message_id is null and conversation_id is not null)
+  ),
+  constraint message_polls_question_check check (
+    question = btrim(question)
+    and char_length(question) between 1 and 200
+  ),
+  constraint message_polls_closes_at_check check (
+    closes_at is null or closes_at > created_at
+  ),
+  constraint message_polls_message_key unique (message_id),
+  constraint message_polls_dm_message_key unique (dm_message_id)
+);
+
+create table public.message_poll_options (
+  id uuid primary key default gen_random_uuid(),
+  poll_id uuid not null references public.message_polls(id) on delete cascade,
+  position smallint not null check (position between 0 and 9),
+  label text not null,
+  constraint message_poll_options_label_check check (
+    label = btrim(label)
+    and char_length(label) between 1 and 80
+  ),
+  constraint message_poll_options_position_key unique (poll_id, position)
+);
+
+create table public.message_poll_votes (
+  poll_id uuid not null references public.message_polls(id) on delete cascade,
+  option_id uuid not null references public.message_poll_options(id) on delete cascade,
+  voter_id uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  constraint message_poll_votes_pkey primary key (poll_id, option_id, voter_id)
+);
+
+create index message_polls_conversation_idx
+  on public.message_polls (conversation_id, created_at desc)
+  where conversation_id is not null;
+create index message_poll_options_poll_idx
+  on public.message_poll_options (poll_id, position);
+create index message_poll_votes_voter_idx
+  on public.message_poll_votes (voter_id, poll_id);
+
+create trigger update_message_polls_updated_at
+  before update on public.message_polls
+  for each row execute function public.update_updated_at_column();
+
+alter table public.message_polls enable row level security;
+alter table public.message_poll_options enable row level security;
+alter table public.message_poll_votes enable row level security;
+
+create policy "Members can read poll headers on visible messages"
+  on public.message_polls
+  for select
+  to authenticated
+  using (
+    (
+      surface = 'general'
+      and not private.users_have_block((select auth.uid()), created_by)
+    )
+    or
+    (
+      surface = 'dm'
+      and exists (
+        select 1
+        from public.dm_conversations conversations
+        where conversations.id = message_polls.conversation_id
+          and (select auth.uid()) = any (conversations.participants)
+      )
+    )
+  );
+
+revoke all on table public.message_polls
+  from public, anon, authenticated, service_role;
+revoke all on table public.message_poll_options
+  from public, anon, authenticated, service_role;
+revoke all on table public.message_poll_votes
+  from public, anon, authenticated, service_role;
+grant select on table public.message_polls to authenticated;
+grant select on table public.message_polls to service_role;
+grant select on table public.message_poll_options to service_role;
+grant select on table public.message_poll_votes to service_role;
+
+comment on table public.message_polls is
+  'Poll headers for General Chat and DM poll messages. Browser roles read headers through RLS and use guarded RPCs for tallies and votes.';
+comment on table public.message_poll_options is
+  'Ordered poll options. Browser roles use guarded poll RPCs only.';
+comment on table public.message_poll_votes is
+  'Poll ballots keyed by poll, option, and voter. Voter identities never leave the server for anonymous polls.';
+
+create function message_polls_private.caller_can_view_poll(
+  caller_id uuid,
+  target_poll public.message_polls
+)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select case
+    when target_poll.surface = 'general' then
+      not private.users_have_block(caller_id, target_poll.created_by)
+    else exists (
+      select 1
+      from public.dm_conversations conversations
+      where conversations.id = target_poll.conversation_id
+        and caller_id = any (conversations.participants)
+    )
+  end;
+$$;
+
+revoke all on function message_polls_private.caller_can_view_poll(uuid, public.message_polls)
+  from public, anon, authenticated, service_role;
+
+create function message_polls_private.poll_json(
+  caller_id uuid,
+  target_poll public.message_polls
+)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'id', target_poll.id,
+    'surface', target_poll.surface,
+    'message_id', coalesce(target_poll.message_id, target_poll.dm_message_id),
+    'conversation_id', target_poll.conversation_id,
+    'created_by', target_poll.created_by,
+    'question', target_poll.question,
+    'allows_multiple', target_poll.allows_multiple,
+    'is_anonymous', target_poll.is_anonymous,
+    'closes_at', target_poll.closes_at,
+    'closed_at', coalesce(
+      target_poll.closed_at,
+      case when target_poll.closes_at <= now() then target_poll.closes_at end
+    ),
+    'vote_revision', target_poll.vote_revision,
+    'voter_count', (
+      select count(distinct votes.voter_id)
+      from public.message_poll_votes votes
+      where votes.poll_id = target_poll.id
+    ),
+    'options', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', options.id,
+          'position', options.position,
+          'label', options.label,
+          'vote_count', (
+            select count(*)
+            from public.message_poll_votes votes
+            where votes.option_id = options.id
+          ),
+          'viewer_voted', exists (
+            select 1
+            from public.message_poll_votes votes
+            where votes.option_id = options.id
+              and votes.voter_id = caller_id
+          ),
+          'voter_ids', case
+            when target_poll.is_anonymous then '[]'::jsonb
+            else coalesce((
+              select jsonb_agg(votes.voter_id order by votes.created_at, votes.voter_id)
+              from public.message_poll_votes votes
+              where votes.option_id = options.id
+                and not private.users_have_block(caller_id, votes.voter_id)
+            ), '[]'::jsonb)
+          end
+        )
+        order by options.position
+      )
+      from public.message_poll_options options
+      where options.poll_id = target_poll.id
+    ), '[]'::jsonb),
+    'created_at', target_poll.created_at,
+    'updated_at', target_poll.updated_at
+  );
+$$;
+
+revoke all on function message_polls_private.poll_json(uuid, public.message_polls)
+  from public, anon, authenticated, service_role;
+
+create function message_polls_private.create_message_poll_impl(
+  target_surface text,
+  target_conversation_id uuid,
+  target_question text,
+  target_options text[],
+  target_allows_multiple boolean,
+  target_is_anonymous boolean,
+  target_closes_at timestamptz,
+  target_client_message_id text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  normalized_question text := btrim(coalesce(target_question, ''));
+  normalized_options text[];
+  ban_scope text;
+  created_message_id uuid;
+  created_poll public.message_polls;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if target_surface not in ('general', 'dm') then
+    raise exception 'Unsupported poll surface';
+  end if;
+
+  ban_scope := case when target_surface = 'general' then 'general_chat' else 'all_interaction' end;
+  if public.is_user_channel_banned(caller_id, ban_scope) then
+    raise exception using message = public.get_channel_ban_block_message(caller_id, ban_scope);
+  end if;
+
+  if char_length(normalized_question) not between 1 and 200 then
+    raise exception 'Poll questions must be between 1 and 200 characters';
+  end if;
+
+  select coalesce(array_agg(option_label order by first_position), '{}')
+  into normalized_options
+  from (
+    select btrim(raw_label) as option_label, min(ordinality) as first_position
+    from unnest(coalesce(target_options, '{}'::text[])) with ordinality as raw(raw_label, ordinality)
+    where btrim(coalesce(raw_label, '')) <> ''
+    group by lower(btrim(raw_label)), btrim(raw_label)
+  ) distinct_options;
+
+  if cardinality(normalized_options) not between 2 and 10 then
+    raise exception 'Polls need between 2 and 10 distinct options';
+  end if;
+
+  if exists (
+    select 1 from unnest(normalized_options) option_label
+    where char_length(option_label) > 80
+  ) then
+    raise exception 'Poll options must be 80 characters or shorter';
+  end if;
+
+  if target_closes_at is not null and (
+    target_closes_at <= now() + interval '1 minute'
+    or target_closes_at > now() + interval '30 days'
+  ) then
+    raise exception 'Poll close time must be between one minute and 30 days from now';
+  end if;
+
+  if target_surface = 'general' then
+    insert into public.messages (user_id, client_message_id, content, message_type)
+    values (caller_id, nullif(btrim(coalesce(target_client_message_id, '')), ''), normalized_question, 'poll')
+    returning id into created_message_id;
+
+    insert into public.message_polls (
+      surface, message_id, created_by, question, allows_multiple, is_anonymous, closes_at
+    )
+    values (
+      'general', created_message_id, caller_id, normalized_question,
+      coalesce(target_allows_multiple, false), coalesce(target_is_anonymous, false), target_closes_at
+    )
+    returning * into created_poll;
+  else
+    if target_conversation_id is null or not exists (
+      select 1
+      from public.dm_conversations conversations
+      where conversations.id = target_conversation_id
+        and caller_id = any (conversations.participants)
+    ) then
+      raise exception using
+        errcode = '42501',
+        message = 'Conversation is unavailable';
+    end if;
+
+    insert into public.dm_messages (conversation_id, sender_id, client_message_id, content, message_type)
+    values (
+      target_conversation_id, caller_id,
+      nullif(btrim(coalesce(target_client_message_id, '')), ''),
+      normalized_question, 'poll'
+    )
+    returning id into created_message_id;
+
+    insert into public.message_polls (
+      surface, dm_message_id, conversation_id, created_by, question, allows_multiple, is_anonymous, closes_at
+    )
+    values (
+      'dm', created_message_id, target_conversation_id, caller_id, normalized_question,
+      coalesce(target_allows_multiple, false), coalesce(target_is_anonymous, false), target_closes_at
+    )
+    returning * into created_poll;
+  end if;
+
+  insert into public.message_poll_options (poll_id, position, label)
+  select created_poll.id, (ordinality - 1)::smallint, option_label
+  from unnest(normalized_options) with ordinality as ordered(option_label, ordinality);
+
+  return message_polls_private.poll_json(caller_id, created_poll);
+end;
+$$;
+
+create function message_polls_private.vote_message_poll_impl(
+  target_poll_id uuid,
+  target_option_ids uuid[]
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_poll public.message_polls;
+  requested_option_ids uuid[];
+  ban_scope text;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select polls.*
+  into target_poll
+  from public.message_polls polls
+  where polls.id = target_poll_id
+  for update;
+
+  if target_poll.id is null
+    or not message_polls_private.caller_can_view_poll(caller_id, target_poll) then
+    raise exception using
+      errcode = '42501',
+      message = 'Poll is unavailable';
+  end if;
+
+  ban_scope := case when target_poll.surface = 'general' then 'general_chat' else 'all_interaction' end;
+  if public.is_user_channel_banned(caller_id, ban_scope) then
+    raise exception using message = public.get_channel_ban_block_message(caller_id, ban_scope);
+  end if;
+
+  if target_poll.closed_at is not null
+    or (target_poll.closes_at is not null and target_poll.closes_at <= now()) then
+    raise exception 'This poll is closed';
+  end if;
+
+  select coalesce(array_agg(distinct option_id), '{}')
+  into requested_option_ids
+  from unnest(coalesce(target_option_ids, '{}'::uuid[])) option_id
+  where option_id is not null;
+
+  if not target_poll.allows_multiple and cardinality(requested_option_ids) > 1 then
+    raise exception 'This poll allows one choice';
+  end if;
+
+  if exists (
+    select 1
+    from unnest(requested_option_ids) option_id
+    where not exists (
+      select 1
+      from public.message_poll_options options
+      where options.id = option_id
+        and options.poll_id = target_poll.id
+    )
+  ) then
+    raise exception 'One or more poll options are unavailable';
+  end if;
+
+  delete from public.message_poll_votes votes
+  where votes.poll_id = target_poll.id
+    and votes.voter_id = caller_id
+    and not (votes.option_id = any (requested_option_ids));
+
+  insert into public.message_poll_votes (poll_id, option_id, voter_id)
+  select target_poll.id, option_id, caller_id
+  from unnest(requested_option_ids) option_id
+  on conflict (poll_id, option_id, voter_id) do nothing;
+
+  update public.message_polls polls
+  set vote_revision = polls.vote_revision + 1
+  where polls.id = target_poll.id
+  returning * into target_poll;
+
+  return message_polls_private.poll_json(caller_id, target_poll);
+end;
+$$;
+
+create function message_polls_private.close_message_poll_impl(target_poll_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_poll public.message_polls;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  update public.message_polls polls
+  set closed_at = coalesce(polls.closed_at, now()),
+      vote_revision = polls.vote_revision + 1
+  where polls.id = target_poll_id
+    and polls.created_by = caller_id
+  returning * into target_poll;
+
+  if target_poll.id is null then
+    raise exception using
+      errcode = '42501',
+      message = 'Only the poll creator can close this poll';
+  end if;
+
+  return message_polls_private.poll_json(caller_id, target_poll);
+end;
+$$;
+
+create function message_polls_private.list_message_polls_impl(target_message_ids uuid[])
+returns table (
+  message_id uuid,
+  poll jsonb
+)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if cardinality(coalesce(target_message_ids, '{}'::uuid[])) > 100 then
+    raise exception 'Too many poll messages requested';
+  end if;
+
+  return query
+  select
+    coalesce(polls.message_id, polls.dm_message_id),
+    message_polls_private.poll_json(caller_id, polls)
+  from public.message_polls polls
+  where (
+      polls.message_id = any (target_message_ids)
+      or polls.dm_message_id = any (target_message_ids)
+    )
+    and message_polls_private.caller_can_view_poll(caller_id, polls);
+end;
+$$;
+
+revoke all on function message_polls_private.create_message_poll_impl(text, uuid, text, text[], boolean, boolean, timestamptz, text)
+  from public, anon, authenticated, service_role;
+revoke all on function message_polls_private.vote_message_poll_impl(uuid, uuid[])
+  from public, anon, authenticated, service_role;
+revoke all on function message_polls_private.close_message_poll_impl(uuid)
+  from public, anon, authenticated, service_role;
+revoke all on function message_polls_private.list_message_polls_impl(uuid[])
+  from public, anon, authenticated, service_role;
+
+grant execute on function message_polls_private.create_message_poll_impl(text, uuid, text, text[], boolean, boolean, timestamptz, text)
+  to authenticated, service_role;
+grant execute on function message_polls_private.vote_message_poll_impl(uuid, uuid[])
+  to authenticated, service_role;
+grant execute on function message_polls_private.close_message_poll_impl(uuid)
+  to authenticated, service_role;
+grant execute on function message_polls_private.list_message_polls_impl(uuid[])
+  to authenticated, service_role;
+
+create function public.create_message_poll(
+  target_surface text,
+  target_conversation_id uuid,
+  target_question text,
+  target_options text[],
+  target_allows_multiple boolean default false,
+  target_is_anonymous boolean default false,
+  target_closes_at timestamptz default null,
+  target_client_message_id text default null
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select message_polls_private.create_message_poll_impl(
+    target_surface,
+    target_conversation_id,
+    target_question,
+    target_options,
+    target_allows_multiple,
+    target_is_anonymous,
+    target_closes_at,
+    target_client_message_id
+  );
+$$;
+
+create function public.vote_message_poll(
+  target_poll_id uuid,
+  target_option_ids uuid[]
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select message_polls_private.vote_message_poll_impl(target_poll_id, target_option_ids);
+$$;
+
+create function public.close_message_poll(target_poll_id uuid)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select message_polls_private.close_message_poll_impl(target_poll_id);
+$$;
+
+create function public.list_message_polls(target_message_ids uuid[])
+returns table (
+  message_id uuid,
+  poll jsonb
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select * from message_polls_private.list_message_polls_impl(target_message_ids);
+$$;
+
+revoke all on function public.create_message_poll(text, uuid, text, text[], boolean, boolean, timestamptz, text)
+  from public, anon, authenticated, service_role;
+revoke all on function public.vote_message_poll(uuid, uuid[])
+  from public, anon, authenticated, service_role;
+revoke all on function public.close_message_poll(uuid)
+  from public, anon, authenticated, service_role;
+revoke all on function public.list_message_polls(uuid[])
+  from public, anon, authenticated, service_role;
+
+grant execute on function public.create_message_poll(text, uuid, text, text[], boolean, boolean, timestamptz, text)
+  to authenticated, service_role;
+grant execute on function public.vote_message_poll(uuid, uuid[])
+  to authenticated, service_role;
+grant execute on function public.close_message_poll(uuid)
+  to authenticated, service_role;
+grant execute on function public.list_message_polls(uuid[])
+  to authenticated, service_role;
+
+-- Poll headers carry only the vote revision. Subscribers refetch tallies
+-- through list_message_polls so anonymous ballots never ride Realtime.
+do $publication$
+begin
+  if exists (
+    select 1
+    from pg_publication
+    where pubname = 'supabase_realtime'
+  ) and not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'message_polls'
+  ) then
+    alter publication supabase_realtime
+      add table public.message_polls;
+  end if;
+end
+$publication$;
+
+comment on function public.create_message_poll(text, uuid, text, text[], boolean, boolean, timestamptz, text) is
+  'Posts a poll message to General Chat or a caller DM and returns the caller-scoped poll tally.';
+comment on function public.vote_message_poll(uuid, uuid[]) is
+  'Replaces the caller ballot on an open visible poll. An empty option list retracts the ballot.';
+comment on function public.list_message_polls(uuid[]) is
+  'Returns caller-scoped poll tallies for visible General Chat or DM poll messages.';
+
+commit;
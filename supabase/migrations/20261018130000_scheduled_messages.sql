@@ -0,0 +1,581 @@
+/*
+  # Scheduled messages
+
+  Members can compose a General Chat or DM message now and have the server
+  post it later. Queue rows are private to their sender: browsers read their
+  own rows through RLS (and Realtime) and mutate them only through guarded
+  caller-scoped RPCs.
+
+  Delivery never depends on the sender's browser. A one-minute Supabase Cron
+  job claims due rows with `skip locked`, re-checks channel bans and DM
+  membership at send time, and inserts the message as the sender. The
+  sender-scoped `client_message_id` idempotency keys make a retried claim
+  converge on the already-posted message instead of duplicating it. Rows that
+  can no longer be delivered are marked failed with a member-safe reason.
+*/
+
+begin;
+
+create schema if not exists scheduled_messages_private;
+
+revoke all on schema scheduled_messages_private from public, anon, authenticated;
+grant usage on schema scheduled_messages_private to authenticated, service_role;
+
+alter default privileges for role postgres in schema scheduled_messages_private
+  revoke execute on functions from public;
+
+create table public.scheduled_messages (
+  id uuid primary key default gen_random_uuid(),
+  sender_id uuid not null references public.users(id) on delete cascade,
+  surface text not null check (surface in ('general', 'dm')),
+  conversation_id uuid references public.dm_conversations(id) on delete cascade,
+  content text not null,
+  reply_to uuid,
+  send_at timestamptz not null,
+  status text not null default 'scheduled'
+    check (status in ('scheduled', 'sending', 'sent', 'failed', 'canceled')),
+  client_message_id text not null default ('scheduled:' || gen_random_uuid()::text),
+  delivered_message_id uuid,
+  failure_reason text,
+  attempt_count integer not null default 0 check (attempt_count >= 0),
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint scheduled_messages_surface_target_check check (
+    (surface = 'general' and conversation_id is null)
+    or (surface = 'dm' and conversation_id is not null)
+  ),
+  constraint scheduled_messages_content_check check (
+    content = btrim(content)
+    and char_length(content) between 1 and 4000
+  ),
+  constraint scheduled_messages_client_message_id_key unique (sender_id, client_message_id)
+);
+
+create index scheduled_messages_due_idx
+  on public.scheduled_messages (send_at, id)
+  where status = 'scheduled';
+create index scheduled_messages_sender_conversation_idx
+  on public.scheduled_messages (sender_id, surface, conversation_id, send_at);
+
+create trigger update_scheduled_messages_updated_at
+  before update on public.scheduled_messages
+  for each row execute function public.update_updated_at_column();
+
+alter table public.scheduled_messages enable row level security;
+
+create policy "Senders can read their scheduled messages"
+  on public.scheduled_messages
+  for select
+  to authenticated
+  using (sender_id = (select auth.uid()));
+
+revoke all on table public.scheduled_messages
+  from public, anon, authenticated, service_role;
+grant select on table public.scheduled_messages to authenticated;
+grant select on table public.scheduled_messages to service_role;
+
+comment on table public.scheduled_messages is
+  'Sender-private send-later queue for General Chat and DMs. Writes go through guarded RPCs; delivery runs in the scheduled message cron worker.';
+
+create function scheduled_messages_private.scheduled_message_json(target_row public.scheduled_messages)
+returns jsonb
+language sql
+immutable
+security invoker
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'id', target_row.id,
+    'surface', target_row.surface,
+    'conversation_id', target_row.conversation_id,
+    'content', target_row.content,
+    'reply_to', target_row.reply_to,
+    'send_at', target_row.send_at,
+    'status', target_row.status,
+    'delivered_message_id', target_row.delivered_message_id,
+    'failure_reason', target_row.failure_reason,
+    'sent_at', target_row.sent_at,
+    'created_at', target_row.created_at,
+    'updated_at', target_row.updated_at
+  );
+$$;
+
+revoke all on function scheduled_messages_private.scheduled_message_json(public.scheduled_messages)
+  from public, anon, authenticated, service_role;
+
+create function scheduled_messages_private.assert_send_at(target_send_at timestamptz)
+returns void
+language plpgsql
+stable
+security invoker
+set search_path = ''
+as $$
+begin
+  if target_send_at is null
+    or target_send_at < now() + interval '1 minute'
+    or target_send_at > now() + interval '30 days' then
+    raise exception 'Scheduled messages must be sent between one minute and 30 days from now';
+  end if;
+end;
+$$;
+
+revoke all on function scheduled_messages_private.assert_send_at(timestamp with time zone)
+  from public, anon, authenticated, service_role;
+
+create function scheduled_messages_private.create_scheduled_message_impl(
+  target_surface text,
+  target_conversation_id uuid,
+  target_content text,
+  target_send_at timestamptz,
+  target_reply_to uuid,
+  target_client_message_id text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  normalized_content text := btrim(coalesce(target_content, ''));
+  normalized_client_id text := nullif(btrim(coalesce(target_client_message_id, '')), '');
+  created_row public.scheduled_messages;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if target_surface not in ('general', 'dm') then
+    raise exception 'Unsupported scheduled message surface';
+  end if;
+
+  if char_length(normalized_content) not between 1 and 4000 then
+    raise exception 'Scheduled messages must be between 1 and 4000 characters';
+  end if;
+
+  perform scheduled_messages_private.assert_send_at(target_send_at);
+
+  if target_surface = 'dm' and (
+    target_conversation_id is null
+    or not exists (
+      select 1
+      from public.dm_conversations conversations
+      where conversations.id = target_conversation_id
+        and caller_id = any (conversations.participants)
+    )
+  ) then
+    raise exception using
+      errcode = '42501',
+      message = 'Conversation is unavailable';
+  end if;
+
+  if (
+    select count(*)
+    from public.scheduled_messages queued
+    where queued.sender_id = caller_id
+      and queued.status = 'scheduled'
+  ) >= 50 then
+    raise exception 'You can have up to 50 scheduled messages at a time';
+  end if;
+
+  if normalized_client_id is not null then
+    select queued.*
+    into created_row
+    from public.scheduled_messages queued
+    where queued.sender_id = caller_id
+      and queued.client_message_id = normalized_client_id;
+
+    if created_row.id is not null then
+      return scheduled_messages_private.scheduled_message_json(created_row);
+    end if;
+  end if;
+
+  insert into public.scheduled_messages (
+    sender_id, surface, conversation_id, content, reply_to, send_at, client_message_id
+  )
+  values (
+    caller_id,
+    target_surface,
+    case when target_surface = 'dm' then target_conversation_id end,
+    normalized_content,
+    target_reply_to,
+    target_send_at,
+    coalesce(normalized_client_id, 'scheduled:' || gen_random_uuid()::text)
+  )
+  returning * into created_row;
+
+  return scheduled_messages_private.scheduled_message_json(created_row);
+end;
+$$;
+
+create function scheduled_messages_private.update_scheduled_message_impl(
+  target_id uuid,
+  target_content text,
+  target_send_at timestamptz
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  normalized_content text := btrim(coalesce(target_content, ''));
+  updated_row public.scheduled_messages;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if char_length(normalized_content) not between 1 and 4000 then
+    raise exception 'Scheduled messages must be between 1 and 4000 characters';
+  end if;
+
+  perform scheduled_messages_private.assert_send_at(target_send_at);
+
+  update public.scheduled_messages queued
+  set content = normalized_content,
+      send_at = target_send_at,
+      failure_reason = null
+  where queued.id = target_id
+    and queued.sender_id = caller_id
+    and queued.status = 'scheduled'
+  returning * into updated_row;
+
+  if updated_row.id is null then
+    raise exception using
+      errcode = '42501',
+      message = 'This scheduled message can no longer be edited';
+  end if;
+
+  return scheduled_messages_private.scheduled_message_json(updated_row);
+end;
+$$;
+
+create function scheduled_messages_private.cancel_scheduled_message_impl(target_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  canceled_row public.scheduled_messages;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  update public.scheduled_messages queued
+  set status = 'canceled'
+  where queued.id = target_id
+    and queued.sender_id = caller_id
+    and queued.status in ('scheduled', 'failed')
+  returning * into canceled_row;
+
+  if canceled_row.id is null then
+    raise exception using
+      errcode = '42501',
+      message = 'This scheduled message can no longer be canceled';
+  end if;
+
+  return scheduled_messages_private.scheduled_message_json(canceled_row);
+end;
+$$;
+
+create function scheduled_messages_private.list_my_scheduled_messages_impl(
+  target_surface text,
+  target_conversation_id uuid
+)
+returns setof jsonb
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  return query
+  select scheduled_messages_private.scheduled_message_json(queued)
+  from public.scheduled_messages queued
+  where queued.sender_id = caller_id
+    and queued.status in ('scheduled', 'sending', 'failed')
+    and (target_surface is null or queued.surface = target_surface)
+    and (
+      target_conversation_id is null
+      or queued.conversation_id = target_conversation_id
+    )
+  order by queued.send_at, queued.id
+  limit 100;
+end;
+$$;
+
+create function scheduled_messages_private.deliver_due_scheduled_messages(
+  batch_size integer default 50
+)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  due_row public.scheduled_messages;
+  ban_scope text;
+  posted_message_id uuid;
+  delivered_count integer := 0;
+begin
+  for due_row in
+    update public.scheduled_messages queued
+    set status = 'sending',
+        attempt_count = queued.attempt_count + 1
+    where queued.id in (
+      select candidates.id
+      from public.scheduled_messages candidates
+      where candidates.status = 'scheduled'
+        and candidates.send_at <= now()
+      order by candidates.send_at, candidates.id
+      limit greatest(1, least(coalesce(batch_size, 50), 200))
+      for update skip locked
+    )
+    returning queued.*
+  loop
+    begin
+      ban_scope := case when due_row.surface = 'general' then 'general_chat' else 'all_interaction' end;
+      if public.is_user_channel_banned(due_row.sender_id, ban_scope) then
+        raise exception using
+          errcode = 'P0001',
+          message = public.get_channel_ban_block_message(due_row.sender_id, ban_scope);
+      end if;
+
+      posted_message_id := null;
+
+      if due_row.surface = 'general' then
+        insert into public.messages (user_id, client_message_id, content, message_type, reply_to)
+        values (
+          due_row.sender_id,
+          due_row.client_message_id,
+          due_row.content,
+          'text',
+          (select messages.id from public.messages messages where messages.id = due_row.reply_to)
+        )
+        on conflict do nothing
+        returning id into posted_message_id;
+
+        if posted_message_id is null then
+          select messages.id
+          into posted_message_id
+          from public.messages messages
+          where messages.user_id = due_row.sender_id
+            and messages.client_message_id = due_row.client_message_id;
+        end if;
+      else
+        if not exists (
+          select 1
+          from public.dm_conversations conversations
+          where conversations.id = due_row.conversation_id
+            and due_row.sender_id = any (conversations.participants)
+        ) then
+          raise exception 'Conversation is unavailable';
+        end if;
+
+        insert into public.dm_messages (conversation_id, sender_id, client_message_id, content, message_type, reply_to)
+        values (
+          due_row.conversation_id,
+          due_row.sender_id,
+          due_row.client_message_id,
+          due_row.content,
+          'text',
+          (
+            select messages.id
+            from public.dm_messages messages
+            where messages.id = due_row.reply_to
+              and messages.conversation_id = due_row.conversation_id
+          )
+        )
+        on conflict do nothing
+        returning id into posted_message_id;
+
+        if posted_message_id is null then
+          select messages.id
+          into posted_message_id
+          from public.dm_messages messages
+          where messages.sender_id = due_row.sender_id
+            and messages.client_message_id = due_row.client_message_id;
+        end if;
+      end if;
+
+      update public.scheduled_messages queued
+      set status = 'sent',
+          delivered_message_id = posted_message_id,
+          failure_reason = null,
+          sent_at = now()
+      where queued.id = due_row.id;
+
+      delivered_count := delivered_count + 1;
+    exception when others then
+      update public.scheduled_messages queued
+      set status = 'failed',
+          failure_reason = left(coalesce(nullif(sqlerrm, ''), 'Delivery failed'), 240)
+      where queued.id = due_row.id;
+    end;
+  end loop;
+
+  -- Keep the sender-visible history short; delivered rows only back the
+  -- tray's "just sent" state.
+  delete from public.scheduled_messages queued
+  where queued.status in ('sent', 'canceled')
+    and queued.updated_at < now() - interval '7 days';
+
+  return delivered_count;
+end;
+$$;
+
+revoke all on function scheduled_messages_private.create_scheduled_message_impl(text, uuid, text, timestamptz, uuid, text)
+  from public, anon, authenticated, service_role;
+revoke all on function scheduled_messages_private.update_scheduled_message_impl(uuid, text, timestamptz)
+  from public, anon, authenticated, service_role;
+revoke all on function scheduled_messages_private.cancel_scheduled_message_impl(uuid)
+  from public, anon, authenticated, service_role;
+revoke all on function scheduled_messages_private.list_my_scheduled_messages_impl(text, uuid)
+  from public, anon, authenticated, service_role;
+revoke all on function scheduled_messages_private.deliver_due_scheduled_messages(integer)
+  from public, anon, authenticated, service_role;
+
+grant execute on function scheduled_messages_private.create_scheduled_message_impl(text, uuid, text, timestamptz, uuid, text)
+  to authenticated, service_role;
+grant execute on function scheduled_messages_private.update_scheduled_message_impl(uuid, text, timestamptz)
+  to authenticated, service_role;
+grant execute on function scheduled_messages_private.cancel_scheduled_message_impl(uuid)
+  to authenticated, service_role;
+grant execute on function scheduled_messages_private.list_my_scheduled_messages_impl(text, uuid)
+  to authenticated, service_role;
+
+create function public.create_scheduled_message(
+  target_surface text,
+  target_conversation_id uuid,
+  target_content text,
+  target_send_at timestamptz,
+  target_reply_to uuid default null,
+  target_client_message_id text default null
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select scheduled_messages_private.create_scheduled_message_impl(
+    target_surface,
+    target_conversation_id,
+    target_content,
+    target_send_at,
+    target_reply_to,
+    target_client_message_id
+  );
+$$;
+
+create function public.update_scheduled_message(
+  target_id uuid,
+  target_content text,
+  target_send_at timestamptz
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select scheduled_messages_private.update_scheduled_message_impl(target_id, target_content, target_send_at);
+$$;
+
+create function public.cancel_scheduled_message(target_id uuid)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select scheduled_messages_private.cancel_scheduled_message_impl(target_id);
+$$;
+
+create function public.list_my_scheduled_messages(
+  target_surface text default null,
+  target_conversation_id uuid default null
+)
+returns setof jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select * from scheduled_messages_private.list_my_scheduled_messages_impl(target_surface, target_conversation_id);
+$$;
+
+revoke all on function public.create_scheduled_message(text, uuid, text, timestamptz, uuid, text)
+  from public, anon, authenticated, service_role;
+revoke all on function public.update_scheduled_message(uuid, text, timestamptz)
+  from public, anon, authenticated, service_role;
+revoke all on function public.cancel_scheduled_message(uuid)
+  from public, anon, authenticated, service_role;
+revoke all on function public.list_my_scheduled_messages(text, uuid)
+  from public, anon, authenticated, service_role;
+
+grant execute on function public.create_scheduled_message(text, uuid, text, timestamptz, uuid, text)
+  to authenticated, service_role;
+grant execute on function public.update_scheduled_message(uuid, text, timestamptz)
+  to authenticated, service_role;
+grant execute on function public.cancel_scheduled_message(uuid)
+  to authenticated, service_role;
+grant execute on function public.list_my_scheduled_messages(text, uuid)
+  to authenticated, service_role;
+
+do $publication$
+begin
+  if exists (
+    select 1
+    from pg_publication
+    where pubname = 'supabase_realtime'
+  ) and not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'scheduled_messages'
+  ) then
+    alter publication supabase_realtime
+      add table public.scheduled_messages;
+  end if;
+end
+$publication$;
+
+do $schedule_scheduled_message_delivery$
+declare
+  existing_job_id bigint;
+begin
+  for existing_job_id in
+    select jobs.jobid
+    from cron.job jobs
+    where jobs.jobname = 'shadowchat-scheduled-message-delivery'
+  loop
+    perform cron.unschedule(existing_job_id);
+  end loop;
+
+  perform cron.schedule(
+    'shadowchat-scheduled-message-delivery',
+    '* * * * *',
+    $command$select scheduled_messages_private.deliver_due_scheduled_messages(50);$command$
+  );
+end
+$schedule_scheduled_message_delivery$;
+
+comment on function public.create_scheduled_message(text, uuid, text, timestamptz, uuid, text) is
+  'Queues a caller-owned General Chat or DM text message for server-side delivery between one minute and 30 days from now.';
+comment on function public.list_my_scheduled_messages(text, uuid) is
+  'Returns the caller''s pending, sending, and failed scheduled messages, optionally narrowed to one conversation.';
+comment on function scheduled_messages_private.deliver_due_scheduled_messages(integer) is
+  'Cron worker that posts due scheduled messages as their senders after re-checking bans and DM membership.';
+
+commit;
@@ -0,0 +1,280 @@
+/*
+  # Message edit history
+
+  `messages.edited_at` and `dm_messages.edited_at` only say that a message
+  changed. Every content edit now stores the replaced text as a numbered
+  revision so members can open the timeline behind "(edited)" and moderators
+  can compare a reported message against what was originally posted.
+
+  Revisions are captured by an after-update trigger, so the existing client
+  edit paths keep working unchanged. Revision rows have no browser table
+  authority. Members read them through a caller-scoped RPC that applies the
+  same visibility as the parent message (personal blocks for General Chat,
+  participation for DMs). Operators read them through a case-scoped RPC with
+  the same claim requirement as `get_moderation_case`. Revisions cascade with
+  their message, so deleting a message also deletes its history.
+*/
+
+begin;
+
+create schema if not exists message_history_private;
+
+revoke all on schema message_history_private from public, anon, authenticated;
+grant usage on schema message_history_private to authenticated, service_role;
+
+alter default privileges for role postgres in schema message_history_private
+  revoke execute on functions from public;
+
+create table public.message_revisions (
+  id uuid primary key default gen_random_uuid(),
+  surface text not null check (surface in ('general', 'dm')),
+  message_id uuid references public.messages(id) on delete cascade,
+  dm_message_id uuid references public.dm_messages(id) on delete cascade,
+  revision_number integer not null check (revision_number > 0),
+  content text not null,
+  edited_by uuid references public.users(id) on delete set null,
+  replaced_at timestamptz not null default now(),
+  constraint message_revisions_surface_target_check check (
+    (surface = 'general' and message_id is not null and dm_message_id is null)
+    or (surface = 'dm' and dm_message_id is not null and message_id is null)
+  ),
+  constraint message_revisions_message_number_key unique (message_id, revision_number),
+  constraint message_revisions_dm_message_number_key unique (dm_message_id, revision_number)
+);
+
+alter table public.message_revisions enable row level security;
+
+revoke all on table public.message_revisions
+  from public, anon, authenticated, service_role;
+grant select on table public.message_revisions to service_role;
+
+comment on table public.message_revisions is
+  'Replaced text for edited General Chat and DM messages, numbered from the original (1). Browser roles use guarded history RPCs only.';
+comment on column public.message_revisions.content is
+  'Message text before this edit. Revision 1 is the originally posted text.';
+
+create function message_history_private.capture_message_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  target_surface text := case when tg_table_name = 'dm_messages' then 'dm' else 'general' end;
+  next_revision integer;
+begin
+  if target_surface = 'general' then
+    select coalesce(max(revisions.revision_number), 0) + 1
+    into next_revision
+    from public.message_revisions revisions
+    where revisions.message_id = old.id;
+
+    insert into public.message_revisions (surface, message_id, revision_number, content, edited_by)
+    values ('general', old.id, next_revision, coalesce(old.content, ''), coalesce(auth.uid(), new.user_id));
+  else
+    select coalesce(max(revisions.revision_number), 0) + 1
+    into next_revision
+    from public.message_revisions revisions
+    where revisions.dm_message_id = old.id;
+
+    insert into public.message_revisions (surface, dm_message_id, revision_number, content, edited_by)
+    values ('dm', old.id, next_revision, coalesce(old.content, ''), coalesce(auth.uid(), new.sender_id));
+  end if;
+
+  return new;
+end;
+$$;
+
+revoke all on function message_history_private.capture_message_revision()
+  from public, anon, authenticated, service_role;
+
+create trigger capture_message_revision
+  after update of content on public.messages
+  for each row
+  when (old.content is distinct from new.content)
+  execute function message_history_private.capture_message_revision();
+
+create trigger capture_dm_message_revision
+  after update of content on public.dm_messages
+  for each row
+  when (old.content is distinct from new.content)
+  execute function message_history_private.capture_message_revision();
+
+create function message_history_private.message_history_json(
+  target_surface text,
+  target_message_id uuid
+)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'surface', target_surface,
+    'message_id', target_message_id,
+    'current_content', current_message.content,
+    'created_at', current_message.created_at,
+    'edited_at', current_message.edited_at,
+    'revisions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'revision_number', revisions.revision_number,
+          'content', revisions.content,
+          'replaced_at', revisions.replaced_at
+        )
+        order by revisions.revision_number
+      )
+      from public.message_revisions revisions
+      where (target_surface = 'general' and revisions.message_id = target_message_id)
+        or (target_surface = 'dm' and revisions.dm_message_id = target_message_id)
+    ), '[]'::jsonb)
+  )
+  from (
+    select messages.content, messages.created_at, messages.edited_at
+    from public.messages messages
+    where target_surface = 'general'
+      and messages.id = target_message_id
+    union all
+    select messages.content, messages.created_at, messages.edited_at
+    from public.dm_messages messages
+    where target_surface = 'dm'
+      and messages.id = target_message_id
+  ) current_message;
+$$;
+
+revoke all on function message_history_private.message_history_json(text, uuid)
+  from public, anon, authenticated, service_role;
+
+create function message_history_private.get_message_edit_history_impl(
+  target_surface text,
+  target_message_id uuid
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  visible boolean := false;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if target_surface = 'general' then
+    select not private.users_have_block(caller_id, messages.user_id)
+    into visible
+    from public.messages messages
+    where messages.id = target_message_id;
+  elsif target_surface = 'dm' then
+    select caller_id = any (conversations.participants)
+      and not private.users_have_block(caller_id, messages.sender_id)
+    into visible
+    from public.dm_messages messages
+    join public.dm_conversations conversations on conversations.id = messages.conversation_id
+    where messages.id = target_message_id;
+  else
+    raise exception 'Unsupported message surface';
+  end if;
+
+  if not coalesce(visible, false) then
+    raise exception using
+      errcode = '42501',
+      message = 'Message history is unavailable';
+  end if;
+
+  return message_history_private.message_history_json(target_surface, target_message_id);
+end;
+$$;
+
+create function message_history_private.get_moderation_case_message_history_impl(p_case_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_case public.moderation_cases%rowtype;
+begin
+  if caller_id is null or not public.is_app_operator(caller_id) then
+    raise exception 'Operator access required';
+  end if;
+
+  select * into target_case
+  from public.moderation_cases cases
+  where cases.id = p_case_id;
+
+  if not found or not private.can_operator_access_moderation_case(caller_id, p_case_id) then
+    raise exception 'Case is not available';
+  end if;
+
+  if not public.is_app_admin(caller_id)
+    and target_case.assigned_to is distinct from caller_id then
+    raise exception 'Claim this case before opening private evidence';
+  end if;
+
+  if target_case.target_type not in ('general_message', 'dm_message') then
+    return null;
+  end if;
+
+  return message_history_private.message_history_json(
+    case when target_case.target_type = 'dm_message' then 'dm' else 'general' end,
+    target_case.target_id
+  );
+end;
+$$;
+
+revoke all on function message_history_private.get_message_edit_history_impl(text, uuid)
+  from public, anon, authenticated, service_role;
+revoke all on function message_history_private.get_moderation_case_message_history_impl(uuid)
+  from public, anon, authenticated, service_role;
+
+grant execute on function message_history_private.get_message_edit_history_impl(text, uuid)
+  to authenticated, service_role;
+grant execute on function message_history_private.get_moderation_case_message_history_impl(uuid)
+  to authenticated, service_role;
+
+create function public.get_message_edit_history(
+  target_surface text,
+  target_message_id uuid
+)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select message_history_private.get_message_edit_history_impl(target_surface, target_message_id);
+$$;
+
+create function public.get_moderation_case_message_history(p_case_id uuid)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select message_history_private.get_moderation_case_message_history_impl(p_case_id);
+$$;
+
+revoke all on function public.get_message_edit_history(text, uuid)
+  from public, anon, authenticated, service_role;
+revoke all on function public.get_moderation_case_message_history(uuid)
+  from public, anon, authenticated, service_role;
+
+grant execute on function public.get_message_edit_history(text, uuid)
+  to authenticated, service_role;
+grant execute on function public.get_moderation_case_message_history(uuid)
+  to authenticated, service_role;
+
+comment on function public.get_message_edit_history(text, uuid) is
+  'Returns the current text and prior revisions of a General Chat or DM message the caller can see.';
+comment on function public.get_moderation_case_message_history(uuid) is
+  'Returns the revision timeline for a claimed message moderation case, including the originally posted text.';
+
+commit;
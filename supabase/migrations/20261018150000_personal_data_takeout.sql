@@ -0,0 +1,77 @@
+/*
+  # Personal data takeout
+
+  Members can download a zip of their own Shadow Chat data from Settings. The
+  `data-takeout` Edge Function owns every write: it records a request row,
+  assembles the archive in the background while updating `progress` and
+  `stage`, uploads it to the private `data-takeouts` bucket, and hands out
+  short-lived signed download links until `expires_at`.
+
+  Browsers only read their own rows so Settings can poll progress. Archives
+  are never readable through storage policies; the function signs each
+  download after re-checking ownership and expiry.
+*/
+
+begin;
+
+create table public.data_takeout_exports (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  status text not null default 'processing'
+    check (status in ('processing', 'ready', 'failed', 'expired')),
+  progress integer not null default 0 check (progress between 0 and 100),
+  stage text,
+  storage_path text,
+  byte_size bigint check (byte_size is null or byte_size >= 0),
+  failure_reason text,
+  requested_at timestamptz not null default now(),
+  completed_at timestamptz,
+  expires_at timestamptz,
+  updated_at timestamptz not null default now(),
+  constraint data_takeout_exports_ready_check check (
+    status <> 'ready'
+    or (storage_path is not null and completed_at is not null and expires_at is not null)
+  )
+);
+
+create index data_takeout_exports_user_requested_idx
+  on public.data_takeout_exports (user_id, requested_at desc);
+
+create unique index data_takeout_exports_one_processing_idx
+  on public.data_takeout_exports (user_id)
+  where status = 'processing';
+
+create trigger update_data_takeout_exports_updated_at
+  before update on public.data_takeout_exports
+  for each row execute function public.update_updated_at_column();
+
+alter table public.data_takeout_exports enable row level security;
+
+create policy "Members can read their data takeout exports"
+  on public.data_takeout_exports
+  for select
+  to authenticated
+  using (user_id = (select auth.uid()));
+
+revoke all on table public.data_takeout_exports
+  from public, anon, authenticated, service_role;
+grant select on table public.data_takeout_exports to authenticated;
+grant select, insert, update, delete on table public.data_takeout_exports to service_role;
+
+comment on table public.data_takeout_exports is
+  'Owner-readable status of personal data takeout archives. Only the data-takeout Edge Function writes rows or touches the archive objects.';
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'data-takeouts',
+  'data-takeouts',
+  false,
+  524288000,
+  array['application/zip']
+)
+on conflict (id) do update set
+  public = excluded.public,
+  file_size_limit = excluded.file_size_limit,
+  allowed_mime_types = excluded.allowed_mime_types;
+
+commit;
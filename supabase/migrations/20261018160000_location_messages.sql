@@ -0,0 +1,401 @@
+/*
+  # Location and live location messages
+
+  A shared location is a `message_type = 'location'` DM row plus one
+  `message_locations` row holding the coordinates. The message content carries
+  the place label so previews, search, and notifications work unchanged.
+
+  A live location is the same row with `live_until` set. While it is active the
+  sender's device moves the pin in place through `update_live_location`, and
+  either the sender stopping or `live_until` passing freezes it at the last
+  position. Sharing is limited to DMs so a live position is only ever visible
+  to the people in the conversation.
+
+  Participants read location rows through RLS, and the table is published to
+  Realtime so open conversations see the pin move. Writes go through guarded
+  caller-scoped RPCs that respect the `all_interaction` channel-ban scope.
+*/
+
+begin;
+
+create schema if not exists message_locations_private;
+
+revoke all on schema message_locations_private from public, anon, authenticated;
+grant usage on schema message_locations_private to authenticated, service_role;
+
+alter default privileges for role postgres in schema message_locations_private
+  revoke execute on functions from public;
+
+create table public.message_locations (
+  id uuid primary key default gen_random_uuid(),
+  dm_message_id uuid not null references public.dm_messages(id) on delete cascade,
+  conversation_id uuid not null references public.dm_conversations(id) on delete cascade,
+  sender_id uuid not null references public.users(id) on delete cascade,
+  label text,
+  latitude double precision not null check (latitude between -90 and 90),
+  longitude double precision not null check (longitude between -180 and 180),
+  accuracy_meters real check (accuracy_meters is null or accuracy_meters >= 0),
+  live_until timestamptz,
+  stopped_at timestamptz,
+  location_revision integer not null default 0 check (location_revision >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint message_locations_label_check check (
+    label is null
+    or (label = btrim(label) and char_length(label) between 1 and 120)
+  ),
+  constraint message_locations_live_until_check check (
+    live_until is null or live_until > created_at
+  ),
+  constraint message_locations_dm_message_key unique (dm_message_id)
+);
+
+create index message_locations_conversation_idx
+  on public.message_locations (conversation_id, created_at desc);
+create index message_locations_active_live_idx
+  on public.message_locations (sender_id, live_until)
+  where live_until is not null and stopped_at is null;
+
+create trigger update_message_locations_updated_at
+  before update on public.message_locations
+  for each row execute function public.update_updated_at_column();
+
+alter table public.message_locations enable row level security;
+
+create policy "Participants can read shared locations"
+  on public.message_locations
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.dm_conversations conversations
+      where conversations.id = message_locations.conversation_id
+        and (select auth.uid()) = any (conversations.participants)
+    )
+  );
+
+revoke all on table public.message_locations
+  from public, anon, authenticated, service_role;
+grant select on table public.message_locations to authenticated;
+grant select on table public.message_locations to service_role;
+
+comment on table public.message_locations is
+  'Coordinates for DM location messages. Live rows move in place until stopped or expired; browser roles read through RLS and write through guarded RPCs.';
+
+create function message_locations_private.location_json(target_location public.message_locations)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'id', target_location.id,
+    'message_id', target_location.dm_message_id,
+    'conversation_id', target_location.conversation_id,
+    'sender_id', target_location.sender_id,
+    'label', target_location.label,
+    'latitude', target_location.latitude,
+    'longitude', target_location.longitude,
+    'accuracy_meters', target_location.accuracy_meters,
+    'live_until', target_location.live_until,
+    'stopped_at', target_location.stopped_at,
+    'location_revision', target_location.location_revision,
+    'created_at', target_location.created_at,
+    'updated_at', target_location.updated_at
+  );
+$$;
+
+revoke all on function message_locations_private.location_json(public.message_locations)
+  from public, anon, authenticated, service_role;
+
+create function message_locations_private.require_valid_position(
+  target_latitude double precision,
+  target_longitude double precision,
+  target_accuracy_meters real
+)
+returns void
+language plpgsql
+immutable
+security invoker
+set search_path = ''
+as $$
+begin
+  if target_latitude is null or target_longitude is null
+    or target_latitude not between -90 and 90
+    or target_longitude not between -180 and 180 then
+    raise exception 'Location coordinates are invalid';
+  end if;
+
+  if target_accuracy_meters is not null and target_accuracy_meters < 0 then
+    raise exception 'Location accuracy is invalid';
+  end if;
+end;
+$$;
+
+revoke all on function message_locations_private.require_valid_position(double precision, double precision, real)
+  from public, anon, authenticated, service_role;
+
+create function message_locations_private.create_location_message_impl(
+  target_conversation_id uuid,
+  target_latitude double precision,
+  target_longitude double precision,
+  target_label text,
+  target_accuracy_meters real,
+  target_live_minutes integer,
+  target_client_message_id text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  normalized_label text := nullif(btrim(coalesce(target_label, '')), '');
+  created_message_id uuid;
+  created_location public.message_locations;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if public.is_user_channel_banned(caller_id, 'all_interaction') then
+    raise exception using message = public.get_channel_ban_block_message(caller_id, 'all_interaction');
+  end if;
+
+  perform message_locations_private.require_valid_position(
+    target_latitude, target_longitude, target_accuracy_meters
+  );
+
+  if normalized_label is not null and char_length(normalized_label) > 120 then
+    raise exception 'Location names must be 120 characters or shorter';
+  end if;
+
+  if target_live_minutes is not null and target_live_minutes not between 1 and 480 then
+    raise exception 'Live location can be shared for up to 8 hours';
+  end if;
+
+  if target_conversation_id is null or not exists (
+    select 1
+    from public.dm_conversations conversations
+    where conversations.id = target_conversation_id
+      and caller_id = any (conversations.participants)
+  ) then
+    raise exception using
+      errcode = '42501',
+      message = 'Conversation is unavailable';
+  end if;
+
+  insert into public.dm_messages (conversation_id, sender_id, client_message_id, content, message_type)
+  values (
+    target_conversation_id, caller_id,
+    nullif(btrim(coalesce(target_client_message_id, '')), ''),
+    coalesce(normalized_label, case when target_live_minutes is null then 'Location' else 'Live location' end),
+    'location'
+  )
+  returning id into created_message_id;
+
+  insert into public.message_locations (
+    dm_message_id, conversation_id, sender_id, label,
+    latitude, longitude, accuracy_meters, live_until
+  )
+  values (
+    created_message_id, target_conversation_id, caller_id, normalized_label,
+    target_latitude, target_longitude, target_accuracy_meters,
+    case when target_live_minutes is null then null
+      else now() + make_interval(mins => target_live_minutes) end
+  )
+  returning * into created_location;
+
+  return message_locations_private.location_json(created_location);
+end;
+$$;
+
+create function message_locations_private.update_live_location_impl(
+  target_location_id uuid,
+  target_latitude double precision,
+  target_longitude double precision,
+  target_accuracy_meters real
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_location public.message_locations;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if public.is_user_channel_banned(caller_id, 'all_interaction') then
+    raise exception using message = public.get_channel_ban_block_message(caller_id, 'all_interaction');
+  end if;
+
+  perform message_locations_private.require_valid_position(
+    target_latitude, target_longitude, target_accuracy_meters
+  );
+
+  update public.message_locations locations
+  set latitude = target_latitude,
+      longitude = target_longitude,
+      accuracy_meters = target_accuracy_meters,
+      location_revision = locations.location_revision + 1
+  where locations.id = target_location_id
+    and locations.sender_id = caller_id
+    and locations.live_until > now()
+    and locations.stopped_at is null
+  returning * into target_location;
+
+  if target_location.id is null then
+    raise exception 'Live location has ended';
+  end if;
+
+  return message_locations_private.location_json(target_location);
+end;
+$$;
+
+create function message_locations_private.stop_live_location_impl(target_location_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_location public.message_locations;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  update public.message_locations locations
+  set stopped_at = coalesce(locations.stopped_at, least(now(), locations.live_until)),
+      location_revision = locations.location_revision + 1
+  where locations.id = target_location_id
+    and locations.sender_id = caller_id
+    and locations.live_until is not null
+  returning * into target_location;
+
+  if target_location.id is null then
+    raise exception using
+      errcode = '42501',
+      message = 'Only the sender can stop sharing this location';
+  end if;
+
+  return message_locations_private.location_json(target_location);
+end;
+$$;
+
+revoke all on function message_locations_private.create_location_message_impl(uuid, double precision, double precision, text, real, integer, text)
+  from public, anon, authenticated, service_role;
+revoke all on function message_locations_private.update_live_location_impl(uuid, double precision, double precision, real)
+  from public, anon, authenticated, service_role;
+revoke all on function message_locations_private.stop_live_location_impl(uuid)
+  from public, anon, authenticated, service_role;
+
+grant execute on function message_locations_private.create_location_message_impl(uuid, double precision, double precision, text, real, integer, text)
+  to authenticated, service_role;
+grant execute on function message_locations_private.update_live_location_impl(uuid, double precision, double precision, real)
+  to authenticated, service_role;
+grant execute on function message_locations_private.stop_live_location_impl(uuid)
+  to authenticated, service_role;
+
+create function public.create_location_message(
+  target_conversation_id uuid,
+  target_latitude double precision,
+  target_longitude double precision,
+  target_label text default null,
+  target_accuracy_meters real default null,
+  target_live_minutes integer default null,
+  target_client_message_id text default null
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select message_locations_private.create_location_message_impl(
+    target_conversation_id,
+    target_latitude,
+    target_longitude,
+    target_label,
+    target_accuracy_meters,
+    target_live_minutes,
+    target_client_message_id
+  );
+$$;
+
+create function public.update_live_location(
+  target_location_id uuid,
+  target_latitude double precision,
+  target_longitude double precision,
+  target_accuracy_meters real default null
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select message_locations_private.update_live_location_impl(
+    target_location_id,
+    target_latitude,
+    target_longitude,
+    target_accuracy_meters
+  );
+$$;
+
+create function public.stop_live_location(target_location_id uuid)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select message_locations_private.stop_live_location_impl(target_location_id);
+$$;
+
+revoke all on function public.create_location_message(uuid, double precision, double precision, text, real, integer, text)
+  from public, anon, authenticated, service_role;
+revoke all on function public.update_live_location(uuid, double precision, double precision, real)
+  from public, anon, authenticated, service_role;
+revoke all on function public.stop_live_location(uuid)
+  from public, anon, authenticated, service_role;
+
+grant execute on function public.create_location_message(uuid, double precision, double precision, text, real, integer, text)
+  to authenticated, service_role;
+grant execute on function public.update_live_location(uuid, double precision, double precision, real)
+  to authenticated, service_role;
+grant execute on function public.stop_live_location(uuid)
+  to authenticated, service_role;
+
+do $publication$
+begin
+  if exists (
+    select 1
+    from pg_publication
+    where pubname = 'supabase_realtime'
+  ) and not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'message_locations'
+  ) then
+    alter publication supabase_realtime
+      add table public.message_locations;
+  end if;
+end
+$publication$;
+
+comment on function public.create_location_message(uuid, double precision, double precision, text, real, integer, text) is
+  'Posts a location message to a caller DM. A live duration in minutes (up to 480) makes the pin updatable until it expires or is stopped.';
+comment on function public.update_live_location(uuid, double precision, double precision, real) is
+  'Moves the caller''s active live location in place.';
+comment on function public.stop_live_location(uuid) is
+  'Ends the caller''s live location, freezing the pin at its last position.';
+
+commit;
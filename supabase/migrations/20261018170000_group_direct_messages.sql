@@ -0,0 +1,1184 @@
+/*
+  # Group direct messages
+
+  A group DM is a `dm_conversations` row with `kind = 'group'`, a title, an
+  optional avatar, and 3 to 20 people in `participants`. Membership stays in
+  the same array that one-to-one conversations use, so message, poll,
+  location, preference, search, shared-content, and read-receipt access keeps
+  flowing through the existing `auth.uid() = any (participants)` policies.
+
+  One-to-one conversations keep their canonical sorted pair and unique key.
+  Groups are created and changed only through guarded caller-scoped RPCs:
+  any member can rename the group, change its avatar, or add people; the
+  owner can remove people; anyone can leave. Ownership passes to the next
+  member when the owner leaves and the conversation is deleted when the last
+  member does.
+
+  Personal blocks behave per person inside a group. Nobody can add someone
+  they have a block with, blocked members' messages stay hidden from each
+  other by the existing restrictive history policy, reactions are checked
+  against the message author, and activity fans out to every other member
+  except blocked pairs. The inbox RPC keeps its name and adds group metadata
+  plus the member profiles the caller may see.
+*/
+
+begin;
+
+lock table public.dm_conversations in share row exclusive mode;
+
+create schema if not exists group_dms_private;
+
+revoke all on schema group_dms_private from public, anon, authenticated;
+grant usage on schema group_dms_private to authenticated, service_role;
+
+alter default privileges for role postgres in schema group_dms_private
+  revoke execute on functions from public;
+
+alter table public.dm_conversations
+  add column kind text not null default 'direct',
+  add column title text,
+  add column avatar_url text,
+  add column created_by uuid references public.users(id) on delete set null;
+
+alter table public.dm_conversations
+  drop constraint if exists dm_conversations_two_sorted_participants_check;
+alter table public.dm_conversations
+  add constraint dm_conversations_kind_check check (kind in ('direct', 'group')),
+  add constraint dm_conversations_participants_shape_check check (
+    case kind
+      when 'direct' then
+        cardinality(participants) = 2
+        and participants[1] is not null
+        and participants[2] is not null
+        and participants[1] < participants[2]
+      else
+        cardinality(participants) between 1 and 20
+        and array_position(participants, null) is null
+    end
+  ),
+  add constraint dm_conversations_group_profile_check check (
+    case kind
+      when 'direct' then title is null and avatar_url is null
+      else
+        title is not null
+        and title = btrim(title)
+        and char_length(title) between 1 and 80
+        and (avatar_url is null or char_length(avatar_url) <= 2048)
+    end
+  );
+
+-- The pair key only identifies one-to-one threads. Groups may share a member
+-- set, and a group that shrinks to two people must never satisfy a pair lookup.
+drop index if exists public.dm_conversations_participants_pair_key;
+create unique index dm_conversations_participants_pair_key
+  on public.dm_conversations (participants)
+  where kind = 'direct';
+
+create index dm_conversations_group_created_by_idx
+  on public.dm_conversations (created_by, created_at desc)
+  where kind = 'group';
+
+comment on column public.dm_conversations.kind is
+  'direct for a canonical two-person thread, group for a titled conversation of up to 20 members.';
+
+create or replace function public.get_or_create_dm_conversation(other_user_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  conversation_id uuid;
+  participants_array uuid[];
+begin
+  if current_user_id is null then
+    raise exception 'User not authenticated';
+  end if;
+
+  if other_user_id is null then
+    raise exception 'Other user is required';
+  end if;
+
+  if current_user_id = other_user_id then
+    raise exception 'Cannot create conversation with yourself';
+  end if;
+
+  if not exists (
+    select 1
+    from public.users users
+    where users.id = get_or_create_dm_conversation.other_user_id
+  ) then
+    raise exception 'User not found';
+  end if;
+
+  if private.users_have_block(current_user_id, other_user_id) then
+    raise exception using
+      errcode = '42501',
+      message = 'Messaging is unavailable for this user';
+  end if;
+
+  participants_array := array[
+    least(current_user_id, other_user_id),
+    greatest(current_user_id, other_user_id)
+  ];
+
+  perform pg_catalog.pg_advisory_xact_lock(
+    pg_catalog.hashtextextended(pg_catalog.array_to_string(participants_array, ':'), 0)
+  );
+
+  select conversations.id
+    into conversation_id
+  from public.dm_conversations conversations
+  where conversations.kind = 'direct'
+    and conversations.participants = participants_array;
+
+  if conversation_id is null then
+    insert into public.dm_conversations (participants)
+    values (participants_array)
+    on conflict (participants) where kind = 'direct' do nothing
+    returning id into conversation_id;
+
+    if conversation_id is null then
+      select conversations.id
+        into strict conversation_id
+      from public.dm_conversations conversations
+      where conversations.kind = 'direct'
+        and conversations.participants = participants_array;
+    end if;
+  end if;
+
+  return conversation_id;
+end;
+$$;
+
+revoke all on function public.get_or_create_dm_conversation(uuid)
+  from public, anon, authenticated, service_role;
+grant execute on function public.get_or_create_dm_conversation(uuid)
+  to authenticated, service_role;
+
+-- A block between two group members hides their messages from each other but
+-- does not silence either of them for everyone else in the group.
+drop policy if exists "Blocked pairs cannot send direct messages" on public.dm_messages;
+create policy "Blocked pairs cannot send direct messages"
+  on public.dm_messages
+  as restrictive
+  for insert
+  to authenticated
+  with check (
+    not exists (
+      select 1
+      from public.dm_conversations conversations
+      cross join lateral unnest(conversations.participants) participant_id
+      where conversations.id = dm_messages.conversation_id
+        and conversations.kind = 'direct'
+        and participant_id <> (select auth.uid())
+        and private.users_have_block((select auth.uid()), participant_id)
+    )
+  );
+
+create or replace function private.enforce_dm_message_not_blocked()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  conversation_kind text;
+  conversation_participants uuid[];
+  other_user_id uuid;
+begin
+  select conversations.kind, conversations.participants
+  into conversation_kind, conversation_participants
+  from public.dm_conversations conversations
+  where conversations.id = new.conversation_id;
+
+  if conversation_participants is null
+    or not (new.sender_id = any (conversation_participants)) then
+    raise exception using
+      errcode = '42501',
+      message = 'Sender is not a participant in this conversation';
+  end if;
+
+  if conversation_kind = 'group' then
+    return new;
+  end if;
+
+  select participant_id
+  into other_user_id
+  from unnest(conversation_participants) participant_id
+  where participant_id <> new.sender_id
+  limit 1;
+
+  if private.users_have_block(new.sender_id, other_user_id) then
+    raise exception using
+      errcode = '42501',
+      message = 'Messaging is unavailable for this user';
+  end if;
+
+  return new;
+end;
+$$;
+
+revoke all on function private.enforce_dm_message_not_blocked()
+  from public, anon, authenticated;
+
+-- Same trigger identity as the engagement hardening migration; only the DM
+-- reaction branch changes.
+create or replace function private.enforce_dm_reaction_not_blocked()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  interaction_user_id uuid;
+  target_user_id uuid;
+  target_message_id uuid;
+  target_category_id uuid;
+  conversation_kind text;
+  conversation_participants uuid[];
+  recent_count integer;
+begin
+  if tg_table_schema <> 'public' then
+    raise exception 'Unsupported engagement trigger source';
+  end if;
+
+  if tg_table_name = 'user_blocks' then
+    update public.notification_events events
+    set read_at = coalesce(events.read_at, now())
+    where events.read_at is null
+      and (
+        (
+          events.user_id = new.blocker_id
+          and events.payload #>> '{actor,id}' = new.blocked_id::text
+        )
+        or (
+          events.user_id = new.blocked_id
+          and events.payload #>> '{actor,id}' = new.blocker_id::text
+        )
+      );
+    return new;
+  end if;
+
+  if tg_table_name = 'shadow_pin_activity_sessions' then
+    interaction_user_id := new.user_id;
+    if auth.uid() is not null and interaction_user_id is distinct from auth.uid() then
+      raise exception using errcode = '42501', message = 'Activity session owner is invalid';
+    end if;
+
+    if coalesce(auth.jwt() ->> 'role', '') <> 'service_role'
+      and session_user not in ('postgres', 'supabase_admin') then
+      select count(*)::integer
+      into recent_count
+      from public.shadow_pin_activity_sessions sessions
+      where sessions.user_id = interaction_user_id
+        and sessions.created_at >= now() - interval '1 hour';
+
+      if recent_count >= 120 then
+        raise exception using errcode = '54000', message = 'Too many ShadowPin activity sessions';
+      end if;
+    end if;
+    return new;
+  end if;
+
+  if tg_table_name = 'shadow_pin_images' then
+    if coalesce(auth.jwt() ->> 'role', '') <> 'service_role'
+      and session_user not in ('postgres', 'supabase_admin') then
+      if auth.uid() is null or new.creator_id is distinct from auth.uid() then
+        raise exception using errcode = '42501', message = 'ShadowPin creator is invalid';
+      end if;
+
+      select count(*)::integer
+      into recent_count
+      from public.shadow_pin_images images
+      where images.creator_id = new.creator_id
+        and images.created_at >= now() - interval '1 minute';
+
+      if recent_count >= 12 then
+        raise exception using errcode = '54000', message = 'Too many ShadowPin posts. Try again shortly.';
+      end if;
+
+      select count(*)::integer
+      into recent_count
+      from public.shadow_pin_images images
+      where images.creator_id = new.creator_id
+        and images.created_at >= now() - interval '1 day';
+
+      if recent_count >= 100 then
+        raise exception using errcode = '54000', message = 'Daily ShadowPin post limit reached';
+      end if;
+    end if;
+    return new;
+  end if;
+
+  if tg_table_name = 'shadow_pin_tags' then
+    if not exists (
+      select 1
+      from public.shadow_pin_image_tags image_tags
+      where image_tags.tag_id = new.id
+    ) then
+      raise exception using errcode = '23514', message = 'ShadowPin tags must be attached to a pin';
+    end if;
+    return new;
+  end if;
+
+  if tg_table_name = 'shadow_pin_image_tags' then
+    if tg_op = 'DELETE' then
+      delete from public.shadow_pin_tags tags
+      where tags.id = old.tag_id
+        and not exists (
+          select 1
+          from public.shadow_pin_image_tags remaining
+          where remaining.tag_id = old.tag_id
+        );
+      return old;
+    end if;
+    return new;
+  end if;
+
+  if tg_table_name = 'shadow_pin_activity_events' then
+    interaction_user_id := new.user_id;
+
+    if new.source = 'live' then
+      if auth.uid() is not null and interaction_user_id is distinct from auth.uid() then
+        raise exception using errcode = '42501', message = 'Activity event owner is invalid';
+      end if;
+      if jsonb_typeof(new.metadata) is distinct from 'object'
+        or octet_length(new.metadata::text) > 4096
+        or (select count(*) from pg_catalog.jsonb_object_keys(new.metadata)) > 24 then
+        raise exception using errcode = '22023', message = 'ShadowPin activity metadata is too large';
+      end if;
+
+      select count(*)::integer
+      into recent_count
+      from public.shadow_pin_activity_events events
+      where events.user_id = interaction_user_id
+        and events.created_at >= now() - interval '1 minute';
+
+      if recent_count >= 120 then
+        raise exception using errcode = '54000', message = 'Too many ShadowPin activity events';
+      end if;
+    end if;
+
+    if new.image_id is not null then
+      select images.creator_id
+      into target_user_id
+      from public.shadow_pin_images images
+      where images.id = new.image_id;
+    elsif new.category_id is not null then
+      select categories.creator_id
+      into target_user_id
+      from public.shadow_pin_categories categories
+      where categories.id = new.category_id;
+    end if;
+
+    if new.event_type in ('pin_created', 'pin_edited', 'pin_deleted',
+                          'category_created', 'category_edited', 'category_deleted')
+      and target_user_id is distinct from interaction_user_id
+      and not public.is_app_operator(interaction_user_id) then
+      raise exception using errcode = '42501', message = 'ShadowPin activity action is not authorized';
+    end if;
+
+    if new.event_type = 'pin_heart_added'
+      and not exists (
+        select 1 from public.shadow_pin_image_hearts hearts
+        where hearts.image_id = new.image_id and hearts.user_id = interaction_user_id
+      ) then
+      raise exception using errcode = '42501', message = 'ShadowPin heart activity is not current';
+    end if;
+
+    if new.event_type = 'category_heart_added'
+      and not exists (
+        select 1 from public.shadow_pin_category_hearts hearts
+        where hearts.category_id = new.category_id and hearts.user_id = interaction_user_id
+      ) then
+      raise exception using errcode = '42501', message = 'ShadowPin category heart activity is not current';
+    end if;
+  elsif tg_table_name = 'message_reactions' then
+    if tg_op = 'DELETE' then
+      interaction_user_id := old.user_id;
+      target_message_id := coalesce(old.dm_message_id, old.message_id);
+    else
+      interaction_user_id := new.user_id;
+      target_message_id := coalesce(new.dm_message_id, new.message_id);
+    end if;
+
+    if (case when tg_op = 'DELETE' then old.dm_message_id else new.dm_message_id end) is not null then
+      select conversations.kind, conversations.participants, messages.sender_id
+      into conversation_kind, conversation_participants, target_user_id
+      from public.dm_messages messages
+      join public.dm_conversations conversations on conversations.id = messages.conversation_id
+      where messages.id = target_message_id;
+
+      if conversation_participants is null
+        or not (interaction_user_id = any (conversation_participants)) then
+        raise exception using errcode = '42501', message = 'Reaction user is not a participant in this conversation';
+      end if;
+
+      -- A group reaction engages the message author, not the whole group.
+      if conversation_kind = 'direct' then
+        select participant_id
+        into target_user_id
+        from unnest(conversation_participants) participant_id
+        where participant_id <> interaction_user_id
+        limit 1;
+      end if;
+    else
+      select messages.user_id
+      into target_user_id
+      from public.messages messages
+      where messages.id = target_message_id;
+
+      if not found then
+        raise exception using errcode = '42501', message = 'Message is not available';
+      end if;
+    end if;
+  elsif tg_table_name = 'message_hypes' then
+    interaction_user_id := new.actor_id;
+    target_user_id := new.message_author_id;
+  elsif tg_table_name = 'shadow_pin_category_hearts' then
+    if tg_op = 'DELETE' then
+      interaction_user_id := old.user_id;
+      target_category_id := old.category_id;
+    else
+      interaction_user_id := new.user_id;
+      target_category_id := new.category_id;
+    end if;
+    select categories.creator_id
+    into target_user_id
+    from public.shadow_pin_categories categories
+    where categories.id = target_category_id and categories.deleted_at is null;
+  elsif tg_table_name = 'shadow_pin_image_hearts' then
+    if tg_op = 'DELETE' then
+      interaction_user_id := old.user_id;
+      target_message_id := old.image_id;
+    else
+      interaction_user_id := new.user_id;
+      target_message_id := new.image_id;
+    end if;
+    select images.creator_id
+    into target_user_id
+    from public.shadow_pin_images images
+    where images.id = target_message_id and images.deleted_at is null;
+  else
+    raise exception 'Unsupported engagement trigger table: %', tg_table_name;
+  end if;
+
+  if interaction_user_id is not null
+    and target_user_id is not null
+    and private.users_have_block(interaction_user_id, target_user_id) then
+    raise exception using errcode = '42501', message = 'Interaction is unavailable for this user';
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+revoke all on function private.enforce_dm_reaction_not_blocked()
+  from public, anon, authenticated;
+
+create or replace function private.create_dm_activity_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.activity_events (
+    user_id,
+    actor_id,
+    type,
+    entity_id,
+    conversation_id,
+    dm_message_id,
+    body_preview,
+    dedupe_key,
+    occurred_at
+  )
+  select
+    recipient_id,
+    new.sender_id,
+    'dm_message',
+    new.id,
+    new.conversation_id,
+    new.id,
+    left(coalesce(nullif(new.content, ''), 'Sent an attachment'), 240),
+    concat('activity:dm:', new.id, ':', recipient_id),
+    coalesce(new.created_at, now())
+  from public.dm_conversations conversations
+  cross join lateral unnest(conversations.participants) recipient_id
+  where conversations.id = new.conversation_id
+    and recipient_id <> new.sender_id
+    and not private.users_have_block(new.sender_id, recipient_id)
+  on conflict (dedupe_key) do nothing;
+
+  return new;
+end;
+$$;
+
+revoke all on function private.create_dm_activity_event()
+  from public, anon, authenticated;
+
+drop function if exists public.get_dm_conversations();
+
+create function public.get_dm_conversations()
+returns table (
+  id uuid,
+  participants uuid[],
+  last_message_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  other_user jsonb,
+  last_message jsonb,
+  unread_count integer,
+  is_blocked boolean,
+  blocked_by_me boolean,
+  kind text,
+  title text,
+  avatar_url text,
+  created_by uuid,
+  members jsonb
+)
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  caller_user_id uuid := auth.uid();
+begin
+  if caller_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    conversation_row.id,
+    conversation_row.participants,
+    conversation_row.last_message_at,
+    conversation_row.created_at,
+    conversation_row.updated_at,
+    case
+      when conversation_row.kind = 'group' then null
+      else (
+        select public.user_public_profile_json(other_user_row)
+        from public.users other_user_row
+        where other_user_row.id <> caller_user_id
+          and other_user_row.id = any (conversation_row.participants)
+        limit 1
+      )
+    end as other_user,
+    case
+      when relationship.is_blocked then null
+      else (
+        select to_jsonb(message_row)
+        from public.dm_messages message_row
+        where message_row.conversation_id = conversation_row.id
+          and (
+            message_row.sender_id = caller_user_id
+            or not private.users_have_block(caller_user_id, message_row.sender_id)
+          )
+        order by message_row.created_at desc, message_row.id desc
+        limit 1
+      )
+    end as last_message,
+    case
+      when relationship.is_blocked then 0
+      else (
+        select count(*)::integer
+        from public.dm_messages unread_message_row
+        where unread_message_row.conversation_id = conversation_row.id
+          and unread_message_row.sender_id <> caller_user_id
+          and not private.users_have_block(caller_user_id, unread_message_row.sender_id)
+          and (
+            unread_message_row.read_by is null
+            or not (caller_user_id = any (unread_message_row.read_by))
+          )
+      )
+    end as unread_count,
+    relationship.is_blocked,
+    relationship.blocked_by_me,
+    conversation_row.kind,
+    conversation_row.title,
+    conversation_row.avatar_url,
+    conversation_row.created_by,
+    case
+      when conversation_row.kind = 'group' then (
+        select coalesce(
+          jsonb_agg(public.user_public_profile_json(member_row) order by member_entry.member_order),
+          '[]'::jsonb
+        )
+        from unnest(conversation_row.participants) with ordinality member_entry(member_id, member_order)
+        join public.users member_row on member_row.id = member_entry.member_id
+        where member_row.id = caller_user_id
+          or not private.users_have_block(caller_user_id, member_row.id)
+      )
+      else null
+    end as members
+  from public.dm_conversations conversation_row
+  cross join lateral (
+    select case
+      when conversation_row.kind = 'direct' then (
+        select participant_id
+        from unnest(conversation_row.participants) participant_id
+        where participant_id <> caller_user_id
+        limit 1
+      )
+    end as other_user_id
+  ) direct_pair
+  cross join lateral (
+    select
+      private.users_have_block(caller_user_id, direct_pair.other_user_id) as is_blocked,
+      exists (
+        select 1
+        from public.user_blocks blocks
+        where blocks.blocker_id = caller_user_id
+          and blocks.blocked_id = direct_pair.other_user_id
+      ) as blocked_by_me
+  ) relationship
+  where caller_user_id = any (conversation_row.participants)
+  order by conversation_row.last_message_at desc, conversation_row.id desc;
+end;
+$$;
+
+revoke all on function public.get_dm_conversations()
+  from public, anon, authenticated;
+grant execute on function public.get_dm_conversations() to authenticated;
+
+comment on function public.get_dm_conversations() is
+  'Returns preserved DM threads with safe profiles and a direction-private pair-block state. Groups add their title, avatar, owner, and the member profiles the caller may see. Blocked previews and unread counts are suppressed.';
+
+create function group_dms_private.normalize_title(target_title text)
+returns text
+language plpgsql
+immutable
+security invoker
+set search_path = ''
+as $$
+declare
+  normalized_title text := btrim(regexp_replace(coalesce(target_title, ''), '\s+', ' ', 'g'));
+begin
+  if normalized_title = '' then
+    raise exception 'Group name is required';
+  end if;
+
+  if char_length(normalized_title) > 80 then
+    raise exception 'Group names must be 80 characters or shorter';
+  end if;
+
+  return normalized_title;
+end;
+$$;
+
+revoke all on function group_dms_private.normalize_title(text)
+  from public, anon, authenticated, service_role;
+
+-- Group avatars are uploaded to the caller's own folder in the public avatars
+-- bucket, so the stored URL can never point at a third-party tracker.
+create function group_dms_private.normalize_avatar_url(
+  caller_id uuid,
+  target_avatar_url text
+)
+returns text
+language plpgsql
+immutable
+security invoker
+set search_path = ''
+as $$
+declare
+  normalized_url text := nullif(btrim(coalesce(target_avatar_url, '')), '');
+begin
+  if normalized_url is null then
+    return null;
+  end if;
+
+  if char_length(normalized_url) > 2048
+    or normalized_url !~ '^https://'
+    or strpos(normalized_url, concat('/storage/v1/object/public/avatars/', caller_id, '/')) = 0 then
+    raise exception 'Group photo must be uploaded from this device';
+  end if;
+
+  return normalized_url;
+end;
+$$;
+
+revoke all on function group_dms_private.normalize_avatar_url(uuid, text)
+  from public, anon, authenticated, service_role;
+
+-- Returns the distinct new people to add, rejecting unknown accounts and
+-- anyone who has a block with the caller in either direction.
+create function group_dms_private.require_new_members(
+  caller_id uuid,
+  target_member_ids uuid[],
+  existing_member_ids uuid[]
+)
+returns uuid[]
+language plpgsql
+stable
+security invoker
+set search_path = ''
+as $$
+declare
+  new_member_ids uuid[];
+begin
+  select coalesce(array_agg(distinct member_id), array[]::uuid[])
+  into new_member_ids
+  from unnest(coalesce(target_member_ids, array[]::uuid[])) member_id
+  where member_id is not null
+    and member_id <> caller_id
+    and not (member_id = any (coalesce(existing_member_ids, array[]::uuid[])));
+
+  if exists (
+    select 1
+    from unnest(new_member_ids) member_id
+    where not exists (
+      select 1 from public.users users where users.id = member_id
+    )
+  ) then
+    raise exception 'One of these members could not be found';
+  end if;
+
+  if exists (
+    select 1
+    from unnest(new_member_ids) member_id
+    where private.users_have_block(caller_id, member_id)
+  ) then
+    raise exception using
+      errcode = '42501',
+      message = 'Messaging is unavailable for one of these members';
+  end if;
+
+  return new_member_ids;
+end;
+$$;
+
+revoke all on function group_dms_private.require_new_members(uuid, uuid[], uuid[])
+  from public, anon, authenticated, service_role;
+
+create function group_dms_private.lock_group_for_member(
+  caller_id uuid,
+  target_conversation_id uuid
+)
+returns public.dm_conversations
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  target_conversation public.dm_conversations;
+begin
+  select conversations.*
+  into target_conversation
+  from public.dm_conversations conversations
+  where conversations.id = target_conversation_id
+    and conversations.kind = 'group'
+    and caller_id = any (conversations.participants)
+  for update;
+
+  if target_conversation.id is null then
+    raise exception using
+      errcode = '42501',
+      message = 'Group conversation is unavailable';
+  end if;
+
+  return target_conversation;
+end;
+$$;
+
+revoke all on function group_dms_private.lock_group_for_member(uuid, uuid)
+  from public, anon, authenticated, service_role;
+
+-- A member who leaves or is removed keeps nothing that points back at the
+-- conversation: no inbox organization state and no unread activity.
+create function group_dms_private.forget_member(
+  target_conversation_id uuid,
+  target_member_id uuid
+)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  delete from public.dm_conversation_preferences preferences
+  where preferences.conversation_id = target_conversation_id
+    and preferences.user_id = target_member_id;
+
+  update public.activity_events events
+  set read_at = coalesce(events.read_at, now())
+  where events.conversation_id = target_conversation_id
+    and events.user_id = target_member_id
+    and events.read_at is null;
+$$;
+
+revoke all on function group_dms_private.forget_member(uuid, uuid)
+  from public, anon, authenticated, service_role;
+
+create function group_dms_private.group_json(target_conversation public.dm_conversations)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'id', target_conversation.id,
+    'kind', target_conversation.kind,
+    'title', target_conversation.title,
+    'avatar_url', target_conversation.avatar_url,
+    'created_by', target_conversation.created_by,
+    'participants', to_jsonb(target_conversation.participants),
+    'updated_at', target_conversation.updated_at
+  );
+$$;
+
+revoke all on function group_dms_private.group_json(public.dm_conversations)
+  from public, anon, authenticated, service_role;
+
+create function group_dms_private.create_group_dm_conversation_impl(
+  group_title text,
+  member_ids uuid[],
+  group_avatar_url text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  normalized_title text;
+  normalized_avatar_url text;
+  new_member_ids uuid[];
+  recent_count integer;
+  created_conversation public.dm_conversations;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if public.is_user_channel_banned(caller_id, 'all_interaction') then
+    raise exception using message = public.get_channel_ban_block_message(caller_id, 'all_interaction');
+  end if;
+
+  normalized_title := group_dms_private.normalize_title(group_title);
+  normalized_avatar_url := group_dms_private.normalize_avatar_url(caller_id, group_avatar_url);
+  new_member_ids := group_dms_private.require_new_members(caller_id, member_ids, array[]::uuid[]);
+
+  if cardinality(new_member_ids) + 1 not between 3 and 20 then
+    raise exception 'Groups need 3 to 20 members including you';
+  end if;
+
+  select count(*)::integer
+  into recent_count
+  from public.dm_conversations conversations
+  where conversations.kind = 'group'
+    and conversations.created_by = caller_id
+    and conversations.created_at >= now() - interval '1 hour';
+
+  if recent_count >= 10 then
+    raise exception using
+      errcode = '54000',
+      message = 'Too many new groups. Try again later.';
+  end if;
+
+  insert into public.dm_conversations (kind, title, avatar_url, created_by, participants)
+  values ('group', normalized_title, normalized_avatar_url, caller_id, array[caller_id] || new_member_ids)
+  returning * into created_conversation;
+
+  return group_dms_private.group_json(created_conversation);
+end;
+$$;
+
+create function group_dms_private.update_group_dm_conversation_impl(
+  target_conversation_id uuid,
+  group_title text,
+  group_avatar_url text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_conversation public.dm_conversations;
+  normalized_avatar_url text;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if public.is_user_channel_banned(caller_id, 'all_interaction') then
+    raise exception using message = public.get_channel_ban_block_message(caller_id, 'all_interaction');
+  end if;
+
+  target_conversation := group_dms_private.lock_group_for_member(caller_id, target_conversation_id);
+
+  -- Keeping the current photo is always allowed, even when another member
+  -- uploaded it; a new photo must come from the caller's own folder.
+  normalized_avatar_url := nullif(btrim(coalesce(group_avatar_url, '')), '');
+  if normalized_avatar_url is distinct from target_conversation.avatar_url then
+    normalized_avatar_url := group_dms_private.normalize_avatar_url(caller_id, normalized_avatar_url);
+  end if;
+
+  update public.dm_conversations conversations
+  set title = group_dms_private.normalize_title(group_title),
+      avatar_url = normalized_avatar_url,
+      updated_at = now()
+  where conversations.id = target_conversation.id
+  returning * into target_conversation;
+
+  return group_dms_private.group_json(target_conversation);
+end;
+$$;
+
+create function group_dms_private.add_group_dm_members_impl(
+  target_conversation_id uuid,
+  member_ids uuid[]
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_conversation public.dm_conversations;
+  new_member_ids uuid[];
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if public.is_user_channel_banned(caller_id, 'all_interaction') then
+    raise exception using message = public.get_channel_ban_block_message(caller_id, 'all_interaction');
+  end if;
+
+  target_conversation := group_dms_private.lock_group_for_member(caller_id, target_conversation_id);
+  new_member_ids := group_dms_private.require_new_members(
+    caller_id, member_ids, target_conversation.participants
+  );
+
+  if cardinality(new_member_ids) = 0 then
+    raise exception 'Choose someone who is not already in this group';
+  end if;
+
+  if cardinality(target_conversation.participants) + cardinality(new_member_ids) > 20 then
+    raise exception 'Groups can have up to 20 members';
+  end if;
+
+  update public.dm_conversations conversations
+  set participants = conversations.participants || new_member_ids,
+      updated_at = now()
+  where conversations.id = target_conversation.id
+  returning * into target_conversation;
+
+  return group_dms_private.group_json(target_conversation);
+end;
+$$;
+
+create function group_dms_private.remove_group_dm_member_impl(
+  target_conversation_id uuid,
+  member_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_conversation public.dm_conversations;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  target_conversation := group_dms_private.lock_group_for_member(caller_id, target_conversation_id);
+
+  if target_conversation.created_by is distinct from caller_id then
+    raise exception using
+      errcode = '42501',
+      message = 'Only the group owner can remove members';
+  end if;
+
+  if member_id is null or member_id = caller_id then
+    raise exception 'Use leave group to remove yourself';
+  end if;
+
+  if not (member_id = any (target_conversation.participants)) then
+    raise exception 'That person is not in this group';
+  end if;
+
+  update public.dm_conversations conversations
+  set participants = array_remove(conversations.participants, member_id),
+      updated_at = now()
+  where conversations.id = target_conversation.id
+  returning * into target_conversation;
+
+  perform group_dms_private.forget_member(target_conversation.id, member_id);
+
+  return group_dms_private.group_json(target_conversation);
+end;
+$$;
+
+create function group_dms_private.leave_group_dm_conversation_impl(target_conversation_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_conversation public.dm_conversations;
+  remaining_member_ids uuid[];
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  target_conversation := group_dms_private.lock_group_for_member(caller_id, target_conversation_id);
+  remaining_member_ids := array_remove(target_conversation.participants, caller_id);
+
+  if cardinality(remaining_member_ids) = 0 then
+    delete from public.dm_conversations conversations
+    where conversations.id = target_conversation.id;
+    return;
+  end if;
+
+  update public.dm_conversations conversations
+  set participants = remaining_member_ids,
+      created_by = case
+        when conversations.created_by is null or conversations.created_by = caller_id
+          then remaining_member_ids[1]
+        else conversations.created_by
+      end,
+      updated_at = now()
+  where conversations.id = target_conversation.id;
+
+  perform group_dms_private.forget_member(target_conversation.id, caller_id);
+end;
+$$;
+
+revoke all on function group_dms_private.create_group_dm_conversation_impl(text, uuid[], text)
+  from public, anon, authenticated, service_role;
+revoke all on function group_dms_private.update_group_dm_conversation_impl(uuid, text, text)
+  from public, anon, authenticated, service_role;
+revoke all on function group_dms_private.add_group_dm_members_impl(uuid, uuid[])
+  from public, anon, authenticated, service_role;
+revoke all on function group_dms_private.remove_group_dm_member_impl(uuid, uuid)
+  from public, anon, authenticated, service_role;
+revoke all on function group_dms_private.leave_group_dm_conversation_impl(uuid)
+  from public, anon, authenticated, service_role;
+
+grant execute on function group_dms_private.create_group_dm_conversation_impl(text, uuid[], text)
+  to authenticated, service_role;
+grant execute on function group_dms_private.update_group_dm_conversation_impl(uuid, text, text)
+  to authenticated, service_role;
+grant execute on function group_dms_private.add_group_dm_members_impl(uuid, uuid[])
+  to authenticated, service_role;
+grant execute on function group_dms_private.remove_group_dm_member_impl(uuid, uuid)
+  to authenticated, service_role;
+grant execute on function group_dms_private.leave_group_dm_conversation_impl(uuid)
+  to authenticated, service_role;
+
+create function public.create_group_dm_conversation(
+  group_title text,
+  member_ids uuid[],
+  group_avatar_url text default null
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select group_dms_private.create_group_dm_conversation_impl(group_title, member_ids, group_avatar_url);
+$$;
+
+create function public.update_group_dm_conversation(
+  target_conversation_id uuid,
+  group_title text,
+  group_avatar_url text default null
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select group_dms_private.update_group_dm_conversation_impl(
+    target_conversation_id,
+    group_title,
+    group_avatar_url
+  );
+$$;
+
+create function public.add_group_dm_members(
+  target_conversation_id uuid,
+  member_ids uuid[]
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select group_dms_private.add_group_dm_members_impl(target_conversation_id, member_ids);
+$$;
+
+create function public.remove_group_dm_member(
+  target_conversation_id uuid,
+  member_id uuid
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select group_dms_private.remove_group_dm_member_impl(target_conversation_id, member_id);
+$$;
+
+create function public.leave_group_dm_conversation(target_conversation_id uuid)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  select group_dms_private.leave_group_dm_conversation_impl(target_conversation_id);
+$$;
+
+revoke all on function public.create_group_dm_conversation(text, uuid[], text)
+  from public, anon, authenticated, service_role;
+revoke all on function public.update_group_dm_conversation(uuid, text, text)
+  from public, anon, authenticated, service_role;
+revoke all on function public.add_group_dm_members(uuid, uuid[])
+  from public, anon, authenticated, service_role;
+revoke all on function public.remove_group_dm_member(uuid, uuid)
+  from public, anon, authenticated, service_role;
+revoke all on function public.leave_group_dm_conversation(uuid)
+  from public, anon, authenticated, service_role;
+
+grant execute on function public.create_group_dm_conversation(text, uuid[], text)
+  to authenticated, service_role;
+grant execute on function public.update_group_dm_conversation(uuid, text, text)
+  to authenticated, service_role;
+grant execute on function public.add_group_dm_members(uuid, uuid[])
+  to authenticated, service_role;
+grant execute on function public.remove_group_dm_member(uuid, uuid)
+  to authenticated, service_role;
+grant execute on function public.leave_group_dm_conversation(uuid)
+  to authenticated, service_role;
+
+comment on function public.create_group_dm_conversation(text, uuid[], text) is
+  'Creates a titled group DM owned by the caller with 2 to 19 other people the caller has no block with.';
+comment on function public.update_group_dm_conversation(uuid, text, text) is
+  'Renames a group DM the caller belongs to and sets or clears its photo.';
+comment on function public.add_group_dm_members(uuid, uuid[]) is
+  'Adds people to a group DM the caller belongs to, up to 20 members.';
+comment on function public.remove_group_dm_member(uuid, uuid) is
+  'Removes a member from a group DM. Only the group owner can remove people.';
+comment on function public.leave_group_dm_conversation(uuid) is
+  'Removes the caller from a group DM, passing ownership on and deleting the group when nobody is left.';
+
+commit;
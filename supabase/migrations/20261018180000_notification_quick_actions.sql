@@ -0,0 +1,152 @@
+/*
+  # Notification quick actions
+
+  DM notifications can now carry `reply`, `react`, and `mute_conversation`
+  alongside `open` and `mark_read`, so a DM can be answered from the lock
+  screen without opening the app.
+
+  The envelope projection keeps its existing shape. A BEFORE INSERT trigger
+  widens the action keys for incoming DMs only; the bridge copy a sender gets
+  of their own message keeps the plain actions. Delivery only presents quick
+  actions when it can also mint a signed action token, and the
+  `notification-action` Edge Function is the only writer that redeems one.
+
+  Reacting from a notification adds the quick reaction once instead of
+  toggling it, so a repeated tap on a stale notification never removes it.
+  The helper is service-role only and runs as the caller; membership and
+  block checks stay with the existing `message_reactions` engagement trigger.
+*/
+
+begin;
+
+do $$
+declare
+  constraint_name text;
+begin
+  for constraint_name in
+    select constraints.conname
+    from pg_constraint constraints
+    where constraints.conrelid = 'public.notification_envelopes_v2'::regclass
+      and constraints.contype = 'c'
+      and pg_get_constraintdef(constraints.oid) like '%action_keys%'
+  loop
+    execute format(
+      'alter table public.notification_envelopes_v2 drop constraint %I',
+      constraint_name
+    );
+  end loop;
+end;
+$$;
+
+alter table public.notification_envelopes_v2
+  add constraint notification_envelopes_v2_action_keys_allowed
+  check (
+    action_keys <@ array['open', 'mark_read', 'reply', 'react', 'mute_conversation']::text[]
+    and cardinality(action_keys) between 1 and 5
+  );
+
+create or replace function private.apply_notification_v2_action_keys()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  quick_action_keys text[];
+begin
+  select array['open', 'mark_read', 'reply', 'react', 'mute_conversation']::text[]
+  into quick_action_keys
+  from public.notification_events events
+  where events.id = new.event_id
+    and events.user_id = new.user_id
+    and events.type = 'dm_message'
+    and events.conversation_id is not null
+    and events.dm_message_id is not null
+    and coalesce(events.actor_id::text, events.payload ->> 'sender_id')
+      is distinct from events.user_id::text;
+
+  if quick_action_keys is not null then
+    new.action_keys := quick_action_keys;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_notification_v2_action_keys
+  on public.notification_envelopes_v2;
+create trigger apply_notification_v2_action_keys
+  before insert on public.notification_envelopes_v2
+  for each row execute function private.apply_notification_v2_action_keys();
+
+revoke all on function private.apply_notification_v2_action_keys()
+  from public, anon, authenticated;
+
+create or replace function public.notification_action_react_to_dm_message(
+  target_message_id uuid,
+  reacting_user_id uuid,
+  reaction_emoji text
+)
+returns boolean
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  current_reactions jsonb;
+  emoji_data jsonb;
+begin
+  if target_message_id is null
+    or reacting_user_id is null
+    or coalesce(char_length(reaction_emoji), 0) not between 1 and 16 then
+    raise exception using errcode = '22023', message = 'Message, user, and emoji are required';
+  end if;
+
+  -- Lock the message so concurrent reactions fold into one aggregate.
+  select coalesce(messages.reactions, '{}'::jsonb)
+  into current_reactions
+  from public.dm_messages messages
+  where messages.id = target_message_id
+  for update;
+
+  if not found then
+    raise exception using errcode = 'P0002', message = 'Message is not available';
+  end if;
+
+  if exists (
+    select 1
+    from public.message_reactions reactions
+    where reactions.dm_message_id = target_message_id
+      and reactions.user_id = reacting_user_id
+      and reactions.emoji = reaction_emoji
+  ) then
+    return false;
+  end if;
+
+  insert into public.message_reactions (dm_message_id, user_id, emoji)
+  values (target_message_id, reacting_user_id, reaction_emoji);
+
+  emoji_data := current_reactions -> reaction_emoji;
+  update public.dm_messages
+  set reactions = current_reactions || jsonb_build_object(
+    reaction_emoji,
+    jsonb_build_object(
+      'count', coalesce((emoji_data ->> 'count')::integer, 0) + 1,
+      'users', coalesce(emoji_data -> 'users', '[]'::jsonb) || jsonb_build_array(reacting_user_id)
+    )
+  )
+  where id = target_message_id;
+
+  return true;
+end;
+$$;
+
+revoke all on function public.notification_action_react_to_dm_message(uuid, uuid, text)
+  from public, anon, authenticated;
+grant execute on function public.notification_action_react_to_dm_message(uuid, uuid, text)
+  to service_role;
+
+comment on function public.notification_action_react_to_dm_message(uuid, uuid, text) is
+  'Adds one quick reaction to a DM for a verified notification action; returns false when it already exists.';
+
+commit;
@@ -0,0 +1,438 @@
+/*
+  # Notification digests
+
+  Low-priority alerts can be rolled into one summary push per category
+  instead of firing individually. Each member picks `immediate`, `hourly`, or
+  `daily` for Interactions (reactions and Hype), ShadowPin (new posts and
+  comments), Active users, and Games. DMs, mentions, and replies are never
+  held.
+
+  A held event still lands in the notification ledger and Catch-Up; a BEFORE
+  INSERT trigger only tags it with the member's open digest batch. Web
+  recovery jobs and V2 outbox rows created for a tagged event are cancelled
+  on insert, so neither transport presents it on its own.
+
+  The existing one-minute web push recovery run flushes due batches first.
+  A flush re-counts the batch's still-unread events, writes one
+  `notification_digest` event that summarises them, and queues its web
+  delivery job; the V2 projection picks it up like any other event. A batch
+  whose events were all read in the meantime is cancelled silently. Marking
+  the digest read marks the events it summarises read too.
+
+  Hourly batches close on the next hour. Daily batches close at 09:00 in the
+  member's notification time zone. Everything here runs as the caller; the
+  flush is service-role only.
+*/
+
+begin;
+
+alter table public.notification_preferences
+  add column if not exists interactions_digest_mode text not null default 'immediate',
+  add column if not exists shadow_pin_digest_mode text not null default 'immediate',
+  add column if not exists presence_digest_mode text not null default 'immediate',
+  add column if not exists games_digest_mode text not null default 'immediate';
+
+alter table public.notification_preferences
+  drop constraint if exists notification_preferences_digest_modes_check,
+  add constraint notification_preferences_digest_modes_check check (
+    interactions_digest_mode in ('immediate', 'hourly', 'daily')
+    and shadow_pin_digest_mode in ('immediate', 'hourly', 'daily')
+    and presence_digest_mode in ('immediate', 'hourly', 'daily')
+    and games_digest_mode in ('immediate', 'hourly', 'daily')
+  );
+
+create table public.notification_digest_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  category text not null
+    check (category in ('interactions', 'shadow_pin', 'presence', 'games')),
+  cadence text not null check (cadence in ('hourly', 'daily')),
+  status text not null default 'open' check (status in ('open', 'sent', 'cancelled')),
+  due_at timestamptz not null,
+  event_count integer not null default 0 check (event_count >= 0),
+  type_counts jsonb not null default '{}'::jsonb
+    check (jsonb_typeof(type_counts) = 'object'),
+  digest_event_id uuid references public.notification_events(id) on delete set null,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (due_at > created_at),
+  check ((status = 'sent') = (sent_at is not null))
+);
+
+create unique index notification_digest_batches_open_key
+  on public.notification_digest_batches (user_id, category)
+  where status = 'open';
+create index notification_digest_batches_due_idx
+  on public.notification_digest_batches (due_at, id)
+  where status = 'open';
+create index notification_digest_batches_digest_event_idx
+  on public.notification_digest_batches (digest_event_id)
+  where digest_event_id is not null;
+
+alter table public.notification_digest_batches enable row level security;
+
+create policy "Members read their own notification digests"
+  on public.notification_digest_batches
+  for select
+  to authenticated
+  using (user_id = (select auth.uid()));
+
+revoke all on table public.notification_digest_batches from public, anon, authenticated;
+grant select on table public.notification_digest_batches to authenticated;
+grant select, insert, update, delete on table public.notification_digest_batches to service_role;
+
+alter table public.notification_events
+  add column if not exists digest_batch_id uuid
+    references public.notification_digest_batches(id) on delete set null;
+
+create index if not exists notification_events_digest_batch_idx
+  on public.notification_events (digest_batch_id, created_at desc)
+  where digest_batch_id is not null;
+
+create or replace function private.notification_digest_category(target_type text)
+returns text
+language sql
+immutable
+security invoker
+set search_path = ''
+as $$
+  select case
+    when target_type in ('reaction', 'hype_event') then 'interactions'
+    when target_type in ('shadow_pin_post', 'shadow_pin_comment') then 'shadow_pin'
+    when target_type = 'presence_active' then 'presence'
+    when target_type in ('shadow_checkers_turn', 'shadow_war_turn') then 'games'
+    else null
+  end
+$$;
+
+create or replace function private.notification_digest_due_at(
+  target_cadence text,
+  target_timezone text,
+  opened_at timestamptz
+)
+returns timestamptz
+language plpgsql
+stable
+security invoker
+set search_path = ''
+as $$
+declare
+  resolved_timezone text := 'UTC';
+  local_due timestamp;
+begin
+  if target_cadence = 'hourly' then
+    return date_trunc('hour', opened_at) + interval '1 hour';
+  end if;
+
+  -- Preference time zones are free text; an unknown one must not block inserts.
+  if exists (
+    select 1 from pg_catalog.pg_timezone_names zones where zones.name = target_timezone
+  ) then
+    resolved_timezone := target_timezone;
+  end if;
+
+  local_due := date_trunc('day', opened_at at time zone resolved_timezone) + interval '9 hours';
+  if local_due <= opened_at at time zone resolved_timezone then
+    local_due := local_due + interval '1 day';
+  end if;
+  return local_due at time zone resolved_timezone;
+end;
+$$;
+
+create or replace function private.hold_notification_event_for_digest()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  digest_category text := private.notification_digest_category(new.type);
+  digest_cadence text;
+  digest_timezone text;
+begin
+  if digest_category is null
+    or new.sent_at is not null
+    or new.read_at is not null
+    or new.resolved_at is not null then
+    return new;
+  end if;
+
+  select
+    case digest_category
+      when 'interactions' then preferences.interactions_digest_mode
+      when 'shadow_pin' then preferences.shadow_pin_digest_mode
+      when 'presence' then preferences.presence_digest_mode
+      when 'games' then preferences.games_digest_mode
+    end,
+    preferences.quiet_hours_timezone
+  into digest_cadence, digest_timezone
+  from public.notification_preferences preferences
+  where preferences.user_id = new.user_id;
+
+  if coalesce(digest_cadence, 'immediate') = 'immediate' then
+    return new;
+  end if;
+
+  insert into public.notification_digest_batches (user_id, category, cadence, due_at)
+  values (
+    new.user_id,
+    digest_category,
+    digest_cadence,
+    private.notification_digest_due_at(digest_cadence, digest_timezone, now())
+  )
+  on conflict (user_id, category) where status = 'open'
+  do update set updated_at = now()
+  returning id into new.digest_batch_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists hold_notification_event_for_digest
+  on public.notification_events;
+create trigger hold_notification_event_for_digest
+  before insert on public.notification_events
+  for each row execute function private.hold_notification_event_for_digest();
+
+create or replace function private.cancel_held_notification_delivery()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  target_event_id uuid;
+begin
+  -- Separate branches: each table only has one of the two event columns.
+  if tg_table_name = 'notification_delivery_jobs' then
+    target_event_id := new.notification_event_id;
+  else
+    target_event_id := new.event_id;
+  end if;
+
+  if new.status = 'pending' and exists (
+    select 1
+    from public.notification_events events
+    where events.id = target_event_id
+      and events.digest_batch_id is not null
+  ) then
+    new.status := 'cancelled';
+    new.completed_at := now();
+    new.last_error := 'Held for notification digest';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cancel_held_notification_delivery
+  on public.notification_delivery_jobs;
+create trigger cancel_held_notification_delivery
+  before insert on public.notification_delivery_jobs
+  for each row execute function private.cancel_held_notification_delivery();
+
+drop trigger if exists cancel_held_notification_delivery
+  on public.notification_outbox_v2;
+create trigger cancel_held_notification_delivery
+  before insert on public.notification_outbox_v2
+  for each row execute function private.cancel_held_notification_delivery();
+
+create or replace function private.notification_digest_label(target_type text, target_count integer)
+returns text
+language sql
+immutable
+security invoker
+set search_path = ''
+as $$
+  select target_count::text || ' ' || case target_type
+    when 'reaction' then case when target_count = 1 then 'reaction' else 'reactions' end
+    when 'hype_event' then case when target_count = 1 then 'Hype alert' else 'Hype alerts' end
+    when 'shadow_pin_post' then case when target_count = 1 then 'new Pin' else 'new Pins' end
+    when 'shadow_pin_comment' then case when target_count = 1 then 'comment' else 'comments' end
+    when 'presence_active' then case when target_count = 1 then 'member came online' else 'members came online' end
+    when 'shadow_checkers_turn' then case when target_count = 1 then 'Checkers turn' else 'Checkers turns' end
+    when 'shadow_war_turn' then case when target_count = 1 then 'Shadow War turn' else 'Shadow War turns' end
+    else case when target_count = 1 then 'update' else 'updates' end
+  end
+$$;
+
+create or replace function private.mark_notification_digest_events_read()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  update public.notification_events events
+  set read_at = new.read_at
+  from public.notification_digest_batches batches
+  where batches.digest_event_id = new.id
+    and batches.user_id = new.user_id
+    and events.digest_batch_id = batches.id
+    and events.user_id = new.user_id
+    and events.read_at is null;
+  return new;
+end;
+$$;
+
+drop trigger if exists mark_notification_digest_events_read
+  on public.notification_events;
+create trigger mark_notification_digest_events_read
+  after update of read_at on public.notification_events
+  for each row
+  when (
+    new.type = 'notification_digest'
+    and old.read_at is null
+    and new.read_at is not null
+  )
+  execute function private.mark_notification_digest_events_read();
+
+revoke all on function private.notification_digest_category(text) from public, anon, authenticated;
+revoke all on function private.notification_digest_due_at(text, text, timestamptz) from public, anon, authenticated;
+revoke all on function private.hold_notification_event_for_digest() from public, anon, authenticated;
+revoke all on function private.cancel_held_notification_delivery() from public, anon, authenticated;
+revoke all on function private.notification_digest_label(text, integer) from public, anon, authenticated;
+revoke all on function private.mark_notification_digest_events_read() from public, anon, authenticated;
+
+create or replace function public.flush_due_notification_digests(batch_size integer default 50)
+returns integer
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  batch record;
+  summary record;
+  digest_title text;
+  digest_route text;
+  digest_id uuid;
+  flushed integer := 0;
+begin
+  for batch in
+    select batches.id, batches.user_id, batches.category, batches.cadence
+    from public.notification_digest_batches batches
+    where batches.status = 'open'
+      and batches.due_at <= now()
+    order by batches.due_at, batches.id
+    limit least(greatest(coalesce(batch_size, 50), 1), 200)
+    for update skip locked
+  loop
+    -- Only what is still unread belongs in the summary.
+    select
+      coalesce(sum(type_totals.total), 0)::integer as event_count,
+      coalesce(jsonb_object_agg(type_totals.type, type_totals.total), '{}'::jsonb) as type_counts,
+      string_agg(
+        private.notification_digest_label(type_totals.type, type_totals.total::integer),
+        ', ' order by type_totals.total desc, type_totals.type
+      ) as body,
+      max(type_totals.latest_route) filter (where type_totals.total = 1) as single_route
+    into summary
+    from (
+      select
+        events.type,
+        count(*) as total,
+        (array_agg(events.route order by events.created_at desc))[1] as latest_route
+      from public.notification_events events
+      where events.digest_batch_id = batch.id
+        and events.user_id = batch.user_id
+        and events.read_at is null
+        and events.resolved_at is null
+      group by events.type
+    ) type_totals;
+
+    if summary.event_count = 0 then
+      update public.notification_digest_batches
+      set status = 'cancelled', updated_at = now()
+      where id = batch.id;
+      continue;
+    end if;
+
+    digest_title := case batch.cadence when 'hourly' then 'Hourly ' else 'Daily ' end
+      || case batch.category
+        when 'interactions' then 'Interactions digest'
+        when 'shadow_pin' then 'ShadowPin digest'
+        when 'presence' then 'Active users digest'
+        else 'Games digest'
+      end;
+    digest_route := case
+      when summary.event_count = 1 and summary.single_route is not null then summary.single_route
+      when batch.category = 'shadow_pin' then '/?view=pins'
+      when batch.category = 'presence' then '/?view=active-users'
+      when batch.category = 'games' then '/?view=games'
+      else '/?view=catchup'
+    end;
+
+    insert into public.notification_events (
+      user_id,
+      type,
+      entity_id,
+      category,
+      route,
+      payload,
+      dedupe_key,
+      presentation_expires_at
+    ) values (
+      batch.user_id,
+      'notification_digest',
+      batch.id,
+      batch.category,
+      digest_route,
+      jsonb_build_object(
+        'title', digest_title,
+        'body', summary.body,
+        'route', digest_route,
+        'digest_batch_id', batch.id,
+        'digest_category', batch.category,
+        'cadence', batch.cadence,
+        'event_count', summary.event_count,
+        'type_counts', summary.type_counts
+      ),
+      'notification_digest:' || batch.id::text,
+      now() + interval '15 minutes'
+    )
+    on conflict (dedupe_key) do nothing
+    returning id into digest_id;
+
+    if digest_id is null then
+      select events.id into digest_id
+      from public.notification_events events
+      where events.dedupe_key = 'notification_digest:' || batch.id::text;
+    end if;
+
+    insert into public.notification_delivery_jobs (
+      notification_event_id,
+      user_id,
+      expires_at
+    ) values (
+      digest_id,
+      batch.user_id,
+      now() + interval '15 minutes'
+    )
+    on conflict (notification_event_id) do nothing;
+
+    update public.notification_digest_batches
+    set
+      status = 'sent',
+      event_count = summary.event_count,
+      type_counts = summary.type_counts,
+      digest_event_id = digest_id,
+      sent_at = now(),
+      updated_at = now()
+    where id = batch.id;
+
+    flushed := flushed + 1;
+  end loop;
+
+  return flushed;
+end;
+$$;
+
+revoke all on function public.flush_due_notification_digests(integer)
+  from public, anon, authenticated;
+grant execute on function public.flush_due_notification_digests(integer)
+  to service_role;
+
+comment on function public.flush_due_notification_digests(integer) is
+  'Writes one summary notification for each due digest batch and queues its web delivery; returns the number sent.';
+
+commit;
@@ -0,0 +1,110 @@
+/*
+  # Per-conversation notification rules
+
+  A DM or group thread could only be muted or unmuted. Members can now keep
+  a private rule per conversation:
+
+  - `delivery_mode` `mentions_only` drops alerts unless the message @mentions
+    the member.
+  - `sound_id` overrides the category and event sound with one from the
+    notification sound pack.
+  - `bypass_quiet_hours` marks a VIP conversation whose alerts still arrive
+    during quiet hours. The master switch and the global snooze still apply.
+
+  Timed snooze (1 hour, 8 hours, until tomorrow) keeps using
+  `notification_conversation_mutes.muted_until`, which web push and V2
+  delivery already honour.
+
+  Lock-screen "Mute" quick actions upsert the mute row as service role, so
+  service role also gets insert and update on the mutes table.
+*/
+
+begin;
+
+create table if not exists public.notification_conversation_rules (
+  user_id uuid not null references public.users(id) on delete cascade,
+  conversation_id uuid not null references public.dm_conversations(id) on delete cascade,
+  delivery_mode text not null default 'all',
+  sound_id text null,
+  bypass_quiet_hours boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, conversation_id),
+  constraint notification_conversation_rules_delivery_mode_check
+    check (delivery_mode in ('all', 'mentions_only')),
+  constraint notification_conversation_rules_sound_id_check
+    check (sound_id is null or sound_id ~ '^[a-z0-9_]{2,48}$')
+);
+
+create index if not exists notification_conversation_rules_conversation_user_idx
+  on public.notification_conversation_rules (conversation_id, user_id);
+
+comment on table public.notification_conversation_rules is
+  'Private per-user DM notification rules: mentions-only delivery, a custom sound, and a VIP quiet-hours bypass.';
+
+alter table public.notification_conversation_rules enable row level security;
+
+drop policy if exists "Users can view own DM notification rules"
+  on public.notification_conversation_rules;
+create policy "Users can view own DM notification rules"
+  on public.notification_conversation_rules
+  for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "Users can insert own DM notification rules"
+  on public.notification_conversation_rules;
+create policy "Users can insert own DM notification rules"
+  on public.notification_conversation_rules
+  for insert
+  to authenticated
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1
+      from public.dm_conversations conversations
+      where conversations.id = conversation_id
+        and (select auth.uid()) = any(conversations.participants)
+    )
+  );
+
+drop policy if exists "Users can update own DM notification rules"
+  on public.notification_conversation_rules;
+create policy "Users can update own DM notification rules"
+  on public.notification_conversation_rules
+  for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check (
+    (select auth.uid()) = user_id
+    and exists (
+      select 1
+      from public.dm_conversations conversations
+      where conversations.id = conversation_id
+        and (select auth.uid()) = any(conversations.participants)
+    )
+  );
+
+drop policy if exists "Users can delete own DM notification rules"
+  on public.notification_conversation_rules;
+create policy "Users can delete own DM notification rules"
+  on public.notification_conversation_rules
+  for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop trigger if exists update_notification_conversation_rules_updated_at
+  on public.notification_conversation_rules;
+create trigger update_notification_conversation_rules_updated_at
+  before update on public.notification_conversation_rules
+  for each row execute function public.update_updated_at_column();
+
+revoke all on table public.notification_conversation_rules
+  from public, anon, authenticated, service_role;
+grant select, insert, update, delete
+  on table public.notification_conversation_rules to authenticated;
+grant select on table public.notification_conversation_rules to service_role;
+
+grant insert, update on table public.notification_conversation_mutes to service_role;
+
+commit;
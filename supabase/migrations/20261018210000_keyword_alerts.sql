@@ -0,0 +1,304 @@
+/*
+  # Keyword and phrase alerts for General Chat
+
+  Members only heard about busy-room traffic when they were @mentioned or
+  replied to. They can now keep up to 25 private keyword alerts: plain words,
+  phrases, or simple patterns where `*` matches the rest of a word.
+
+  send-push evaluates the alerts for each new General Chat and thread message
+  and writes a `keyword_alert` notification event. It is presented like a
+  mention: the `mentions_replies` category, the gold signal sound, the
+  mentions Android channel, and the interactions badge. Direct mentions and
+  replies still win when a message matches more than one rule.
+
+  `notification_preferences.keyword_alerts_enabled` switches every alert off
+  without deleting the list. Muting General Chat silences keyword alerts too.
+  Keyword alerts can also have their own sound in the per-event sound list.
+
+  Web recovery jobs are queued by an invoker trigger so the allowlisted
+  delivery-job definer stays unchanged.
+*/
+
+begin;
+
+alter table public.notification_preferences
+  add column if not exists keyword_alerts_enabled boolean not null default true;
+
+create table if not exists public.notification_keyword_alerts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  phrase text not null,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint notification_keyword_alerts_phrase_check check (
+    char_length(phrase) between 2 and 80
+    and phrase = btrim(phrase)
+    and phrase !~ '[[:cntrl:]]'
+  )
+);
+
+create unique index if not exists notification_keyword_alerts_user_phrase_key
+  on public.notification_keyword_alerts (user_id, lower(phrase));
+
+create index if not exists notification_keyword_alerts_enabled_user_idx
+  on public.notification_keyword_alerts (user_id)
+  where enabled;
+
+comment on table public.notification_keyword_alerts is
+  'Private per-user General Chat keyword and phrase alerts, matched by send-push.';
+
+alter table public.notification_keyword_alerts enable row level security;
+
+drop policy if exists "Users can view own keyword alerts"
+  on public.notification_keyword_alerts;
+create policy "Users can view own keyword alerts"
+  on public.notification_keyword_alerts
+  for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "Users can insert own keyword alerts"
+  on public.notification_keyword_alerts;
+create policy "Users can insert own keyword alerts"
+  on public.notification_keyword_alerts
+  for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "Users can update own keyword alerts"
+  on public.notification_keyword_alerts;
+create policy "Users can update own keyword alerts"
+  on public.notification_keyword_alerts
+  for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "Users can delete own keyword alerts"
+  on public.notification_keyword_alerts;
+create policy "Users can delete own keyword alerts"
+  on public.notification_keyword_alerts
+  for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+create or replace function private.enforce_notification_keyword_alert_limit()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  if (
+    select count(*)
+    from public.notification_keyword_alerts alerts
+    where alerts.user_id = new.user_id
+  ) >= 25 then
+    raise exception 'You can have up to 25 keyword alerts';
+  end if;
+
+  return new;
+end;
+$$;
+
+revoke all on function private.enforce_notification_keyword_alert_limit()
+  from public, anon, authenticated;
+
+drop trigger if exists enforce_notification_keyword_alert_limit
+  on public.notification_keyword_alerts;
+create trigger enforce_notification_keyword_alert_limit
+  before insert on public.notification_keyword_alerts
+  for each row execute function private.enforce_notification_keyword_alert_limit();
+
+drop trigger if exists update_notification_keyword_alerts_updated_at
+  on public.notification_keyword_alerts;
+create trigger update_notification_keyword_alerts_updated_at
+  before update on public.notification_keyword_alerts
+  for each row execute function public.update_updated_at_column();
+
+revoke all on table public.notification_keyword_alerts
+  from public, anon, authenticated, service_role;
+grant select, insert, update, delete
+  on table public.notification_keyword_alerts to authenticated;
+grant select on table public.notification_keyword_alerts to service_role;
+
+alter table public.notification_event_presentation_preferences
+  drop constraint if exists notification_event_presentation_preferences_event_type_check;
+alter table public.notification_event_presentation_preferences
+  add constraint notification_event_presentation_preferences_event_type_check
+  check (event_type in (
+    'dm_message',
+    'group_message',
+    'mention',
+    'reply',
+    'keyword_alert',
+    'reaction',
+    'hype_event',
+    'shadow_pin_post',
+    'shadow_pin_comment',
+    'shadow_pin_reply',
+    'connection_request',
+    'connection_accepted',
+    'presence_active',
+    'shado_live_room_started',
+    'shado_live_room_ended',
+    'shado_live_speaker_promoted',
+    'shado_live_speaker_demoted',
+    'shado_live_participant_muted',
+    'shado_live_participant_removed',
+    'shadow_checkers_turn',
+    'shadow_war_turn',
+    'weather_alert',
+    'security_alert'
+  ));
+
+-- Keyword alerts present exactly like mentions in the V2 envelope.
+create or replace function private.notification_v2_category(target_type text)
+returns text
+language sql
+immutable
+security invoker
+set search_path = ''
+as $$
+  select case
+    when target_type = 'dm_message' then 'dm'
+    when target_type = 'group_message' then 'general_chat'
+    when target_type in ('mention', 'reply', 'keyword_alert') then 'mentions_replies'
+    when target_type in ('reaction', 'hype_event') then 'reactions_hype'
+    when target_type in ('shadow_pin_post', 'shadow_pin_comment', 'shadow_pin_reply') then 'shadow_pin'
+    when target_type in ('connection_request', 'connection_accepted') then 'connections'
+    when target_type = 'presence_active' then 'presence'
+    when target_type like 'shado_live_%' then 'shado_live'
+    when target_type = 'shadow_checkers_turn' then 'shadow_checkers'
+    when target_type = 'shadow_war_turn' then 'shadow_war'
+    when target_type = 'weather_alert' then 'weather'
+    when target_type = 'security_alert' then 'security'
+    else 'system'
+  end
+$$;
+
+create or replace function private.notification_v2_sound(target_type text)
+returns text
+language sql
+immutable
+security invoker
+set search_path = ''
+as $$
+  select case
+    when target_type = 'dm_message' then 'shadow_whisper'
+    when target_type = 'group_message' then 'low_glass'
+    when target_type in ('mention', 'reply', 'keyword_alert') then 'gold_signal'
+    when target_type in ('reaction', 'hype_event') then 'hype_burst'
+    when target_type in ('shadow_pin_post', 'shadow_pin_comment') then 'pin_shutter'
+    when target_type = 'shadow_pin_reply' then 'gold_signal'
+    when target_type in ('connection_request', 'connection_accepted') then 'connection_chime'
+    when target_type = 'presence_active' then 'presence_pulse'
+    when target_type like 'shado_live_%' then 'live_beacon'
+    when target_type = 'shadow_checkers_turn' then 'checkers_move'
+    when target_type = 'shadow_war_turn' then 'war_drum'
+    when target_type = 'weather_alert' then 'weather_glass'
+    when target_type = 'security_alert' then 'security_signal'
+    else 'system_default'
+  end
+$$;
+
+create or replace function private.notification_v2_channel(target_type text)
+returns text
+language sql
+immutable
+security invoker
+set search_path = ''
+as $$
+  select case
+    when target_type in ('dm_message', 'group_message') then 'messages_v1'
+    when target_type in ('mention', 'reply', 'keyword_alert') then 'mentions_v1'
+    when target_type like 'shado_live_%' then 'live_v1'
+    when target_type in ('shadow_checkers_turn', 'shadow_war_turn') then 'games_v1'
+    when target_type = 'weather_alert' then 'weather_v1'
+    when target_type = 'security_alert' then 'security_v1'
+    else 'social_v1'
+  end
+$$;
+
+create or replace function private.notification_v2_badge_category(target_type text)
+returns text
+language sql
+immutable
+security invoker
+set search_path = ''
+as $$
+  select case
+    when target_type = 'dm_message' then 'dm'
+    when target_type = 'group_message' then 'group'
+    when target_type in ('mention', 'reply', 'keyword_alert', 'reaction', 'hype_event', 'security_alert') then 'interactions'
+    when target_type in ('connection_request', 'connection_accepted') then 'connections'
+    when target_type in ('shadow_pin_post', 'shadow_pin_comment', 'shadow_pin_reply') then 'shadow_pin'
+    when target_type like 'shado_live_%'
+      or target_type in ('shadow_checkers_turn', 'shadow_war_turn') then 'games'
+    else 'none'
+  end
+$$;
+
+-- Mirrors private.sync_notification_delivery_job() for the one new type.
+create or replace function private.queue_keyword_alert_delivery_job()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  if new.sent_at is not null
+    or new.read_at is not null
+    or new.resolved_at is not null then
+    return new;
+  end if;
+
+  if exists (
+    select 1
+    from public.notification_preferences preferences
+    where preferences.user_id = new.user_id
+      and preferences.notifications_enabled
+      and preferences.keyword_alerts_enabled
+      and not preferences.general_chat_muted
+  )
+  and exists (
+    select 1
+    from public.push_subscriptions subscriptions
+    where subscriptions.user_id = new.user_id
+      and subscriptions.enabled
+      and (
+        subscriptions.foreground_until is null
+        or subscriptions.foreground_until <= now()
+      )
+  ) then
+    insert into public.notification_delivery_jobs (
+      notification_event_id,
+      user_id,
+      available_at,
+      expires_at
+    ) values (
+      new.id,
+      new.user_id,
+      now() + interval '20 seconds',
+      greatest(new.presentation_expires_at, new.created_at + interval '5 minutes')
+    )
+    on conflict (notification_event_id) do nothing;
+  end if;
+
+  return new;
+end;
+$$;
+
+revoke all on function private.queue_keyword_alert_delivery_job()
+  from public, anon, authenticated;
+
+drop trigger if exists queue_keyword_alert_delivery_job
+  on public.notification_events;
+create trigger queue_keyword_alert_delivery_job
+  after insert on public.notification_events
+  for each row
+  when (new.type = 'keyword_alert')
+  execute function private.queue_keyword_alert_delivery_job();
+
+commit;
@@ -0,0 +1,102 @@
+/*
+  # Seen-by read receipts for General Chat and threads
+
+  `user_read_cursors` already records how far each member has read the main
+  General Chat room (`general_chat` / `main`) and every thread
+  (`general_chat_thread` / root message id). Until now those rows were
+  owner-only, so nobody could tell who had seen a message.
+
+  Members can now read each other's cursors on those two surfaces so the
+  client can show a "seen by" line under their own latest message. Every
+  other surface (DMs, boards, News) stays owner-only.
+
+  `read_receipt_preferences` holds two switches:
+
+  - `share_read_state` (default on) hides the member's cursor from everyone
+    else when turned off. Like most messengers it is reciprocal: a member who
+    hides their own read state cannot see anyone else's either.
+  - `show_seen_by` (default off) is the opt-in for the indicator itself. It
+    is only read by the client.
+
+  Blocked pairs never see each other's cursors. The policies use the
+  allowlisted `private.users_have_block` lookup, so no new definer function
+  is needed. The sharing flags are readable by members because the cursor
+  policy evaluates them as the viewer, and whether someone shares read state
+  is visible from the indicator anyway.
+*/
+
+begin;
+
+create table if not exists public.read_receipt_preferences (
+  user_id uuid primary key references public.users(id) on delete cascade,
+  share_read_state boolean not null default true,
+  show_seen_by boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.read_receipt_preferences is
+  'Per-member General Chat seen-by settings. Missing rows mean share on, indicator off.';
+
+alter table public.read_receipt_preferences enable row level security;
+
+drop policy if exists "Members can view read receipt preferences"
+  on public.read_receipt_preferences;
+create policy "Members can view read receipt preferences"
+  on public.read_receipt_preferences
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Users can insert own read receipt preferences"
+  on public.read_receipt_preferences;
+create policy "Users can insert own read receipt preferences"
+  on public.read_receipt_preferences
+  for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "Users can update own read receipt preferences"
+  on public.read_receipt_preferences;
+create policy "Users can update own read receipt preferences"
+  on public.read_receipt_preferences
+  for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop trigger if exists update_read_receipt_preferences_updated_at
+  on public.read_receipt_preferences;
+create trigger update_read_receipt_preferences_updated_at
+  before update on public.read_receipt_preferences
+  for each row execute function public.update_updated_at_column();
+
+revoke all on table public.read_receipt_preferences
+  from public, anon, authenticated, service_role;
+grant select, insert, update on table public.read_receipt_preferences to authenticated;
+grant select on table public.read_receipt_preferences to service_role;
+
+drop policy if exists "Members can view shared General Chat read cursors"
+  on public.user_read_cursors;
+create policy "Members can view shared General Chat read cursors"
+  on public.user_read_cursors
+  for select
+  to authenticated
+  using (
+    surface in ('general_chat', 'general_chat_thread')
+    and user_id <> (select auth.uid())
+    and not exists (
+      select 1
+      from public.read_receipt_preferences preferences
+      where preferences.user_id in (user_read_cursors.user_id, (select auth.uid()))
+        and not preferences.share_read_state
+    )
+    and not private.users_have_block((select auth.uid()), user_id)
+  );
+
+-- Seen-by reads every cursor in one room or thread, newest first.
+create index if not exists user_read_cursors_seen_by_idx
+  on public.user_read_cursors (surface, scope_id, last_read_at desc)
+  where surface in ('general_chat', 'general_chat_thread');
+
+commit;
@@ -0,0 +1,192 @@
+/*
+  # Custom status and activity presence
+
+  Presence was limited to online, offline, or invisible. Members can now set
+  a custom status: an emoji, up to 80 characters of text, and an optional
+  time when it clears itself ("At the game until 9").
+
+  The same row carries a short-lived activity line fed by the client while a
+  member is watching Shado TV, playing a game, or listening in on Shado Live.
+  Activity rows carry their own expiry, capped at 15 minutes from the last
+  write, so a closed tab cannot leave "Watching ..." behind for long. Members
+  who turn off `share_activity` never store an activity at all.
+
+  Visibility follows presence: other members only see the row while its
+  owner's `presence_visibility` is `tracked`, and never across a block.
+  Expired text is filtered by the client because RLS cannot hide single
+  columns; nothing here is more private than the row owner's presence.
+*/
+
+begin;
+
+create table if not exists public.user_custom_statuses (
+  user_id uuid primary key references public.users(id) on delete cascade,
+  emoji text,
+  status_text text,
+  expires_at timestamptz,
+  share_activity boolean not null default true,
+  activity_kind text,
+  activity_label text,
+  activity_source text,
+  activity_expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint user_custom_statuses_emoji_check check (
+    emoji is null
+    or (char_length(emoji) between 1 and 16 and emoji !~ '[[:space:][:cntrl:]]')
+  ),
+  constraint user_custom_statuses_text_check check (
+    status_text is null
+    or (
+      char_length(status_text) between 1 and 80
+      and status_text = btrim(status_text)
+      and status_text !~ '[[:cntrl:]]'
+    )
+  ),
+  constraint user_custom_statuses_activity_check check (
+    (
+      activity_kind is null
+      and activity_label is null
+      and activity_source is null
+      and activity_expires_at is null
+    )
+    or (
+      activity_kind in ('watching', 'playing', 'listening')
+      and char_length(activity_label) between 1 and 80
+      and activity_label !~ '[[:cntrl:]]'
+      and activity_source ~ '^[a-z0-9_]{1,40}$'
+      and activity_expires_at is not null
+    )
+  )
+);
+
+comment on table public.user_custom_statuses is
+  'Custom status text, emoji, and short-lived activity. Visible to others only while the owner tracks presence.';
+
+alter table public.user_custom_statuses enable row level security;
+
+drop policy if exists "Users can view own custom status"
+  on public.user_custom_statuses;
+create policy "Users can view own custom status"
+  on public.user_custom_statuses
+  for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "Members can view visible custom statuses"
+  on public.user_custom_statuses;
+create policy "Members can view visible custom statuses"
+  on public.user_custom_statuses
+  for select
+  to authenticated
+  using (
+    user_id <> (select auth.uid())
+    and exists (
+      select 1
+      from public.users users
+      where users.id = user_custom_statuses.user_id
+        and users.presence_visibility = 'tracked'
+    )
+    and not private.users_have_block((select auth.uid()), user_id)
+  );
+
+drop policy if exists "Users can insert own custom status"
+  on public.user_custom_statuses;
+create policy "Users can insert own custom status"
+  on public.user_custom_statuses
+  for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "Users can update own custom status"
+  on public.user_custom_statuses;
+create policy "Users can update own custom status"
+  on public.user_custom_statuses
+  for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "Users can delete own custom status"
+  on public.user_custom_statuses;
+create policy "Users can delete own custom status"
+  on public.user_custom_statuses
+  for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+create or replace function private.normalize_user_custom_status()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  if new.expires_at is not null and new.expires_at <= now() then
+    if tg_op = 'UPDATE' and new.expires_at is not distinct from old.expires_at then
+      -- The status already lapsed; an activity heartbeat clears it instead of failing.
+      new.emoji := null;
+      new.status_text := null;
+      new.expires_at := null;
+    else
+      raise exception 'Choose a clear time in the future';
+    end if;
+  end if;
+
+  if not new.share_activity or new.activity_kind is null then
+    new.activity_kind := null;
+    new.activity_label := null;
+    new.activity_source := null;
+    new.activity_expires_at := null;
+  else
+    new.activity_expires_at := least(
+      coalesce(new.activity_expires_at, now() + interval '15 minutes'),
+      now() + interval '15 minutes'
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+revoke all on function private.normalize_user_custom_status()
+  from public, anon, authenticated;
+
+drop trigger if exists normalize_user_custom_status
+  on public.user_custom_statuses;
+create trigger normalize_user_custom_status
+  before insert or update on public.user_custom_statuses
+  for each row execute function private.normalize_user_custom_status();
+
+drop trigger if exists update_user_custom_statuses_updated_at
+  on public.user_custom_statuses;
+create trigger update_user_custom_statuses_updated_at
+  before update on public.user_custom_statuses
+  for each row execute function public.update_updated_at_column();
+
+revoke all on table public.user_custom_statuses
+  from public, anon, authenticated, service_role;
+grant select, insert, update, delete
+  on table public.user_custom_statuses to authenticated;
+grant select on table public.user_custom_statuses to service_role;
+
+do $publication$
+begin
+  if exists (
+    select 1
+    from pg_publication
+    where pubname = 'supabase_realtime'
+  ) and not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'user_custom_statuses'
+  ) then
+    alter publication supabase_realtime
+      add table public.user_custom_statuses;
+  end if;
+end
+$publication$;
+
+commit;
@@ -0,0 +1,383 @@
+/*
+  # Message reminders
+
+  Saving a message to the library kept it, but nothing brought it back. A
+  member can now ask to be reminded about a General Chat message, a thread
+  reply, a DM, or a ShadowPin comment at a preset or custom time.
+
+  Reminder rows are private to their owner. The client only names the source
+  and the time; a BEFORE INSERT invoker trigger reads the message as the
+  caller, so RLS decides whether it exists for them, and stores the exact
+  route (thread, conversation, or Pin comment panel) plus a short preview.
+
+  The existing one-minute web push recovery run delivers due reminders before
+  it claims jobs, just like notification digests. Each due reminder writes a
+  `message_reminder` notification event and queues its web delivery job. A
+  reminder whose source was deleted, or whose DM the owner has left, is
+  cancelled instead. Rescheduling a sent reminder arms it again. Everything
+  here runs as the caller; the delivery run is service-role only.
+*/
+
+begin;
+
+create table public.message_reminders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references public.users(id) on delete cascade,
+  source text not null check (source in ('general', 'dm', 'shadow_pin_comment')),
+  message_id uuid not null,
+  conversation_id uuid references public.dm_conversations(id) on delete cascade,
+  thread_id uuid,
+  image_id uuid references public.shadow_pin_images(id) on delete cascade,
+  preview text not null default '',
+  route text not null default '/',
+  remind_at timestamptz not null,
+  status text not null default 'scheduled' check (status in ('scheduled', 'sent', 'canceled')),
+  notification_event_id uuid references public.notification_events(id) on delete set null,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint message_reminders_source_message_key unique (user_id, source, message_id),
+  constraint message_reminders_preview_check check (char_length(preview) <= 140),
+  constraint message_reminders_route_check check (
+    route like '/%' and char_length(route) between 1 and 512
+  ),
+  constraint message_reminders_sent_check check ((status = 'sent') = (sent_at is not null))
+);
+
+create index message_reminders_due_idx
+  on public.message_reminders (remind_at, id)
+  where status = 'scheduled';
+create index message_reminders_user_upcoming_idx
+  on public.message_reminders (user_id, remind_at)
+  where status = 'scheduled';
+
+comment on table public.message_reminders is
+  'Owner-private "remind me about this" rows for General Chat, thread, DM, and ShadowPin comment messages.';
+
+alter table public.message_reminders enable row level security;
+
+drop policy if exists "Users can view own message reminders"
+  on public.message_reminders;
+create policy "Users can view own message reminders"
+  on public.message_reminders
+  for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "Users can insert own message reminders"
+  on public.message_reminders;
+create policy "Users can insert own message reminders"
+  on public.message_reminders
+  for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "Users can update own message reminders"
+  on public.message_reminders;
+create policy "Users can update own message reminders"
+  on public.message_reminders
+  for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "Users can delete own message reminders"
+  on public.message_reminders;
+create policy "Users can delete own message reminders"
+  on public.message_reminders
+  for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+create or replace function private.prepare_message_reminder()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  source_content text;
+  source_type text;
+begin
+  if tg_op = 'UPDATE' then
+    -- The source is fixed once stored; only the time and status can move.
+    new.user_id := old.user_id;
+    new.source := old.source;
+    new.message_id := old.message_id;
+    new.conversation_id := old.conversation_id;
+    new.thread_id := old.thread_id;
+    new.image_id := old.image_id;
+    new.preview := old.preview;
+    new.route := old.route;
+
+    if new.remind_at is distinct from old.remind_at then
+      if new.remind_at < now() + interval '1 minute'
+        or new.remind_at > now() + interval '365 days' then
+        raise exception 'Reminders must be between one minute and one year from now';
+      end if;
+      new.status := 'scheduled';
+      new.sent_at := null;
+      new.notification_event_id := null;
+    end if;
+
+    return new;
+  end if;
+
+  if new.remind_at is null
+    or new.remind_at < now() + interval '1 minute'
+    or new.remind_at > now() + interval '365 days' then
+    raise exception 'Reminders must be between one minute and one year from now';
+  end if;
+
+  if (
+    select count(*)
+    from public.message_reminders reminders
+    where reminders.user_id = new.user_id
+      and reminders.status = 'scheduled'
+  ) >= 100 then
+    raise exception 'You can have up to 100 upcoming reminders';
+  end if;
+
+  new.status := 'scheduled';
+  new.sent_at := null;
+  new.notification_event_id := null;
+  new.conversation_id := null;
+  new.thread_id := null;
+  new.image_id := null;
+
+  -- These reads run as the caller, so a message they cannot see is unavailable.
+  if new.source = 'general' then
+    select messages.content, messages.message_type
+    into source_content, source_type
+    from public.messages messages
+    where messages.id = new.message_id;
+
+    if not found then
+      raise exception using errcode = '42501', message = 'This message is unavailable';
+    end if;
+
+    select replies.thread_id
+    into new.thread_id
+    from public.general_chat_thread_replies replies
+    where replies.message_id = new.message_id;
+
+    new.route := case
+      when new.thread_id is not null
+        then '/?view=chat&thread=' || new.thread_id::text || '&message=' || new.message_id::text
+      else '/?view=chat&message=' || new.message_id::text
+    end;
+  elsif new.source = 'dm' then
+    select messages.content, messages.message_type, messages.conversation_id
+    into source_content, source_type, new.conversation_id
+    from public.dm_messages messages
+    where messages.id = new.message_id;
+
+    if not found then
+      raise exception using errcode = '42501', message = 'This message is unavailable';
+    end if;
+
+    new.route := '/?view=dms&conversation=' || new.conversation_id::text
+      || '&message=' || new.message_id::text;
+  else
+    select comments.body, 'text', comments.image_id
+    into source_content, source_type, new.image_id
+    from public.shadow_pin_comments comments
+    where comments.id = new.message_id;
+
+    if not found then
+      raise exception using errcode = '42501', message = 'This comment is unavailable';
+    end if;
+
+    new.route := '/?view=pins&pin=' || new.image_id::text
+      || '&panel=comments&comment=' || new.message_id::text;
+  end if;
+
+  new.preview := coalesce(
+    case when source_type in ('text', 'command', 'poll') then
+      nullif(left(regexp_replace(btrim(coalesce(source_content, '')), '\s+', ' ', 'g'), 140), '')
+    end,
+    case source_type
+      when 'image' then 'Photo'
+      when 'video' then 'Video'
+      when 'audio' then 'Voice message'
+      when 'file' then 'Attachment'
+      when 'location' then 'Shared location'
+      else 'Open the message'
+    end
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists prepare_message_reminder
+  on public.message_reminders;
+create trigger prepare_message_reminder
+  before insert or update on public.message_reminders
+  for each row execute function private.prepare_message_reminder();
+
+drop trigger if exists update_message_reminders_updated_at
+  on public.message_reminders;
+create trigger update_message_reminders_updated_at
+  before update on public.message_reminders
+  for each row execute function public.update_updated_at_column();
+
+revoke all on function private.prepare_message_reminder() from public, anon, authenticated;
+
+revoke all on table public.message_reminders
+  from public, anon, authenticated, service_role;
+grant select, insert, update, delete on table public.message_reminders to authenticated;
+grant select, update, delete on table public.message_reminders to service_role;
+
+create or replace function public.deliver_due_message_reminders(batch_size integer default 50)
+returns integer
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  reminder record;
+  reminder_event_id uuid;
+  reminder_dedupe_key text;
+  delivered integer := 0;
+begin
+  for reminder in
+    select reminders.*
+    from public.message_reminders reminders
+    where reminders.status = 'scheduled'
+      and reminders.remind_at <= now()
+    order by reminders.remind_at, reminders.id
+    limit least(greatest(coalesce(batch_size, 50), 1), 200)
+    for update skip locked
+  loop
+    -- Parenthesized so PL/pgSQL does not end the IF condition at the CASE's first THEN.
+    if not (case reminder.source
+      when 'general' then exists (
+        select 1 from public.messages messages where messages.id = reminder.message_id
+      )
+      when 'dm' then exists (
+        select 1
+        from public.dm_messages messages
+        join public.dm_conversations conversations
+          on conversations.id = messages.conversation_id
+        where messages.id = reminder.message_id
+          and reminder.user_id = any (conversations.participants)
+      )
+      else exists (
+        select 1 from public.shadow_pin_comments comments where comments.id = reminder.message_id
+      )
+    end) then
+      update public.message_reminders
+      set status = 'canceled'
+      where id = reminder.id;
+      continue;
+    end if;
+
+    -- Rescheduling re-arms the row, so the key carries the reminder time.
+    reminder_dedupe_key := 'message_reminder:' || reminder.id::text || ':'
+      || floor(extract(epoch from reminder.remind_at))::bigint::text;
+
+    insert into public.notification_events (
+      user_id,
+      type,
+      entity_id,
+      category,
+      route,
+      payload,
+      dedupe_key,
+      presentation_expires_at
+    ) values (
+      reminder.user_id,
+      'message_reminder',
+      reminder.id,
+      'system',
+      reminder.route,
+      jsonb_build_object(
+        'title', case reminder.source
+          when 'dm' then 'Reminder: direct message'
+          when 'shadow_pin_comment' then 'Reminder: ShadowPin comment'
+          when 'general' then case
+            when reminder.thread_id is not null then 'Reminder: thread reply'
+            else 'Reminder: General Chat message'
+          end
+        end,
+        'body', reminder.preview,
+        'route', reminder.route,
+        'reminder_id', reminder.id,
+        'source', reminder.source,
+        'message_id', case when reminder.source <> 'shadow_pin_comment' then reminder.message_id end,
+        'thread_id', reminder.thread_id,
+        'conversation_id', reminder.conversation_id,
+        'image_id', reminder.image_id,
+        'comment_id', case when reminder.source = 'shadow_pin_comment' then reminder.message_id end
+      ),
+      reminder_dedupe_key,
+      now() + interval '15 minutes'
+    )
+    on conflict (dedupe_key) do nothing
+    returning id into reminder_event_id;
+
+    if reminder_event_id is null then
+      select events.id into reminder_event_id
+      from public.notification_events events
+      where events.dedupe_key = reminder_dedupe_key;
+    end if;
+
+    insert into public.notification_delivery_jobs (
+      notification_event_id,
+      user_id,
+      expires_at
+    ) values (
+      reminder_event_id,
+      reminder.user_id,
+      now() + interval '15 minutes'
+    )
+    on conflict (notification_event_id) do nothing;
+
+    update public.message_reminders
+    set
+      status = 'sent',
+      sent_at = now(),
+      notification_event_id = reminder_event_id
+    where id = reminder.id;
+
+    delivered := delivered + 1;
+  end loop;
+
+  -- Sent and cancelled rows only back the "just reminded" state.
+  delete from public.message_reminders reminders
+  where reminders.status in ('sent', 'canceled')
+    and reminders.updated_at < now() - interval '30 days';
+
+  return delivered;
+end;
+$$;
+
+revoke all on function public.deliver_due_message_reminders(integer)
+  from public, anon, authenticated;
+grant execute on function public.deliver_due_message_reminders(integer)
+  to service_role;
+
+comment on function public.deliver_due_message_reminders(integer) is
+  'Writes one notification for each due message reminder and queues its web delivery; returns the number sent.';
+
+do $publication$
+begin
+  if exists (
+    select 1
+    from pg_publication
+    where pubname = 'supabase_realtime'
+  ) and not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'message_reminders'
+  ) then
+    alter publication supabase_realtime
+      add table public.message_reminders;
+  end if;
+end
+$publication$;
+
+commit;
@@ -0,0 +1,448 @@
+/*
+  # Disappearing direct messages
+
+  Any member of a DM or group DM can give the conversation a message timer of
+  1 hour, 1 day, or 7 days, or turn it off. The timer applies to messages
+  sent after it changes: each new `dm_messages` row gets an `expires_at`
+  stamped from the conversation's timer at insert time, so turning the timer
+  off later never brings old messages back and shortening it never cuts an
+  earlier message short.
+
+  Changing the timer posts one `system` message to the conversation so every
+  member sees who changed it. System messages never expire, never create
+  activity or push notifications, and only the server can write them.
+
+  Expired rows disappear from reads immediately through a restrictive policy
+  and from the inbox RPC's preview and unread count. A scheduled janitor then
+  calls `purge_expired_dm_messages`, which deletes the rows (notifications,
+  activity, saved copies, polls, locations, and edit history cascade) and
+  queues the sender's uploaded photos, files, and voice notes in
+  `dm_message_media_purges` for removal through the Storage API.
+*/
+
+begin;
+
+create schema if not exists disappearing_dms_private;
+
+revoke all on schema disappearing_dms_private from public, anon, authenticated;
+grant usage on schema disappearing_dms_private to authenticated, service_role;
+
+alter default privileges for role postgres in schema disappearing_dms_private
+  revoke execute on functions from public;
+
+alter table public.dm_conversations
+  add column message_ttl_seconds integer,
+  add column message_ttl_updated_at timestamptz,
+  add column message_ttl_updated_by uuid references public.users(id) on delete set null,
+  add constraint dm_conversations_message_ttl_seconds_check
+    check (message_ttl_seconds is null or message_ttl_seconds in (3600, 86400, 604800));
+
+alter table public.dm_messages
+  add column expires_at timestamptz;
+
+create index if not exists dm_messages_expires_at_idx
+  on public.dm_messages (expires_at)
+  where expires_at is not null;
+
+drop policy if exists "Expired direct messages are hidden" on public.dm_messages;
+create policy "Expired direct messages are hidden"
+  on public.dm_messages
+  as restrictive
+  for select
+  to authenticated
+  using (expires_at is null or expires_at > now());
+
+-- Runs as the writer: members read their own conversation's timer through the
+-- existing participant policy, and the bridge, scheduled sends, and location
+-- and poll RPCs all pass through the same stamp.
+create function disappearing_dms_private.prepare_dm_message_expiry()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  conversation_ttl integer;
+begin
+  if current_user in ('anon', 'authenticated')
+    and (new.message_type = 'system' or (tg_op = 'UPDATE' and old.message_type = 'system')) then
+    raise exception using
+      errcode = '42501',
+      message = 'System messages are written by the server';
+  end if;
+
+  if tg_op = 'UPDATE' then
+    return new;
+  end if;
+
+  if new.message_type = 'system' then
+    new.expires_at := null;
+    return new;
+  end if;
+
+  select conversations.message_ttl_seconds
+  into conversation_ttl
+  from public.dm_conversations conversations
+  where conversations.id = new.conversation_id;
+
+  new.expires_at := case
+    when conversation_ttl is null then null
+    else coalesce(new.created_at, now()) + make_interval(secs => conversation_ttl)
+  end;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists prepare_dm_message_expiry on public.dm_messages;
+create trigger prepare_dm_message_expiry
+  before insert or update of content on public.dm_messages
+  for each row execute function disappearing_dms_private.prepare_dm_message_expiry();
+
+-- Timer notices are for the conversation itself, not the activity feed.
+drop trigger if exists create_dm_activity_event on public.dm_messages;
+create trigger create_dm_activity_event
+  after insert on public.dm_messages
+  for each row
+  when (new.message_type is distinct from 'system')
+  execute function private.create_dm_activity_event();
+
+create function disappearing_dms_private.timer_notice(target_ttl_seconds integer)
+returns text
+language sql
+immutable
+security invoker
+set search_path = ''
+as $$
+  select case target_ttl_seconds
+    when 3600 then 'Disappearing messages set to 1 hour'
+    when 86400 then 'Disappearing messages set to 1 day'
+    when 604800 then 'Disappearing messages set to 7 days'
+    else 'Disappearing messages turned off'
+  end;
+$$;
+
+create function disappearing_dms_private.set_dm_message_timer_impl(
+  target_conversation_id uuid,
+  ttl_seconds integer
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_conversation public.dm_conversations;
+  other_user_id uuid;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if public.is_user_channel_banned(caller_id, 'all_interaction') then
+    raise exception using
+      errcode = 'P0001',
+      message = public.get_channel_ban_block_message(caller_id, 'all_interaction');
+  end if;
+
+  if ttl_seconds is not null and ttl_seconds not in (3600, 86400, 604800) then
+    raise exception 'Choose 1 hour, 1 day, or 7 days';
+  end if;
+
+  select conversations.*
+  into target_conversation
+  from public.dm_conversations conversations
+  where conversations.id = target_conversation_id
+    and caller_id = any (conversations.participants)
+  for update;
+
+  if target_conversation.id is null then
+    raise exception using
+      errcode = '42501',
+      message = 'Conversation is unavailable';
+  end if;
+
+  if target_conversation.kind = 'direct' then
+    select participant_id
+    into other_user_id
+    from unnest(target_conversation.participants) participant_id
+    where participant_id <> caller_id
+    limit 1;
+
+    if private.users_have_block(caller_id, other_user_id) then
+      raise exception using
+        errcode = '42501',
+        message = 'Messaging is unavailable for this user';
+    end if;
+  end if;
+
+  if target_conversation.message_ttl_seconds is distinct from ttl_seconds then
+    update public.dm_conversations conversations
+    set message_ttl_seconds = ttl_seconds,
+        message_ttl_updated_at = now(),
+        message_ttl_updated_by = caller_id,
+        updated_at = now()
+    where conversations.id = target_conversation.id
+    returning conversations.* into target_conversation;
+
+    insert into public.dm_messages (conversation_id, sender_id, content, message_type, read_by)
+    values (
+      target_conversation.id,
+      caller_id,
+      disappearing_dms_private.timer_notice(ttl_seconds),
+      'system',
+      target_conversation.participants
+    );
+  end if;
+
+  return jsonb_build_object(
+    'conversation_id', target_conversation.id,
+    'message_ttl_seconds', target_conversation.message_ttl_seconds,
+    'message_ttl_updated_at', target_conversation.message_ttl_updated_at,
+    'message_ttl_updated_by', target_conversation.message_ttl_updated_by
+  );
+end;
+$$;
+
+revoke all on function disappearing_dms_private.prepare_dm_message_expiry()
+  from public, anon, authenticated, service_role;
+revoke all on function disappearing_dms_private.timer_notice(integer)
+  from public, anon, authenticated, service_role;
+revoke all on function disappearing_dms_private.set_dm_message_timer_impl(uuid, integer)
+  from public, anon, authenticated, service_role;
+
+grant execute on function disappearing_dms_private.set_dm_message_timer_impl(uuid, integer)
+  to authenticated, service_role;
+
+create function public.set_dm_message_timer(
+  target_conversation_id uuid,
+  ttl_seconds integer default null
+)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select disappearing_dms_private.set_dm_message_timer_impl(target_conversation_id, ttl_seconds);
+$$;
+
+revoke all on function public.set_dm_message_timer(uuid, integer)
+  from public, anon, authenticated, service_role;
+grant execute on function public.set_dm_message_timer(uuid, integer)
+  to authenticated, service_role;
+
+comment on function public.set_dm_message_timer(uuid, integer) is
+  'Sets or clears a conversation''s disappearing-message timer for any member and posts one system notice when it changes.';
+
+drop function if exists public.get_dm_conversations();
+
+create function public.get_dm_conversations()
+returns table (
+  id uuid,
+  participants uuid[],
+  last_message_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  other_user jsonb,
+  last_message jsonb,
+  unread_count integer,
+  is_blocked boolean,
+  blocked_by_me boolean,
+  kind text,
+  title text,
+  avatar_url text,
+  created_by uuid,
+  members jsonb,
+  message_ttl_seconds integer
+)
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  caller_user_id uuid := auth.uid();
+begin
+  if caller_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    conversation_row.id,
+    conversation_row.participants,
+    conversation_row.last_message_at,
+    conversation_row.created_at,
+    conversation_row.updated_at,
+    case
+      when conversation_row.kind = 'group' then null
+      else (
+        select public.user_public_profile_json(other_user_row)
+        from public.users other_user_row
+        where other_user_row.id <> caller_user_id
+          and other_user_row.id = any (conversation_row.participants)
+        limit 1
+      )
+    end as other_user,
+    case
+      when relationship.is_blocked then null
+      else (
+        select to_jsonb(message_row)
+        from public.dm_messages message_row
+        where message_row.conversation_id = conversation_row.id
+          and (message_row.expires_at is null or message_row.expires_at > now())
+          and (
+            message_row.sender_id = caller_user_id
+            or not private.users_have_block(caller_user_id, message_row.sender_id)
+          )
+        order by message_row.created_at desc, message_row.id desc
+        limit 1
+      )
+    end as last_message,
+    case
+      when relationship.is_blocked then 0
+      else (
+        select count(*)::integer
+        from public.dm_messages unread_message_row
+        where unread_message_row.conversation_id = conversation_row.id
+          and unread_message_row.sender_id <> caller_user_id
+          and (unread_message_row.expires_at is null or unread_message_row.expires_at > now())
+          and not private.users_have_block(caller_user_id, unread_message_row.sender_id)
+          and (
+            unread_message_row.read_by is null
+            or not (caller_user_id = any (unread_message_row.read_by))
+          )
+      )
+    end as unread_count,
+    relationship.is_blocked,
+    relationship.blocked_by_me,
+    conversation_row.kind,
+    conversation_row.title,
+    conversation_row.avatar_url,
+    conversation_row.created_by,
+    case
+      when conversation_row.kind = 'group' then (
+        select coalesce(
+          jsonb_agg(public.user_public_profile_json(member_row) order by member_entry.member_order),
+          '[]'::jsonb
+        )
+        from unnest(conversation_row.participants) with ordinality member_entry(member_id, member_order)
+        join public.users member_row on member_row.id = member_entry.member_id
+        where member_row.id = caller_user_id
+          or not private.users_have_block(caller_user_id, member_row.id)
+      )
+      else null
+    end as members,
+    conversation_row.message_ttl_seconds
+  from public.dm_conversations conversation_row
+  cross join lateral (
+    select case
+      when conversation_row.kind = 'direct' then (
+        select participant_id
+        from unnest(conversation_row.participants) participant_id
+        where participant_id <> caller_user_id
+        limit 1
+      )
+    end as other_user_id
+  ) direct_pair
+  cross join lateral (
+    select
+      private.users_have_block(caller_user_id, direct_pair.other_user_id) as is_blocked,
+      exists (
+        select 1
+        from public.user_blocks blocks
+        where blocks.blocker_id = caller_user_id
+          and blocks.blocked_id = direct_pair.other_user_id
+      ) as blocked_by_me
+  ) relationship
+  where caller_user_id = any (conversation_row.participants)
+  order by conversation_row.last_message_at desc, conversation_row.id desc;
+end;
+$$;
+
+revoke all on function public.get_dm_conversations()
+  from public, anon, authenticated;
+grant execute on function public.get_dm_conversations() to authenticated;
+
+comment on function public.get_dm_conversations() is
+  'Returns preserved DM threads with safe profiles and a direction-private pair-block state. Groups add their title, avatar, owner, and the member profiles the caller may see. Blocked and expired previews and unread counts are suppressed, and each row carries its disappearing-message timer.';
+
+create table public.dm_message_media_purges (
+  id uuid primary key default gen_random_uuid(),
+  bucket text not null check (bucket in ('chat-uploads', 'message-media')),
+  object_path text not null check (char_length(object_path) between 1 and 1024),
+  attempts integer not null default 0,
+  last_error text,
+  created_at timestamptz not null default now(),
+  unique (bucket, object_path)
+);
+
+alter table public.dm_message_media_purges enable row level security;
+
+revoke all on table public.dm_message_media_purges from public, anon, authenticated, service_role;
+grant select, update, delete on table public.dm_message_media_purges to service_role;
+
+comment on table public.dm_message_media_purges is
+  'Storage objects from expired disappearing DMs waiting for the janitor to remove them through the Storage API.';
+
+create function public.purge_expired_dm_messages(batch_size integer default 200)
+returns integer
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  purged_count integer := 0;
+begin
+  with expired as (
+    select messages.id, messages.sender_id, messages.file_url, messages.audio_url
+    from public.dm_messages messages
+    where messages.expires_at is not null
+      and messages.expires_at <= now()
+    order by messages.expires_at, messages.id
+    limit greatest(1, least(coalesce(batch_size, 200), 1000))
+    for update skip locked
+  ),
+  media as (
+    -- Only the sender's own upload folder; links to anything else are left alone.
+    select distinct matched[1] as bucket, matched[2] as object_path
+    from expired
+    cross join lateral unnest(array[expired.file_url, expired.audio_url]) media_url
+    cross join lateral regexp_match(
+      split_part(media_url, '?', 1),
+      '/storage/v1/(?:object|render/image)/public/(chat-uploads|message-media)/(.+)$'
+    ) matched
+    where media_url is not null
+      and split_part(matched[2], '/', 1) = expired.sender_id::text
+      and matched[2] not like '%..%'
+  ),
+  queued as (
+    insert into public.dm_message_media_purges (bucket, object_path)
+    select media.bucket, media.object_path
+    from media
+    on conflict (bucket, object_path) do nothing
+  ),
+  deleted as (
+    delete from public.dm_messages messages
+    using expired
+    where messages.id = expired.id
+    returning 1
+  )
+  -- Data-modifying CTEs always run, so the media is queued in the same
+  -- statement that removes the rows pointing at it.
+  select count(*)::integer
+  into purged_count
+  from deleted;
+
+  return purged_count;
+end;
+$$;
+
+revoke all on function public.purge_expired_dm_messages(integer)
+  from public, anon, authenticated;
+grant execute on function public.purge_expired_dm_messages(integer) to service_role;
+
+comment on function public.purge_expired_dm_messages(integer) is
+  'Deletes a batch of expired disappearing DMs and queues their uploaded media for Storage removal. Service role only.';
+
+commit;
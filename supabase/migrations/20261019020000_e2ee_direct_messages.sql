@@ -0,0 +1,660 @@
+/*
+  # End-to-end encrypted direct messages
+
+  Any member of a DM or group DM can turn on end-to-end encryption for the
+  conversation. It cannot be turned off again, so nobody can quietly
+  downgrade a thread the other members expect to be private.
+
+  Each signed-in device publishes one P-256 public key in `dm_device_keys`;
+  the private half never leaves the device. Clients encrypt every message
+  with a fresh content key and wrap that key for each member device, storing
+  the result in `dm_messages.encrypted_payload`. The server only ever sees a
+  fixed `Encrypted message` placeholder in `content`, so inbox previews,
+  Catch-Up, activity, push, and reminders degrade to that text on their own.
+  Attachments are encrypted before upload and stored as opaque
+  `application/octet-stream` objects in `chat-uploads`.
+
+  Server features that need plaintext are closed for encrypted messages:
+  conversation search and the shared-content list skip them, edits are
+  rejected, and polls, shared locations, and scheduled sends are refused
+  once encryption is on.
+*/
+
+begin;
+
+create schema if not exists e2ee_dms_private;
+
+revoke all on schema e2ee_dms_private from public, anon, authenticated;
+grant usage on schema e2ee_dms_private to authenticated, service_role;
+
+alter default privileges for role postgres in schema e2ee_dms_private
+  revoke execute on functions from public;
+
+alter table public.dm_conversations
+  add column e2ee_enabled_at timestamptz,
+  add column e2ee_enabled_by uuid references public.users(id) on delete set null;
+
+alter table public.dm_messages
+  add column encrypted_payload jsonb,
+  add constraint dm_messages_encrypted_payload_check check (
+    encrypted_payload is null
+    or (
+      jsonb_typeof(encrypted_payload) = 'object'
+      and octet_length(encrypted_payload::text) <= 131072
+    )
+  );
+
+create table public.dm_device_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  public_key text not null check (char_length(public_key) between 80 and 200),
+  device_label text check (device_label is null or char_length(device_label) <= 80),
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index dm_device_keys_active_user_idx
+  on public.dm_device_keys (user_id, created_at)
+  where revoked_at is null;
+
+alter table public.dm_device_keys enable row level security;
+
+revoke all on table public.dm_device_keys from public, anon, authenticated;
+grant select, insert on table public.dm_device_keys to authenticated;
+grant update (revoked_at) on table public.dm_device_keys to authenticated;
+grant select on table public.dm_device_keys to service_role;
+
+create policy "Members read active device keys"
+  on public.dm_device_keys
+  for select
+  to authenticated
+  using (
+    revoked_at is null
+    and (
+      user_id = (select auth.uid())
+      or not private.users_have_block((select auth.uid()), user_id)
+    )
+  );
+
+create policy "Members publish their own device keys"
+  on public.dm_device_keys
+  for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id and revoked_at is null);
+
+create policy "Members revoke their own device keys"
+  on public.dm_device_keys
+  for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+comment on table public.dm_device_keys is
+  'Public halves of per-device encryption keys. Revoked keys stay for history but are no longer readable or encrypted to.';
+
+-- Runs as the writer, who already reads their own active keys through RLS.
+create function e2ee_dms_private.limit_dm_device_keys()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  if (
+    select count(*)
+    from public.dm_device_keys device_keys
+    where device_keys.user_id = new.user_id
+      and device_keys.revoked_at is null
+  ) >= 10 then
+    raise exception using
+      errcode = 'P0001',
+      message = 'Remove an old device before setting up encryption on another one';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger limit_dm_device_keys
+  before insert on public.dm_device_keys
+  for each row execute function e2ee_dms_private.limit_dm_device_keys();
+
+-- Runs as the writer, like the expiry stamp: members read their own
+-- conversation's encryption state through the existing participant policy.
+create function e2ee_dms_private.prepare_encrypted_dm_message()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  conversation_encrypted boolean;
+begin
+  if tg_op = 'UPDATE' then
+    if old.encrypted_payload is not null
+      and (new.content is distinct from old.content or new.encrypted_payload is distinct from old.encrypted_payload) then
+      raise exception using
+        errcode = '42501',
+        message = 'Encrypted messages cannot be edited';
+    end if;
+
+    if old.encrypted_payload is null and new.encrypted_payload is not null then
+      raise exception using
+        errcode = '42501',
+        message = 'Sent messages cannot be encrypted afterward';
+    end if;
+
+    return new;
+  end if;
+
+  if new.message_type = 'system' then
+    new.encrypted_payload := null;
+    return new;
+  end if;
+
+  select conversations.e2ee_enabled_at is not null
+  into conversation_encrypted
+  from public.dm_conversations conversations
+  where conversations.id = new.conversation_id;
+
+  if not coalesce(conversation_encrypted, false) then
+    if new.encrypted_payload is not null then
+      raise exception using
+        errcode = '22023',
+        message = 'End-to-end encryption is off for this conversation';
+    end if;
+
+    return new;
+  end if;
+
+  if new.encrypted_payload is null then
+    raise exception using
+      errcode = '22023',
+      message = 'This conversation is end-to-end encrypted. Update ShadowChat to send messages here.';
+  end if;
+
+  if new.message_type not in ('text', 'file')
+    or new.audio_url is not null
+    or new.thumbnail_url is not null
+    or (new.message_type = 'text' and new.file_url is not null) then
+    raise exception using
+      errcode = '22023',
+      message = 'This message type is not available in end-to-end encrypted conversations';
+  end if;
+
+  new.content := 'Encrypted message';
+  new.media_width := null;
+  new.media_height := null;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists prepare_encrypted_dm_message on public.dm_messages;
+create trigger prepare_encrypted_dm_message
+  before insert or update of content, encrypted_payload on public.dm_messages
+  for each row execute function e2ee_dms_private.prepare_encrypted_dm_message();
+
+-- Scheduled text would sit on the server in plaintext until it is sent.
+create function e2ee_dms_private.reject_encrypted_scheduled_message()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  if new.surface = 'dm' and exists (
+    select 1
+    from public.dm_conversations conversations
+    where conversations.id = new.conversation_id
+      and conversations.e2ee_enabled_at is not null
+  ) then
+    raise exception using
+      errcode = '22023',
+      message = 'Scheduled messages are not available in end-to-end encrypted conversations';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger reject_encrypted_scheduled_message
+  before insert or update of content, send_at on public.scheduled_messages
+  for each row execute function e2ee_dms_private.reject_encrypted_scheduled_message();
+
+create function e2ee_dms_private.enable_dm_encryption_impl(target_conversation_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_conversation public.dm_conversations;
+  other_user_id uuid;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if public.is_user_channel_banned(caller_id, 'all_interaction') then
+    raise exception using
+      errcode = 'P0001',
+      message = public.get_channel_ban_block_message(caller_id, 'all_interaction');
+  end if;
+
+  select conversations.*
+  into target_conversation
+  from public.dm_conversations conversations
+  where conversations.id = target_conversation_id
+    and caller_id = any (conversations.participants)
+  for update;
+
+  if target_conversation.id is null then
+    raise exception using
+      errcode = '42501',
+      message = 'Conversation is unavailable';
+  end if;
+
+  if target_conversation.kind = 'direct' then
+    select participant_id
+    into other_user_id
+    from unnest(target_conversation.participants) participant_id
+    where participant_id <> caller_id
+    limit 1;
+
+    if private.users_have_block(caller_id, other_user_id) then
+      raise exception using
+        errcode = '42501',
+        message = 'Messaging is unavailable for this user';
+    end if;
+  end if;
+
+  if target_conversation.e2ee_enabled_at is null then
+    update public.dm_conversations conversations
+    set e2ee_enabled_at = now(),
+        e2ee_enabled_by = caller_id,
+        updated_at = now()
+    where conversations.id = target_conversation.id
+    returning conversations.* into target_conversation;
+
+    insert into public.dm_messages (conversation_id, sender_id, content, message_type, read_by)
+    values (
+      target_conversation.id,
+      caller_id,
+      'End-to-end encryption turned on',
+      'system',
+      target_conversation.participants
+    );
+  end if;
+
+  return jsonb_build_object(
+    'conversation_id', target_conversation.id,
+    'e2ee_enabled_at', target_conversation.e2ee_enabled_at,
+    'e2ee_enabled_by', target_conversation.e2ee_enabled_by
+  );
+end;
+$$;
+
+revoke all on function e2ee_dms_private.limit_dm_device_keys()
+  from public, anon, authenticated, service_role;
+revoke all on function e2ee_dms_private.prepare_encrypted_dm_message()
+  from public, anon, authenticated, service_role;
+revoke all on function e2ee_dms_private.reject_encrypted_scheduled_message()
+  from public, anon, authenticated, service_role;
+revoke all on function e2ee_dms_private.enable_dm_encryption_impl(uuid)
+  from public, anon, authenticated, service_role;
+
+grant execute on function e2ee_dms_private.enable_dm_encryption_impl(uuid)
+  to authenticated, service_role;
+
+create function public.enable_dm_encryption(target_conversation_id uuid)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select e2ee_dms_private.enable_dm_encryption_impl(target_conversation_id);
+$$;
+
+revoke all on function public.enable_dm_encryption(uuid)
+  from public, anon, authenticated, service_role;
+grant execute on function public.enable_dm_encryption(uuid)
+  to authenticated, service_role;
+
+comment on function public.enable_dm_encryption(uuid) is
+  'Turns on end-to-end encryption for a conversation for any member and posts one system notice. Encryption cannot be turned off.';
+
+-- Search and shared content only ever see the placeholder, so encrypted rows
+-- are left out instead of matching on it.
+create or replace function public.search_dm_conversation_messages(
+  target_conversation_id uuid,
+  search_query text,
+  result_limit integer default 30,
+  before_created_at timestamptz default null,
+  before_id uuid default null
+)
+returns table (
+  id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  content text,
+  message_type text,
+  file_url text,
+  thumbnail_url text,
+  audio_url text,
+  audio_duration integer,
+  reply_to uuid,
+  reactions jsonb,
+  edited_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  sender jsonb
+)
+language plpgsql
+stable
+security invoker
+set search_path = pg_catalog, public
+as $$
+declare
+  bounded_limit integer := greatest(1, least(coalesce(result_limit, 30), 50));
+  normalized_query text := left(trim(coalesce(search_query, '')), 200);
+begin
+  if target_conversation_id is null then
+    raise exception 'Conversation is required';
+  end if;
+
+  if normalized_query = '' then
+    return;
+  end if;
+
+  if (before_created_at is null) <> (before_id is null) then
+    raise exception 'DM search cursor must include both created_at and id';
+  end if;
+
+  if not exists (
+    select 1
+    from public.dm_conversations conversations
+    where conversations.id = target_conversation_id
+  ) then
+    raise exception using errcode = '42501', message = 'Conversation is unavailable';
+  end if;
+
+  return query
+  select
+    messages.id,
+    messages.conversation_id,
+    messages.sender_id,
+    messages.content,
+    messages.message_type,
+    messages.file_url,
+    messages.thumbnail_url,
+    messages.audio_url,
+    messages.audio_duration,
+    messages.reply_to,
+    messages.reactions,
+    messages.edited_at,
+    messages.created_at,
+    messages.updated_at,
+    public.user_public_profile_json(profiles) as sender
+  from public.dm_messages messages
+  join public.users profiles on profiles.id = messages.sender_id
+  where messages.conversation_id = target_conversation_id
+    and messages.encrypted_payload is null
+    and to_tsvector('simple', coalesce(messages.content, ''))
+      @@ websearch_to_tsquery('simple', normalized_query)
+    and (
+      before_created_at is null
+      or (messages.created_at, messages.id) < (before_created_at, before_id)
+    )
+  order by messages.created_at desc, messages.id desc
+  limit bounded_limit;
+end;
+$$;
+
+comment on function public.search_dm_conversation_messages(uuid, text, integer, timestamptz, uuid) is
+  'Returns a bounded keyset page of caller-visible text matches inside one DM conversation. End-to-end encrypted messages are never matched.';
+
+create or replace function public.list_dm_shared_content(
+  target_conversation_id uuid,
+  content_filter text default 'all',
+  result_limit integer default 30,
+  before_created_at timestamptz default null,
+  before_id uuid default null
+)
+returns table (
+  id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  content text,
+  message_type text,
+  content_kind text,
+  file_url text,
+  thumbnail_url text,
+  audio_url text,
+  audio_duration integer,
+  media_width integer,
+  media_height integer,
+  created_at timestamptz,
+  sender jsonb
+)
+language plpgsql
+stable
+security invoker
+set search_path = pg_catalog, public
+as $$
+declare
+  bounded_limit integer := greatest(1, least(coalesce(result_limit, 30), 50));
+  normalized_filter text := lower(trim(coalesce(content_filter, 'all')));
+begin
+  if target_conversation_id is null then
+    raise exception 'Conversation is required';
+  end if;
+
+  if normalized_filter not in ('all', 'media', 'files', 'links') then
+    raise exception 'Shared content filter must be all, media, files, or links';
+  end if;
+
+  if (before_created_at is null) <> (before_id is null) then
+    raise exception 'Shared content cursor must include both created_at and id';
+  end if;
+
+  if not exists (
+    select 1
+    from public.dm_conversations conversations
+    where conversations.id = target_conversation_id
+  ) then
+    raise exception using errcode = '42501', message = 'Conversation is unavailable';
+  end if;
+
+  return query
+  with classified as (
+    select
+      messages.*,
+      case
+        when messages.message_type = 'file' then 'files'
+        when messages.message_type in ('image', 'video', 'audio')
+          or messages.audio_url is not null then 'media'
+        when messages.content ~* 'https?://[^[:space:]]+' then 'links'
+        else null
+      end as resolved_kind
+    from public.dm_messages messages
+    where messages.conversation_id = target_conversation_id
+      and messages.encrypted_payload is null
+      and (
+        messages.message_type in ('image', 'video', 'audio', 'file')
+        or messages.audio_url is not null
+        or messages.content ~* 'https?://[^[:space:]]+'
+      )
+      and (
+        before_created_at is null
+        or (messages.created_at, messages.id) < (before_created_at, before_id)
+      )
+  )
+  select
+    classified.id,
+    classified.conversation_id,
+    classified.sender_id,
+    classified.content,
+    classified.message_type,
+    classified.resolved_kind,
+    classified.file_url,
+    classified.thumbnail_url,
+    classified.audio_url,
+    classified.audio_duration,
+    classified.media_width,
+    classified.media_height,
+    classified.created_at,
+    public.user_public_profile_json(profiles) as sender
+  from classified
+  join public.users profiles on profiles.id = classified.sender_id
+  where normalized_filter = 'all' or classified.resolved_kind = normalized_filter
+  order by classified.created_at desc, classified.id desc
+  limit bounded_limit;
+end;
+$$;
+
+comment on function public.list_dm_shared_content(uuid, text, integer, timestamptz, uuid) is
+  'Returns a bounded keyset page of caller-visible DM media, files, or link messages. End-to-end encrypted attachments are left out.';
+
+drop function if exists public.get_dm_conversations();
+
+create function public.get_dm_conversations()
+returns table (
+  id uuid,
+  participants uuid[],
+  last_message_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  other_user jsonb,
+  last_message jsonb,
+  unread_count integer,
+  is_blocked boolean,
+  blocked_by_me boolean,
+  kind text,
+  title text,
+  avatar_url text,
+  created_by uuid,
+  members jsonb,
+  message_ttl_seconds integer,
+  e2ee_enabled_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  caller_user_id uuid := auth.uid();
+begin
+  if caller_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select
+    conversation_row.id,
+    conversation_row.participants,
+    conversation_row.last_message_at,
+    conversation_row.created_at,
+    conversation_row.updated_at,
+    case
+      when conversation_row.kind = 'group' then null
+      else (
+        select public.user_public_profile_json(other_user_row)
+        from public.users other_user_row
+        where other_user_row.id <> caller_user_id
+          and other_user_row.id = any (conversation_row.participants)
+        limit 1
+      )
+    end as other_user,
+    case
+      when relationship.is_blocked then null
+      else (
+        select to_jsonb(message_row)
+        from public.dm_messages message_row
+        where message_row.conversation_id = conversation_row.id
+          and (message_row.expires_at is null or message_row.expires_at > now())
+          and (
+            message_row.sender_id = caller_user_id
+            or not private.users_have_block(caller_user_id, message_row.sender_id)
+          )
+        order by message_row.created_at desc, message_row.id desc
+        limit 1
+      )
+    end as last_message,
+    case
+      when relationship.is_blocked then 0
+      else (
+        select count(*)::integer
+        from public.dm_messages unread_message_row
+        where unread_message_row.conversation_id = conversation_row.id
+          and unread_message_row.sender_id <> caller_user_id
+          and (unread_message_row.expires_at is null or unread_message_row.expires_at > now())
+          and not private.users_have_block(caller_user_id, unread_message_row.sender_id)
+          and (
+            unread_message_row.read_by is null
+            or not (caller_user_id = any (unread_message_row.read_by))
+          )
+      )
+    end as unread_count,
+    relationship.is_blocked,
+    relationship.blocked_by_me,
+    conversation_row.kind,
+    conversation_row.title,
+    conversation_row.avatar_url,
+    conversation_row.created_by,
+    case
+      when conversation_row.kind = 'group' then (
+        select coalesce(
+          jsonb_agg(public.user_public_profile_json(member_row) order by member_entry.member_order),
+          '[]'::jsonb
+        )
+        from unnest(conversation_row.participants) with ordinality member_entry(member_id, member_order)
+        join public.users member_row on member_row.id = member_entry.member_id
+        where member_row.id = caller_user_id
+          or not private.users_have_block(caller_user_id, member_row.id)
+      )
+      else null
+    end as members,
+    conversation_row.message_ttl_seconds,
+    conversation_row.e2ee_enabled_at
+  from public.dm_conversations conversation_row
+  cross join lateral (
+    select case
+      when conversation_row.kind = 'direct' then (
+        select participant_id
+        from unnest(conversation_row.participants) participant_id
+        where participant_id <> caller_user_id
+        limit 1
+      )
+    end as other_user_id
+  ) direct_pair
+  cross join lateral (
+    select
+      private.users_have_block(caller_user_id, direct_pair.other_user_id) as is_blocked,
+      exists (
+        select 1
+        from public.user_blocks blocks
+        where blocks.blocker_id = caller_user_id
+          and blocks.blocked_id = direct_pair.other_user_id
+      ) as blocked_by_me
+  ) relationship
+  where caller_user_id = any (conversation_row.participants)
+  order by conversation_row.last_message_at desc, conversation_row.id desc;
+end;
+$$;
+
+revoke all on function public.get_dm_conversations()
+  from public, anon, authenticated;
+grant execute on function public.get_dm_conversations() to authenticated;
+
+comment on function public.get_dm_conversations() is
+  'Returns preserved DM threads with safe profiles and a direction-private pair-block state. Groups add their title, avatar, owner, and the member profiles the caller may see. Blocked and expired previews and unread counts are suppressed, and each row carries its disappearing-message timer and end-to-end encryption state.';
+
+update storage.buckets
+set allowed_mime_types = array_append(allowed_mime_types, 'application/octet-stream')
+where id = 'chat-uploads'
+  and allowed_mime_types is not null
+  and not ('application/octet-stream' = any (allowed_mime_types));
+
+commit;
@@ -0,0 +1,432 @@
+/*
+  # ShadowPin carousel Pins
+
+  A Creator Studio draft can hold an ordered set of up to ten uploaded
+  images or videos, each with its own caption. Every slide is a normal
+  `shadow_pin_draft_assets` row; `shadow_pin_creator_draft_slides` records
+  their order and captions. Position 0 is the cover and always mirrors the
+  draft's `active_asset_id`, so the existing upload, processing, promotion,
+  and finalize paths keep working on the cover unchanged.
+
+  When a draft with slides is finalized, its slides are copied into
+  `shadow_pin_image_slides` next to the published Pin. Extra slides must
+  already be promoted (`publish_ready`) by the media workers; position 0
+  reuses the Pin's own media. Pins published without slides keep reading
+  exactly as before.
+*/
+
+BEGIN;
+
+-- Ten slides plus a replacement in flight each need room in the draft caps.
+ALTER TABLE public.shadow_pin_draft_assets
+  DROP CONSTRAINT shadow_pin_draft_assets_generation_ceiling_check,
+  ADD CONSTRAINT shadow_pin_draft_assets_generation_ceiling_check
+    CHECK (generation BETWEEN 1 AND 96);
+
+CREATE OR REPLACE FUNCTION private.enforce_shadow_pin_draft_asset_caps()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  draft_creator_id uuid;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended(NEW.draft_id::text, 0));
+
+  SELECT draft.creator_id INTO draft_creator_id
+  FROM public.shadow_pin_creator_drafts draft
+  WHERE draft.id = NEW.draft_id;
+  IF draft_creator_id IS NULL OR draft_creator_id <> NEW.creator_id THEN
+    RAISE EXCEPTION 'Draft asset owner does not match the draft';
+  END IF;
+  IF NEW.generation > 96 THEN
+    RAISE EXCEPTION 'Draft media generation limit reached';
+  END IF;
+  IF (SELECT count(*) FROM public.shadow_pin_draft_assets asset
+      WHERE asset.draft_id = NEW.draft_id
+        AND asset.deleted_at IS NULL
+        AND asset.state NOT IN ('failed', 'superseded', 'deleted')) >= 14 THEN
+    RAISE EXCEPTION 'Clean up an older draft asset before adding another';
+  END IF;
+  IF (SELECT count(*) FROM public.shadow_pin_draft_assets asset
+      WHERE asset.creator_id = NEW.creator_id
+        AND asset.deleted_at IS NULL
+        AND asset.state NOT IN ('failed', 'superseded', 'deleted')) >= 80 THEN
+    RAISE EXCEPTION 'Too many active Creator Studio assets';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION private.enforce_shadow_pin_draft_asset_caps()
+  FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE public.shadow_pin_creator_draft_slides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  draft_id uuid NOT NULL REFERENCES public.shadow_pin_creator_drafts(id) ON DELETE CASCADE,
+  creator_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  position smallint NOT NULL,
+  asset_id uuid REFERENCES public.shadow_pin_draft_assets(id) ON DELETE SET NULL,
+  caption text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT shadow_pin_creator_draft_slides_position_check
+    CHECK (position BETWEEN 0 AND 9),
+  CONSTRAINT shadow_pin_creator_draft_slides_caption_check
+    CHECK (char_length(caption) <= 200),
+  UNIQUE (draft_id, position)
+);
+
+CREATE INDEX shadow_pin_creator_draft_slides_asset_idx
+  ON public.shadow_pin_creator_draft_slides (asset_id)
+  WHERE asset_id IS NOT NULL;
+
+ALTER TABLE public.shadow_pin_creator_draft_slides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Creators read own ShadowPin draft slides"
+  ON public.shadow_pin_creator_draft_slides FOR SELECT TO authenticated
+  USING ((SELECT auth.uid()) = creator_id);
+
+REVOKE ALL ON TABLE public.shadow_pin_creator_draft_slides
+  FROM PUBLIC, anon, authenticated, service_role;
+GRANT SELECT ON TABLE public.shadow_pin_creator_draft_slides TO authenticated;
+GRANT ALL PRIVILEGES ON TABLE public.shadow_pin_creator_draft_slides TO service_role;
+
+CREATE TABLE public.shadow_pin_image_slides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  image_id uuid NOT NULL REFERENCES public.shadow_pin_images(id) ON DELETE CASCADE,
+  position smallint NOT NULL,
+  media_type text NOT NULL,
+  image_url text NOT NULL,
+  image_path text,
+  thumbnail_url text,
+  thumbnail_path text,
+  medium_url text,
+  medium_path text,
+  image_width integer,
+  image_height integer,
+  provider text,
+  provider_asset_id text,
+  video_preview_url text,
+  video_playback_url text,
+  video_hls_url text,
+  video_embed_url text,
+  duration_seconds integer,
+  caption text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT shadow_pin_image_slides_position_check
+    CHECK (position BETWEEN 0 AND 9),
+  CONSTRAINT shadow_pin_image_slides_media_type_check
+    CHECK (media_type IN ('image', 'video')),
+  CONSTRAINT shadow_pin_image_slides_caption_check
+    CHECK (char_length(caption) <= 200),
+  CONSTRAINT shadow_pin_image_slides_dimensions_check
+    CHECK ((image_width IS NULL OR image_width > 0) AND (image_height IS NULL OR image_height > 0)),
+  UNIQUE (image_id, position)
+);
+
+CREATE INDEX shadow_pin_image_slides_provider_asset_idx
+  ON public.shadow_pin_image_slides (provider, provider_asset_id)
+  WHERE provider_asset_id IS NOT NULL;
+
+ALTER TABLE public.shadow_pin_image_slides ENABLE ROW LEVEL SECURITY;
+
+-- Slides are visible exactly when their Pin is, through the Pin's own policy.
+CREATE POLICY "Authenticated users can read shadow pin image slides"
+  ON public.shadow_pin_image_slides FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.shadow_pin_images images
+      WHERE images.id = shadow_pin_image_slides.image_id
+    )
+  );
+
+REVOKE ALL ON TABLE public.shadow_pin_image_slides
+  FROM PUBLIC, anon, authenticated, service_role;
+GRANT SELECT ON TABLE public.shadow_pin_image_slides TO authenticated;
+GRANT ALL PRIVILEGES ON TABLE public.shadow_pin_image_slides TO service_role;
+
+-- Workers that restage the cover only move active_asset_id; keep slide 0 on it.
+CREATE FUNCTION shadow_pin_private.sync_creator_cover_slide()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.shadow_pin_creator_draft_slides slides
+  SET asset_id = NEW.active_asset_id,
+      updated_at = now()
+  WHERE slides.draft_id = NEW.id
+    AND slides.position = 0
+    AND slides.asset_id IS DISTINCT FROM NEW.active_asset_id;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION shadow_pin_private.sync_creator_cover_slide()
+  FROM PUBLIC, anon, authenticated, service_role;
+
+CREATE TRIGGER shadow_pin_creator_drafts_sync_cover_slide
+  AFTER UPDATE OF active_asset_id ON public.shadow_pin_creator_drafts
+  FOR EACH ROW
+  WHEN (NEW.active_asset_id IS DISTINCT FROM OLD.active_asset_id)
+  EXECUTE FUNCTION shadow_pin_private.sync_creator_cover_slide();
+
+CREATE FUNCTION shadow_pin_private.publish_creator_draft_slides()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.shadow_pin_creator_draft_slides slides
+    WHERE slides.draft_id = NEW.creator_draft_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.shadow_pin_creator_draft_slides slides
+    LEFT JOIN public.shadow_pin_draft_assets asset
+      ON asset.id = slides.asset_id
+      AND asset.draft_id = slides.draft_id
+      AND asset.deleted_at IS NULL
+    WHERE slides.draft_id = NEW.creator_draft_id
+      AND slides.position > 0
+      AND (asset.id IS NULL OR asset.state <> 'publish_ready')
+  ) THEN
+    RAISE EXCEPTION 'Carousel slides are not ready to publish';
+  END IF;
+
+  DELETE FROM public.shadow_pin_image_slides published
+  WHERE published.image_id = NEW.id;
+
+  INSERT INTO public.shadow_pin_image_slides (
+    image_id, position, media_type,
+    image_url, image_path, thumbnail_url, thumbnail_path, medium_url, medium_path,
+    image_width, image_height, provider, provider_asset_id,
+    video_preview_url, video_playback_url, video_hls_url, video_embed_url,
+    duration_seconds, caption
+  )
+  SELECT
+    NEW.id,
+    slides.position,
+    CASE WHEN slides.position = 0 THEN NEW.media_type ELSE asset.asset_kind END,
+    CASE WHEN slides.position = 0 THEN NEW.image_url ELSE asset.final_image_url END,
+    CASE WHEN slides.position = 0 THEN NEW.image_path ELSE asset.final_image_path END,
+    CASE WHEN slides.position = 0 THEN NEW.thumbnail_url ELSE asset.final_thumbnail_url END,
+    CASE WHEN slides.position = 0 THEN NEW.thumbnail_path ELSE asset.final_thumbnail_path END,
+    CASE WHEN slides.position = 0 THEN NEW.medium_url ELSE asset.final_medium_url END,
+    CASE WHEN slides.position = 0 THEN NEW.medium_path ELSE asset.final_medium_path END,
+    CASE WHEN slides.position = 0 THEN NEW.image_width ELSE asset.image_width END,
+    CASE WHEN slides.position = 0 THEN NEW.image_height ELSE asset.image_height END,
+    CASE WHEN slides.position = 0 THEN NEW.provider ELSE asset.provider END,
+    CASE WHEN slides.position = 0 THEN NEW.provider_asset_id ELSE asset.provider_asset_id END,
+    CASE WHEN slides.position = 0 THEN NEW.video_preview_url ELSE asset.video_preview_url END,
+    CASE WHEN slides.position = 0 THEN NEW.video_playback_url ELSE asset.video_playback_url END,
+    CASE WHEN slides.position = 0 THEN NEW.video_hls_url ELSE asset.video_hls_url END,
+    CASE WHEN slides.position = 0 THEN NEW.video_embed_url ELSE asset.video_embed_url END,
+    CASE WHEN slides.position = 0 THEN NEW.duration_seconds ELSE asset.duration_seconds END,
+    slides.caption
+  FROM public.shadow_pin_creator_draft_slides slides
+  LEFT JOIN public.shadow_pin_draft_assets asset ON asset.id = slides.asset_id
+  WHERE slides.draft_id = NEW.creator_draft_id
+  ORDER BY slides.position;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION shadow_pin_private.publish_creator_draft_slides()
+  FROM PUBLIC, anon, authenticated, service_role;
+
+CREATE TRIGGER shadow_pin_images_publish_creator_slides
+  AFTER INSERT OR UPDATE OF creator_draft_id ON public.shadow_pin_images
+  FOR EACH ROW
+  WHEN (NEW.creator_draft_id IS NOT NULL)
+  EXECUTE FUNCTION shadow_pin_private.publish_creator_draft_slides();
+
+CREATE FUNCTION shadow_pin_private.set_creator_draft_slides_impl(
+  target_draft_id uuid,
+  target_expected_revision integer,
+  target_slides jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  current_draft public.shadow_pin_creator_drafts%ROWTYPE;
+  updated_draft public.shadow_pin_creator_drafts%ROWTYPE;
+  cover_asset public.shadow_pin_draft_assets%ROWTYPE;
+  slide_count integer;
+  requested_ids uuid[];
+  requested_captions text[];
+  previous_ids uuid[];
+BEGIN
+  IF caller_id IS NULL THEN RAISE EXCEPTION 'Authentication required'; END IF;
+  IF target_slides IS NULL OR jsonb_typeof(target_slides) <> 'array' THEN
+    RAISE EXCEPTION 'Slides must be a list';
+  END IF;
+
+  SELECT * INTO current_draft FROM public.shadow_pin_creator_drafts draft
+  WHERE draft.id = target_draft_id AND draft.creator_id = caller_id FOR UPDATE;
+  IF current_draft.id IS NULL THEN RAISE EXCEPTION 'Draft is unavailable'; END IF;
+  IF current_draft.expires_at <= now() THEN RAISE EXCEPTION 'Draft has expired'; END IF;
+  IF current_draft.revision <> target_expected_revision THEN RAISE EXCEPTION 'Draft changed on another device'; END IF;
+  IF current_draft.state IN ('preparing_publish', 'published', 'abandoned') THEN
+    RAISE EXCEPTION 'Draft cannot be edited in its current state';
+  END IF;
+  IF current_draft.promotion_lease_expires_at > now() THEN
+    RAISE EXCEPTION 'Draft publish is already in progress';
+  END IF;
+
+  slide_count := jsonb_array_length(target_slides);
+  IF slide_count > 10 THEN RAISE EXCEPTION 'A Pin can hold at most 10 slides'; END IF;
+  IF slide_count > 1 AND current_draft.target_image_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Carousel slides can only be added to new Pins';
+  END IF;
+
+  SELECT
+    coalesce(array_agg(
+      CASE
+        WHEN input.slide ->> 'asset_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+          THEN (input.slide ->> 'asset_id')::uuid
+      END ORDER BY input.ordinality
+    ), ARRAY[]::uuid[]),
+    coalesce(array_agg(trim(coalesce(input.slide ->> 'caption', '')) ORDER BY input.ordinality), ARRAY[]::text[])
+  INTO requested_ids, requested_captions
+  FROM jsonb_array_elements(target_slides) WITH ORDINALITY AS input(slide, ordinality);
+
+  IF array_position(requested_ids, NULL) IS NOT NULL THEN
+    RAISE EXCEPTION 'Every slide needs uploaded media';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(requested_captions) AS caption WHERE char_length(caption) > 200) THEN
+    RAISE EXCEPTION 'Slide captions must be at most 200 characters';
+  END IF;
+  IF (SELECT count(DISTINCT id) FROM unnest(requested_ids) AS id) <> slide_count THEN
+    RAISE EXCEPTION 'Each slide needs its own media';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(requested_ids) AS requested(asset_id)
+    LEFT JOIN public.shadow_pin_draft_assets asset
+      ON asset.id = requested.asset_id
+      AND asset.draft_id = current_draft.id
+      AND asset.creator_id = caller_id
+      AND asset.deleted_at IS NULL
+      AND asset.state NOT IN ('failed', 'superseded', 'deleted')
+      AND asset.asset_kind IN ('image', 'video')
+      AND asset.provider IN ('shadow_pin_storage', 'bunny_stream')
+    WHERE asset.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Slide media is unavailable';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT ids.asset_id), ARRAY[]::uuid[])
+  INTO previous_ids
+  FROM (
+    SELECT slides.asset_id
+    FROM public.shadow_pin_creator_draft_slides slides
+    WHERE slides.draft_id = current_draft.id AND slides.asset_id IS NOT NULL
+    UNION
+    SELECT current_draft.active_asset_id
+    WHERE current_draft.active_asset_id IS NOT NULL
+  ) ids;
+
+  DELETE FROM public.shadow_pin_creator_draft_slides slides
+  WHERE slides.draft_id = current_draft.id;
+
+  IF slide_count > 1 THEN
+    INSERT INTO public.shadow_pin_creator_draft_slides (draft_id, creator_id, position, asset_id, caption)
+    SELECT current_draft.id, caller_id, (requested.ordinality - 1)::smallint, requested.asset_id,
+      requested_captions[requested.ordinality]
+    FROM unnest(requested_ids) WITH ORDINALITY AS requested(asset_id, ordinality);
+  END IF;
+
+  -- Anything that used to be a slide or the cover and was dropped is superseded.
+  -- An empty list only clears the carousel and leaves the cover where it is.
+  UPDATE public.shadow_pin_draft_assets asset
+  SET state = 'superseded'
+  WHERE asset.draft_id = current_draft.id
+    AND asset.id = ANY(previous_ids)
+    AND NOT asset.id = ANY(
+      CASE WHEN slide_count = 0 THEN ARRAY[current_draft.active_asset_id] ELSE requested_ids END
+    )
+    AND asset.state NOT IN ('failed', 'superseded', 'deleted');
+
+  IF slide_count > 0 THEN
+    SELECT asset.* INTO cover_asset
+    FROM public.shadow_pin_draft_assets asset
+    WHERE asset.id = requested_ids[1];
+  END IF;
+
+  UPDATE public.shadow_pin_creator_drafts draft
+  SET active_asset_id = coalesce(cover_asset.id, draft.active_asset_id),
+      source_kind = CASE
+        WHEN cover_asset.id IS NULL OR cover_asset.id = draft.active_asset_id THEN draft.source_kind
+        WHEN cover_asset.asset_kind = 'video' THEN 'video_upload'
+        WHEN cover_asset.source_url IS NOT NULL THEN 'image_url'
+        ELSE 'image_upload'
+      END,
+      state = CASE
+        WHEN cover_asset.id IS NULL OR cover_asset.id = draft.active_asset_id THEN draft.state
+        WHEN cover_asset.state = 'reserved' THEN 'uploading'
+        ELSE cover_asset.state
+      END,
+      last_error_code = NULL,
+      last_error_message = NULL
+  WHERE draft.id = current_draft.id
+  RETURNING * INTO updated_draft;
+
+  RETURN jsonb_build_object(
+    'draft', to_jsonb(updated_draft),
+    'slides', coalesce((
+      SELECT jsonb_agg(to_jsonb(slides) ORDER BY slides.position)
+      FROM public.shadow_pin_creator_draft_slides slides
+      WHERE slides.draft_id = current_draft.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION shadow_pin_private.set_creator_draft_slides_impl(uuid, integer, jsonb)
+  FROM PUBLIC, anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION shadow_pin_private.set_creator_draft_slides_impl(uuid, integer, jsonb)
+  TO authenticated, service_role;
+
+CREATE FUNCTION public.set_shadow_pin_creator_draft_slides(
+  target_draft_id uuid,
+  target_expected_revision integer,
+  target_slides jsonb
+)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT shadow_pin_private.set_creator_draft_slides_impl(
+    target_draft_id,
+    target_expected_revision,
+    target_slides
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.set_shadow_pin_creator_draft_slides(uuid, integer, jsonb)
+  FROM PUBLIC, anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.set_shadow_pin_creator_draft_slides(uuid, integer, jsonb)
+  TO authenticated, service_role;
+
+COMMENT ON TABLE public.shadow_pin_creator_draft_slides IS
+  'Order and captions of a Creator Studio carousel draft. Position 0 mirrors the draft active asset.';
+COMMENT ON TABLE public.shadow_pin_image_slides IS
+  'Published carousel slides, readable wherever their ShadowPin image is readable.';
+
+COMMIT;
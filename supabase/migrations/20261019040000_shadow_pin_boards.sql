@@ -0,0 +1,861 @@
+/*
+  # ShadowPin boards
+
+  Members can save any Pin they can already read into personal boards that
+  group Pins across categories. A board is public, visible to accepted
+  Connections, visible to one of the owner's Inner Circles, or private.
+  Other members can follow boards they are allowed to see.
+
+  Browser roles receive no direct table privileges. Guarded caller-scoped
+  RPCs own every read and mutation and evaluate board visibility on every
+  call, so an ended Connection, a block, or an Inner Circle removal hides a
+  board immediately without rewriting follows or saved Pins. Board RPCs
+  return Pin identities only; existing ShadowPin RLS remains authoritative
+  for the media rows the browser loads.
+*/
+
+BEGIN;
+
+CREATE TABLE public.shadow_pin_boards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  visibility text NOT NULL DEFAULT 'public',
+  circle_id uuid REFERENCES public.inner_circles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT shadow_pin_boards_title_check CHECK (
+    title = btrim(title)
+    AND char_length(title) BETWEEN 1 AND 60
+    AND title !~ '[[:cntrl:]]'
+  ),
+  CONSTRAINT shadow_pin_boards_description_check CHECK (
+    description = btrim(description)
+    AND char_length(description) <= 280
+    AND description !~ '[[:cntrl:]]'
+  ),
+  CONSTRAINT shadow_pin_boards_visibility_check CHECK (
+    visibility IN ('public', 'connections', 'circle', 'private')
+  ),
+  -- A deleted circle leaves a circle board with no audience, which reads as
+  -- owner-only until the owner picks a new scope.
+  CONSTRAINT shadow_pin_boards_circle_scope_check CHECK (
+    visibility = 'circle' OR circle_id IS NULL
+  )
+);
+
+CREATE TABLE public.shadow_pin_board_pins (
+  board_id uuid NOT NULL REFERENCES public.shadow_pin_boards(id) ON DELETE CASCADE,
+  image_id uuid NOT NULL REFERENCES public.shadow_pin_images(id) ON DELETE CASCADE,
+  added_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT shadow_pin_board_pins_pkey PRIMARY KEY (board_id, image_id)
+);
+
+CREATE TABLE public.shadow_pin_board_follows (
+  board_id uuid NOT NULL REFERENCES public.shadow_pin_boards(id) ON DELETE CASCADE,
+  follower_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT shadow_pin_board_follows_pkey PRIMARY KEY (board_id, follower_id)
+);
+
+CREATE INDEX shadow_pin_boards_owner_updated_idx
+  ON public.shadow_pin_boards (owner_id, updated_at DESC, id DESC);
+
+CREATE INDEX shadow_pin_boards_circle_idx
+  ON public.shadow_pin_boards (circle_id)
+  WHERE circle_id IS NOT NULL;
+
+CREATE INDEX shadow_pin_board_pins_board_added_idx
+  ON public.shadow_pin_board_pins (board_id, added_at DESC, image_id DESC);
+
+CREATE INDEX shadow_pin_board_pins_image_idx
+  ON public.shadow_pin_board_pins (image_id);
+
+CREATE INDEX shadow_pin_board_follows_follower_idx
+  ON public.shadow_pin_board_follows (follower_id, created_at DESC);
+
+ALTER TABLE public.shadow_pin_boards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shadow_pin_board_pins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shadow_pin_board_follows ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.shadow_pin_boards
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON TABLE public.shadow_pin_board_pins
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON TABLE public.shadow_pin_board_follows
+  FROM PUBLIC, anon, authenticated, service_role;
+GRANT SELECT ON TABLE public.shadow_pin_boards TO service_role;
+GRANT SELECT ON TABLE public.shadow_pin_board_pins TO service_role;
+GRANT SELECT ON TABLE public.shadow_pin_board_follows TO service_role;
+
+COMMENT ON TABLE public.shadow_pin_boards IS
+  'Member-owned ShadowPin boards. Browser roles use guarded caller-scoped RPCs only.';
+COMMENT ON TABLE public.shadow_pin_board_pins IS
+  'Pins saved to a ShadowPin board, keyed by board and Pin.';
+COMMENT ON TABLE public.shadow_pin_board_follows IS
+  'Members following a ShadowPin board they are allowed to see.';
+
+-- Only called from the definers below; browser roles cannot read the tables
+-- it consults.
+CREATE FUNCTION shadow_pin_private.can_view_board(
+  viewer_id uuid,
+  board_owner_id uuid,
+  board_visibility text,
+  board_circle_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN viewer_id IS NULL OR board_owner_id IS NULL THEN false
+    WHEN viewer_id = board_owner_id THEN true
+    WHEN private.users_have_block(viewer_id, board_owner_id) THEN false
+    WHEN board_visibility = 'public' THEN true
+    WHEN board_visibility = 'connections'
+      THEN private.users_are_connected(viewer_id, board_owner_id)
+    WHEN board_visibility = 'circle' AND board_circle_id IS NOT NULL
+      THEN private.users_are_connected(viewer_id, board_owner_id)
+        AND EXISTS (
+          SELECT 1
+          FROM public.inner_circles circles
+          JOIN public.inner_circle_members memberships
+            ON memberships.circle_id = circles.id
+          WHERE circles.id = board_circle_id
+            AND circles.owner_id = board_owner_id
+            AND memberships.member_id = viewer_id
+        )
+    ELSE false
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION shadow_pin_private.can_view_board(uuid, uuid, text, uuid)
+  FROM PUBLIC, anon, authenticated, service_role;
+
+CREATE FUNCTION shadow_pin_private.list_boards_impl(
+  target_owner_id uuid,
+  target_image_id uuid,
+  followed_only boolean
+)
+RETURNS TABLE (
+  id uuid,
+  owner_id uuid,
+  title text,
+  description text,
+  visibility text,
+  circle_id uuid,
+  pin_count integer,
+  follower_count integer,
+  cover_image_ids uuid[],
+  viewer_is_following boolean,
+  contains_image boolean,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  only_followed boolean := coalesce(followed_only, false);
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF NOT only_followed AND target_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Board owner is required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    boards.id,
+    boards.owner_id,
+    boards.title,
+    boards.description,
+    boards.visibility,
+    CASE WHEN boards.owner_id = caller_id THEN boards.circle_id END,
+    (
+      SELECT count(*)::integer
+      FROM public.shadow_pin_board_pins pins
+      JOIN public.shadow_pin_images images
+        ON images.id = pins.image_id
+      WHERE pins.board_id = boards.id
+        AND images.deleted_at IS NULL
+    ),
+    (
+      SELECT count(*)::integer
+      FROM public.shadow_pin_board_follows follows
+      WHERE follows.board_id = boards.id
+    ),
+    ARRAY(
+      SELECT pins.image_id
+      FROM public.shadow_pin_board_pins pins
+      JOIN public.shadow_pin_images images
+        ON images.id = pins.image_id
+      WHERE pins.board_id = boards.id
+        AND images.deleted_at IS NULL
+      ORDER BY pins.added_at DESC, pins.image_id DESC
+      LIMIT 4
+    ),
+    EXISTS (
+      SELECT 1
+      FROM public.shadow_pin_board_follows follows
+      WHERE follows.board_id = boards.id
+        AND follows.follower_id = caller_id
+    ),
+    target_image_id IS NOT NULL AND EXISTS (
+      SELECT 1
+      FROM public.shadow_pin_board_pins pins
+      WHERE pins.board_id = boards.id
+        AND pins.image_id = target_image_id
+    ),
+    boards.created_at,
+    boards.updated_at
+  FROM public.shadow_pin_boards boards
+  WHERE (
+      (only_followed AND EXISTS (
+        SELECT 1
+        FROM public.shadow_pin_board_follows follows
+        WHERE follows.board_id = boards.id
+          AND follows.follower_id = caller_id
+      ))
+      OR (NOT only_followed AND boards.owner_id = target_owner_id)
+    )
+    AND shadow_pin_private.can_view_board(
+      caller_id,
+      boards.owner_id,
+      boards.visibility,
+      boards.circle_id
+    )
+  ORDER BY boards.updated_at DESC, boards.id DESC;
+END;
+$$;
+
+CREATE FUNCTION shadow_pin_private.mutate_board_impl(
+  target_board_id uuid,
+  target_action text,
+  target_title text,
+  target_description text,
+  target_visibility text,
+  target_circle_id uuid
+)
+RETURNS TABLE (
+  id uuid,
+  changed boolean,
+  deleted boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  normalized_action text := lower(btrim(coalesce(target_action, '')));
+  normalized_title text := regexp_replace(btrim(coalesce(target_title, '')), '[[:space:]]+', ' ', 'g');
+  normalized_description text := regexp_replace(btrim(coalesce(target_description, '')), '[[:space:]]+', ' ', 'g');
+  normalized_visibility text := lower(btrim(coalesce(target_visibility, '')));
+  scoped_circle_id uuid;
+  owned_board_count integer;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF target_board_id IS NULL THEN
+    RAISE EXCEPTION 'Board id is required';
+  END IF;
+
+  IF normalized_action NOT IN ('create', 'update', 'delete') THEN
+    RAISE EXCEPTION 'Board action must be create, update, or delete';
+  END IF;
+
+  IF normalized_action = 'delete' THEN
+    DELETE FROM public.shadow_pin_boards boards
+    WHERE boards.id = target_board_id
+      AND boards.owner_id = caller_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION USING errcode = '42501', message = 'Board is unavailable';
+    END IF;
+
+    RETURN QUERY SELECT target_board_id, true, true;
+    RETURN;
+  END IF;
+
+  IF char_length(normalized_title) NOT BETWEEN 1 AND 60
+    OR normalized_title ~ '[[:cntrl:]]'
+  THEN
+    RAISE EXCEPTION 'Board title must be between 1 and 60 characters';
+  END IF;
+
+  IF char_length(normalized_description) > 280
+    OR normalized_description ~ '[[:cntrl:]]'
+  THEN
+    RAISE EXCEPTION 'Board description must be 280 characters or fewer';
+  END IF;
+
+  IF normalized_visibility NOT IN ('public', 'connections', 'circle', 'private') THEN
+    RAISE EXCEPTION 'Board visibility must be public, connections, circle, or private';
+  END IF;
+
+  IF normalized_visibility = 'circle' THEN
+    IF target_circle_id IS NULL OR NOT EXISTS (
+      SELECT 1
+      FROM public.inner_circles circles
+      WHERE circles.id = target_circle_id
+        AND circles.owner_id = caller_id
+    ) THEN
+      RAISE EXCEPTION USING errcode = '42501', message = 'Inner Circle is unavailable';
+    END IF;
+    scoped_circle_id := target_circle_id;
+  END IF;
+
+  IF normalized_action = 'update' THEN
+    UPDATE public.shadow_pin_boards boards
+    SET title = normalized_title,
+        description = normalized_description,
+        visibility = normalized_visibility,
+        circle_id = scoped_circle_id,
+        updated_at = now()
+    WHERE boards.id = target_board_id
+      AND boards.owner_id = caller_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION USING errcode = '42501', message = 'Board is unavailable';
+    END IF;
+
+    RETURN QUERY SELECT target_board_id, true, false;
+    RETURN;
+  END IF;
+
+  PERFORM pg_catalog.pg_advisory_xact_lock(
+    pg_catalog.hashtextextended('shadow-pin-boards-owner:' || caller_id::text, 0)
+  );
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.shadow_pin_boards boards
+    WHERE boards.id = target_board_id
+      AND boards.owner_id = caller_id
+  ) THEN
+    RETURN QUERY SELECT target_board_id, false, false;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.shadow_pin_boards boards WHERE boards.id = target_board_id
+  ) THEN
+    RAISE EXCEPTION USING errcode = '42501', message = 'Board is unavailable';
+  END IF;
+
+  SELECT count(*)::integer
+  INTO owned_board_count
+  FROM public.shadow_pin_boards boards
+  WHERE boards.owner_id = caller_id;
+
+  IF owned_board_count >= 50 THEN
+    RAISE EXCEPTION USING
+      errcode = '54000',
+      message = 'You can create at most 50 boards';
+  END IF;
+
+  INSERT INTO public.shadow_pin_boards (id, owner_id, title, description, visibility, circle_id)
+  VALUES (
+    target_board_id,
+    caller_id,
+    normalized_title,
+    normalized_description,
+    normalized_visibility,
+    scoped_circle_id
+  );
+
+  RETURN QUERY SELECT target_board_id, true, false;
+END;
+$$;
+
+CREATE FUNCTION shadow_pin_private.set_board_pin_impl(
+  target_board_id uuid,
+  target_image_id uuid,
+  target_saved boolean
+)
+RETURNS TABLE (
+  board_id uuid,
+  image_id uuid,
+  saved boolean,
+  pin_count integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  should_save boolean := coalesce(target_saved, false);
+  saved_pin_count integer;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF target_board_id IS NULL OR target_image_id IS NULL THEN
+    RAISE EXCEPTION 'Board and Pin are required';
+  END IF;
+
+  PERFORM 1
+  FROM public.shadow_pin_boards boards
+  WHERE boards.id = target_board_id
+    AND boards.owner_id = caller_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING errcode = '42501', message = 'Board is unavailable';
+  END IF;
+
+  IF should_save THEN
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.shadow_pin_images images
+      WHERE images.id = target_image_id
+        AND images.deleted_at IS NULL
+    ) THEN
+      RAISE EXCEPTION USING errcode = '42501', message = 'Pin is unavailable';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.shadow_pin_board_pins pins
+      WHERE pins.board_id = target_board_id
+        AND pins.image_id = target_image_id
+    ) THEN
+      SELECT count(*)::integer
+      INTO saved_pin_count
+      FROM public.shadow_pin_board_pins pins
+      WHERE pins.board_id = target_board_id;
+
+      IF saved_pin_count >= 500 THEN
+        RAISE EXCEPTION USING
+          errcode = '54000',
+          message = 'A board can hold at most 500 Pins';
+      END IF;
+
+      INSERT INTO public.shadow_pin_board_pins (board_id, image_id)
+      VALUES (target_board_id, target_image_id)
+      ON CONFLICT ON CONSTRAINT shadow_pin_board_pins_pkey DO NOTHING;
+
+      UPDATE public.shadow_pin_boards boards
+      SET updated_at = now()
+      WHERE boards.id = target_board_id;
+    END IF;
+  ELSE
+    DELETE FROM public.shadow_pin_board_pins pins
+    WHERE pins.board_id = target_board_id
+      AND pins.image_id = target_image_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    target_board_id,
+    target_image_id,
+    should_save,
+    (
+      SELECT count(*)::integer
+      FROM public.shadow_pin_board_pins pins
+      JOIN public.shadow_pin_images images
+        ON images.id = pins.image_id
+      WHERE pins.board_id = target_board_id
+        AND images.deleted_at IS NULL
+    );
+END;
+$$;
+
+CREATE FUNCTION shadow_pin_private.list_board_pins_impl(
+  target_board_id uuid,
+  result_limit integer DEFAULT 30,
+  before_added_at timestamptz DEFAULT NULL,
+  before_image_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  image_id uuid,
+  added_at timestamptz,
+  viewer_has_hearted boolean,
+  has_more boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  bounded_limit integer := greatest(1, least(coalesce(result_limit, 30), 60));
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF target_board_id IS NULL OR NOT EXISTS (
+    SELECT 1
+    FROM public.shadow_pin_boards boards
+    WHERE boards.id = target_board_id
+      AND shadow_pin_private.can_view_board(
+        caller_id,
+        boards.owner_id,
+        boards.visibility,
+        boards.circle_id
+      )
+  ) THEN
+    RAISE EXCEPTION USING errcode = '42501', message = 'Board is unavailable';
+  END IF;
+
+  IF (before_added_at IS NULL) <> (before_image_id IS NULL) THEN
+    RAISE EXCEPTION 'Board cursor must include both added_at and image id';
+  END IF;
+
+  RETURN QUERY
+  WITH page_candidates AS MATERIALIZED (
+    SELECT pins.image_id, pins.added_at
+    FROM public.shadow_pin_board_pins pins
+    JOIN public.shadow_pin_images images
+      ON images.id = pins.image_id
+    WHERE pins.board_id = target_board_id
+      AND images.deleted_at IS NULL
+      AND (
+        before_added_at IS NULL
+        OR (pins.added_at, pins.image_id) < (before_added_at, before_image_id)
+      )
+    ORDER BY pins.added_at DESC, pins.image_id DESC
+    LIMIT bounded_limit + 1
+  ), numbered AS (
+    SELECT
+      candidates.*,
+      row_number() OVER (ORDER BY candidates.added_at DESC, candidates.image_id DESC) AS row_number,
+      count(*) OVER () AS candidate_count
+    FROM page_candidates candidates
+  )
+  SELECT
+    numbered.image_id,
+    numbered.added_at,
+    hearts.user_id IS NOT NULL,
+    numbered.candidate_count > bounded_limit
+  FROM numbered
+  LEFT JOIN public.shadow_pin_image_hearts hearts
+    ON hearts.image_id = numbered.image_id
+   AND hearts.user_id = caller_id
+  WHERE numbered.row_number <= bounded_limit
+  ORDER BY numbered.added_at DESC, numbered.image_id DESC;
+END;
+$$;
+
+CREATE FUNCTION shadow_pin_private.set_board_follow_impl(
+  target_board_id uuid,
+  target_following boolean
+)
+RETURNS TABLE (
+  board_id uuid,
+  following boolean,
+  follower_count integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  should_follow boolean := coalesce(target_following, false);
+  board_row public.shadow_pin_boards%ROWTYPE;
+  followed_board_count integer;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF target_board_id IS NULL THEN
+    RAISE EXCEPTION 'Board id is required';
+  END IF;
+
+  IF should_follow THEN
+    SELECT boards.*
+    INTO board_row
+    FROM public.shadow_pin_boards boards
+    WHERE boards.id = target_board_id;
+
+    IF NOT FOUND OR NOT shadow_pin_private.can_view_board(
+      caller_id,
+      board_row.owner_id,
+      board_row.visibility,
+      board_row.circle_id
+    ) THEN
+      RAISE EXCEPTION USING errcode = '42501', message = 'Board is unavailable';
+    END IF;
+
+    IF board_row.owner_id = caller_id THEN
+      RAISE EXCEPTION 'You cannot follow your own board';
+    END IF;
+
+    PERFORM pg_catalog.pg_advisory_xact_lock(
+      pg_catalog.hashtextextended('shadow-pin-board-follows:' || caller_id::text, 0)
+    );
+
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.shadow_pin_board_follows follows
+      WHERE follows.board_id = target_board_id
+        AND follows.follower_id = caller_id
+    ) THEN
+      SELECT count(*)::integer
+      INTO followed_board_count
+      FROM public.shadow_pin_board_follows follows
+      WHERE follows.follower_id = caller_id;
+
+      IF followed_board_count >= 200 THEN
+        RAISE EXCEPTION USING
+          errcode = '54000',
+          message = 'You can follow at most 200 boards';
+      END IF;
+
+      INSERT INTO public.shadow_pin_board_follows (board_id, follower_id)
+      VALUES (target_board_id, caller_id)
+      ON CONFLICT ON CONSTRAINT shadow_pin_board_follows_pkey DO NOTHING;
+    END IF;
+  ELSE
+    DELETE FROM public.shadow_pin_board_follows follows
+    WHERE follows.board_id = target_board_id
+      AND follows.follower_id = caller_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    target_board_id,
+    should_follow,
+    (
+      SELECT count(*)::integer
+      FROM public.shadow_pin_board_follows follows
+      WHERE follows.board_id = target_board_id
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION shadow_pin_private.list_boards_impl(uuid, uuid, boolean)
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION shadow_pin_private.mutate_board_impl(uuid, text, text, text, text, uuid)
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION shadow_pin_private.set_board_pin_impl(uuid, uuid, boolean)
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION shadow_pin_private.list_board_pins_impl(uuid, integer, timestamptz, uuid)
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION shadow_pin_private.set_board_follow_impl(uuid, boolean)
+  FROM PUBLIC, anon, authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION shadow_pin_private.list_boards_impl(uuid, uuid, boolean)
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION shadow_pin_private.mutate_board_impl(uuid, text, text, text, text, uuid)
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION shadow_pin_private.set_board_pin_impl(uuid, uuid, boolean)
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION shadow_pin_private.list_board_pins_impl(uuid, integer, timestamptz, uuid)
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION shadow_pin_private.set_board_follow_impl(uuid, boolean)
+  TO authenticated, service_role;
+
+CREATE FUNCTION public.list_shadow_pin_boards(
+  target_owner_id uuid,
+  target_image_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  owner_id uuid,
+  title text,
+  description text,
+  visibility text,
+  circle_id uuid,
+  pin_count integer,
+  follower_count integer,
+  cover_image_ids uuid[],
+  viewer_is_following boolean,
+  contains_image boolean,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT *
+  FROM shadow_pin_private.list_boards_impl(target_owner_id, target_image_id, false);
+$$;
+
+CREATE FUNCTION public.list_my_followed_shadow_pin_boards()
+RETURNS TABLE (
+  id uuid,
+  owner_id uuid,
+  title text,
+  description text,
+  visibility text,
+  circle_id uuid,
+  pin_count integer,
+  follower_count integer,
+  cover_image_ids uuid[],
+  viewer_is_following boolean,
+  contains_image boolean,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT *
+  FROM shadow_pin_private.list_boards_impl(NULL, NULL, true);
+$$;
+
+CREATE FUNCTION public.mutate_shadow_pin_board(
+  target_board_id uuid,
+  target_action text,
+  target_title text DEFAULT NULL,
+  target_description text DEFAULT NULL,
+  target_visibility text DEFAULT NULL,
+  target_circle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  changed boolean,
+  deleted boolean
+)
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT *
+  FROM shadow_pin_private.mutate_board_impl(
+    target_board_id,
+    target_action,
+    target_title,
+    target_description,
+    target_visibility,
+    target_circle_id
+  );
+$$;
+
+CREATE FUNCTION public.set_shadow_pin_board_pin(
+  target_board_id uuid,
+  target_image_id uuid,
+  target_saved boolean
+)
+RETURNS TABLE (
+  board_id uuid,
+  image_id uuid,
+  saved boolean,
+  pin_count integer
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Runs as the caller so ShadowPin RLS decides which Pins can be saved.
+  IF coalesce(target_saved, false) AND NOT EXISTS (
+    SELECT 1
+    FROM public.shadow_pin_images images
+    WHERE images.id = target_image_id
+      AND images.deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION USING errcode = '42501', message = 'Pin is unavailable';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM shadow_pin_private.set_board_pin_impl(
+    target_board_id,
+    target_image_id,
+    target_saved
+  );
+END;
+$$;
+
+CREATE FUNCTION public.list_shadow_pin_board_pins(
+  target_board_id uuid,
+  result_limit integer DEFAULT 30,
+  before_added_at timestamptz DEFAULT NULL,
+  before_image_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  image_id uuid,
+  added_at timestamptz,
+  viewer_has_hearted boolean,
+  has_more boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT *
+  FROM shadow_pin_private.list_board_pins_impl(
+    target_board_id,
+    result_limit,
+    before_added_at,
+    before_image_id
+  );
+$$;
+
+CREATE FUNCTION public.set_shadow_pin_board_follow(
+  target_board_id uuid,
+  target_following boolean
+)
+RETURNS TABLE (
+  board_id uuid,
+  following boolean,
+  follower_count integer
+)
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT *
+  FROM shadow_pin_private.set_board_follow_impl(target_board_id, target_following);
+$$;
+
+REVOKE ALL ON FUNCTION public.list_shadow_pin_boards(uuid, uuid)
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION public.list_my_followed_shadow_pin_boards()
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION public.mutate_shadow_pin_board(uuid, text, text, text, text, uuid)
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION public.set_shadow_pin_board_pin(uuid, uuid, boolean)
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION public.list_shadow_pin_board_pins(uuid, integer, timestamptz, uuid)
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION public.set_shadow_pin_board_follow(uuid, boolean)
+  FROM PUBLIC, anon, authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION public.list_shadow_pin_boards(uuid, uuid)
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.list_my_followed_shadow_pin_boards()
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.mutate_shadow_pin_board(uuid, text, text, text, text, uuid)
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.set_shadow_pin_board_pin(uuid, uuid, boolean)
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.list_shadow_pin_board_pins(uuid, integer, timestamptz, uuid)
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.set_shadow_pin_board_follow(uuid, boolean)
+  TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.list_shadow_pin_boards(uuid, uuid) IS
+  'Returns the boards one member owns that the caller may see, optionally flagging which already hold a Pin.';
+COMMENT ON FUNCTION public.list_my_followed_shadow_pin_boards() IS
+  'Returns boards the caller follows and can still see.';
+COMMENT ON FUNCTION public.set_shadow_pin_board_pin(uuid, uuid, boolean) IS
+  'Saves a Pin the caller can read to, or removes it from, one caller-owned board.';
+COMMENT ON FUNCTION public.list_shadow_pin_board_pins(uuid, integer, timestamptz, uuid) IS
+  'Returns a bounded keyset page of Pin ids from one board the caller may see.';
+
+COMMIT;
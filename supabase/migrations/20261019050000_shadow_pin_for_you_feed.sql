@@ -0,0 +1,581 @@
+/*
+  # ShadowPin For You feed
+
+  Adds a third, ranked feed mode next to Discover and Connections. Recent
+  Pins are scored for the caller from their own ShadowPin activity (category
+  dwell, Pin views, opens, and shares recorded by the activity tracker),
+  hearts, comments, tag affinity, and accepted Connections. Repeat Pins from
+  one creator are progressively demoted and capped so a prolific creator
+  cannot fill the feed, and each row carries the strongest signal so the
+  browser can explain why it was shown.
+
+  "Show less like this" stores a private feedback row that removes the Pin
+  and demotes its creator, category, and tags for later rankings. Feedback is
+  reachable only through guarded caller-scoped RPCs, and every ranked row is
+  still hydrated through existing ShadowPin RLS.
+*/
+
+BEGIN;
+
+ALTER TABLE public.shadow_pin_feed_preferences
+  DROP CONSTRAINT shadow_pin_feed_preferences_feed_mode_check;
+ALTER TABLE public.shadow_pin_feed_preferences
+  ADD CONSTRAINT shadow_pin_feed_preferences_feed_mode_check
+  CHECK (feed_mode IN ('discover', 'connections', 'for_you'));
+
+CREATE TABLE public.shadow_pin_feed_feedback (
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  image_id uuid NOT NULL REFERENCES public.shadow_pin_images(id) ON DELETE CASCADE,
+  creator_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  category_id uuid REFERENCES public.shadow_pin_categories(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT shadow_pin_feed_feedback_pkey PRIMARY KEY (user_id, image_id)
+);
+
+CREATE INDEX shadow_pin_feed_feedback_user_created_idx
+  ON public.shadow_pin_feed_feedback (user_id, created_at DESC);
+
+CREATE INDEX shadow_pin_images_for_you_recent_idx
+  ON public.shadow_pin_images (created_at DESC, id DESC)
+  INCLUDE (creator_id, category_id, media_type, processing_status)
+  WHERE deleted_at IS NULL
+    AND category_id IS NOT NULL
+    AND creator_id IS NOT NULL;
+
+ALTER TABLE public.shadow_pin_feed_feedback ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.shadow_pin_feed_feedback
+  FROM PUBLIC, anon, authenticated, service_role;
+GRANT SELECT ON TABLE public.shadow_pin_feed_feedback TO service_role;
+
+COMMENT ON TABLE public.shadow_pin_feed_feedback IS
+  'Private "show less like this" signals for the ShadowPin For You feed. Browser roles use guarded caller-scoped RPCs only.';
+
+CREATE OR REPLACE FUNCTION shadow_pin_private.set_my_feed_mode_impl(target_mode text)
+RETURNS TABLE (
+  feed_mode text,
+  revision integer,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  normalized_mode text := lower(trim(coalesce(target_mode, '')));
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF normalized_mode NOT IN ('discover', 'connections', 'for_you') THEN
+    RAISE EXCEPTION 'ShadowPin feed mode must be discover, connections, or for_you';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.shadow_pin_feed_preferences AS preferences (
+    user_id,
+    feed_mode,
+    revision,
+    created_at,
+    updated_at
+  ) VALUES (
+    caller_id,
+    normalized_mode,
+    1,
+    now(),
+    now()
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET feed_mode = excluded.feed_mode,
+      revision = preferences.revision + 1,
+      updated_at = now()
+  RETURNING preferences.feed_mode, preferences.revision, preferences.updated_at;
+END;
+$$;
+
+CREATE FUNCTION shadow_pin_private.list_my_for_you_feed_impl(
+  result_limit integer DEFAULT 30,
+  page_offset integer DEFAULT 0,
+  ranked_at timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  image_id uuid,
+  score double precision,
+  reason_kind text,
+  reason_action text,
+  reason_label text,
+  has_more boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  bounded_limit integer := greatest(1, least(coalesce(result_limit, 30), 60));
+  bounded_offset integer := greatest(0, least(coalesce(page_offset, 0), 480));
+  -- Later pages pass the first page's ranking time so scores stay comparable.
+  ranking_time timestamptz := least(coalesce(ranked_at, now()), now());
+  caller_is_operator boolean;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  caller_is_operator := public.is_app_operator(caller_id);
+
+  RETURN QUERY
+  WITH blocked_user_ids AS MATERIALIZED (
+    SELECT blocks.blocked_id AS user_id
+    FROM public.user_blocks blocks
+    WHERE blocks.blocker_id = caller_id
+
+    UNION
+
+    SELECT blocks.blocker_id
+    FROM public.user_blocks blocks
+    WHERE blocks.blocked_id = caller_id
+  ), connected_creators AS MATERIALIZED (
+    SELECT connections.member_high_id AS creator_id
+    FROM public.user_connections connections
+    WHERE connections.member_low_id = caller_id
+      AND connections.status = 'accepted'
+
+    UNION
+
+    SELECT connections.member_low_id
+    FROM public.user_connections connections
+    WHERE connections.member_high_id = caller_id
+      AND connections.status = 'accepted'
+  ), activity_signals AS MATERIALIZED (
+    SELECT
+      events.category_id AS signal_category_id,
+      events.image_id AS signal_image_id,
+      events.event_type AS signal_event_type,
+      events.score_value AS signal_score,
+      coalesce(events.duration_seconds, 0) AS signal_duration_seconds
+    FROM public.shadow_pin_activity_events events
+    WHERE events.user_id = caller_id
+      AND events.created_at > ranking_time - interval '60 days'
+      AND events.created_at <= ranking_time
+      AND events.event_type IN ('category_visit', 'pin_viewed', 'pin_opened', 'share_tapped')
+    ORDER BY events.created_at DESC
+    LIMIT 2000
+  ), category_affinity AS MATERIALIZED (
+    SELECT
+      signals.signal_category_id AS affinity_category_id,
+      sum(signals.signal_score + least(signals.signal_duration_seconds, 600) / 60.0)::double precision AS weight
+    FROM activity_signals signals
+    WHERE signals.signal_category_id IS NOT NULL
+    GROUP BY signals.signal_category_id
+  ), engaged_images AS MATERIALIZED (
+    (
+      SELECT hearts.image_id AS engaged_image_id, 'heart'::text AS action, 3.0::double precision AS weight
+      FROM public.shadow_pin_image_hearts hearts
+      WHERE hearts.user_id = caller_id
+        AND hearts.created_at > ranking_time - interval '180 days'
+      ORDER BY hearts.created_at DESC
+      LIMIT 500
+    )
+
+    UNION ALL
+
+    (
+      SELECT comments.image_id, 'comment'::text, 4.0::double precision
+      FROM public.shadow_pin_comments comments
+      WHERE comments.author_id = caller_id
+        AND comments.created_at > ranking_time - interval '180 days'
+      ORDER BY comments.created_at DESC
+      LIMIT 500
+    )
+
+    UNION ALL
+
+    SELECT
+      signals.signal_image_id,
+      'view'::text,
+      CASE signals.signal_event_type
+        WHEN 'share_tapped' THEN 2.0
+        WHEN 'pin_opened' THEN 1.0
+        ELSE 0.25
+      END::double precision
+    FROM activity_signals signals
+    WHERE signals.signal_image_id IS NOT NULL
+      AND signals.signal_event_type <> 'category_visit'
+  ), tag_affinity AS MATERIALIZED (
+    SELECT
+      image_tags.tag_id AS affinity_tag_id,
+      sum(engaged.weight) AS weight,
+      (array_agg(engaged.action ORDER BY engaged.weight DESC))[1] AS strongest_action
+    FROM engaged_images engaged
+    JOIN public.shadow_pin_image_tags image_tags
+      ON image_tags.image_id = engaged.engaged_image_id
+    GROUP BY image_tags.tag_id
+  ), creator_affinity AS MATERIALIZED (
+    SELECT
+      images.creator_id AS affinity_creator_id,
+      sum(engaged.weight) AS weight,
+      (array_agg(engaged.action ORDER BY engaged.weight DESC))[1] AS strongest_action
+    FROM engaged_images engaged
+    JOIN public.shadow_pin_images images
+      ON images.id = engaged.engaged_image_id
+    WHERE images.creator_id IS NOT NULL
+      AND images.creator_id <> caller_id
+    GROUP BY images.creator_id
+  ), feedback AS MATERIALIZED (
+    SELECT
+      feedback_rows.image_id AS hidden_image_id,
+      feedback_rows.creator_id AS hidden_creator_id,
+      feedback_rows.category_id AS hidden_category_id
+    FROM public.shadow_pin_feed_feedback feedback_rows
+    WHERE feedback_rows.user_id = caller_id
+  ), hidden_creators AS MATERIALIZED (
+    SELECT feedback.hidden_creator_id, count(*)::double precision AS hidden_count
+    FROM feedback
+    WHERE feedback.hidden_creator_id IS NOT NULL
+    GROUP BY feedback.hidden_creator_id
+  ), hidden_categories AS MATERIALIZED (
+    SELECT feedback.hidden_category_id, count(*)::double precision AS hidden_count
+    FROM feedback
+    WHERE feedback.hidden_category_id IS NOT NULL
+    GROUP BY feedback.hidden_category_id
+  ), hidden_tags AS MATERIALIZED (
+    SELECT image_tags.tag_id AS hidden_tag_id, count(*)::double precision AS hidden_count
+    FROM feedback
+    JOIN public.shadow_pin_image_tags image_tags
+      ON image_tags.image_id = feedback.hidden_image_id
+    GROUP BY image_tags.tag_id
+  ), candidates AS MATERIALIZED (
+    SELECT
+      images.id AS candidate_id,
+      images.creator_id AS candidate_creator_id,
+      images.category_id AS candidate_category_id,
+      images.created_at AS candidate_created_at,
+      images.heart_count AS candidate_heart_count,
+      images.comment_count AS candidate_comment_count,
+      categories.title AS candidate_category_title
+    FROM public.shadow_pin_images images
+    JOIN public.shadow_pin_categories categories
+      ON categories.id = images.category_id
+    WHERE images.deleted_at IS NULL
+      AND images.category_id IS NOT NULL
+      AND images.creator_id IS NOT NULL
+      AND images.creator_id <> caller_id
+      AND images.created_at > ranking_time - interval '30 days'
+      AND images.created_at <= ranking_time
+      AND (
+        images.media_type = 'image'
+        OR images.processing_status = 'ready'
+        OR caller_is_operator
+      )
+      AND categories.deleted_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1
+        FROM blocked_user_ids blocked
+        WHERE blocked.user_id = images.creator_id
+      )
+      AND (
+        categories.creator_id IS NULL
+        OR categories.creator_id = caller_id
+        OR NOT EXISTS (
+          SELECT 1
+          FROM blocked_user_ids blocked_category_owner
+          WHERE blocked_category_owner.user_id = categories.creator_id
+        )
+      )
+      AND NOT EXISTS (
+        SELECT 1
+        FROM feedback
+        WHERE feedback.hidden_image_id = images.id
+      )
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.shadow_pin_image_hearts own_hearts
+        WHERE own_hearts.image_id = images.id
+          AND own_hearts.user_id = caller_id
+      )
+    ORDER BY images.created_at DESC, images.id DESC
+    LIMIT 500
+  ), candidate_tag_signals AS MATERIALIZED (
+    SELECT
+      image_tags.image_id AS tagged_image_id,
+      sum(coalesce(affinity.weight, 0)) AS tag_weight,
+      sum(coalesce(hidden.hidden_count, 0)) AS hidden_tag_count,
+      (array_agg(tags.slug ORDER BY affinity.weight DESC) FILTER (WHERE affinity.weight IS NOT NULL))[1] AS top_tag_slug,
+      (array_agg(affinity.strongest_action ORDER BY affinity.weight DESC) FILTER (WHERE affinity.weight IS NOT NULL))[1] AS top_tag_action
+    FROM candidates
+    JOIN public.shadow_pin_image_tags image_tags
+      ON image_tags.image_id = candidates.candidate_id
+    JOIN public.shadow_pin_tags tags
+      ON tags.id = image_tags.tag_id
+    LEFT JOIN tag_affinity affinity
+      ON affinity.affinity_tag_id = image_tags.tag_id
+    LEFT JOIN hidden_tags hidden
+      ON hidden.hidden_tag_id = image_tags.tag_id
+    GROUP BY image_tags.image_id
+  ), scored AS (
+    SELECT
+      candidates.candidate_id,
+      candidates.candidate_creator_id,
+      candidates.candidate_category_title,
+      1.6 * ln(1 + coalesce(tag_signals.tag_weight, 0)) AS tag_score,
+      1.1 * ln(1 + coalesce(categories.weight, 0)) AS category_score,
+      1.2 * ln(1 + coalesce(creators.weight, 0)) AS creator_score,
+      CASE WHEN connected.creator_id IS NULL THEN 0 ELSE 1.5 END::double precision AS connection_score,
+      0.6 * ln(1 + candidates.candidate_heart_count + 2 * candidates.candidate_comment_count)::double precision AS popularity_score,
+      2.0 * exp(-extract(epoch FROM ranking_time - candidates.candidate_created_at)::double precision / 259200.0) AS freshness_score,
+      1.5 * coalesce(hidden_creators.hidden_count, 0)
+        + 1.0 * coalesce(tag_signals.hidden_tag_count, 0)
+        + 0.5 * coalesce(hidden_categories.hidden_count, 0) AS feedback_penalty,
+      tag_signals.top_tag_slug,
+      tag_signals.top_tag_action,
+      creators.strongest_action AS creator_action
+    FROM candidates
+    LEFT JOIN candidate_tag_signals tag_signals
+      ON tag_signals.tagged_image_id = candidates.candidate_id
+    LEFT JOIN category_affinity categories
+      ON categories.affinity_category_id = candidates.candidate_category_id
+    LEFT JOIN creator_affinity creators
+      ON creators.affinity_creator_id = candidates.candidate_creator_id
+    LEFT JOIN connected_creators connected
+      ON connected.creator_id = candidates.candidate_creator_id
+    LEFT JOIN hidden_creators
+      ON hidden_creators.hidden_creator_id = candidates.candidate_creator_id
+    LEFT JOIN hidden_categories
+      ON hidden_categories.hidden_category_id = candidates.candidate_category_id
+  ), diversified AS (
+    SELECT
+      scored.*,
+      scored.tag_score
+        + scored.category_score
+        + scored.creator_score
+        + scored.connection_score
+        + scored.popularity_score
+        + scored.freshness_score
+        - scored.feedback_penalty AS base_score,
+      row_number() OVER (
+        PARTITION BY scored.candidate_creator_id
+        ORDER BY
+          scored.tag_score
+            + scored.category_score
+            + scored.creator_score
+            + scored.connection_score
+            + scored.popularity_score
+            + scored.freshness_score
+            - scored.feedback_penalty DESC,
+          scored.candidate_id
+      ) AS creator_rank
+    FROM scored
+  ), ranked AS MATERIALIZED (
+    SELECT
+      diversified.candidate_id,
+      -- Each further Pin from one creator loses a fixed step, and no creator
+      -- contributes more than six Pins to a ranking.
+      diversified.base_score - 1.25 * (diversified.creator_rank - 1) AS final_score,
+      CASE
+        WHEN diversified.top_tag_slug IS NOT NULL
+          AND diversified.tag_score >= greatest(diversified.creator_score, diversified.connection_score, diversified.category_score)
+          THEN 'tag'
+        WHEN diversified.connection_score > 0
+          AND diversified.connection_score >= greatest(diversified.creator_score, diversified.category_score)
+          THEN 'connection'
+        WHEN diversified.creator_score > 0
+          AND diversified.creator_score >= diversified.category_score
+          THEN 'creator'
+        WHEN diversified.category_score > 0 THEN 'category'
+        WHEN diversified.popularity_score >= diversified.freshness_score THEN 'popular'
+        ELSE 'new'
+      END AS ranked_reason_kind,
+      diversified.top_tag_slug,
+      diversified.top_tag_action,
+      diversified.creator_action,
+      diversified.candidate_category_title
+    FROM diversified
+    WHERE diversified.creator_rank <= 6
+  ), numbered AS (
+    SELECT
+      ranked.*,
+      row_number() OVER (ORDER BY ranked.final_score DESC, ranked.candidate_id) AS ranked_position,
+      count(*) OVER () AS ranked_count
+    FROM ranked
+  )
+  SELECT
+    numbered.candidate_id,
+    round(numbered.final_score::numeric, 4)::double precision,
+    numbered.ranked_reason_kind,
+    CASE numbered.ranked_reason_kind
+      WHEN 'tag' THEN numbered.top_tag_action
+      WHEN 'creator' THEN numbered.creator_action
+    END,
+    CASE numbered.ranked_reason_kind
+      WHEN 'tag' THEN numbered.top_tag_slug
+      WHEN 'category' THEN numbered.candidate_category_title
+    END,
+    numbered.ranked_count > bounded_offset + bounded_limit
+  FROM numbered
+  WHERE numbered.ranked_position > bounded_offset
+    AND numbered.ranked_position <= bounded_offset + bounded_limit
+  ORDER BY numbered.ranked_position;
+END;
+$$;
+
+CREATE FUNCTION shadow_pin_private.set_for_you_feedback_impl(
+  target_image_id uuid,
+  target_hidden boolean
+)
+RETURNS TABLE (
+  image_id uuid,
+  hidden boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  target_creator_id uuid;
+  target_category_id uuid;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF target_image_id IS NULL THEN
+    RAISE EXCEPTION 'ShadowPin target is required';
+  END IF;
+
+  IF NOT coalesce(target_hidden, false) THEN
+    DELETE FROM public.shadow_pin_feed_feedback feedback_rows
+    WHERE feedback_rows.user_id = caller_id
+      AND feedback_rows.image_id = target_image_id;
+
+    RETURN QUERY SELECT target_image_id, false;
+    RETURN;
+  END IF;
+
+  SELECT images.creator_id, images.category_id
+  INTO target_creator_id, target_category_id
+  FROM public.shadow_pin_images images
+  WHERE images.id = target_image_id
+    AND images.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING errcode = '42501', message = 'Pin is unavailable';
+  END IF;
+
+  IF target_creator_id = caller_id THEN
+    RAISE EXCEPTION 'Your own Pins are not ranked in For You';
+  END IF;
+
+  INSERT INTO public.shadow_pin_feed_feedback AS feedback_rows (
+    user_id,
+    image_id,
+    creator_id,
+    category_id,
+    created_at
+  ) VALUES (
+    caller_id,
+    target_image_id,
+    target_creator_id,
+    target_category_id,
+    now()
+  )
+  ON CONFLICT ON CONSTRAINT shadow_pin_feed_feedback_pkey DO UPDATE
+  SET created_at = now();
+
+  -- Only the newest signals shape the ranking; older rows are pruned so one
+  -- account's feedback stays bounded.
+  DELETE FROM public.shadow_pin_feed_feedback feedback_rows
+  WHERE feedback_rows.user_id = caller_id
+    AND feedback_rows.image_id IN (
+      SELECT stale.image_id
+      FROM public.shadow_pin_feed_feedback stale
+      WHERE stale.user_id = caller_id
+      ORDER BY stale.created_at DESC, stale.image_id DESC
+      OFFSET 500
+    );
+
+  RETURN QUERY SELECT target_image_id, true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION shadow_pin_private.list_my_for_you_feed_impl(integer, integer, timestamptz)
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION shadow_pin_private.set_for_you_feedback_impl(uuid, boolean)
+  FROM PUBLIC, anon, authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION shadow_pin_private.list_my_for_you_feed_impl(integer, integer, timestamptz)
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION shadow_pin_private.set_for_you_feedback_impl(uuid, boolean)
+  TO authenticated, service_role;
+
+CREATE FUNCTION public.list_my_shadow_pin_for_you_feed(
+  result_limit integer DEFAULT 30,
+  page_offset integer DEFAULT 0,
+  ranked_at timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  image_id uuid,
+  score double precision,
+  reason_kind text,
+  reason_action text,
+  reason_label text,
+  has_more boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT *
+  FROM shadow_pin_private.list_my_for_you_feed_impl(result_limit, page_offset, ranked_at);
+$$;
+
+CREATE FUNCTION public.set_shadow_pin_for_you_feedback(
+  target_image_id uuid,
+  target_hidden boolean DEFAULT true
+)
+RETURNS TABLE (
+  image_id uuid,
+  hidden boolean
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Runs as the caller so ShadowPin RLS decides which Pins can be hidden.
+  IF coalesce(target_hidden, false) AND NOT EXISTS (
+    SELECT 1
+    FROM public.shadow_pin_images images
+    WHERE images.id = target_image_id
+      AND images.deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION USING errcode = '42501', message = 'Pin is unavailable';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM shadow_pin_private.set_for_you_feedback_impl(target_image_id, target_hidden);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_my_shadow_pin_for_you_feed(integer, integer, timestamptz)
+  FROM PUBLIC, anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION public.set_shadow_pin_for_you_feedback(uuid, boolean)
+  FROM PUBLIC, anon, authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION public.list_my_shadow_pin_for_you_feed(integer, integer, timestamptz)
+  TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.set_shadow_pin_for_you_feedback(uuid, boolean)
+  TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.list_my_shadow_pin_for_you_feed(integer, integer, timestamptz) IS
+  'Returns a bounded page of recent Pin ids ranked for the caller, with the strongest ranking signal for each.';
+COMMENT ON FUNCTION public.set_shadow_pin_for_you_feedback(uuid, boolean) IS
+  'Records or clears a private "show less like this" signal for one Pin the caller can read.';
+
+COMMIT;
@@ -0,0 +1,288 @@
+/*
+  # ShadowPin scheduled publishing
+
+  Creators can schedule a ready Creator Studio draft for a future time
+  instead of publishing it immediately. The schedule lives on the draft row,
+  so the drafts list and the Studio calendar read it with everything else.
+
+  The publish janitor picks up due drafts with the service role and publishes
+  them through the same finalize path as a manual publish, keyed by the
+  draft's existing publish_idempotency_key. A retried or overlapping run
+  either sees the draft already published or gets the original receipt back
+  from finalize, so a scheduled Pin is never published twice.
+
+  A schedule only covers the media that was ready when it was set. Staging
+  new media, publishing, or deleting the draft clears it.
+*/
+
+BEGIN;
+
+ALTER TABLE public.shadow_pin_creator_drafts
+  ADD COLUMN scheduled_publish_at timestamptz,
+  ADD COLUMN scheduled_publish_attempts integer NOT NULL DEFAULT 0,
+  ADD CONSTRAINT shadow_pin_creator_drafts_scheduled_publish_attempts_check
+    CHECK (scheduled_publish_attempts >= 0);
+
+CREATE INDEX shadow_pin_creator_drafts_scheduled_publish_idx
+  ON public.shadow_pin_creator_drafts (scheduled_publish_at, id)
+  WHERE scheduled_publish_at IS NOT NULL;
+
+COMMENT ON COLUMN public.shadow_pin_creator_drafts.scheduled_publish_at IS
+  'When the publish janitor should publish this draft. Null means the creator publishes it by hand.';
+COMMENT ON COLUMN public.shadow_pin_creator_drafts.scheduled_publish_attempts IS
+  'Failed scheduled publish attempts since the schedule was last set. The janitor stops retrying at its cap.';
+
+CREATE OR REPLACE FUNCTION private.touch_shadow_pin_creator_draft()
+RETURNS trigger LANGUAGE plpgsql SECURITY INVOKER SET search_path = '' AS $$
+BEGIN
+  NEW.revision := OLD.revision + 1;
+  NEW.updated_at := now();
+  IF NEW.state IN ('published', 'abandoned') THEN
+    NEW.promotion_lease_token := NULL;
+    NEW.promotion_lease_expires_at := NULL;
+    NEW.promotion_asset_id := NULL;
+  END IF;
+  IF NEW.state NOT IN ('ready', 'preparing_publish', 'publish_ready') THEN
+    NEW.scheduled_publish_at := NULL;
+    NEW.scheduled_publish_attempts := 0;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION private.touch_shadow_pin_creator_draft()
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.list_my_shadow_pin_creator_drafts(target_limit integer DEFAULT 25)
+RETURNS TABLE (draft jsonb, asset jsonb)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    to_jsonb(draft_row) AS draft,
+    CASE WHEN asset_row.id IS NULL THEN NULL ELSE to_jsonb(asset_row) END AS asset
+  FROM public.shadow_pin_creator_drafts draft_row
+  LEFT JOIN public.shadow_pin_draft_assets asset_row ON asset_row.id = draft_row.active_asset_id
+  WHERE draft_row.creator_id = auth.uid()
+  ORDER BY
+    (draft_row.scheduled_publish_at IS NULL),
+    draft_row.scheduled_publish_at,
+    draft_row.updated_at DESC,
+    draft_row.id DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(target_limit, 25), 50));
+$$;
+
+CREATE FUNCTION shadow_pin_private.schedule_creator_draft_impl(
+  target_draft_id uuid,
+  target_expected_revision integer,
+  target_publish_at timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  current_draft public.shadow_pin_creator_drafts%ROWTYPE;
+  updated_draft public.shadow_pin_creator_drafts%ROWTYPE;
+  retain_until timestamptz;
+BEGIN
+  IF caller_id IS NULL THEN RAISE EXCEPTION 'Authentication required'; END IF;
+
+  SELECT * INTO current_draft FROM public.shadow_pin_creator_drafts draft
+  WHERE draft.id = target_draft_id AND draft.creator_id = caller_id FOR UPDATE;
+  IF current_draft.id IS NULL THEN RAISE EXCEPTION 'Draft is unavailable'; END IF;
+  IF current_draft.revision <> target_expected_revision THEN RAISE EXCEPTION 'Draft changed on another device'; END IF;
+  IF current_draft.state IN ('published', 'abandoned') THEN
+    RAISE EXCEPTION 'Draft cannot be scheduled in its current state';
+  END IF;
+
+  IF target_publish_at IS NULL THEN
+    UPDATE public.shadow_pin_creator_drafts draft SET
+      scheduled_publish_at = NULL,
+      scheduled_publish_attempts = 0,
+      last_error_code = NULL,
+      last_error_message = NULL
+    WHERE draft.id = current_draft.id
+    RETURNING * INTO updated_draft;
+    RETURN to_jsonb(updated_draft);
+  END IF;
+
+  IF current_draft.expires_at <= now() THEN RAISE EXCEPTION 'Draft has expired'; END IF;
+  IF current_draft.state NOT IN ('ready', 'publish_ready') OR current_draft.active_asset_id IS NULL THEN
+    RAISE EXCEPTION 'Draft media must be ready before it can be scheduled';
+  END IF;
+  IF current_draft.promotion_lease_expires_at > now() THEN
+    RAISE EXCEPTION 'Draft publish is already in progress';
+  END IF;
+  IF current_draft.target_image_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Only new Pins can be scheduled';
+  END IF;
+  IF current_draft.category_id IS NULL THEN RAISE EXCEPTION 'Choose a category before scheduling'; END IF;
+  IF char_length(trim(current_draft.title)) NOT BETWEEN 1 AND 80 THEN
+    RAISE EXCEPTION 'Add a title before scheduling';
+  END IF;
+  IF target_publish_at < now() + interval '5 minutes' THEN
+    RAISE EXCEPTION 'Schedule the Pin at least 5 minutes from now';
+  END IF;
+  IF target_publish_at > now() + interval '30 days' THEN
+    RAISE EXCEPTION 'Pins can be scheduled at most 30 days ahead';
+  END IF;
+
+  -- Bunny uploads publish through the video edge function, which the
+  -- janitor cannot reach, so only storage images and linked videos qualify.
+  IF EXISTS (
+    SELECT 1 FROM public.shadow_pin_draft_assets asset
+    WHERE asset.draft_id = current_draft.id
+      AND asset.provider = 'bunny_stream'
+      AND asset.deleted_at IS NULL
+      AND (
+        asset.id = current_draft.active_asset_id
+        OR EXISTS (
+          SELECT 1 FROM public.shadow_pin_creator_draft_slides slide
+          WHERE slide.draft_id = current_draft.id AND slide.asset_id = asset.id
+        )
+      )
+  ) THEN
+    RAISE EXCEPTION 'Uploaded videos cannot be scheduled yet. Publish them from Creator Studio.';
+  END IF;
+
+  IF current_draft.scheduled_publish_at IS NULL AND (
+    SELECT count(*) FROM public.shadow_pin_creator_drafts draft
+    WHERE draft.creator_id = caller_id AND draft.scheduled_publish_at IS NOT NULL
+  ) >= 20 THEN
+    RAISE EXCEPTION 'You can schedule at most 20 Pins at a time';
+  END IF;
+
+  -- Keep the draft and its media alive until a week after the slot so a
+  -- janitor outage near the publish time cannot let them expire.
+  retain_until := target_publish_at + interval '7 days';
+  UPDATE public.shadow_pin_draft_assets asset SET
+    expires_at = GREATEST(asset.expires_at, retain_until)
+  WHERE asset.draft_id = current_draft.id AND asset.deleted_at IS NULL;
+
+  UPDATE public.shadow_pin_creator_drafts draft SET
+    scheduled_publish_at = target_publish_at,
+    scheduled_publish_attempts = 0,
+    expires_at = GREATEST(draft.expires_at, retain_until),
+    last_error_code = NULL,
+    last_error_message = NULL
+  WHERE draft.id = current_draft.id
+  RETURNING * INTO updated_draft;
+  RETURN to_jsonb(updated_draft);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION shadow_pin_private.schedule_creator_draft_impl(uuid, integer, timestamptz)
+  FROM PUBLIC, anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION shadow_pin_private.schedule_creator_draft_impl(uuid, integer, timestamptz)
+  TO authenticated, service_role;
+
+CREATE FUNCTION public.schedule_shadow_pin_creator_draft(
+  target_draft_id uuid,
+  target_expected_revision integer,
+  target_publish_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT shadow_pin_private.schedule_creator_draft_impl(
+    target_draft_id,
+    target_expected_revision,
+    target_publish_at
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.schedule_shadow_pin_creator_draft(uuid, integer, timestamptz)
+  FROM PUBLIC, anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.schedule_shadow_pin_creator_draft(uuid, integer, timestamptz)
+  TO authenticated, service_role;
+
+CREATE FUNCTION shadow_pin_private.publish_scheduled_creator_draft_impl(
+  target_draft_id uuid,
+  target_expected_revision integer,
+  target_publish_idempotency_key uuid
+)
+RETURNS TABLE (draft jsonb, image jsonb, was_already_published boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  draft_row public.shadow_pin_creator_drafts%ROWTYPE;
+  previous_sub text := current_setting('request.jwt.claim.sub', true);
+  previous_claims text := current_setting('request.jwt.claims', true);
+BEGIN
+  IF target_publish_idempotency_key IS NULL THEN RAISE EXCEPTION 'Publish idempotency key is required'; END IF;
+
+  SELECT * INTO draft_row FROM public.shadow_pin_creator_drafts draft_record
+  WHERE draft_record.id = target_draft_id
+  FOR UPDATE;
+  IF draft_row.id IS NULL THEN RAISE EXCEPTION 'Draft is unavailable'; END IF;
+  IF draft_row.publish_idempotency_key IS DISTINCT FROM target_publish_idempotency_key THEN
+    RAISE EXCEPTION 'Publish idempotency key does not match this draft';
+  END IF;
+  IF draft_row.state <> 'published' AND (
+    draft_row.scheduled_publish_at IS NULL OR draft_row.scheduled_publish_at > now()
+  ) THEN
+    RAISE EXCEPTION 'Draft is not due for scheduled publishing';
+  END IF;
+
+  -- Finalize is written for the creator's own session. Act as the creator
+  -- for this transaction only so ownership, block, and category checks run
+  -- exactly as they do for a manual publish.
+  PERFORM set_config('request.jwt.claim.sub', draft_row.creator_id::text, true);
+  PERFORM set_config(
+    'request.jwt.claims',
+    jsonb_build_object('sub', draft_row.creator_id, 'role', 'authenticated')::text,
+    true
+  );
+
+  RETURN QUERY SELECT * FROM public.finalize_shadow_pin_creator_draft(
+    target_draft_id, target_expected_revision, target_publish_idempotency_key
+  );
+
+  PERFORM set_config('request.jwt.claim.sub', coalesce(previous_sub, ''), true);
+  PERFORM set_config('request.jwt.claims', coalesce(previous_claims, ''), true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION shadow_pin_private.publish_scheduled_creator_draft_impl(uuid, integer, uuid)
+  FROM PUBLIC, anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION shadow_pin_private.publish_scheduled_creator_draft_impl(uuid, integer, uuid)
+  TO service_role;
+
+CREATE FUNCTION public.publish_scheduled_shadow_pin_creator_draft(
+  target_draft_id uuid,
+  target_expected_revision integer,
+  target_publish_idempotency_key uuid
+)
+RETURNS TABLE (draft jsonb, image jsonb, was_already_published boolean)
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT result.draft, result.image, result.was_already_published
+  FROM shadow_pin_private.publish_scheduled_creator_draft_impl(
+    target_draft_id,
+    target_expected_revision,
+    target_publish_idempotency_key
+  ) result;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_scheduled_shadow_pin_creator_draft(uuid, integer, uuid)
+  FROM PUBLIC, anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.publish_scheduled_shadow_pin_creator_draft(uuid, integer, uuid)
+  TO service_role;
+
+COMMENT ON FUNCTION public.schedule_shadow_pin_creator_draft(uuid, integer, timestamptz) IS
+  'Owner-only: sets or clears the publish time of a ready new-Pin draft.';
+COMMENT ON FUNCTION public.publish_scheduled_shadow_pin_creator_draft(uuid, integer, uuid) IS
+  'Service-only: publishes a due scheduled draft as its creator through the idempotent finalize path.';
+
+COMMIT;
@@ -0,0 +1,29 @@
+/*
+  # Keyword alert wildcard limit
+
+  A `*` inside a word compiled to an unbounded run in the middle of the
+  pattern, so a phrase such as `a*a*a*a*b` backtracked exponentially and could
+  stall send-push for every General Chat message. Alerts may now use `*` only
+  once, at the end of a word, matching the client validation.
+
+  Keyword alerts are new, so rows that break the rule are removed rather than
+  rewritten into phrases their owners never typed.
+*/
+
+begin;
+
+delete from public.notification_keyword_alerts
+where phrase ~ '\*[^[:space:]]';
+
+alter table public.notification_keyword_alerts
+  drop constraint notification_keyword_alerts_phrase_check;
+
+alter table public.notification_keyword_alerts
+  add constraint notification_keyword_alerts_phrase_check check (
+    char_length(phrase) between 2 and 80
+    and phrase = btrim(phrase)
+    and phrase !~ '[[:cntrl:]]'
+    and phrase !~ '\*[^[:space:]]'
+  );
+
+commit;
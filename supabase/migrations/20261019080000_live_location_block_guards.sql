@@ -0,0 +1,108 @@
+/*
+  # Stop live locations across blocks
+
+  A block between the sharer and another member of the conversation ends the
+  sharer's live location at its next update instead of moving the pin, and a
+  blocked viewer no longer reads a share that is still running. Stopped and
+  one-off locations stay visible like the rest of the conversation history.
+*/
+
+begin;
+
+drop policy if exists "Participants can read shared locations" on public.message_locations;
+
+create policy "Participants can read shared locations"
+  on public.message_locations
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.dm_conversations conversations
+      where conversations.id = message_locations.conversation_id
+        and (select auth.uid()) = any (conversations.participants)
+    )
+    and (
+      message_locations.live_until is null
+      or message_locations.stopped_at is not null
+      or message_locations.sender_id = (select auth.uid())
+      or not private.users_have_block((select auth.uid()), message_locations.sender_id)
+    )
+  );
+
+create or replace function message_locations_private.update_live_location_impl(
+  target_location_id uuid,
+  target_latitude double precision,
+  target_longitude double precision,
+  target_accuracy_meters real
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_location public.message_locations;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if public.is_user_channel_banned(caller_id, 'all_interaction') then
+    raise exception using message = public.get_channel_ban_block_message(caller_id, 'all_interaction');
+  end if;
+
+  perform message_locations_private.require_valid_position(
+    target_latitude, target_longitude, target_accuracy_meters
+  );
+
+  -- Freeze the pin where it was; the sender sees the share end on their side too.
+  if exists (
+    select 1
+    from public.message_locations locations
+    join public.dm_conversations conversations on conversations.id = locations.conversation_id
+    cross join lateral unnest(conversations.participants) as participants(participant_id)
+    where locations.id = target_location_id
+      and locations.sender_id = caller_id
+      and participants.participant_id <> caller_id
+      and private.users_have_block(caller_id, participants.participant_id)
+  ) then
+    update public.message_locations locations
+    set stopped_at = least(now(), locations.live_until),
+        location_revision = locations.location_revision + 1
+    where locations.id = target_location_id
+      and locations.sender_id = caller_id
+      and locations.live_until is not null
+      and locations.stopped_at is null
+    returning * into target_location;
+  else
+    update public.message_locations locations
+    set latitude = target_latitude,
+        longitude = target_longitude,
+        accuracy_meters = target_accuracy_meters,
+        location_revision = locations.location_revision + 1
+    where locations.id = target_location_id
+      and locations.sender_id = caller_id
+      and locations.live_until > now()
+      and locations.stopped_at is null
+    returning * into target_location;
+  end if;
+
+  if target_location.id is null then
+    raise exception 'Live location has ended';
+  end if;
+
+  return message_locations_private.location_json(target_location);
+end;
+$$;
+
+revoke all on function message_locations_private.update_live_location_impl(uuid, double precision, double precision, real)
+  from public, anon, authenticated, service_role;
+grant execute on function message_locations_private.update_live_location_impl(uuid, double precision, double precision, real)
+  to authenticated, service_role;
+
+comment on function public.update_live_location(uuid, double precision, double precision, real) is
+  'Moves the caller''s active live location in place. A block between the caller and another member stops the share instead.';
+
+commit;
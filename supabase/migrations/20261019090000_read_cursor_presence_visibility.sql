@@ -0,0 +1,36 @@
+/*
+  # Hide read cursors of invisible members
+
+  Shared General Chat read cursors now also require the cursor owner's
+  `presence_visibility` to be `tracked`. A member who appears offline no
+  longer gives away when they were reading, whatever their read receipt
+  setting says.
+*/
+
+begin;
+
+drop policy if exists "Members can view shared General Chat read cursors"
+  on public.user_read_cursors;
+create policy "Members can view shared General Chat read cursors"
+  on public.user_read_cursors
+  for select
+  to authenticated
+  using (
+    surface in ('general_chat', 'general_chat_thread')
+    and user_id <> (select auth.uid())
+    and exists (
+      select 1
+      from public.users
+      where users.id = user_read_cursors.user_id
+        and users.presence_visibility = 'tracked'
+    )
+    and not exists (
+      select 1
+      from public.read_receipt_preferences preferences
+      where preferences.user_id in (user_read_cursors.user_id, (select auth.uid()))
+        and not preferences.share_read_state
+    )
+    and not private.users_have_block((select auth.uid()), user_id)
+  );
+
+commit;
@@ -0,0 +1,313 @@
+/*
+  # Check Pin visibility inside ShadowPin board RPCs
+
+  Saving a Pin to a board relied on the public wrapper's RLS check, but the
+  private definer only looked at `deleted_at`. The definer now applies the
+  same visibility as the ShadowPin image read policies before saving, and
+  board pin counts, covers, and Pin pages only include Pins the caller can
+  read, so an unprocessed video or a blocked creator's Pin cannot surface
+  through a board.
+*/
+
+BEGIN;
+
+-- Mirrors the ShadowPin image read policies for definers acting on the
+-- caller's behalf. Only called from the definers below.
+CREATE FUNCTION shadow_pin_private.can_read_pin(
+  viewer_id uuid,
+  target_image_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT viewer_id IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM public.shadow_pin_images images
+    JOIN public.shadow_pin_categories categories
+      ON categories.id = images.category_id
+    WHERE images.id = target_image_id
+      AND images.deleted_at IS NULL
+      AND categories.deleted_at IS NULL
+      AND (
+        images.media_type = 'image'
+        OR images.processing_status = 'ready'
+        OR images.creator_id = viewer_id
+        OR public.is_app_operator(viewer_id)
+      )
+      AND (
+        images.creator_id IS NULL
+        OR images.creator_id = viewer_id
+        OR NOT private.users_have_block(viewer_id, images.creator_id)
+      )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION shadow_pin_private.can_read_pin(uuid, uuid)
+  FROM PUBLIC, anon, authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION shadow_pin_private.list_boards_impl(
+  target_owner_id uuid,
+  target_image_id uuid,
+  followed_only boolean
+)
+RETURNS TABLE (
+  id uuid,
+  owner_id uuid,
+  title text,
+  description text,
+  visibility text,
+  circle_id uuid,
+  pin_count integer,
+  follower_count integer,
+  cover_image_ids uuid[],
+  viewer_is_following boolean,
+  contains_image boolean,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  only_followed boolean := coalesce(followed_only, false);
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF NOT only_followed AND target_owner_id IS NULL THEN
+    RAISE EXCEPTION 'Board owner is required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    boards.id,
+    boards.owner_id,
+    boards.title,
+    boards.description,
+    boards.visibility,
+    CASE WHEN boards.owner_id = caller_id THEN boards.circle_id END,
+    (
+      SELECT count(*)::integer
+      FROM public.shadow_pin_board_pins pins
+      WHERE pins.board_id = boards.id
+        AND shadow_pin_private.can_read_pin(caller_id, pins.image_id)
+    ),
+    (
+      SELECT count(*)::integer
+      FROM public.shadow_pin_board_follows follows
+      WHERE follows.board_id = boards.id
+    ),
+    ARRAY(
+      SELECT pins.image_id
+      FROM public.shadow_pin_board_pins pins
+      WHERE pins.board_id = boards.id
+        AND shadow_pin_private.can_read_pin(caller_id, pins.image_id)
+      ORDER BY pins.added_at DESC, pins.image_id DESC
+      LIMIT 4
+    ),
+    EXISTS (
+      SELECT 1
+      FROM public.shadow_pin_board_follows follows
+      WHERE follows.board_id = boards.id
+        AND follows.follower_id = caller_id
+    ),
+    target_image_id IS NOT NULL AND EXISTS (
+      SELECT 1
+      FROM public.shadow_pin_board_pins pins
+      WHERE pins.board_id = boards.id
+        AND pins.image_id = target_image_id
+    ),
+    boards.created_at,
+    boards.updated_at
+  FROM public.shadow_pin_boards boards
+  WHERE (
+      (only_followed AND EXISTS (
+        SELECT 1
+        FROM public.shadow_pin_board_follows follows
+        WHERE follows.board_id = boards.id
+          AND follows.follower_id = caller_id
+      ))
+      OR (NOT only_followed AND boards.owner_id = target_owner_id)
+    )
+    AND shadow_pin_private.can_view_board(
+      caller_id,
+      boards.owner_id,
+      boards.visibility,
+      boards.circle_id
+    )
+  ORDER BY boards.updated_at DESC, boards.id DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shadow_pin_private.set_board_pin_impl(
+  target_board_id uuid,
+  target_image_id uuid,
+  target_saved boolean
+)
+RETURNS TABLE (
+  board_id uuid,
+  image_id uuid,
+  saved boolean,
+  pin_count integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  should_save boolean := coalesce(target_saved, false);
+  saved_pin_count integer;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF target_board_id IS NULL OR target_image_id IS NULL THEN
+    RAISE EXCEPTION 'Board and Pin are required';
+  END IF;
+
+  PERFORM 1
+  FROM public.shadow_pin_boards boards
+  WHERE boards.id = target_board_id
+    AND boards.owner_id = caller_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION USING errcode = '42501', message = 'Board is unavailable';
+  END IF;
+
+  IF should_save THEN
+    IF NOT shadow_pin_private.can_read_pin(caller_id, target_image_id) THEN
+      RAISE EXCEPTION USING errcode = '42501', message = 'Pin is unavailable';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.shadow_pin_board_pins pins
+      WHERE pins.board_id = target_board_id
+        AND pins.image_id = target_image_id
+    ) THEN
+      SELECT count(*)::integer
+      INTO saved_pin_count
+      FROM public.shadow_pin_board_pins pins
+      WHERE pins.board_id = target_board_id;
+
+      IF saved_pin_count >= 500 THEN
+        RAISE EXCEPTION USING
+          errcode = '54000',
+          message = 'A board can hold at most 500 Pins';
+      END IF;
+
+      INSERT INTO public.shadow_pin_board_pins (board_id, image_id)
+      VALUES (target_board_id, target_image_id)
+      ON CONFLICT ON CONSTRAINT shadow_pin_board_pins_pkey DO NOTHING;
+
+      UPDATE public.shadow_pin_boards boards
+      SET updated_at = now()
+      WHERE boards.id = target_board_id;
+    END IF;
+  ELSE
+    DELETE FROM public.shadow_pin_board_pins pins
+    WHERE pins.board_id = target_board_id
+      AND pins.image_id = target_image_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    target_board_id,
+    target_image_id,
+    should_save,
+    (
+      SELECT count(*)::integer
+      FROM public.shadow_pin_board_pins pins
+      WHERE pins.board_id = target_board_id
+        AND shadow_pin_private.can_read_pin(caller_id, pins.image_id)
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shadow_pin_private.list_board_pins_impl(
+  target_board_id uuid,
+  result_limit integer DEFAULT 30,
+  before_added_at timestamptz DEFAULT NULL,
+  before_image_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  image_id uuid,
+  added_at timestamptz,
+  viewer_has_hearted boolean,
+  has_more boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  bounded_limit integer := greatest(1, least(coalesce(result_limit, 30), 60));
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF target_board_id IS NULL OR NOT EXISTS (
+    SELECT 1
+    FROM public.shadow_pin_boards boards
+    WHERE boards.id = target_board_id
+      AND shadow_pin_private.can_view_board(
+        caller_id,
+        boards.owner_id,
+        boards.visibility,
+        boards.circle_id
+      )
+  ) THEN
+    RAISE EXCEPTION USING errcode = '42501', message = 'Board is unavailable';
+  END IF;
+
+  IF (before_added_at IS NULL) <> (before_image_id IS NULL) THEN
+    RAISE EXCEPTION 'Board cursor must include both added_at and image id';
+  END IF;
+
+  RETURN QUERY
+  WITH page_candidates AS MATERIALIZED (
+    SELECT pins.image_id, pins.added_at
+    FROM public.shadow_pin_board_pins pins
+    WHERE pins.board_id = target_board_id
+      AND shadow_pin_private.can_read_pin(caller_id, pins.image_id)
+      AND (
+        before_added_at IS NULL
+        OR (pins.added_at, pins.image_id) < (before_added_at, before_image_id)
+      )
+    ORDER BY pins.added_at DESC, pins.image_id DESC
+    LIMIT bounded_limit + 1
+  ), numbered AS (
+    SELECT
+      candidates.*,
+      row_number() OVER (ORDER BY candidates.added_at DESC, candidates.image_id DESC) AS row_number,
+      count(*) OVER () AS candidate_count
+    FROM page_candidates candidates
+  )
+  SELECT
+    numbered.image_id,
+    numbered.added_at,
+    hearts.user_id IS NOT NULL,
+    numbered.candidate_count > bounded_limit
+  FROM numbered
+  LEFT JOIN public.shadow_pin_image_hearts hearts
+    ON hearts.image_id = numbered.image_id
+   AND hearts.user_id = caller_id
+  WHERE numbered.row_number <= bounded_limit
+  ORDER BY numbered.added_at DESC, numbered.image_id DESC;
+END;
+$$;
+
+COMMIT;
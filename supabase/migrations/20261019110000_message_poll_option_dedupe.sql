@@ -0,0 +1,132 @@
+/*
+  # Case-insensitive poll option dedupe
+
+  Poll creation grouped options by both their lowercased and their trimmed
+  label, so "Pizza" and "pizza" survived as two options even though the
+  composer treats them as one. Options now group on the lowercased label
+  alone and keep the spelling of the first one, matching the client.
+*/
+
+begin;
+
+create or replace function message_polls_private.create_message_poll_impl(
+  target_surface text,
+  target_conversation_id uuid,
+  target_question text,
+  target_options text[],
+  target_allows_multiple boolean,
+  target_is_anonymous boolean,
+  target_closes_at timestamptz,
+  target_client_message_id text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  normalized_question text := btrim(coalesce(target_question, ''));
+  normalized_options text[];
+  ban_scope text;
+  created_message_id uuid;
+  created_poll public.message_polls;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if target_surface not in ('general', 'dm') then
+    raise exception 'Unsupported poll surface';
+  end if;
+
+  ban_scope := case when target_surface = 'general' then 'general_chat' else 'all_interaction' end;
+  if public.is_user_channel_banned(caller_id, ban_scope) then
+    raise exception using message = public.get_channel_ban_block_message(caller_id, ban_scope);
+  end if;
+
+  if char_length(normalized_question) not between 1 and 200 then
+    raise exception 'Poll questions must be between 1 and 200 characters';
+  end if;
+
+  select coalesce(array_agg(option_label order by first_position), '{}')
+  into normalized_options
+  from (
+    select
+      (array_agg(btrim(raw_label) order by ordinality))[1] as option_label,
+      min(ordinality) as first_position
+    from unnest(coalesce(target_options, '{}'::text[])) with ordinality as raw(raw_label, ordinality)
+    where btrim(coalesce(raw_label, '')) <> ''
+    group by lower(btrim(raw_label))
+  ) distinct_options;
+
+  if cardinality(normalized_options) not between 2 and 10 then
+    raise exception 'Polls need between 2 and 10 distinct options';
+  end if;
+
+  if exists (
+    select 1 from unnest(normalized_options) option_label
+    where char_length(option_label) > 80
+  ) then
+    raise exception 'Poll options must be 80 characters or shorter';
+  end if;
+
+  if target_closes_at is not null and (
+    target_closes_at <= now() + interval '1 minute'
+    or target_closes_at > now() + interval '30 days'
+  ) then
+    raise exception 'Poll close time must be between one minute and 30 days from now';
+  end if;
+
+  if target_surface = 'general' then
+    insert into public.messages (user_id, client_message_id, content, message_type)
+    values (caller_id, nullif(btrim(coalesce(target_client_message_id, '')), ''), normalized_question, 'poll')
+    returning id into created_message_id;
+
+    insert into public.message_polls (
+      surface, message_id, created_by, question, allows_multiple, is_anonymous, closes_at
+    )
+    values (
+      'general', created_message_id, caller_id, normalized_question,
+      coalesce(target_allows_multiple, false), coalesce(target_is_anonymous, false), target_closes_at
+    )
+    returning * into created_poll;
+  else
+    if target_conversation_id is null or not exists (
+      select 1
+      from public.dm_conversations conversations
+      where conversations.id = target_conversation_id
+        and caller_id = any (conversations.participants)
+    ) then
+      raise exception using
+        errcode = '42501',
+        message = 'Conversation is unavailable';
+    end if;
+
+    insert into public.dm_messages (conversation_id, sender_id, client_message_id, content, message_type)
+    values (
+      target_conversation_id, caller_id,
+      nullif(btrim(coalesce(target_client_message_id, '')), ''),
+      normalized_question, 'poll'
+    )
+    returning id into created_message_id;
+
+    insert into public.message_polls (
+      surface, dm_message_id, conversation_id, created_by, question, allows_multiple, is_anonymous, closes_at
+    )
+    values (
+      'dm', created_message_id, target_conversation_id, caller_id, normalized_question,
+      coalesce(target_allows_multiple, false), coalesce(target_is_anonymous, false), target_closes_at
+    )
+    returning * into created_poll;
+  end if;
+
+  insert into public.message_poll_options (poll_id, position, label)
+  select created_poll.id, (ordinality - 1)::smallint, option_label
+  from unnest(normalized_options) with ordinality as ordered(option_label, ordinality);
+
+  return message_polls_private.poll_json(caller_id, created_poll);
+end;
+$$;
+
+commit;
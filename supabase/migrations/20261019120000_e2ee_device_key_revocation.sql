@@ -0,0 +1,85 @@
+/*
+  # Revoke encrypted DM device keys through a function
+
+  Revoking a key by updating `revoked_at` directly could never pass the read
+  policy, which only showed active keys, so members could not remove a
+  device. Revocation now goes through `revoke_dm_device_key`, and revoked
+  public keys stay readable so messages sent from a removed device can still
+  be verified. Clients only encrypt to keys that have not been revoked.
+*/
+
+begin;
+
+drop policy if exists "Members revoke their own device keys" on public.dm_device_keys;
+revoke update (revoked_at) on table public.dm_device_keys from authenticated;
+
+drop policy if exists "Members read active device keys" on public.dm_device_keys;
+
+create policy "Members read device keys"
+  on public.dm_device_keys
+  for select
+  to authenticated
+  using (
+    user_id = (select auth.uid())
+    or not private.users_have_block((select auth.uid()), user_id)
+  );
+
+comment on table public.dm_device_keys is
+  'Public halves of per-device encryption keys. Revoked keys stay readable to verify earlier messages but are no longer encrypted to.';
+
+create function e2ee_dms_private.revoke_dm_device_key_impl(target_device_key_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  target_key public.dm_device_keys;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  update public.dm_device_keys device_keys
+  set revoked_at = coalesce(device_keys.revoked_at, now())
+  where device_keys.id = target_device_key_id
+    and device_keys.user_id = caller_id
+  returning device_keys.* into target_key;
+
+  if target_key.id is null then
+    raise exception using
+      errcode = '42501',
+      message = 'Device is unavailable';
+  end if;
+
+  return jsonb_build_object(
+    'id', target_key.id,
+    'revoked_at', target_key.revoked_at
+  );
+end;
+$$;
+
+revoke all on function e2ee_dms_private.revoke_dm_device_key_impl(uuid)
+  from public, anon, authenticated, service_role;
+grant execute on function e2ee_dms_private.revoke_dm_device_key_impl(uuid)
+  to authenticated, service_role;
+
+create function public.revoke_dm_device_key(target_device_key_id uuid)
+returns jsonb
+language sql
+security invoker
+set search_path = ''
+as $$
+  select e2ee_dms_private.revoke_dm_device_key_impl(target_device_key_id);
+$$;
+
+revoke all on function public.revoke_dm_device_key(uuid)
+  from public, anon, authenticated, service_role;
+grant execute on function public.revoke_dm_device_key(uuid)
+  to authenticated, service_role;
+
+comment on function public.revoke_dm_device_key(uuid) is
+  'Revokes one of the caller''s device keys. The public key stays readable for verifying earlier messages; clients stop encrypting to it.';
+
+commit;
@@ -0,0 +1,14 @@
+/*
+  # Let the disappearing-DM purge queue media
+
+  `purge_expired_dm_messages` runs as the service role and inserts the
+  expired messages' uploads into `dm_message_media_purges` in the same
+  statement that deletes them, but the service role could only read, update,
+  and delete that table, so every purge failed and nothing was removed.
+*/
+
+begin;
+
+grant insert on table public.dm_message_media_purges to service_role;
+
+commit;
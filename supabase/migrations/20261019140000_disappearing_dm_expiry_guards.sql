@@ -0,0 +1,422 @@
+/*
+  # Enforce disappearing-DM expiry outside the message read policy
+
+  Expired DMs were only hidden by the restrictive `dm_messages` read policy,
+  so paths that run as the service role or read other tables still saw them
+  until the janitor deleted the rows:
+
+  - Due reminders for an expired DM still fired with the stored preview.
+    Delivery now deletes them instead, and the purge deletes reminders about
+    the messages it removes.
+  - Shared location coordinates stayed readable. `message_locations` now
+    copies the message's `expires_at` and hides expired rows the same way.
+  - Edit history and poll tallies are read through security definer
+    functions, and poll headers through their own policy. Each DM check now
+    also requires the parent message to be unexpired.
+*/
+
+begin;
+
+alter table public.message_locations
+  add column expires_at timestamptz;
+
+update public.message_locations locations
+set expires_at = messages.expires_at
+from public.dm_messages messages
+where messages.id = locations.dm_message_id
+  and messages.expires_at is not null;
+
+-- Runs as the writer: locations are only inserted by the definer RPC right
+-- after it writes the message, so the expiry stamp is already there.
+create function message_locations_private.copy_location_message_expiry()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  select messages.expires_at
+  into new.expires_at
+  from public.dm_messages messages
+  where messages.id = new.dm_message_id;
+
+  return new;
+end;
+$$;
+
+revoke all on function message_locations_private.copy_location_message_expiry()
+  from public, anon, authenticated, service_role;
+
+create trigger copy_location_message_expiry
+  before insert on public.message_locations
+  for each row execute function message_locations_private.copy_location_message_expiry();
+
+drop policy if exists "Expired shared locations are hidden" on public.message_locations;
+create policy "Expired shared locations are hidden"
+  on public.message_locations
+  as restrictive
+  for select
+  to authenticated
+  using (expires_at is null or expires_at > now());
+
+create or replace function public.deliver_due_message_reminders(batch_size integer default 50)
+returns integer
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  reminder record;
+  reminder_event_id uuid;
+  reminder_dedupe_key text;
+  delivered integer := 0;
+begin
+  for reminder in
+    select reminders.*
+    from public.message_reminders reminders
+    where reminders.status = 'scheduled'
+      and reminders.remind_at <= now()
+    order by reminders.remind_at, reminders.id
+    limit least(greatest(coalesce(batch_size, 50), 1), 200)
+    for update skip locked
+  loop
+    -- The preview is a copy of the message, so it goes when the message does,
+    -- just as the purge deletes it a few minutes later.
+    if reminder.source = 'dm' and exists (
+      select 1
+      from public.dm_messages messages
+      where messages.id = reminder.message_id
+        and messages.expires_at <= now()
+    ) then
+      delete from public.message_reminders
+      where id = reminder.id;
+      continue;
+    end if;
+
+    -- Parenthesized so PL/pgSQL does not end the IF condition at the CASE's first THEN.
+    if not (case reminder.source
+      when 'general' then exists (
+        select 1 from public.messages messages where messages.id = reminder.message_id
+      )
+      when 'dm' then exists (
+        select 1
+        from public.dm_messages messages
+        join public.dm_conversations conversations
+          on conversations.id = messages.conversation_id
+        where messages.id = reminder.message_id
+          and reminder.user_id = any (conversations.participants)
+      )
+      else exists (
+        select 1 from public.shadow_pin_comments comments where comments.id = reminder.message_id
+      )
+    end) then
+      update public.message_reminders
+      set status = 'canceled'
+      where id = reminder.id;
+      continue;
+    end if;
+
+    -- Rescheduling re-arms the row, so the key carries the reminder time.
+    reminder_dedupe_key := 'message_reminder:' || reminder.id::text || ':'
+      || floor(extract(epoch from reminder.remind_at))::bigint::text;
+
+    insert into public.notification_events (
+      user_id,
+      type,
+      entity_id,
+      category,
+      route,
+      payload,
+      dedupe_key,
+      presentation_expires_at
+    ) values (
+      reminder.user_id,
+      'message_reminder',
+      reminder.id,
+      'system',
+      reminder.route,
+      jsonb_build_object(
+        'title', case reminder.source
+          when 'dm' then 'Reminder: direct message'
+          when 'shadow_pin_comment' then 'Reminder: ShadowPin comment'
+          when 'general' then case
+            when reminder.thread_id is not null then 'Reminder: thread reply'
+            else 'Reminder: General Chat message'
+          end
+        end,
+        'body', reminder.preview,
+        'route', reminder.route,
+        'reminder_id', reminder.id,
+        'source', reminder.source,
+        'message_id', case when reminder.source <> 'shadow_pin_comment' then reminder.message_id end,
+        'thread_id', reminder.thread_id,
+        'conversation_id', reminder.conversation_id,
+        'image_id', reminder.image_id,
+        'comment_id', case when reminder.source = 'shadow_pin_comment' then reminder.message_id end
+      ),
+      reminder_dedupe_key,
+      now() + interval '15 minutes'
+    )
+    on conflict (dedupe_key) do nothing
+    returning id into reminder_event_id;
+
+    if reminder_event_id is null then
+      select events.id into reminder_event_id
+      from public.notification_events events
+      where events.dedupe_key = reminder_dedupe_key;
+    end if;
+
+    insert into public.notification_delivery_jobs (
+      notification_event_id,
+      user_id,
+      expires_at
+    ) values (
+      reminder_event_id,
+      reminder.user_id,
+      now() + interval '15 minutes'
+    )
+    on conflict (notification_event_id) do nothing;
+
+    update public.message_reminders
+    set
+      status = 'sent',
+      sent_at = now(),
+      notification_event_id = reminder_event_id
+    where id = reminder.id;
+
+    delivered := delivered + 1;
+  end loop;
+
+  -- Sent and cancelled rows only back the "just reminded" state.
+  delete from public.message_reminders reminders
+  where reminders.status in ('sent', 'canceled')
+    and reminders.updated_at < now() - interval '30 days';
+
+  return delivered;
+end;
+$$;
+
+revoke all on function public.deliver_due_message_reminders(integer)
+  from public, anon, authenticated;
+grant execute on function public.deliver_due_message_reminders(integer)
+  to service_role;
+
+comment on function public.deliver_due_message_reminders(integer) is
+  'Writes one notification for each due message reminder and queues its web delivery; returns the number sent. Reminders for deleted or left messages are cancelled, and reminders for expired DMs are deleted.';
+
+create or replace function public.purge_expired_dm_messages(batch_size integer default 200)
+returns integer
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  purged_count integer := 0;
+begin
+  with expired as (
+    select messages.id, messages.sender_id, messages.file_url, messages.audio_url
+    from public.dm_messages messages
+    where messages.expires_at is not null
+      and messages.expires_at <= now()
+    order by messages.expires_at, messages.id
+    limit greatest(1, least(coalesce(batch_size, 200), 1000))
+    for update skip locked
+  ),
+  media as (
+    -- Only the sender's own upload folder; links to anything else are left alone.
+    select distinct matched[1] as bucket, matched[2] as object_path
+    from expired
+    cross join lateral unnest(array[expired.file_url, expired.audio_url]) media_url
+    cross join lateral regexp_match(
+      split_part(media_url, '?', 1),
+      '/storage/v1/(?:object|render/image)/public/(chat-uploads|message-media)/(.+)$'
+    ) matched
+    where media_url is not null
+      and split_part(matched[2], '/', 1) = expired.sender_id::text
+      and matched[2] not like '%..%'
+  ),
+  queued as (
+    insert into public.dm_message_media_purges (bucket, object_path)
+    select media.bucket, media.object_path
+    from media
+    on conflict (bucket, object_path) do nothing
+  ),
+  -- Reminders point at the message without a foreign key and carry a preview of it.
+  cleared_reminders as (
+    delete from public.message_reminders reminders
+    using expired
+    where reminders.source = 'dm'
+      and reminders.message_id = expired.id
+  ),
+  deleted as (
+    delete from public.dm_messages messages
+    using expired
+    where messages.id = expired.id
+    returning 1
+  )
+  -- Data-modifying CTEs always run, so the media is queued and the reminders
+  -- removed in the same statement that removes the rows pointing at them.
+  select count(*)::integer
+  into purged_count
+  from deleted;
+
+  return purged_count;
+end;
+$$;
+
+revoke all on function public.purge_expired_dm_messages(integer)
+  from public, anon, authenticated;
+grant execute on function public.purge_expired_dm_messages(integer) to service_role;
+
+comment on function public.purge_expired_dm_messages(integer) is
+  'Deletes a batch of expired disappearing DMs, removes reminders about them, and queues their uploaded media for Storage removal. Service role only.';
+
+create or replace function message_history_private.message_history_json(
+  target_surface text,
+  target_message_id uuid
+)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'surface', target_surface,
+    'message_id', target_message_id,
+    'current_content', current_message.content,
+    'created_at', current_message.created_at,
+    'edited_at', current_message.edited_at,
+    'revisions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'revision_number', revisions.revision_number,
+          'content', revisions.content,
+          'replaced_at', revisions.replaced_at
+        )
+        order by revisions.revision_number
+      )
+      from public.message_revisions revisions
+      where (target_surface = 'general' and revisions.message_id = target_message_id)
+        or (target_surface = 'dm' and revisions.dm_message_id = target_message_id)
+    ), '[]'::jsonb)
+  )
+  from (
+    select messages.content, messages.created_at, messages.edited_at
+    from public.messages messages
+    where target_surface = 'general'
+      and messages.id = target_message_id
+    union all
+    select messages.content, messages.created_at, messages.edited_at
+    from public.dm_messages messages
+    where target_surface = 'dm'
+      and messages.id = target_message_id
+      and (messages.expires_at is null or messages.expires_at > now())
+  ) current_message;
+$$;
+
+revoke all on function message_history_private.message_history_json(text, uuid)
+  from public, anon, authenticated, service_role;
+
+create or replace function message_history_private.get_message_edit_history_impl(
+  target_surface text,
+  target_message_id uuid
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  caller_id uuid := auth.uid();
+  visible boolean := false;
+begin
+  if caller_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if target_surface = 'general' then
+    select not private.users_have_block(caller_id, messages.user_id)
+    into visible
+    from public.messages messages
+    where messages.id = target_message_id;
+  elsif target_surface = 'dm' then
+    select caller_id = any (conversations.participants)
+      and not private.users_have_block(caller_id, messages.sender_id)
+      and (messages.expires_at is null or messages.expires_at > now())
+    into visible
+    from public.dm_messages messages
+    join public.dm_conversations conversations on conversations.id = messages.conversation_id
+    where messages.id = target_message_id;
+  else
+    raise exception 'Unsupported message surface';
+  end if;
+
+  if not coalesce(visible, false) then
+    raise exception using
+      errcode = '42501',
+      message = 'Message history is unavailable';
+  end if;
+
+  return message_history_private.message_history_json(target_surface, target_message_id);
+end;
+$$;
+
+revoke all on function message_history_private.get_message_edit_history_impl(text, uuid)
+  from public, anon, authenticated, service_role;
+grant execute on function message_history_private.get_message_edit_history_impl(text, uuid)
+  to authenticated, service_role;
+
+create or replace function message_polls_private.caller_can_view_poll(
+  caller_id uuid,
+  target_poll public.message_polls
+)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select case
+    when target_poll.surface = 'general' then
+      not private.users_have_block(caller_id, target_poll.created_by)
+    else exists (
+      select 1
+      from public.dm_conversations conversations
+      join public.dm_messages messages on messages.id = target_poll.dm_message_id
+      where conversations.id = target_poll.conversation_id
+        and caller_id = any (conversations.participants)
+        and (messages.expires_at is null or messages.expires_at > now())
+    )
+  end;
+$$;
+
+revoke all on function message_polls_private.caller_can_view_poll(uuid, public.message_polls)
+  from public, anon, authenticated, service_role;
+
+drop policy if exists "Members can read poll headers on visible messages" on public.message_polls;
+create policy "Members can read poll headers on visible messages"
+  on public.message_polls
+  for select
+  to authenticated
+  using (
+    (
+      surface = 'general'
+      and not private.users_have_block((select auth.uid()), created_by)
+    )
+    or
+    (
+      surface = 'dm'
+      and exists (
+        select 1
+        from public.dm_conversations conversations
+        join public.dm_messages messages on messages.id = message_polls.dm_message_id
+        where conversations.id = message_polls.conversation_id
+          and (select auth.uid()) = any (conversations.participants)
+          and (messages.expires_at is null or messages.expires_at > now())
+      )
+    )
+  );
+
+commit;
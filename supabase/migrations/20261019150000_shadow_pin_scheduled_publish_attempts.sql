@@ -0,0 +1,42 @@
+/*
+  # Record scheduled publish failures without bumping the draft revision
+
+  The publish janitor records each failed attempt on the draft row, and the
+  touch trigger treated that like an edit: it bumped `revision`, so a creator
+  with the draft open in Creator Studio hit "Draft changed on another device"
+  after every retry. An update that only changes the attempt count and the
+  last error now keeps the revision and `updated_at` as they were.
+*/
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION private.touch_shadow_pin_creator_draft()
+RETURNS trigger LANGUAGE plpgsql SECURITY INVOKER SET search_path = '' AS $$
+BEGIN
+  IF to_jsonb(NEW) - ARRAY['scheduled_publish_attempts', 'last_error_code', 'last_error_message']
+    = to_jsonb(OLD) - ARRAY['scheduled_publish_attempts', 'last_error_code', 'last_error_message'] THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.revision := OLD.revision + 1;
+  NEW.updated_at := now();
+  IF NEW.state IN ('published', 'abandoned') THEN
+    NEW.promotion_lease_token := NULL;
+    NEW.promotion_lease_expires_at := NULL;
+    NEW.promotion_asset_id := NULL;
+  END IF;
+  IF NEW.state NOT IN ('ready', 'preparing_publish', 'publish_ready') THEN
+    NEW.scheduled_publish_at := NULL;
+    NEW.scheduled_publish_attempts := 0;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION private.touch_shadow_pin_creator_draft()
+  FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.shadow_pin_creator_drafts.scheduled_publish_attempts IS
+  'Failed scheduled publish attempts since the schedule was last set. The janitor stops retrying at its cap. Recording an attempt does not change the draft revision.';
+
+COMMIT;
@@ -99,3 +99,36 @@ test('refreshes the shared presence store and renders the quiet state', async ()
   await waitFor(() => expect(refresh).toHaveBeenCalledTimes(1))
   expect(screen.getByText('Active users are current.')).toBeInTheDocument()
 })
+
+test('shows custom statuses and activity under active members', () => {
+  usePresence.mockReturnValue({
+    refresh,
+    activeUsers: [
+      {
+        user_id: 'friend',
+        username: 'friend',
+        display_name: 'Friend',
+        avatar_url: null,
+        color: '#d7aa46',
+        is_active: true,
+        presence_state: 'online',
+        custom_status: {
+          user_id: 'friend',
+          emoji: '🏟️',
+          status_text: 'At the game until 9',
+          expires_at: null,
+          share_activity: true,
+          activity_kind: 'watching',
+          activity_label: 'The Chicken Snatchers',
+          activity_source: 'shado_tv',
+          activity_expires_at: new Date(Date.now() + 60_000).toISOString(),
+          updated_at: '',
+        },
+      },
+    ],
+  })
+  render(<ActiveUsersView currentView="active-users" onViewChange={jest.fn()} />)
+
+  expect(screen.getByText('At the game until 9')).toBeInTheDocument()
+  expect(screen.getByText('Watching The Chicken Snatchers')).toBeInTheDocument()
+})
@@ -17,6 +17,8 @@ import {
   flushPendingNotificationReads,
   queuePendingNotificationRead,
 } from '../src/features/catch-up/catchUpApi'
+import { fetchGeneralChatCatchUpDigest } from '../src/features/catch-up/catchUpDigestApi'
+import { writeCatchUpDigestCache } from '../src/features/catch-up/catchUpDigestModel'
 import { clearAllNotificationsFromSystemTray } from '../src/features/notifications/notificationApi'
 import { getUserProfile } from '../src/lib/auth'
 import { captureNotificationSandSnapshot } from '../src/features/catch-up/notificationSand'
@@ -35,6 +37,10 @@ jest.mock('../src/features/catch-up/catchUpApi', () => ({
   queuePendingNotificationRead: jest.fn(),
 }))
 
+jest.mock('../src/features/catch-up/catchUpDigestApi', () => ({
+  fetchGeneralChatCatchUpDigest: jest.fn(),
+}))
+
 jest.mock('../src/features/notifications/notificationApi', () => ({
   clearAllNotificationsFromSystemTray: jest.fn(),
   clearNotificationEventFromSystemTray: jest.fn(),
@@ -100,6 +106,7 @@ const findUnreadNotificationIds = findUnreadNotificationEventIds as jest.MockedF
 const flushPendingReads = flushPendingNotificationReads as jest.MockedFunction<typeof flushPendingNotificationReads>
 const queuePendingRead = queuePendingNotificationRead as jest.MockedFunction<typeof queuePendingNotificationRead>
 const clearSystemTray = clearAllNotificationsFromSystemTray as jest.MockedFunction<typeof clearAllNotificationsFromSystemTray>
+const fetchDigest = fetchGeneralChatCatchUpDigest as jest.MockedFunction<typeof fetchGeneralChatCatchUpDigest>
 const fetchProfile = getUserProfile as jest.MockedFunction<typeof getUserProfile>
 const captureSandSnapshot = captureNotificationSandSnapshot as jest.MockedFunction<typeof captureNotificationSandSnapshot>
 
@@ -240,6 +247,7 @@ const dispatchTouch = (
 beforeEach(() => {
   jest.clearAllMocks()
   clearCatchUpCache()
+  writeCatchUpDigestCache(null, null)
   acknowledge.mockResolvedValue(1)
   acknowledgeAllNotifications.mockResolvedValue(0)
   acknowledgeNotification.mockResolvedValue(true)
@@ -322,6 +330,30 @@ test('renders shared-envelope category and media while keeping the existing sour
   }))
 })
 
+test('renders a notification digest as one summary card that clears with its source', async () => {
+  const emptySnapshot = snapshot()
+  emptySnapshot.sections.needs_you = section('needs_you', 'Needs you')
+  fetchSnapshot.mockResolvedValue(emptySnapshot)
+  fetchInbox.mockResolvedValue(inboxPage([notificationItem('digest-1', {
+    kind: 'notification_digest',
+    actor: null,
+    title: 'Daily Interactions digest',
+    preview: '6 reactions, 2 Hype alerts',
+    unreadCount: 8,
+    target: { kind: 'app_route', route: '/?view=catchup' },
+    notificationDigest: { category: 'interactions', cadence: 'daily', eventCount: 8 },
+  })]))
+  const onOpenSource = jest.fn()
+
+  render(<CatchUpView currentView="catchup" onViewChange={jest.fn()} onOpenSource={onOpenSource} />)
+
+  expect(await screen.findByText('Daily digest · Reactions and Hype')).toBeInTheDocument()
+  expect(screen.getByText('6 reactions, 2 Hype alerts')).toBeInTheDocument()
+  expect(screen.getByText('8 unread')).toBeInTheDocument()
+  fireEvent.click(screen.getByRole('button', { name: 'Daily Interactions digest' }))
+  await waitFor(() => expect(acknowledgeNotification).toHaveBeenCalledWith('digest-1'))
+})
+
 test('shows the canonical unread total and marks the complete backlog read', async () => {
   const emptySnapshot = snapshot()
   emptySnapshot.sections.needs_you = section('needs_you', 'Needs you')
@@ -769,6 +801,41 @@ test('loads source-linked sections and acknowledges only the opened Activity eve
   expect(screen.getByRole('heading', { name: 'You are caught up' })).toBeInTheDocument()
 })
 
+test('builds the General Chat digest on request and opens cited messages', async () => {
+  const unreadSnapshot = snapshot()
+  unreadSnapshot.sections.general_chat = {
+    ...section('general_chat', 'General Chat'),
+    shownCount: 1,
+    totalCount: 1,
+    items: [{ ...unreadSnapshot.sections.needs_you.items[0], id: 'chat:root-1', activityEventIds: [] }],
+  }
+  fetchSnapshot.mockResolvedValue(unreadSnapshot)
+  fetchDigest.mockResolvedValue({
+    generatedAt: '2026-07-14T02:05:00Z',
+    since: '2026-07-14T01:00:00Z',
+    messageCount: 12,
+    threadCount: 1,
+    omittedCount: 0,
+    bullets: [{
+      text: 'Ana proposed dinner on Friday and Ben agreed in the thread.',
+      sources: [{ ref: 'm1', messageId: 'root-1', authorName: 'Ana' }],
+    }],
+  })
+  const onOpenSource = jest.fn()
+
+  render(<CatchUpView currentView="catchup" onViewChange={jest.fn()} onOpenSource={onOpenSource} />)
+
+  fireEvent.click(await screen.findByRole('button', { name: 'Summarize' }))
+  expect(await screen.findByText('Ana proposed dinner on Friday and Ben agreed in the thread.')).toBeInTheDocument()
+  expect(screen.getByText(/Covers 12 messages and 1 thread/)).toBeInTheDocument()
+
+  fireEvent.click(screen.getByRole('button', { name: "Open Ana's message" }))
+  expect(onOpenSource).toHaveBeenCalledWith(expect.objectContaining({
+    target: { kind: 'chat_message', message_id: 'root-1' },
+  }))
+  expect(acknowledge).not.toHaveBeenCalled()
+})
+
 test('renders the actor PFP and opens the canonical profile without opening the source', async () => {
   fetchSnapshot.mockResolvedValue(snapshot())
   fetchProfile.mockResolvedValue({
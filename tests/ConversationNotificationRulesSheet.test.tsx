@@ -0,0 +1,130 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import { ConversationNotificationRulesSheet } from '../src/components/notifications/ConversationNotificationRulesSheet'
+import {
+  fetchConversationNotificationMuteUntil,
+  fetchConversationNotificationRule,
+  saveConversationNotificationRule,
+  setConversationNotificationMute,
+} from '../src/lib/push'
+
+jest.mock('../src/hooks/useAuth', () => ({
+  useAuth: () => ({ user: { id: 'user-1' } }),
+}))
+
+jest.mock('../src/hooks/useSoundEffects', () => {
+  const soundEffects = {
+    previewNotificationCue: jest.fn().mockResolvedValue(true),
+    stopNotificationCuePreview: jest.fn(),
+  }
+  return { useSoundEffects: () => soundEffects }
+})
+
+jest.mock('../src/lib/push', () => ({
+  fetchConversationNotificationMuteUntil: jest.fn(),
+  fetchConversationNotificationRule: jest.fn(),
+  getConversationNotificationSnoozeUntil: jest.fn(() => '2026-10-19T09:00:00.000Z'),
+  getDefaultConversationNotificationRule: (conversationId: string) => ({
+    conversation_id: conversationId,
+    delivery_mode: 'all',
+    sound_id: null,
+    bypass_quiet_hours: false,
+  }),
+  saveConversationNotificationRule: jest.fn(),
+  setConversationNotificationMute: jest.fn(),
+}))
+
+jest.mock('react-hot-toast', () => {
+  const toast = jest.fn() as any
+  toast.success = jest.fn()
+  toast.error = jest.fn()
+  return { __esModule: true, default: toast }
+})
+
+const mockFetchRule = fetchConversationNotificationRule as jest.Mock
+const mockFetchMute = fetchConversationNotificationMuteUntil as jest.Mock
+const mockSaveRule = saveConversationNotificationRule as jest.Mock
+const mockSetMute = setConversationNotificationMute as jest.Mock
+
+const baseRule = {
+  conversation_id: 'conversation-1',
+  delivery_mode: 'all',
+  sound_id: null,
+  bypass_quiet_hours: false,
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  mockFetchRule.mockResolvedValue(baseRule)
+  mockFetchMute.mockResolvedValue({ muted: false, mutedUntil: null })
+  mockSaveRule.mockImplementation(async (_userId: string, rule: typeof baseRule) => rule)
+  mockSetMute.mockResolvedValue(true)
+})
+
+const renderSheet = (onMuteChange = jest.fn()) => render(
+  <ConversationNotificationRulesSheet
+    open
+    onClose={jest.fn()}
+    conversationId="conversation-1"
+    conversationLabel="Caleb"
+    onMuteChange={onMuteChange}
+  />
+)
+
+test('switches a conversation to mentions only and marks it VIP', async () => {
+  renderSheet()
+
+  const mentionsOnly = await screen.findByRole('radio', { name: 'Mentions only' })
+  await waitFor(() => expect(mentionsOnly).not.toBeDisabled())
+  fireEvent.click(mentionsOnly)
+
+  await waitFor(() => {
+    expect(mockSaveRule).toHaveBeenCalledWith('user-1', { ...baseRule, delivery_mode: 'mentions_only' })
+  })
+  expect(mentionsOnly).toHaveAttribute('aria-checked', 'true')
+
+  const vip = screen.getByRole('button', { name: /VIP: alert during quiet hours/ })
+  await waitFor(() => expect(vip).not.toBeDisabled())
+  fireEvent.click(vip)
+
+  await waitFor(() => {
+    expect(mockSaveRule).toHaveBeenLastCalledWith('user-1', {
+      ...baseRule,
+      delivery_mode: 'mentions_only',
+      bypass_quiet_hours: true,
+    })
+  })
+})
+
+test('snoozes until tomorrow and can resume', async () => {
+  const onMuteChange = jest.fn()
+  renderSheet(onMuteChange)
+
+  const tomorrow = await screen.findByRole('button', { name: 'Until tomorrow' })
+  await waitFor(() => expect(tomorrow).not.toBeDisabled())
+  fireEvent.click(tomorrow)
+
+  await waitFor(() => {
+    expect(mockSetMute).toHaveBeenCalledWith('user-1', 'conversation-1', true, '2026-10-19T09:00:00.000Z')
+  })
+  expect(onMuteChange).toHaveBeenCalledWith('conversation-1')
+
+  fireEvent.click(await screen.findByRole('button', { name: /Resume notifications/ }))
+  await waitFor(() => {
+    expect(mockSetMute).toHaveBeenLastCalledWith('user-1', 'conversation-1', false, null)
+  })
+})
+
+test('applies a custom sound from the notification sound pack', async () => {
+  renderSheet()
+
+  const sound = await screen.findByRole('button', { name: /^Sound/ })
+  await waitFor(() => expect(sound).not.toBeDisabled())
+  fireEvent.click(sound)
+
+  fireEvent.click(await screen.findByRole('radio', { name: /War Drum/i }))
+  fireEvent.click(screen.getByRole('button', { name: 'Use sound' }))
+
+  await waitFor(() => {
+    expect(mockSaveRule).toHaveBeenCalledWith('user-1', { ...baseRule, sound_id: 'war_drum' })
+  })
+})
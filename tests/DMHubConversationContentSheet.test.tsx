@@ -39,6 +39,8 @@ const message = (overrides: Partial<DMRetrievedMessage> = {}): DMRetrievedMessag
   updatedAt: '2026-07-11T20:00:00.000Z',
   mediaWidth: null,
   mediaHeight: null,
+  expiresAt: null,
+  encryptedPayload: null,
   sender: {
     id: '33333333-3333-4333-8333-333333333333',
     username: 'francis',
@@ -42,6 +42,10 @@ jest.mock('../src/hooks/useReadCursor', () => ({
   useReadCursor: () => ({ markRead: jest.fn().mockResolvedValue(undefined) }),
 }))
 
+jest.mock('../src/features/read-receipts/useReadReceipts', () => ({
+  useSeenByReceipt: () => null,
+}))
+
 jest.mock('../src/hooks/MessagesContext', () => ({
   useOptionalMessages: () => null,
 }))
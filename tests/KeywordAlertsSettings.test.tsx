@@ -0,0 +1,90 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react'
+import toast from 'react-hot-toast'
+import { KeywordAlertsSettings } from '../src/features/keyword-alerts/KeywordAlertsSettings'
+import { resetKeywordAlertsStoreForTests } from '../src/features/keyword-alerts/keywordAlertsStore'
+import {
+  createKeywordAlert,
+  deleteKeywordAlert,
+  fetchKeywordAlerts,
+  setKeywordAlertEnabled,
+} from '../src/features/keyword-alerts/keywordAlertsApi'
+
+jest.mock('../src/hooks/useAuth', () => ({
+  useAuth: () => ({ user: { id: 'user-1' } }),
+}))
+
+jest.mock('../src/features/keyword-alerts/keywordAlertsApi', () => ({
+  fetchKeywordAlerts: jest.fn(),
+  createKeywordAlert: jest.fn(),
+  setKeywordAlertEnabled: jest.fn(),
+  deleteKeywordAlert: jest.fn(),
+}))
+
+jest.mock('react-hot-toast', () => {
+  const toast = jest.fn() as any
+  toast.success = jest.fn()
+  toast.error = jest.fn()
+  return { __esModule: true, default: toast }
+})
+
+const mockFetch = fetchKeywordAlerts as jest.Mock
+const mockCreate = createKeywordAlert as jest.Mock
+const mockSetEnabled = setKeywordAlertEnabled as jest.Mock
+const mockDelete = deleteKeywordAlert as jest.Mock
+
+const launchAlert = { id: 'alert-1', phrase: 'launch day', enabled: true, createdAt: '2026-10-18T10:00:00.000Z' }
+
+describe('KeywordAlertsSettings', () => {
+  beforeEach(() => {
+    resetKeywordAlertsStoreForTests()
+    jest.clearAllMocks()
+    mockFetch.mockResolvedValue([launchAlert])
+  })
+
+  test('lists saved alerts and adds a normalized phrase', async () => {
+    mockCreate.mockResolvedValue({ id: 'alert-2', phrase: 'deploy*', enabled: true, createdAt: '2026-10-18T11:00:00.000Z' })
+    render(<KeywordAlertsSettings />)
+
+    expect(await screen.findByText('launch day')).toBeInTheDocument()
+    expect(mockFetch).toHaveBeenCalledWith('user-1')
+
+    fireEvent.change(screen.getByLabelText('New keyword or phrase'), { target: { value: '  Deploy*  ' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Add alert' }))
+
+    expect(await screen.findByText('deploy*')).toBeInTheDocument()
+    expect(mockCreate).toHaveBeenCalledWith('user-1', 'deploy*')
+    expect(screen.getByLabelText('New keyword or phrase')).toHaveValue('')
+    expect(screen.getByText('2 of 25 used')).toBeInTheDocument()
+  })
+
+  test('rejects duplicates and too-short phrases before saving', async () => {
+    render(<KeywordAlertsSettings />)
+    await screen.findByText('launch day')
+
+    fireEvent.change(screen.getByLabelText('New keyword or phrase'), { target: { value: 'Launch  Day' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Add alert' }))
+    await waitFor(() => expect(toast.error).toHaveBeenCalledWith('You already have an alert for that keyword.'))
+
+    fireEvent.change(screen.getByLabelText('New keyword or phrase'), { target: { value: 'a' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Add alert' }))
+    expect(toast.error).toHaveBeenCalledWith('Use at least 2 letters or numbers.')
+    expect(mockCreate).not.toHaveBeenCalled()
+  })
+
+  test('pauses and removes alerts, restoring the list when a save fails', async () => {
+    mockSetEnabled.mockResolvedValue({ ...launchAlert, enabled: false })
+    mockDelete.mockRejectedValue(new Error('Network down'))
+    render(<KeywordAlertsSettings paused />)
+
+    const list = await screen.findByRole('list', { name: 'Keyword alerts' })
+    expect(screen.getByText(/Keyword alerts are off/)).toBeInTheDocument()
+
+    fireEvent.click(within(list).getByRole('switch', { name: 'Alert for launch day' }))
+    await waitFor(() => expect(within(list).getByRole('switch', { name: 'Alert for launch day' })).toHaveAttribute('aria-checked', 'false'))
+    expect(mockSetEnabled).toHaveBeenCalledWith('alert-1', false)
+
+    fireEvent.click(within(list).getByRole('button', { name: 'Remove launch day' }))
+    await waitFor(() => expect(toast.error).toHaveBeenCalledWith('Network down'))
+    expect(screen.getByText('launch day')).toBeInTheDocument()
+  })
+})
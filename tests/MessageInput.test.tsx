@@ -48,16 +48,32 @@ jest.mock('../src/lib/gifs', () => ({
   }),
 }))
 
+jest.mock('../src/features/scheduled-messages/scheduledMessagesApi', () => ({
+  createScheduledMessage: jest.fn(),
+  listMyScheduledMessages: jest.fn(),
+  updateScheduledMessage: jest.fn(),
+  cancelScheduledMessage: jest.fn(),
+}))
+
 jest.mock('../src/lib/supabase', () => ({
   uploadVoiceMessage: jest.fn().mockResolvedValue('url'),
   uploadChatFile: jest.fn(),
   uploadChatImageAsset: jest.fn(),
+  getWorkingClient: jest.fn(),
   DEBUG: false,
 }))
 
-const { uploadChatFile, uploadChatImageAsset } = jest.requireMock('../src/lib/supabase') as {
+const { uploadChatFile, uploadChatImageAsset, getWorkingClient } = jest.requireMock('../src/lib/supabase') as {
   uploadChatFile: jest.Mock
   uploadChatImageAsset: jest.Mock
+  getWorkingClient: jest.Mock
+}
+
+const { createScheduledMessage, listMyScheduledMessages } = jest.requireMock(
+  '../src/features/scheduled-messages/scheduledMessagesApi'
+) as {
+  createScheduledMessage: jest.Mock
+  listMyScheduledMessages: jest.Mock
 }
 
 const { searchKlipyGifs } = jest.requireMock('../src/lib/gifs') as {
@@ -311,6 +327,7 @@ test('shows an error and keeps reply state when uploaded image send resolves to
   const file = new File(['image'], 'photo.png', { type: 'image/png' })
 
   fireEvent.change(imageInput, { target: { files: [file] } })
+  fireEvent.click(await screen.findByRole('button', { name: 'Send' }))
 
   await waitFor(() => {
     expect(onSendMessage).toHaveBeenCalledWith(
@@ -492,3 +509,107 @@ test('uses keyboard-aware mobile sizing for the GIF picker', async () => {
     })
   }
 })
+
+test('routes /poll to the poll creator instead of sending text', async () => {
+  const onSendMessage = jest.fn()
+  const onCreatePoll = jest.fn().mockResolvedValue({ id: 'poll-1' })
+
+  render(<MessageInput onSendMessage={onSendMessage} onCreatePoll={onCreatePoll} />)
+  const textarea = screen.getByRole('textbox')
+
+  await act(async () => {
+    fireEvent.change(textarea, { target: { value: '/poll Lunch? | Pizza | Tacos --multi' } })
+  })
+  await act(async () => {
+    fireEvent.click(screen.getByRole('button', { name: /send message/i }))
+  })
+
+  expect(onSendMessage).not.toHaveBeenCalled()
+  expect(onCreatePoll).toHaveBeenCalledWith({
+    question: 'Lunch?',
+    options: ['Pizza', 'Tacos'],
+    allowsMultiple: true,
+    isAnonymous: false,
+    closesAt: null,
+  })
+  expect(textarea).toHaveValue('')
+})
+
+test('keeps an invalid /poll draft and explains the usage', async () => {
+  const onCreatePoll = jest.fn()
+
+  render(<MessageInput onSendMessage={jest.fn()} onCreatePoll={onCreatePoll} />)
+  const textarea = screen.getByRole('textbox')
+
+  await act(async () => {
+    fireEvent.change(textarea, { target: { value: '/poll Lunch? | Pizza' } })
+  })
+  await act(async () => {
+    fireEvent.click(screen.getByRole('button', { name: /send message/i }))
+  })
+
+  expect(onCreatePoll).not.toHaveBeenCalled()
+  expect(toast.error).toHaveBeenCalledWith('Polls need between 2 and 10 distinct options.')
+  expect(textarea).toHaveValue('/poll Lunch? | Pizza')
+})
+
+test('schedules the composer text for later from the attachment menu', async () => {
+  const channel = { on: jest.fn(), subscribe: jest.fn() }
+  channel.on.mockReturnValue(channel)
+  channel.subscribe.mockReturnValue(channel)
+  getWorkingClient.mockResolvedValue({ channel: () => channel, removeChannel: jest.fn() })
+  listMyScheduledMessages.mockResolvedValue([])
+  createScheduledMessage.mockResolvedValue({ id: 'scheduled-1' })
+  const onSendMessage = jest.fn()
+
+  render(
+    <MessageInput
+      onSendMessage={onSendMessage}
+      scheduleTarget={{ surface: 'dm', conversationId: 'conversation-1' }}
+    />
+  )
+  const textarea = screen.getByRole('textbox')
+
+  await act(async () => {
+    fireEvent.change(textarea, { target: { value: 'Happy birthday!' } })
+  })
+  await act(async () => {
+    fireEvent.click(screen.getByRole('button', { name: /add attachment/i }))
+  })
+  await act(async () => {
+    fireEvent.click(screen.getByRole('button', { name: /send later/i }))
+  })
+  await act(async () => {
+    fireEvent.click(screen.getByRole('button', { name: /in 1 hour/i }))
+  })
+
+  expect(listMyScheduledMessages).toHaveBeenCalledWith({ surface: 'dm', conversationId: 'conversation-1' })
+  expect(createScheduledMessage).toHaveBeenCalledWith(
+    { surface: 'dm', conversationId: 'conversation-1' },
+    'Happy birthday!',
+    expect.any(Date),
+    { replyTo: null },
+  )
+  expect(onSendMessage).not.toHaveBeenCalled()
+  expect(textarea).toHaveValue('')
+  expect(toast.success).toHaveBeenCalledWith(expect.stringMatching(/^Scheduled for /))
+})
+
+test('offers location sharing from the attachment menu when enabled', async () => {
+  const user = userEvent.setup()
+  const onShareLocation = jest.fn()
+  const { rerender } = render(<MessageInput onSendMessage={() => {}} />)
+
+  await act(async () => {
+    await user.click(screen.getByRole('button', { name: /add attachment/i }))
+  })
+  expect(screen.queryByRole('button', { name: /^location$/i })).not.toBeInTheDocument()
+
+  rerender(<MessageInput onSendMessage={() => {}} onShareLocation={onShareLocation} />)
+  await act(async () => {
+    await user.click(screen.getByRole('button', { name: /^location$/i }))
+  })
+
+  expect(onShareLocation).toHaveBeenCalledTimes(1)
+  expect(screen.queryByRole('button', { name: /^location$/i })).not.toBeInTheDocument()
+})
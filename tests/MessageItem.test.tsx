@@ -4,6 +4,7 @@ import React from 'react'
 import { MessageItem } from '../src/components/chat/MessageItem'
 import type { Message } from '../src/lib/supabase'
 import { useToneAnalysisEnabled } from '../src/hooks/useToneAnalysisEnabled'
+import { resetKeywordAlertsStoreForTests } from '../src/features/keyword-alerts/keywordAlertsStore'
 
 let mockAuthState = {
   user: { id: 'u1' },
@@ -14,6 +15,7 @@ let mockAdminAccess = {
 }
 let mockHypeContext: any = null
 const mockSaveMessageToLibrary = jest.fn()
+const mockFetchKeywordAlerts = jest.fn()
 
 jest.mock('../src/config', () => ({
   PRESENCE_INTERVAL_MS: 30000,
@@ -36,6 +38,9 @@ jest.mock('../src/hooks/useToneAnalysisEnabled')
 jest.mock('../src/lib/messageLibrary', () => ({
   saveMessageToLibrary: (...args: unknown[]) => mockSaveMessageToLibrary(...args),
 }))
+jest.mock('../src/features/keyword-alerts/keywordAlertsApi', () => ({
+  fetchKeywordAlerts: (...args: unknown[]) => mockFetchKeywordAlerts(...args),
+}))
 jest.mock('../src/lib/linkPreview', () => ({
   tokenizeMessageText: jest.requireActual('../src/lib/linkPreview').tokenizeMessageText,
   extractFirstMessageUrl: jest.requireActual('../src/lib/linkPreview').extractFirstMessageUrl,
@@ -109,6 +114,9 @@ beforeEach(() => {
   mockSaveMessageToLibrary.mockReset()
   mockSaveMessageToLibrary.mockResolvedValue({})
   mockedToneEnabled.mockReturnValue({ enabled: true, setEnabled: jest.fn() })
+  resetKeywordAlertsStoreForTests()
+  mockFetchKeywordAlerts.mockReset()
+  mockFetchKeywordAlerts.mockResolvedValue([])
 })
 
 test('renders image message', () => {
@@ -630,6 +638,45 @@ test('icon buttons have aria-labels', () => {
   expect(addReaction).toBeInTheDocument()
 })
 
+test('highlights messages from others that match a keyword alert', async () => {
+  mockAuthState = {
+    user: { id: 'u2' },
+    profile: { id: 'u2', admin_role: null },
+  }
+  mockFetchKeywordAlerts.mockResolvedValue([
+    { id: 'alert-1', phrase: 'launch day', enabled: true, createdAt: '2026-10-18T10:00:00.000Z' },
+    { id: 'alert-2', phrase: 'tacos', enabled: false, createdAt: '2026-10-18T10:01:00.000Z' },
+  ])
+  const props = {
+    onEdit: async () => {},
+    onDelete: async () => {},
+    onTogglePin: async () => {},
+    onToggleReaction: async () => {},
+    onJumpToMessage: () => {},
+    containerRef: React.createRef<HTMLDivElement>(),
+  }
+
+  const { rerender, container } = render(
+    <MessageItem
+      {...props}
+      message={{ ...baseMessage, message_type: 'text', content: 'Tacos on Launch Day?' } as Message}
+    />
+  )
+
+  expect(await screen.findByText('Keyword alert: launch day')).toBeInTheDocument()
+  expect(mockFetchKeywordAlerts).toHaveBeenCalledWith('u2')
+  expect(container.querySelector('[data-keyword-alert="launch day"]')).toBeInTheDocument()
+
+  rerender(
+    <MessageItem
+      {...props}
+      message={{ ...baseMessage, message_type: 'text', content: 'Tacos tonight' } as Message}
+    />
+  )
+  expect(screen.queryByText(/Keyword alert:/)).not.toBeInTheDocument()
+  expect(container.querySelector('[data-keyword-alert]')).not.toBeInTheDocument()
+})
+
 test('applies user color to the avatar', () => {
   const colored = {
     ...baseMessage,
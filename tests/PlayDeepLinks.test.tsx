@@ -15,6 +15,10 @@ jest.mock('../src/features/entertainment/shado-tv/api', () => {
   }
 })
 
+jest.mock('../src/features/custom-status/useStatusActivity', () => ({
+  useStatusActivity: jest.fn(),
+}))
+
 beforeEach(() => {
   const { SHADO_TV_FALLBACK_CATALOG } = jest.requireActual('../src/features/entertainment/shado-tv/api')
   mockFetchCatalog.mockReset().mockResolvedValue(SHADO_TV_FALLBACK_CATALOG)
@@ -12,6 +12,11 @@ const mockGetOrCreateDMConversation = jest.fn()
 const mockNotifyChannelBansChanged = jest.fn()
 const mockToastSuccess = jest.fn()
 const mockToastError = jest.fn()
+const mockListShadowPinBoards = jest.fn()
+const mockFetchShadowPinBoardPins = jest.fn()
+const mockSetShadowPinBoardFollow = jest.fn()
+const mockListMyFollowedShadowPinBoards = jest.fn()
+const mockFetchShadowPinBoardCovers = jest.fn()
 
 jest.mock('../src/hooks/useAuth', () => ({
   useAuth: () => mockUseAuth(),
@@ -70,6 +75,15 @@ jest.mock('../src/lib/moderation', () => ({
   setUserChannelBans: (...args: unknown[]) => mockSetUserChannelBans(...args),
 }))
 
+jest.mock('../src/features/shadow-pin/boards/boardsApi', () => ({
+  listShadowPinBoards: (...args: unknown[]) => mockListShadowPinBoards(...args),
+  listMyFollowedShadowPinBoards: (...args: unknown[]) => mockListMyFollowedShadowPinBoards(...args),
+  fetchShadowPinBoardCovers: (...args: unknown[]) => mockFetchShadowPinBoardCovers(...args),
+  fetchShadowPinBoardPins: (...args: unknown[]) => mockFetchShadowPinBoardPins(...args),
+  setShadowPinBoardFollow: (...args: unknown[]) => mockSetShadowPinBoardFollow(...args),
+  mutateShadowPinBoard: jest.fn(),
+}))
+
 jest.mock('react-hot-toast', () => ({
   success: (...args: unknown[]) => mockToastSuccess(...args),
   error: (...args: unknown[]) => mockToastError(...args),
@@ -106,6 +120,10 @@ beforeEach(() => {
   mockSetUserChannelBans.mockResolvedValue([])
   mockSetSubAdminStatus.mockResolvedValue(undefined)
   mockGetOrCreateDMConversation.mockResolvedValue(null)
+  mockListShadowPinBoards.mockResolvedValue([])
+  mockListMyFollowedShadowPinBoards.mockResolvedValue([])
+  mockFetchShadowPinBoardCovers.mockResolvedValue(new Map())
+  mockFetchShadowPinBoardPins.mockResolvedValue({ images: [], hasMore: false, nextCursor: null })
 })
 
 test('renders public profile details in a dialog', () => {
@@ -230,3 +248,39 @@ test('offers a Message CTA that jumps into a DM thread', async () => {
   expect(window.location.search).toContain('view=dms')
   expect(window.location.search).toContain('conversation=conv-1')
 })
+
+test('lists boards shared with the viewer and lets them follow one', async () => {
+  const browserUser = userEvent.setup()
+  mockUseAuth.mockReturnValue({ profile: { ...adminUser, id: 'viewer-1', admin_role: null } })
+  mockListShadowPinBoards.mockResolvedValue([{
+    id: 'board-1',
+    ownerId: user.id,
+    title: 'Night drives',
+    description: '',
+    visibility: 'connections',
+    circleId: null,
+    pinCount: 4,
+    followerCount: 0,
+    coverImageIds: [],
+    viewerIsFollowing: false,
+    containsImage: false,
+    createdAt: '2026-10-18T10:00:00Z',
+    updatedAt: '2026-10-18T10:00:00Z',
+  }])
+  mockSetShadowPinBoardFollow.mockResolvedValue({ following: true, followerCount: 1 })
+
+  render(<PublicProfileDialog user={user} open onClose={jest.fn()} />)
+
+  const boardButton = await screen.findByRole('button', { name: /night drives/i })
+  await act(async () => {
+    await browserUser.click(boardButton)
+  })
+  expect(mockListShadowPinBoards).toHaveBeenCalledWith(user.id)
+  expect(mockFetchShadowPinBoardPins).toHaveBeenCalledWith('board-1', null)
+
+  await act(async () => {
+    await browserUser.click(screen.getByRole('button', { name: 'Follow board' }))
+  })
+  expect(mockSetShadowPinBoardFollow).toHaveBeenCalledWith('board-1', true)
+  expect(await screen.findByRole('button', { name: 'Following' })).toHaveAttribute('aria-pressed', 'true')
+})
@@ -0,0 +1,49 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import { SeenByIndicator } from '../src/features/read-receipts/SeenByIndicator'
+import type { User } from '../src/lib/supabase'
+import type { SeenByReader } from '../src/features/read-receipts/readReceiptsModel'
+
+jest.mock('../src/components/ui/Avatar', () => ({
+  Avatar: ({ alt }: { alt: string }) => <span data-testid="avatar" aria-label={alt} />,
+}))
+
+const reader = (id: string, displayName: string): SeenByReader => ({
+  user: { id, username: id, display_name: displayName } as User,
+  lastReadAt: '2026-10-18T10:00:00.000Z',
+  lastReadMessageId: null,
+})
+
+describe('SeenByIndicator', () => {
+  test('renders nothing until someone has read the message', () => {
+    const { container } = render(<SeenByIndicator readers={[]} />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  test('summarizes readers and expands to the full avatar list on tap', () => {
+    render(
+      <SeenByIndicator
+        readers={[
+          reader('u1', 'Ada Lovelace'),
+          reader('u2', 'Grace Hopper'),
+          reader('u3', 'Alan Turing'),
+          reader('u4', 'Katherine Johnson'),
+        ]}
+      />
+    )
+
+    const toggle = screen.getByRole('button', { name: /seen by ada, grace and 2 others/i })
+    expect(toggle).toHaveAttribute('aria-expanded', 'false')
+    expect(screen.getAllByTestId('avatar')).toHaveLength(3)
+    expect(screen.queryByRole('list', { name: 'Seen by' })).not.toBeInTheDocument()
+
+    fireEvent.click(toggle)
+
+    expect(toggle).toHaveAttribute('aria-expanded', 'true')
+    const list = screen.getByRole('list', { name: 'Seen by' })
+    expect(list.querySelectorAll('li')).toHaveLength(4)
+    expect(list).toHaveTextContent('Katherine Johnson')
+
+    fireEvent.click(toggle)
+    expect(screen.queryByRole('list', { name: 'Seen by' })).not.toBeInTheDocument()
+  })
+})
@@ -1,4 +1,4 @@
-import { act, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react'
 import { SettingsView } from '../src/components/settings/SettingsView'
 import { BridgePairingAdminPanel } from '../src/components/settings/BridgePairingAdminPanel'
 import { NewsSourcesAdminPanel } from '../src/components/settings/NewsSourcesAdminPanel'
@@ -123,6 +123,10 @@ jest.mock('../src/hooks/usePushNotifications', () => ({
       quiet_hours_end: null,
       quiet_hours_timezone: 'America/New_York',
       mute_until: null,
+      interactions_digest_mode: 'immediate',
+      shadow_pin_digest_mode: 'immediate',
+      presence_digest_mode: 'immediate',
+      games_digest_mode: 'immediate',
     },
     subscribed: true,
     loading: false,
@@ -361,6 +365,20 @@ test('settings exposes server-enforced global and General Chat mutes', () => {
   expect(screen.getByText(/enforced by the push service/i)).toBeInTheDocument()
 })
 
+test('settings picks a digest cadence per low-priority category', () => {
+  render(<SettingsView onToggleSidebar={jest.fn()} />)
+
+  fireEvent.click(screen.getByRole('button', { name: /notifications & audio/i }))
+  const shadowPinDigest = screen.getByRole('radiogroup', { name: /shadowpin posts & comments delivery/i })
+  expect(within(shadowPinDigest).getByRole('radio', { name: 'Immediate' })).toHaveAttribute('aria-checked', 'true')
+  fireEvent.click(within(shadowPinDigest).getByRole('radio', { name: 'Hourly' }))
+  fireEvent.click(within(screen.getByRole('radiogroup', { name: /reactions & hype delivery/i })).getByRole('radio', { name: 'Daily' }))
+
+  expect(mockUpdatePreference).toHaveBeenCalledWith('shadow_pin_digest_mode', 'hourly')
+  expect(mockUpdatePreference).toHaveBeenCalledWith('interactions_digest_mode', 'daily')
+  expect(screen.getByText(/direct messages, mentions, and replies always arrive immediately/i)).toBeInTheDocument()
+})
+
 test('settings enables quiet hours as one valid preference update', () => {
   render(<SettingsView onToggleSidebar={jest.fn()} />)
 
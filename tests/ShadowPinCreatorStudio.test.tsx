@@ -267,6 +267,37 @@ test('shows a newly selected replacement file instead of the existing Pin previe
   }
 })
 
+test('opens the image editor for a selected still image and returns to Studio on cancel', async () => {
+  const originalCreateObjectURL = URL.createObjectURL
+  const originalRevokeObjectURL = URL.revokeObjectURL
+  let unmount: () => void = () => undefined
+  Object.defineProperty(URL, 'createObjectURL', { configurable: true, value: jest.fn(() => 'blob:edit-preview') })
+  Object.defineProperty(URL, 'revokeObjectURL', { configurable: true, value: jest.fn() })
+
+  try {
+    const view = render(<ShadowPinCreatorStudio open onClose={jest.fn()} onPublished={jest.fn()} />)
+    unmount = view.unmount
+    const input = view.container.ownerDocument.querySelector<HTMLInputElement>('input[type="file"]')!
+    await waitFor(() => expect(input).toBeEnabled())
+
+    fireEvent.change(input, { target: { files: [new File(['gif'], 'loop.gif', { type: 'image/gif' })] } })
+    expect(screen.queryByRole('button', { name: 'Edit image' })).not.toBeInTheDocument()
+
+    fireEvent.change(input, { target: { files: [new File(['png'], 'street.png', { type: 'image/png' })] } })
+    fireEvent.click(await screen.findByRole('button', { name: 'Edit image' }))
+
+    expect(screen.getByRole('dialog', { name: 'Edit image' })).toBeInTheDocument()
+    expect(screen.getByRole('tab', { name: 'Blur' })).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel editing' }))
+    expect(screen.queryByRole('dialog', { name: 'Edit image' })).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Edit image' })).toBeInTheDocument()
+  } finally {
+    unmount()
+    Object.defineProperty(URL, 'createObjectURL', { configurable: true, value: originalCreateObjectURL })
+    Object.defineProperty(URL, 'revokeObjectURL', { configurable: true, value: originalRevokeObjectURL })
+  }
+})
+
 test('discovers and shows a preview automatically for a non-direct media URL', async () => {
   mockFetchLinkPreview.mockResolvedValue({
     image: 'https://preview.example/social-card.webp',
@@ -324,7 +355,7 @@ test('moves through Preview and requires explicit confirmation before publishing
     fireEvent.click(publishButton)
   })
   await waitFor(() => expect(onPublished).toHaveBeenCalledWith(publishedImage))
-  expect(mockPublishCreatorDraft).toHaveBeenCalledWith(expect.objectContaining({ id: 'draft-1' }), readyAsset)
+  expect(mockPublishCreatorDraft).toHaveBeenCalledWith(expect.objectContaining({ id: 'draft-1' }), readyAsset, [])
   expect(mockClearCreatorLocalDraft).toHaveBeenCalledWith('user-1')
   expect(onClose).toHaveBeenCalledTimes(1)
 })
@@ -1,21 +1,25 @@
 import { fireEvent, render, screen } from '@testing-library/react'
 import { useState } from 'react'
 import { ShadowPinFeedModeTabs } from '../src/features/shadow-pin/components/ShadowPinFeedModeTabs'
+import type { ShadowPinFeedMode } from '../src/features/shadow-pin/types'
 
-test('exposes an accessible two-mode ShadowPin tablist', () => {
+test('exposes an accessible three-mode ShadowPin tablist', () => {
   const onChange = jest.fn()
   render(<ShadowPinFeedModeTabs mode="discover" onChange={onChange} />)
 
   const tabs = screen.getAllByRole('tab')
   expect(screen.getByRole('tablist', { name: 'ShadowPin feed mode' })).toBeInTheDocument()
-  expect(tabs).toHaveLength(2)
+  expect(tabs).toHaveLength(3)
   expect(screen.getByRole('tab', { name: 'Discover' })).toHaveAttribute('aria-selected', 'true')
   expect(screen.getByRole('tab', { name: 'Connections' })).toHaveAttribute('aria-selected', 'false')
   expect(screen.getByRole('tab', { name: 'Discover' })).toHaveAttribute('tabindex', '0')
   expect(screen.getByRole('tab', { name: 'Connections' })).toHaveAttribute('tabindex', '-1')
+  expect(screen.getByRole('tab', { name: 'For You' })).toHaveAttribute('aria-selected', 'false')
 
   fireEvent.click(screen.getByRole('tab', { name: 'Connections' }))
   expect(onChange).toHaveBeenCalledWith('connections')
+  fireEvent.click(screen.getByRole('tab', { name: 'For You' }))
+  expect(onChange).toHaveBeenCalledWith('for_you')
 })
 
 test('supports arrow, Home, and End keyboard selection', () => {
@@ -30,15 +34,15 @@ test('supports arrow, Home, and End keyboard selection', () => {
 
   expect(onChange.mock.calls.map(call => call[0])).toEqual([
     'connections',
-    'connections',
-    'connections',
+    'for_you',
+    'for_you',
     'discover',
   ])
 })
 
 test('moves roving focus with the selected keyboard tab', () => {
   function Harness() {
-    const [mode, setMode] = useState<'discover' | 'connections'>('discover')
+    const [mode, setMode] = useState<ShadowPinFeedMode>('discover')
     return <ShadowPinFeedModeTabs mode={mode} onChange={setMode} />
   }
 
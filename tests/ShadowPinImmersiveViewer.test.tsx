@@ -381,3 +381,33 @@ test('queues a rapid follow-up swipe instead of dropping it during the first set
     { direction: 1, reason: 'swipe' }
   )
 })
+
+test('carousel Pins swipe through their slides before moving to the next Pin', () => {
+  jest.useFakeTimers()
+  const carousel: ShadowPinImage = {
+    ...images[1],
+    slides: [
+      { position: 1, media_type: 'image', image_url: 'https://example.test/two-slide.jpg', caption: 'Second slide' },
+      { position: 0, media_type: 'image', image_url: images[1].image_url, caption: 'Cover caption' },
+    ],
+  }
+  const props = renderViewer({
+    images: [images[0], carousel, images[2]],
+    renderActiveMedia: (pin: ShadowPinImage) => <div data-testid="active-media">{pin.image_url}</div>,
+  })
+
+  expect(screen.getByRole('group', { name: 'Slide 1 of 2' })).toBeInTheDocument()
+  expect(screen.getByTestId('shadow-pin-theater-slide-caption')).toHaveTextContent('Cover caption')
+
+  fireEvent.click(screen.getByLabelText('Next slide'))
+  expect(props.onActiveImageChange).not.toHaveBeenCalled()
+  expect(screen.getByTestId('active-media')).toHaveTextContent('two-slide.jpg')
+  expect(screen.getByTestId('shadow-pin-theater-slide-caption')).toHaveTextContent('Second slide')
+
+  fireEvent.click(screen.getByLabelText('Next Pin'))
+  fireEvent.transitionEnd(screen.getByTestId('shadow-pin-theater-active-slide'), { propertyName: 'transform' })
+  expect(props.onActiveImageChange).toHaveBeenCalledWith(
+    expect.objectContaining({ id: 'three' }),
+    { direction: 1, reason: 'button' }
+  )
+})
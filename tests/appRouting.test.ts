@@ -142,6 +142,20 @@ test('ShadowPin Connections feed routes are normalized and replaced without poll
   expect(discover.url.searchParams.get('pin')).toBe('pin-1')
 })
 
+test('ShadowPin For You routes drop the Connections circle filter', () => {
+  const circleId = '550e8400-e29b-41d4-a716-446655440000'
+  const state = getLocationStateFromUrl(new URL(`https://shadochat.online/?view=pins&feed=for-you&circle=${circleId}`))
+  expect(state).toMatchObject({ view: 'pins', pinFeed: 'for_you' })
+  expect(state.pinCircle).toBeUndefined()
+
+  const forYou = resolvePinFeedModeMutation({
+    currentUrl: new URL(`https://shadochat.online/?view=pins&feed=connections&circle=${circleId}`),
+    mode: 'for_you',
+  })
+  expect(forYou.method).toBe('replace')
+  expect(forYou.url.search).toBe('?view=pins&feed=for-you')
+})
+
 test('Inner Circle routes keep list filters replace-only and detail opens Back-safe', () => {
   const circleId = '550e8400-e29b-41d4-a716-446655440000'
   const list = resolveInnerCircleRouteMutation({
@@ -0,0 +1,75 @@
+import {
+  buildAskTheRoomContext,
+  buildRetrievalQuery,
+  getAskTheRoomSourceTarget,
+  mergeAskTheRoomSources,
+  parseAskTheRoomAnswer,
+  type AskTheRoomSource,
+} from '../src/features/ask-the-room/askTheRoomModel'
+
+const source = (overrides: Partial<AskTheRoomSource>): AskTheRoomSource => ({
+  id: 'message-1',
+  surface: 'general',
+  conversationId: null,
+  authorId: 'user-ana',
+  authorName: 'Ana',
+  createdAt: '2026-10-18T14:00:00.000Z',
+  text: 'Trip is on the 12th',
+  rank: 0,
+  ...overrides,
+})
+
+describe('ask the room model', () => {
+  test('turns a question into an OR query without filler words', () => {
+    expect(buildRetrievalQuery('When did we decide on the trip date?')).toBe('decide or trip or date')
+    expect(buildRetrievalQuery("What was Ben's restaurant?")).toBe('ben or restaurant')
+    expect(buildRetrievalQuery('what did they say?')).toBe('')
+  })
+
+  test('keeps the best rank per message and drops blocked authors', () => {
+    const merged = mergeAskTheRoomSources([
+      source({ id: 'a', rank: 1.5 }),
+      source({ id: 'a', rank: 0 }),
+      source({ id: 'blocked', authorId: 'user-blocked' }),
+    ], new Set(['user-blocked']))
+
+    expect(merged).toEqual([source({ id: 'a', rank: 0 })])
+  })
+
+  test('spends the budget on relevant sources and lays them out in time order', () => {
+    const { context, refs } = buildAskTheRoomContext([
+      source({ id: 'late', rank: 0, createdAt: '2026-10-18T15:00:00.000Z', text: 'Booked it' }),
+      source({ id: 'early', rank: 1, createdAt: '2026-10-18T14:00:00.000Z', text: 'Trip on the 12th?' }),
+      source({ id: 'weak', rank: 5, text: 'x'.repeat(300) }),
+    ], 120)
+
+    expect(context).toBe([
+      '[s1] 2026-10-18 14:00 Ana: Trip on the 12th?',
+      '[s2] 2026-10-18 15:00 Ana: Booked it',
+    ].join('\n'))
+    expect(refs.get('s2')?.id).toBe('late')
+    expect(refs.size).toBe(2)
+  })
+
+  test('keeps only citations that point at retrieved messages', () => {
+    const { refs } = buildAskTheRoomContext([
+      source({ id: 'early', createdAt: '2026-10-18T14:00:00.000Z' }),
+      source({ id: 'late', createdAt: '2026-10-18T15:00:00.000Z' }),
+    ])
+
+    const parsed = parseAskTheRoomAnswer(
+      '```json\n{"answer":"You settled on the 12th [s2].","refs":["s2","s1","s9"]}\n```',
+      refs,
+    )
+    expect(parsed.answer).toBe('You settled on the 12th.')
+    expect(parsed.citations.map(citation => citation.id)).toEqual(['early', 'late'])
+
+    expect(parseAskTheRoomAnswer('Ana said the 12th [s1].', refs).citations.map(citation => citation.ref)).toEqual(['s1'])
+  })
+
+  test('jumps to the message in the conversation it came from', () => {
+    expect(getAskTheRoomSourceTarget(source({ id: 'm1' }))).toEqual({ kind: 'chat_message', message_id: 'm1' })
+    expect(getAskTheRoomSourceTarget(source({ id: 'm2', surface: 'dm', conversationId: 'dm-1' })))
+      .toEqual({ kind: 'dm_message', conversation_id: 'dm-1', message_id: 'm2' })
+  })
+})
@@ -145,6 +145,77 @@ test('hydrates notification actors from the current safe public profile relation
   expect(select.mock.calls[0][1]).toEqual({ count: 'exact' })
 })
 
+test('shows a sent digest as one card in place of the events it summarises', async () => {
+  const limit = jest.fn().mockResolvedValue({
+    data: [
+      {
+        id: 'digest-1',
+        type: 'notification_digest',
+        category: 'shadow_pin',
+        actor_id: null,
+        route: '/?view=pins',
+        payload: {
+          title: 'Hourly ShadowPin digest',
+          body: '2 comments, 1 new Pin',
+          digest_batch_id: 'batch-1',
+          digest_category: 'shadow_pin',
+          cadence: 'hourly',
+          event_count: 3,
+        },
+        created_at: '2026-10-18T13:00:00.000Z',
+        digest_batch_id: null,
+        actor: null,
+      },
+      {
+        id: 'comment-event',
+        type: 'shadow_pin_comment',
+        category: 'shadow_pin',
+        actor_id: 'actor-1',
+        route: '/?view=pins&pin=pin-1',
+        payload: { title: 'New comment', image_id: 'pin-1' },
+        created_at: '2026-10-18T12:40:00.000Z',
+        digest_batch_id: 'batch-1',
+        actor: null,
+      },
+      {
+        id: 'held-event',
+        type: 'reaction',
+        category: 'interactions',
+        actor_id: 'actor-2',
+        route: '/?view=chat&message=message-1',
+        payload: { title: 'Mills reacted' },
+        created_at: '2026-10-18T12:30:00.000Z',
+        digest_batch_id: 'batch-open',
+        actor: null,
+      },
+    ],
+    error: null,
+    count: 5,
+  })
+  const order = jest.fn(() => ({ limit }))
+  const resolvedIs = jest.fn(() => ({ order }))
+  const readIs = jest.fn(() => ({ is: resolvedIs }))
+  const select = jest.fn(() => ({ is: readIs }))
+  from.mockReturnValue({ select })
+
+  await expect(fetchNotificationInbox()).resolves.toEqual({
+    items: [
+      expect.objectContaining({
+        id: 'notification:digest-1',
+        actor: null,
+        title: 'Hourly ShadowPin digest',
+        preview: '2 comments, 1 new Pin',
+        unreadCount: 3,
+        target: { kind: 'app_route', route: '/?view=pins' },
+        notificationEventIds: ['digest-1'],
+        notificationDigest: { category: 'shadow_pin', cadence: 'hourly', eventCount: 3 },
+      }),
+      expect.objectContaining({ id: 'notification:held-event' }),
+    ],
+    totalCount: 4,
+  })
+})
+
 test('uses a v2 envelope as the Catch-Up presentation authority while preserving the exact event id', async () => {
   const eventLimit = jest.fn().mockResolvedValue({
     data: [{
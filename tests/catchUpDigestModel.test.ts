@@ -0,0 +1,115 @@
+import {
+  buildCatchUpDigestTranscript,
+  describeDigestMessage,
+  getDigestSourceItem,
+  parseCatchUpDigest,
+  selectDigestMessages,
+  toCatchUpDigestEntry,
+} from '../src/features/catch-up/catchUpDigestModel'
+import type { Message } from '../src/lib/supabase'
+
+const message = (overrides: Partial<Message>): Message => ({
+  id: 'message-1',
+  user_id: 'user-ana',
+  content: 'hello',
+  message_type: 'text',
+  reactions: {},
+  pinned: false,
+  created_at: '2026-10-18T14:00:00.000Z',
+  updated_at: '2026-10-18T14:00:00.000Z',
+  user: { id: 'user-ana', display_name: 'Ana', username: 'ana' } as Message['user'],
+  ...overrides,
+})
+
+describe('catch-up digest model', () => {
+  test('describes media the model cannot see', () => {
+    expect(describeDigestMessage(message({ message_type: 'image', content: 'the view' }))).toBe('[Image] the view')
+    expect(describeDigestMessage(message({ message_type: 'audio', content: '', audio_duration: 72 }))).toBe('[Voice message, 1:12]')
+    expect(describeDigestMessage(message({
+      message_type: 'file',
+      content: '',
+      file_url: 'https://cdn.example.com/files/trip%20plan.pdf',
+    }))).toBe('[File: trip plan.pdf]')
+  })
+
+  test('drops blocked authors and unsent messages, oldest first', () => {
+    const selected = selectDigestMessages([
+      message({ id: 'b', created_at: '2026-10-18T14:02:00.000Z' }),
+      message({ id: 'a', created_at: '2026-10-18T14:01:00.000Z' }),
+      message({ id: 'blocked', user_id: 'user-blocked' }),
+      message({ id: 'pending', optimistic: true }),
+      message({ id: 'a', created_at: '2026-10-18T14:01:00.000Z' }),
+    ], new Set(['user-blocked']))
+
+    expect(selected.map(entry => entry.id)).toEqual(['a', 'b'])
+  })
+
+  test('renders an attributed transcript with thread context', () => {
+    const { transcript, refs } = buildCatchUpDigestTranscript([
+      toCatchUpDigestEntry(message({
+        id: 'root',
+        content: 'Dinner Friday?',
+        thread_summary: {
+          thread_id: 'root',
+          reply_count: 3,
+          unread_count: 2,
+          participants: [{ id: 'user-ben', display_name: 'Ben' } as NonNullable<Message['user']>],
+        },
+      })),
+      toCatchUpDigestEntry(message({
+        id: 'reply',
+        user_id: 'user-ben',
+        user: { id: 'user-ben', display_name: 'Ben' } as Message['user'],
+        content: 'I am in',
+        reply_to: 'root',
+        created_at: '2026-10-18T14:05:00.000Z',
+      })),
+    ])
+
+    expect(transcript).toBe([
+      '[m1] 2026-10-18 14:00 Ana: Dinner Friday? {3 thread replies from Ben}',
+      '[m2] 2026-10-18 14:05 Ben (thread on m1): I am in',
+    ].join('\n'))
+    expect(refs.get('m2')?.id).toBe('reply')
+  })
+
+  test('keeps the newest messages when the transcript overflows its budget', () => {
+    const entries = ['one', 'two', 'three'].map((content, index) => toCatchUpDigestEntry(message({
+      id: content,
+      content: content.repeat(20),
+      created_at: `2026-10-18T14:0${index}:00.000Z`,
+    })))
+
+    const result = buildCatchUpDigestTranscript(entries, 300)
+    expect(result.includedCount).toBe(2)
+    expect(result.omittedCount).toBe(1)
+    expect(result.refs.get('m1')?.id).toBe('two')
+  })
+
+  test('links parsed bullets back to cited messages and drops uncited ones', () => {
+    const { refs } = buildCatchUpDigestTranscript([
+      toCatchUpDigestEntry(message({ id: 'root', content: 'Dinner Friday?' })),
+    ])
+
+    expect(parseCatchUpDigest(
+      '```json\n{"bullets":[{"text":"Ana proposed dinner on Friday [m1].","refs":["m1"]},{"text":"Made up","refs":["m9"]}]}\n```',
+      refs,
+    )).toEqual([{
+      text: 'Ana proposed dinner on Friday.',
+      sources: [{ ref: 'm1', messageId: 'root', authorName: 'Ana' }],
+    }])
+    expect(parseCatchUpDigest('- Ana wants dinner [m1]\n- No source here', refs)).toEqual([{
+      text: 'Ana wants dinner',
+      sources: [{ ref: 'm1', messageId: 'root', authorName: 'Ana' }],
+    }])
+  })
+
+  test('opens citations through the Catch-Up source path', () => {
+    const item = getDigestSourceItem(
+      { ref: 'm1', messageId: 'root', authorName: 'Ana' },
+      { generatedAt: '2026-10-18T15:00:00.000Z', since: null, messageCount: 1, threadCount: 0, omittedCount: 0, bullets: [] },
+    )
+    expect(item.target).toEqual({ kind: 'chat_message', message_id: 'root' })
+    expect(item.activityEventIds).toEqual([])
+  })
+})
@@ -0,0 +1,119 @@
+import {
+  getConversationExportFileName,
+  prepareExportMessages,
+  renderConversationExport,
+  type ConversationExport,
+  type ExportedMessage,
+} from '../src/features/conversation-export/conversationExportModel'
+
+const message = (overrides: Partial<ExportedMessage> & Pick<ExportedMessage, 'id' | 'createdAt'>): ExportedMessage => ({
+  author: { id: 'user-a', displayName: 'Ada', username: 'ada' },
+  editedAt: null,
+  type: 'text',
+  content: 'hello',
+  mediaUrl: null,
+  replyTo: null,
+  reactions: [],
+  thread: null,
+  ...overrides,
+})
+
+const archive = (messages: ExportedMessage[]): ConversationExport => ({
+  title: 'General Chat',
+  surface: 'general',
+  conversationId: null,
+  range: { from: '2026-10-01T00:00:00.000Z', to: '2026-10-18T23:59:59.999Z' },
+  exportedAt: '2026-10-18T12:00:00.000Z',
+  excludedMessageCount: 0,
+  messages,
+})
+
+describe('conversation export model', () => {
+  test('orders, de-duplicates, and drops blocked authors', () => {
+    const prepared = prepareExportMessages([
+      message({ id: 'm2', createdAt: '2026-10-02T00:00:00.000Z' }),
+      message({ id: 'm1', createdAt: '2026-10-01T00:00:00.000Z' }),
+      message({ id: 'm2', createdAt: '2026-10-02T00:00:00.000Z' }),
+      message({
+        id: 'm3',
+        createdAt: '2026-10-03T00:00:00.000Z',
+        author: { id: 'blocked', displayName: 'Blocked', username: 'blocked' },
+      }),
+    ], new Set(['blocked']))
+
+    expect(prepared.messages.map(entry => entry.id)).toEqual(['m1', 'm2'])
+    expect(prepared.excludedMessageCount).toBe(1)
+  })
+
+  test('fills reply excerpts only from visible messages and hides blocked thread previews', () => {
+    const prepared = prepareExportMessages([
+      message({ id: 'parent', createdAt: '2026-10-01T00:00:00.000Z', content: 'the original point' }),
+      message({
+        id: 'hidden',
+        createdAt: '2026-10-01T00:01:00.000Z',
+        author: { id: 'blocked', displayName: 'Blocked', username: null },
+      }),
+      message({
+        id: 'reply',
+        createdAt: '2026-10-01T00:02:00.000Z',
+        replyTo: { id: 'parent', author: null, excerpt: null },
+        thread: { replyCount: 2, latestReplyAt: null, latestReplyAuthorId: 'blocked', latestReplyPreview: 'secret' },
+      }),
+      message({
+        id: 'reply-to-hidden',
+        createdAt: '2026-10-01T00:03:00.000Z',
+        replyTo: { id: 'hidden', author: null, excerpt: null },
+      }),
+    ], new Set(['blocked']))
+
+    const [, reply, replyToHidden] = prepared.messages
+    expect(reply.replyTo).toEqual({ id: 'parent', author: 'Ada', excerpt: 'the original point' })
+    expect(reply.thread?.latestReplyPreview).toBeNull()
+    expect(reply.thread?.replyCount).toBe(2)
+    expect(replyToHidden.replyTo).toEqual({ id: 'hidden', author: null, excerpt: null })
+  })
+
+  test('renders markdown with media links, reactions, and thread summaries', () => {
+    const markdown = renderConversationExport(archive([
+      message({
+        id: 'm1',
+        createdAt: '2026-10-01T00:00:00.000Z',
+        type: 'image',
+        mediaUrl: 'https://cdn.example.com/a.png',
+        reactions: [{ emoji: '🔥', count: 3 }],
+        thread: { replyCount: 1, latestReplyAt: null, latestReplyAuthorId: null, latestReplyPreview: 'nice' },
+      }),
+    ]), 'markdown')
+
+    expect(markdown).toContain('# General Chat')
+    expect(markdown).toContain('[Image](https://cdn.example.com/a.png)')
+    expect(markdown).toContain('🔥 3')
+    expect(markdown).toContain('_Thread: 1 reply · latest: nice_')
+  })
+
+  test('escapes HTML content and refuses non-http media links', () => {
+    const html = renderConversationExport(archive([
+      message({
+        id: 'm1',
+        createdAt: '2026-10-01T00:00:00.000Z',
+        content: '<script>alert(1)</script>',
+        type: 'file',
+        mediaUrl: 'javascript:alert(1)',
+      }),
+    ]), 'html')
+
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('href="#"')
+  })
+
+  test('wraps JSON exports with a format marker', () => {
+    const parsed = JSON.parse(renderConversationExport(archive([]), 'json'))
+    expect(parsed).toMatchObject({ format: 'shadowchat.conversation-export', version: 1, title: 'General Chat', messages: [] })
+  })
+
+  test('builds file names from the title and range', () => {
+    expect(getConversationExportFileName({ ...archive([]), title: 'Ada & Bo!' }, 'html'))
+      .toBe('shadowchat-ada-bo-2026-10-01-to-2026-10-18.html')
+  })
+})
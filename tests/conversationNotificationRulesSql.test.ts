@@ -0,0 +1,52 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261018200000_conversation_notification_rules.sql')
+const sendPush = compact('supabase/functions/send-push/index.ts')
+const deliverV2 = compact('supabase/functions/deliver-notifications-v2/index.ts')
+
+describe('conversation notification rules migration', () => {
+  test('stores one private rule per member and conversation', () => {
+    expect(migration).toContain('create table if not exists public.notification_conversation_rules')
+    expect(migration).toContain('primary key (user_id, conversation_id)')
+    expect(migration).toContain("check (delivery_mode in ('all', 'mentions_only'))")
+    expect(migration).toContain("check (sound_id is null or sound_id ~ '^[a-z0-9_]{2,48}$')")
+    expect(migration).toContain('bypass_quiet_hours boolean not null default false')
+  })
+
+  test('limits rules to conversation participants and adds no security definer', () => {
+    expect(migration).toContain('alter table public.notification_conversation_rules enable row level security')
+    expect(migration).toContain('and (select auth.uid()) = any(conversations.participants)')
+    expect(migration).toContain('revoke all on table public.notification_conversation_rules from public, anon, authenticated, service_role')
+    expect(migration).toContain('grant select on table public.notification_conversation_rules to service_role')
+    expect(migration).not.toContain('security definer')
+  })
+
+  test('lets lock-screen mute actions write the mute row', () => {
+    expect(migration).toContain('grant insert, update on table public.notification_conversation_mutes to service_role')
+  })
+})
+
+describe('server delivery honours conversation rules', () => {
+  test('web push applies mentions-only and the VIP quiet-hours bypass before creating the event', () => {
+    const rule = sendPush.indexOf('const rule = await getconversationnotificationrule(')
+    const upsert = sendPush.indexOf("const dedupekey = `dm:${dmmessage.id}:${recipientid}`")
+    expect(rule).toBeGreaterThan(-1)
+    expect(upsert).toBeGreaterThan(rule)
+    expect(sendPush).toContain('bypassquiethours: rule?.bypass_quiet_hours === true')
+    expect(sendPush).toContain('getconversationrulesuppressionreason(rule, mentioned)')
+    expect(sendPush).toContain('...(rule?.sound_id ? { soundid: rule.sound_id } : {})')
+  })
+
+  test('native delivery reloads the rule for DM events and prefers its sound', () => {
+    expect(deliverV2).toContain(".from('notification_conversation_rules')")
+    expect(deliverV2).toContain('bypassquiethours: conversationrule?.bypass_quiet_hours === true')
+    expect(deliverV2).toContain('eventpayload.mentioned === true')
+    expect(deliverV2).toContain('conversationrule?.sound_id, ),')
+  })
+})
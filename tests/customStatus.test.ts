@@ -0,0 +1,118 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import type { UserCustomStatus } from '../src/lib/supabase'
+import {
+  PLAY_EXPERIENCE_ACTIVITIES,
+  formatCustomStatusSummary,
+  getActiveCustomStatus,
+  getCustomStatusError,
+  getPresenceCustomStatus,
+  getShadoTvActivity,
+  getStatusClearTime,
+  normalizeUserCustomStatus,
+} from '../src/features/custom-status/customStatusModel'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261018230000_custom_status.sql')
+
+const NOW = Date.parse('2026-10-18T18:00:00.000Z')
+
+const status = (extra: Partial<UserCustomStatus> = {}): UserCustomStatus => ({
+  user_id: 'user-1',
+  emoji: '🏟️',
+  status_text: 'At the game until 9',
+  expires_at: null,
+  share_activity: true,
+  activity_kind: null,
+  activity_label: null,
+  activity_source: null,
+  activity_expires_at: null,
+  updated_at: '2026-10-18T17:00:00.000Z',
+  ...extra,
+})
+
+describe('custom status model', () => {
+  test('validates drafts before they reach the server', () => {
+    expect(getCustomStatusError({ emoji: '', text: '   ' })).toBe('Add an emoji or some text.')
+    expect(getCustomStatusError({ emoji: '🎮 🎮', text: '' })).toBe('Use a single emoji.')
+    expect(getCustomStatusError({ emoji: '', text: 'x'.repeat(81) })).toContain('80 characters')
+    expect(getCustomStatusError({ emoji: '🎮', text: '  Ranked   night ' })).toBeNull()
+  })
+
+  test('computes clear times relative to now', () => {
+    const now = new Date(NOW)
+    expect(getStatusClearTime('never', now)).toBeNull()
+    expect(getStatusClearTime('30m', now)).toBe('2026-10-18T18:30:00.000Z')
+    expect(getStatusClearTime('4h', now)).toBe('2026-10-18T22:00:00.000Z')
+    const endOfDay = new Date(getStatusClearTime('today', now) as string)
+    expect(endOfDay.getTime()).toBeGreaterThan(NOW)
+    expect(endOfDay.getHours()).toBe(23)
+  })
+
+  test('drops expired text and stale activity', () => {
+    expect(getActiveCustomStatus(status({ expires_at: '2026-10-18T17:59:00.000Z' }), NOW)).toBeNull()
+
+    const watching = status({
+      expires_at: '2026-10-18T17:59:00.000Z',
+      activity_kind: 'watching',
+      activity_label: 'The Chicken Snatchers',
+      activity_source: 'shado_tv',
+      activity_expires_at: '2026-10-18T18:05:00.000Z',
+    })
+    expect(getActiveCustomStatus(watching, NOW)).toEqual({
+      emoji: null,
+      text: null,
+      expiresAt: null,
+      activity: { kind: 'watching', label: 'The Chicken Snatchers' },
+    })
+    expect(getActiveCustomStatus(watching, Date.parse('2026-10-18T18:06:00.000Z'))).toBeNull()
+  })
+
+  test('hides statuses for invisible members', () => {
+    const customStatus = status()
+    expect(getPresenceCustomStatus({ presence_state: 'online', custom_status: customStatus }, NOW)?.text)
+      .toBe('At the game until 9')
+    expect(getPresenceCustomStatus({ presence_state: 'invisible', custom_status: customStatus }, NOW)).toBeNull()
+  })
+
+  test('summarises the custom text and activity together', () => {
+    const active = getActiveCustomStatus(status({
+      activity_kind: 'listening',
+      activity_label: 'Shado Live',
+      activity_source: 'shado_live',
+      activity_expires_at: '2026-10-18T18:05:00.000Z',
+    }), NOW)
+    expect(active && formatCustomStatusSummary(active)).toBe('🏟️ At the game until 9 · Listening to Shado Live')
+  })
+
+  test('normalizes rows and activity sources', () => {
+    expect(normalizeUserCustomStatus({ user_id: '' })).toBeNull()
+    expect(normalizeUserCustomStatus({ user_id: 'user-1', activity_kind: 'dancing', activity_label: 'x' }))
+      .toMatchObject({ activity_kind: null, activity_label: null, share_activity: true })
+    expect(getShadoTvActivity('  ')).toEqual({ kind: 'watching', label: 'Shado TV', source: 'shado_tv' })
+    expect(PLAY_EXPERIENCE_ACTIVITIES['shadow-war']).toMatchObject({ kind: 'playing', source: 'shadow_war' })
+    for (const activity of Object.values(PLAY_EXPERIENCE_ACTIVITIES)) {
+      expect(activity.source).toMatch(/^[a-z0-9_]{1,40}$/)
+    }
+  })
+})
+
+describe('custom status migration', () => {
+  test('only exposes statuses of visible, unblocked members', () => {
+    expect(migration).toContain('create policy "members can view visible custom statuses" on public.user_custom_statuses for select to authenticated')
+    expect(migration).toContain("users.presence_visibility = 'tracked'")
+    expect(migration).toContain('and not private.users_have_block((select auth.uid()), user_id)')
+    expect(migration).not.toContain('security definer')
+  })
+
+  test('enforces expiry and activity rules on the server', () => {
+    expect(migration).toContain("raise exception 'choose a clear time in the future'")
+    expect(migration).toContain("now() + interval '15 minutes'")
+    expect(migration).toContain('share_activity boolean not null default true')
+    expect(migration).toContain('alter publication supabase_realtime add table public.user_custom_statuses')
+  })
+})
@@ -0,0 +1,45 @@
+import {
+  formatTakeoutExpiry,
+  formatTakeoutSize,
+  getEffectiveTakeoutStatus,
+  normalizeDataTakeout,
+} from '../src/features/data-takeout/dataTakeoutModel'
+
+const now = Date.parse('2026-10-18T12:00:00.000Z')
+
+describe('data takeout model', () => {
+  test('normalizes status rows and clamps progress', () => {
+    expect(normalizeDataTakeout({
+      id: 'takeout-1',
+      status: 'processing',
+      progress: 140,
+      stage: 'Direct messages',
+      byte_size: null,
+      requested_at: '2026-10-18T11:59:00.000Z',
+    })).toMatchObject({ id: 'takeout-1', status: 'processing', progress: 100, stage: 'Direct messages', byteSize: null })
+    expect(normalizeDataTakeout({ id: 'takeout-1', status: 'queued', requested_at: '2026-10-18T11:59:00.000Z' })).toBeNull()
+    expect(normalizeDataTakeout(null)).toBeNull()
+  })
+
+  test('treats ready archives past their expiry as expired', () => {
+    const ready = normalizeDataTakeout({
+      id: 'takeout-1',
+      status: 'ready',
+      progress: 100,
+      byte_size: 2048,
+      requested_at: '2026-10-10T11:00:00.000Z',
+      expires_at: '2026-10-17T11:00:00.000Z',
+    })!
+    expect(getEffectiveTakeoutStatus(ready, now)).toBe('expired')
+    expect(getEffectiveTakeoutStatus({ ...ready, expiresAt: '2026-10-25T11:00:00.000Z' }, now)).toBe('ready')
+  })
+
+  test('formats archive size and remaining time', () => {
+    expect(formatTakeoutSize(null)).toBeNull()
+    expect(formatTakeoutSize(512)).toBe('512 B')
+    expect(formatTakeoutSize(5 * 1024 * 1024)).toBe('5.0 MB')
+    expect(formatTakeoutExpiry('2026-10-25T12:00:00.000Z', now)).toBe('Expires in 7 days')
+    expect(formatTakeoutExpiry('2026-10-18T15:00:00.000Z', now)).toBe('Expires in 3 hours')
+    expect(formatTakeoutExpiry('2026-10-18T11:00:00.000Z', now)).toBe('Expired')
+  })
+})
@@ -0,0 +1,44 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const migration = readFileSync(
+  path.join(process.cwd(), 'supabase/migrations/20261018150000_personal_data_takeout.sql'),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const edgeFunction = readFileSync(
+  path.join(process.cwd(), 'supabase/functions/data-takeout/index.ts'),
+  'utf8'
+)
+
+describe('personal data takeout', () => {
+  test('keeps takeout status owner-readable and server-written', () => {
+    expect(migration).toContain('create table public.data_takeout_exports')
+    expect(migration).toContain('using (user_id = (select auth.uid()))')
+    expect(migration).toContain('grant select on table public.data_takeout_exports to authenticated')
+    expect(migration).not.toMatch(/grant (insert|update|delete)[^;]*data_takeout_exports to authenticated/)
+    expect(migration).toContain("on public.data_takeout_exports (user_id) where status = 'processing'")
+  })
+
+  test('stores archives in a private bucket without browser storage policies', () => {
+    expect(migration).toContain("'data-takeouts', 'data-takeouts', false")
+    expect(migration).not.toContain('on storage.objects')
+  })
+
+  test('signs short-lived downloads only for the caller and retires expired archives', () => {
+    expect(edgeFunction).toContain(".eq('user_id', userId)")
+    expect(edgeFunction).toContain('createSignedUrl(row.storage_path, DOWNLOAD_URL_TTL_SECONDS')
+    expect(edgeFunction).toContain("throw new TakeoutError('This takeout has expired. Request a new one.', 410)")
+    expect(edgeFunction).toContain('EdgeRuntime.waitUntil(build)')
+  })
+
+  test('leaves blocked members\' DMs out of the archive in either direction', () => {
+    expect(edgeFunction).toContain('.or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`)')
+    expect(edgeFunction).toContain('.filter(message => message.sender_id === userId || !blockedIds.has(String(message.sender_id)))')
+  })
+
+  test('leaves expired disappearing DMs out of the archive', () => {
+    expect(edgeFunction).toContain("typeof message.expires_at === 'string' && Date.parse(message.expires_at) <= now")
+    expect(edgeFunction).toContain('.filter(message => !isExpiredMessage(message, now))')
+  })
+})
@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict'
+import test from 'node:test'
+import { asRole, createSupabaseDatabase } from './mocks/supabase-pglite.mjs'
+
+const ALICE = '00000000-0000-4000-8000-00000000000a'
+const BOB = '00000000-0000-4000-8000-00000000000b'
+const CONVERSATION = '00000000-0000-4000-8000-0000000000c1'
+const twoHoursAgo = () => new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()
+
+const setup = async () => {
+  const db = await createSupabaseDatabase([
+    '20261018120000_message_polls.sql',
+    '20261018140000_message_edit_history.sql',
+    '20261018160000_location_messages.sql',
+    '20261019000000_message_reminders.sql',
+    '20261019010000_disappearing_dm_messages.sql',
+    '20261019130000_disappearing_dm_purge_grant.sql',
+    '20261019140000_disappearing_dm_expiry_guards.sql',
+  ])
+  await db.query(`insert into public.users (id, username) values ($1, 'alice'), ($2, 'bob')`, [ALICE, BOB])
+  await db.query(
+    'insert into public.dm_conversations (id, participants, message_ttl_seconds) values ($1, $2, 3600)',
+    [CONVERSATION, [ALICE, BOB]]
+  )
+  return db
+}
+
+const insertMessage = async (db, createdAt, extra = {}) => (
+  (await db.query(
+    `insert into public.dm_messages (conversation_id, sender_id, content, message_type, created_at)
+     values ($1, $2, $3, $4, $5)
+     returning id`,
+    [CONVERSATION, ALICE, extra.content ?? 'meet at 6', extra.messageType ?? 'text', createdAt]
+  )).rows[0].id
+)
+
+const remindBob = (db, messageId) => asRole(db, 'authenticated', BOB, tx => tx.query(
+  `insert into public.message_reminders (source, message_id, remind_at)
+   values ('dm', $1, now() + interval '10 minutes')`,
+  [messageId]
+))
+
+test('a due reminder for an expired DM is deleted instead of delivered', async () => {
+  const db = await setup()
+  const expiredId = await insertMessage(db, new Date().toISOString())
+  const liveId = await insertMessage(db, new Date().toISOString(), { content: 'still here' })
+  await remindBob(db, expiredId)
+  await remindBob(db, liveId)
+
+  // Fast-forward the first message and both reminders past their times.
+  await db.query(`update public.dm_messages set expires_at = now() - interval '1 minute' where id = $1`, [expiredId])
+  await db.exec(`
+    set session_replication_role = replica;
+    update public.message_reminders set remind_at = now() - interval '1 minute';
+    set session_replication_role = origin;
+  `)
+
+  const delivered = await asRole(db, 'service_role', null, async tx => (
+    (await tx.query('select public.deliver_due_message_reminders(50) as delivered')).rows[0].delivered
+  ))
+  assert.equal(delivered, 1)
+
+  const reminders = await db.query('select message_id, status from public.message_reminders')
+  assert.deepEqual(reminders.rows, [{ message_id: liveId, status: 'sent' }])
+  const events = await db.query(`select payload->>'body' as body from public.notification_events`)
+  assert.deepEqual(events.rows, [{ body: 'still here' }])
+})
+
+test('the purge deletes reminders about the DMs it removes', async () => {
+  const db = await setup()
+  const messageId = await insertMessage(db, new Date().toISOString())
+  await remindBob(db, messageId)
+  await db.query(`update public.dm_messages set expires_at = now() - interval '1 minute'`)
+
+  await asRole(db, 'service_role', null, tx => tx.query('select public.purge_expired_dm_messages(50)'))
+
+  assert.equal((await db.query('select count(*)::int as count from public.message_reminders')).rows[0].count, 0)
+})
+
+test('members cannot read coordinates of an expired location message', async () => {
+  const db = await setup()
+  const expiredId = await insertMessage(db, twoHoursAgo(), { content: 'Location', messageType: 'location' })
+  const liveId = await insertMessage(db, new Date().toISOString(), { content: 'Location', messageType: 'location' })
+  await db.query(
+    `insert into public.message_locations (dm_message_id, conversation_id, sender_id, latitude, longitude)
+     values ($1, $3, $4, 51.5, -0.12), ($2, $3, $4, 48.85, 2.35)`,
+    [expiredId, liveId, CONVERSATION, ALICE]
+  )
+
+  for (const reader of [ALICE, BOB]) {
+    const rows = await asRole(db, 'authenticated', reader, async tx => (
+      (await tx.query('select dm_message_id from public.message_locations')).rows
+    ))
+    assert.deepEqual(rows, [{ dm_message_id: liveId }])
+  }
+})
+
+test('edit history of an expired DM is unavailable', async () => {
+  const db = await setup()
+  const expiredId = await insertMessage(db, new Date().toISOString(), { content: 'first draft' })
+  const liveId = await insertMessage(db, new Date().toISOString(), { content: 'first draft' })
+  await db.query(`update public.dm_messages set content = 'final text', edited_at = now()`)
+  await db.query(`update public.dm_messages set expires_at = now() - interval '1 minute' where id = $1`, [expiredId])
+
+  for (const reader of [ALICE, BOB]) {
+    await assert.rejects(
+      asRole(db, 'authenticated', reader, tx => tx.query(
+        `select public.get_message_edit_history('dm', $1)`,
+        [expiredId]
+      )),
+      /Message history is unavailable/
+    )
+    const history = await asRole(db, 'authenticated', reader, async tx => (
+      (await tx.query(`select public.get_message_edit_history('dm', $1) as history`, [liveId])).rows[0].history
+    ))
+    assert.equal(history.current_content, 'final text')
+    assert.deepEqual(history.revisions.map(revision => revision.content), ['first draft'])
+  }
+})
+
+test('polls on an expired DM are hidden from headers and tallies', async () => {
+  const db = await setup()
+  const createPoll = question => asRole(db, 'authenticated', ALICE, async tx => (
+    (await tx.query(
+      `select public.create_message_poll('dm', $1, $2, array['Yes', 'No']) as poll`,
+      [CONVERSATION, question]
+    )).rows[0].poll
+  ))
+  const expiredPoll = await createPoll('Pizza?')
+  const livePoll = await createPoll('Tacos?')
+  await db.query(`update public.dm_messages set expires_at = now() - interval '1 minute' where id = $1`, [expiredPoll.message_id])
+
+  for (const reader of [ALICE, BOB]) {
+    const headers = await asRole(db, 'authenticated', reader, async tx => (
+      (await tx.query('select id from public.message_polls')).rows
+    ))
+    assert.deepEqual(headers, [{ id: livePoll.id }])
+
+    const tallies = await asRole(db, 'authenticated', reader, async tx => (
+      (await tx.query(
+        'select message_id from public.list_message_polls($1)',
+        [[expiredPoll.message_id, livePoll.message_id]]
+      )).rows
+    ))
+    assert.deepEqual(tallies, [{ message_id: livePoll.message_id }])
+  }
+
+  await assert.rejects(
+    asRole(db, 'authenticated', BOB, tx => tx.query(
+      'select public.vote_message_poll($1, $2)',
+      [expiredPoll.id, [expiredPoll.options[0].id]]
+    )),
+    /Poll is unavailable/
+  )
+})
@@ -0,0 +1,198 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import {
+  clearCatchUpCache,
+  forgetCatchUpDMConversation,
+  normalizeCatchUpSnapshot,
+  readCatchUpCache,
+  writeCatchUpCache,
+} from '../src/features/catch-up/catchUpModel'
+import {
+  formatDisappearingMessageTimer,
+  getDisappearingMessageExpiry,
+  getNextDMMessageExpiry,
+  isDMMessageExpired,
+  normalizeDisappearingMessageTimerChange,
+} from '../src/features/disappearing-messages/disappearingMessagesModel'
+import { getLatestSeenOwnMessageId } from '../src/features/group-dms/groupDMModel'
+import {
+  loadLocalOutboxEntries,
+  upsertLocalOutboxEntry,
+} from '../src/lib/localMessageOutbox'
+import type { DMMessage } from '../src/lib/supabase'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261019010000_disappearing_dm_messages.sql')
+const allowlist = JSON.parse(readFileSync(
+  path.join(process.cwd(), 'supabase/security-definer-allowlist.json'),
+  'utf8'
+)) as { unexposed_security_definers: string[] }
+
+const message = (extra: Partial<DMMessage> = {}): DMMessage => ({
+  id: 'message-1',
+  conversation_id: 'conversation-1',
+  sender_id: 'user-1',
+  content: 'hello',
+  message_type: 'text',
+  reactions: {},
+  created_at: '2026-10-19T09:00:00.000Z',
+  updated_at: '2026-10-19T09:00:00.000Z',
+  ...extra,
+})
+
+const section = (id: string, title: string, items: unknown[] = []) => ({
+  id,
+  title,
+  shown_count: items.length,
+  total_count: items.length,
+  has_more: false,
+  older_unread_exists: false,
+  items,
+})
+
+const dmItem = (conversationId: string) => ({
+  id: `dm:${conversationId}`,
+  kind: 'dm_conversation',
+  occurred_at: '2026-10-19T09:00:00.000Z',
+  actor: null,
+  title: 'Direct message',
+  preview: 'hello',
+  unread_count: 1,
+  target: { kind: 'dm_message', conversation_id: conversationId, message_id: `${conversationId}-message` },
+  activity_event_ids: [`event-${conversationId}`],
+})
+
+describe('disappearing message model', () => {
+  test('offers off, 1 hour, 1 day, and 7 days only', () => {
+    expect(formatDisappearingMessageTimer(3600)).toBe('1 hour')
+    expect(formatDisappearingMessageTimer(604800)).toBe('7 days')
+    expect(formatDisappearingMessageTimer(null)).toBe('Off')
+    expect(formatDisappearingMessageTimer(60)).toBe('Off')
+    expect(normalizeDisappearingMessageTimerChange({
+      conversation_id: 'conversation-1',
+      message_ttl_seconds: 86400,
+      message_ttl_updated_by: 'user-1',
+    })).toEqual({
+      conversationId: 'conversation-1',
+      messageTtlSeconds: 86400,
+      updatedAt: null,
+      updatedBy: 'user-1',
+    })
+    expect(normalizeDisappearingMessageTimerChange({ message_ttl_seconds: 86400 })).toBeNull()
+  })
+
+  test('stamps local messages on the same clock as the server', () => {
+    expect(getDisappearingMessageExpiry('2026-10-19T09:00:00.000Z', 3600)).toBe('2026-10-19T10:00:00.000Z')
+    expect(getDisappearingMessageExpiry('2026-10-19T09:00:00.000Z', null)).toBeNull()
+    expect(getDisappearingMessageExpiry('not a date', 3600)).toBeNull()
+  })
+
+  test('finds the next expiry, including ones that passed while the device slept', () => {
+    const now = Date.parse('2026-10-19T12:00:00.000Z')
+    const passed = message({ expires_at: '2026-10-19T11:00:00.000Z' })
+    const later = message({ id: 'message-2', expires_at: '2026-10-19T13:00:00.000Z' })
+    expect(isDMMessageExpired(passed, now)).toBe(true)
+    expect(isDMMessageExpired(later, now)).toBe(false)
+    expect(isDMMessageExpired(message(), now)).toBe(false)
+    expect(getNextDMMessageExpiry([later, passed, message(), undefined])).toBe(Date.parse('2026-10-19T11:00:00.000Z'))
+    expect(getNextDMMessageExpiry([message()])).toBeNull()
+  })
+
+  test('never shows a seen-by label on a timer notice', () => {
+    const sent = message({ read_by: ['user-1', 'user-2'] })
+    const notice = message({ id: 'notice', message_type: 'system', read_by: ['user-1', 'user-2'] })
+    expect(getLatestSeenOwnMessageId([sent, notice], 'user-1')).toBe('message-1')
+  })
+})
+
+describe('disappearing messages on this device', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    clearCatchUpCache()
+  })
+
+  test('drops failed sends from the outbox once their timer passes', () => {
+    const entry = {
+      id: 'client-1',
+      clientMessageId: 'client-1',
+      senderId: 'user-1',
+      content: 'hello',
+      messageType: 'text' as const,
+      createdAt: '2026-10-19T09:00:00.000Z',
+      failedAt: '2026-10-19T09:00:01.000Z',
+    }
+    upsertLocalOutboxEntry('dm:conversation-1', { ...entry, expiresAt: new Date(Date.now() + 60_000).toISOString() })
+    upsertLocalOutboxEntry('dm:conversation-1', {
+      ...entry,
+      id: 'client-2',
+      clientMessageId: 'client-2',
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    })
+    upsertLocalOutboxEntry('dm:conversation-1', { ...entry, id: 'client-3', clientMessageId: 'client-3' })
+
+    expect(loadLocalOutboxEntries('dm:conversation-1').map(item => item.clientMessageId)).toEqual(['client-1', 'client-3'])
+  })
+
+  test('forgets cached Catch-Up items for the conversation and marks the cache stale', () => {
+    const snapshot = normalizeCatchUpSnapshot({
+      schema_version: 1,
+      generated_at: '2026-10-19T09:00:00.000Z',
+      effective_since: '2026-10-12T09:00:00.000Z',
+      lookback_hours: 168,
+      source_linked: true,
+      ai_generated: false,
+      sections: {
+        needs_you: section('needs_you', 'Needs you'),
+        direct_messages: section('direct_messages', 'Direct messages', [dmItem('conversation-1'), dmItem('conversation-2')]),
+        general_chat: section('general_chat', 'General Chat'),
+        shadow_pin: section('shadow_pin', 'ShadowPin'),
+      },
+    })
+    writeCatchUpCache('user-1', snapshot, { scrollTop: 40, fetchedAt: 1234 })
+
+    forgetCatchUpDMConversation('conversation-1')
+
+    const cached = readCatchUpCache('user-1')
+    expect(cached.fetchedAt).toBe(0)
+    expect(cached.scrollTop).toBe(40)
+    expect(cached.snapshot?.sections.direct_messages).toMatchObject({ shownCount: 1, totalCount: 1, hasMore: false })
+    expect(cached.snapshot?.sections.direct_messages.items.map(item => item.id)).toEqual(['dm:conversation-2'])
+  })
+})
+
+describe('disappearing messages migration', () => {
+  test('stamps expiry at insert and hides expired rows from members', () => {
+    expect(migration).toContain('check (message_ttl_seconds is null or message_ttl_seconds in (3600, 86400, 604800))')
+    expect(migration).toContain('create trigger prepare_dm_message_expiry before insert or update of content on public.dm_messages')
+    expect(migration).toContain('coalesce(new.created_at, now()) + make_interval(secs => conversation_ttl)')
+    expect(migration).toContain('as restrictive for select to authenticated using (expires_at is null or expires_at > now())')
+    expect(migration).toContain("message = 'system messages are written by the server'")
+  })
+
+  test('posts one system notice per change without activity', () => {
+    expect(migration).toContain('if target_conversation.message_ttl_seconds is distinct from ttl_seconds then')
+    expect(migration).toContain("disappearing_dms_private.timer_notice(ttl_seconds), 'system', target_conversation.participants")
+    expect(migration).toContain("when (new.message_type is distinct from 'system') execute function private.create_dm_activity_event()")
+    expect(migration).toContain('select disappearing_dms_private.set_dm_message_timer_impl(target_conversation_id, ttl_seconds)')
+    expect(allowlist.unexposed_security_definers).toContain('disappearing_dms_private.set_dm_message_timer_impl(uuid,integer)')
+  })
+
+  test('keeps expired messages out of the inbox preview and unread count', () => {
+    expect(migration).toContain('and (message_row.expires_at is null or message_row.expires_at > now())')
+    expect(migration).toContain('and (unread_message_row.expires_at is null or unread_message_row.expires_at > now())')
+    expect(migration).toContain('members jsonb, message_ttl_seconds integer )')
+  })
+
+  test('purges rows and queues only the sender\'s own uploads for the service role', () => {
+    expect(migration).toContain('for update skip locked')
+    expect(migration).toContain("'/storage/v1/(?:object|render/image)/public/(chat-uploads|message-media)/(.+)$'")
+    expect(migration).toContain("split_part(matched[2], '/', 1) = expired.sender_id::text")
+    expect(migration).toContain('on conflict (bucket, object_path) do nothing')
+    expect(migration).toContain('revoke all on function public.purge_expired_dm_messages(integer) from public, anon, authenticated')
+    expect(migration).toContain('grant execute on function public.purge_expired_dm_messages(integer) to service_role')
+  })
+})
@@ -168,6 +168,29 @@ describe('DM Conversation Hub model', () => {
       .toEqual(['draft-match'])
   })
 
+  test('names the sender in group previews and searches the group title and members', () => {
+    const member = makeConversation().other_user!
+    const group = makeConversation({
+      id: 'group-1',
+      kind: 'group',
+      title: 'Weekend plans',
+      other_user: undefined,
+      members: [member],
+      last_message: makeMessage({ conversation_id: 'group-1', content: 'Saturday works' }),
+    })
+
+    expect(getDMConversationPreview({ conversation: group, currentUserId: CURRENT_USER_ID }).text)
+      .toBe('José: Saturday works')
+    expect(getDMConversationPreview({
+      conversation: { ...group, last_message: makeMessage({ sender_id: CURRENT_USER_ID }) },
+      currentUserId: CURRENT_USER_ID,
+    }).text).toBe('Latest message')
+
+    const items = buildDMConversationHubItems([group], { currentUserId: CURRENT_USER_ID })
+    expect(selectDMConversationHubItems(items, { mode: 'inbox', query: 'weekend' })).toHaveLength(1)
+    expect(selectDMConversationHubItems(items, { mode: 'inbox', query: 'night_owl' })).toHaveLength(1)
+  })
+
   test('applies and safely rolls back an optimistic preference update', () => {
     const previous = makePreference('conversation-1', { pinnedAt: null })
     const optimistic = applyOptimisticDMConversationPreference(
@@ -0,0 +1,77 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { purgeExpiredDirectMessages } from '../netlify/functions/_shared/dm-message-purge.mjs'
+
+const createAdmin = ({ queued, failingBucket = null }) => {
+  const calls = { rpc: [], removed: [], deleted: [], updated: [] }
+  const admin = {
+    rpc: async (name, args) => {
+      calls.rpc.push([name, args])
+      return { data: 3, error: null }
+    },
+    from: () => ({
+      select: () => ({
+        lt: () => ({
+          order: () => ({
+            limit: async () => ({ data: queued, error: null }),
+          }),
+        }),
+      }),
+      delete: () => ({
+        in: async (_column, ids) => {
+          calls.deleted.push(...ids)
+          return { error: null }
+        },
+      }),
+      update: values => ({
+        eq: async (_column, id) => {
+          calls.updated.push({ id, ...values })
+          return { error: null }
+        },
+      }),
+    }),
+    storage: {
+      from: bucket => ({
+        remove: async paths => {
+          if (bucket === failingBucket) return { data: null, error: { message: 'Storage unavailable' } }
+          calls.removed.push([bucket, paths])
+          return { data: [], error: null }
+        },
+      }),
+    },
+  }
+  return { admin, calls }
+}
+
+test('purges expired DMs and removes their uploads bucket by bucket', async () => {
+  const { admin, calls } = createAdmin({
+    queued: [
+      { id: 'purge-1', bucket: 'chat-uploads', object_path: 'user-1/photo.jpg', attempts: 0 },
+      { id: 'purge-2', bucket: 'message-media', object_path: 'user-1/voice.webm', attempts: 0 },
+      { id: 'purge-3', bucket: 'chat-uploads', object_path: 'user-2/file.pdf', attempts: 0 },
+    ],
+  })
+
+  const result = await purgeExpiredDirectMessages(admin, 50)
+
+  assert.deepEqual(calls.rpc, [['purge_expired_dm_messages', { batch_size: 100 }]])
+  assert.deepEqual(calls.removed, [
+    ['chat-uploads', ['user-1/photo.jpg', 'user-2/file.pdf']],
+    ['message-media', ['user-1/voice.webm']],
+  ])
+  assert.deepEqual(calls.deleted, ['purge-1', 'purge-3', 'purge-2'])
+  assert.deepEqual(result, { purgedMessages: 3, scannedObjects: 3, removedObjects: 3, failures: [] })
+})
+
+test('keeps failed removals queued with their attempt count for the next run', async () => {
+  const { admin, calls } = createAdmin({
+    queued: [{ id: 'purge-1', bucket: 'message-media', object_path: 'user-1/voice.webm', attempts: 2 }],
+    failingBucket: 'message-media',
+  })
+
+  const result = await purgeExpiredDirectMessages(admin)
+
+  assert.deepEqual(calls.deleted, [])
+  assert.deepEqual(calls.updated, [{ id: 'purge-1', attempts: 3, last_error: 'Storage unavailable' }])
+  assert.deepEqual(result.failures, [{ bucket: 'message-media', error: 'Storage unavailable' }])
+})
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict'
+import test from 'node:test'
+import { asRole, createSupabaseDatabase } from './mocks/supabase-pglite.mjs'
+
+const ALICE = '00000000-0000-4000-8000-00000000000a'
+const BOB = '00000000-0000-4000-8000-00000000000b'
+const CONVERSATION = '00000000-0000-4000-8000-0000000000c1'
+const storageUrl = (bucket, objectPath) => `https://project.supabase.co/storage/v1/object/public/${bucket}/${objectPath}`
+
+const setup = async () => {
+  const db = await createSupabaseDatabase([
+    '20261019010000_disappearing_dm_messages.sql',
+    '20261019130000_disappearing_dm_purge_grant.sql',
+  ])
+  await db.query(`insert into public.users (id, username) values ($1, 'alice'), ($2, 'bob')`, [ALICE, BOB])
+  await db.query(
+    'insert into public.dm_conversations (id, participants, message_ttl_seconds) values ($1, $2, 3600)',
+    [CONVERSATION, [ALICE, BOB]]
+  )
+  return db
+}
+
+const insertMessage = (db, { createdAt, fileUrl = null, audioUrl = null, content = 'hi' }) => db.query(
+  `insert into public.dm_messages (conversation_id, sender_id, content, file_url, audio_url, created_at)
+   values ($1, $2, $3, $4, $5, $6)
+   returning id`,
+  [CONVERSATION, ALICE, content, fileUrl, audioUrl, createdAt]
+)
+
+test('the service role purges expired DMs and queues the sender\'s uploads', async () => {
+  const db = await setup()
+  const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()
+  await insertMessage(db, { createdAt: twoHoursAgo, fileUrl: storageUrl('chat-uploads', `${ALICE}/photo.jpg`) })
+  await insertMessage(db, { createdAt: twoHoursAgo, audioUrl: storageUrl('message-media', `${ALICE}/voice.webm`) })
+  await insertMessage(db, { createdAt: twoHoursAgo, fileUrl: storageUrl('chat-uploads', `${BOB}/not-theirs.jpg`) })
+  await insertMessage(db, { createdAt: new Date().toISOString(), content: 'still here' })
+
+  const purged = await asRole(db, 'service_role', null, async tx => (
+    (await tx.query('select public.purge_expired_dm_messages(50) as purged')).rows[0].purged
+  ))
+  assert.equal(purged, 3)
+
+  const remaining = await db.query('select content from public.dm_messages')
+  assert.deepEqual(remaining.rows, [{ content: 'still here' }])
+
+  const queued = await db.query('select bucket, object_path from public.dm_message_media_purges order by bucket')
+  assert.deepEqual(queued.rows, [
+    { bucket: 'chat-uploads', object_path: `${ALICE}/photo.jpg` },
+    { bucket: 'message-media', object_path: `${ALICE}/voice.webm` },
+  ])
+})
+
+test('members cannot run the purge', async () => {
+  const db = await setup()
+
+  await assert.rejects(
+    asRole(db, 'authenticated', ALICE, tx => tx.query('select public.purge_expired_dm_messages(50)')),
+    /permission denied/
+  )
+})
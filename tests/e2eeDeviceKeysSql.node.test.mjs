@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict'
+import test from 'node:test'
+import { asRole, createSupabaseDatabase } from './mocks/supabase-pglite.mjs'
+
+const ALICE = '00000000-0000-4000-8000-00000000000a'
+const BOB = '00000000-0000-4000-8000-00000000000b'
+const publicKey = index => `${'k'.repeat(90)}${index}`
+
+const setup = async () => {
+  const db = await createSupabaseDatabase([
+    '20261019020000_e2ee_direct_messages.sql',
+    '20261019120000_e2ee_device_key_revocation.sql',
+  ])
+  await db.query(`insert into public.users (id, username) values ($1, 'alice'), ($2, 'bob')`, [ALICE, BOB])
+  return db
+}
+
+const publishKey = (db, userId, index) => asRole(db, 'authenticated', userId, async tx => (
+  (await tx.query(
+    'insert into public.dm_device_keys (user_id, public_key) values ($1, $2) returning id',
+    [userId, publicKey(index)]
+  )).rows[0].id
+))
+
+test('members revoke their own device key and it stays readable for verifying history', async () => {
+  const db = await setup()
+  const keyId = await publishKey(db, ALICE, 1)
+
+  const revoked = await asRole(db, 'authenticated', ALICE, async tx => (
+    (await tx.query('select public.revoke_dm_device_key($1) as result', [keyId])).rows[0].result
+  ))
+  assert.equal(revoked.id, keyId)
+  assert.ok(revoked.revoked_at)
+
+  for (const reader of [ALICE, BOB]) {
+    const rows = await asRole(db, 'authenticated', reader, async tx => (
+      (await tx.query('select id, public_key, revoked_at from public.dm_device_keys')).rows
+    ))
+    assert.equal(rows.length, 1)
+    assert.equal(rows[0].public_key, publicKey(1))
+    assert.ok(rows[0].revoked_at)
+  }
+})
+
+test('revoking frees a slot once a member reaches the device limit', async () => {
+  const db = await setup()
+  const keyIds = []
+  for (let index = 0; index < 10; index += 1) keyIds.push(await publishKey(db, ALICE, index))
+
+  await assert.rejects(publishKey(db, ALICE, 10), /Remove an old device/)
+
+  await asRole(db, 'authenticated', ALICE, tx => tx.query('select public.revoke_dm_device_key($1)', [keyIds[0]]))
+  assert.ok(await publishKey(db, ALICE, 10))
+})
+
+test('members cannot revoke someone else\'s key or write revoked_at directly', async () => {
+  const db = await setup()
+  const keyId = await publishKey(db, ALICE, 1)
+
+  await assert.rejects(
+    asRole(db, 'authenticated', BOB, tx => tx.query('select public.revoke_dm_device_key($1)', [keyId])),
+    /Device is unavailable/
+  )
+  await assert.rejects(
+    asRole(db, 'authenticated', ALICE, tx => tx.query(
+      'update public.dm_device_keys set revoked_at = now() where id = $1',
+      [keyId]
+    )),
+    /permission denied/
+  )
+
+  const { rows } = await db.query('select revoked_at from public.dm_device_keys where id = $1', [keyId])
+  assert.equal(rows[0].revoked_at, null)
+})
+
+test('blocked members cannot read each other\'s keys', async () => {
+  const db = await setup()
+  await publishKey(db, ALICE, 1)
+  await db.query('insert into public.user_blocks (blocker_id, blocked_id) values ($1, $2)', [BOB, ALICE])
+
+  const rows = await asRole(db, 'authenticated', BOB, async tx => (
+    (await tx.query('select id from public.dm_device_keys')).rows
+  ))
+  assert.deepEqual(rows, [])
+})
@@ -0,0 +1,250 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { getWorkingClient } from '../src/lib/supabase'
+import { deleteStoredDeviceKey, loadStoredDeviceKey } from '../src/features/e2ee-dms/deviceKeyStore'
+import { revokeDeviceKey, sealDMMessage } from '../src/features/e2ee-dms/e2eeApi'
+import {
+  computeSafetyNumber,
+  decryptAttachment,
+  decryptDMBody,
+  encryptAttachment,
+  encryptDMBody,
+  generateDeviceKeyPair,
+  type DeviceKeyMaterial,
+} from '../src/features/e2ee-dms/e2eeCrypto'
+import {
+  applyEncryptedDMBody,
+  buildEncryptedDMBody,
+  formatSafetyNumber,
+  getEncryptedDMRowType,
+  normalizeEncryptedDMBody,
+  normalizeEncryptedDMPayload,
+} from '../src/features/e2ee-dms/e2eeModel'
+import type { DMMessage } from '../src/lib/supabase'
+
+jest.mock('../src/lib/supabase', () => ({ getWorkingClient: jest.fn(), uploadEncryptedChatAttachment: jest.fn() }))
+jest.mock('../src/features/e2ee-dms/deviceKeyStore', () => ({
+  deleteStoredDeviceKey: jest.fn(),
+  loadStoredDeviceKey: jest.fn(),
+  saveStoredDeviceKey: jest.fn(),
+}))
+
+const workingClient = getWorkingClient as jest.MockedFunction<typeof getWorkingClient>
+const storedDeviceKey = loadStoredDeviceKey as jest.MockedFunction<typeof loadStoredDeviceKey>
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261019020000_e2ee_direct_messages.sql')
+const revocationMigration = compact('supabase/migrations/20261019120000_e2ee_device_key_revocation.sql')
+const deliverV2 = compact('supabase/functions/deliver-notifications-v2/index.ts')
+const sendPush = compact('supabase/functions/send-push/index.ts')
+const allowlist = JSON.parse(readFileSync(
+  path.join(process.cwd(), 'supabase/security-definer-allowlist.json'),
+  'utf8'
+)) as { unexposed_security_definers: string[] }
+
+const device = async (id: string): Promise<DeviceKeyMaterial> => ({ id, ...await generateDeviceKeyPair() })
+
+const message = (extra: Partial<DMMessage> = {}): DMMessage => ({
+  id: 'message-1',
+  conversation_id: 'conversation-1',
+  sender_id: 'user-1',
+  content: 'Encrypted message',
+  message_type: 'file',
+  file_url: 'https://cdn.example.com/ciphertext.bin',
+  reactions: {},
+  created_at: '2026-10-19T09:00:00.000Z',
+  updated_at: '2026-10-19T09:00:00.000Z',
+  ...extra,
+})
+
+describe('encrypted DM crypto', () => {
+  const context = { conversationId: 'conversation-1', senderId: 'user-1', clientMessageId: 'client-1' }
+
+  test('only listed devices can open a message, and only in its own conversation', async () => {
+    const sender = await device('device-sender')
+    const recipient = await device('device-recipient')
+    const outsider = await device('device-outsider')
+    const body = { text: 'meet at 6', type: 'text' }
+
+    const payload = await encryptDMBody(body, context, sender, [sender, recipient])
+
+    expect(Object.keys(payload.keys).sort()).toEqual(['device-recipient', 'device-sender'])
+    expect(payload.ciphertext).not.toContain('meet at 6')
+    await expect(decryptDMBody(payload, context, sender.publicKey, recipient)).resolves.toEqual(body)
+    await expect(decryptDMBody(payload, context, sender.publicKey, sender)).resolves.toEqual(body)
+    await expect(decryptDMBody(payload, context, sender.publicKey, outsider)).resolves.toBeNull()
+    await expect(decryptDMBody(payload, { ...context, conversationId: 'conversation-2' }, sender.publicKey, recipient)).resolves.toBeNull()
+  })
+
+  test('cannot be replayed as another sender or another message', async () => {
+    const sender = await device('device-sender')
+    const recipient = await device('device-recipient')
+    const payload = await encryptDMBody({ text: 'hi', type: 'text' }, context, sender, [recipient])
+
+    await expect(decryptDMBody(payload, { ...context, senderId: 'user-2' }, sender.publicKey, recipient)).resolves.toBeNull()
+    await expect(decryptDMBody(payload, { ...context, clientMessageId: 'client-2' }, sender.publicKey, recipient)).resolves.toBeNull()
+  })
+
+  test('only opens payloads with the registered sender key, not the one they carry', async () => {
+    const registered = await device('device-sender')
+    const impostor = await device('device-sender')
+    const recipient = await device('device-recipient')
+    const forged = await encryptDMBody({ text: 'send me the code', type: 'text' }, context, impostor, [recipient])
+
+    await expect(decryptDMBody(forged, context, registered.publicKey, recipient)).resolves.toBeNull()
+    await expect(decryptDMBody(
+      { ...forged, sender_public_key: registered.publicKey },
+      context,
+      registered.publicKey,
+      recipient
+    )).resolves.toBeNull()
+  })
+
+  test('always seals a copy for the sending device', async () => {
+    const sender = await device('device-sender')
+    const recipient = await device('device-recipient')
+
+    const payload = await encryptDMBody({ text: 'hi', type: 'text' }, context, sender, [recipient])
+
+    expect(Object.keys(payload.keys).sort()).toEqual(['device-recipient', 'device-sender'])
+  })
+
+  test('round-trips attachments with their own key', async () => {
+    const sealed = await encryptAttachment(new Blob(['voice note bytes'], { type: 'audio/webm' }))
+    const opened = await decryptAttachment(await sealed.ciphertext.arrayBuffer(), sealed.key, sealed.iv, 'audio/webm')
+
+    expect(await sealed.ciphertext.text()).not.toContain('voice note bytes')
+    expect(opened.type).toBe('audio/webm')
+    expect(await opened.text()).toBe('voice note bytes')
+  })
+
+  test('gives both members the same safety number until a device changes', async () => {
+    const alice = { userId: 'user-a', publicKeys: ['key-a1', 'key-a2'] }
+    const bob = { userId: 'user-b', publicKeys: ['key-b1'] }
+
+    const fromAlice = await computeSafetyNumber(alice, bob)
+    const fromBob = await computeSafetyNumber(bob, { ...alice, publicKeys: ['key-a2', 'key-a1'] })
+
+    expect(fromAlice).toMatch(/^\d{60}$/)
+    expect(fromBob).toBe(fromAlice)
+    expect(formatSafetyNumber(fromAlice)).toHaveLength(12)
+    await expect(computeSafetyNumber(alice, { ...bob, publicKeys: ['key-b1', 'key-b2'] })).resolves.not.toBe(fromAlice)
+  })
+})
+
+describe('encrypted DM model', () => {
+  test('rejects payloads and bodies that are malformed or point at non-https links', () => {
+    expect(normalizeEncryptedDMPayload({ v: 2, sender_key_id: 'a', sender_public_key: 'b', iv: 'c', ciphertext: 'd', keys: {} })).toBeNull()
+    expect(normalizeEncryptedDMPayload({ v: 1, sender_key_id: 'a', sender_public_key: 'b', iv: 'c', ciphertext: 'd', keys: { x: 1 } })).toBeNull()
+    expect(normalizeEncryptedDMBody({ text: '', type: 'image', url: 'javascript:alert(1)' })).toBeNull()
+    expect(normalizeEncryptedDMBody({ text: 'hi', type: 'poll' })).toBeNull()
+  })
+
+  test('maps composer sends onto sealed bodies and server row types', () => {
+    const attachment = { key: 'key', iv: 'iv', mimeType: 'image/jpeg' }
+    const image = buildEncryptedDMBody('', 'image', 'https://cdn.example.com/ciphertext.bin', attachment)
+    const voice = buildEncryptedDMBody('https://cdn.example.com/voice.bin', 'audio', undefined, attachment)
+    const gif = buildEncryptedDMBody('', 'image', 'https://media.example.com/cat.gif')
+
+    expect(getEncryptedDMRowType(image)).toBe('file')
+    expect(voice).toMatchObject({ text: '', type: 'audio', url: 'https://cdn.example.com/voice.bin' })
+    expect(getEncryptedDMRowType(gif)).toBe('text')
+    expect(buildEncryptedDMBody('hello', 'poll')).toEqual({ text: 'hello', type: 'text' })
+  })
+
+  test('renders decrypted attachments from the local object URL', () => {
+    const body = buildEncryptedDMBody('', 'audio', undefined, { key: 'key', iv: 'iv', mimeType: 'audio/webm' })
+    const voice = applyEncryptedDMBody(message(), { ...body, url: 'https://cdn.example.com/voice.bin' }, 'blob:local-voice')
+
+    expect(voice).toMatchObject({ content: '', message_type: 'audio', audio_url: 'blob:local-voice', file_url: undefined })
+  })
+})
+
+describe('encrypted DM device keys', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  test('revokes through the RPC and forgets this device when it was the one removed', async () => {
+    const rpc = jest.fn().mockResolvedValue({ data: { id: 'device-1', revoked_at: '2026-10-19T09:00:00Z' }, error: null })
+    workingClient.mockResolvedValue({ rpc } as never)
+    storedDeviceKey.mockResolvedValue({ userId: 'user-1', id: 'device-1' } as never)
+
+    await revokeDeviceKey('user-1', 'device-1')
+
+    expect(rpc).toHaveBeenCalledWith('revoke_dm_device_key', { target_device_key_id: 'device-1' })
+    expect(deleteStoredDeviceKey).toHaveBeenCalledWith('user-1')
+  })
+
+  test('surfaces a failed revoke and keeps the stored key', async () => {
+    workingClient.mockResolvedValue({ rpc: jest.fn().mockResolvedValue({ data: null, error: new Error('Device is unavailable') }) } as never)
+
+    await expect(revokeDeviceKey('user-1', 'device-1')).rejects.toThrow('Device is unavailable')
+    expect(deleteStoredDeviceKey).not.toHaveBeenCalled()
+  })
+
+  test('never seals a message for a revoked device', async () => {
+    const sender = await device('device-sender')
+    const active = await device('device-active')
+    const revoked = await device('device-revoked')
+    const rows = [
+      { id: active.id, user_id: 'user-2', public_key: active.publicKey, created_at: '2026-10-19T08:00:00Z', revoked_at: null },
+      { id: revoked.id, user_id: 'user-2', public_key: revoked.publicKey, created_at: '2026-10-19T07:00:00Z', revoked_at: '2026-10-19T08:30:00Z' },
+    ]
+    const order = jest.fn().mockResolvedValue({ data: rows, error: null })
+    workingClient.mockResolvedValue({ from: () => ({ select: () => ({ in: () => ({ order }) }) }) } as never)
+
+    const payload = await sealDMMessage(
+      { conversationId: 'conversation-1', senderId: 'user-1', clientMessageId: 'client-1' },
+      ['user-1', 'user-2'],
+      sender,
+      { text: 'hi', type: 'text' }
+    )
+
+    expect(Object.keys(payload.keys).sort()).toEqual(['device-active', 'device-sender'])
+  })
+})
+
+describe('encrypted DMs migration', () => {
+  test('stores only the public half of device keys behind member policies', () => {
+    expect(migration).toContain('create table public.dm_device_keys (')
+    expect(migration).toContain('alter table public.dm_device_keys enable row level security')
+    expect(migration).toContain('grant update (revoked_at) on table public.dm_device_keys to authenticated')
+    expect(migration).toContain('remove an old device before setting up encryption on another one')
+  })
+
+  test('forces the placeholder and closes paths that need plaintext', () => {
+    expect(migration).toContain("new.content := 'encrypted message'")
+    expect(migration).toContain('encrypted messages cannot be edited')
+    expect(migration).toContain('scheduled messages are not available in end-to-end encrypted conversations')
+    expect(migration).toContain('and messages.encrypted_payload is null')
+  })
+
+  test('revokes device keys through an unexposed definer and keeps revoked keys readable', () => {
+    expect(allowlist.unexposed_security_definers).toContain('e2ee_dms_private.revoke_dm_device_key_impl(uuid)')
+    expect(revocationMigration).toContain('revoke update (revoked_at) on table public.dm_device_keys from authenticated')
+    expect(revocationMigration).toContain('create policy "members read device keys"')
+    expect(revocationMigration).not.toContain('revoked_at is null')
+  })
+
+  test('turns encryption on through an unexposed definer', () => {
+    expect(allowlist.unexposed_security_definers).toContain('e2ee_dms_private.enable_dm_encryption_impl(uuid)')
+    expect(migration).toContain('revoke all on function e2ee_dms_private.enable_dm_encryption_impl(uuid)')
+    expect(migration).toContain('e2ee_enabled_at timestamptz')
+  })
+})
+
+describe('encrypted DM notifications', () => {
+  test('always use the private preview and skip quick replies', () => {
+    expect(deliverV2).toContain("const previewmode: notificationpreviewmode = conversationencrypted ? 'private'")
+    expect(deliverV2).toContain('!conversationencrypted && event.type === \'dm_message\'')
+    expect(sendPush).toContain("'id, participants, kind, title, e2ee_enabled_at'")
+    expect(sendPush).toContain("'new encrypted message'")
+    expect(sendPush).toContain('...(isencrypted ? {} : await getdmquickactiondata(quickactionclaims, subscription))')
+  })
+})
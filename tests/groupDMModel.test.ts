@@ -0,0 +1,88 @@
+import type { DMConversation, DMMessage, User } from '../src/lib/supabase'
+import {
+  formatGroupDMMemberSummary,
+  formatSeenByLabel,
+  getDMConversationTitle,
+  getDMMessageSeenBy,
+  getGroupDMHiddenMemberCount,
+  getLatestSeenOwnMessageId,
+  validateGroupDMDraft,
+} from '../src/features/group-dms/groupDMModel'
+
+const makeUser = (id: string, displayName: string): User => ({
+  id,
+  username: displayName.toLowerCase().replace(/\s+/g, '_'),
+  display_name: displayName,
+  color: '#c99b3f',
+  status: 'offline',
+  status_message: '',
+  last_active: '2026-10-18T12:00:00.000Z',
+  created_at: '2026-10-01T12:00:00.000Z',
+  updated_at: '2026-10-01T12:00:00.000Z',
+})
+
+const me = makeUser('user-me', 'Me Myself')
+const ana = makeUser('user-ana', 'Ana Lopez')
+const ben = makeUser('user-ben', 'Ben Ode')
+const cy = makeUser('user-cy', 'Cy Park')
+
+const makeGroup = (overrides: Partial<DMConversation> = {}): DMConversation => ({
+  id: 'group-1',
+  kind: 'group',
+  title: 'Weekend plans',
+  participants: [me.id, ana.id, ben.id, cy.id],
+  members: [me, ana, ben, cy],
+  created_by: me.id,
+  last_message_at: '2026-10-18T12:00:00.000Z',
+  created_at: '2026-10-18T11:00:00.000Z',
+  ...overrides,
+})
+
+const makeMessage = (id: string, overrides: Partial<DMMessage> = {}): DMMessage => ({
+  id,
+  conversation_id: 'group-1',
+  sender_id: me.id,
+  content: 'Hello',
+  message_type: 'text',
+  reactions: {},
+  created_at: '2026-10-18T12:00:00.000Z',
+  updated_at: '2026-10-18T12:00:00.000Z',
+  ...overrides,
+})
+
+describe('group DM model', () => {
+  test('mirrors the server size and title rules for new groups', () => {
+    expect(validateGroupDMDraft({ title: '   ', memberIds: [ana.id, ben.id] })).toBe('Give the group a name.')
+    expect(validateGroupDMDraft({ title: 'Plans', memberIds: [ana.id, ana.id] })).toBe('Add at least 2 people.')
+    expect(validateGroupDMDraft({
+      title: 'Plans',
+      memberIds: Array.from({ length: 20 }, (_, index) => `user-${index}`),
+    })).toBe('Groups can have up to 20 members including you.')
+    expect(validateGroupDMDraft({ title: 'Plans', memberIds: [ana.id, ben.id] })).toBeNull()
+  })
+
+  test('titles groups by name or member first names and counts hidden members', () => {
+    expect(getDMConversationTitle(makeGroup(), me.id)).toBe('Weekend plans')
+    expect(getDMConversationTitle(makeGroup({ title: null }), me.id)).toBe('Ana, Ben, Cy')
+    expect(formatGroupDMMemberSummary(makeGroup(), me.id)).toBe('You, Ana, Ben, Cy')
+
+    const blockedView = makeGroup({ members: [me, ana] })
+    expect(getGroupDMHiddenMemberCount(blockedView)).toBe(2)
+    expect(formatGroupDMMemberSummary(blockedView, me.id)).toBe('You, Ana and 2 others')
+  })
+
+  test('builds the seen-by line from per-member read receipts', () => {
+    const messages = [
+      makeMessage('m1', { read_by: [ana.id, ben.id, cy.id] }),
+      makeMessage('m2', { read_by: [ana.id] }),
+      makeMessage('m3', { delivery_status: 'sending' }),
+      makeMessage('m4', { sender_id: ana.id, read_by: [me.id] }),
+    ]
+    expect(getLatestSeenOwnMessageId(messages, me.id)).toBe('m2')
+
+    const others = [ana, ben, cy]
+    expect(formatSeenByLabel(getDMMessageSeenBy(messages[1], others), 3)).toBe('Seen by Ana')
+    expect(formatSeenByLabel(getDMMessageSeenBy(messages[0], others), 3)).toBe('Seen by everyone')
+    expect(formatSeenByLabel([ana, ben, cy, me], 5)).toBe('Seen by Ana, Ben and 2 others')
+  })
+})
@@ -0,0 +1,61 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const migration = readFileSync(
+  path.join(process.cwd(), 'supabase/migrations/20261018170000_group_direct_messages.sql'),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const allowlist = JSON.parse(readFileSync(
+  path.join(process.cwd(), 'supabase/security-definer-allowlist.json'),
+  'utf8'
+)) as { unexposed_security_definers: string[] }
+
+describe('group direct messages migration', () => {
+  test('keeps the canonical pair for direct threads and bounds groups at 20 members', () => {
+    expect(migration).toContain("add constraint dm_conversations_kind_check check (kind in ('direct', 'group'))")
+    expect(migration).toContain('cardinality(participants) = 2 and participants[1] is not null')
+    expect(migration).toContain('cardinality(participants) between 1 and 20')
+    expect(migration).toContain("create unique index dm_conversations_participants_pair_key on public.dm_conversations (participants) where kind = 'direct'")
+    expect(migration).toContain("on conflict (participants) where kind = 'direct' do nothing")
+  })
+
+  test('applies personal blocks per member inside a group', () => {
+    expect(migration).toContain("and conversations.kind = 'direct' and participant_id <> (select auth.uid())")
+    expect(migration).toContain("if conversation_kind = 'group' then return new; end if;")
+    expect(migration).toContain('select conversations.kind, conversations.participants, messages.sender_id into conversation_kind, conversation_participants, target_user_id')
+    expect(migration).toContain("message = 'messaging is unavailable for one of these members'")
+    expect(migration).toContain('and recipient_id <> new.sender_id and not private.users_have_block(new.sender_id, recipient_id)')
+  })
+
+  test('hides blocked members from inbox previews, unread counts, and member lists', () => {
+    expect(migration).toContain('or not private.users_have_block(caller_user_id, message_row.sender_id)')
+    expect(migration).toContain('and not private.users_have_block(caller_user_id, unread_message_row.sender_id)')
+    expect(migration).toContain('or not private.users_have_block(caller_user_id, member_row.id)')
+    expect(migration).toContain('grant execute on function public.get_dm_conversations() to authenticated')
+  })
+
+  test('limits membership changes to members, removal to the owner, and sizes to 3-20', () => {
+    expect(migration).toContain("and conversations.kind = 'group' and caller_id = any (conversations.participants) for update")
+    expect(migration).toContain("message = 'only the group owner can remove members'")
+    expect(migration).toContain('if cardinality(new_member_ids) + 1 not between 3 and 20 then')
+    expect(migration).toContain('then remaining_member_ids[1]')
+    expect(migration).toContain("strpos(normalized_url, concat('/storage/v1/object/public/avatars/', caller_id, '/')) = 0")
+  })
+
+  test('exposes invoker wrappers over allowlisted private definers', () => {
+    for (const name of [
+      'create_group_dm_conversation',
+      'update_group_dm_conversation',
+      'add_group_dm_members',
+      'remove_group_dm_member',
+      'leave_group_dm_conversation',
+    ]) {
+      expect(migration).toContain(`create function public.${name}(`)
+      expect(migration).toContain(`group_dms_private.${name}_impl(`)
+      expect(allowlist.unexposed_security_definers.some(signature => (
+        signature.startsWith(`group_dms_private.${name}_impl(`)
+      ))).toBe(true)
+    }
+  })
+})
@@ -0,0 +1,95 @@
+import {
+  applyImageEditorAdjustments,
+  canEditImageFile,
+  createInitialImageEditorState,
+  findImageEditorItemAt,
+  getEditedImageFileName,
+  getEditedImageOutputType,
+  getImageEditorCropRect,
+  getImageEditorOutputSize,
+  getStraightenCoverScale,
+  imageEditorReducer,
+  isImageEditorPristine,
+  panImageEditorCrop,
+  type ImageEditorAction,
+} from '../src/features/image-editor/imageEditorModel'
+
+const apply = (...actions: ImageEditorAction[]) => actions.reduce(imageEditorReducer, createInitialImageEditorState())
+
+describe('image editor model', () => {
+  test('only opens still raster images', () => {
+    expect(canEditImageFile({ type: 'image/jpeg' })).toBe(true)
+    expect(canEditImageFile({ type: 'image/png' })).toBe(true)
+    expect(canEditImageFile({ type: 'image/gif' })).toBe(false)
+    expect(canEditImageFile({ type: 'image/svg+xml' })).toBe(false)
+    expect(canEditImageFile({ type: 'video/mp4' })).toBe(false)
+  })
+
+  test('crops to a preset aspect inside the rotated image and clamps the pan', () => {
+    const square = apply({ type: 'set-aspect', aspect: '1:1' })
+    expect(getImageEditorCropRect(4000, 3000, square)).toEqual({ x: 500, y: 0, width: 3000, height: 3000 })
+
+    const rotated = apply({ type: 'set-aspect', aspect: '16:9' }, { type: 'rotate', direction: 1 })
+    expect(getImageEditorCropRect(4000, 3000, rotated)).toEqual({ x: 0, y: 1156.25, width: 3000, height: 1687.5 })
+
+    const zoomed = apply({ type: 'set-aspect', aspect: '1:1' }, { type: 'set-zoom', zoom: 2 }, { type: 'set-crop-center', centerX: 1, centerY: 0 })
+    expect(getImageEditorCropRect(4000, 3000, zoomed)).toEqual({ x: 2500, y: 0, width: 1500, height: 1500 })
+    expect(getImageEditorOutputSize({ width: 3000, height: 1687.5 }, 1600)).toEqual({ width: 1600, height: 900 })
+  })
+
+  test('pans from the clamped crop so dragging past an edge does not bank offset', () => {
+    const state = apply({ type: 'set-aspect', aspect: '1:1' }, { type: 'set-zoom', zoom: 2 }, { type: 'set-crop-center', centerX: 1, centerY: 0.5 })
+    const next = panImageEditorCrop(4000, 3000, state, 0.5, 0)
+
+    expect(next.centerX).toBeCloseTo((2500 + 750 - 750) / 4000)
+    expect(next.centerY).toBeCloseTo(0.5)
+  })
+
+  test('grows straightened images enough to cover the frame', () => {
+    expect(getStraightenCoverScale(1000, 1000, 0)).toBe(1)
+    expect(getStraightenCoverScale(1000, 1000, 10)).toBeCloseTo(Math.cos(Math.PI / 18) + Math.sin(Math.PI / 18))
+    expect(apply({ type: 'set-straighten', degrees: 40 }).straighten).toBe(15)
+  })
+
+  test('adds, selects, moves, and removes overlays and blur regions', () => {
+    const state = apply(
+      { type: 'add-text', text: '  Hello  ', color: '#ffffff' },
+      { type: 'add-sticker', emoji: '🔥' },
+      { type: 'add-blur' },
+      { type: 'move-item', id: 'edit-3', x: 0.2, y: 1.4 },
+      { type: 'update-overlay', id: 'edit-2', patch: { size: 2 } },
+    )
+
+    expect(state.overlays.map(overlay => [overlay.kind, overlay.content])).toEqual([['text', 'Hello'], ['sticker', '🔥']])
+    expect(state.overlays[1].size).toBe(0.4)
+    expect(state.blurRegions[0]).toMatchObject({ id: 'edit-3', x: 0.2, y: 1 })
+    expect(state.selectedId).toBe('edit-3')
+    expect(findImageEditorItemAt(state, 0.5, 0.5, 1)).toBe('edit-2')
+    expect(findImageEditorItemAt(state, 0.2, 0.95, 1)).toBe('edit-3')
+    expect(findImageEditorItemAt(state, 0.95, 0.05, 1)).toBeNull()
+
+    const removed = imageEditorReducer(state, { type: 'remove-item', id: 'edit-3' })
+    expect(removed.blurRegions).toEqual([])
+    expect(removed.selectedId).toBeNull()
+    expect(apply({ type: 'add-text', text: '   ', color: '#ffffff' }).overlays).toEqual([])
+  })
+
+  test('treats any edit as a change and reset as pristine', () => {
+    expect(isImageEditorPristine(createInitialImageEditorState())).toBe(true)
+    expect(isImageEditorPristine(apply({ type: 'set-adjustment', key: 'contrast', value: 120 }))).toBe(false)
+    expect(isImageEditorPristine(apply({ type: 'rotate', direction: -1 }, { type: 'reset' }))).toBe(true)
+  })
+
+  test('applies brightness then contrast like the CSS filters', () => {
+    const pixels = new Uint8ClampedArray([100, 200, 50, 255])
+    applyImageEditorAdjustments(pixels, 120, 150)
+
+    expect(Array.from(pixels)).toEqual([116, 255, 26, 255])
+  })
+
+  test('names flattened files by the type they are saved as', () => {
+    expect(getEditedImageOutputType({ type: 'image/png' })).toBe('image/png')
+    expect(getEditedImageOutputType({ type: 'image/webp' })).toBe('image/jpeg')
+    expect(getEditedImageFileName({ name: 'My photo (1).webp' }, 'image/jpeg')).toBe('My-photo-1-edited.jpg')
+  })
+})
@@ -0,0 +1,101 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import {
+  findKeywordAlertMatch,
+  getKeywordAlertPhraseError,
+  normalizeKeywordAlertPhrase,
+} from '../src/features/keyword-alerts/keywordAlertsModel'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261018210000_keyword_alerts.sql')
+const wildcardMigration = compact('supabase/migrations/20261019070000_keyword_alert_wildcard_limit.sql')
+const sendPush = compact('supabase/functions/send-push/index.ts')
+const deliverV2 = compact('supabase/functions/deliver-notifications-v2/index.ts')
+
+describe('keyword alert matching', () => {
+  test('normalizes phrases and rejects alerts that would match almost anything', () => {
+    expect(normalizeKeywordAlertPhrase('  Launch \n  DAY ')).toBe('launch day')
+    expect(getKeywordAlertPhraseError('a')).toBe('Use at least 2 letters or numbers.')
+    expect(getKeywordAlertPhraseError('a*')).toBe('Use at least 2 letters or numbers.')
+    expect(getKeywordAlertPhraseError('x'.repeat(81))).toBe('Keep keyword alerts to 80 characters or fewer.')
+    expect(getKeywordAlertPhraseError('release')).toBeNull()
+  })
+
+  test('matches whole words and phrases without caring about case or spacing', () => {
+    expect(findKeywordAlertMatch('Who is coming to the Launch\nDay party?', ['launch day'])).toBe('launch day')
+    expect(findKeywordAlertMatch('The relaunch is tomorrow', ['launch'])).toBeNull()
+    expect(findKeywordAlertMatch('Launches are fun', ['launch'])).toBeNull()
+    expect(findKeywordAlertMatch('Café au lait?', ['café'])).toBe('café')
+  })
+
+  test('treats * as the rest of a word and escapes everything else', () => {
+    expect(findKeywordAlertMatch('We are deploying now', ['deploy*'])).toBe('deploy*')
+    expect(findKeywordAlertMatch('redeploying', ['deploy*'])).toBeNull()
+    expect(findKeywordAlertMatch('Anyone know c++?', ['c++'])).toBe('c++')
+    expect(findKeywordAlertMatch('cool', ['c.ol'])).toBeNull()
+  })
+
+  test('allows only a trailing * per word so matching cannot backtrack exponentially', () => {
+    expect(getKeywordAlertPhraseError('a*a*a*a*a*a*a*a*b')).toBe('Use * only once, at the end of a word.')
+    expect(getKeywordAlertPhraseError('de*ploy')).toBe('Use * only once, at the end of a word.')
+    expect(getKeywordAlertPhraseError('deploy**')).toBe('Use * only once, at the end of a word.')
+    expect(getKeywordAlertPhraseError('ship* it* now*')).toBeNull()
+    expect(findKeywordAlertMatch('a'.repeat(60), ['a*a*a*a*a*a*a*a*b'])).toBeNull()
+
+    const startedAt = Date.now()
+    expect(findKeywordAlertMatch(`${'aa '.repeat(40)}b`, ['a* a* a* a* a* a* a* a* a* a* c*'])).toBeNull()
+    expect(findKeywordAlertMatch('shipping it now', ['ship* it* now*'])).toBe('ship* it* now*')
+    expect(Date.now() - startedAt).toBeLessThan(500)
+  })
+
+  test('returns the first matching phrase in list order', () => {
+    expect(findKeywordAlertMatch('pizza and tacos tonight', ['tacos', 'pizza'])).toBe('tacos')
+    expect(findKeywordAlertMatch('', ['tacos'])).toBeNull()
+    expect(findKeywordAlertMatch('tacos', [])).toBeNull()
+  })
+})
+
+describe('keyword alerts migration', () => {
+  test('stores a bounded, private, case-insensitively unique list', () => {
+    expect(migration).toContain('create table if not exists public.notification_keyword_alerts')
+    expect(migration).toContain('char_length(phrase) between 2 and 80')
+    expect(wildcardMigration).toContain("and phrase !~ '\\*[^[:space:]]'")
+    expect(migration).toContain('on public.notification_keyword_alerts (user_id, lower(phrase))')
+    expect(migration).toContain(') >= 25 then raise exception \'you can have up to 25 keyword alerts\'')
+    expect(migration).toContain('alter table public.notification_keyword_alerts enable row level security')
+    expect(migration).toContain('grant select on table public.notification_keyword_alerts to service_role')
+    expect(migration).toContain('add column if not exists keyword_alerts_enabled boolean not null default true')
+  })
+
+  test('presents keyword alerts like mentions without a new security definer', () => {
+    expect(migration).toContain("when target_type in ('mention', 'reply', 'keyword_alert') then 'mentions_replies'")
+    expect(migration).toContain("when target_type in ('mention', 'reply', 'keyword_alert') then 'gold_signal'")
+    expect(migration).toContain("when target_type in ('mention', 'reply', 'keyword_alert') then 'mentions_v1'")
+    expect(migration).toContain("'keyword_alert'")
+    expect(migration).not.toContain('security definer')
+  })
+
+  test('queues web recovery only while keyword alerts and General Chat are on', () => {
+    expect(migration).toContain("when (new.type = 'keyword_alert') execute function private.queue_keyword_alert_delivery_job()")
+    expect(migration).toContain('and preferences.keyword_alerts_enabled and not preferences.general_chat_muted')
+    expect(migration).toContain('on conflict (notification_event_id) do nothing')
+  })
+})
+
+describe('server delivery of keyword alerts', () => {
+  test('send-push matches enabled alerts from other members for each General Chat message', () => {
+    expect(sendPush).toContain(".from('notification_keyword_alerts')")
+    expect(sendPush).toContain(".neq('user_id', authorid)")
+    expect(sendPush).toContain('keywordalertsenabled: preferences.keyword_alerts_enabled !== false')
+    expect(sendPush).toContain("category: kind === 'keyword_alert' ? 'interactions' : null")
+    expect(sendPush).toContain("if (eventtype === 'keyword_alert') return preferences.keyword_alerts_enabled !== false")
+  })
+
+  test('native delivery respects the keyword switch and General Chat mute', () => {
+    expect(deliverV2).toContain("if (eventtype === 'keyword_alert') { return preferences.keyword_alerts_enabled !== false && preferences.general_chat_muted !== true }")
+  })
+})
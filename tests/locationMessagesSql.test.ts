@@ -0,0 +1,57 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const migration = readFileSync(
+  path.join(process.cwd(), 'supabase/migrations/20261018160000_location_messages.sql'),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const blockGuards = readFileSync(
+  path.join(process.cwd(), 'supabase/migrations/20261019080000_live_location_block_guards.sql'),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const allowlist = JSON.parse(readFileSync(
+  path.join(process.cwd(), 'supabase/security-definer-allowlist.json'),
+  'utf8'
+)) as { unexposed_security_definers: string[] }
+
+describe('location messages migration', () => {
+  test('attaches one location to one DM message with bounded coordinates', () => {
+    expect(migration).toContain('dm_message_id uuid not null references public.dm_messages(id) on delete cascade')
+    expect(migration).toContain('latitude double precision not null check (latitude between -90 and 90)')
+    expect(migration).toContain('constraint message_locations_dm_message_key unique (dm_message_id)')
+  })
+
+  test('limits reads to DM participants and publishes moves to realtime', () => {
+    expect(migration).toContain('and (select auth.uid()) = any (conversations.participants)')
+    expect(migration).toContain('grant select on table public.message_locations to authenticated')
+    expect(migration).not.toMatch(/grant (insert|update|delete)[^;]* on table public.message_locations to authenticated/)
+    expect(migration).toContain('alter publication supabase_realtime add table public.message_locations')
+  })
+
+  test('only lets the sender move an active share, and caps its duration', () => {
+    expect(migration).toContain('and locations.sender_id = caller_id and locations.live_until > now() and locations.stopped_at is null')
+    expect(migration).toContain('target_live_minutes not between 1 and 480')
+    expect(migration).toContain("public.is_user_channel_banned(caller_id, 'all_interaction')")
+  })
+
+  test('exposes invoker wrappers over allowlisted private definers', () => {
+    for (const name of ['create_location_message', 'update_live_location', 'stop_live_location']) {
+      expect(migration).toContain(`create function public.${name}(`)
+      expect(migration).toContain(`message_locations_private.${name}_impl(`)
+      expect(allowlist.unexposed_security_definers.some(signature => (
+        signature.startsWith(`message_locations_private.${name}_impl(`)
+      ))).toBe(true)
+    }
+  })
+
+  test('stops live updates across a block and hides running shares from blocked viewers', () => {
+    expect(blockGuards).toContain('create or replace function message_locations_private.update_live_location_impl(')
+    expect(blockGuards).toContain('and participants.participant_id <> caller_id and private.users_have_block(caller_id, participants.participant_id)')
+    expect(blockGuards).toContain('set stopped_at = least(now(), locations.live_until)')
+    expect(blockGuards).toContain('drop policy if exists "participants can read shared locations" on public.message_locations')
+    expect(blockGuards).toContain('or message_locations.stopped_at is not null')
+    expect(blockGuards).toContain('or not private.users_have_block((select auth.uid()), message_locations.sender_id)')
+  })
+})
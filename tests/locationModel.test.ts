@@ -0,0 +1,114 @@
+import {
+  formatLiveLocationRemaining,
+  getDistanceMeters,
+  getLiveLocationStatus,
+  getStaticMapLayout,
+  normalizeMessageLocation,
+  shouldSendLiveLocationUpdate,
+  weatherLocationToDraft,
+  type MessageLocation,
+} from '../src/features/location-sharing/locationModel'
+
+const NOW = Date.parse('2026-10-18T15:00:00.000Z')
+
+const location = (overrides: Partial<MessageLocation> = {}): MessageLocation => ({
+  id: 'location-1',
+  messageId: 'message-1',
+  conversationId: 'conversation-1',
+  senderId: 'user-ana',
+  label: null,
+  latitude: 40.7128,
+  longitude: -74.006,
+  accuracyMeters: null,
+  liveUntil: null,
+  stoppedAt: null,
+  revision: 0,
+  createdAt: '2026-10-18T14:00:00.000Z',
+  updatedAt: '2026-10-18T14:00:00.000Z',
+  ...overrides,
+})
+
+describe('location model', () => {
+  test('normalizes RPC payloads and realtime table rows', () => {
+    const row = {
+      id: 'location-1',
+      dm_message_id: 'message-1',
+      conversation_id: 'conversation-1',
+      sender_id: 'user-ana',
+      label: ' Cafe ',
+      latitude: 40.7128,
+      longitude: '-74.006',
+      accuracy_meters: 12,
+      live_until: '2026-10-18T16:00:00.000Z',
+      stopped_at: null,
+      location_revision: 3,
+    }
+    expect(normalizeMessageLocation(row)).toMatchObject({
+      messageId: 'message-1',
+      label: 'Cafe',
+      longitude: -74.006,
+      accuracyMeters: 12,
+      revision: 3,
+    })
+    expect(normalizeMessageLocation({ ...row, latitude: null })).toBeNull()
+  })
+
+  test('reports live shares until they expire or are stopped', () => {
+    expect(getLiveLocationStatus(location(), NOW)).toBe('static')
+    expect(getLiveLocationStatus(location({ liveUntil: '2026-10-18T15:30:00.000Z' }), NOW)).toBe('live')
+    expect(getLiveLocationStatus(location({ liveUntil: '2026-10-18T14:30:00.000Z' }), NOW)).toBe('ended')
+    expect(getLiveLocationStatus(location({
+      liveUntil: '2026-10-18T15:30:00.000Z',
+      stoppedAt: '2026-10-18T14:50:00.000Z',
+    }), NOW)).toBe('ended')
+    expect(formatLiveLocationRemaining('2026-10-18T15:12:30.000Z', NOW)).toBe('13 min left')
+    expect(formatLiveLocationRemaining('2026-10-18T17:30:00.000Z', NOW)).toBe('2h 30m left')
+  })
+
+  test('covers the preview with tiles around a centered pin', () => {
+    const layout = getStaticMapLayout(0, 0, 256, 144, 1)
+    expect(layout.pin).toEqual({ left: 128, top: 72 })
+    expect(layout.tiles.map(tile => tile.url)).toEqual([
+      'https://tile.openstreetmap.org/1/0/0.png',
+      'https://tile.openstreetmap.org/1/1/0.png',
+      'https://tile.openstreetmap.org/1/0/1.png',
+      'https://tile.openstreetmap.org/1/1/1.png',
+    ])
+    expect(layout.tiles[0]).toMatchObject({ left: -128, top: -184 })
+  })
+
+  test('wraps tiles across the antimeridian', () => {
+    const urls = getStaticMapLayout(0, 179.99, 256, 144, 2).tiles.map(tile => tile.url)
+    expect(urls).toContain('https://tile.openstreetmap.org/2/0/1.png')
+    expect(urls).toContain('https://tile.openstreetmap.org/2/3/1.png')
+  })
+
+  test('throttles live updates by time and movement', () => {
+    const start = { latitude: 40.7128, longitude: -74.006, accuracyMeters: null, at: NOW }
+    const moved = { latitude: 40.7132, longitude: -74.006, accuracyMeters: null }
+
+    expect(getDistanceMeters(start, moved)).toBeGreaterThan(40)
+    expect(shouldSendLiveLocationUpdate(null, start)).toBe(true)
+    expect(shouldSendLiveLocationUpdate(start, { ...moved, at: NOW + 5_000 })).toBe(false)
+    expect(shouldSendLiveLocationUpdate(start, { ...moved, at: NOW + 15_000 })).toBe(true)
+    expect(shouldSendLiveLocationUpdate(start, { ...start, at: NOW + 30_000 })).toBe(false)
+    expect(shouldSendLiveLocationUpdate(start, { ...start, at: NOW + 60_000 })).toBe(true)
+  })
+
+  test('labels pins picked from weather search', () => {
+    expect(weatherLocationToDraft({
+      id: 5128581,
+      name: 'New York',
+      latitude: 40.71427,
+      longitude: -74.00597,
+      admin1: 'New York',
+      country: 'United States',
+    })).toEqual({
+      latitude: 40.71427,
+      longitude: -74.00597,
+      label: 'New York, United States',
+      accuracyMeters: null,
+      liveMinutes: null,
+    })
+  })
+})
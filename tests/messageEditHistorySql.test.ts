@@ -0,0 +1,44 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const migration = readFileSync(
+  path.join(process.cwd(), 'supabase/migrations/20261018140000_message_edit_history.sql'),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const allowlist = JSON.parse(readFileSync(
+  path.join(process.cwd(), 'supabase/security-definer-allowlist.json'),
+  'utf8'
+)) as { unexposed_security_definers: string[] }
+
+describe('message edit history migration', () => {
+  test('captures replaced text on every content edit for both surfaces', () => {
+    expect(migration).toContain('create trigger capture_message_revision after update of content on public.messages')
+    expect(migration).toContain('create trigger capture_dm_message_revision after update of content on public.dm_messages')
+    expect(migration).toContain('when (old.content is distinct from new.content)')
+    expect(migration).toContain("values ('general', old.id, next_revision, coalesce(old.content, '')")
+    expect(migration).toContain('message_id uuid references public.messages(id) on delete cascade')
+  })
+
+  test('keeps revisions off browser table grants', () => {
+    expect(migration).toContain('revoke all on table public.message_revisions from public, anon, authenticated, service_role')
+    expect(migration).toContain('grant select on table public.message_revisions to service_role')
+    expect(migration).not.toMatch(/grant [^;]* on table public\.message_revisions to authenticated/)
+  })
+
+  test('applies parent message visibility and moderation claim rules', () => {
+    expect(migration).toContain('not private.users_have_block(caller_id, messages.user_id)')
+    expect(migration).toContain('caller_id = any (conversations.participants)')
+    expect(migration).toContain("message = 'message history is unavailable'")
+    expect(migration).toContain('private.can_operator_access_moderation_case(caller_id, p_case_id)')
+    expect(migration).toContain("raise exception 'claim this case before opening private evidence'")
+  })
+
+  test('allowlists every private definer', () => {
+    expect(allowlist.unexposed_security_definers).toEqual(expect.arrayContaining([
+      'message_history_private.capture_message_revision()',
+      'message_history_private.get_message_edit_history_impl(text,uuid)',
+      'message_history_private.get_moderation_case_message_history_impl(uuid)',
+    ]))
+  })
+})
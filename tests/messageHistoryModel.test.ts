@@ -0,0 +1,57 @@
+import {
+  diffMessageVersions,
+  getMessageVersions,
+  getOriginalMessageText,
+  normalizeMessageEditHistory,
+} from '../src/features/message-history/messageHistoryModel'
+
+const rawHistory = {
+  surface: 'dm',
+  message_id: 'message-1',
+  current_content: 'see you at 7pm',
+  created_at: '2026-10-18T10:00:00.000Z',
+  edited_at: '2026-10-18T10:05:00.000Z',
+  revisions: [
+    { revision_number: 2, content: 'see you at 6pm', replaced_at: '2026-10-18T10:05:00.000Z' },
+    { revision_number: 1, content: 'see you at 5', replaced_at: '2026-10-18T10:01:00.000Z' },
+    { revision_number: 0, content: 'ignored' },
+  ],
+}
+
+describe('message edit history model', () => {
+  test('normalizes RPC payloads and orders revisions', () => {
+    const history = normalizeMessageEditHistory(rawHistory)
+    expect(history?.surface).toBe('dm')
+    expect(history?.revisions.map(revision => revision.revisionNumber)).toEqual([1, 2])
+    expect(history && getOriginalMessageText(history)).toBe('see you at 5')
+    expect(normalizeMessageEditHistory(null)).toBeNull()
+  })
+
+  test('builds a version timeline ending with the current text', () => {
+    const versions = getMessageVersions(normalizeMessageEditHistory(rawHistory)!)
+    expect(versions.map(version => version.label)).toEqual(['Original', 'Edit 1', 'Current'])
+    expect(versions.map(version => version.timestamp)).toEqual([
+      '2026-10-18T10:00:00.000Z',
+      '2026-10-18T10:01:00.000Z',
+      '2026-10-18T10:05:00.000Z',
+    ])
+    expect(versions[2]).toMatchObject({ content: 'see you at 7pm', isCurrent: true })
+  })
+
+  test('diffs versions word by word', () => {
+    expect(diffMessageVersions('see you at 6pm', 'see you at 7pm')).toEqual([
+      { type: 'same', text: 'see you at ' },
+      { type: 'removed', text: '6pm' },
+      { type: 'added', text: '7pm' },
+    ])
+    expect(diffMessageVersions('same', 'same')).toEqual([{ type: 'same', text: 'same' }])
+  })
+
+  test('falls back to a whole-text replacement for very long messages', () => {
+    const before = Array.from({ length: 700 }, (_, index) => `a${index}`).join(' ')
+    expect(diffMessageVersions(before, 'short')).toEqual([
+      { type: 'removed', text: before },
+      { type: 'added', text: 'short' },
+    ])
+  })
+})
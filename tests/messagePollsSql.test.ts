@@ -0,0 +1,72 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const migration = readFileSync(
+  path.join(process.cwd(), 'supabase/migrations/20261018120000_message_polls.sql'),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const dedupeMigration = readFileSync(
+  path.join(process.cwd(), 'supabase/migrations/20261019110000_message_poll_option_dedupe.sql'),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const allowlist = JSON.parse(readFileSync(
+  path.join(process.cwd(), 'supabase/security-definer-allowlist.json'),
+  'utf8'
+)) as { unexposed_security_definers: string[] }
+
+describe('message polls migration', () => {
+  test('attaches one poll to exactly one General Chat or DM message with cascade cleanup', () => {
+    expect(migration).toContain('create table public.message_polls')
+    expect(migration).toContain('message_id uuid references public.messages(id) on delete cascade')
+    expect(migration).toContain('dm_message_id uuid references public.dm_messages(id) on delete cascade')
+    expect(migration).toContain("(surface = 'general' and message_id is not null and dm_message_id is null and conversation_id is null)")
+    expect(migration).toContain('constraint message_poll_votes_pkey primary key (poll_id, option_id, voter_id)')
+    expect(migration).toContain('position smallint not null check (position between 0 and 9)')
+  })
+
+  test('keeps options and ballots server-only while publishing poll headers', () => {
+    expect(migration).toContain('revoke all on table public.message_poll_votes from public, anon, authenticated, service_role')
+    expect(migration).toContain('grant select on table public.message_polls to authenticated')
+    expect(migration).not.toContain('grant select on table public.message_poll_votes to authenticated')
+    expect(migration).toContain('and (select auth.uid()) = any (conversations.participants)')
+    expect(migration).toContain('alter publication supabase_realtime add table public.message_polls')
+  })
+
+  test('enforces channel bans, DM membership, and poll limits before posting or voting', () => {
+    expect(migration).toContain("ban_scope := case when target_surface = 'general' then 'general_chat' else 'all_interaction' end")
+    expect(migration).toContain("ban_scope := case when target_poll.surface = 'general' then 'general_chat' else 'all_interaction' end")
+    expect(migration).toContain('public.is_user_channel_banned(caller_id, ban_scope)')
+    expect(migration).toContain('public.get_channel_ban_block_message(caller_id, ban_scope)')
+    expect(migration).toContain("message = 'conversation is unavailable'")
+    expect(migration).toContain('cardinality(normalized_options) not between 2 and 10')
+    expect(migration).toContain("target_closes_at > now() + interval '30 days'")
+    expect(migration).toContain("raise exception 'this poll allows one choice'")
+    expect(migration).toContain("raise exception 'this poll is closed'")
+  })
+
+  test('hides anonymous voters and blocked voters from tallies', () => {
+    expect(migration).toContain("when target_poll.is_anonymous then '[]'::jsonb")
+    expect(migration).toContain('and not private.users_have_block(caller_id, votes.voter_id)')
+  })
+
+  test('exposes invoker wrappers over allowlisted private definers', () => {
+    for (const name of ['create_message_poll', 'vote_message_poll', 'close_message_poll', 'list_message_polls']) {
+      expect(migration).toContain(`create function public.${name}(`)
+      expect(migration).toContain(`message_polls_private.${name}_impl(`)
+      expect(allowlist.unexposed_security_definers.some(signature => (
+        signature.startsWith(`message_polls_private.${name}_impl(`)
+      ))).toBe(true)
+    }
+    expect(migration).toContain('security definer set search_path = \'\'')
+    expect(migration).toContain('alter default privileges for role postgres in schema message_polls_private revoke execute on functions from public')
+  })
+
+  test('dedupes options case-insensitively like the composer, keeping the first spelling', () => {
+    expect(dedupeMigration).toContain('create or replace function message_polls_private.create_message_poll_impl(')
+    expect(dedupeMigration).toContain('(array_agg(btrim(raw_label) order by ordinality))[1] as option_label')
+    expect(dedupeMigration).toContain('group by lower(btrim(raw_label)) ) distinct_options')
+    expect(dedupeMigration).not.toContain('group by lower(btrim(raw_label)), btrim(raw_label)')
+  })
+})
@@ -0,0 +1,156 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import {
+  getMessageReminderPresetTime,
+  getMessageReminderSourceItem,
+  getMessageReminderSourceLabel,
+  getMessageReminderTimeError,
+  mergeMessageReminder,
+  normalizeMessageReminder,
+  type MessageReminder,
+} from '../src/features/message-reminders/messageRemindersModel'
+import { getNotificationTypePolicyV2 } from '../src/features/notifications/notificationEnvelopeV2'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261019000000_message_reminders.sql')
+const sendPush = compact('supabase/functions/send-push/index.ts')
+const deliverV2 = compact('supabase/functions/deliver-notifications-v2/index.ts')
+
+const reminder = (extra: Partial<MessageReminder> = {}): MessageReminder => ({
+  id: 'reminder-1',
+  source: 'general',
+  messageId: 'message-1',
+  conversationId: null,
+  threadId: null,
+  imageId: null,
+  preview: 'Bring the slides',
+  route: '/?view=chat&message=message-1',
+  remindAt: '2026-10-19T09:00:00.000Z',
+  status: 'scheduled',
+  sentAt: null,
+  createdAt: '2026-10-18T18:00:00.000Z',
+  ...extra,
+})
+
+describe('message reminder model', () => {
+  test('computes preset times from now', () => {
+    // Sunday evening local time.
+    const now = new Date(2026, 9, 18, 18, 30)
+    expect(getMessageReminderPresetTime('in_20_minutes', now).getTime() - now.getTime()).toBe(20 * 60 * 1000)
+    expect(getMessageReminderPresetTime('in_3_hours', now).getTime() - now.getTime()).toBe(3 * 60 * 60 * 1000)
+
+    const tomorrow = getMessageReminderPresetTime('tomorrow_morning', now)
+    expect([tomorrow.getDate(), tomorrow.getHours(), tomorrow.getMinutes()]).toEqual([19, 9, 0])
+
+    const nextWeek = getMessageReminderPresetTime('next_week', now)
+    expect([nextWeek.getDay(), nextWeek.getDate(), nextWeek.getHours()]).toEqual([1, 19, 9])
+
+    // On a Monday, "next week" is the following Monday rather than today.
+    const monday = getMessageReminderPresetTime('next_week', new Date(2026, 9, 19, 8))
+    expect(monday.getDate()).toBe(26)
+  })
+
+  test('keeps reminder times between one minute and one year out', () => {
+    const now = Date.parse('2026-10-18T18:00:00.000Z')
+    expect(getMessageReminderTimeError(new Date(now + 30 * 1000), now)).toContain('one minute')
+    expect(getMessageReminderTimeError(new Date(now + 400 * 24 * 60 * 60 * 1000), now)).toContain('a year')
+    expect(getMessageReminderTimeError(new Date(Number.NaN), now)).toBe('Choose a valid reminder time.')
+    expect(getMessageReminderTimeError(new Date(now + 60 * 60 * 1000), now)).toBeNull()
+  })
+
+  test('normalizes rows and rejects links that leave the app', () => {
+    const row = {
+      id: 'reminder-1',
+      source: 'dm',
+      message_id: 'message-1',
+      conversation_id: 'conversation-1',
+      preview: 'Photo',
+      route: '/?view=dms&conversation=conversation-1&message=message-1',
+      remind_at: '2026-10-19T09:00:00.000Z',
+      status: 'scheduled',
+    }
+    expect(normalizeMessageReminder(row)).toMatchObject({
+      source: 'dm',
+      conversationId: 'conversation-1',
+      threadId: null,
+      preview: 'Photo',
+    })
+    expect(normalizeMessageReminder({ ...row, route: '//evil.example/' })).toBeNull()
+    expect(normalizeMessageReminder({ ...row, route: 'https://evil.example/' })).toBeNull()
+    expect(normalizeMessageReminder({ ...row, source: 'email' })).toBeNull()
+  })
+
+  test('orders upcoming reminders and drops ones that fired or were canceled', () => {
+    const later = reminder({ id: 'later', remindAt: '2026-10-20T09:00:00.000Z' })
+    const sooner = reminder({ id: 'sooner', remindAt: '2026-10-19T08:00:00.000Z' })
+    expect(mergeMessageReminder([later], sooner).map(item => item.id)).toEqual(['sooner', 'later'])
+    expect(mergeMessageReminder([later, sooner], { ...later, status: 'sent' }).map(item => item.id)).toEqual(['sooner'])
+    expect(mergeMessageReminder([later], { ...later, status: 'canceled' })).toEqual([])
+  })
+
+  test('opens the reminder source from Catch-Up by its route', () => {
+    const threadReply = reminder({ threadId: 'thread-1', route: '/?view=chat&thread=thread-1&message=message-1' })
+    expect(getMessageReminderSourceLabel(threadReply)).toBe('Thread reply')
+    expect(getMessageReminderSourceLabel(reminder({ source: 'shadow_pin_comment' }))).toBe('ShadowPin comment')
+    expect(getMessageReminderSourceItem(threadReply)).toMatchObject({
+      kind: 'message_reminder',
+      title: 'Thread reply',
+      target: { kind: 'app_route', route: '/?view=chat&thread=thread-1&message=message-1' },
+      activityEventIds: [],
+    })
+  })
+
+  test('delivers reminder notifications as high-priority system alerts', () => {
+    expect(getNotificationTypePolicyV2('message_reminder')).toMatchObject({
+      category: 'system',
+      priority: 'high',
+      actionLabel: 'View Message',
+    })
+  })
+})
+
+describe('message reminder migration', () => {
+  test('keeps reminders private to their owner without elevated functions', () => {
+    expect(migration).toContain('alter table public.message_reminders enable row level security')
+    for (const action of ['select', 'insert', 'update', 'delete']) {
+      expect(migration).toContain(`for ${action} to authenticated`)
+    }
+    expect(migration).toContain('using ((select auth.uid()) = user_id)')
+    expect(migration).toContain('unique (user_id, source, message_id)')
+    expect(migration).not.toContain('security definer')
+  })
+
+  test('reads the message as the caller before a reminder is saved', () => {
+    expect(migration).toContain('create trigger prepare_message_reminder before insert or update on public.message_reminders')
+    expect(migration).toContain("message = 'this message is unavailable'")
+    expect(migration).toContain("message = 'this comment is unavailable'")
+    expect(migration).toContain("'/?view=chat&thread=' || new.thread_id::text")
+    expect(migration).toContain("'/?view=dms&conversation=' || new.conversation_id::text")
+    expect(migration).toContain("'&panel=comments&comment=' || new.message_id::text")
+    expect(migration).toContain(') >= 100 then')
+  })
+
+  test('lets only the service role deliver due reminders once per time', () => {
+    expect(migration).toContain('revoke all on function public.deliver_due_message_reminders(integer) from public, anon, authenticated')
+    expect(migration).toContain('grant execute on function public.deliver_due_message_reminders(integer) to service_role')
+    expect(migration).toContain("reminder_dedupe_key := 'message_reminder:' || reminder.id::text || ':'")
+    expect(migration).toContain('on conflict (dedupe_key) do nothing')
+    expect(migration).toContain('for update skip locked')
+  })
+})
+
+describe('send-push reminder delivery', () => {
+  test('delivers due reminders before claiming recovery jobs', () => {
+    const digests = sendPush.indexOf("supabase.rpc( 'flush_due_notification_digests'")
+    const reminders = sendPush.indexOf("supabase.rpc( 'deliver_due_message_reminders'")
+    const claim = sendPush.indexOf("supabase.rpc('claim_notification_delivery_jobs'")
+    expect(reminders).toBeGreaterThan(digests)
+    expect(claim).toBeGreaterThan(reminders)
+    expect(sendPush).toContain("if (eventtype === 'message_reminder') return true")
+    expect(deliverV2).toContain("if (eventtype === 'message_reminder') return true")
+  })
+})
@@ -0,0 +1,119 @@
+import { parseTranslationResponse, translateText } from '../src/lib/ai'
+import {
+  canTranslateMessage,
+  detectPreferredTranslationLanguage,
+  getTranslationCacheKey,
+  normalizeTranslationPreferences,
+  shouldAutoTranslateMessage,
+} from '../src/features/message-translation/translationModel'
+import {
+  clearTranslationCache,
+  forgetTranslations,
+  getCachedTranslation,
+  getTranslationPreferences,
+  resetTranslationStoreForTests,
+  setAutoTranslate,
+  translateMessage,
+} from '../src/features/message-translation/translationStore'
+
+jest.mock('../src/lib/ai', () => ({
+  ...jest.requireActual('../src/lib/ai'),
+  translateText: jest.fn(),
+}))
+
+const mockTranslateText = translateText as jest.MockedFunction<typeof translateText>
+
+describe('message translation model', () => {
+  test('parses JSON and bare-text model replies', () => {
+    expect(parseTranslationResponse('```json\n{"source_language":"ES","translation":"Hello"}\n```'))
+      .toEqual({ translation: 'Hello', sourceLanguage: 'es' })
+    expect(parseTranslationResponse('Hello there')).toEqual({ translation: 'Hello there', sourceLanguage: null })
+  })
+
+  test('picks a supported browser language and keeps valid preferences only', () => {
+    expect(detectPreferredTranslationLanguage(['pt-BR', 'en-US'])).toBe('pt')
+    expect(detectPreferredTranslationLanguage(['xx'])).toBe('en')
+    expect(normalizeTranslationPreferences({
+      language: 'klingon',
+      autoTranslate: { general: '2026-10-18T10:00:00.000Z', 'dm:bad': '2026-10-18T10:00:00.000Z' },
+    }, 'es')).toEqual({
+      version: 1,
+      language: 'es',
+      autoTranslate: { general: '2026-10-18T10:00:00.000Z' },
+    })
+  })
+
+  test('auto-translates from an hour before it was enabled onward', () => {
+    const preferences = normalizeTranslationPreferences({
+      language: 'es',
+      autoTranslate: { general: '2026-10-18T10:00:00.000Z' },
+    }, 'en')
+    expect(shouldAutoTranslateMessage(preferences, 'general', '2026-10-18T09:30:00.000Z')).toBe(true)
+    expect(shouldAutoTranslateMessage(preferences, 'general', '2026-10-18T08:30:00.000Z')).toBe(false)
+    expect(shouldAutoTranslateMessage(preferences, 'dm:00000000-0000-0000-0000-000000000001', '2026-10-18T11:00:00.000Z')).toBe(false)
+  })
+
+  test('only offers translation for worded text messages', () => {
+    expect(canTranslateMessage('text', 'hola a todos')).toBe(true)
+    expect(canTranslateMessage('text', '👍 !!')).toBe(false)
+    expect(canTranslateMessage('image', 'caption')).toBe(false)
+  })
+
+  test('keys the cache by message, language, and content', () => {
+    expect(getTranslationCacheKey('m1', 'es', 'hello')).toBe(getTranslationCacheKey('m1', 'es', 'hello'))
+    expect(getTranslationCacheKey('m1', 'es', 'hello')).not.toBe(getTranslationCacheKey('m1', 'es', 'hello!'))
+    expect(getTranslationCacheKey('m1', 'es', 'hello')).not.toBe(getTranslationCacheKey('m1', 'pt', 'hello'))
+  })
+})
+
+describe('message translation store', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    resetTranslationStoreForTests()
+    mockTranslateText.mockReset()
+  })
+
+  test('dedupes concurrent requests and serves repeats from the cache', async () => {
+    mockTranslateText.mockResolvedValue({ translation: 'Hola', sourceLanguage: 'en' })
+
+    const [first, second] = await Promise.all([
+      translateMessage('m1', 'es', 'Hello'),
+      translateMessage('m1', 'es', 'Hello'),
+    ])
+    await translateMessage('m1', 'es', 'Hello')
+
+    expect(first).toBe(second)
+    expect(mockTranslateText).toHaveBeenCalledTimes(1)
+    expect(getCachedTranslation('m1', 'es', 'Hello')?.text).toBe('Hola')
+
+    resetTranslationStoreForTests()
+    expect(getCachedTranslation('m1', 'es', 'Hello')?.text).toBe('Hola')
+  })
+
+  test('clears cached message text and persists auto-translate choices', async () => {
+    mockTranslateText.mockResolvedValue({ translation: 'Olá', sourceLanguage: 'en' })
+    await translateMessage('m2', 'pt', 'Hi')
+    clearTranslationCache()
+    expect(getCachedTranslation('m2', 'pt', 'Hi')).toBeNull()
+
+    setAutoTranslate('general', true)
+    resetTranslationStoreForTests()
+    expect(getTranslationPreferences().autoTranslate.general).toEqual(expect.any(String))
+    setAutoTranslate('general', false)
+    expect(getTranslationPreferences().autoTranslate.general).toBeUndefined()
+  })
+
+  test('forgets every translation of deleted or expired messages only', async () => {
+    mockTranslateText.mockResolvedValue({ translation: 'Hola', sourceLanguage: 'en' })
+    await translateMessage('m3', 'es', 'Hello')
+    await translateMessage('m3', 'fr', 'Hello')
+    await translateMessage('m4', 'es', 'Hello')
+
+    forgetTranslations(['m3'])
+    resetTranslationStoreForTests()
+
+    expect(getCachedTranslation('m3', 'es', 'Hello')).toBeNull()
+    expect(getCachedTranslation('m3', 'fr', 'Hello')).toBeNull()
+    expect(getCachedTranslation('m4', 'es', 'Hello')?.text).toBe('Hola')
+  })
+})
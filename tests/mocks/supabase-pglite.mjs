@@ -0,0 +1,221 @@
+import { readFileSync } from 'node:fs'
+import { PGlite } from '@electric-sql/pglite'
+
+/**
+ * The slice of the Supabase schema that the DM migrations build on: the API
+ * roles and their default grants, `auth.uid()` from the request claims, users
+ * and blocks, DM conversations and messages with their baseline participant
+ * and block policies, and bare General Chat, moderation and notification tables. Migrations are applied on
+ * top unchanged.
+ */
+const baseSchema = `
+  create role anon nologin;
+  create role authenticated nologin;
+  create role service_role nologin bypassrls;
+
+  grant usage on schema public to anon, authenticated, service_role;
+  alter default privileges in schema public grant all on tables to anon, authenticated, service_role;
+  alter default privileges in schema public grant all on functions to anon, authenticated, service_role;
+
+  create schema auth;
+  grant usage on schema auth to anon, authenticated, service_role;
+  create function auth.uid()
+  returns uuid
+  language sql
+  stable
+  as $$ select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid $$;
+
+  create schema private;
+  grant usage on schema private to authenticated, service_role;
+
+  create schema storage;
+  create table storage.buckets (id text primary key, allowed_mime_types text[]);
+  insert into storage.buckets (id, allowed_mime_types) values ('chat-uploads', array['image/jpeg']);
+
+  create table public.users (
+    id uuid primary key,
+    username text not null,
+    display_name text,
+    avatar_url text
+  );
+
+  create table public.user_blocks (
+    blocker_id uuid not null references public.users(id) on delete cascade,
+    blocked_id uuid not null references public.users(id) on delete cascade,
+    created_at timestamptz not null default now(),
+    primary key (blocker_id, blocked_id)
+  );
+
+  create function private.users_have_block(first_user_id uuid, second_user_id uuid)
+  returns boolean
+  language sql
+  stable
+  security definer
+  set search_path = ''
+  as $$
+    select coalesce(first_user_id <> second_user_id and exists (
+      select 1
+      from public.user_blocks blocks
+      where (blocks.blocker_id = first_user_id and blocks.blocked_id = second_user_id)
+         or (blocks.blocker_id = second_user_id and blocks.blocked_id = first_user_id)
+    ), false);
+  $$;
+
+  create function public.is_user_channel_banned(target_user_id uuid, target_scope text)
+  returns boolean
+  language sql
+  stable
+  as $$ select false $$;
+
+  create function public.get_channel_ban_block_message(target_user_id uuid, target_scope text)
+  returns text
+  language sql
+  stable
+  as $$ select 'Banned' $$;
+
+  create function public.user_public_profile_json(profile public.users)
+  returns jsonb
+  language sql
+  stable
+  as $$ select jsonb_build_object('id', profile.id, 'username', profile.username) $$;
+
+  create table public.dm_conversations (
+    id uuid primary key default gen_random_uuid(),
+    participants uuid[] not null,
+    kind text not null default 'direct',
+    title text,
+    avatar_url text,
+    created_by uuid references public.users(id) on delete set null,
+    last_message_at timestamptz not null default now(),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+  );
+
+  create table public.dm_messages (
+    id uuid primary key default gen_random_uuid(),
+    conversation_id uuid not null references public.dm_conversations(id) on delete cascade,
+    sender_id uuid not null references public.users(id) on delete cascade,
+    content text not null,
+    message_type text not null default 'text',
+    file_url text,
+    thumbnail_url text,
+    audio_url text,
+    audio_duration integer,
+    media_width integer,
+    media_height integer,
+    reply_to uuid,
+    reactions jsonb not null default '{}'::jsonb,
+    read_by uuid[] not null default '{}',
+    client_message_id text,
+    edited_at timestamptz,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+  );
+
+  create function private.create_dm_activity_event()
+  returns trigger
+  language plpgsql
+  as $$ begin return new; end; $$;
+
+  create trigger create_dm_activity_event
+    after insert on public.dm_messages
+    for each row execute function private.create_dm_activity_event();
+
+  create function public.update_updated_at_column()
+  returns trigger
+  language plpgsql
+  as $$ begin new.updated_at := now(); return new; end; $$;
+
+  create table public.messages (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid references public.users(id) on delete cascade,
+    content text not null default '',
+    message_type text not null default 'text',
+    client_message_id text,
+    edited_at timestamptz,
+    created_at timestamptz not null default now()
+  );
+  create table public.shadow_pin_images (id uuid primary key default gen_random_uuid());
+  create table public.shadow_pin_comments (id uuid primary key default gen_random_uuid());
+  create table public.moderation_cases (
+    id uuid primary key default gen_random_uuid(),
+    target_type text not null,
+    target_id uuid not null,
+    assigned_to uuid
+  );
+
+  create table public.notification_events (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references public.users(id) on delete cascade,
+    type text not null,
+    entity_id uuid,
+    category text,
+    route text,
+    payload jsonb not null default '{}'::jsonb,
+    dedupe_key text unique,
+    presentation_expires_at timestamptz
+  );
+
+  create table public.notification_delivery_jobs (
+    id uuid primary key default gen_random_uuid(),
+    notification_event_id uuid not null unique references public.notification_events(id) on delete cascade,
+    user_id uuid not null references public.users(id) on delete cascade,
+    expires_at timestamptz
+  );
+
+  create table public.scheduled_messages (
+    id uuid primary key default gen_random_uuid(),
+    surface text not null,
+    conversation_id uuid,
+    content text not null,
+    send_at timestamptz not null
+  );
+
+  alter table public.dm_conversations enable row level security;
+  alter table public.dm_messages enable row level security;
+
+  create policy "Participants read conversations"
+    on public.dm_conversations for select to authenticated
+    using ((select auth.uid()) = any (participants));
+
+  create policy "Participants read messages"
+    on public.dm_messages for select to authenticated
+    using (exists (
+      select 1 from public.dm_conversations conversations
+      where conversations.id = dm_messages.conversation_id
+        and (select auth.uid()) = any (conversations.participants)
+    ));
+
+  create policy "Participants send messages"
+    on public.dm_messages for insert to authenticated
+    with check (sender_id = (select auth.uid()) and exists (
+      select 1 from public.dm_conversations conversations
+      where conversations.id = dm_messages.conversation_id
+        and (select auth.uid()) = any (conversations.participants)
+    ));
+
+  create policy "Blocked users are hidden from direct message history"
+    on public.dm_messages as restrictive for select to authenticated
+    using (sender_id = (select auth.uid()) or not private.users_have_block((select auth.uid()), sender_id));
+`
+
+/** Boots an in-memory database with the base schema and the named migrations applied in order. */
+export const createSupabaseDatabase = async (migrations = []) => {
+  const db = new PGlite()
+  await db.exec(baseSchema)
+  for (const migration of migrations) {
+    await db.exec(readFileSync(new URL(`../../supabase/migrations/${migration}`, import.meta.url), 'utf8'))
+  }
+  return db
+}
+
+/**
+ * Runs `callback` inside a transaction as the given API role, with `userId`
+ * as the signed-in member for `authenticated`. The transaction is rolled back
+ * when the callback throws, so a failed statement leaves the database as it was.
+ */
+export const asRole = (db, role, userId, callback) => db.transaction(async tx => {
+  await tx.query(`select set_config('request.jwt.claim.sub', $1, true)`, [userId ?? ''])
+  await tx.exec(`set local role ${role}`)
+  return callback(tx)
+})
@@ -167,7 +167,11 @@ test('Android registers its headless task before Expo Router and presents rich g
   assert.match(androidBackgroundSource, /TaskManager\.defineTask/)
   assert.match(androidBackgroundSource, /AppState\.currentState === 'active'/)
   assert.match(androidBackgroundSource, /data\.dataString/)
-  assert.doesNotMatch(androidBackgroundSource, /notifee\.onBackgroundEvent/)
+  // The headless notifee handler only settles signed quick actions; every
+  // other press still opens the app through the foreground handlers.
+  assert.match(androidBackgroundSource, /notifee\.onBackgroundEvent/)
+  assert.match(androidBackgroundSource, /event\.type !== EventType\.ACTION_PRESS\) return false/)
+  assert.match(androidBackgroundSource, /getNotificationQuickAction\(envelope, event\.detail\.pressAction\?\.id\)/)
   assert.match(androidPresenterSource, /AndroidStyle\.MESSAGING/)
   assert.match(androidPresenterSource, /AndroidStyle\.BIGPICTURE/)
   assert.match(androidPresenterSource, /notifee\.setBadgeCount/)
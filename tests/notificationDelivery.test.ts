@@ -1,5 +1,6 @@
 import {
   extractMentionUsernames,
+  getConversationRuleSuppressionReason,
   getNotificationSuppressionReason,
   isQuietHoursActive,
   selectGroupNotificationKind,
@@ -31,6 +32,36 @@ describe('notification delivery preferences', () => {
     }, new Date('2026-07-10T11:00:00.000Z'))).toBe('Notifications are snoozed')
   })
 
+  test('VIP conversations bypass quiet hours but not the master switch or snooze', () => {
+    const preferences = {
+      notifications_enabled: true,
+      quiet_hours_start: '22:00:00',
+      quiet_hours_end: '07:00:00',
+      quiet_hours_timezone: 'UTC',
+      mute_until: null,
+    }
+    const night = new Date('2026-07-10T23:30:00.000Z')
+
+    expect(getNotificationSuppressionReason(preferences, night)).toBe('Quiet hours are active')
+    expect(getNotificationSuppressionReason(preferences, night, { bypassQuietHours: true })).toBeNull()
+    expect(getNotificationSuppressionReason({
+      ...preferences,
+      mute_until: '2026-07-11T01:00:00.000Z',
+    }, night, { bypassQuietHours: true })).toBe('Notifications are snoozed')
+    expect(getNotificationSuppressionReason({
+      ...preferences,
+      notifications_enabled: false,
+    }, night, { bypassQuietHours: true })).toBe('All notifications are muted')
+  })
+
+  test('mentions-only conversations drop messages that do not mention the recipient', () => {
+    const rule = { delivery_mode: 'mentions_only', sound_id: null, bypass_quiet_hours: false }
+    expect(getConversationRuleSuppressionReason(rule, false)).toBe('Conversation only notifies for mentions')
+    expect(getConversationRuleSuppressionReason(rule, true)).toBeNull()
+    expect(getConversationRuleSuppressionReason({ ...rule, delivery_mode: 'all' }, false)).toBeNull()
+    expect(getConversationRuleSuppressionReason(null, false)).toBeNull()
+  })
+
   test('extracts bounded, case-normalized mentions without email false positives', () => {
     expect(extractMentionUsernames('Hi @Caleb and @shadow_ai; email me at a@b.com. @Caleb'))
       .toEqual(['caleb', 'shadow_ai'])
@@ -61,4 +92,22 @@ describe('notification delivery preferences', () => {
       groupEnabled: false,
     })).toBeNull()
   })
+
+  test('ranks keyword alerts below mentions and replies but above the room message', () => {
+    const base = {
+      isMentioned: false,
+      isReplyTarget: false,
+      mentionEnabled: true,
+      replyEnabled: true,
+      groupEnabled: true,
+      keywordMatched: true,
+      keywordAlertsEnabled: true,
+    }
+
+    expect(selectGroupNotificationKind(base)).toBe('keyword_alert')
+    expect(selectGroupNotificationKind({ ...base, isMentioned: true })).toBe('mention')
+    expect(selectGroupNotificationKind({ ...base, isReplyTarget: true })).toBe('reply')
+    expect(selectGroupNotificationKind({ ...base, keywordAlertsEnabled: false })).toBe('group_message')
+    expect(selectGroupNotificationKind({ ...base, keywordAlertsEnabled: false, groupEnabled: false })).toBeNull()
+  })
 })
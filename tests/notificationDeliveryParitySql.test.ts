@@ -45,7 +45,7 @@ describe('notification delivery parity contracts', () => {
 
   test('batches broad General Chat and ShadowPin event fan-out before push delivery', () => {
     expect(sendPush).toContain('const upsertnotificationevents = async')
-    expect(sendPush).toContain(".select('id, sent_at, dedupe_key')")
+    expect(sendPush).toContain(".select('id, sent_at, digest_batch_id, dedupe_key')")
     expect(sendPush).toContain('const eventrecords = await upsertnotificationevents')
     expect(sendPush.match(/const eventrecords = await upsertnotificationevents/g)).toHaveLength(2)
   })
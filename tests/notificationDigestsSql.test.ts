@@ -0,0 +1,80 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261018190000_notification_digests.sql')
+const sendPush = compact('supabase/functions/send-push/index.ts')
+
+describe('notification digests migration', () => {
+  test('stores one digest cadence per low-priority category', () => {
+    for (const column of [
+      'interactions_digest_mode',
+      'shadow_pin_digest_mode',
+      'presence_digest_mode',
+      'games_digest_mode',
+    ]) {
+      expect(migration).toContain(`add column if not exists ${column} text not null default 'immediate'`)
+      expect(migration).toContain(`${column} in ('immediate', 'hourly', 'daily')`)
+    }
+  })
+
+  test('never holds DMs, mentions, or replies', () => {
+    expect(migration).toContain("when target_type in ('reaction', 'hype_event') then 'interactions'")
+    expect(migration).toContain("when target_type in ('shadow_pin_post', 'shadow_pin_comment') then 'shadow_pin'")
+    expect(migration).toContain("when target_type = 'presence_active' then 'presence'")
+    expect(migration).toContain("else null end")
+    expect(migration).not.toMatch(/when target_type[^;]*'(dm_message|mention|reply|shadow_pin_reply)'[^;]*then '(interactions|shadow_pin|presence|games)'/)
+  })
+
+  test('keeps one open batch per member and category', () => {
+    expect(migration).toContain('create unique index notification_digest_batches_open_key on public.notification_digest_batches (user_id, category) where status = \'open\'')
+    expect(migration).toContain("on conflict (user_id, category) where status = 'open' do update set updated_at = now() returning id into new.digest_batch_id")
+  })
+
+  test('cancels individual web and native delivery for held events', () => {
+    expect(migration).toContain('before insert on public.notification_delivery_jobs for each row execute function private.cancel_held_notification_delivery()')
+    expect(migration).toContain('before insert on public.notification_outbox_v2 for each row execute function private.cancel_held_notification_delivery()')
+    expect(migration).toContain("new.status = 'pending' and exists")
+    expect(migration).toContain("new.last_error := 'held for notification digest'")
+  })
+
+  test('summarises only unread events and cancels empty batches', () => {
+    expect(migration).toContain('where events.digest_batch_id = batch.id and events.user_id = batch.user_id and events.read_at is null and events.resolved_at is null')
+    expect(migration).toContain("if summary.event_count = 0 then update public.notification_digest_batches set status = 'cancelled'")
+    expect(migration).toContain("'notification_digest:' || batch.id::text")
+    expect(migration).toContain('for update skip locked')
+  })
+
+  test('marks summarised events read with their digest', () => {
+    expect(migration).toContain("after update of read_at on public.notification_events for each row when ( new.type = 'notification_digest' and old.read_at is null and new.read_at is not null )")
+    expect(migration).toContain('where batches.digest_event_id = new.id')
+  })
+
+  test('adds no security definer and keeps the flush service-role only', () => {
+    expect(migration).not.toContain('security definer')
+    expect(migration).toContain('revoke all on function public.flush_due_notification_digests(integer) from public, anon, authenticated')
+    expect(migration).toContain('grant execute on function public.flush_due_notification_digests(integer) to service_role')
+    expect(migration).toContain('using (user_id = (select auth.uid()))')
+  })
+})
+
+describe('send-push digest holding', () => {
+  test('skips web push for events that joined a digest batch', () => {
+    expect(sendPush).toContain(".select('id, sent_at, digest_batch_id')")
+    expect(sendPush).toContain(".select('id, sent_at, digest_batch_id, dedupe_key')")
+    expect((sendPush.match(/eventrecord\.digest_batch_id/g) ?? []).length).toBeGreaterThanOrEqual(5)
+    expect(sendPush).toContain("heldeventids.has(claim.event_id)")
+  })
+
+  test('flushes due digests before claiming recovery jobs', () => {
+    const flush = sendPush.indexOf("supabase.rpc( 'flush_due_notification_digests'")
+    const claim = sendPush.indexOf("supabase.rpc('claim_notification_delivery_jobs'")
+    expect(flush).toBeGreaterThan(-1)
+    expect(claim).toBeGreaterThan(flush)
+    expect(sendPush).toContain("if (eventtype === 'notification_digest') return true")
+  })
+})
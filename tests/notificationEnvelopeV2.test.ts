@@ -270,6 +270,72 @@ describe('notification envelope v2', () => {
     }
   })
 
+  test('carries DM quick actions only alongside a signed action token', () => {
+    const schema = JSON.parse(
+      readFileSync(
+        path.resolve(process.cwd(), 'contracts/notification-envelope-v2.schema.json'),
+        'utf8',
+      ),
+    ) as Record<string, unknown>
+    const schemaForAjv = { ...schema }
+    delete schemaForAjv.$schema
+    const validate = new Ajv({
+      allErrors: true,
+      schemaId: 'auto',
+    }).compile(schemaForAjv)
+    const source = event()
+    const row = {
+      event_id: source.id,
+      user_id: source.user_id,
+      category_key: 'dm',
+      title: 'JJ',
+      body: 'Still up?',
+      private_title: 'New ShadowChat notification',
+      private_body: 'Open ShadowChat to view it.',
+      actor_id: source.actor_id,
+      route: source.route!,
+      group_key: `dm:${source.conversation_id}`,
+      priority: 'high' as const,
+      action_keys: ['open', 'mark_read', 'reply', 'react', 'mute_conversation'],
+      sound_id: 'shadow_whisper',
+      android_channel_key: 'messages_v1',
+      badge_category: 'dm',
+      media_ref: {},
+      created_at: source.created_at,
+      expires_at: source.presentation_expires_at,
+    }
+    const options = {
+      previewMode: 'full' as const,
+      eventType: source.type,
+      entityId: source.entity_id,
+      actor: null,
+      media: null,
+    }
+
+    const signed = buildNotificationDeliveryEnvelopeV2(row, {
+      ...options,
+      actionToken: 'eyJ1IjoiMSJ9.c2lnbmF0dXJl',
+    })
+    expect(signed.actions).toEqual(row.action_keys)
+    expect(signed.actionToken).toBe('eyJ1IjoiMSJ9.c2lnbmF0dXJl')
+    expect(validate(signed)).toBe(true)
+    expect(isNotificationEnvelopeV2(signed)).toBe(true)
+    expect(parseNotificationEnvelopeV2(signed)).not.toBeNull()
+
+    const unsigned = buildNotificationDeliveryEnvelopeV2(row, options)
+    expect(unsigned.actions).toEqual(['open', 'mark_read'])
+    expect('actionToken' in unsigned).toBe(false)
+    expect(isNotificationEnvelopeV2(unsigned)).toBe(true)
+
+    const quickActionsWithoutToken = { ...signed }
+    delete quickActionsWithoutToken.actionToken
+    const tokenWithoutQuickActions = { ...unsigned, actionToken: signed.actionToken }
+    for (const invalid of [quickActionsWithoutToken, tokenWithoutQuickActions]) {
+      expect(isNotificationEnvelopeV2(invalid)).toBe(false)
+      expect(parseNotificationEnvelopeV2(invalid)).toBeNull()
+    }
+  })
+
   test('rejects golden contract drift in schema, web, and native validators', () => {
     const schema = JSON.parse(
       readFileSync(
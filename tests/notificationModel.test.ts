@@ -1,5 +1,6 @@
 import {
   buildNotificationPresentation,
+  getNotificationConversationSoundId,
   isNotificationPresentationCandidate,
   isNotificationQuietNow,
   isNotificationSourceActive,
@@ -67,6 +68,81 @@ describe('notification presentation policy', () => {
     }, new Date('2026-07-17T16:00:00.000Z'))).toBe(true)
   })
 
+  it('leaves digest-held events to their summary banner', () => {
+    const reaction = makeEvent({ type: 'reaction', category: 'interactions' })
+    expect(isNotificationTypeEnabled(reaction, {})).toBe(true)
+    expect(isNotificationTypeEnabled({ ...reaction, digest_batch_id: 'batch-1' }, {})).toBe(false)
+    expect(isNotificationTypeEnabled(makeEvent({
+      type: 'notification_digest',
+      category: 'interactions',
+      payload: { title: 'Hourly Interactions digest', body: '4 reactions' },
+    }), {})).toBe(true)
+  })
+
+  it('honours per-conversation mentions-only, VIP quiet hours, snooze, and sound rules', () => {
+    const quietNight = new Date('2026-07-17T23:30:00.000Z')
+    const rule = {
+      conversation_id: 'conversation-1',
+      delivery_mode: 'all' as const,
+      sound_id: 'war_drum',
+      bypass_quiet_hours: true,
+    }
+    const preferences = {
+      quiet_hours_start: '22:00',
+      quiet_hours_end: '07:00',
+      quiet_hours_timezone: 'UTC',
+      notification_conversation_rules: { 'conversation-1': rule },
+    }
+
+    expect(isNotificationTypeEnabled(makeEvent(), preferences, quietNight)).toBe(true)
+    expect(isNotificationTypeEnabled(makeEvent({ conversation_id: 'conversation-2' }), preferences, quietNight))
+      .toBe(false)
+    expect(isNotificationTypeEnabled(makeEvent(), {
+      ...preferences,
+      mute_until: '2026-07-18T00:00:00.000Z',
+    }, quietNight)).toBe(false)
+    expect(getNotificationConversationSoundId(makeEvent(), preferences)).toBe('war_drum')
+
+    const mentionsOnly = {
+      notification_conversation_rules: {
+        'conversation-1': { ...rule, delivery_mode: 'mentions_only' as const },
+      },
+    }
+    expect(isNotificationTypeEnabled(makeEvent(), mentionsOnly)).toBe(false)
+    expect(isNotificationTypeEnabled(makeEvent({
+      payload: { title: 'JJ', body: '@caleb look', mentioned: true },
+    }), mentionsOnly)).toBe(true)
+
+    const now = new Date('2026-07-17T16:00:00.000Z')
+    expect(isNotificationTypeEnabled(makeEvent(), {
+      notification_conversation_mutes: { 'conversation-1': '2026-07-17T17:00:00.000Z' },
+    }, now)).toBe(false)
+    expect(isNotificationTypeEnabled(makeEvent(), {
+      notification_conversation_mutes: { 'conversation-1': '2026-07-17T15:00:00.000Z' },
+    }, now)).toBe(true)
+  })
+
+  it('routes keyword alerts into the thread and honours the keyword switch and room mute', () => {
+    const event = makeEvent({
+      type: 'keyword_alert',
+      category: 'interactions',
+      entity_id: 'message-9',
+      conversation_id: null,
+      message_id: 'message-9',
+      dm_message_id: null,
+      payload: { actor: { display_name: 'Rae' }, keyword: 'launch day', thread_id: 'thread-1' },
+    })
+    const presentation = buildNotificationPresentation(event)
+    const route = new URL(presentation.route, 'https://shadochat.online')
+    expect(presentation.title).toBe('Rae mentioned "launch day"')
+    expect(route.searchParams.get('view')).toBe('chat')
+    expect(route.searchParams.get('thread')).toBe('thread-1')
+    expect(route.searchParams.get('message')).toBe('message-9')
+    expect(isNotificationTypeEnabled(event, {})).toBe(true)
+    expect(isNotificationTypeEnabled(event, { keyword_alerts_enabled: false })).toBe(false)
+    expect(isNotificationTypeEnabled(event, { general_chat_muted: true })).toBe(false)
+  })
+
   it('builds an exact ShadowPin comment route instead of a generic Pins route', () => {
     const presentation = buildNotificationPresentation(makeEvent({
       type: 'shadow_pin_comment',
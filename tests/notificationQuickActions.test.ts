@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import {
+  NOTIFICATION_ACTION_TOKEN_TTL_SECONDS,
+  createNotificationActionToken,
+  normalizeNotificationClientMessageId,
+  normalizeNotificationReply,
+  verifyNotificationActionToken,
+} from '../supabase/functions/_shared/notification-actions'
+
+const secret = 'quick-action-secret-for-tests-0123456789'
+const claims = {
+  userId: '11111111-1111-4111-8111-111111111111',
+  eventId: '22222222-2222-4222-8222-222222222222',
+  conversationId: '33333333-3333-4333-8333-333333333333',
+  messageId: '44444444-4444-4444-8444-444444444444',
+  transport: 'web_push' as const,
+  subscriptionId: '66666666-6666-4666-8666-666666666666',
+}
+
+describe('notification quick action tokens', () => {
+  test('round-trips the recipient, event, conversation, message, and subscription it was minted for', async () => {
+    const now = Date.UTC(2026, 9, 18, 12)
+    const token = await createNotificationActionToken(claims, secret, now)
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/)
+    await expect(verifyNotificationActionToken(token, secret, now)).resolves.toEqual({
+      ...claims,
+      expiresAt: Math.floor(now / 1000) + NOTIFICATION_ACTION_TOKEN_TTL_SECONDS,
+    })
+  })
+
+  test('rejects tampered, foreign, malformed, and expired tokens', async () => {
+    const now = Date.UTC(2026, 9, 18, 12)
+    const token = await createNotificationActionToken(claims, secret, now)
+    const [payload, signature] = token.split('.')
+    const forgedPayload = Buffer.from(JSON.stringify({
+      u: '55555555-5555-4555-8555-555555555555',
+      e: claims.eventId,
+      c: claims.conversationId,
+      m: claims.messageId,
+      t: claims.transport,
+      s: claims.subscriptionId,
+      x: Math.floor(now / 1000) + 60,
+    })).toString('base64url')
+
+    for (const candidate of [
+      `${forgedPayload}.${signature}`,
+      `${payload}.${signature.slice(0, -2)}AA`,
+      `${token}.extra`,
+      payload,
+      null,
+    ]) {
+      await expect(verifyNotificationActionToken(candidate, secret, now)).resolves.toBeNull()
+    }
+    await expect(verifyNotificationActionToken(token, `${secret}-rotated`, now)).resolves.toBeNull()
+    await expect(verifyNotificationActionToken(
+      token,
+      secret,
+      now + (NOTIFICATION_ACTION_TOKEN_TTL_SECONDS + 1) * 1000,
+    )).resolves.toBeNull()
+  })
+
+  test('expires within hours and only for a known transport', async () => {
+    expect(NOTIFICATION_ACTION_TOKEN_TTL_SECONDS).toBeLessThanOrEqual(24 * 60 * 60)
+
+    const now = Date.UTC(2026, 9, 18, 12)
+    const native = await createNotificationActionToken({ ...claims, transport: 'native' }, secret, now)
+    await expect(verifyNotificationActionToken(native, secret, now)).resolves.toMatchObject({ transport: 'native' })
+
+    const unknownTransport = await createNotificationActionToken(
+      { ...claims, transport: 'email' as unknown as 'native' },
+      secret,
+      now,
+    )
+    await expect(verifyNotificationActionToken(unknownTransport, secret, now)).resolves.toBeNull()
+  })
+
+  test('bounds inline replies and client message ids', () => {
+    expect(normalizeNotificationReply('  on my way  ')).toBe('on my way')
+    expect(normalizeNotificationReply('   ')).toBeNull()
+    expect(normalizeNotificationReply('x'.repeat(2001))).toBeNull()
+    expect(normalizeNotificationClientMessageId('notification:44444444-4444-4444-8444-444444444444'))
+      .toBe('notification:44444444-4444-4444-8444-444444444444')
+    expect(normalizeNotificationClientMessageId('short')).toBeNull()
+    expect(normalizeNotificationClientMessageId('has spaces in it')).toBeNull()
+  })
+})
@@ -0,0 +1,61 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const migration = readFileSync(
+  path.join(process.cwd(), 'supabase/migrations/20261018180000_notification_quick_actions.sql'),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const actionFunction = readFileSync(
+  path.join(process.cwd(), 'supabase/functions/notification-action/index.ts'),
+  'utf8'
+)
+
+describe('notification quick actions migration', () => {
+  test('widens the envelope action keys to the contract enum', () => {
+    expect(migration).toContain("pg_get_constraintdef(constraints.oid) like '%action_keys%'")
+    expect(migration).toContain("action_keys <@ array['open', 'mark_read', 'reply', 'react', 'mute_conversation']::text[] and cardinality(action_keys) between 1 and 5")
+  })
+
+  test('offers quick actions only on incoming DM envelopes', () => {
+    expect(migration).toContain('before insert on public.notification_envelopes_v2')
+    expect(migration).toContain("and events.type = 'dm_message' and events.conversation_id is not null and events.dm_message_id is not null")
+    expect(migration).toContain("coalesce(events.actor_id::text, events.payload ->> 'sender_id') is distinct from events.user_id::text")
+  })
+
+  test('adds a notification reaction once without a new security definer', () => {
+    expect(migration).not.toContain('security definer')
+    expect(migration).toContain('for update; if not found then')
+    expect(migration).toContain('and reactions.emoji = reaction_emoji ) then return false;')
+    expect(migration).toContain('revoke all on function public.notification_action_react_to_dm_message(uuid, uuid, text) from public, anon, authenticated')
+    expect(migration).toContain('grant execute on function public.notification_action_react_to_dm_message(uuid, uuid, text) to service_role')
+  })
+})
+
+const sendPush = readFileSync(
+  path.join(process.cwd(), 'supabase/functions/send-push/index.ts'),
+  'utf8'
+)
+
+const nativeDelivery = readFileSync(
+  path.join(process.cwd(), 'supabase/functions/deliver-notifications-v2/index.ts'),
+  'utf8'
+)
+
+describe('notification-action function', () => {
+  test('binds each token to the device it was sent to and rejects it once that device is gone', () => {
+    expect(sendPush).toContain("transport: 'web_push',\n      subscriptionId: subscription.id,")
+    expect(nativeDelivery).toContain("transport: 'native',\n          subscriptionId: installationId,")
+    expect(actionFunction).toContain(".from('push_subscriptions')")
+    expect(actionFunction).toContain(".from('notification_installations')")
+    expect(actionFunction).toContain('await assertSubscriptionActive(admin, claims)')
+    expect(actionFunction.indexOf('await assertSubscriptionActive(admin, claims)'))
+      .toBeLessThan(actionFunction.indexOf("action === 'reply'"))
+  })
+
+  test('refuses lock-screen replies once a conversation is end-to-end encrypted', () => {
+    expect(actionFunction).toContain(".select('id, participants, e2ee_enabled_at')")
+    expect(actionFunction).toContain('sendReply(admin, claims, body, Boolean(conversation.e2ee_enabled_at))')
+    expect(actionFunction).toContain("throw new NotificationActionError('This conversation is end-to-end encrypted. Open ShadowChat to reply.', 409)")
+  })
+})
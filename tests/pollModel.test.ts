@@ -0,0 +1,100 @@
+import {
+  applyOptimisticPollVote,
+  formatPollClosesIn,
+  getPollOptionShare,
+  isMessagePollClosed,
+  isPollCommand,
+  normalizeMessagePoll,
+  parsePollCommand,
+  togglePollSelection,
+  type MessagePoll,
+} from '../src/features/polls/pollModel'
+
+const NOW = Date.parse('2026-10-18T12:00:00Z')
+
+const pollRow = {
+  id: 'poll-1',
+  surface: 'general',
+  message_id: 'message-1',
+  conversation_id: null,
+  created_by: 'user-1',
+  question: 'Lunch?',
+  allows_multiple: false,
+  is_anonymous: false,
+  closes_at: '2026-10-18T14:00:00Z',
+  closed_at: null,
+  vote_revision: '4',
+  voter_count: '3',
+  options: [
+    { id: 'option-b', position: 1, label: 'Tacos', vote_count: 1, viewer_voted: false, voter_ids: ['user-3'] },
+    { id: 'option-a', position: 0, label: 'Pizza', vote_count: '2', viewer_voted: true, voter_ids: ['user-1', 2] },
+    { id: null, label: 'Broken' },
+  ],
+  created_at: '2026-10-18T11:00:00Z',
+  updated_at: '2026-10-18T11:30:00Z',
+}
+
+const normalizedPoll = () => normalizeMessagePoll(pollRow) as MessagePoll
+
+test('normalizes poll tallies defensively and orders options', () => {
+  const poll = normalizedPoll()
+  expect(poll).toMatchObject({
+    id: 'poll-1',
+    surface: 'general',
+    messageId: 'message-1',
+    voteRevision: 4,
+    voterCount: 3,
+  })
+  expect(poll.options.map(option => option.label)).toEqual(['Pizza', 'Tacos'])
+  expect(poll.options[0]).toMatchObject({ voteCount: 2, viewerVoted: true, voterIds: ['user-1'] })
+  expect(normalizeMessagePoll({ id: 'poll-2' })).toBeNull()
+})
+
+test('computes shares, close state, and countdown labels', () => {
+  const poll = normalizedPoll()
+  expect(getPollOptionShare(poll, poll.options[0])).toBe(67)
+  expect(isMessagePollClosed(poll, NOW)).toBe(false)
+  expect(isMessagePollClosed(poll, Date.parse('2026-10-18T14:00:00Z'))).toBe(true)
+  expect(isMessagePollClosed({ ...poll, closesAt: null, closedAt: '2026-10-18T11:45:00Z' }, NOW)).toBe(true)
+  expect(formatPollClosesIn('2026-10-18T12:20:00Z', NOW)).toBe('Closes in 20m')
+  expect(formatPollClosesIn('2026-10-18T14:00:00Z', NOW)).toBe('Closes in 2h')
+  expect(formatPollClosesIn('2026-10-21T12:00:00Z', NOW)).toBe('Closes in 3d')
+})
+
+test('toggles single and multiple choice ballots with optimistic tallies', () => {
+  const poll = normalizedPoll()
+  expect(togglePollSelection(poll, 'option-b')).toEqual(['option-b'])
+  expect(togglePollSelection(poll, 'option-a')).toEqual([])
+  expect(togglePollSelection({ ...poll, allowsMultiple: true }, 'option-b')).toEqual(['option-a', 'option-b'])
+
+  const swapped = applyOptimisticPollVote(poll, ['option-b'])
+  expect(swapped.voterCount).toBe(3)
+  expect(swapped.options.map(option => [option.voteCount, option.viewerVoted])).toEqual([[1, false], [2, true]])
+
+  const retracted = applyOptimisticPollVote(poll, [])
+  expect(retracted.voterCount).toBe(2)
+})
+
+test('parses /poll arguments with flags and validates limits', () => {
+  expect(isPollCommand('/poll Lunch? | Pizza | Tacos')).toBe(true)
+  expect(isPollCommand('/polling')).toBe(false)
+
+  expect(parsePollCommand('Lunch? | Pizza | Tacos | pizza | --multi --anonymous --closes 2h', NOW)).toEqual({
+    question: 'Lunch?',
+    options: ['Pizza', 'Tacos'],
+    allowsMultiple: true,
+    isAnonymous: true,
+    closesAt: '2026-10-18T14:00:00.000Z',
+  })
+  expect(parsePollCommand('--anon Best day? | Sat | Sun', NOW)).toMatchObject({
+    question: 'Best day?',
+    isAnonymous: true,
+    closesAt: null,
+  })
+
+  expect(() => parsePollCommand('', NOW)).toThrow('Usage: /poll')
+  expect(() => parsePollCommand('Lunch? | Pizza', NOW)).toThrow('between 2 and 10')
+  expect(() => parsePollCommand('Lunch? | A | B --closes soon', NOW)).toThrow('--closes')
+  expect(() => parsePollCommand('Lunch? | A | B --closes 31d', NOW)).toThrow('30 days')
+  expect(() => parsePollCommand(`Lunch? | ${'x'.repeat(81)} | B`, NOW)).toThrow('80 characters')
+})
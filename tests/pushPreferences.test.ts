@@ -9,7 +9,11 @@ jest.mock('../src/lib/supabase', () => ({
   })),
 }))
 
-import { upsertNotificationPreferences } from '../src/lib/push'
+import {
+  getConversationNotificationSnoozeUntil,
+  saveConversationNotificationRule,
+  upsertNotificationPreferences,
+} from '../src/lib/push'
 
 beforeEach(() => {
   jest.clearAllMocks()
@@ -58,3 +62,35 @@ test('upserts only the changed notification preference', async () => {
     { onConflict: 'user_id' }
   )
 })
+
+test('saves a conversation notification rule for the signed-in member', async () => {
+  await saveConversationNotificationRule('user-1', {
+    conversation_id: 'conversation-1',
+    delivery_mode: 'mentions_only',
+    sound_id: 'war_drum',
+    bypass_quiet_hours: true,
+  })
+
+  expect(mockFrom).toHaveBeenCalledWith('notification_conversation_rules')
+  expect(mockUpsert).toHaveBeenCalledWith(
+    {
+      user_id: 'user-1',
+      conversation_id: 'conversation-1',
+      delivery_mode: 'mentions_only',
+      sound_id: 'war_drum',
+      bypass_quiet_hours: true,
+    },
+    { onConflict: 'user_id,conversation_id' }
+  )
+})
+
+test('computes timed conversation snoozes', () => {
+  const now = new Date(2026, 9, 18, 22, 15)
+
+  expect(getConversationNotificationSnoozeUntil('1h', now))
+    .toBe(new Date(2026, 9, 18, 23, 15).toISOString())
+  expect(getConversationNotificationSnoozeUntil('8h', now))
+    .toBe(new Date(2026, 9, 19, 6, 15).toISOString())
+  expect(getConversationNotificationSnoozeUntil('tomorrow', now))
+    .toBe(new Date(2026, 9, 19, 9, 0).toISOString())
+})
@@ -0,0 +1,109 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import type { Message, User } from '../src/lib/supabase'
+import {
+  canShowSeenBy,
+  getLatestSeenByMessage,
+  getMessageSeenByReaders,
+  isSeenBySurface,
+  normalizeReadReceiptPreferences,
+  normalizeSeenByReader,
+  type SeenByReader,
+} from '../src/features/read-receipts/readReceiptsModel'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261018220000_general_chat_read_receipts.sql')
+const presenceMigration = compact('supabase/migrations/20261019090000_read_cursor_presence_visibility.sql')
+
+const message = (id: string, createdAt: string, userId = 'me', extra: Partial<Message> = {}) => ({
+  id,
+  created_at: createdAt,
+  user_id: userId,
+  ...extra,
+}) as Message
+
+const reader = (userId: string, lastReadAt: string, lastReadMessageId: string | null = null): SeenByReader => ({
+  user: { id: userId, username: userId, display_name: userId } as User,
+  lastReadAt,
+  lastReadMessageId,
+})
+
+describe('seen-by model', () => {
+  test('only the General Chat room and its threads share read state', () => {
+    expect(isSeenBySurface('general_chat')).toBe(true)
+    expect(isSeenBySurface('general_chat_thread')).toBe(true)
+    expect(isSeenBySurface('board_chat')).toBe(false)
+    expect(isSeenBySurface('dm')).toBe(false)
+  })
+
+  test('defaults to sharing read state with the indicator off', () => {
+    expect(normalizeReadReceiptPreferences(null)).toEqual({ shareReadState: true, showSeenBy: false })
+    expect(normalizeReadReceiptPreferences({ share_read_state: false, show_seen_by: true }))
+      .toEqual({ shareReadState: false, showSeenBy: true })
+    expect(canShowSeenBy({ shareReadState: true, showSeenBy: true })).toBe(true)
+    expect(canShowSeenBy({ shareReadState: false, showSeenBy: true })).toBe(false)
+  })
+
+  test('picks the newest own message that reached the server', () => {
+    const messages = [
+      message('a', '2026-10-18T10:00:00.000Z'),
+      message('b', '2026-10-18T10:01:00.000Z', 'other'),
+      message('c', '2026-10-18T10:02:00.000Z', 'me', { delivery_status: 'failed' }),
+      message('d', '2026-10-18T10:03:00.000Z', 'me', { optimistic: true }),
+    ]
+    expect(getLatestSeenByMessage(messages, 'me')?.id).toBe('a')
+    expect(getLatestSeenByMessage(messages, null)).toBeNull()
+  })
+
+  test('counts readers whose cursor reached the message, using the id as a tie-breaker', () => {
+    const target = message('m2', '2026-10-18T10:00:00.000Z')
+    const readers = [
+      reader('ahead', '2026-10-18T10:05:00.000Z'),
+      reader('same-key', '2026-10-18T10:00:00.000Z', 'm2'),
+      reader('same-time-earlier-id', '2026-10-18T10:00:00.000Z', 'm1'),
+      reader('behind', '2026-10-18T09:59:00.000Z'),
+      reader('me', '2026-10-18T10:05:00.000Z'),
+      reader('blocked', '2026-10-18T10:05:00.000Z'),
+    ]
+    expect(getMessageSeenByReaders(target, readers, new Set(['blocked'])).map(entry => entry.user.id))
+      .toEqual(['ahead', 'same-key'])
+  })
+
+  test('drops cursor rows without an embedded profile', () => {
+    expect(normalizeSeenByReader({ last_read_at: '2026-10-18T10:00:00.000Z', user: null })).toBeNull()
+    expect(normalizeSeenByReader({
+      last_read_at: '2026-10-18T10:00:00.000Z',
+      last_read_message_id: 'm1',
+      user: { id: 'u1' },
+    })).toMatchObject({ lastReadMessageId: 'm1', user: { id: 'u1' } })
+  })
+})
+
+describe('read receipts migration', () => {
+  test('opens only General Chat cursors to other members, respecting privacy and blocks', () => {
+    expect(migration).toContain('create policy "members can view shared general chat read cursors" on public.user_read_cursors for select to authenticated')
+    expect(migration).toContain("surface in ('general_chat', 'general_chat_thread')")
+    expect(migration).toContain('and user_id <> (select auth.uid())')
+    expect(migration).toContain('where preferences.user_id in (user_read_cursors.user_id, (select auth.uid())) and not preferences.share_read_state')
+    expect(migration).toContain('and not private.users_have_block((select auth.uid()), user_id)')
+  })
+
+  test('hides the cursors of members who appear offline', () => {
+    expect(presenceMigration).toContain('drop policy if exists "members can view shared general chat read cursors" on public.user_read_cursors')
+    expect(presenceMigration).toContain("where users.id = user_read_cursors.user_id and users.presence_visibility = 'tracked'")
+    expect(presenceMigration).toContain('and not preferences.share_read_state')
+    expect(presenceMigration).toContain('and not private.users_have_block((select auth.uid()), user_id)')
+  })
+
+  test('stores preferences with sharing on and the indicator opt-in', () => {
+    expect(migration).toContain('share_read_state boolean not null default true')
+    expect(migration).toContain('show_seen_by boolean not null default false')
+    expect(migration).toContain('alter table public.read_receipt_preferences enable row level security')
+    expect(migration).toContain('grant select, insert, update on table public.read_receipt_preferences to authenticated')
+    expect(migration).not.toContain('security definer')
+  })
+})
@@ -0,0 +1,69 @@
+import {
+  fromDateTimeLocalValue,
+  getScheduledPresetTime,
+  getScheduledSendAtError,
+  isScheduledMessageForTarget,
+  mergeScheduledMessage,
+  normalizeScheduledMessage,
+  toDateTimeLocalValue,
+  type ScheduledMessage,
+} from '../src/features/scheduled-messages/scheduledMessagesModel'
+
+const row = (overrides: Record<string, unknown> = {}) => normalizeScheduledMessage({
+  id: 'scheduled-1',
+  surface: 'dm',
+  conversation_id: 'conversation-1',
+  content: 'See you soon',
+  reply_to: null,
+  send_at: '2026-10-18T15:00:00Z',
+  status: 'scheduled',
+  created_at: '2026-10-18T12:00:00Z',
+  updated_at: '2026-10-18T12:00:00Z',
+  ...overrides,
+}) as ScheduledMessage
+
+test('normalizes scheduled rows defensively', () => {
+  expect(row()).toMatchObject({
+    id: 'scheduled-1',
+    surface: 'dm',
+    conversationId: 'conversation-1',
+    sendAt: '2026-10-18T15:00:00Z',
+    status: 'scheduled',
+    failureReason: null,
+  })
+  expect(row({ status: 'exploded', surface: 'board' })).toMatchObject({ status: 'scheduled', surface: 'general' })
+  expect(normalizeScheduledMessage({ id: 'scheduled-2' })).toBeNull()
+})
+
+test('matches rows to their conversation tray', () => {
+  expect(isScheduledMessageForTarget(row(), { surface: 'dm', conversationId: 'conversation-1' })).toBe(true)
+  expect(isScheduledMessageForTarget(row(), { surface: 'dm', conversationId: 'conversation-2' })).toBe(false)
+  expect(isScheduledMessageForTarget(row({ surface: 'general', conversation_id: null }), { surface: 'general' })).toBe(true)
+})
+
+test('merges tray rows by send time and drops delivered or canceled rows', () => {
+  const later = row({ id: 'scheduled-2', send_at: '2026-10-18T18:00:00Z' })
+  const earlier = row({ id: 'scheduled-3', send_at: '2026-10-18T13:00:00Z' })
+  const merged = mergeScheduledMessage(mergeScheduledMessage([row()], later), earlier)
+  expect(merged.map(message => message.id)).toEqual(['scheduled-3', 'scheduled-1', 'scheduled-2'])
+  expect(mergeScheduledMessage(merged, row({ status: 'sent' })).map(message => message.id))
+    .toEqual(['scheduled-3', 'scheduled-2'])
+})
+
+test('computes presets and validates the send window', () => {
+  const now = new Date(2026, 9, 18, 21, 30)
+  expect(getScheduledPresetTime('in_1_hour', now).getTime()).toBe(now.getTime() + 60 * 60 * 1000)
+  expect(getScheduledPresetTime('tonight', now)).toEqual(new Date(2026, 9, 19, 20, 0))
+  expect(getScheduledPresetTime('tomorrow_morning', now)).toEqual(new Date(2026, 9, 19, 9, 0))
+
+  expect(getScheduledSendAtError(new Date(now.getTime() + 30 * 1000), now.getTime())).toMatch(/one minute/)
+  expect(getScheduledSendAtError(new Date(now.getTime() + 31 * 24 * 60 * 60 * 1000), now.getTime())).toMatch(/30 days/)
+  expect(getScheduledSendAtError(new Date(now.getTime() + 5 * 60 * 1000), now.getTime())).toBeNull()
+})
+
+test('round-trips datetime-local values in local time', () => {
+  const date = new Date(2026, 9, 18, 7, 5)
+  expect(toDateTimeLocalValue(date)).toBe('2026-10-18T07:05')
+  expect(fromDateTimeLocalValue('2026-10-18T07:05')).toEqual(date)
+  expect(fromDateTimeLocalValue('tomorrow')).toBeNull()
+})
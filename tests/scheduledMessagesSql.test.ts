@@ -0,0 +1,37 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const migration = readFileSync(
+  path.join(process.cwd(), 'supabase/migrations/20261018130000_scheduled_messages.sql'),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+describe('scheduled messages migration', () => {
+  test('keeps the queue sender-private with RPC-only writes', () => {
+    expect(migration).toContain('create table public.scheduled_messages')
+    expect(migration).toContain('using (sender_id = (select auth.uid()))')
+    expect(migration).toContain('revoke all on table public.scheduled_messages from public, anon, authenticated, service_role')
+    expect(migration).toContain('grant select on table public.scheduled_messages to authenticated')
+    expect(migration).not.toMatch(/grant (insert|update|delete)[^;]*scheduled_messages to authenticated/)
+    expect(migration).toContain('alter publication supabase_realtime add table public.scheduled_messages')
+  })
+
+  test('validates content, send window, DM membership, and queue size', () => {
+    expect(migration).toContain("target_send_at < now() + interval '1 minute'")
+    expect(migration).toContain("target_send_at > now() + interval '30 days'")
+    expect(migration).toContain("message = 'conversation is unavailable'")
+    expect(migration).toContain("raise exception 'you can have up to 50 scheduled messages at a time'")
+    expect(migration).toContain("and queued.status = 'scheduled' returning * into updated_row")
+  })
+
+  test('delivers from a cron worker that re-checks bans and stays idempotent', () => {
+    expect(migration).toContain('for update skip locked')
+    expect(migration).toContain("ban_scope := case when due_row.surface = 'general' then 'general_chat' else 'all_interaction' end")
+    expect(migration).toContain('public.is_user_channel_banned(due_row.sender_id, ban_scope)')
+    expect(migration).toContain('on conflict do nothing returning id into posted_message_id')
+    expect(migration).toContain("set status = 'failed'")
+    expect(migration).toContain("'shadowchat-scheduled-message-delivery', '* * * * *'")
+    expect(migration).toContain('select scheduled_messages_private.deliver_due_scheduled_messages(50);')
+    expect(migration).toContain('revoke all on function scheduled_messages_private.deliver_due_scheduled_messages(integer) from public, anon, authenticated, service_role')
+  })
+})
@@ -8,7 +8,7 @@ const flushPromises = async () => {
   await Promise.resolve()
 }
 
-const loadServiceWorker = (options: { caches?: unknown } = {}) => {
+const loadServiceWorker = (options: { caches?: unknown; fetch?: jest.Mock } = {}) => {
   const listeners: ListenerMap = {}
   const setAppBadge = jest.fn().mockResolvedValue(undefined)
   const clearAppBadge = jest.fn().mockResolvedValue(undefined)
@@ -39,11 +39,15 @@ const loadServiceWorker = (options: { caches?: unknown } = {}) => {
       showNotification: jest.fn().mockResolvedValue(undefined),
     },
     skipWaiting: jest.fn().mockResolvedValue(undefined),
+    crypto: {
+      randomUUID: () => '44444444-4444-4444-8444-444444444444',
+    },
   }
 
   const context = vm.createContext({
     caches: options.caches,
     clearTimeout,
+    fetch: options.fetch,
     navigator: selfMock.navigator,
     Promise,
     self: selfMock,
@@ -292,6 +296,106 @@ describe('service worker app badge handling', () => {
     expect(focus).toHaveBeenCalled()
   })
 
+  const quickActionData = {
+    type: 'dm_message',
+    conversationId: 'conversation-a',
+    messageId: 'message-a',
+    route: '/?view=dms&conversation=conversation-a&message=message-a',
+    actions: ['reply', 'react', 'mute_conversation'],
+    actionToken: 'payload.signature',
+    actionEndpoint: 'https://project.supabase.co/functions/v1/notification-action',
+  }
+
+  it('offers inline reply, reaction, and mute on signed DM pushes', async () => {
+    const { listeners, showNotification } = loadServiceWorker()
+    const pending: Promise<unknown>[] = []
+
+    listeners.push({
+      data: {
+        json: () => ({
+          title: 'JJ',
+          body: 'Still up?',
+          tag: 'dm:conversation-a',
+          data: quickActionData,
+        }),
+      },
+      waitUntil: (task: Promise<unknown>) => pending.push(task),
+    })
+
+    await Promise.allSettled(pending)
+
+    expect(showNotification).toHaveBeenCalledWith('JJ', expect.objectContaining({
+      actions: [
+        { action: 'reply', title: 'Reply', type: 'text', placeholder: 'Reply' },
+        { action: 'react', title: '❤️' },
+        { action: 'mute_conversation', title: 'Mute' },
+      ],
+    }))
+  })
+
+  it('sends an inline reply with a client message id without opening a window', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200 })
+    const { clients, listeners, showNotification } = loadServiceWorker({ fetch: fetchMock })
+    const pending: Promise<unknown>[] = []
+
+    listeners.notificationclick({
+      action: 'reply',
+      reply: '  on my way  ',
+      notification: {
+        close: jest.fn(),
+        data: quickActionData,
+        tag: 'dm:conversation-a',
+      },
+      waitUntil: (task: Promise<unknown>) => pending.push(task),
+    })
+
+    await Promise.allSettled(pending)
+
+    expect(fetchMock).toHaveBeenCalledWith(quickActionData.actionEndpoint, expect.objectContaining({
+      method: 'POST',
+    }))
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      token: 'payload.signature',
+      action: 'reply',
+      text: 'on my way',
+      clientMessageId: '44444444-4444-4444-8444-444444444444',
+    })
+    expect(clients.matchAll).not.toHaveBeenCalled()
+    expect(clients.openWindow).not.toHaveBeenCalled()
+    expect(showNotification).not.toHaveBeenCalled()
+  })
+
+  it('keeps a failed quick action in the tray and ignores foreign endpoints', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 401 })
+    const { clients, listeners, showNotification } = loadServiceWorker({ fetch: fetchMock })
+    const pending: Promise<unknown>[] = []
+
+    listeners.notificationclick({
+      action: 'react',
+      notification: { close: jest.fn(), data: quickActionData, tag: 'dm:conversation-a' },
+      waitUntil: (task: Promise<unknown>) => pending.push(task),
+    })
+    listeners.notificationclick({
+      action: 'react',
+      notification: {
+        close: jest.fn(),
+        data: { ...quickActionData, actionEndpoint: 'https://evil.example/collect' },
+      },
+      waitUntil: (task: Promise<unknown>) => pending.push(task),
+    })
+
+    await Promise.allSettled(pending)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(showNotification).toHaveBeenCalledWith('Action not completed', expect.objectContaining({
+      tag: 'dm:conversation-a',
+      data: expect.objectContaining({ conversationId: 'conversation-a', actions: [] }),
+    }))
+    expect(clients.openWindow).toHaveBeenCalledWith(
+      'https://shadowchat.test/?view=dms&conversation=conversation-a&message=message-a',
+    )
+  })
+
   it('confines legacy notification routes to the ShadowChat origin', async () => {
     const { clients, listeners } = loadServiceWorker()
     const pending: Promise<unknown>[] = []
@@ -0,0 +1,70 @@
+import {
+  applyShadowPinBoardPinChange,
+  formatShadowPinBoardCounts,
+  getShadowPinBoardVisibilityLabel,
+  normalizeShadowPinBoard,
+  normalizeShadowPinBoardFormValues,
+  type ShadowPinBoard,
+} from '../src/features/shadow-pin/boards/boardsModel'
+
+const row = {
+  id: 'board-1',
+  owner_id: 'user-1',
+  title: ' Night drives ',
+  description: '',
+  visibility: 'circle',
+  circle_id: 'circle-1',
+  pin_count: '3',
+  follower_count: 1,
+  cover_image_ids: ['pin-1', null, 'pin-2'],
+  viewer_is_following: false,
+  contains_image: true,
+  created_at: '2026-10-18T10:00:00Z',
+  updated_at: '2026-10-18T11:00:00Z',
+}
+
+describe('ShadowPin boards model', () => {
+  test('normalizes RPC rows and treats unknown scopes as private', () => {
+    const board = normalizeShadowPinBoard(row) as ShadowPinBoard
+    expect(board).toMatchObject({
+      id: 'board-1',
+      title: 'Night drives',
+      visibility: 'circle',
+      circleId: 'circle-1',
+      pinCount: 3,
+      coverImageIds: ['pin-1', 'pin-2'],
+      containsImage: true,
+    })
+    expect(normalizeShadowPinBoard({ ...row, visibility: 'everyone' })?.visibility).toBe('private')
+    expect(normalizeShadowPinBoard({ ...row, owner_id: null })).toBeNull()
+  })
+
+  test('validates form values and drops the circle outside circle scope', () => {
+    expect(normalizeShadowPinBoardFormValues({
+      title: '  Rainy   city ',
+      description: ' Neon\nreflections ',
+      visibility: 'public',
+      circleId: 'circle-1',
+    })).toEqual({ title: 'Rainy city', description: 'Neon reflections', visibility: 'public', circleId: null })
+    expect(() => normalizeShadowPinBoardFormValues({ title: ' ', description: '', visibility: 'public', circleId: null }))
+      .toThrow('Board title is required.')
+    expect(() => normalizeShadowPinBoardFormValues({ title: 'Mine', description: '', visibility: 'circle', circleId: null }))
+      .toThrow('Choose an Inner Circle for this board.')
+  })
+
+  test('labels scopes without revealing another owner\'s circle', () => {
+    expect(getShadowPinBoardVisibilityLabel({ visibility: 'connections', circleId: null })).toBe('Connections')
+    expect(getShadowPinBoardVisibilityLabel({ visibility: 'circle', circleId: null })).toBe('Inner Circle')
+    expect(getShadowPinBoardVisibilityLabel({ visibility: 'circle', circleId: null }, null, true)).toBe('Only you')
+    expect(getShadowPinBoardVisibilityLabel({ visibility: 'circle', circleId: 'circle-1' }, 'Family', true)).toBe('Family')
+  })
+
+  test('applies saves locally and prefers the server pin count', () => {
+    const board = normalizeShadowPinBoard(row) as ShadowPinBoard
+    const [removed] = applyShadowPinBoardPinChange([board], 'board-1', 'pin-1', false)
+    expect(removed).toMatchObject({ containsImage: false, pinCount: 2, coverImageIds: ['pin-2'] })
+    const [saved] = applyShadowPinBoardPinChange([removed], 'board-1', 'pin-9', true, 7)
+    expect(saved).toMatchObject({ containsImage: true, pinCount: 7, coverImageIds: ['pin-9', 'pin-2'] })
+    expect(formatShadowPinBoardCounts(saved)).toBe('7 Pins · 1 follower')
+  })
+})
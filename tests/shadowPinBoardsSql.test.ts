@@ -0,0 +1,68 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261019040000_shadow_pin_boards.sql')
+const visibilityMigration = compact('supabase/migrations/20261019100000_shadow_pin_board_pin_visibility.sql')
+const allowlist = JSON.parse(readFileSync(
+  path.join(process.cwd(), 'supabase/security-definer-allowlist.json'),
+  'utf8'
+)) as { unexposed_security_definers: string[] }
+
+describe('ShadowPin boards migration', () => {
+  test('keeps boards, saved Pins, and follows behind RPCs only', () => {
+    expect(migration).toContain('create table public.shadow_pin_boards (')
+    expect(migration).toContain('create table public.shadow_pin_board_pins (')
+    expect(migration).toContain('create table public.shadow_pin_board_follows (')
+    for (const table of ['shadow_pin_boards', 'shadow_pin_board_pins', 'shadow_pin_board_follows']) {
+      expect(migration).toContain(`revoke all on table public.${table} from public, anon, authenticated, service_role`)
+    }
+    expect(migration).not.toMatch(/grant (?:select|insert|update|delete)[^;]*shadow_pin_board[^;]*to authenticated/)
+  })
+
+  test('reuses the Connection and Inner Circle privacy scopes', () => {
+    expect(migration).toContain("visibility in ('public', 'connections', 'circle', 'private')")
+    expect(migration).toContain("check ( visibility = 'circle' or circle_id is null )")
+    expect(migration).toContain('references public.inner_circles(id) on delete set null')
+    expect(migration).toContain('when private.users_have_block(viewer_id, board_owner_id) then false')
+    expect(migration).toContain("when board_visibility = 'connections' then private.users_are_connected(viewer_id, board_owner_id)")
+    expect(migration).toContain('join public.inner_circle_members memberships')
+    expect(migration).toContain('case when boards.owner_id = caller_id then boards.circle_id end')
+  })
+
+  test('only saves Pins the caller can read and bounds every list', () => {
+    expect(migration).toContain('-- runs as the caller so shadowpin rls decides which pins can be saved.')
+    expect(migration).toContain("raise exception using errcode = '42501', message = 'pin is unavailable'")
+    expect(migration).toContain('owned_board_count >= 50')
+    expect(migration).toContain('saved_pin_count >= 500')
+    expect(migration).toContain('followed_board_count >= 200')
+    expect(migration).toContain("raise exception 'you cannot follow your own board'")
+  })
+
+  test('checks Pin visibility inside the definers, not just the wrapper', () => {
+    expect(visibilityMigration).toContain('create function shadow_pin_private.can_read_pin(')
+    expect(visibilityMigration).toContain("images.media_type = 'image' or images.processing_status = 'ready' or images.creator_id = viewer_id or public.is_app_operator(viewer_id)")
+    expect(visibilityMigration).toContain('or not private.users_have_block(viewer_id, images.creator_id)')
+    expect(visibilityMigration).toContain("if not shadow_pin_private.can_read_pin(caller_id, target_image_id) then raise exception using errcode = '42501', message = 'pin is unavailable'")
+    for (const name of ['list_boards_impl', 'set_board_pin_impl', 'list_board_pins_impl']) {
+      expect(visibilityMigration).toContain(`create or replace function shadow_pin_private.${name}(`)
+    }
+    expect(visibilityMigration.match(/and shadow_pin_private\.can_read_pin\(caller_id, pins\.image_id\)/g)).toHaveLength(4)
+    expect(visibilityMigration).toContain('revoke all on function shadow_pin_private.can_read_pin(uuid, uuid) from public, anon, authenticated, service_role')
+  })
+
+  test('registers every definer as unexposed', () => {
+    expect(allowlist.unexposed_security_definers).toEqual(expect.arrayContaining([
+      'shadow_pin_private.list_boards_impl(uuid,uuid,boolean)',
+      'shadow_pin_private.mutate_board_impl(uuid,text,text,text,text,uuid)',
+      'shadow_pin_private.set_board_pin_impl(uuid,uuid,boolean)',
+      'shadow_pin_private.list_board_pins_impl(uuid,integer,timestamp with time zone,uuid)',
+      'shadow_pin_private.set_board_follow_impl(uuid,boolean)',
+    ]))
+    expect(migration).toContain('revoke all on function shadow_pin_private.can_view_board(uuid, uuid, text, uuid) from public, anon, authenticated, service_role')
+  })
+})
@@ -0,0 +1,55 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261019030000_shadow_pin_carousel_slides.sql')
+const mediaWorker = compact('netlify/functions/_shared/shadow-pin-media.mjs')
+const mediaHandler = compact('netlify/functions/shadow-pin-media.mjs')
+const videoFunction = compact('supabase/functions/shadow-pin-video/index.ts')
+const allowlist = JSON.parse(readFileSync(
+  path.join(process.cwd(), 'supabase/security-definer-allowlist.json'),
+  'utf8'
+)) as { unexposed_security_definers: string[] }
+
+describe('ShadowPin carousel slides migration', () => {
+  test('keeps draft slides owner-private and published slides behind the Pin policy', () => {
+    expect(migration).toContain('create table public.shadow_pin_creator_draft_slides (')
+    expect(migration).toContain('create table public.shadow_pin_image_slides (')
+    expect(migration).toContain('using ((select auth.uid()) = creator_id)')
+    expect(migration).toContain('unique (image_id, position)')
+  })
+
+  test('orders slides through an unexposed, revision-guarded definer', () => {
+    expect(allowlist.unexposed_security_definers)
+      .toContain('shadow_pin_private.set_creator_draft_slides_impl(uuid,integer,jsonb)')
+    expect(migration).toContain("raise exception 'draft changed on another device'")
+    expect(migration).toContain("raise exception 'a pin can hold at most 10 slides'")
+    expect(migration).toContain("raise exception 'carousel slides can only be added to new pins'")
+    expect(migration).toContain("raise exception 'each slide needs its own media'")
+  })
+
+  test('publishes slides with the cover and refuses unpromoted ones', () => {
+    expect(migration).toContain('after insert or update of creator_draft_id on public.shadow_pin_images')
+    expect(migration).toContain("raise exception 'carousel slides are not ready to publish'")
+    expect(migration).toContain('after update of active_asset_id on public.shadow_pin_creator_drafts')
+  })
+})
+
+describe('ShadowPin carousel slide media workers', () => {
+  test('stage slides without activating them and promote them before publish', () => {
+    expect(mediaHandler).toContain("slide: body?.slide === true")
+    expect(mediaHandler).toContain("action === 'prepare-draft-slide-publish'")
+    expect(mediaWorker).toContain('export async function prepareshadowpindraftslidepublish')
+    expect(videoFunction).toContain("return badrequest('carousel slides must be uploaded videos.')")
+    expect(videoFunction).toContain("case 'prepare-draft-slide-video':")
+  })
+
+  test('keep published slide media when draft assets are cleaned up', () => {
+    expect(mediaWorker).toContain("admin.from('shadow_pin_image_slides')")
+    expect(videoFunction).toContain("forbidden('this video asset is referenced by a carousel slide.')")
+  })
+})
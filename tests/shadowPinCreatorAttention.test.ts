@@ -247,3 +247,22 @@ test('does not show the attention pill for an untouched server editing draft', a
 
   await expect(hasCreatorDraftsNeedingAttention('user-1')).resolves.toBe(false)
 })
+
+test('leaves a scheduled new Pin to the publisher until a scheduled attempt fails', () => {
+  const scheduledDraft = {
+    id: 'scheduled-draft',
+    state: 'publish_ready' as const,
+    title: 'Sunrise set',
+    active_asset_id: 'asset-1',
+    target_image_id: null,
+    scheduled_publish_at: '2026-10-20T08:00:00.000Z',
+    last_error_message: null,
+  }
+
+  expect(creatorRemoteDraftNeedsAttention(scheduledDraft)).toBe(false)
+  expect(creatorRemoteDraftNeedsAttention({
+    ...scheduledDraft,
+    last_error_message: 'Choose a category before publishing',
+  })).toBe(true)
+  expect(creatorRemoteDraftNeedsAttention({ ...scheduledDraft, scheduled_publish_at: null })).toBe(true)
+})
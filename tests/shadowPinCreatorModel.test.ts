@@ -1,11 +1,14 @@
 import {
   CREATOR_STEPS,
+  MAX_CREATOR_SLIDES,
   createInitialCreatorState,
   creatorLocalDraftHasUnsyncedChanges,
   creatorFileMatchesFingerprint,
   creatorReducer,
   fingerprintCreatorFile,
+  creatorSlideValuesFromServer,
   inferCreatorSourceKind,
+  moveCreatorSlide,
   serializeCreatorLocalDraft,
   shouldPreferLocalCreatorDraft,
   validateCreatorStep,
@@ -222,4 +225,74 @@ describe('ShadowPin Creator Studio model', () => {
 
     expect(state.savedRevision).toBe(8)
   })
+
+  test('tracks carousel slides with a cap, per-slide captions, and replace', () => {
+    const cover = new File(['cover'], 'cover.png', { type: 'image/png', lastModified: 1 })
+    const files = Array.from({ length: 12 }, (_, index) => (
+      new File([`slide ${index}`], `slide-${index}.jpg`, { type: 'image/jpeg', lastModified: index })
+    ))
+    let state = creatorReducer(createInitialCreatorState('category-1'), { type: 'set-file', file: cover })
+    state = creatorReducer(state, { type: 'add-slides', files })
+
+    expect(state.values.slides).toHaveLength(MAX_CREATOR_SLIDES - 1)
+    const [first] = state.values.slides
+    state = creatorReducer(state, { type: 'slide-staged', key: first.key, assetId: 'asset-1' })
+    state = creatorReducer(state, { type: 'set-slide-caption', key: first.key, caption: 'Second look' })
+    state = creatorReducer(state, { type: 'set-slide-caption', key: null, caption: 'The cover' })
+    expect(state.values.slides[0]).toMatchObject({ assetId: 'asset-1', caption: 'Second look' })
+    expect(state.values.coverCaption).toBe('The cover')
+
+    const replacement = new File(['new'], 'replacement.webp', { type: 'image/webp', lastModified: 9 })
+    state = creatorReducer(state, { type: 'replace-slide', key: first.key, file: replacement })
+    expect(state.values.slides[0]).toMatchObject({ assetId: null, file: replacement, caption: 'Second look' })
+
+    state = creatorReducer(state, { type: 'remove-slide', key: first.key })
+    expect(state.values.slides).toHaveLength(MAX_CREATOR_SLIDES - 2)
+    expect(validateCreatorStep('media', state.values)).toEqual([])
+    expect(validateCreatorStep('media', { ...state.values, sourceMode: 'url', sourceUrl: 'https://example.com/pin.jpg' }))
+      .toContain('Carousel Pins use uploaded images or videos.')
+    expect(validateCreatorStep('media', { ...state.values, coverCaption: 'x'.repeat(201) }))
+      .toContain('Keep each slide caption under 200 characters.')
+
+    const serialized = serializeCreatorLocalDraft(state)
+    expect(serialized.values.slides?.[0]).not.toHaveProperty('file')
+    expect(serialized.values.coverCaption).toBe('The cover')
+  })
+
+  test('moves a staged slide into the cover and keeps the old cover as a slide', () => {
+    const cover = new File(['cover'], 'cover.png', { type: 'image/png', lastModified: 1 })
+    const values = {
+      ...createInitialCreatorState().values,
+      file: cover,
+      fileFingerprint: fingerprintCreatorFile(cover),
+      coverCaption: 'Cover caption',
+      slides: [{ key: 'slide-1', assetId: 'asset-2', file: null, fileFingerprint: null, caption: 'Slide caption' }],
+    }
+
+    const moved = moveCreatorSlide(values, 1, 0, 'asset-1')
+
+    expect(moved).toMatchObject({
+      file: null,
+      keepExistingMedia: true,
+      coverCaption: 'Slide caption',
+      coverAssetId: 'asset-2',
+      slides: [{ assetId: 'asset-1', file: cover, caption: 'Cover caption' }],
+    })
+    expect(moved.slides[0].key).not.toBe('cover')
+    expect(moveCreatorSlide(values, 0, 5, 'asset-1').slides).toBe(values.slides)
+  })
+
+  test('restores slide order and captions from server rows', () => {
+    expect(creatorSlideValuesFromServer([
+      { id: 'row-2', position: 2, assetId: 'asset-3', caption: 'Third', asset: null },
+      { id: 'row-0', position: 0, assetId: 'asset-1', caption: 'Cover', asset: null },
+      { id: 'row-1', position: 1, assetId: 'asset-2', caption: '', asset: null },
+    ])).toEqual({
+      coverCaption: 'Cover',
+      slides: [
+        { key: 'row-1', assetId: 'asset-2', file: null, fileFingerprint: null, caption: '' },
+        { key: 'row-2', assetId: 'asset-3', file: null, fileFingerprint: null, caption: 'Third' },
+      ],
+    })
+  })
 })
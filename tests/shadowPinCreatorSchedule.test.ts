@@ -0,0 +1,62 @@
+import {
+  buildCreatorScheduleCalendar,
+  defaultCreatorScheduleTime,
+  formatCreatorScheduleInput,
+  isCreatorDraftScheduled,
+  parseCreatorScheduleInput,
+  validateCreatorScheduleTime,
+} from '../src/features/shadow-pin/creator/creatorSchedule'
+import type { ShadowPinCreatorDraftBundle } from '../src/features/shadow-pin/creator/creatorTypes'
+
+const now = new Date(2026, 9, 18, 9, 30)
+
+const bundle = (id: string, scheduledPublishAt: string | null, state = 'ready'): ShadowPinCreatorDraftBundle => ({
+  draft: { id, state, scheduledPublishAt, title: id } as ShadowPinCreatorDraftBundle['draft'],
+  asset: null,
+})
+
+test('round-trips datetime-local values in the device time zone', () => {
+  const date = new Date(2026, 9, 20, 7, 5)
+  expect(formatCreatorScheduleInput(date)).toBe('2026-10-20T07:05')
+  expect(parseCreatorScheduleInput('2026-10-20T07:05')?.getTime()).toBe(date.getTime())
+  expect(parseCreatorScheduleInput('2026-02-30T07:05')).toBeNull()
+  expect(parseCreatorScheduleInput('tomorrow')).toBeNull()
+})
+
+test('defaults to the next whole hour at least an hour away', () => {
+  expect(defaultCreatorScheduleTime(now)).toEqual(new Date(2026, 9, 18, 11, 0))
+  expect(defaultCreatorScheduleTime(new Date(2026, 9, 18, 9, 0))).toEqual(new Date(2026, 9, 18, 10, 0))
+})
+
+test('matches the server scheduling window', () => {
+  expect(validateCreatorScheduleTime(null, now)).toBe('Choose a date and time to publish.')
+  expect(validateCreatorScheduleTime(new Date(now.getTime() + 60_000), now)).toBe('Choose a time at least 5 minutes from now.')
+  expect(validateCreatorScheduleTime(new Date(now.getTime() + 31 * 24 * 60 * 60 * 1000), now)).toBe('Pins can be scheduled up to 30 days ahead.')
+  expect(validateCreatorScheduleTime(new Date(now.getTime() + 60 * 60 * 1000), now)).toBeNull()
+})
+
+test('ignores published, abandoned, and unscheduled drafts', () => {
+  expect(isCreatorDraftScheduled(bundle('a', '2026-10-20T08:00:00.000Z').draft)).toBe(true)
+  expect(isCreatorDraftScheduled(bundle('b', null).draft)).toBe(false)
+  expect(isCreatorDraftScheduled(bundle('c', '2026-10-20T08:00:00.000Z', 'published').draft)).toBe(false)
+  expect(isCreatorDraftScheduled(bundle('d', 'not a date').draft)).toBe(false)
+})
+
+test('groups upcoming posts by local day in publish order', () => {
+  const calendar = buildCreatorScheduleCalendar([
+    bundle('later-today', new Date(2026, 9, 18, 18, 0).toISOString()),
+    bundle('overdue', new Date(2026, 9, 18, 9, 0).toISOString()),
+    bundle('tomorrow', new Date(2026, 9, 19, 8, 0).toISOString()),
+    bundle('earlier-today', new Date(2026, 9, 18, 12, 0).toISOString()),
+    bundle('next-month', new Date(2026, 10, 10, 8, 0).toISOString()),
+    bundle('unscheduled', null),
+  ], now, 14)
+
+  expect(calendar.total).toBe(5)
+  expect(calendar.days).toHaveLength(14)
+  expect(calendar.days[0].key).toBe('2026-10-18')
+  expect(calendar.days[0].bundles.map(item => item.draft.id)).toEqual(['earlier-today', 'later-today'])
+  expect(calendar.days[1].bundles.map(item => item.draft.id)).toEqual(['tomorrow'])
+  expect(calendar.overdue.map(item => item.draft.id)).toEqual(['overdue'])
+  expect(calendar.later.map(item => item.draft.id)).toEqual(['next-month'])
+})
@@ -0,0 +1,39 @@
+import {
+  appendShadowPinForYouImages,
+  getShadowPinForYouReasonText,
+  normalizeShadowPinForYouReason,
+} from '../src/features/shadow-pin/forYouModel'
+import type { ShadowPinImage } from '../src/features/shadow-pin/types'
+
+const creator = { creator: { display_name: 'Mira', username: 'mira' } } as Pick<ShadowPinImage, 'creator'>
+const anonymous = { creator: null } as unknown as Pick<ShadowPinImage, 'creator'>
+
+describe('ShadowPin For You model', () => {
+  test('normalizes ranking reasons and falls back to new for incomplete rows', () => {
+    expect(normalizeShadowPinForYouReason({ reason_kind: 'tag', reason_action: 'heart', reason_label: ' sunsets ' }))
+      .toEqual({ kind: 'tag', action: 'heart', label: 'sunsets' })
+    expect(normalizeShadowPinForYouReason({ reason_kind: 'tag', reason_action: 'heart', reason_label: '' }))
+      .toEqual({ kind: 'new', action: null, label: null })
+    expect(normalizeShadowPinForYouReason({ reason_kind: 'trending', reason_action: 'share' }))
+      .toEqual({ kind: 'new', action: null, label: null })
+  })
+
+  test('explains each ranking signal in plain words', () => {
+    expect(getShadowPinForYouReasonText({ kind: 'tag', action: 'heart', label: 'sunsets' }, creator))
+      .toBe('Because you hearted #sunsets')
+    expect(getShadowPinForYouReasonText({ kind: 'creator', action: 'comment', label: null }, creator))
+      .toBe('Because you commented on Pins by Mira')
+    expect(getShadowPinForYouReasonText({ kind: 'connection', action: null, label: null }, anonymous))
+      .toBe('From your Connections')
+    expect(getShadowPinForYouReasonText({ kind: 'category', action: 'view', label: 'Night City' }, creator))
+      .toBe('Because you spend time in Night City')
+    expect(getShadowPinForYouReasonText({ kind: 'popular', action: null, label: null }, creator))
+      .toBe('Popular on ShadowPin')
+  })
+
+  test('appends later pages without repeating re-ranked Pins', () => {
+    const pin = (id: string) => ({ id }) as ShadowPinImage
+    expect(appendShadowPinForYouImages([pin('a'), pin('b')], [pin('b'), pin('c'), pin('c')]).map(image => image.id))
+      .toEqual(['a', 'b', 'c'])
+  })
+})
@@ -0,0 +1,43 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261019050000_shadow_pin_for_you_feed.sql')
+const allowlist = JSON.parse(readFileSync(
+  path.join(process.cwd(), 'supabase/security-definer-allowlist.json'),
+  'utf8'
+)) as { unexposed_security_definers: string[] }
+
+describe('ShadowPin For You migration', () => {
+  test('accepts the ranked feed as a saved preference', () => {
+    expect(migration).toContain("check (feed_mode in ('discover', 'connections', 'for_you'))")
+    expect(migration).toContain("'shadowpin feed mode must be discover, connections, or for_you'")
+  })
+
+  test('keeps show-less feedback private and bounded', () => {
+    expect(migration).toContain('create table public.shadow_pin_feed_feedback (')
+    expect(migration).toContain('revoke all on table public.shadow_pin_feed_feedback from public, anon, authenticated, service_role')
+    expect(migration).not.toMatch(/grant (?:select|insert|update|delete)[^;]*shadow_pin_feed_feedback[^;]*to authenticated/)
+    expect(migration).toContain('-- runs as the caller so shadowpin rls decides which pins can be hidden.')
+    expect(migration).toContain("'your own pins are not ranked in for you'")
+    expect(migration).toContain('offset 500')
+  })
+
+  test('caps each creator so one account cannot dominate the ranking', () => {
+    expect(migration).toContain('partition by scored.candidate_creator_id')
+    expect(migration).toContain('diversified.base_score - 1.25 * (diversified.creator_rank - 1) as final_score')
+    expect(migration).toContain('where diversified.creator_rank <= 6')
+    expect(migration).toContain('from blocked_user_ids blocked where blocked.user_id = images.creator_id')
+  })
+
+  test('registers every definer as unexposed', () => {
+    expect(allowlist.unexposed_security_definers).toEqual(expect.arrayContaining([
+      'shadow_pin_private.list_my_for_you_feed_impl(integer,integer,timestamp with time zone)',
+      'shadow_pin_private.set_for_you_feedback_impl(uuid,boolean)',
+    ]))
+  })
+})
@@ -0,0 +1,135 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { publishDueScheduledShadowPinDrafts } from '../netlify/functions/_shared/shadow-pin-scheduled-publish.mjs'
+
+const createQuery = (result, calls, table) => {
+  const query = {
+    filters: [],
+    then: (resolve, reject) => Promise.resolve(result).then(resolve, reject),
+    maybeSingle: async () => result,
+  }
+  for (const method of ['select', 'eq', 'gt', 'lt', 'lte', 'in', 'is', 'order', 'limit']) {
+    query[method] = (...args) => {
+      query.filters.push([method, ...args])
+      return query
+    }
+  }
+  query.update = values => {
+    calls.updated.push({ table, values })
+    return query
+  }
+  return query
+}
+
+const createAdmin = ({ drafts, assets = {}, rpcResult }) => {
+  const calls = { rpc: [], updated: [], dueQuery: null }
+  const admin = {
+    rpc: async (name, args) => {
+      calls.rpc.push([name, args])
+      return rpcResult(args)
+    },
+    from: table => {
+      if (table === 'shadow_pin_creator_drafts') {
+        const query = createQuery({ data: drafts, error: null }, calls, table)
+        calls.dueQuery ??= query
+        return query
+      }
+      if (table === 'shadow_pin_creator_draft_slides') return createQuery({ data: [], error: null }, calls, table)
+      const query = createQuery({ data: null, error: null }, calls, table)
+      query.maybeSingle = async () => {
+        const assetId = query.filters.find(([method, column]) => method === 'eq' && column === 'id')?.[2]
+        return { data: assets[assetId] ?? null, error: null }
+      }
+      return query
+    },
+  }
+  return { admin, calls }
+}
+
+const scheduledDraft = (overrides = {}) => ({
+  id: 'draft-1',
+  creator_id: 'creator-1',
+  revision: 7,
+  active_asset_id: 'asset-1',
+  publish_idempotency_key: 'key-1',
+  scheduled_publish_attempts: 0,
+  ...overrides,
+})
+
+test('publishes a due linked-video draft with its existing publish key', async () => {
+  const { admin, calls } = createAdmin({
+    drafts: [scheduledDraft()],
+    assets: { 'asset-1': { id: 'asset-1', asset_kind: 'external_video', provider: 'youtube' } },
+    rpcResult: () => ({
+      data: [{ draft: { id: 'draft-1', state: 'published' }, image: { id: 'image-1' }, was_already_published: false }],
+      error: null,
+    }),
+  })
+
+  const result = await publishDueScheduledShadowPinDrafts(admin, 20)
+
+  assert.deepEqual(result, { scanned: 1, published: 1, failures: [] })
+  assert.deepEqual(calls.rpc, [['publish_scheduled_shadow_pin_creator_draft', {
+    target_draft_id: 'draft-1',
+    target_expected_revision: 7,
+    target_publish_idempotency_key: 'key-1',
+  }]])
+  assert.deepEqual(calls.updated, [])
+  assert.ok(calls.dueQuery.filters.some(([method, column]) => method === 'lte' && column === 'scheduled_publish_at'))
+  assert.ok(calls.dueQuery.filters.some(([method, column, states]) => (
+    method === 'in' && column === 'state' && states.join() === 'ready,publish_ready'
+  )))
+})
+
+test('treats a draft a previous run already finalized as published', async () => {
+  const { admin, calls } = createAdmin({
+    drafts: [scheduledDraft({ scheduled_publish_attempts: 2 })],
+    assets: { 'asset-1': { id: 'asset-1', asset_kind: 'external_video', provider: 'vimeo' } },
+    rpcResult: () => ({
+      data: { draft: { id: 'draft-1', state: 'published' }, image: { id: 'image-1' }, was_already_published: true },
+      error: null,
+    }),
+  })
+
+  const result = await publishDueScheduledShadowPinDrafts(admin)
+
+  assert.equal(result.published, 1)
+  assert.deepEqual(result.failures, [])
+  assert.deepEqual(calls.updated, [])
+})
+
+test('records failed attempts on the draft without stopping the batch', async () => {
+  const { admin, calls } = createAdmin({
+    drafts: [
+      scheduledDraft({ id: 'draft-1', active_asset_id: 'asset-video', scheduled_publish_attempts: 1 }),
+      scheduledDraft({ id: 'draft-2', active_asset_id: 'asset-link', publish_idempotency_key: 'key-2' }),
+    ],
+    assets: {
+      'asset-video': { id: 'asset-video', asset_kind: 'video', provider: 'bunny_stream' },
+      'asset-link': { id: 'asset-link', asset_kind: 'external_video', provider: 'youtube' },
+    },
+    rpcResult: () => ({ data: null, error: new Error('Choose a category before publishing') }),
+  })
+
+  const result = await publishDueScheduledShadowPinDrafts(admin)
+
+  assert.equal(result.scanned, 2)
+  assert.equal(result.published, 0)
+  assert.deepEqual(result.failures, [
+    { draftId: 'draft-1', error: 'Uploaded videos must be published from Creator Studio.' },
+    { draftId: 'draft-2', error: 'Choose a category before publishing' },
+  ])
+  assert.deepEqual(calls.rpc.map(([name]) => name), ['publish_scheduled_shadow_pin_creator_draft'])
+  assert.deepEqual(calls.updated.map(({ values }) => values), [
+    {
+      scheduled_publish_attempts: 2,
+      last_error_code: 'scheduled_publish_failed',
+      last_error_message: 'Uploaded videos must be published from Creator Studio.',
+    },
+    {
+      scheduled_publish_attempts: 1,
+      last_error_code: 'scheduled_publish_failed',
+      last_error_message: 'Choose a category before publishing',
+    },
+  ])
+})
@@ -0,0 +1,59 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+const compact = (relativePath: string) => readFileSync(
+  path.join(process.cwd(), relativePath),
+  'utf8'
+).replace(/\s+/g, ' ').toLowerCase()
+
+const migration = compact('supabase/migrations/20261019060000_shadow_pin_scheduled_publishing.sql')
+const attemptsMigration = compact('supabase/migrations/20261019150000_shadow_pin_scheduled_publish_attempts.sql')
+const publisher = compact('netlify/functions/shadow-pin-scheduled-publisher.mjs')
+const netlifyConfig = compact('netlify.toml')
+const allowlist = JSON.parse(readFileSync(
+  path.join(process.cwd(), 'supabase/security-definer-allowlist.json'),
+  'utf8'
+)) as { unexposed_security_definers: string[] }
+
+describe('ShadowPin scheduled publishing migration', () => {
+  test('only lets owners schedule ready new Pins inside the allowed window', () => {
+    expect(migration).toContain('where draft.id = target_draft_id and draft.creator_id = caller_id for update')
+    expect(migration).toContain("current_draft.state not in ('ready', 'publish_ready')")
+    expect(migration).toContain("raise exception 'only new pins can be scheduled'")
+    expect(migration).toContain("target_publish_at < now() + interval '5 minutes'")
+    expect(migration).toContain("target_publish_at > now() + interval '30 days'")
+    expect(migration).toContain("asset.provider = 'bunny_stream'")
+  })
+
+  test('keeps scheduled media alive past its slot and clears stale schedules', () => {
+    expect(migration).toContain('expires_at = greatest(asset.expires_at, retain_until)')
+    expect(migration).toContain("if new.state not in ('ready', 'preparing_publish', 'publish_ready') then new.scheduled_publish_at := null")
+  })
+
+  test('records failed attempts without bumping the draft revision', () => {
+    expect(attemptsMigration).toContain("if to_jsonb(new) - array['scheduled_publish_attempts', 'last_error_code', 'last_error_message'] = to_jsonb(old) - array['scheduled_publish_attempts', 'last_error_code', 'last_error_message'] then return new;")
+    expect(attemptsMigration.indexOf('return new; end if;')).toBeLessThan(attemptsMigration.indexOf('new.revision := old.revision + 1'))
+  })
+
+  test('publishes due drafts idempotently through finalize for the service role only', () => {
+    expect(migration).toContain('draft_row.publish_idempotency_key is distinct from target_publish_idempotency_key')
+    expect(migration).toContain('draft_row.scheduled_publish_at is null or draft_row.scheduled_publish_at > now()')
+    expect(migration).toContain("set_config('request.jwt.claim.sub', draft_row.creator_id::text, true)")
+    expect(migration).toContain('return query select * from public.finalize_shadow_pin_creator_draft(')
+    expect(migration).toContain('grant execute on function public.publish_scheduled_shadow_pin_creator_draft(uuid, integer, uuid) to service_role;')
+    expect(migration).not.toMatch(/grant execute on function public\.publish_scheduled_shadow_pin_creator_draft[^;]*authenticated/)
+  })
+
+  test('registers every definer as unexposed', () => {
+    expect(allowlist.unexposed_security_definers).toEqual(expect.arrayContaining([
+      'shadow_pin_private.publish_scheduled_creator_draft_impl(uuid,integer,uuid)',
+      'shadow_pin_private.schedule_creator_draft_impl(uuid,integer,timestamp with time zone)',
+    ]))
+  })
+
+  test('runs the scheduled publisher every five minutes', () => {
+    expect(publisher).toContain('publishduescheduledshadowpindrafts')
+    expect(publisher).toContain("schedule: '*/5 * * * *'")
+    expect(netlifyConfig).toContain('[functions."shadow-pin-scheduled-publisher"] schedule = "*/5 * * * *"')
+  })
+})
@@ -0,0 +1,78 @@
+import {
+  canUseSlashCommand,
+  formatSlashCommandUsage,
+  getMessageAuthorUsernames,
+  getSlashCommandSuggestions,
+  parseSlashCommandArgs,
+  parseSlashCommandDuration,
+  parseSlashCommandInput,
+  type SlashCommandDefinition,
+} from '../src/features/slash-commands/slashCommandModel'
+
+const ban: SlashCommandDefinition = {
+  name: 'ban',
+  description: 'Ban a member',
+  args: [
+    { name: 'user', type: 'user', required: true },
+    { name: 'duration', type: 'duration', required: true, suggestions: ['15m', '1h', '1d'] },
+    { name: 'reason', type: 'text' },
+  ],
+  minRole: 'sub_admin',
+  execution: 'server',
+}
+
+const weather: SlashCommandDefinition = {
+  name: 'weather',
+  description: 'Weather',
+  args: [{ name: 'location', type: 'text', required: true }],
+  execution: 'server',
+}
+
+describe('slash command model', () => {
+  test('parses command input and durations', () => {
+    expect(parseSlashCommandInput('/Weather  New York ')).toEqual({ name: 'weather', rawArgs: 'New York' })
+    expect(parseSlashCommandInput('hello /weather')).toBeNull()
+    expect(parseSlashCommandDuration('90m')).toBe(90)
+    expect(parseSlashCommandDuration('1h')).toBe(60)
+    expect(parseSlashCommandDuration('2w')).toBe(20160)
+    expect(parseSlashCommandDuration('soon')).toBeNull()
+    expect(parseSlashCommandDuration('0h')).toBeNull()
+  })
+
+  test('applies argument schemas with a trailing text argument', () => {
+    expect(parseSlashCommandArgs(ban, '@rowan 1h spamming the room')).toEqual({
+      user: 'rowan',
+      duration: 60,
+      reason: 'spamming the room',
+    })
+    expect(parseSlashCommandArgs(weather, '10001')).toEqual({ location: '10001' })
+    expect(() => parseSlashCommandArgs(ban, '@rowan')).toThrow('Usage: /ban <user> <duration> [reason]')
+    expect(() => parseSlashCommandArgs(ban, '@rowan forever')).toThrow('duration must look like')
+  })
+
+  test('gates commands by admin role', () => {
+    expect(canUseSlashCommand(ban, null)).toBe(false)
+    expect(canUseSlashCommand(ban, 'sub_admin')).toBe(true)
+    expect(canUseSlashCommand(ban, 'admin')).toBe(true)
+    expect(canUseSlashCommand({ ...ban, minRole: 'admin' }, 'sub_admin')).toBe(false)
+    expect(canUseSlashCommand(weather, null)).toBe(true)
+  })
+
+  test('suggests command names, then argument values', () => {
+    expect(getSlashCommandSuggestions('/we', [ban, weather]).map(item => item.insertText)).toEqual(['/weather '])
+    expect(getSlashCommandSuggestions('/ban @ro', [ban], ['rowan', 'sky']).map(item => item.insertText))
+      .toEqual(['/ban @rowan '])
+    expect(getSlashCommandSuggestions('/ban @rowan 1', [ban]).map(item => item.insertText))
+      .toEqual(['/ban @rowan 15m ', '/ban @rowan 1h ', '/ban @rowan 1d '])
+    expect(getSlashCommandSuggestions('hello', [ban])).toEqual([])
+    expect(formatSlashCommandUsage(weather)).toBe('/weather <location>')
+  })
+
+  test('collects recent author usernames for user arguments', () => {
+    expect(getMessageAuthorUsernames([
+      { user: { username: 'sky' } },
+      { sender: { username: 'rowan' } },
+      { user: { username: 'sky' } },
+    ] as never)).toEqual(['sky', 'rowan'])
+  })
+})
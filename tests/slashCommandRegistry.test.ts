@@ -0,0 +1,86 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import {
+  executeSlashCommand,
+  listSlashCommands,
+  registerSlashCommand,
+} from '../src/features/slash-commands/slashCommandRegistry'
+import { executeServerSlashCommand } from '../src/features/slash-commands/slashCommandsApi'
+
+jest.mock('../src/features/slash-commands/slashCommandsApi', () => ({
+  executeServerSlashCommand: jest.fn(),
+}))
+
+jest.mock('../src/lib/ai', () => ({
+  summarizeConversation: jest.fn(),
+}))
+
+jest.mock('../src/lib/gifs', () => ({
+  searchKlipyGifs: jest.fn(),
+}))
+
+describe('slash command registry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  test('hides role-gated commands from members', () => {
+    expect(listSlashCommands(null).map(command => command.name)).not.toContain('ban')
+    expect(listSlashCommands('sub_admin').map(command => command.name)).toContain('ban')
+  })
+
+  test('runs client commands and ignores unknown ones', async () => {
+    await expect(executeSlashCommand('/me waves', { messages: [] })).resolves.toEqual({
+      kind: 'message',
+      content: '*waves*',
+    })
+    await expect(executeSlashCommand('/unknown thing', { messages: [] })).resolves.toBeNull()
+    await expect(executeSlashCommand('plain text', { messages: [] })).resolves.toBeNull()
+  })
+
+  test('sends server commands to the edge function with parsed args', async () => {
+    ;(executeServerSlashCommand as jest.Mock).mockResolvedValue({ kind: 'notice', message: 'done' })
+    const target = { surface: 'general' as const, conversationId: null }
+
+    await expect(executeSlashCommand('/ban @rowan 1h spam', { messages: [], target }, 'admin'))
+      .resolves.toEqual({ kind: 'notice', message: 'done' })
+    expect(executeServerSlashCommand).toHaveBeenCalledWith('ban', { user: 'rowan', duration: 60, reason: 'spam' }, target)
+  })
+
+  test('rejects gated commands before calling the server', async () => {
+    await expect(executeSlashCommand('/ban @rowan 1h', { messages: [] }, null))
+      .rejects.toThrow('You do not have permission to use /ban')
+    expect(executeServerSlashCommand).not.toHaveBeenCalled()
+  })
+
+  test('lets features register and unregister commands', async () => {
+    const unregister = registerSlashCommand({
+      name: 'Roll',
+      description: 'Roll a die',
+      args: [{ name: 'sides', type: 'number' }],
+      handler: args => ({ kind: 'message', content: `rolled d${args.sides ?? 6}` }),
+    })
+    await expect(executeSlashCommand('/roll 20', { messages: [] })).resolves.toEqual({
+      kind: 'message',
+      content: 'rolled d20',
+    })
+    unregister()
+    await expect(executeSlashCommand('/roll 20', { messages: [] })).resolves.toBeNull()
+  })
+
+  test('reports polls as unavailable without a poll handler', async () => {
+    await expect(executeSlashCommand('/poll Lunch? | Tacos | Pizza', { messages: [] }))
+      .rejects.toThrow('Polls are not available in this conversation')
+  })
+})
+
+describe('slash-command edge function', () => {
+  const source = readFileSync(path.join(process.cwd(), 'supabase/functions/slash-command/index.ts'), 'utf8')
+
+  test('resolves /ban targets by exact username before an escaped, ambiguity-checked fallback', () => {
+    expect(source).toContain(".eq('username', username)")
+    expect(source).toContain(".ilike('username', username.replace(/[\\\\%_]/g, character => `\\\\${character}`))")
+    expect(source).toContain('.limit(2)')
+    expect(source).toContain('More than one member matches @${username}. Use their exact username.')
+  })
+})
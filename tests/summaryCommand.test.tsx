@@ -29,7 +29,7 @@ test('summary slash command calls API and sends result', async () => {
   render(
     <MessageInput
       onSendMessage={onSend}
-      messages={[{ id: '1', user_id: 'u1', content: 'hello' } as any]}
+      messages={[{ id: '1', user_id: 'u1', content: 'hello', user: { display_name: 'Ana' } } as any]}
     />
   )
 
@@ -39,7 +39,7 @@ test('summary slash command calls API and sends result', async () => {
     fireEvent.keyDown(textarea, { key: 'Enter', code: 'Enter' })
   })
 
-  expect(summarizeConversation).toHaveBeenCalled()
+  expect(summarizeConversation).toHaveBeenCalledWith(expect.stringContaining('Ana: hello'))
   await waitFor(() =>
     expect(onSend).toHaveBeenCalledWith('summary text', 'text', undefined, undefined)
   )